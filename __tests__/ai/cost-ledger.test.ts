@@ -0,0 +1,222 @@
+/**
+ * AI Cost Ledger Tests
+ * Usage rows and attribution, the soft-cap downgrade and the hard cap, for
+ * getOpenAI() clients and the AI router
+ */
+
+import { calculateAICost, recordAIUsage, withAICostContext } from '@/lib/ai/cost-ledger';
+import { aiBudgetExceededResponse } from '@/lib/ai/budget-response';
+import { AIRouter } from '@/lib/ai/router';
+import { AIBudgetExceededError } from '@/lib/ai/types';
+import { getOpenAI } from '@/lib/openai-client';
+import { Stream } from 'openai/streaming';
+import type { ChatCompletionChunk } from 'openai/resources/chat/completions';
+
+const mockCreateCompletion = jest.fn();
+const mockCreateEmbedding = jest.fn();
+
+jest.mock('openai', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({
+    chat: { completions: { create: mockCreateCompletion } },
+    embeddings: { create: mockCreateEmbedding },
+  })),
+}));
+
+// The web Request/Response globals next/server needs are not available under jsdom
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init: { status?: number } = {}) => ({
+      status: init.status ?? 200,
+      json: async () => body,
+    }),
+  },
+}));
+
+type Row = Record<string, any>;
+
+const ledger: Row[] = [];
+const budgets: Record<string, { budget: Row; spentUsd: number }> = {};
+
+jest.mock('@/lib/supabase-client', () => ({
+  getSupabaseServiceRoleClient: () => ({
+    from: (table: string) => {
+      let projectId: string | undefined;
+      const query = {
+        select: () => query,
+        eq: (_column: string, value: string) => { projectId = value; return query; },
+        maybeSingle: async () => ({ data: budgets[projectId!]?.budget ?? null, error: null }),
+        insert: async (row: Row) => {
+          if (table === 'ai_cost_ledger') ledger.push(row);
+          return { error: null };
+        },
+      };
+      return query;
+    },
+    rpc: async (_name: string, params: { p_project_id: string }) => ({
+      data: budgets[params.p_project_id]?.spentUsd ?? 0,
+      error: null,
+    }),
+  }),
+}));
+
+function setBudget(projectId: string, spentUsd: number, budget: Row) {
+  budgets[projectId] = {
+    spentUsd,
+    budget: { soft_cap_action: 'downgrade', downgrade_model: 'gpt-4o-mini', ...budget },
+  };
+}
+
+// recordAIUsage is not awaited by its callers
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+beforeEach(() => {
+  ledger.length = 0;
+  mockCreateCompletion.mockReset().mockResolvedValue({
+    choices: [{ message: { content: 'ok' } }],
+    usage: { prompt_tokens: 1000, completion_tokens: 500 },
+  });
+  mockCreateEmbedding.mockReset().mockResolvedValue({
+    data: [{ embedding: [0.1, 0.2] }],
+    usage: { prompt_tokens: 200, total_tokens: 200 },
+  });
+});
+
+describe('recordAIUsage', () => {
+  it('prices the call and attributes it from the surrounding context', async () => {
+    await withAICostContext({ projectId: 'project-ledger', feature: 'spec_generation' }, () =>
+      recordAIUsage({ provider: 'openai', model: 'gpt-4o', promptTokens: 1000, completionTokens: 500 })
+    );
+
+    expect(ledger).toEqual([
+      expect.objectContaining({
+        project_id: 'project-ledger',
+        feature_type: 'spec_generation',
+        model: 'gpt-4o',
+        operation: 'completion',
+        total_tokens: 1500,
+        cost_usd: calculateAICost('gpt-4o', 1000, 500),
+      }),
+    ]);
+    expect(calculateAICost('gpt-4o', 1000, 500)).toBeGreaterThan(0);
+  });
+
+  it('does not charge for the local provider', async () => {
+    await recordAIUsage({ provider: 'local', model: 'llama3.1:8b', promptTokens: 1000, completionTokens: 500 });
+
+    expect(ledger[0]).toMatchObject({ provider: 'local', cost_usd: 0, project_id: null });
+  });
+});
+
+describe('getOpenAI metering', () => {
+  it('records the client feature unless the context names one', async () => {
+    await withAICostContext({ projectId: 'project-feature' }, () =>
+      getOpenAI('theme_detection').chat.completions.create({ model: 'gpt-4o-mini', messages: [] })
+    );
+    await withAICostContext({ projectId: 'project-feature', feature: 'daily_briefing' }, () =>
+      getOpenAI('theme_detection').chat.completions.create({ model: 'gpt-4o-mini', messages: [] })
+    );
+    await flush();
+
+    expect(ledger.map(row => row.feature_type)).toEqual(['theme_detection', 'daily_briefing']);
+  });
+
+  it('records a streamed completion from its final chunk', async () => {
+    mockCreateCompletion.mockResolvedValueOnce(new Stream(async function* () {
+      yield { choices: [{ delta: { content: 'Exports' } }] } as ChatCompletionChunk;
+      yield { choices: [], usage: { prompt_tokens: 300, completion_tokens: 40 } } as unknown as ChatCompletionChunk;
+    }, new AbortController()));
+
+    const stream = await withAICostContext({ projectId: 'project-stream' }, () =>
+      getOpenAI('ask_signalsloop').chat.completions.create({ model: 'gpt-4o-mini', messages: [], stream: true })
+    );
+    const chunks: ChatCompletionChunk[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    await flush();
+
+    expect(mockCreateCompletion).toHaveBeenCalledWith(
+      expect.objectContaining({ stream: true, stream_options: { include_usage: true } }),
+      undefined
+    );
+    expect(chunks).toHaveLength(2);
+    expect(ledger).toEqual([
+      expect.objectContaining({
+        project_id: 'project-stream',
+        feature_type: 'ask_signalsloop',
+        prompt_tokens: 300,
+        completion_tokens: 40,
+      }),
+    ]);
+  });
+
+  it('downgrades to the cheaper model once the soft cap is reached', async () => {
+    setBudget('project-soft', 60, { soft_cap_usd: 50, hard_cap_usd: 100 });
+
+    await withAICostContext({ projectId: 'project-soft' }, () =>
+      getOpenAI('spec_generation').chat.completions.create({ model: 'gpt-4o', messages: [] })
+    );
+    await flush();
+
+    expect(mockCreateCompletion).toHaveBeenCalledWith(expect.objectContaining({ model: 'gpt-4o-mini' }), undefined);
+    expect(ledger[0]).toMatchObject({ model: 'gpt-4o-mini', downgraded_from: 'gpt-4o' });
+  });
+
+  it('blocks completions and embeddings at the hard cap', async () => {
+    setBudget('project-hard', 120, { soft_cap_usd: 50, hard_cap_usd: 100 });
+
+    await expect(withAICostContext({ projectId: 'project-hard' }, () =>
+      getOpenAI('spec_generation').chat.completions.create({ model: 'gpt-4o', messages: [] })
+    )).rejects.toBeInstanceOf(AIBudgetExceededError);
+    await expect(withAICostContext({ projectId: 'project-hard' }, () =>
+      getOpenAI('duplicate_detection').embeddings.create({ model: 'text-embedding-3-small', input: 'x' })
+    )).rejects.toBeInstanceOf(AIBudgetExceededError);
+
+    expect(mockCreateCompletion).not.toHaveBeenCalled();
+    expect(mockCreateEmbedding).not.toHaveBeenCalled();
+  });
+});
+
+describe('AIRouter.embed', () => {
+  const router = new AIRouter({
+    taskRoutes: { embedding: { provider: 'openai', model: 'text-embedding-3-small' } },
+  });
+
+  it('records embedding usage against the project', async () => {
+    await withAICostContext({ projectId: 'project-embed', feature: 'duplicate_detection' }, () =>
+      router.embed('Exports time out')
+    );
+    await flush();
+
+    expect(ledger[0]).toMatchObject({
+      project_id: 'project-embed',
+      feature_type: 'duplicate_detection',
+      operation: 'embedding',
+      prompt_tokens: 200,
+    });
+  });
+
+  it('is blocked at the hard cap', async () => {
+    setBudget('project-embed-hard', 30, { hard_cap_usd: 25 });
+
+    await expect(withAICostContext({ projectId: 'project-embed-hard' }, () =>
+      router.embed('Exports time out')
+    )).rejects.toBeInstanceOf(AIBudgetExceededError);
+    expect(mockCreateEmbedding).not.toHaveBeenCalled();
+  });
+});
+
+describe('aiBudgetExceededResponse', () => {
+  it('answers 402 with the spend and cap', async () => {
+    const response = aiBudgetExceededResponse(
+      new AIBudgetExceededError('AI budget exhausted', 'project-1', 120.456, 100)
+    );
+
+    expect(response.status).toBe(402);
+    expect(await response.json()).toEqual({
+      error: 'AI budget exhausted',
+      code: 'ai_budget_exceeded',
+      spent_usd: 120.46,
+      hard_cap_usd: 100,
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Local Provider Tests
+ * Environment settings, OpenAI-compatible requests to a self-hosted server,
+ * task routes pinned to it and direct OpenAI clients following the pin
+ */
+
+import { LocalProvider, getLocalProviderConfig } from '@/lib/ai/providers/local';
+import { AIRouter } from '@/lib/ai/router';
+import { getOpenAI } from '@/lib/openai-client';
+
+// Every client shares these; the first argument says which server was called
+const mockCreateCompletion = jest.fn();
+const mockCreateEmbedding = jest.fn();
+
+jest.mock('openai', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation((options: { baseURL?: string }) => {
+    const server = options.baseURL ? 'local' : 'openai';
+    return {
+      chat: { completions: { create: (params: unknown) => mockCreateCompletion(server, params) } },
+      embeddings: { create: (params: unknown) => mockCreateEmbedding(server, params) },
+    };
+  }),
+}));
+
+jest.mock('@/lib/supabase-client', () => ({
+  getSupabaseServiceRoleClient: () => null,
+}));
+
+const LOCAL_ENV = ['LOCAL_LLM_BASE_URL', 'LOCAL_LLM_MODEL', 'LOCAL_LLM_EMBEDDING_MODEL', 'LOCAL_LLM_MAX_CONTEXT', 'AI_ROUTE_ALL_TO_LOCAL'];
+
+function completion(content: string) {
+  return {
+    choices: [{ message: { content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+  };
+}
+
+beforeEach(() => {
+  process.env.LOCAL_LLM_BASE_URL = 'http://localhost:11434/v1';
+  process.env.LOCAL_LLM_MODEL = 'llama3.1:8b';
+  mockCreateCompletion.mockReset().mockImplementation(async (server: string) => completion(`from ${server}`));
+  mockCreateEmbedding.mockReset().mockResolvedValue({
+    data: [{ embedding: [0.1, 0.2] }],
+    usage: { prompt_tokens: 4, total_tokens: 4 },
+  });
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  for (const name of LOCAL_ENV) delete process.env[name];
+  jest.restoreAllMocks();
+});
+
+describe('getLocalProviderConfig', () => {
+  it('is off until LOCAL_LLM_BASE_URL is set', () => {
+    delete process.env.LOCAL_LLM_BASE_URL;
+
+    expect(getLocalProviderConfig()).toBeNull();
+  });
+
+  it('reads the context length and ignores one that is not a positive integer', () => {
+    process.env.LOCAL_LLM_MAX_CONTEXT = '8192';
+    expect(getLocalProviderConfig()?.maxContextLength).toBe(8192);
+
+    process.env.LOCAL_LLM_MAX_CONTEXT = '8k';
+    expect(getLocalProviderConfig()?.maxContextLength).toBeUndefined();
+    expect(new LocalProvider().maxContextLength).toBe(32768);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('LOCAL_LLM_MAX_CONTEXT=8k'));
+  });
+});
+
+describe('LocalProvider', () => {
+  it('sends completions to the local server and reports usage', async () => {
+    const result = await new LocalProvider().complete(
+      [{ role: 'user', content: 'Classify this' }],
+      { responseFormat: 'json' }
+    );
+
+    expect(mockCreateCompletion).toHaveBeenCalledWith('local', expect.objectContaining({
+      model: 'llama3.1:8b',
+      response_format: { type: 'json_object' },
+    }));
+    expect(result).toMatchObject({
+      content: 'from local',
+      provider: 'local',
+      model: 'llama3.1:8b',
+      usage: { promptTokens: 12, completionTokens: 3, totalTokens: 15 },
+      finishReason: 'stop',
+    });
+  });
+
+  it('leaves out response_format for servers without JSON mode', async () => {
+    const provider = new LocalProvider({ baseURL: 'http://localhost:8000/v1', model: 'qwen', supportsJSON: false });
+
+    await provider.complete([{ role: 'user', content: 'Hi' }], { responseFormat: 'json' });
+
+    expect(mockCreateCompletion.mock.calls[0][1].response_format).toBeUndefined();
+  });
+
+  it('needs an embedding model to embed', async () => {
+    await expect(new LocalProvider().embed(['text'])).rejects.toThrow('LOCAL_LLM_EMBEDDING_MODEL');
+  });
+});
+
+describe('AIRouter with the local provider', () => {
+  const messages = [{ role: 'user' as const, content: 'Summarise this' }];
+
+  it('does not fall back from a pinned task', async () => {
+    mockCreateCompletion.mockRejectedValue(new Error('connection refused'));
+    const router = new AIRouter({
+      taskRoutes: { generation: { provider: 'local', model: 'llama3.1:8b' } },
+      fallbackChain: ['openai'],
+    });
+
+    await expect(router.complete({ type: 'generation', messages })).rejects.toThrow('connection refused');
+    expect(mockCreateCompletion.mock.calls.map(([server]) => server)).toEqual(['local']);
+  });
+
+  it('falls back along the chain for tasks that are not pinned', async () => {
+    mockCreateCompletion.mockImplementation(async (server: string) => {
+      if (server === 'openai') throw new Error('rate limited');
+      return completion('from local');
+    });
+    const router = new AIRouter({ enableSmartRouting: false, fallbackChain: ['local'] });
+
+    const result = await router.complete({ type: 'generation', messages });
+
+    expect(result.provider).toBe('local');
+    expect(mockCreateCompletion.mock.calls.map(([server]) => server)).toEqual(['openai', 'local']);
+  });
+
+  it('pins every task, embeddings included, with AI_ROUTE_ALL_TO_LOCAL', async () => {
+    process.env.AI_ROUTE_ALL_TO_LOCAL = 'true';
+    process.env.LOCAL_LLM_EMBEDDING_MODEL = 'nomic-embed-text';
+    const router = new AIRouter();
+
+    const completed = await router.complete({ type: 'conversation', messages });
+    const embedded = await router.embed('Exports time out');
+
+    expect(completed).toMatchObject({ provider: 'local', model: 'llama3.1:8b' });
+    expect(embedded).toMatchObject({ provider: 'local', model: 'nomic-embed-text' });
+    expect(mockCreateEmbedding).toHaveBeenCalledWith('local', expect.objectContaining({ model: 'nomic-embed-text' }));
+  });
+});
+
+describe('getOpenAI with AI_ROUTE_ALL_TO_LOCAL', () => {
+  const messages = [{ role: 'user' as const, content: 'Summarise this feedback' }];
+
+  it('sends direct calls to the local server with the local models', async () => {
+    process.env.AI_ROUTE_ALL_TO_LOCAL = 'true';
+    process.env.LOCAL_LLM_EMBEDDING_MODEL = 'nomic-embed-text';
+
+    await getOpenAI('categorization').chat.completions.create({ model: 'gpt-4o', messages });
+    await getOpenAI('categorization').embeddings.create({ model: 'text-embedding-3-small', input: 'Exports time out' });
+
+    expect(mockCreateCompletion).toHaveBeenCalledWith('local', expect.objectContaining({ model: 'llama3.1:8b' }));
+    expect(mockCreateEmbedding).toHaveBeenCalledWith('local', expect.objectContaining({ model: 'nomic-embed-text' }));
+  });
+
+  it('stays on OpenAI when only the local server is configured', async () => {
+    await getOpenAI('categorization').chat.completions.create({ model: 'gpt-4o', messages });
+
+    expect(mockCreateCompletion).toHaveBeenCalledWith('openai', expect.objectContaining({ model: 'gpt-4o' }));
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * API Client Tests
+ * Contract with the generated OpenAPI spec, retries, pagination and errors
+ */
+
+import {
+  API_OPERATIONS,
+  PermissionError,
+  RateLimitError,
+  SignalsLoopClient,
+  parseRetryAfter,
+  type Comment,
+  type OperationId,
+  type Post,
+  type PostStatus,
+  type Vote,
+  type VotePriority,
+} from '@/lib/api-client';
+import { generateOpenAPISpec } from '@/lib/openapi/generator';
+import type { OpenAPIOperation, OpenAPISchema } from '@/lib/openapi/schema';
+
+const POST_ID = '6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f';
+
+// Typed samples: tsc fails if the client types gain or lose a field,
+// the contract test fails if the spec does
+const SAMPLE_POST: Required<Post> = {
+  id: POST_ID,
+  project_id: POST_ID,
+  board_id: POST_ID,
+  title: 'Dark mode',
+  description: null,
+  status: 'open',
+  category: null,
+  vote_count: 0,
+  author_name: null,
+  author_email: null,
+  duplicate_of: null,
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at: null,
+};
+
+const SAMPLE_COMMENT: Required<Comment> = {
+  id: POST_ID,
+  post_id: POST_ID,
+  parent_id: null,
+  content: 'Yes please',
+  author_name: null,
+  author_email: null,
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at: null,
+};
+
+const SAMPLE_VOTE: Required<Vote> = {
+  id: POST_ID,
+  post_id: POST_ID,
+  priority: 'important',
+  created_at: '2026-10-01T00:00:00Z',
+};
+
+const POST_STATUSES: Record<PostStatus, true> = {
+  open: true,
+  planned: true,
+  in_progress: true,
+  done: true,
+  declined: true,
+};
+
+const VOTE_PRIORITIES: Record<VotePriority, true> = {
+  must_have: true,
+  important: true,
+  nice_to_have: true,
+};
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers),
+    json: async () => body,
+  } as Response;
+}
+
+function clientWith(responses: Response[]) {
+  const fetchMock = jest.fn(async () => {
+    const next = responses.shift();
+    if (!next) throw new Error('Unexpected request');
+    return next;
+  });
+  const client = new SignalsLoopClient({
+    apiKey: 'sk_test',
+    baseUrl: 'https://api.test/api/v1/',
+    fetch: fetchMock as unknown as typeof fetch,
+  });
+  return { client, fetchMock };
+}
+
+describe('contract with the OpenAPI spec', () => {
+  const spec = generateOpenAPISpec();
+  const specOperations = new Map<string, { method: string; path: string; operation: OpenAPIOperation }>();
+  for (const [path, item] of Object.entries(spec.paths)) {
+    for (const [method, operation] of Object.entries(item)) {
+      if (operation['x-required-scopes']) {
+        specOperations.set(operation.operationId, { method: method.toUpperCase(), path, operation });
+      }
+    }
+  }
+
+  it('covers exactly the scoped v1 operations', () => {
+    expect(Object.keys(API_OPERATIONS).sort()).toEqual([...specOperations.keys()].sort());
+  });
+
+  it.each(Object.keys(API_OPERATIONS) as OperationId[])('%s matches method, path, query and body', (operationId) => {
+    const client = API_OPERATIONS[operationId] as {
+      method: string;
+      path: string;
+      query?: readonly string[];
+      body?: readonly string[];
+    };
+    const published = specOperations.get(operationId)!;
+
+    expect(client.method).toBe(published.method);
+    expect(client.path).toBe(published.path);
+
+    const queryParams = (published.operation.parameters || [])
+      .filter((param) => param.in === 'query')
+      .map((param) => param.name);
+    expect([...(client.query || [])].sort()).toEqual(queryParams.sort());
+
+    const bodySchema = published.operation.requestBody?.content['application/json']?.schema;
+    expect([...(client.body || [])].sort()).toEqual(Object.keys(bodySchema?.properties || {}).sort());
+
+    expect(typeof SignalsLoopClient.prototype[operationId]).toBe('function');
+  });
+
+  it('mirrors the resource schemas and enums', () => {
+    const schemas = spec.components.schemas!;
+    const properties = (name: string) => Object.keys(schemas[name].properties || {}).sort();
+    const statusEnum = (schemas.Post.properties!.status as OpenAPISchema).enum;
+    const priorityEnum = (schemas.Vote.properties!.priority as OpenAPISchema).enum;
+
+    expect(Object.keys(SAMPLE_POST).sort()).toEqual(properties('Post'));
+    expect(Object.keys(SAMPLE_COMMENT).sort()).toEqual(properties('Comment'));
+    expect(Object.keys(SAMPLE_VOTE).sort()).toEqual(properties('Vote'));
+    expect(Object.keys(POST_STATUSES).sort()).toEqual([...(statusEnum || [])].sort());
+    expect(Object.keys(VOTE_PRIORITIES).sort()).toEqual([...(priorityEnum || [])].sort());
+  });
+});
+
+describe('SignalsLoopClient', () => {
+  it('sends the API key and serialises path and query parameters', async () => {
+    const { client, fetchMock } = clientWith([
+      jsonResponse({ data: [], pagination: { limit: 10, has_more: false, next_cursor: null } }),
+    ]);
+
+    await client.listPosts({ status: ['open', 'planned'], limit: 10, include_merged: true });
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://api.test/api/v1/posts?status=open%2Cplanned&limit=10&include_merged=true');
+    expect(init.method).toBe('GET');
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer sk_test');
+  });
+
+  it('retries 429s after Retry-After, then gives up with a RateLimitError', async () => {
+    const limited = () => jsonResponse({ error: 'Rate limit exceeded' }, 429, { 'Retry-After': '0' });
+    const { client, fetchMock } = clientWith([limited(), jsonResponse({ data: SAMPLE_POST })]);
+
+    await expect(client.getPost(POST_ID)).resolves.toEqual({ data: SAMPLE_POST });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    const exhausted = clientWith([limited(), limited(), limited(), limited()]);
+    const error = await exhausted.client.getPost(POST_ID).catch((e) => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfter).toBe(0);
+    expect(exhausted.fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('parses Retry-After as seconds or an HTTP date', () => {
+    const now = Date.parse('2026-10-19T12:00:00Z');
+    expect(parseRetryAfter('30', now)).toBe(30);
+    expect(parseRetryAfter('Mon, 19 Oct 2026 12:00:05 GMT', now)).toBe(5);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+  });
+
+  it('raises typed errors', async () => {
+    const { client } = clientWith([
+      jsonResponse(
+        { error: 'Forbidden', message: 'API key is missing required scope: votes:write', required_scopes: ['votes:write'] },
+        403
+      ),
+    ]);
+
+    const error = await client.castVote(POST_ID, { voter_email: 'jo@example.com' }).catch((e) => e);
+    expect(error).toBeInstanceOf(PermissionError);
+    expect(error).toMatchObject({ status: 403, operationId: 'castVote' });
+    expect(error.requiredScopes).toEqual(['votes:write']);
+  });
+
+  it('iterates across pages by cursor', async () => {
+    const { client, fetchMock } = clientWith([
+      jsonResponse({ data: [SAMPLE_VOTE, SAMPLE_VOTE], pagination: { limit: 2, has_more: true, next_cursor: 'abc' } }),
+      jsonResponse({ data: [SAMPLE_VOTE], pagination: { limit: 2, has_more: false, next_cursor: null } }),
+    ]);
+
+    const votes: Vote[] = [];
+    for await (const vote of client.iterateVotes(POST_ID, { limit: 2 })) {
+      votes.push(vote);
+    }
+
+    expect(votes).toHaveLength(3);
+    const [url] = fetchMock.mock.calls[1] as unknown as [string];
+    expect(url).toBe(`https://api.test/api/v1/posts/${POST_ID}/votes?limit=2&cursor=abc`);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Scoped API Key Tests
+ * Scope resolution, expiry and IP allow-lists, and enforcement in secureAPI
+ */
+
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import {
+  checkApiKeyPolicy,
+  ipMatches,
+  missingScopes,
+  resolveScopes,
+} from '@/lib/api-key-scopes';
+import { secureAPI } from '@/lib/api-security';
+import { logAPIKeyUsage } from '@/lib/audit-logger';
+import { generateOpenAPISpec } from '@/lib/openapi/generator';
+
+// The web Request/Response globals next/server needs are not available under jsdom
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init: { status?: number } = {}) => ({
+      status: init.status ?? 200,
+      headers: new Map<string, string>(),
+      json: async () => body,
+    }),
+  },
+}));
+
+jest.mock('@/lib/security-headers', () => ({
+  applySecurityHeaders: (response: unknown) => response,
+}));
+
+jest.mock('@/middleware/rate-limit', () => ({
+  withRateLimit: jest.fn((_request: unknown, handler: () => Promise<unknown>) => handler()),
+}));
+
+jest.mock('@/lib/audit-logger', () => ({
+  logAPIKeyUsage: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('@/lib/security-logger', () => ({
+  logValidationError: jest.fn(),
+  logAuthenticationFailed: jest.fn(),
+  logUnauthorizedAccess: jest.fn(),
+  extractRequestMetadata: jest.fn(() => ({})),
+}));
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+function apiRequest(method: string, url: string): NextRequest {
+  return { method, headers: new Headers(), nextUrl: new URL(url) } as unknown as NextRequest;
+}
+
+describe('scope resolution', () => {
+  it('gives keys created before scopes existed full access', () => {
+    expect(resolveScopes(null)).toEqual(['admin']);
+    expect(resolveScopes(['posts:read', 'bogus'])).toEqual(['posts:read']);
+    expect(resolveScopes([])).toEqual([]);
+  });
+
+  it('treats admin as every scope', () => {
+    expect(missingScopes(['admin'], ['votes:write', 'export:read'])).toEqual([]);
+    expect(missingScopes(['posts:read'], ['posts:read', 'posts:write'])).toEqual(['posts:write']);
+  });
+});
+
+describe('key policy', () => {
+  it('rejects revoked and expired keys', () => {
+    expect(checkApiKeyPolicy({ is_active: false }, '1.2.3.4', NOW)).toBe('API key has been revoked');
+    expect(checkApiKeyPolicy({ expires_at: '2026-10-19T11:59:59Z' }, '1.2.3.4', NOW)).toBe(
+      'API key has expired'
+    );
+    expect(checkApiKeyPolicy({ is_active: true, expires_at: '2026-11-01T00:00:00Z' }, '1.2.3.4', NOW)).toBeNull();
+  });
+
+  it('matches addresses and IPv4 CIDR ranges', () => {
+    expect(ipMatches('10.1.2.3', '10.0.0.0/8')).toBe(true);
+    expect(ipMatches('11.1.2.3', '10.0.0.0/8')).toBe(false);
+    expect(ipMatches('192.168.1.7', '192.168.1.0/30')).toBe(false);
+    expect(ipMatches('::ffff:203.0.113.4', '203.0.113.4')).toBe(true);
+    expect(ipMatches('2001:DB8::1', '2001:db8::1')).toBe(true);
+    expect(ipMatches('10.1.2.3', '10.0.0.0/40')).toBe(false);
+  });
+
+  it('enforces the IP allow-list only when one is set', () => {
+    const key = { allowed_ips: ['203.0.113.0/24'] };
+    expect(checkApiKeyPolicy(key, '203.0.113.9', NOW)).toBeNull();
+    expect(checkApiKeyPolicy(key, '198.51.100.1', NOW)).toBe('API key is not allowed from this IP address');
+    expect(checkApiKeyPolicy(key, undefined, NOW)).toBe('API key is not allowed from this IP address');
+    expect(checkApiKeyPolicy({ allowed_ips: [] }, undefined, NOW)).toBeNull();
+  });
+});
+
+describe('secureAPI scope enforcement', () => {
+  const project = { id: 'project-1', user_id: 'user-1' };
+
+  function route(scopes: string[]) {
+    const handler = jest.fn(async () => NextResponse.json({ ok: true }));
+    const wrapped = secureAPI(handler, {
+      requireAuth: true,
+      authValidator: async () => ({
+        valid: true,
+        project,
+        user: { id: project.user_id },
+        apiKey: { id: 'key-1', scopes: resolveScopes(scopes) },
+      }),
+      requiredScopes: ['votes:write'],
+    });
+    return { handler, wrapped };
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('rejects keys without the required scope', async () => {
+    const { handler, wrapped } = route(['posts:read', 'posts:write']);
+    const response = await wrapped(apiRequest('POST', 'https://app.test/api/v1/posts/1/votes'));
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ required_scopes: ['votes:write'] });
+    expect(handler).not.toHaveBeenCalled();
+    expect(logAPIKeyUsage).not.toHaveBeenCalled();
+  });
+
+  it('runs the handler and records usage per scope', async () => {
+    const { handler, wrapped } = route(['votes:write']);
+    const request = apiRequest('POST', 'https://app.test/api/v1/posts/1/votes');
+    const response = await wrapped(request);
+
+    expect(response.status).toBe(200);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ apiKey: { id: 'key-1', scopes: ['votes:write'] } }));
+    expect(logAPIKeyUsage).toHaveBeenCalledWith(
+      'key-1',
+      'project-1',
+      'POST /api/v1/posts/1/votes',
+      request,
+      'votes:write'
+    );
+  });
+});
+
+describe('OpenAPI scopes', () => {
+  it('documents the scope each v1 operation needs', () => {
+    const { paths } = generateOpenAPISpec();
+
+    expect(paths['/posts'].get!['x-required-scopes']).toEqual(['posts:read']);
+    expect(paths['/posts'].post!['x-required-scopes']).toEqual(['posts:write']);
+    expect(paths['/posts/{postId}/votes'].post!['x-required-scopes']).toEqual(['votes:write']);
+    expect(paths['/posts/{postId}/votes'].post!.responses['403'].description).toContain('required scope');
+  });
+});
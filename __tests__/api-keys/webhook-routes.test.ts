@@ -0,0 +1,155 @@
+/**
+ * Webhook Route API Key Tests
+ * The webhook management routes apply the full key policy and need the
+ * webhooks:manage scope
+ */
+
+import type { NextRequest } from 'next/server';
+import { hashAPIKey } from '@/lib/api-key-auth';
+import { GET as listWebhooks, POST as createWebhook } from '@/app/api/webhooks/projects/[projectId]/route';
+import { DELETE as deleteWebhook, PATCH as updateWebhook } from '@/app/api/webhooks/projects/[projectId]/[webhookId]/route';
+import { POST as testWebhook } from '@/app/api/webhooks/projects/[projectId]/[webhookId]/test/route';
+import { GET as listDeliveries } from '@/app/api/webhooks/projects/[projectId]/[webhookId]/deliveries/route';
+import { GET as getDelivery } from '@/app/api/webhooks/projects/[projectId]/[webhookId]/deliveries/[deliveryId]/route';
+import { POST as redeliver } from '@/app/api/webhooks/projects/[projectId]/[webhookId]/deliveries/[deliveryId]/redeliver/route';
+
+// The web Request/Response globals next/server needs are not available under jsdom
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init: { status?: number } = {}) => ({
+      status: init.status ?? 200,
+      headers: new Map<string, string>(),
+      json: async () => body,
+    }),
+  },
+}));
+
+jest.mock('@/middleware/rate-limit', () => ({
+  withRateLimit: jest.fn((_request: unknown, handler: () => Promise<unknown>) => handler()),
+}));
+
+jest.mock('@/lib/security-logger', () => ({
+  extractRequestMetadata: jest.fn(() => ({ ip: '203.0.113.9' })),
+}));
+
+jest.mock('@/lib/webhooks', () => ({
+  DEFAULT_WEBHOOK_EVENTS: ['post.created'],
+  isWebhookEvent: () => true,
+  testWebhookDelivery: jest.fn(),
+  redeliverWebhook: jest.fn(),
+}));
+
+const apiKeys: Record<string, unknown>[] = [];
+
+jest.mock('@/lib/secure-supabase', () => ({
+  getSupabaseServiceRoleClient: () => ({
+    from: () => {
+      let keyHash: unknown;
+      const query = {
+        select: () => query,
+        eq: (_column: string, value: unknown) => { keyHash = value; return query; },
+        maybeSingle: async () => ({ data: apiKeys.find(key => key.key_hash === keyHash) || null, error: null }),
+      };
+      return query;
+    },
+  }),
+}));
+
+// Webhook tables; every query succeeds
+const selectedColumns: string[] = [];
+const webhookTables = {
+  from: () => {
+    const query: Record<string, unknown> = {};
+    for (const method of ['insert', 'update', 'delete', 'eq', 'order', 'range']) {
+      query[method] = () => query;
+    }
+    query.select = (columns?: string) => {
+      if (columns) selectedColumns.push(columns);
+      return query;
+    };
+    query.single = async () => ({ data: { id: 'webhook-1', project_id: 'project-1' }, error: null });
+    query.then = (resolve: (value: unknown) => void) => resolve({ data: [], error: null, count: 0 });
+    return query;
+  },
+};
+
+jest.mock('@/lib/supabase-client', () => ({ getSupabaseServiceRoleClient: () => webhookTables }));
+jest.mock('@supabase/supabase-js', () => ({ createClient: () => webhookTables }));
+
+const NOW = Date.now();
+
+function addKey(secret: string, columns: Record<string, unknown>) {
+  apiKeys.push({
+    id: `key-${secret}`,
+    project_id: 'project-1',
+    key_hash: hashAPIKey(secret),
+    is_active: true,
+    scopes: ['webhooks:manage'],
+    projects: { id: 'project-1', slug: 'acme', name: 'Acme', plan: 'pro', user_id: 'user-1' },
+    ...columns,
+  });
+}
+
+addKey('expired', { expires_at: new Date(NOW - 60_000).toISOString() });
+addKey('revoked', { is_active: false });
+addKey('read-only', { scopes: ['posts:read'] });
+addKey('other-project', { project_id: 'project-2' });
+addKey('manager', {});
+
+function request(secret: string): NextRequest {
+  return {
+    url: 'https://app.test/api/webhooks/projects/project-1',
+    headers: new Headers({ authorization: `Bearer ${secret}` }),
+    json: async () => ({ webhook_url: 'https://hooks.test/in' }),
+  } as unknown as NextRequest;
+}
+
+const ids = { projectId: 'project-1', webhookId: 'webhook-1', deliveryId: 'delivery-1' };
+const context = { params: Promise.resolve(ids) };
+
+const routes: Array<[string, (request: NextRequest, ctx: typeof context) => Promise<{ status: number }>]> = [
+  ['GET webhooks', listWebhooks],
+  ['POST webhooks', createWebhook],
+  ['PATCH webhook', updateWebhook],
+  ['DELETE webhook', deleteWebhook],
+  ['POST webhook test', testWebhook],
+  ['GET deliveries', listDeliveries],
+  ['GET delivery', getDelivery],
+  ['POST redeliver', redeliver],
+];
+
+describe.each(routes)('%s', (_name, handler) => {
+  it('rejects expired, revoked and other projects\' keys with 401', async () => {
+    for (const secret of ['expired', 'revoked', 'other-project', 'unknown']) {
+      const response = await handler(request(secret), context);
+      expect(response.status).toBe(401);
+    }
+  });
+
+  it('rejects keys without webhooks:manage with 403', async () => {
+    const response = await handler(request('read-only'), context);
+
+    expect(response.status).toBe(403);
+    expect(await (response as unknown as { json: () => Promise<unknown> }).json()).toEqual({
+      error: 'API key is missing required scope: webhooks:manage',
+      required_scopes: ['webhooks:manage'],
+    });
+  });
+});
+
+it('lets a live key with webhooks:manage through', async () => {
+  const response = await deleteWebhook(request('manager'), context);
+
+  expect(response.status).toBe(200);
+});
+
+it('lists deliveries without their signed request headers', async () => {
+  selectedColumns.length = 0;
+  const response = await listDeliveries(request('manager'), context);
+
+  expect(response.status).toBe(200);
+  const deliveryColumns = selectedColumns[selectedColumns.length - 1];
+  expect(deliveryColumns).toContain('status_code');
+  expect(deliveryColumns).not.toContain('*');
+  expect(deliveryColumns).not.toContain('request_headers');
+});
@@ -0,0 +1,143 @@
+/**
+ * Public v1 API Tests
+ * Cursor pagination, request validation and the published OpenAPI paths
+ */
+
+import {
+  InvalidCursorError,
+  cursorFilter,
+  decodeCursor,
+  encodeCursor,
+  toCursorPage,
+} from '@/lib/api-v1/pagination';
+import {
+  CastVoteSchema,
+  CommentListQuerySchema,
+  LegacyUpdatePostSchema,
+  PostListQuerySchema,
+  UpdatePostSchema,
+  UpdatePostStatusSchema,
+} from '@/lib/api-v1/schemas';
+import { generateOpenAPISpec } from '@/lib/openapi/generator';
+
+const POST_ID = '6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f';
+
+describe('cursor pagination', () => {
+  it('round-trips cursors', () => {
+    const position = { value: '2026-10-01T12:00:00.000+00:00', id: POST_ID };
+    expect(decodeCursor(encodeCursor(position))).toEqual(position);
+    expect(decodeCursor(encodeCursor({ value: 42, id: POST_ID }))).toEqual({ value: 42, id: POST_ID });
+  });
+
+  it('rejects tampered cursors that could alter the filter', () => {
+    const tampered = Buffer.from(JSON.stringify(['x),id.neq.(', POST_ID])).toString('base64url');
+
+    expect(() => decodeCursor('not-a-cursor')).toThrow(InvalidCursorError);
+    expect(() => decodeCursor(tampered)).toThrow(InvalidCursorError);
+    expect(() => decodeCursor(encodeCursor({ value: 1, id: 'abc' }))).toThrow(InvalidCursorError);
+  });
+
+  it('builds a keyset filter that breaks ties on id', () => {
+    expect(cursorFilter('created_at', false, { value: '2026-10-01T12:00:00Z', id: POST_ID })).toBe(
+      `created_at.lt."2026-10-01T12:00:00Z",and(created_at.eq."2026-10-01T12:00:00Z",id.lt.${POST_ID})`
+    );
+    expect(cursorFilter('vote_count', true, { value: 7, id: POST_ID })).toBe(
+      `vote_count.gt.7,and(vote_count.eq.7,id.gt.${POST_ID})`
+    );
+  });
+
+  it('uses the extra row only to detect another page', () => {
+    const rows = ['3', '2', '1'].map((n) => ({
+      id: `00000000-0000-4000-8000-00000000000${n}`,
+      created_at: `2026-10-0${n}T00:00:00Z`,
+    }));
+
+    const page = toCursorPage(rows, 2, 'created_at');
+    expect(page.data).toEqual(rows.slice(0, 2));
+    expect(page.pagination.has_more).toBe(true);
+    expect(decodeCursor(page.pagination.next_cursor!)).toEqual({
+      value: rows[1].created_at,
+      id: rows[1].id,
+    });
+
+    const last = toCursorPage(rows.slice(0, 2), 2, 'created_at');
+    expect(last.pagination).toEqual({ limit: 2, has_more: false, next_cursor: null });
+  });
+});
+
+describe('request validation', () => {
+  it('parses post list filters from query strings', () => {
+    const query = PostListQuerySchema.parse({
+      status: 'open, completed',
+      limit: '10',
+      include_merged: 'true',
+      created_after: '2026-01-01T00:00:00Z',
+    });
+
+    expect(query).toMatchObject({
+      status: ['open', 'done'],
+      limit: 10,
+      include_merged: true,
+      sort: 'created_at',
+      order: 'desc',
+    });
+    expect(PostListQuerySchema.parse({}).include_merged).toBe(false);
+    expect(() => PostListQuerySchema.parse({ status: 'archived' })).toThrow();
+    expect(() => PostListQuerySchema.parse({ limit: '500' })).toThrow();
+  });
+
+  it('lists comments oldest first by default', () => {
+    expect(CommentListQuerySchema.parse({}).order).toBe('asc');
+  });
+
+  it('keeps status changes out of the generic update', () => {
+    expect(() => UpdatePostSchema.parse({})).toThrow();
+    expect(() => UpdatePostSchema.parse({ status: 'done' })).toThrow();
+    expect(UpdatePostSchema.parse({ title: ' Renamed ' })).toEqual({ title: 'Renamed' });
+    expect(UpdatePostStatusSchema.parse({ status: 'completed' }).status).toBe('done');
+  });
+
+  it('still accepts status and confidence on the legacy PUT body', () => {
+    expect(LegacyUpdatePostSchema.parse({})).toEqual({});
+    expect(
+      LegacyUpdatePostSchema.parse({ status: 'completed', category: 'Bug', confidence: 0.9, extra: 1 })
+    ).toEqual({ status: 'done', category: 'Bug', confidence: 0.9 });
+  });
+
+  it('defaults vote priority', () => {
+    expect(CastVoteSchema.parse({ voter_email: 'jo@example.com' }).priority).toBe('important');
+    expect(() => CastVoteSchema.parse({ voter_email: 'nope' })).toThrow();
+  });
+});
+
+describe('OpenAPI spec', () => {
+  it('documents every v1 post, comment and vote operation', () => {
+    const spec = generateOpenAPISpec();
+    const operations = Object.values(spec.paths).flatMap((item) =>
+      Object.values(item).map((operation) => operation.operationId)
+    );
+
+    expect(operations).toEqual(
+      expect.arrayContaining([
+        'listPosts',
+        'createPost',
+        'getPost',
+        'updatePost',
+        'deletePost',
+        'updatePostStatus',
+        'mergePost',
+        'listComments',
+        'createComment',
+        'updateComment',
+        'deleteComment',
+        'listVotes',
+        'castVote',
+        'retractVote',
+      ])
+    );
+    expect(spec.components.schemas).toHaveProperty('CursorPagination');
+    expect(spec.paths['/posts'].get!.parameters!.map((p) => p.name)).toEqual(
+      expect.arrayContaining(['cursor', 'status', 'category', 'created_after', 'created_before'])
+    );
+  });
+});
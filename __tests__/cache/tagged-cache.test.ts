@@ -0,0 +1,173 @@
+/**
+ * Tagged Response Cache Tests
+ * withCache / invalidateCacheTags against process memory and a local Redis stand-in
+ */
+
+import { getRedisStandInServer } from '../mocks/redis.mock';
+
+jest.mock('@upstash/redis', () => ({
+  Redis: jest.requireActual('../mocks/redis.mock').RedisStandIn,
+}));
+
+jest.mock('@/lib/observability/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const REDIS_URL = 'https://redis-stand-in.test/cache';
+const server = getRedisStandInServer(REDIS_URL);
+
+type CacheModule = typeof import('@/lib/cache');
+
+/**
+ * Load a fresh copy of the cache, as a separate serverless instance would
+ */
+async function loadInstance(): Promise<CacheModule> {
+  let instance: CacheModule;
+  await jest.isolateModulesAsync(async () => {
+    instance = await import('@/lib/cache');
+  });
+  return instance!;
+}
+
+function counter() {
+  let calls = 0;
+  return {
+    fn: jest.fn(async () => ({ version: ++calls })),
+    get calls() {
+      return calls;
+    },
+  };
+}
+
+describe('withCache in memory', () => {
+  it('serves cached values until a tag is invalidated', async () => {
+    const { withCache, invalidateCacheTags, cacheTags } = await loadInstance();
+    const loader = counter();
+    const options = { tags: [cacheTags.project('p1')] };
+
+    expect(await withCache('posts:p1', loader.fn, 60, options)).toEqual({ version: 1 });
+    expect(await withCache('posts:p1', loader.fn, 60, options)).toEqual({ version: 1 });
+    expect(loader.calls).toBe(1);
+
+    await invalidateCacheTags([cacheTags.project('p1')]);
+
+    expect(await withCache('posts:p1', loader.fn, 60, options)).toEqual({ version: 2 });
+    expect(loader.calls).toBe(2);
+  });
+
+  it('leaves entries with unrelated tags alone', async () => {
+    const { withCache, invalidateCacheTags, cacheTags } = await loadInstance();
+    const loader = counter();
+
+    await withCache('posts:p1', loader.fn, 60, { tags: [cacheTags.project('p1')] });
+    await invalidateCacheTags([cacheTags.project('p2'), cacheTags.post('other')]);
+    await withCache('posts:p1', loader.fn, 60, { tags: [cacheTags.project('p1')] });
+
+    expect(loader.calls).toBe(1);
+  });
+
+  it('still expires entries by TTL', async () => {
+    jest.useFakeTimers({ now: Date.UTC(2026, 0, 1) });
+    try {
+      const { withCache } = await loadInstance();
+      const loader = counter();
+
+      await withCache('project:acme', loader.fn, 300);
+      jest.setSystemTime(Date.UTC(2026, 0, 1) + 299 * 1000);
+      await withCache('project:acme', loader.fn, 300);
+      expect(loader.calls).toBe(1);
+
+      jest.setSystemTime(Date.UTC(2026, 0, 1) + 301 * 1000);
+      await withCache('project:acme', loader.fn, 300);
+      expect(loader.calls).toBe(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('does not store a value computed across an invalidation', async () => {
+    const { withCache, invalidateCacheTags, cacheTags } = await loadInstance();
+    const tags = [cacheTags.post('post-1')];
+
+    await withCache(
+      'post:post-1',
+      async () => {
+        // A write lands while the (now stale) read is in flight
+        await invalidateCacheTags(tags);
+        return 'stale';
+      },
+      60,
+      { tags }
+    );
+
+    const fresh = await withCache('post:post-1', async () => 'fresh', 60, { tags });
+    expect(fresh).toBe('fresh');
+  });
+
+  it('builds post tags from whatever ids are known', async () => {
+    const { postCacheTags } = await loadInstance();
+
+    expect(postCacheTags({ id: 'a', project_id: 'p', board_id: 'b' })).toEqual([
+      'post:a',
+      'project:p',
+      'board:b',
+    ]);
+    expect(postCacheTags({ id: 'a', project_id: null })).toEqual(['post:a']);
+  });
+});
+
+describe('withCache with Redis', () => {
+  beforeEach(() => {
+    process.env.UPSTASH_REDIS_REST_URL = REDIS_URL;
+    process.env.UPSTASH_REDIS_REST_TOKEN = 'token';
+    server.flushall();
+    server.failing = false;
+  });
+
+  afterEach(() => {
+    delete process.env.UPSTASH_REDIS_REST_URL;
+    delete process.env.UPSTASH_REDIS_REST_TOKEN;
+  });
+
+  it('shares entries and invalidations across instances', async () => {
+    const instanceA = await loadInstance();
+    const instanceB = await loadInstance();
+    const loader = counter();
+    const options = { tags: [instanceA.cacheTags.project('p1')] };
+
+    await instanceA.withCache('posts:p1', loader.fn, 60, options);
+    expect(await instanceB.withCache('posts:p1', loader.fn, 60, options)).toEqual({ version: 1 });
+    expect(loader.calls).toBe(1);
+
+    // A mutation handled by instance B purges what instance A cached
+    await instanceB.invalidateCacheTags([instanceB.cacheTags.project('p1')]);
+
+    expect(await instanceA.withCache('posts:p1', loader.fn, 60, options)).toEqual({ version: 2 });
+    expect(server.get('cache:tag:project:p1')).toBe('1');
+  });
+
+  it('falls back to memory when Redis is unreachable', async () => {
+    const { withCache } = await loadInstance();
+    const loader = counter();
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    server.failing = true;
+    await withCache('posts:p1', loader.fn, 60);
+    await withCache('posts:p1', loader.fn, 60);
+
+    expect(loader.calls).toBe(1);
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+
+  it('never throws when a purge fails', async () => {
+    const { invalidateCacheTags } = await loadInstance();
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    server.failing = true;
+    await expect(invalidateCacheTags(['project:p1'])).resolves.toBeUndefined();
+
+    errorSpy.mockRestore();
+  });
+});
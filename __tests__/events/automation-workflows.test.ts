@@ -0,0 +1,312 @@
+/**
+ * Automation Workflow Tests
+ * Conditions on event fields, placeholders, validation, sample events and
+ * runs on the event bus with history and test mode
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  AutomationContext,
+  AutomationEngine,
+  buildSampleEvent,
+  evaluateConditions,
+  renderTemplate,
+  validateAutomation,
+} from '@/lib/agents/automation-engine';
+import { EventType, type DomainEvent } from '@/lib/events/types';
+import { invalidateCacheTags, postCacheTags } from '@/lib/cache';
+import type { AutomationWorkflow } from '@/types/agent-workflow';
+
+jest.mock('@slack/web-api');
+jest.mock('@/lib/jira/encryption', () => ({ decryptToken: jest.fn() }));
+jest.mock('@/lib/jira/api', () => ({ JiraAPI: jest.fn(), getIssueUrl: jest.fn(), textToADF: jest.fn() }));
+jest.mock('@/lib/email', () => ({ sendEmail: jest.fn() }));
+jest.mock('@/lib/cache', () => ({
+  invalidateCacheTags: jest.fn(),
+  postCacheTags: jest.fn((post: { id: string }) => [`post:${post.id}`]),
+}));
+
+type Row = Record<string, any>;
+
+const context: AutomationContext = {
+  event: { type: 'sentiment.analyzed', aggregate_type: 'sentiment_analysis', aggregate_id: 'analysis-1', version: 1 },
+  payload: { post_id: 'post-1', post_title: 'Exports time out', sentiment_category: 'Negative', sentiment_score: -0.8, key_themes: ['export', 'performance'] },
+  metadata: { project_id: 'project-1', source: 'agent' },
+  customer: { company: 'Globex', plan_name: 'Enterprise Annual', mrr: 4200 },
+};
+
+function workflow(overrides: Partial<AutomationWorkflow> = {}): AutomationWorkflow {
+  return {
+    id: 'workflow-1',
+    projectId: 'project-1',
+    name: 'Escalate',
+    enabled: true,
+    triggerEventType: 'sentiment.analyzed',
+    conditionMatch: 'all',
+    conditions: [],
+    actions: [{ type: 'set_post_status', status: 'planned' }],
+    runCount: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+/**
+ * In-memory tables with the unique (workflow_id, event_id) index on live runs
+ * and the run counter RPC
+ */
+function fakeDatabase(seed: Record<string, Row[]>) {
+  const tables = new Map(Object.entries(seed));
+  let nextId = 1;
+
+  const from = (name: string) => {
+    const rows = tables.get(name) || [];
+    tables.set(name, rows);
+    const filters: Array<(row: Row) => boolean> = [];
+    let write: { kind: 'insert' | 'update'; values: Row } | null = null;
+
+    const run = () => {
+      const matching = rows.filter(row => filters.every(filter => filter(row)));
+      if (write?.kind === 'update') {
+        matching.forEach(row => Object.assign(row, write!.values));
+        return { data: matching, error: null };
+      }
+      if (write?.kind === 'insert') {
+        const values = write.values;
+        const duplicate = name === 'automation_runs' && !values.is_test && values.event_id &&
+          rows.some(row => !row.is_test && row.workflow_id === values.workflow_id && row.event_id === values.event_id);
+        if (duplicate) {
+          return { data: null, error: { code: '23505', message: 'duplicate key' } };
+        }
+        const row = { id: `row-${nextId++}`, created_at: new Date().toISOString(), ...values };
+        rows.push(row);
+        return { data: [row], error: null };
+      }
+      return { data: matching, error: null };
+    };
+
+    const query: Record<string, any> = {
+      select: () => query,
+      order: () => query,
+      limit: () => query,
+      eq: (column: string, value: unknown) => { filters.push(row => row[column] === value); return query; },
+      insert: (values: Row) => { write = { kind: 'insert', values }; return query; },
+      update: (values: Row) => { write = { kind: 'update', values }; return query; },
+      single: async () => {
+        const { data, error } = run();
+        return { data: data?.[0] ?? null, error };
+      },
+      maybeSingle: async () => {
+        const { data, error } = run();
+        return { data: data?.[0] ?? null, error };
+      },
+      then: (resolve: (value: unknown) => void) => resolve(run()),
+    };
+    return query;
+  };
+
+  // record_automation_run
+  const rpc = async (_name: string, params: { p_workflow_id: string }) => {
+    const row = tables.get('automation_workflows')?.find(candidate => candidate.id === params.p_workflow_id);
+    if (row) row.run_count = (row.run_count || 0) + 1;
+    return { data: null, error: null };
+  };
+
+  return { client: { from, rpc } as unknown as SupabaseClient, table: (name: string) => tables.get(name) || [] };
+}
+
+function workflowRow(overrides: Row = {}): Row {
+  return {
+    id: 'workflow-1',
+    project_id: 'project-1',
+    name: 'Escalate negative enterprise feedback',
+    enabled: true,
+    trigger_event_type: 'sentiment.analyzed',
+    condition_match: 'all',
+    conditions: [
+      { field: 'payload.sentiment_category', operator: 'equals', value: 'negative' },
+      { field: 'customer.plan_name', operator: 'contains', value: 'enterprise' },
+    ],
+    actions: [
+      { type: 'set_post_status', status: 'planned' },
+      { type: 'slack', channelId: 'C123', message: 'Negative feedback from {{customer.company}}' },
+    ],
+    run_count: 0,
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const sentimentEvent: DomainEvent = {
+  id: 'event-1',
+  type: EventType.SENTIMENT_ANALYZED,
+  aggregate_type: 'sentiment_analysis',
+  aggregate_id: 'analysis-1',
+  payload: { post_id: 'post-1', post_title: 'Exports time out', sentiment_category: 'negative', sentiment_score: -0.8 },
+  metadata: { project_id: 'project-1', source: 'agent' },
+  version: 1,
+};
+
+function seed() {
+  return {
+    automation_workflows: [workflowRow()],
+    automation_runs: [],
+    posts: [{ id: 'post-1', project_id: 'project-1', board_id: 'board-1', title: 'Exports time out', status: 'open', author_email: 'Priya@Globex.example' }],
+    customers: [{ id: 'customer-1', project_id: 'project-1', email: 'priya@globex.example', company: 'Globex', plan_name: 'Enterprise' }],
+    slack_connections: [],
+  };
+}
+
+describe('evaluateConditions', () => {
+  it('compares strings without case and numbers given as text', () => {
+    const { matched, results } = evaluateConditions(workflow({
+      conditions: [
+        { field: 'payload.sentiment_category', operator: 'equals', value: 'negative' },
+        { field: 'payload.sentiment_score', operator: 'less_than', value: '-0.5' },
+        { field: 'customer.plan_name', operator: 'contains', value: 'enterprise' },
+        { field: 'payload.key_themes', operator: 'contains', value: 'Export' },
+        { field: 'metadata.source', operator: 'in', value: 'agent, api' },
+        { field: 'customer.mrr', operator: 'greater_than', value: 1000 },
+      ],
+    }), context);
+
+    expect(results.map(result => result.passed)).toEqual([true, true, true, true, true, true]);
+    expect(matched).toBe(true);
+  });
+
+  it('needs every condition for "all" and one for "any"', () => {
+    const conditions = [
+      { field: 'payload.sentiment_category', operator: 'equals' as const, value: 'positive' },
+      { field: 'payload.post_id', operator: 'exists' as const },
+    ];
+
+    expect(evaluateConditions(workflow({ conditions }), context).matched).toBe(false);
+    expect(evaluateConditions(workflow({ conditions, conditionMatch: 'any' }), context).matched).toBe(true);
+  });
+
+  it('treats missing fields as not set', () => {
+    const { results } = evaluateConditions(workflow({
+      conditions: [
+        { field: 'post.status', operator: 'not_exists' },
+        { field: 'post.vote_count', operator: 'greater_than', value: 0 },
+      ],
+    }), context);
+
+    expect(results.map(result => [result.actual, result.passed])).toEqual([[undefined, true], [undefined, false]]);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('fills placeholders and leaves unknown fields empty', () => {
+    expect(renderTemplate('{{customer.company}}: {{ payload.post_title }} [{{payload.key_themes}}]{{post.title}}', context))
+      .toBe('Globex: Exports time out [export, performance]');
+  });
+});
+
+describe('validateAutomation', () => {
+  const valid = {
+    name: 'Escalate',
+    triggerEventType: 'sentiment.analyzed',
+    conditions: [{ field: 'payload.sentiment_category', operator: 'equals' as const, value: 'negative' }],
+    actions: [{ type: 'jira' as const, summary: 'Escalation: {{payload.post_title}}' }],
+  };
+
+  it('accepts a complete workflow', () => {
+    expect(validateAutomation(valid)).toBeNull();
+  });
+
+  it('rejects unknown triggers, operators and incomplete actions', () => {
+    expect(validateAutomation({ ...valid, triggerEventType: 'post.exploded' })).toBe('Unknown trigger event "post.exploded"');
+    expect(validateAutomation({ ...valid, conditions: [{ field: 'payload.x', operator: 'matches' as never }] }))
+      .toBe('Unknown operator "matches"');
+    expect(validateAutomation({ ...valid, actions: [{ type: 'email', to: ['not-an-email'], subject: 'Hi', body: 'Hi' }] }))
+      .toBe('email needs at least one valid recipient');
+    expect(validateAutomation({ ...valid, actions: [] })).toBe('A workflow needs at least one action');
+  });
+
+  it('only checks the fields of a partial update', () => {
+    expect(validateAutomation({ enabled: false }, true)).toBeNull();
+    expect(validateAutomation({ name: ' ' }, true)).toBe('Workflow name is required');
+  });
+});
+
+describe('buildSampleEvent', () => {
+  it('shapes the payload from the catalogue schema', () => {
+    const event = buildSampleEvent('sentiment.analyzed', 'project-1');
+
+    expect(event.aggregate_type).toBe('sentiment_analysis');
+    expect(event.metadata.project_id).toBe('project-1');
+    expect(event.payload).toMatchObject({
+      post_title: 'Sample post title',
+      sentiment_score: 0,
+      sentiment_category: 'positive',
+      key_themes: [],
+    });
+  });
+});
+
+describe('AutomationEngine', () => {
+  it('runs matching workflows and records the run', async () => {
+    const db = fakeDatabase(seed());
+
+    const [run] = await new AutomationEngine(db.client).handleEvent(sentimentEvent);
+
+    expect(run).toMatchObject({ eventId: 'event-1', isTest: false, status: 'partial' });
+    expect(run.actionResults).toEqual([
+      { type: 'set_post_status', status: 'succeeded', detail: 'Post status set to planned' },
+      { type: 'slack', status: 'failed', error: 'No active Slack connection' },
+    ]);
+    expect(db.table('posts')[0].status).toBe('planned');
+    expect(postCacheTags).toHaveBeenCalledWith(expect.objectContaining({ id: 'post-1', board_id: 'board-1' }));
+    expect(invalidateCacheTags).toHaveBeenCalledWith(['post:post-1']);
+    expect(db.table('automation_runs')[0]).toMatchObject({ status: 'partial', event_type: 'sentiment.analyzed' });
+    expect(db.table('automation_workflows')[0].run_count).toBe(1);
+  });
+
+  it('runs a workflow once per event', async () => {
+    const db = fakeDatabase(seed());
+    const engine = new AutomationEngine(db.client);
+
+    await engine.handleEvent(sentimentEvent);
+    const again = await engine.handleEvent(sentimentEvent);
+
+    expect(again).toEqual([]);
+    expect(db.table('automation_runs')).toHaveLength(1);
+  });
+
+  it('skips workflows whose conditions fail or that are disabled', async () => {
+    const db = fakeDatabase({
+      ...seed(),
+      automation_workflows: [workflowRow(), workflowRow({ id: 'workflow-2', enabled: false, conditions: [] })],
+      customers: [],
+    });
+
+    const runs = await new AutomationEngine(db.client).handleEvent(sentimentEvent);
+
+    expect(runs).toEqual([]);
+    expect(db.table('posts')[0].status).toBe('open');
+  });
+
+  it('tests a workflow without carrying out its actions', async () => {
+    const db = fakeDatabase(seed());
+    const engine = new AutomationEngine(db.client);
+    const saved = (await engine.getWorkflow('workflow-1'))!;
+
+    const run = await engine.testWorkflow(saved, { payload: sentimentEvent.payload });
+
+    expect(run.isTest).toBe(true);
+    expect(run.status).toBe('succeeded');
+    expect(run.actionResults).toEqual([
+      { type: 'set_post_status', status: 'simulated', detail: 'Set post status to planned' },
+      { type: 'slack', status: 'simulated', detail: 'Post to C123: Negative feedback from Globex' },
+    ]);
+    expect(db.table('posts')[0].status).toBe('open');
+    expect(db.table('automation_workflows')[0].run_count).toBe(0);
+
+    const skipped = await engine.testWorkflow(saved, { payload: { ...sentimentEvent.payload, sentiment_category: 'positive' } });
+    expect(skipped.status).toBe('skipped');
+    expect(skipped.conditionResults[0]).toMatchObject({ actual: 'positive', passed: false });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Handler Run Tests
+ * Per-(event, handler) checkpoints: only failed handlers are retried, each
+ * handler keeps its idempotency key, and a handler that keeps failing goes
+ * to the dead letter queue on its own
+ */
+
+import { getServiceRoleClient } from '@/lib/supabase-singleton';
+import { claimHandlerEffect, getHandlerNames, namedHandler, runEventHandlers } from '@/lib/events/handler-runs';
+import { AggregateType, EventType, type DomainEvent, type EventHandler } from '@/lib/events/types';
+import { getAICostContext } from '@/lib/ai/cost-ledger';
+
+jest.mock('@/lib/supabase-singleton', () => ({ getServiceRoleClient: jest.fn() }));
+
+type Row = Record<string, any>;
+
+/**
+ * In-memory tables with upserts on a unique key, optionally skipping
+ * conflicting rows
+ */
+function fakeDatabase() {
+  const tables: Record<string, Row[]> = { event_handler_runs: [], event_dead_letter_queue: [], event_handler_effects: [] };
+
+  const from = (name: string) => {
+    const filters: Array<(row: Row) => boolean> = [];
+    let result: { data: Row[] | null; error: null } | null = null;
+
+    const query: Record<string, any> = {
+      select: () => query,
+      eq: (column: string, value: unknown) => { filters.push(row => row[column] === value); return query; },
+      insert: (values: Row) => {
+        tables[name].push({ ...values });
+        result = { data: [values], error: null };
+        return query;
+      },
+      upsert: (values: Row, options: { onConflict: string; ignoreDuplicates?: boolean }) => {
+        const columns = options.onConflict.split(',');
+        const existing = tables[name].find(row => columns.every(column => row[column] === values[column]));
+        if (existing && options.ignoreDuplicates) {
+          result = { data: [], error: null };
+          return query;
+        }
+        if (existing) Object.assign(existing, values);
+        else tables[name].push({ ...values });
+        result = { data: [values], error: null };
+        return query;
+      },
+      then: (resolve: (value: unknown) => void) =>
+        resolve(result || { data: tables[name].filter(row => filters.every(filter => filter(row))), error: null }),
+    };
+    return query;
+  };
+
+  (getServiceRoleClient as jest.Mock).mockReturnValue({ from });
+  return tables;
+}
+
+const feedbackCreated: DomainEvent = {
+  id: 'event-1',
+  type: EventType.FEEDBACK_CREATED,
+  aggregate_type: AggregateType.POST,
+  aggregate_id: 'post-1',
+  payload: { title: 'Exports time out' },
+  metadata: { project_id: 'project-1' },
+  version: 1,
+};
+
+function handler(name: string, run: (event: DomainEvent) => Promise<void> = async () => {}) {
+  const calls: DomainEvent[] = [];
+  const fn = namedHandler(name, async (event) => {
+    calls.push(event);
+    await run(event);
+  });
+  return { fn, calls };
+}
+
+describe('getHandlerNames', () => {
+  it('uses explicit names, then function names, then positions', () => {
+    async function handleFeedbackCreated() {}
+    const anonymous: EventHandler[] = [async () => {}];
+
+    expect(getHandlerNames([
+      namedHandler('triageAgent', async () => {}),
+      handleFeedbackCreated,
+      handleFeedbackCreated,
+      ...anonymous,
+    ])).toEqual(['triageAgent', 'handleFeedbackCreated', 'handleFeedbackCreated#2', 'handler_4']);
+  });
+});
+
+describe('runEventHandlers', () => {
+  it('retries only the handler that failed', async () => {
+    const tables = fakeDatabase();
+    let slackUp = false;
+    const sentiment = handler('sentiment');
+    const slack = handler('slack', async () => {
+      if (!slackUp) throw new Error('Slack is down');
+    });
+
+    const first = await runEventHandlers(feedbackCreated, [sentiment.fn, slack.fn], 3);
+
+    expect(first.complete).toBe(false);
+    expect(first.results).toEqual([
+      { handlerName: 'sentiment', status: 'succeeded', attempts: 1 },
+      { handlerName: 'slack', status: 'failed', attempts: 1, error: 'Slack is down' },
+    ]);
+
+    slackUp = true;
+    const second = await runEventHandlers(feedbackCreated, [sentiment.fn, slack.fn], 3);
+
+    expect(second.complete).toBe(true);
+    expect(second.results[0]).toMatchObject({ handlerName: 'sentiment', alreadyDone: true });
+    expect(second.results[1]).toEqual({ handlerName: 'slack', status: 'succeeded', attempts: 2 });
+    expect(sentiment.calls).toHaveLength(1);
+    expect(slack.calls).toHaveLength(2);
+    expect(tables.event_handler_runs.map(row => [row.handler_name, row.status, row.attempts]))
+      .toEqual([['sentiment', 'succeeded', 1], ['slack', 'succeeded', 2]]);
+  });
+
+  it('gives each handler the same idempotency key on every attempt', async () => {
+    fakeDatabase();
+    let attempt = 0;
+    const flaky = handler('flaky', async () => {
+      attempt += 1;
+      if (attempt === 1) throw new Error('Timeout');
+    });
+
+    await runEventHandlers(feedbackCreated, [flaky.fn], 3);
+    await runEventHandlers(feedbackCreated, [flaky.fn], 3);
+
+    expect(flaky.calls.map(event => event.metadata.idempotency_key)).toEqual(['event-1:flaky', 'event-1:flaky']);
+  });
+
+  it('charges AI calls a handler makes to the event\'s project', async () => {
+    fakeDatabase();
+    let projectId: string | undefined;
+    const agent = handler('agent', async () => {
+      projectId = getAICostContext()?.projectId;
+    });
+
+    await runEventHandlers(feedbackCreated, [agent.fn], 3);
+
+    expect(projectId).toBe('project-1');
+  });
+
+  it('sends only the failing handler to the dead letter queue', async () => {
+    const tables = fakeDatabase();
+    const sentiment = handler('sentiment');
+    const broken = handler('broken', async () => {
+      throw new Error('Always fails');
+    });
+
+    await runEventHandlers(feedbackCreated, [sentiment.fn, broken.fn], 2);
+    const last = await runEventHandlers(feedbackCreated, [sentiment.fn, broken.fn], 2);
+
+    expect(last.complete).toBe(true);
+    expect(last.results[1]).toEqual({ handlerName: 'broken', status: 'dead_lettered', attempts: 2, error: 'Always fails' });
+    expect(tables.event_dead_letter_queue).toHaveLength(1);
+    expect(tables.event_dead_letter_queue[0]).toMatchObject({
+      event_id: 'event-1',
+      handler_name: 'broken',
+      error_message: 'Always fails',
+      retry_count: 2,
+      status: 'pending',
+    });
+
+    // Dead-lettered handlers are not run again
+    await runEventHandlers(feedbackCreated, [sentiment.fn, broken.fn], 2);
+    expect(broken.calls).toHaveLength(2);
+    expect(sentiment.calls).toHaveLength(1);
+  });
+
+  it('needs a stored event', async () => {
+    fakeDatabase();
+
+    await expect(runEventHandlers({ ...feedbackCreated, id: undefined }, [], 3))
+      .rejects.toThrow('Only stored events (with an id) can be checkpointed');
+  });
+});
+
+describe('claimHandlerEffect', () => {
+  it('claims a side effect once per idempotency key', async () => {
+    const tables = fakeDatabase();
+    const attempt = { ...feedbackCreated, metadata: { ...feedbackCreated.metadata, idempotency_key: 'event-1:slack' } };
+
+    expect(await claimHandlerEffect(attempt)).toBe(true);
+    expect(await claimHandlerEffect(attempt)).toBe(false);
+    expect(tables.event_handler_effects).toEqual([{ idempotency_key: 'event-1:slack' }]);
+  });
+
+  it('always claims for events handled without a key', async () => {
+    fakeDatabase();
+
+    expect(await claimHandlerEffect(feedbackCreated)).toBe(true);
+    expect(await claimHandlerEffect(feedbackCreated)).toBe(true);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Event Schema Registry Tests
+ * Payload validation at publish time, quarantine and rejection, handler
+ * version declarations and upcasting of old events
+ */
+
+import { getServiceRoleClient } from '@/lib/supabase-singleton';
+import { EVENT_CATALOGUE } from '@/lib/events/catalogue';
+import { publishEvent, publishEvents } from '@/lib/events/publisher';
+import {
+  EventValidationError,
+  eventForHandler,
+  getEventVersions,
+  handlesVersions,
+  registerEventSchemaVersion,
+  upcastEvent,
+  validateEvent,
+} from '@/lib/events/schema-registry';
+import { AggregateType, EventType, type DomainEvent, type EventHandler } from '@/lib/events/types';
+
+jest.mock('@/lib/supabase-singleton', () => ({ getServiceRoleClient: jest.fn() }));
+
+type Row = Record<string, any>;
+
+function fakeDatabase() {
+  const tables: Record<string, Row[]> = { events: [], event_quarantine: [] };
+
+  const from = (name: string) => {
+    let inserted: Row[] = [];
+    const query: Record<string, any> = {
+      insert: (values: Row | Row[]) => {
+        inserted = (Array.isArray(values) ? values : [values]).map((row, index) => ({ id: `${name}-${tables[name].length + index + 1}`, ...row }));
+        tables[name].push(...inserted);
+        return query;
+      },
+      select: () => query,
+      single: async () => ({ data: inserted[0], error: null }),
+      then: (resolve: (value: unknown) => void) => resolve({ data: inserted, error: null }),
+    };
+    return query;
+  };
+
+  (getServiceRoleClient as jest.Mock).mockReturnValue({ from });
+  return tables;
+}
+
+function atRiskEvent(overrides: Partial<DomainEvent> = {}): DomainEvent {
+  return {
+    type: EventType.USER_AT_RISK,
+    aggregate_type: AggregateType.USER,
+    aggregate_id: 'user-1',
+    payload: { risk_level: 'high', negative_feedback_ratio: 0.6, recent_negative_count: 4 },
+    metadata: { project_id: 'project-1', source: 'user_engagement_agent' },
+    version: 1,
+    ...overrides,
+  };
+}
+
+describe('validateEvent', () => {
+  it('accepts an event that matches its catalogue schema', () => {
+    expect(validateEvent(atRiskEvent())).toEqual({ valid: true, errors: [] });
+  });
+
+  it('reports every envelope and payload problem', () => {
+    const { valid, errors } = validateEvent(atRiskEvent({
+      aggregate_type: 'post',
+      payload: { negative_feedback_ratio: 'high', recent_negative_count: 2.5, reason: null },
+      metadata: {} as DomainEvent['metadata'],
+    }));
+
+    expect(valid).toBe(false);
+    expect(errors).toEqual([
+      'aggregate_type must be "user", got "post"',
+      'metadata.project_id is required',
+      'payload.risk_level is required',
+      'payload.negative_feedback_ratio must be a number, got string',
+      'payload.recent_negative_count must be an integer, got number',
+    ]);
+  });
+
+  it('checks enums and array items', () => {
+    const { errors } = validateEvent({
+      type: EventType.SENTIMENT_ANALYZED,
+      aggregate_type: AggregateType.SENTIMENT,
+      aggregate_id: 'analysis-1',
+      payload: { post_id: 'post-1', sentiment_category: 'furious', sentiment_score: -0.9, key_themes: ['export', 3] },
+      metadata: { project_id: 'project-1' },
+      version: 1,
+    });
+
+    expect(errors).toEqual([
+      'payload.sentiment_category must be one of positive, negative, neutral, mixed',
+      'payload.key_themes[1] must be a string, got number',
+    ]);
+  });
+
+  it('rejects unknown types and versions', () => {
+    expect(validateEvent(atRiskEvent({ type: 'feedback.triaged' })).errors).toEqual(['Unknown event type "feedback.triaged"']);
+    expect(validateEvent(atRiskEvent({ version: 7 })).errors).toEqual(['Unknown version 7 of user.at_risk (known: 1)']);
+  });
+});
+
+describe('publishEvent', () => {
+  const originalMode = process.env.EVENT_VALIDATION_MODE;
+
+  afterEach(() => {
+    process.env.EVENT_VALIDATION_MODE = originalMode;
+  });
+
+  it('publishes valid events to the event store', async () => {
+    const tables = fakeDatabase();
+
+    const published = await publishEvent(atRiskEvent());
+
+    expect(published.id).toBe('events-1');
+    expect(tables.events[0].metadata.timestamp).toBeDefined();
+    expect(tables.event_quarantine).toHaveLength(0);
+  });
+
+  it('quarantines invalid events by default', async () => {
+    const tables = fakeDatabase();
+
+    const result = await publishEvent(atRiskEvent({ payload: { reason: 'No risk level' } }));
+
+    expect(result.id).toBeUndefined();
+    expect(tables.events).toHaveLength(0);
+    expect(tables.event_quarantine[0]).toMatchObject({
+      project_id: 'project-1',
+      type: 'user.at_risk',
+      version: 1,
+      errors: ['payload.risk_level is required'],
+    });
+  });
+
+  it('rejects invalid events when asked to', async () => {
+    const tables = fakeDatabase();
+
+    await expect(publishEvent(atRiskEvent({ payload: {} }), { onInvalid: 'reject' })).rejects.toThrow(EventValidationError);
+
+    process.env.EVENT_VALIDATION_MODE = 'reject';
+    await expect(publishEvents([atRiskEvent(), atRiskEvent({ aggregate_id: '' })])).rejects.toMatchObject({
+      errors: ['user.at_risk: aggregate_id is required'],
+    });
+    expect(tables.events).toHaveLength(0);
+    expect(tables.event_quarantine).toHaveLength(0);
+  });
+
+  it('publishes the valid part of a batch and quarantines the rest', async () => {
+    const tables = fakeDatabase();
+
+    const published = await publishEvents([atRiskEvent(), atRiskEvent({ metadata: undefined as never })]);
+
+    expect(published).toHaveLength(1);
+    expect(tables.events).toHaveLength(1);
+    expect(tables.event_quarantine[0]).toMatchObject({ project_id: null, errors: ['metadata.project_id is required'] });
+  });
+});
+
+describe('versioning', () => {
+  const definition = EVENT_CATALOGUE[EventType.USER_AT_RISK];
+  const v1Schema = definition.payload;
+
+  // user.at_risk v2 nests the risk details; v1 is registered with an upcaster
+  beforeAll(() => {
+    EVENT_CATALOGUE[EventType.USER_AT_RISK] = {
+      ...definition,
+      version: 2,
+      payload: {
+        type: 'object',
+        properties: {
+          risk: {
+            type: 'object',
+            properties: { level: { type: 'string' }, ratio: { type: 'number' } },
+            required: ['level'],
+          },
+        },
+        required: ['risk'],
+      },
+    };
+    registerEventSchemaVersion(EventType.USER_AT_RISK, {
+      version: 1,
+      payload: v1Schema,
+      upcast: ({ risk_level, negative_feedback_ratio, ...rest }) => ({
+        ...rest,
+        risk: { level: risk_level, ratio: negative_feedback_ratio },
+      }),
+    });
+  });
+
+  afterAll(() => {
+    EVENT_CATALOGUE[EventType.USER_AT_RISK] = definition;
+  });
+
+  it('validates each version against its own schema', () => {
+    expect(getEventVersions(EventType.USER_AT_RISK)).toEqual([1, 2]);
+    expect(validateEvent(atRiskEvent()).valid).toBe(true);
+    expect(validateEvent(atRiskEvent({ version: 2 })).errors).toEqual(['payload.risk is required']);
+  });
+
+  it('only registers versions older than the current one', () => {
+    expect(() => registerEventSchemaVersion(EventType.USER_AT_RISK, { version: 2, payload: v1Schema, upcast: p => p }))
+      .toThrow('user.at_risk v2 is not older than the current version v2');
+  });
+
+  it('upcasts old events to the current shape', () => {
+    const upcast = upcastEvent(atRiskEvent());
+
+    expect(upcast.version).toBe(2);
+    expect(upcast.payload).toEqual({ recent_negative_count: 4, risk: { level: 'high', ratio: 0.6 } });
+    expect(validateEvent(upcast).valid).toBe(true);
+  });
+
+  it('gives each handler a version it declares', () => {
+    const current: EventHandler = async () => {};
+    const legacy = handlesVersions([1], async () => {});
+    const v2Only = handlesVersions([2], async () => {});
+
+    expect(eventForHandler(atRiskEvent(), current)?.version).toBe(2);
+    expect(eventForHandler(atRiskEvent(), legacy)?.payload.risk_level).toBe('high');
+    expect(eventForHandler(atRiskEvent(), v2Only)?.payload.risk).toEqual({ level: 'high', ratio: 0.6 });
+    expect(eventForHandler(atRiskEvent({ version: 2 }), legacy)).toBeNull();
+  });
+
+  it('fails when an upcaster is missing', () => {
+    expect(() => upcastEvent(atRiskEvent({ version: 1 }), 3)).toThrow('No upcaster for user.at_risk v2');
+  });
+});
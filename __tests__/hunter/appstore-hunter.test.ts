@@ -0,0 +1,169 @@
+/**
+ * App Store Hunter Tests
+ * Review discovery from the public reviews feed across storefronts,
+ * against recorded feed pages
+ */
+
+import { AppStoreHunter, parseAppStoreFeed } from '@/lib/hunters/appstore-hunter';
+import { getHunter, getSupportedPlatforms } from '@/lib/hunters';
+import type { HunterConfig, PlatformIntegration } from '@/types/hunter';
+
+import reviewsUs from '../mocks/fixtures/appstore/reviews-us.json';
+import reviewsGb from '../mocks/fixtures/appstore/reviews-gb.json';
+
+jest.mock('@/lib/openai-client', () => ({
+  getOpenAI: jest.fn(() => ({})),
+}));
+
+jest.mock('@/lib/hunters/concurrency', () => ({
+  checkOpenAIRateLimit: jest.fn(async () => ({ allowed: true })),
+}));
+
+jest.mock('@/lib/supabase-client', () => ({
+  getSupabaseServiceRoleClient: jest.fn(() => null),
+}));
+
+const APP_ID = '1477376905';
+
+const config = {
+  id: 'config-1',
+  project_id: 'project-1',
+  company_name: 'SignalsLoop',
+  name_variations: [],
+  competitors: [],
+  keywords: ['roadmap'],
+  excluded_keywords: ['giveaway'],
+} as unknown as HunterConfig;
+
+function integration(platformConfig: PlatformIntegration['config']): PlatformIntegration {
+  return {
+    id: 'integration-1',
+    project_id: 'project-1',
+    platform_type: 'appstore',
+    config: platformConfig,
+    status: 'active',
+  } as PlatformIntegration;
+}
+
+function mockFeeds(pages: Record<string, unknown>) {
+  const fetchMock = jest.fn(async (url: string) => {
+    const page = pages[url.replace('https://itunes.apple.com', '')];
+    return page
+      ? { ok: true, status: 200, json: async () => page }
+      : { ok: false, status: 400, json: async () => ({}) };
+  });
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+const feedPath = (country: string, page: number) =>
+  `/${country}/rss/customerreviews/page=${page}/id=${APP_ID}/sortby=mostrecent/json`;
+
+describe('parseAppStoreFeed', () => {
+  it('skips the app-info entry and maps review fields', () => {
+    const reviews = parseAppStoreFeed(reviewsUs, 'us');
+
+    expect(reviews).toHaveLength(5);
+    expect(reviews[0]).toMatchObject({
+      id: '11235813001',
+      title: 'Crashes on launch',
+      author: 'frustrated_pm',
+      rating: 1,
+      version: '4.2.0',
+      voteCount: 3,
+      country: 'us',
+    });
+    expect(reviews[0].date.toISOString()).toBe('2026-10-18T16:30:00.000Z');
+  });
+
+  it('accepts a single entry object and empty feeds', () => {
+    const single = { feed: { entry: reviewsGb.feed.entry[1] } };
+
+    expect(parseAppStoreFeed(single, 'gb').map((r) => r.id)).toEqual(['11235813101']);
+    expect(parseAppStoreFeed({ feed: {} }, 'gb')).toEqual([]);
+    expect(parseAppStoreFeed(null, 'gb')).toEqual([]);
+  });
+});
+
+describe('AppStoreHunter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z'), doNotFake: ['setTimeout'] });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(AppStoreHunter.prototype as any, 'delay').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('pulls reviews from every storefront and dedupes by review id', async () => {
+    const fetchMock = mockFeeds({
+      [feedPath('us', 1)]: reviewsUs,
+      [feedPath('gb', 1)]: reviewsGb,
+    });
+
+    const results = await new AppStoreHunter().hunt(
+      config,
+      integration({ appstore_app_id: APP_ID, appstore_countries: ['US', 'gb'] })
+    );
+
+    expect(results.map((r) => r.platform_id)).toEqual(['11235813001', '11235813002', '11235813101']);
+    expect(results[0]).toMatchObject({
+      platform: 'appstore',
+      title: '1★ Crashes on launch',
+      platform_url: `https://apps.apple.com/us/app/id${APP_ID}?see-all=reviews`,
+      author_username: 'frustrated_pm',
+      engagement_metrics: { upvotes: 3, score: 1 },
+      author_metadata: { app_version: '4.2.0', rating: 1, country: 'us' },
+    });
+    expect(results[2].author_metadata?.country).toBe('gb');
+
+    // US stops once reviews fall outside the lookback window; GB pages on until the feed runs out
+    expect(fetchMock.mock.calls.map(([url]) => url.replace('https://itunes.apple.com', ''))).toEqual([
+      feedPath('us', 1),
+      feedPath('gb', 1),
+      feedPath('gb', 2),
+    ]);
+  });
+
+  it('keeps low ratings and keyword matches, and drops excluded keywords', async () => {
+    mockFeeds({ [feedPath('us', 1)]: reviewsUs });
+
+    const results = await new AppStoreHunter().hunt(config, integration({ appstore_app_id: APP_ID }));
+    const ids = results.map((r) => r.platform_id);
+
+    // 4★ without a keyword match
+    expect(ids).not.toContain('11235813003');
+    // 1★ mentioning an excluded keyword
+    expect(ids).not.toContain('11235813004');
+    // 2★ older than the lookback window
+    expect(ids).not.toContain('11235813005');
+    expect(ids).toEqual(['11235813001', '11235813002']);
+  });
+
+  it('keeps going when one storefront fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockFeeds({ [feedPath('gb', 1)]: reviewsGb });
+
+    const results = await new AppStoreHunter().hunt(
+      config,
+      integration({ appstore_app_id: APP_ID, appstore_countries: ['us', 'gb'] })
+    );
+
+    expect(results.map((r) => r.platform_id)).toEqual(['11235813001', '11235813101']);
+  });
+
+  it('returns nothing without an app id', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchMock = mockFeeds({});
+
+    expect(await new AppStoreHunter().hunt(config, integration({}))).toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('is wired into the hunter factory', () => {
+    expect(getHunter('appstore')).toBeInstanceOf(AppStoreHunter);
+    expect(getSupportedPlatforms()).toContain('appstore');
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Semantic Deduplication Tests
+ * Linking cross-posted feedback to a canonical item as a mention, by the
+ * source's duplicate marker or by embedding similarity
+ */
+
+import {
+  DEFAULT_SIMILARITY_THRESHOLD,
+  backfillFeedbackEmbeddings,
+  buildEmbeddingText,
+  getSimilarityThreshold,
+} from '@/lib/hunters/deduplication';
+import { storeClassifiedItem } from '@/lib/hunters/feedback-store';
+import { generateEmbeddingsBatch } from '@/lib/specs/embeddings';
+import type { HunterRawItem } from '@/lib/hunters/job-queue';
+import type { HunterApiUsage } from '@/types/hunter';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const mockCreateEmbedding = jest.fn();
+
+jest.mock('openai', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({
+    chat: { completions: { create: jest.fn() } },
+    embeddings: { create: mockCreateEmbedding },
+  })),
+}));
+
+jest.mock('@/lib/hunters/concurrency', () => ({
+  checkOpenAIRateLimit: jest.fn(async () => ({ allowed: true })),
+}));
+
+jest.mock('@/lib/supabase-client', () => ({
+  getSupabaseServiceRoleClient: jest.fn(() => null),
+}));
+
+jest.mock('@/lib/specs/embeddings', () => ({
+  generateEmbeddingsBatch: jest.fn(async (texts: string[]) => texts.map((_, index) => [index, 0.5])),
+  generateContentHash: jest.fn(() => 'hash'),
+}));
+
+type Row = Record<string, unknown>;
+
+/**
+ * In-memory stand-in for the few query shapes deduplication uses
+ */
+function fakeSupabase(tables: Record<string, Row[]> = {}, matches: Row[] = []) {
+  const writes: Array<{ table: string; row: Row }> = [];
+  const rpc = jest.fn(async () => ({ data: matches, error: null }));
+
+  const from = (table: string) => {
+    const filters: Array<[string, unknown]> = [];
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push([column, value]);
+        return builder;
+      },
+      maybeSingle: async () => ({
+        data: (tables[table] || []).find((row) => filters.every(([column, value]) => row[column] === value)) ?? null,
+        error: null,
+      }),
+      upsert: (row: Row) => {
+        writes.push({ table, row });
+        return builder;
+      },
+      single: async () => ({ data: { id: 'feedback-new' }, error: null }),
+      then: (resolve: (value: unknown) => void) => resolve({ data: null, error: null }),
+    };
+    return builder;
+  };
+
+  return { client: { from, rpc } as unknown as SupabaseClient, writes, rpc };
+}
+
+function rawItem(overrides: Partial<HunterRawItem> = {}): HunterRawItem {
+  return {
+    id: 'raw-1',
+    scan_id: 'scan-1',
+    project_id: 'project-1',
+    platform: 'hackernews',
+    external_id: 'hn-501',
+    external_url: 'https://news.ycombinator.com/item?id=501',
+    title: 'SignalsLoop export keeps timing out',
+    content: 'Exporting more than a few hundred posts times out every time.',
+    author: 'pg_fan',
+    posted_at: '2026-10-18T10:00:00Z',
+    raw_metadata: { engagement_metrics: { upvotes: 12, comments: 4 } },
+    source: 'keyword:SignalsLoop',
+    relevance_score: 90,
+    relevance_decision: 'include',
+    relevance_reason: 'Names the product',
+    classification: null,
+    stage: 'filtered',
+    created_at: '2026-10-18T10:05:00Z',
+    ...overrides,
+  };
+}
+
+const classification = { classification: 'bug', confidence: 0.9, urgency: 4, tags: ['export'] };
+const classify = jest.fn(async () => classification);
+
+describe('storeClassifiedItem with semantic dedupe', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockCreateEmbedding.mockReset().mockResolvedValue({
+      data: [{ embedding: [0.1, 0.2, 0.3] }],
+      usage: { prompt_tokens: 18, total_tokens: 18 },
+    });
+    classify.mockClear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stores a new item with its engagement score and indexes its embedding', async () => {
+    const { client, writes, rpc } = fakeSupabase();
+    const usage: HunterApiUsage[] = [];
+
+    const id = await storeClassifiedItem(client, rawItem(), classify, 0.9, usage);
+
+    expect(id).toBe('feedback-new');
+    expect(classify).toHaveBeenCalledTimes(1);
+    // The dedupe embedding counts towards the scan's API usage
+    expect(usage).toEqual([
+      { provider: 'openai', model: 'text-embedding-3-small', calls: 1, promptTokens: 18, completionTokens: 0 },
+    ]);
+    expect(rpc).toHaveBeenCalledWith('match_discovered_feedback', {
+      p_project_id: 'project-1',
+      p_query_embedding: [0.1, 0.2, 0.3],
+      p_similarity_threshold: 0.9,
+      p_limit: 1,
+    });
+    expect(writes.map((write) => write.table)).toEqual(['discovered_feedback', 'discovered_feedback_embeddings']);
+    // 12 upvotes + 4 comments * 3
+    expect(writes[0].row).toMatchObject({ platform_id: 'hn-501', engagement_score: 24, is_duplicate: false });
+    expect(writes[1].row).toEqual({
+      feedback_id: 'feedback-new',
+      project_id: 'project-1',
+      embedding: [0.1, 0.2, 0.3],
+      content_hash: 'hash',
+    });
+  });
+
+  it('links a cross-post above the threshold as a mention of the canonical item', async () => {
+    const { client, writes } = fakeSupabase({}, [
+      { feedback_id: 'feedback-reddit', platform: 'reddit', platform_id: 'r-77', similarity: 0.9312 },
+    ]);
+
+    const id = await storeClassifiedItem(client, rawItem(), classify, 0.88);
+
+    expect(id).toBe('feedback-reddit');
+    // Dedupe runs first, so a mention is never classified
+    expect(classify).not.toHaveBeenCalled();
+    expect(writes).toHaveLength(1);
+    expect(writes[0]).toMatchObject({
+      table: 'discovered_feedback_mentions',
+      row: {
+        feedback_id: 'feedback-reddit',
+        platform: 'hackernews',
+        platform_id: 'hn-501',
+        engagement_score: 24,
+        match_reason: 'embedding',
+        similarity: 0.931,
+      },
+    });
+  });
+
+  it('follows the source duplicate marker without embedding the item', async () => {
+    const { client, writes } = fakeSupabase({
+      discovered_feedback: [
+        { id: 'feedback-original', project_id: 'project-1', platform: 'stackexchange', platform_id: 'stackoverflow:q78000000', is_duplicate: false },
+      ],
+    });
+
+    const id = await storeClassifiedItem(client, rawItem({
+      platform: 'stackexchange',
+      external_id: 'stackoverflow:q79100005',
+      raw_metadata: { duplicate_of: 'stackoverflow:q78000000' },
+    }), classify, 0.88);
+
+    expect(id).toBe('feedback-original');
+    expect(classify).not.toHaveBeenCalled();
+    expect(mockCreateEmbedding).not.toHaveBeenCalled();
+    expect(writes[0]).toMatchObject({
+      table: 'discovered_feedback_mentions',
+      row: { match_reason: 'source_duplicate', similarity: 1 },
+    });
+  });
+
+  it('keeps a mention from an earlier scan linked and refreshes its engagement', async () => {
+    const { client, writes, rpc } = fakeSupabase({
+      discovered_feedback_mentions: [
+        { project_id: 'project-1', platform: 'hackernews', platform_id: 'hn-501', feedback_id: 'feedback-reddit', similarity: '0.912', match_reason: 'embedding' },
+      ],
+    });
+
+    const id = await storeClassifiedItem(client, rawItem({
+      raw_metadata: { engagement_metrics: { upvotes: 40, comments: 10 } },
+    }), classify, 0.88);
+
+    expect(id).toBe('feedback-reddit');
+    expect(rpc).not.toHaveBeenCalled();
+    expect(writes[0].row).toMatchObject({ feedback_id: 'feedback-reddit', engagement_score: 70, similarity: 0.912 });
+  });
+
+  it('updates an item already stored as its own row without re-embedding it', async () => {
+    const { client, writes } = fakeSupabase({
+      discovered_feedback: [{ id: 'feedback-new', project_id: 'project-1', platform: 'hackernews', platform_id: 'hn-501' }],
+    });
+
+    await storeClassifiedItem(client, rawItem(), classify, 0.88);
+
+    expect(mockCreateEmbedding).not.toHaveBeenCalled();
+    expect(writes.map((write) => write.table)).toEqual(['discovered_feedback']);
+  });
+
+  it('stores the item when embedding fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockCreateEmbedding.mockRejectedValueOnce(new Error('Connection error'));
+    const { client, writes } = fakeSupabase();
+
+    const id = await storeClassifiedItem(client, rawItem(), classify, 0.88);
+
+    expect(id).toBe('feedback-new');
+    expect(writes.map((write) => write.table)).toEqual(['discovered_feedback']);
+  });
+});
+
+describe('backfillFeedbackEmbeddings', () => {
+  it('indexes stored feedback that has no embedding, one batch per project', async () => {
+    const { client, writes, rpc } = fakeSupabase({}, [
+      { id: 'feedback-1', project_id: 'project-1', title: 'Export times out', content: 'Every time' },
+      { id: 'feedback-2', project_id: 'project-2', title: null, content: 'Dark mode please' },
+      { id: 'feedback-3', project_id: 'project-1', title: null, content: 'SSO keeps logging me out' },
+    ]);
+
+    expect(await backfillFeedbackEmbeddings(client, 25)).toBe(3);
+
+    expect(rpc).toHaveBeenCalledWith('get_discovered_feedback_without_embeddings', { p_limit: 25 });
+    expect(generateEmbeddingsBatch).toHaveBeenCalledTimes(2);
+    expect(generateEmbeddingsBatch).toHaveBeenCalledWith(['Export times out\n\nEvery time', 'SSO keeps logging me out']);
+    expect(writes.map((write) => write.row)).toEqual([
+      { feedback_id: 'feedback-1', project_id: 'project-1', embedding: [0, 0.5], content_hash: 'hash' },
+      { feedback_id: 'feedback-3', project_id: 'project-1', embedding: [1, 0.5], content_hash: 'hash' },
+      { feedback_id: 'feedback-2', project_id: 'project-2', embedding: [0, 0.5], content_hash: 'hash' },
+    ]);
+  });
+});
+
+describe('getSimilarityThreshold', () => {
+  it('reads the project threshold and falls back to the default', async () => {
+    const configured = fakeSupabase({ hunter_configs: [{ project_id: 'project-1', dedup_similarity_threshold: '0.92' }] });
+    expect(await getSimilarityThreshold(configured.client, 'project-1')).toBe(0.92);
+    expect(await getSimilarityThreshold(configured.client, 'project-2')).toBe(DEFAULT_SIMILARITY_THRESHOLD);
+  });
+});
+
+describe('buildEmbeddingText', () => {
+  it('joins title and content and caps the length', () => {
+    expect(buildEmbeddingText({ title: 'Export times out', content: 'Every time' })).toBe('Export times out\n\nEvery time');
+    expect(buildEmbeddingText({ content: 'x'.repeat(3000) })).toHaveLength(2000);
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * GitHub Hunter Tests
+ * Issues, issue comments and discussions against recorded API responses,
+ * `since` cursors, and label-driven classification
+ */
+
+import { GitHubHunter, classifyLabels, reactionsToEngagement } from '@/lib/hunters/github-hunter';
+import { applyLabelClassification } from '@/lib/hunters/feedback-store';
+import type { HunterRawItem } from '@/lib/hunters/job-queue';
+import type { HunterConfig, PlatformIntegration } from '@/types/hunter';
+
+import issues from '../mocks/fixtures/github/issues.json';
+import issueComments from '../mocks/fixtures/github/issue-comments.json';
+import discussions from '../mocks/fixtures/github/discussions.json';
+
+jest.mock('@/lib/openai-client', () => ({
+  getOpenAI: jest.fn(() => ({})),
+}));
+
+jest.mock('@/lib/hunters/concurrency', () => ({
+  checkOpenAIRateLimit: jest.fn(async () => ({ allowed: true })),
+}));
+
+jest.mock('@/lib/supabase-client', () => ({
+  getSupabaseServiceRoleClient: jest.fn(() => null),
+}));
+
+const config = {
+  id: 'config-1',
+  project_id: 'project-1',
+  company_name: 'SignalsLoop',
+  name_variations: [],
+  competitors: [],
+  keywords: [],
+  excluded_keywords: [],
+} as unknown as HunterConfig;
+
+function integration(
+  platformConfig: PlatformIntegration['config'],
+  syncState: PlatformIntegration['sync_state'] = {}
+): PlatformIntegration {
+  return {
+    id: 'integration-1',
+    project_id: 'project-1',
+    platform_type: 'github',
+    config: platformConfig,
+    sync_state: syncState,
+    status: 'active',
+  } as PlatformIntegration;
+}
+
+type Route = { ok: boolean; status?: number; body?: unknown };
+
+// A list of GraphQL routes answers successive requests, one page each
+function mockGitHub(routes: { issues?: Route; comments?: Route; graphql?: Route | Route[] }) {
+  const respond = (route: Route = { ok: true, body: [] }) => ({
+    ok: route.ok,
+    status: route.status ?? (route.ok ? 200 : 500),
+    headers: new Headers(),
+    json: async () => route.body,
+  });
+
+  const fetchMock = jest.fn(async (url: string) => {
+    if (url.endsWith('/graphql')) {
+      return respond(Array.isArray(routes.graphql) ? routes.graphql.shift() : routes.graphql);
+    }
+    if (url.includes('/issues/comments?')) return respond(routes.comments);
+    return respond(routes.issues);
+  });
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+const CURSOR = '2026-10-15T00:00:00Z';
+
+describe('GitHubHunter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z'), doNotFake: ['setTimeout'] });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('finds new issues, comments and discussions since the cursors', async () => {
+    const fetchMock = mockGitHub({
+      issues: { ok: true, body: issues },
+      comments: { ok: true, body: issueComments },
+      graphql: { ok: true, body: discussions },
+    });
+
+    const hunter = new GitHubHunter();
+    const results = await hunter.hunt(
+      config,
+      integration(
+        { github_repos: ['https://github.com/acme/app/'], github_token: 'ghp_test' },
+        { repos: { 'acme/app': { issues: CURSOR, comments: CURSOR, discussions: CURSOR } } }
+      )
+    );
+
+    // Skips issues created before the cursor, pull requests, bots and PR comments
+    expect(results.map((r) => r.platform_id)).toEqual([
+      'acme/app/issues/41',
+      'acme/app/issues/44',
+      'acme/app/issuecomment/9002',
+      'acme/app/discussions/7',
+    ]);
+
+    expect(results[0]).toMatchObject({
+      platform: 'github',
+      title: 'Widget crashes on Safari 17',
+      platform_url: 'https://github.com/acme/app/issues/41',
+      author_username: 'safari-fan',
+      engagement_metrics: { upvotes: 5, downvotes: 1, likes: 3, comments: 2, score: 12 },
+      labels: ['bug', 'widget'],
+      label_classification: 'bug',
+    });
+    expect(results[1].label_classification).toBeUndefined();
+    // Comments inherit their issue's labels
+    expect(results[2]).toMatchObject({
+      title: 'Re: Export roadmap to CSV',
+      labels: ['enhancement'],
+      label_classification: 'feature_request',
+      engagement_metrics: { upvotes: 3 },
+    });
+    // Discussion categories count as labels
+    expect(results[3]).toMatchObject({
+      labels: ['Ideas'],
+      label_classification: 'feature_request',
+      engagement_metrics: { upvotes: 9, likes: 4, comments: 3 },
+    });
+
+    const [issuesUrl, issuesInit] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(issuesUrl).toBe(
+      `https://api.github.com/repos/acme/app/issues?state=all&sort=updated&direction=asc&since=${encodeURIComponent(CURSOR)}&per_page=100&page=1`
+    );
+    expect((issuesInit.headers as Record<string, string>).Authorization).toBe('Bearer ghp_test');
+
+    expect(hunter.takeStagedSyncState()).toEqual({
+      repos: {
+        'acme/app': {
+          issues: '2026-10-18T15:20:00Z',
+          comments: '2026-10-18T08:00:00Z',
+          discussions: '2026-10-18T19:00:00Z',
+        },
+      },
+    });
+    expect(hunter.takeStagedSyncState()).toBeNull();
+  });
+
+  it('pages back through discussions until it reaches the cursor', async () => {
+    const discussion = (number: number, updatedAt: string) => ({
+      ...discussions.data.repository.discussions.nodes[0],
+      number,
+      createdAt: updatedAt,
+      updatedAt,
+    });
+    const page = (nodes: unknown[], hasNextPage: boolean, endCursor: string) => ({
+      ok: true,
+      body: { data: { repository: { discussions: { nodes, pageInfo: { hasNextPage, endCursor } } } } },
+    });
+
+    const fetchMock = mockGitHub({
+      graphql: [
+        page([discussion(12, '2026-10-18T10:00:00Z'), discussion(11, '2026-10-17T10:00:00Z')], true, 'page-1'),
+        page([discussion(10, '2026-10-16T10:00:00Z'), discussion(3, '2026-10-01T10:00:00Z')], true, 'page-2'),
+      ],
+    });
+
+    const hunter = new GitHubHunter();
+    const results = await hunter.hunt(
+      config,
+      integration(
+        { github_repos: ['acme/app'], github_token: 'ghp_test' },
+        { repos: { 'acme/app': { issues: CURSOR, comments: CURSOR, discussions: CURSOR } } }
+      )
+    );
+
+    expect(results.map((r) => r.platform_id)).toEqual([
+      'acme/app/discussions/12',
+      'acme/app/discussions/11',
+      'acme/app/discussions/10',
+    ]);
+
+    // Stops at the page that reaches the cursor
+    const afterCursors = fetchMock.mock.calls
+      .filter(([url]) => (url as string).endsWith('/graphql'))
+      .map((call) => JSON.parse(((call as unknown[])[1] as RequestInit).body as string).variables.after);
+    expect(afterCursors).toEqual([null, 'page-1']);
+
+    expect(hunter.takeStagedSyncState()?.repos?.['acme/app'].discussions).toBe('2026-10-18T10:00:00Z');
+  });
+
+  it('keeps the discussions cursor when the page limit cuts the fetch short', async () => {
+    const discussion = (number: number, updatedAt: string) => ({
+      ...discussions.data.repository.discussions.nodes[0],
+      number,
+      createdAt: updatedAt,
+      updatedAt,
+    });
+    const page = (number: number, updatedAt: string) => ({
+      ok: true,
+      body: {
+        data: {
+          repository: {
+            discussions: {
+              nodes: [discussion(number, updatedAt)],
+              pageInfo: { hasNextPage: true, endCursor: `page-${number}` },
+            },
+          },
+        },
+      },
+    });
+
+    mockGitHub({
+      graphql: [
+        page(30, '2026-10-18T10:00:00Z'),
+        page(29, '2026-10-17T10:00:00Z'),
+        page(28, '2026-10-16T10:00:00Z'),
+      ],
+    });
+
+    const hunter = new GitHubHunter();
+    const results = await hunter.hunt(
+      config,
+      integration(
+        { github_repos: ['acme/app'], github_token: 'ghp_test' },
+        { repos: { 'acme/app': { issues: CURSOR, comments: CURSOR, discussions: CURSOR } } }
+      )
+    );
+
+    expect(results).toHaveLength(3);
+    expect(hunter.takeStagedSyncState()?.repos?.['acme/app'].discussions).toBe(CURSOR);
+  });
+
+  it('starts from the lookback window and skips discussions without a token', async () => {
+    const fetchMock = mockGitHub({});
+    const previousToken = process.env.GITHUB_TOKEN;
+    delete process.env.GITHUB_TOKEN;
+
+    try {
+      const results = await new GitHubHunter().hunt(config, integration({ github_repos: ['acme/app'] }));
+      expect(results).toEqual([]);
+    } finally {
+      if (previousToken !== undefined) process.env.GITHUB_TOKEN = previousToken;
+    }
+
+    const urls = fetchMock.mock.calls.map(([url]) => url as string);
+    expect(urls).toHaveLength(2);
+    expect(urls[0]).toContain(`since=${encodeURIComponent('2026-10-12T12:00:00.000Z')}`);
+    expect(urls.some((url) => url.endsWith('/graphql'))).toBe(false);
+  });
+
+  it('keeps the previous cursor for a stream that fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockGitHub({
+      issues: { ok: false, status: 502 },
+      comments: { ok: true, body: issueComments },
+    });
+
+    const hunter = new GitHubHunter();
+    await hunter.hunt(
+      config,
+      integration(
+        { github_repos: ['acme/app'], github_include_discussions: false },
+        { repos: { 'acme/app': { issues: CURSOR, comments: CURSOR } } }
+      )
+    );
+
+    expect(hunter.takeStagedSyncState()?.repos?.['acme/app']).toEqual({
+      issues: CURSOR,
+      comments: '2026-10-18T08:00:00Z',
+    });
+  });
+});
+
+describe('label classification', () => {
+  it('maps labels case-insensitively, with integration overrides', () => {
+    expect(classifyLabels(['widget', 'Bug'])).toBe('bug');
+    expect(classifyLabels(['needs triage'])).toBeUndefined();
+    expect(classifyLabels(['P-Churn'], { 'p-churn': 'churn_risk' })).toBe('churn_risk');
+    expect(classifyLabels(['bug'], { bug: 'complaint' })).toBe('complaint');
+  });
+
+  it('counts heart, hooray and rocket reactions as likes', () => {
+    const reactions = {
+      total_count: 9, '+1': 2, '-1': 1, laugh: 1, hooray: 1, confused: 0, heart: 2, rocket: 1, eyes: 1,
+    };
+
+    expect(reactionsToEngagement(reactions, 4)).toEqual({ upvotes: 2, downvotes: 1, likes: 4, comments: 4, score: 9 });
+    expect(reactionsToEngagement(undefined)).toEqual({ upvotes: 0, downvotes: 0, likes: 0, comments: undefined, score: 0 });
+  });
+
+  it('overrides the model category with the label category and keeps labels as tags', () => {
+    const item = {
+      raw_metadata: { labels: ['Bug', 'widget'], label_classification: 'bug' },
+    } as unknown as HunterRawItem;
+
+    expect(applyLabelClassification(item, { classification: 'complaint', confidence: 0.6, tags: ['safari'] })).toEqual({
+      classification: 'bug',
+      confidence: 0.95,
+      tags: ['safari', 'bug', 'widget'],
+    });
+
+    const unlabelled = { raw_metadata: {} } as unknown as HunterRawItem;
+    const classification = { classification: 'praise', confidence: 0.8 };
+    expect(applyLabelClassification(unlabelled, classification)).toBe(classification);
+  });
+});
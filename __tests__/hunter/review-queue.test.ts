@@ -0,0 +1,249 @@
+/**
+ * Hunter Review Queue Tests
+ * Threshold calibration from reviewer labels, how the relevance filter
+ * applies per-project thresholds and examples, and claiming a review
+ */
+
+import {
+  ReviewAlreadyResolvedError,
+  calibrateThresholds,
+  resolveReview,
+  type ReviewLabel,
+} from '@/lib/hunters/review-queue';
+import {
+  DEFAULT_RELEVANCE_THRESHOLDS,
+  applyThresholds,
+  filterByRelevance,
+} from '@/lib/hunters/relevance-filter';
+import { buildProductContext } from '@/lib/hunters/product-context';
+import type { RawFeedback } from '@/types/hunter';
+
+const mockCreateCompletion = jest.fn();
+
+jest.mock('openai', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({
+    chat: { completions: { create: mockCreateCompletion } },
+    embeddings: { create: jest.fn() },
+  })),
+}));
+
+jest.mock('@/lib/supabase-client', () => ({
+  getSupabaseServiceRoleClient: jest.fn(() => null),
+}));
+
+jest.mock('@/lib/hunters/concurrency', () => ({
+  checkOpenAIRateLimit: jest.fn(async () => ({ allowed: true })),
+}));
+
+type Row = Record<string, any>;
+
+const tables: Record<string, Row[]> = {};
+
+/**
+ * Conditional updates only touch rows matching every filter, like Postgres
+ */
+jest.mock('@/lib/supabase-singleton', () => ({
+  getServiceRoleClient: () => ({
+    from: (table: string) => {
+      const filters: Array<(row: Row) => boolean> = [];
+      let update: Row | null = null;
+      const run = () => {
+        const rows = (tables[table] ||= []).filter((row) => filters.every((filter) => filter(row)));
+        if (update) rows.forEach((row) => Object.assign(row, update));
+        return rows;
+      };
+      const query: Record<string, unknown> = {
+        select: () => query,
+        order: () => query,
+        limit: () => query,
+        upsert: () => query,
+        update: (values: Row) => { update = values; return query; },
+        eq: (column: string, value: unknown) => { filters.push((row) => row[column] === value); return query; },
+        neq: (column: string, value: unknown) => { filters.push((row) => row[column] !== value); return query; },
+        maybeSingle: async () => ({ data: run()[0] ?? null, error: null }),
+        single: async () => ({ data: run()[0] ?? null, error: null }),
+        then: (resolve: (value: unknown) => void) => resolve({ data: run(), error: null }),
+      };
+      return query;
+    },
+    rpc: async () => ({ data: null, error: null }),
+  }),
+}));
+
+function labels(decision: ReviewLabel['decision'], ...scores: number[]): ReviewLabel[] {
+  return scores.map((score) => ({ score, decision }));
+}
+
+describe('calibrateThresholds', () => {
+  it('keeps the defaults until there are enough labels', () => {
+    expect(calibrateThresholds(labels('include', 70, 72, 74, 76))).toEqual(DEFAULT_RELEVANCE_THRESHOLDS);
+  });
+
+  it('lowers the include threshold when reviewers keep including the top of the band', () => {
+    const thresholds = calibrateThresholds([
+      ...labels('include', 72, 73, 75, 76, 78, 79),
+      ...labels('exclude', 61, 63, 64, 65),
+    ]);
+
+    expect(thresholds).toEqual({ include: 72, exclude: 66 });
+  });
+
+  it('raises the exclude threshold when reviewers keep excluding the bottom of the band', () => {
+    const thresholds = calibrateThresholds([
+      ...labels('exclude', 60, 61, 63, 65, 66, 68),
+      ...labels('include', 70, 74, 78),
+      ...labels('exclude', 76),
+    ]);
+
+    expect(thresholds.exclude).toBe(69);
+    expect(thresholds.include).toBe(DEFAULT_RELEVANCE_THRESHOLDS.include);
+  });
+
+  it('stays put when reviewers disagree across the band', () => {
+    const thresholds = calibrateThresholds([
+      ...labels('include', 61, 65, 70, 75, 79),
+      ...labels('exclude', 62, 66, 71, 74, 78),
+    ]);
+
+    expect(thresholds).toEqual(DEFAULT_RELEVANCE_THRESHOLDS);
+  });
+
+  it('never closes the review band', () => {
+    const thresholds = calibrateThresholds([
+      ...labels('exclude', 60, 62, 64, 66, 68, 70),
+      ...labels('include', 71, 73, 75, 77, 79),
+    ]);
+
+    expect(thresholds.include - thresholds.exclude).toBeGreaterThanOrEqual(5);
+    expect(thresholds.include).toBeLessThanOrEqual(DEFAULT_RELEVANCE_THRESHOLDS.include);
+  });
+});
+
+describe('applyThresholds', () => {
+  const thresholds = { include: 72, exclude: 65 };
+
+  it('routes scores into include, review and exclude', () => {
+    expect(applyThresholds(72, thresholds)).toBe('include');
+    expect(applyThresholds(70, thresholds)).toBe('human_review');
+    expect(applyThresholds(64, thresholds)).toBe('exclude');
+  });
+
+  it('always excludes instant disqualifications', () => {
+    expect(applyThresholds(95, thresholds, true)).toBe('exclude');
+  });
+});
+
+describe('filterByRelevance with calibration', () => {
+  const context = buildProductContext({
+    id: 'config-1',
+    project_id: 'project-1',
+    company_name: 'SignalsLoop',
+    product_description: 'Feedback boards and roadmaps',
+    name_variations: [],
+    competitors: [],
+    keywords: [],
+    excluded_keywords: [],
+  });
+
+  const item = (id: string, content: string): RawFeedback => ({
+    content,
+    title: `SignalsLoop ${id}`,
+    platform: 'reddit',
+    platform_id: id,
+    platform_url: `https://reddit.com/${id}`,
+    discovered_at: new Date('2026-10-19T00:00:00Z'),
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    delete process.env.OPENAI_API_KEY;
+    jest.restoreAllMocks();
+  });
+
+  it('decides from project thresholds and sends reviewer examples to the model', async () => {
+    const evaluations = [
+      { item_id: '0', relevance_score: 74, decision: 'human_review', reasoning: 'Mentions boards' },
+      { item_id: '1', relevance_score: 66, decision: 'exclude', reasoning: 'Vague' },
+      { item_id: '2', relevance_score: 90, decision: 'include', instant_disqualification: { triggered: true } },
+    ];
+    process.env.OPENAI_API_KEY = 'sk-test';
+    mockCreateCompletion.mockResolvedValueOnce({
+      choices: [{ message: { content: JSON.stringify({ evaluations }) } }],
+      usage: { prompt_tokens: 900, completion_tokens: 120 },
+    });
+
+    const result = await filterByRelevance(
+      [
+        item('calibrated-a', 'SignalsLoop boards are great but the roadmap export is slow'),
+        item('calibrated-b', 'Has anyone tried SignalsLoop for internal feedback?'),
+        item('calibrated-c', 'SignalsLoop Capital raises a seed round'),
+      ],
+      context,
+      {
+        thresholds: { include: 72, exclude: 65 },
+        examples: [
+          { platform: 'reddit', title: 'Roadmap view', content: 'The roadmap view is slow', relevanceScore: 70, decision: 'include' },
+        ],
+      }
+    );
+
+    expect(result.included.map((r) => r.item.platform_id)).toEqual(['calibrated-a']);
+    expect(result.needsReview.map((r) => r.item.platform_id)).toEqual(['calibrated-b']);
+    expect(result.excluded.map((r) => r.item.platform_id)).toEqual(['calibrated-c']);
+
+    const userPrompt = mockCreateCompletion.mock.calls[0][0].messages[1].content as string;
+    expect(userPrompt).toContain('REVIEWER DECISIONS FOR THIS PRODUCT');
+    expect(userPrompt).toContain('"reviewer_decision":"include"');
+  });
+
+  it('flags items it could not score as deferred and does not cache them', async () => {
+    process.env.OPENAI_API_KEY = 'sk-test';
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockCreateCompletion.mockRejectedValueOnce(new Error('upstream unavailable'));
+    const unscored = item('deferred-a', 'SignalsLoop roadmap sharing keeps timing out');
+
+    const first = await filterByRelevance([unscored], context);
+    expect(first.needsReview).toHaveLength(1);
+    expect(first.needsReview[0].deferred).toBe(true);
+
+    mockCreateCompletion.mockResolvedValueOnce({
+      choices: [{ message: { content: JSON.stringify({ evaluations: [{ item_id: '0', relevance_score: 88, decision: 'include' }] }) } }],
+    });
+    const retry = await filterByRelevance([unscored], context);
+    expect(retry.included.map((r) => r.item.platform_id)).toEqual(['deferred-a']);
+    expect(retry.included[0].deferred).toBeUndefined();
+  });
+});
+
+describe('resolveReview', () => {
+  beforeEach(() => {
+    tables.hunter_review_queue = [
+      { id: 'review-1', project_id: 'project-1', raw_item_id: 'raw-1', relevance_score: 68, status: 'pending' },
+    ];
+    tables.hunter_raw_items = [{ id: 'raw-1', stage: 'review' }];
+  });
+
+  it('claims a pending item and records the decision', async () => {
+    const resolved = await resolveReview('project-1', 'review-1', 'exclude', 'user-1');
+
+    expect(resolved).toMatchObject({ id: 'review-1', status: 'excluded', reviewed_by: 'user-1' });
+    expect(tables.hunter_raw_items[0].relevance_decision).toBe('exclude');
+  });
+
+  it('rejects a second decision on the same item', async () => {
+    await resolveReview('project-1', 'review-1', 'exclude', 'user-1');
+
+    await expect(resolveReview('project-1', 'review-1', 'include', 'user-2'))
+      .rejects.toBeInstanceOf(ReviewAlreadyResolvedError);
+    expect(tables.hunter_review_queue[0]).toMatchObject({ status: 'excluded', reviewed_by: 'user-1' });
+  });
+
+  it('returns null for another project\'s item', async () => {
+    expect(await resolveReview('project-2', 'review-1', 'exclude', 'user-1')).toBeNull();
+    expect(tables.hunter_review_queue[0].status).toBe('pending');
+  });
+});
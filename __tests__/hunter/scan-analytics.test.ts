@@ -0,0 +1,191 @@
+/**
+ * Scan Analytics Tests
+ * Funnel aggregation, cost attribution to sources, and prune
+ * recommendations mapped back to the hunter config
+ */
+
+import {
+  buildScanAnalytics,
+  recommendPrunes,
+  resolvePruneTarget,
+  type FunnelRow,
+  type SourceYield,
+  type UsageRow,
+} from '@/lib/hunters/scan-analytics';
+import type { HunterConfig, PlatformIntegration } from '@/types/hunter';
+
+jest.mock('@/lib/supabase-singleton', () => ({
+  getServiceRoleClient: jest.fn(() => null),
+}));
+
+function funnelRow(overrides: Partial<FunnelRow>): FunnelRow {
+  return {
+    scan_id: 'scan-1',
+    started_at: '2026-10-18T10:00:00Z',
+    platform: 'reddit',
+    source: null,
+    discovered: 0,
+    relevant: 0,
+    review: 0,
+    excluded: 0,
+    classified: 0,
+    stored: 0,
+    ...overrides,
+  };
+}
+
+function usageRow(overrides: Partial<UsageRow>): UsageRow {
+  return {
+    scan_id: 'scan-1',
+    platform: 'reddit',
+    stage: 'relevance',
+    source: null,
+    calls: 1,
+    cost_usd: 0,
+    created_at: '2026-10-18T10:05:00Z',
+    ...overrides,
+  };
+}
+
+function sourceYield(overrides: Partial<SourceYield>): SourceYield {
+  return {
+    platform: 'reddit',
+    source: null,
+    scans: 1,
+    calls: 0,
+    costUsd: 0,
+    yieldRate: 0,
+    costPerStored: null,
+    discovered: 0,
+    relevant: 0,
+    review: 0,
+    excluded: 0,
+    classified: 0,
+    stored: 0,
+    ...overrides,
+  };
+}
+
+const config = {
+  project_id: 'project-1',
+  company_name: 'SignalsLoop',
+  name_variations: ['Signals Loop'],
+  keywords: ['feedback board'],
+  product_category: 'product_feedback_tool',
+} as unknown as HunterConfig;
+
+const integrations = [
+  { platform_type: 'reddit', config: { subreddits: ['SaaS', 'webdev'] } },
+  { platform_type: 'hackernews', config: { hn_keywords: ['roadmap tool'] } },
+  { platform_type: 'stackexchange', config: { stackexchange_tags: ['signalsloop'] } },
+] as unknown as PlatformIntegration[];
+
+describe('buildScanAnalytics', () => {
+  it('sums the funnel per scan and charges sourced usage directly', () => {
+    const analytics = buildScanAnalytics(
+      [
+        funnelRow({ source: 'r/SaaS', discovered: 30, relevant: 6, classified: 5, stored: 4 }),
+        funnelRow({ platform: 'twitter', source: 'keyword:SignalsLoop', discovered: 10, relevant: 5, classified: 5, stored: 5 }),
+      ],
+      [usageRow({ platform: 'twitter', stage: 'discovery', source: 'keyword:SignalsLoop', cost_usd: '0.0120' })]
+    );
+
+    expect(analytics.scans).toEqual([
+      expect.objectContaining({ scanId: 'scan-1', discovered: 40, relevant: 11, stored: 9, costUsd: 0.012, platforms: ['reddit', 'twitter'] }),
+    ]);
+    expect(analytics.totals).toMatchObject({ discovered: 40, stored: 9, costUsd: 0.012 });
+
+    const twitter = analytics.sources.find((s) => s.platform === 'twitter')!;
+    expect(twitter).toMatchObject({ costUsd: 0.012, yieldRate: 0.5, costPerStored: 0.0024 });
+  });
+
+  it('splits unsourced usage by discovered items for relevance and relevant items for classify', () => {
+    const analytics = buildScanAnalytics(
+      [
+        funnelRow({ source: 'r/SaaS', discovered: 30, relevant: 1 }),
+        funnelRow({ source: 'r/webdev', discovered: 10, relevant: 3 }),
+      ],
+      [
+        usageRow({ stage: 'relevance', cost_usd: 0.04 }),
+        usageRow({ stage: 'classify', cost_usd: 0.008 }),
+      ]
+    );
+
+    const bySource = Object.fromEntries(analytics.sources.map((s) => [s.source, s.costUsd]));
+    // relevance 0.04 * 30/40 + classify 0.008 * 1/4
+    expect(bySource['r/SaaS']).toBe(0.032);
+    // relevance 0.04 * 10/40 + classify 0.008 * 3/4
+    expect(bySource['r/webdev']).toBe(0.016);
+  });
+
+  it('keeps paid searches that found nothing as sources with zero items', () => {
+    const analytics = buildScanAnalytics(
+      [],
+      [usageRow({ platform: 'twitter', stage: 'discovery', source: 'keyword:roadmap', cost_usd: 0.01 })]
+    );
+
+    expect(analytics.sources).toEqual([
+      expect.objectContaining({ platform: 'twitter', source: 'keyword:roadmap', discovered: 0, scans: 1, costUsd: 0.01 }),
+    ]);
+  });
+});
+
+describe('resolvePruneTarget', () => {
+  it('maps sources back to the config list that produces them', () => {
+    expect(resolvePruneTarget('reddit', 'r/saas', config, integrations))
+      .toEqual({ platform: 'reddit', field: 'subreddits', value: 'SaaS' });
+    expect(resolvePruneTarget('stackexchange', 'tag:signalsloop', config, integrations))
+      .toEqual({ platform: 'stackexchange', field: 'stackexchange_tags', value: 'signalsloop' });
+    expect(resolvePruneTarget('hackernews', 'keyword:roadmap tool', config, integrations))
+      .toEqual({ platform: 'hackernews', field: 'hn_keywords', value: 'roadmap tool' });
+    expect(resolvePruneTarget('reddit', 'keyword:"Signals Loop"', config, integrations))
+      .toEqual({ platform: 'reddit', field: 'name_variations', value: 'Signals Loop' });
+  });
+
+  it('never targets the company name or built-in queries', () => {
+    expect(resolvePruneTarget('hackernews', 'keyword:SignalsLoop', config, integrations)).toBeNull();
+    expect(resolvePruneTarget('reddit', 'keyword:"using SignalsLoop"', config, integrations)).toBeNull();
+    expect(resolvePruneTarget('reddit', 'r/startups', config, integrations)).toBeNull();
+  });
+});
+
+describe('recommendPrunes', () => {
+  it('recommends low-yield subreddits with replacements from the category map', () => {
+    const [recommendation, ...rest] = recommendPrunes(
+      [
+        sourceYield({ source: 'r/webdev', discovered: 40, stored: 1, yieldRate: 0.025, scans: 4, costUsd: 0.05 }),
+        sourceYield({ source: 'r/SaaS', discovered: 40, stored: 8, yieldRate: 0.2, scans: 4 }),
+        // Too few items to judge
+        sourceYield({ source: 'r/webdev', platform: 'reddit', discovered: 5, stored: 0 }),
+      ],
+      config,
+      integrations
+    );
+
+    expect(rest).toHaveLength(0);
+    expect(recommendation).toMatchObject({
+      platform: 'reddit',
+      field: 'subreddits',
+      value: 'webdev',
+      reason: 'Stored 1 of 40 items (2.5%) across 4 scans, costing $0.0500',
+    });
+    // product_feedback_tool subreddits, minus the already-configured SaaS
+    expect(recommendation.suggestions).toEqual(['ProductManagement', 'startups', 'indiehackers']);
+  });
+
+  it('recommends paid searches that keep finding nothing, once per config-wide keyword', () => {
+    const recommendations = recommendPrunes(
+      [
+        sourceYield({ platform: 'twitter', source: 'keyword:feedback board', scans: 3, costUsd: 0.03 }),
+        sourceYield({ platform: 'reddit', source: 'keyword:feedback board', discovered: 25, yieldRate: 0 }),
+        sourceYield({ platform: 'twitter', source: 'keyword:SignalsLoop', scans: 5, costUsd: 0.05 }),
+      ],
+      config,
+      integrations
+    );
+
+    expect(recommendations).toEqual([
+      expect.objectContaining({ field: 'keywords', value: 'feedback board', reason: 'Found nothing in 3 scans, costing $0.0300' }),
+    ]);
+  });
+});
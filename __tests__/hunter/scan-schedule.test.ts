@@ -0,0 +1,123 @@
+/**
+ * Scan Scheduling Tests
+ * Cron schedules and quiet hours in the integration's timezone, and the
+ * windows a backfill walks back through
+ */
+
+import {
+  getNextScanAt,
+  isInQuietHours,
+  nextCronOccurrence,
+  parseCron,
+  validateSchedule,
+} from '@/lib/hunters/scan-schedule';
+import { countPages, planNextPage } from '@/lib/hunters/backfill';
+
+jest.mock('@/lib/hunters/concurrency', () => ({
+  checkPendingScanLimit: jest.fn(async () => ({ allowed: true })),
+  checkProjectConcurrency: jest.fn(async () => ({ allowed: true })),
+  isCircuitOpen: jest.fn(async () => false),
+  getProjectPriority: jest.fn(async () => 0),
+}));
+
+jest.mock('@/lib/supabase-singleton', () => ({
+  getServiceRoleClient: jest.fn(() => null),
+}));
+
+describe('parseCron', () => {
+  it('expands lists, ranges and steps', () => {
+    const schedule = parseCron('*/20 9-11 * * 1,3,5');
+    expect([...schedule.minutes]).toEqual([0, 20, 40]);
+    expect([...schedule.hours]).toEqual([9, 10, 11]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 3, 5]);
+    expect(schedule.dayOfMonthRestricted).toBe(false);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('0 9 * *')).toThrow('5 fields');
+    expect(() => parseCron('0 24 * * *')).toThrow('Invalid hour');
+    expect(() => parseCron('*/0 * * * *')).toThrow('Invalid step');
+  });
+});
+
+describe('nextCronOccurrence', () => {
+  it('finds the next weekday run after a given time', () => {
+    // Friday 2026-10-16 10:30 UTC -> Monday 09:00
+    const next = nextCronOccurrence(parseCron('0 9 * * 1-5'), new Date('2026-10-16T10:30:00Z'));
+    expect(next.toISOString()).toBe('2026-10-19T09:00:00.000Z');
+  });
+
+  it('reads the schedule in the integration timezone', () => {
+    // 09:00 in New York (EDT, UTC-4)
+    const next = nextCronOccurrence(parseCron('0 9 * * *'), new Date('2026-10-19T12:00:00Z'), 'America/New_York');
+    expect(next.toISOString()).toBe('2026-10-19T13:00:00.000Z');
+  });
+
+  it('runs on either restricted day field', () => {
+    // The 1st of the month or any Sunday
+    const next = nextCronOccurrence(parseCron('0 0 1 * 0'), new Date('2026-10-19T00:00:00Z'));
+    expect(next.toISOString()).toBe('2026-10-25T00:00:00.000Z');
+  });
+});
+
+describe('quiet hours', () => {
+  const quietHours = { start: '22:00', end: '07:00' };
+
+  it('wraps past midnight', () => {
+    expect(isInQuietHours(new Date('2026-10-19T23:30:00Z'), quietHours)).toBe(true);
+    expect(isInQuietHours(new Date('2026-10-19T06:59:00Z'), quietHours)).toBe(true);
+    expect(isInQuietHours(new Date('2026-10-19T07:00:00Z'), quietHours)).toBe(false);
+  });
+
+  it('moves a frequency-based run to the end of the quiet window', () => {
+    const next = getNextScanAt(
+      { scan_frequency_minutes: 480, scan_schedule: null, schedule_timezone: 'UTC', quiet_hours: quietHours },
+      new Date('2026-10-19T18:00:00Z')
+    );
+    expect(next.toISOString()).toBe('2026-10-20T07:00:00.000Z');
+  });
+
+  it('skips cron runs that fall inside the quiet window', () => {
+    const next = getNextScanAt(
+      { scan_frequency_minutes: 480, scan_schedule: '0 */6 * * *', schedule_timezone: 'UTC', quiet_hours: quietHours },
+      new Date('2026-10-19T19:00:00Z')
+    );
+    // 00:00 and 06:00 are quiet
+    expect(next.toISOString()).toBe('2026-10-20T12:00:00.000Z');
+  });
+});
+
+describe('validateSchedule', () => {
+  it('accepts a valid schedule and rejects bad input', () => {
+    expect(validateSchedule({ scanSchedule: '0 9 * * 1-5', scheduleTimezone: 'Europe/London' })).toBeNull();
+    expect(validateSchedule({ scanSchedule: '* * * * *' })).toBe('Schedule must run at most every 15 minutes');
+    expect(validateSchedule({ scheduleTimezone: 'Mars/Olympus' })).toBe('Unknown timezone "Mars/Olympus"');
+    expect(validateSchedule({ quietHours: { start: '22:00', end: '7am' } })).toBe('Invalid time "7am" (expected HH:MM)');
+  });
+});
+
+describe('backfill paging', () => {
+  const backfill = {
+    cursor: '2026-10-19T00:00:00.000Z',
+    stop_at: '2026-09-01T00:00:00.000Z',
+    page_days: 7,
+    created_at: '2026-10-19T00:00:00.000Z',
+  };
+
+  it('walks back one page at a time and stops at the start date', () => {
+    expect(planNextPage(backfill)).toEqual({
+      since: new Date('2026-10-12T00:00:00.000Z'),
+      until: new Date('2026-10-19T00:00:00.000Z'),
+    });
+    expect(planNextPage({ ...backfill, cursor: '2026-09-04T00:00:00.000Z' })).toEqual({
+      since: new Date('2026-09-01T00:00:00.000Z'),
+      until: new Date('2026-09-04T00:00:00.000Z'),
+    });
+    expect(planNextPage({ ...backfill, cursor: '2026-09-01T00:00:00.000Z' })).toBeNull();
+  });
+
+  it('counts the pages in the whole range', () => {
+    // 48 days in 7-day pages
+    expect(countPages(backfill)).toBe(7);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Stack Exchange Hunter Tests
+ * Question and answer discovery against recorded API responses, duplicate
+ * folding, and classification through classifyBatch
+ */
+
+import { StackExchangeHunter, htmlToText } from '@/lib/hunters/stackexchange-hunter';
+import type { HunterConfig, PlatformIntegration } from '@/types/hunter';
+
+import filter from '../mocks/fixtures/stackexchange/filter.json';
+import search from '../mocks/fixtures/stackexchange/search.json';
+import questionsTagged from '../mocks/fixtures/stackexchange/questions-tagged.json';
+import answers from '../mocks/fixtures/stackexchange/answers.json';
+
+const mockCreateCompletion = jest.fn();
+
+jest.mock('@/lib/openai-client', () => ({
+  getOpenAI: jest.fn(() => ({
+    chat: { completions: { create: mockCreateCompletion } },
+  })),
+}));
+
+jest.mock('@/lib/hunters/concurrency', () => ({
+  checkOpenAIRateLimit: jest.fn(async () => ({ allowed: true })),
+}));
+
+jest.mock('@/lib/supabase-client', () => ({
+  getSupabaseServiceRoleClient: jest.fn(() => null),
+}));
+
+const config = {
+  id: 'config-1',
+  project_id: 'project-1',
+  company_name: 'SignalsLoop',
+  name_variations: [],
+  competitors: [],
+  keywords: [],
+  excluded_keywords: ['SignalsLoop Capital'],
+} as unknown as HunterConfig;
+
+const integration = {
+  id: 'integration-1',
+  project_id: 'project-1',
+  platform_type: 'stackexchange',
+  config: { stackexchange_tags: ['SignalsLoop'] },
+  status: 'active',
+} as unknown as PlatformIntegration;
+
+function mockStackExchange() {
+  const fetchMock = jest.fn(async (url: string) => {
+    const path = new URL(url).pathname;
+    const body = path.endsWith('/filters/create') ? filter
+      : path.endsWith('/search/advanced') ? search
+        : path.endsWith('/answers') ? answers
+          : questionsTagged;
+    return { ok: true, status: 200, json: async () => body };
+  });
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+describe('StackExchangeHunter', () => {
+  let delaySpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    delaySpy = jest.spyOn(StackExchangeHunter.prototype as any, 'delay').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('searches by product name and tags, and pulls top answers', async () => {
+    const fetchMock = mockStackExchange();
+
+    const results = await new StackExchangeHunter().hunt(config, integration);
+
+    expect(results.map((r) => r.platform_id)).toEqual([
+      'stackoverflow:q79100001',
+      'stackoverflow:a79100011',
+      'stackoverflow:a79100012',
+      'stackoverflow:q79100004',
+      'stackoverflow:a79100021',
+      'stackoverflow:q79100005',
+    ]);
+
+    const urls = fetchMock.mock.calls.map(([url]) => new URL(url as string));
+    expect(urls.map((url) => url.pathname)).toEqual([
+      '/2.3/filters/create',
+      '/2.3/search/advanced',
+      '/2.3/questions',
+      '/2.3/questions/79100001;79100004/answers',
+    ]);
+    expect(urls[1].searchParams.get('q')).toBe('SignalsLoop');
+    expect(urls[1].searchParams.get('filter')).toBe('!nNPvSNdWme');
+    expect(urls[2].searchParams.get('tagged')).toBe('signalsloop');
+
+    // The tag listing asked for a 2s backoff before the answers call
+    expect(delaySpy).toHaveBeenCalledTimes(1);
+    expect(delaySpy.mock.calls[0][0]).toBeGreaterThan(1000);
+  });
+
+  it('treats accepted answers and duplicate questions as engagement and dedupe hints', async () => {
+    mockStackExchange();
+
+    const results = await new StackExchangeHunter().hunt(config, integration);
+    const byId = Object.fromEntries(results.map((r) => [r.platform_id, r]));
+
+    // The duplicate of q79100001 folds into it
+    expect(byId['stackoverflow:q79100002']).toBeUndefined();
+    expect(byId['stackoverflow:q79100001']).toMatchObject({
+      title: 'SignalsLoop widget not loading in Next.js app router',
+      author_username: 'Dana K',
+      author_metadata: { karma: 1520 },
+      engagement_metrics: { score: 8, upvotes: 7, views: 470, replies: 2, accepted: true, duplicates: 1 },
+      labels: ['next.js', 'signalsloop'],
+    });
+    expect(byId['stackoverflow:q79100001'].content).toContain('window is not defined');
+    expect(byId['stackoverflow:q79100001'].duplicate_of).toBeUndefined();
+
+    expect(byId['stackoverflow:a79100011']).toMatchObject({
+      title: 'Answer: SignalsLoop widget not loading in Next.js app router',
+      platform_url: 'https://stackoverflow.com/a/79100011',
+      engagement_metrics: { score: 9, accepted: true },
+    });
+
+    // A duplicate of a question outside this batch is kept with a hint
+    expect(byId['stackoverflow:q79100005'].duplicate_of).toBe('stackoverflow:q78000000');
+    // Excluded terms drop the question entirely
+    expect(byId['stackoverflow:q79100003']).toBeUndefined();
+  });
+
+  it('classifies results through classifyBatch with engagement in the prompt', async () => {
+    mockStackExchange();
+    mockCreateCompletion.mockResolvedValue({
+      choices: [{
+        message: {
+          content: JSON.stringify({
+            classification: 'bug',
+            confidence: 0.9,
+            reasoning: 'Widget does not render',
+            urgency_score: 4,
+            sentiment_score: -0.4,
+            sentiment_category: 'negative',
+            tags: ['widget'],
+          }),
+        },
+      }],
+    });
+
+    const hunter = new StackExchangeHunter();
+    const [question] = await hunter.hunt(config, integration);
+    const [classified] = await hunter.classifyBatch([question]);
+
+    expect(classified.classification).toBe('bug');
+    // 8 score + 7 upvotes + 2 answers * 3 + 470 views / 100 + 5 accepted + 5 per duplicate
+    expect(classified.engagement_score).toBe(35);
+
+    const userPrompt = mockCreateCompletion.mock.calls[0][0].messages[1].content as string;
+    expect(userPrompt).toContain('SOURCE: stackexchange');
+    expect(userPrompt).toContain('"accepted":true');
+  });
+});
+
+describe('htmlToText', () => {
+  it('strips markup, collapses code blocks and decodes entities', () => {
+    expect(htmlToText('<p>Use <code>a &amp;&amp; b</code></p><pre><code>x &lt; y</code></pre><p>It&#39;s &quot;fine&quot;</p>'))
+      .toBe('Use a && b\n [code] It\'s "fine"');
+  });
+});
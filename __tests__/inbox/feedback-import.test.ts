@@ -0,0 +1,288 @@
+/**
+ * Feedback Import Tests
+ * File parsing, column and date detection, row validation and the
+ * hash-based dedupe on commit, against exports from Canny and UserVoice
+ */
+
+import fs from 'fs';
+import path from 'path';
+import ExcelJS from 'exceljs';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  FeedbackImporter,
+  ImportFileError,
+  detectColumnMapping,
+  detectDateFormat,
+  detectFormat,
+  mapImportRows,
+  parseCsv,
+  parseImportDate,
+  parseImportFile,
+} from '@/lib/inbox/feedback-import';
+
+function fixture(name: string): Buffer {
+  return fs.readFileSync(path.join(__dirname, '../mocks/fixtures/import', name));
+}
+
+/**
+ * In-memory stand-in for the two tables the importer touches
+ */
+function fakeSupabase() {
+  const imports = new Map<string, Record<string, any>>();
+  const items: Array<Record<string, any>> = [];
+
+  const from = (table: string) => {
+    const filters: Array<[string, unknown]> = [];
+    const inFilters: Array<[string, unknown[]]> = [];
+    let pending: { kind: 'insert' | 'update' | 'upsert'; values: any } | null = null;
+
+    const matches = (row: Record<string, any>) =>
+      filters.every(([column, value]) => row[column] === value)
+      && inFilters.every(([column, values]) => values.includes(row[column]));
+
+    const run = () => {
+      const rows = table === 'inbox_imports' ? [...imports.values()] : items;
+
+      if (pending?.kind === 'insert') {
+        const row = { id: `import-${imports.size + 1}`, ...pending.values };
+        imports.set(row.id, row);
+        return [row];
+      }
+
+      if (pending?.kind === 'update') {
+        rows.filter(matches).forEach(row => Object.assign(row, pending!.values));
+        return [];
+      }
+
+      if (pending?.kind === 'upsert') {
+        const inserted = (pending.values as Array<Record<string, any>>).filter(value =>
+          !items.some(item => item.project_id === value.project_id && item.import_row_hash === value.import_row_hash)
+        );
+        items.push(...inserted);
+        return inserted;
+      }
+
+      return rows.filter(matches);
+    };
+
+    const query: Record<string, any> = {
+      select: () => query,
+      eq: (column: string, value: unknown) => { filters.push([column, value]); return query; },
+      in: (column: string, values: unknown[]) => { inFilters.push([column, values]); return query; },
+      insert: (values: unknown) => { pending = { kind: 'insert', values }; return query; },
+      update: (values: unknown) => { pending = { kind: 'update', values }; return query; },
+      upsert: (values: unknown) => { pending = { kind: 'upsert', values }; return query; },
+      single: async () => ({ data: run()[0] ?? null, error: null }),
+      maybeSingle: async () => ({ data: run()[0] ?? null, error: null }),
+      then: (resolve: (value: unknown) => void) => resolve({ data: run(), error: null }),
+    };
+    return query;
+  };
+
+  return { client: { from } as unknown as SupabaseClient, imports, items };
+}
+
+describe('file parsing', () => {
+  it('detects formats from the extension or the content', () => {
+    expect(detectFormat('export.JSONL', Buffer.from(''))).toBe('jsonl');
+    expect(detectFormat('export', Buffer.from('[{"a":1}]'))).toBe('json');
+    expect(detectFormat('export', Buffer.from('{"a":1}\n{"a":2}\n'))).toBe('jsonl');
+    expect(detectFormat('export', Buffer.from([0x50, 0x4b, 0x03, 0x04]))).toBe('xlsx');
+    expect(detectFormat('export', Buffer.from('title,body\n'))).toBe('csv');
+  });
+
+  it('reads quoted fields spanning lines and semicolon delimiters', () => {
+    expect(parseCsv('a;b\r\n"x;1";"line one\r\nline ""two"""\r\n')).toEqual([
+      ['a', 'b'],
+      ['x;1', 'line one\r\nline "two"'],
+    ]);
+  });
+
+  it('flattens a wrapped Canny JSON export', async () => {
+    const { columns, rows } = await parseImportFile('json', fixture('canny-posts.json'));
+
+    expect(columns).toEqual(expect.arrayContaining(['author.email', 'board.name', 'tags', 'score']));
+    expect(rows).toHaveLength(3);
+    expect(rows[0]['tags']).toBe('workflow, admin');
+    expect(rows[2]['author.email']).toBe('');
+  });
+
+  it('reads the first worksheet of an XLSX workbook', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Feedback');
+    sheet.addRow(['Title', 'Description', 'Date']);
+    sheet.addRow(['Calendar sync', 'Two-way sync with Google Calendar please', new Date('2026-10-01T12:00:00Z')]);
+    const content = Buffer.from(await workbook.xlsx.writeBuffer());
+
+    const { columns, rows } = await parseImportFile(detectFormat('feedback.xlsx', content)!, content);
+
+    expect(columns).toEqual(['Title', 'Description', 'Date']);
+    expect(rows).toEqual([{
+      Title: 'Calendar sync',
+      Description: 'Two-way sync with Google Calendar please',
+      Date: '2026-10-01T12:00:00.000Z',
+    }]);
+  });
+
+  it('rejects files without rows and malformed JSON Lines', async () => {
+    await expect(parseImportFile('csv', Buffer.from('title,body\n'))).rejects.toThrow('No rows found');
+    await expect(parseImportFile('jsonl', Buffer.from('{"a":1}\n{oops}\n'))).rejects.toThrow(ImportFileError);
+  });
+});
+
+describe('detectColumnMapping', () => {
+  it('maps Canny columns, skipping ones that are always blank', async () => {
+    const { columns, rows } = await parseImportFile('json', fixture('canny-posts.json'));
+
+    expect(detectColumnMapping(columns, rows)).toEqual({
+      content: 'details',
+      title: 'title',
+      authorEmail: 'author.email',
+      authorName: 'author.name',
+      createdAt: 'created',
+      category: 'board.name',
+      tags: 'tags',
+      votes: 'score',
+      sourceUrl: 'url',
+    });
+  });
+
+  it('maps UserVoice columns', async () => {
+    const { columns, rows } = await parseImportFile('csv', fixture('uservoice-suggestions.csv'));
+
+    expect(detectColumnMapping(columns, rows)).toEqual({
+      content: 'Suggestion Body',
+      title: 'Suggestion Title',
+      authorEmail: 'Creator Email',
+      authorName: 'Creator Name',
+      createdAt: 'Created Date',
+      category: 'Category',
+      votes: 'Votes',
+    });
+  });
+
+  it('falls back to the longest text column and an email-looking column', () => {
+    const rows = [
+      { col1: 'dev@hooli.example', col2: 'The API rate limit is too low for our nightly sync job' },
+      { col1: 'ops@hooli.example', col2: 'Audit log should include the IP address of each login' },
+    ];
+
+    expect(detectColumnMapping(['col1', 'col2'], rows)).toEqual({ authorEmail: 'col1', content: 'col2' });
+  });
+});
+
+describe('dates', () => {
+  it('detects the date format from sample values', () => {
+    expect(detectDateFormat(['2026-10-01T12:00:00Z', '2026-10-02'])).toBe('iso');
+    expect(detectDateFormat(['03/10/2026', '13/10/2026'])).toBe('dmy');
+    expect(detectDateFormat(['10/03/2026', '10/13/2026'])).toBe('mdy');
+    expect(detectDateFormat(['03.10.2026 09:15'])).toBe('dmy');
+    expect(detectDateFormat(['1759744800'])).toBe('unix_seconds');
+    expect(detectDateFormat(['1759744800000'])).toBe('unix_ms');
+    expect(detectDateFormat([])).toBe('auto');
+  });
+
+  it('parses each format and rejects impossible dates', () => {
+    expect(parseImportDate('03.10.2026 09:15', 'dmy')?.toISOString()).toBe('2026-10-03T09:15:00.000Z');
+    expect(parseImportDate('10/03/2026 9:15 PM', 'mdy')?.toISOString()).toBe('2026-10-03T21:15:00.000Z');
+    expect(parseImportDate('1759744800', 'unix_seconds')?.toISOString()).toBe('2025-10-06T10:00:00.000Z');
+    expect(parseImportDate('31.02.2026', 'dmy')).toBeNull();
+  });
+});
+
+describe('mapImportRows', () => {
+  it('reports invalid values and skips rows repeated in the file', async () => {
+    const { columns, rows } = await parseImportFile('csv', fixture('uservoice-suggestions.csv'));
+    const mapped = mapImportRows(rows, detectColumnMapping(columns, rows), 'dmy');
+
+    expect(mapped.rows.map(row => row.title)).toEqual(['Slack digest of new ideas', 'Dark mode', 'SSO login loop']);
+    expect(mapped.rows[0]).toMatchObject({
+      content: 'A daily Slack digest would help.\r\nRight now we check the portal by hand.',
+      category: 'feature_request',
+      votes: 12,
+    });
+    expect(mapped.rows[1].authorEmail).toBeUndefined();
+    expect(mapped.rows[2]).toMatchObject({ category: 'bug', createdAt: undefined, votes: undefined });
+    expect(mapped.duplicateRows).toBe(1);
+    expect(mapped.issues.map(issue => [issue.row, issue.field, issue.severity])).toEqual([
+      [2, 'authorEmail', 'warning'],
+      [3, 'authorEmail', 'warning'],
+      [3, undefined, 'warning'],
+      [4, 'createdAt', 'warning'],
+      [4, 'votes', 'warning'],
+    ]);
+  });
+
+  it('treats rows without content as invalid', async () => {
+    const { columns, rows } = await parseImportFile('json', fixture('canny-posts.json'));
+    const mapped = mapImportRows(rows, detectColumnMapping(columns, rows), 'iso');
+
+    expect(mapped.rows).toHaveLength(2);
+    expect(mapped.invalidRows).toBe(1);
+    expect(mapped.issues).toEqual([{ row: 3, field: 'content', severity: 'error', message: 'Missing content' }]);
+  });
+});
+
+describe('FeedbackImporter', () => {
+  it('previews, remaps and commits idempotently', async () => {
+    const { client, items } = fakeSupabase();
+    const importer = new FeedbackImporter(client);
+    const upload = { filename: 'feedback.jsonl', content: fixture('feedback.jsonl') };
+
+    const preview = await importer.createImport('project-1', 'user-1', upload, { sourceLabel: 'Hooli survey' });
+    expect(preview).toMatchObject({
+      format: 'jsonl',
+      dateFormat: 'unix_seconds',
+      totalRows: 2,
+      validRows: 2,
+      alreadyImported: 0,
+    });
+    expect(preview.mapping).toEqual({
+      content: 'message',
+      title: 'subject',
+      authorEmail: 'email',
+      createdAt: 'timestamp',
+      tags: 'labels',
+    });
+
+    const remapped = await importer.previewImport(preview.importId, 'user-1', {
+      mapping: { ...preview.mapping, tags: undefined },
+    });
+    expect(remapped?.sample[0].tags).toEqual([]);
+    await expect(importer.previewImport(preview.importId, 'user-1', { mapping: { content: 'nope' } }))
+      .rejects.toThrow('Column "nope" isn\'t in the file');
+    expect(await importer.previewImport(preview.importId, 'someone-else')).toBeNull();
+
+    const first = await importer.commitImport(preview.importId, 'user-1');
+    expect(first).toMatchObject({ imported: 2, duplicates: 0, invalid: 0, errors: [] });
+    expect(items[0]).toMatchObject({
+      project_id: 'project-1',
+      source_type: 'csv_import',
+      source_channel: 'Hooli survey',
+      title: 'Webhook retries',
+      author_email: 'dev@hooli.example',
+      tags: [],
+      original_created_at: '2025-10-06T10:00:00.000Z',
+    });
+
+    // Uploading the same export again finds every row already imported
+    const again = await importer.createImport('project-1', 'user-1', upload);
+    expect(again.alreadyImported).toBe(2);
+    const second = await importer.commitImport(again.importId, 'user-1');
+    expect(second).toMatchObject({ imported: 0, duplicates: 2 });
+    expect(items).toHaveLength(2);
+  });
+
+  it('refuses to commit without a content column', async () => {
+    const { client } = fakeSupabase();
+    const importer = new FeedbackImporter(client);
+    const preview = await importer.createImport('project-1', 'user-1', {
+      filename: 'short.csv',
+      content: Buffer.from('id,flag\n1,yes\n'),
+    });
+
+    expect(preview.mapping.content).toBeUndefined();
+    expect(preview.issues[0]).toMatchObject({ severity: 'error', message: 'No column is mapped to content' });
+    await expect(importer.commitImport(preview.importId, 'user-1')).rejects.toThrow(ImportFileError);
+  });
+});
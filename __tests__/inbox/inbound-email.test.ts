@@ -0,0 +1,238 @@
+/**
+ * Inbound Email Tests
+ * MIME parsing, quote and signature stripping, forwarded messages and
+ * attachment storage, against recorded .eml messages
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseMime, parseAddressList } from '@/lib/inbox/mime-parser';
+import {
+  InboundEmailSyncer,
+  findInboundToken,
+  mapInboundEmail,
+  stripQuotedReply,
+  stripSignature,
+} from '@/lib/inbox/syncers/inbound-email-syncer';
+import type { FeedbackIntegration } from '@/lib/inbox/types';
+
+const inserts: Array<{ table: string; values: Record<string, any> }> = [];
+const uploads: Array<{ bucket: string; path: string; size: number; contentType?: string }> = [];
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: () => {
+    const from = (table: string) => {
+      const query: Record<string, unknown> = {};
+      for (const method of ['select', 'eq', 'in', 'order', 'limit', 'update']) {
+        query[method] = () => query;
+      }
+      query.single = async () => ({ data: table === 'unified_feedback_items' ? null : { id: 'x' }, error: null });
+      query.maybeSingle = async () => ({ data: null, error: null });
+      query.insert = (values: Record<string, any>) => {
+        inserts.push({ table, values });
+        return query;
+      };
+      query.then = (resolve: (value: unknown) => void) => resolve({ data: [], error: null });
+      return query;
+    };
+    const storage = {
+      from: (bucket: string) => ({
+        upload: async (objectPath: string, content: Buffer, options: { contentType?: string }) => {
+          uploads.push({ bucket, path: objectPath, size: content.length, contentType: options.contentType });
+          return { data: { path: objectPath }, error: null };
+        },
+      }),
+    };
+    return { from, storage, rpc: async () => ({ data: null, error: null }) };
+  },
+}));
+
+jest.mock('@/lib/openai-client', () => ({
+  getOpenAI: jest.fn(() => ({
+    chat: { completions: { create: async () => ({ choices: [{ message: { content: '{"category":"bug"}' } }] }) } },
+  })),
+}));
+
+jest.mock('@/lib/cache', () => ({
+  invalidateCacheTags: jest.fn(),
+  postCacheTags: jest.fn(() => []),
+}));
+
+const ADDRESS = 'feedback+3f9a1c27d4e8b6a05c12@inbound.signalsloop.com';
+
+function fixture(name: string): Buffer {
+  return fs.readFileSync(path.join(__dirname, '../mocks/fixtures/email', name));
+}
+
+function integration(): FeedbackIntegration {
+  return {
+    id: 'int-email',
+    projectId: 'project-1',
+    integrationType: 'email_inbound',
+    displayName: 'Forwarded Email',
+    credentials: {},
+    config: { enabled: true, syncFrequencyMinutes: 15, inboundToken: '3f9a1c27d4e8b6a05c12', inboxEmail: ADDRESS },
+    syncEnabled: true,
+    syncFrequencyMinutes: 15,
+    lastSyncItemsCount: 0,
+    totalItemsSynced: 0,
+    totalItemsThisMonth: 0,
+    isActive: true,
+    isConnected: true,
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    updatedAt: new Date('2026-10-01T00:00:00Z'),
+  };
+}
+
+describe('parseMime', () => {
+  it('reads headers, threading IDs and a quoted-printable body', () => {
+    const email = parseMime(fixture('reply.eml'));
+
+    expect(email.from).toEqual({ name: 'Ana Lima', email: 'ana.lima@customer.example' });
+    expect(email.to[0].email).toBe(ADDRESS);
+    expect(email.messageId).toBe('CAKx7bR2=reply-2@mail.customer.example');
+    expect(email.inReplyTo).toBe('CAKx7bR1-root@mail.customer.example');
+    expect(email.references).toEqual([
+      'CAKx7bR1-root@mail.customer.example',
+      'CAKx7bR1-second@mail.customer.example',
+    ]);
+    expect(email.date?.toISOString()).toBe('2026-10-14T08:42:17.000Z');
+    expect(email.text).toContain('Still broken on 4.2 — the “Region” column is missing whenever');
+    expect(email.html).toBe('<div dir="ltr">Still broken on 4.2</div>\r\n');
+  });
+
+  it('decodes encoded-word headers, nested multiparts and attachments', () => {
+    const email = parseMime(fixture('forwarded.eml'));
+
+    expect(email.subject).toBe('Fwd: Dark mode for the dashboard 🌙');
+    expect(email.from).toEqual({ name: 'José Martínez', email: 'jose@signalsloop.example' });
+    expect(email.text).toContain('---------- Forwarded message ---------');
+    expect(email.attachments.map(a => [a.filename, a.contentType, a.inline])).toEqual([
+      ['attachment-1.png', 'image/png', true],
+      ['wall display – mockup.pdf', 'application/pdf', false],
+    ]);
+    expect(email.attachments[1].content.toString('latin1')).toMatch(/^%PDF-1\.4/);
+  });
+
+  it('decodes legacy charsets in CRLF messages', () => {
+    const email = parseMime(fixture('outlook-html.eml'));
+
+    expect(email.text).toBeUndefined();
+    expect(email.html).toContain('the Français translation');
+    expect(email.to[0]).toEqual({ name: 'Feedback', email: ADDRESS });
+  });
+});
+
+describe('parseAddressList', () => {
+  it('handles quoted commas and bare addresses', () => {
+    expect(parseAddressList('"Lima, Ana" <Ana@Example.com>, bo@example.com')).toEqual([
+      { name: 'Lima, Ana', email: 'ana@example.com' },
+      { email: 'bo@example.com' },
+    ]);
+  });
+});
+
+describe('content cleanup', () => {
+  it('cuts quoted replies and signatures', () => {
+    const text = 'Works now, thanks!\n\nOn Tue, Oct 14, 2026 at 9:00 AM Support <s@x.example> wrote:\n> Try again?';
+    expect(stripQuotedReply(text)).toBe('Works now, thanks!');
+    expect(stripSignature('Works now\n-- \nAna\nFinance')).toBe('Works now');
+    expect(stripSignature('Works now\n\nGet Outlook for iOS')).toBe('Works now');
+  });
+
+  it('keeps interleaved replies but drops the quoted lines', () => {
+    expect(stripQuotedReply('> Which version?\n4.2\n> Which browser?\nFirefox')).toBe('4.2\nFirefox');
+  });
+});
+
+describe('mapInboundEmail', () => {
+  it('maps a reply to a thread with quotes and signature removed', () => {
+    const item = mapInboundEmail(parseMime(fixture('reply.eml')), ADDRESS)!;
+
+    expect(item.content).toBe(
+      'Still broken on 4.2 — the “Region” column is missing whenever the report has more than 20 columns.\n\n'
+      + 'It’s blocking our month-end close.'
+    );
+    expect(item.title).toBe('Export to CSV drops the last column');
+    expect(item.sourceId).toBe('CAKx7bR2=reply-2@mail.customer.example');
+    expect(item.sourceThreadId).toBe('CAKx7bR1-root@mail.customer.example');
+    expect(item.sourceChannel).toBe(ADDRESS);
+    expect(item.authorEmail).toBe('ana.lima@customer.example');
+  });
+
+  it('attributes forwarded mail to the original sender', () => {
+    const item = mapInboundEmail(parseMime(fixture('forwarded.eml')), ADDRESS)!;
+
+    expect(item.authorEmail).toBe('bruno@bigco.example');
+    expect(item.authorName).toBe('Bruno Costa');
+    expect(item.title).toBe('Dark mode for the dashboard');
+    expect(item.content).toBe(
+      'Hi team,\n\n'
+      + 'We\'d love a dark mode for the analytics dashboard - our NOC runs it on a wall display all night.\n\n'
+      + 'Happy to share screenshots of what we mean, see attached.'
+    );
+    expect(item.originalCreatedAt.toISOString()).toBe('2026-10-10T16:20:00.000Z');
+    expect(item.authorMetadata).toEqual({
+      forwardedBy: 'jose@signalsloop.example',
+      forwardNote: 'Can we get this into the inbox? Came in through the sales team.',
+    });
+  });
+
+  it('cuts Outlook header blocks from HTML-only replies', () => {
+    const item = mapInboundEmail(parseMime(fixture('outlook-html.eml')), ADDRESS)!;
+
+    expect(item.content).toBe(
+      'Bonjour, the Français translation of the billing page is missing.\n'
+      + 'Could you add it before our région goes live?'
+    );
+    expect(item.title).toBe('Your October product update');
+  });
+});
+
+describe('findInboundToken', () => {
+  const domain = process.env.INBOUND_EMAIL_DOMAIN;
+  afterEach(() => { process.env.INBOUND_EMAIL_DOMAIN = domain; });
+
+  it('picks the feedback address on the configured domain', () => {
+    process.env.INBOUND_EMAIL_DOMAIN = 'inbound.signalsloop.com';
+
+    expect(findInboundToken(['sales@signalsloop.example', 'Feedback+3F9A1C27d4e8b6a05c12@inbound.signalsloop.com']))
+      .toBe('3f9a1c27d4e8b6a05c12');
+    expect(findInboundToken(['feedback+3f9a1c27@elsewhere.example'])).toBeNull();
+  });
+});
+
+describe('InboundEmailSyncer.ingestEmail', () => {
+  beforeEach(() => {
+    inserts.length = 0;
+    uploads.length = 0;
+  });
+
+  it('stores attachments and the classified item', async () => {
+    const result = await new InboundEmailSyncer().ingestEmail(
+      integration(),
+      parseMime(fixture('forwarded.eml')),
+      ADDRESS
+    );
+
+    expect(result.itemsImported).toBe(1);
+    expect(uploads).toHaveLength(2);
+    expect(uploads[1]).toMatchObject({ bucket: 'inbox-attachments', contentType: 'application/pdf' });
+    expect(uploads[1].path).toMatch(/^project-1\/[a-f0-9]{32}\/wall_display_mockup\.pdf$/);
+
+    const stored = inserts.find(insert => insert.table === 'unified_feedback_items')!.values;
+    expect(stored).toMatchObject({
+      source_type: 'email_inbound',
+      integration_id: 'int-email',
+      author_email: 'bruno@bigco.example',
+      category: 'bug',
+    });
+    expect(stored.attachments[1]).toEqual({
+      filename: 'wall display – mockup.pdf',
+      contentType: 'application/pdf',
+      size: uploads[1].size,
+      inline: false,
+      storagePath: uploads[1].path,
+    });
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Inbox Reply Tests
+ * Replies posted back to Slack, Discord, Intercom, Gmail and Outlook with
+ * the integration's stored credentials
+ */
+
+import { SlackSyncer } from '@/lib/inbox/syncers/slack-syncer';
+import { DiscordSyncer } from '@/lib/inbox/syncers/discord-syncer';
+import { IntercomSyncer } from '@/lib/inbox/syncers/intercom-syncer';
+import { GmailSyncer, buildReplyMime } from '@/lib/inbox/syncers/gmail-syncer';
+import { OutlookSyncer } from '@/lib/inbox/syncers/outlook-syncer';
+import { ZendeskSyncer } from '@/lib/inbox/syncers/zendesk-syncer';
+import type {
+  FeedbackIntegration,
+  IntegrationCredentials,
+  IntegrationType,
+  UnifiedFeedbackItem,
+} from '@/lib/inbox/types';
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({ from: () => ({}), rpc: async () => ({ data: null, error: null }) }),
+}));
+
+jest.mock('@/lib/openai-client', () => ({
+  getOpenAI: jest.fn(() => ({})),
+}));
+
+jest.mock('@/lib/cache', () => ({
+  invalidateCacheTags: jest.fn(),
+  postCacheTags: jest.fn(() => []),
+}));
+
+type Route = [string, RegExp, unknown, number?];
+
+/**
+ * Fetch mock keyed on method and URL that records each request body
+ */
+function mockFetch(routes: Route[]) {
+  const fetchMock = jest.fn(async (url: string, init?: RequestInit) => {
+    const method = init?.method || 'GET';
+    const route = routes.find(([m, pattern]) => m === method && pattern.test(url));
+    if (!route) throw new Error(`Unexpected request: ${method} ${url}`);
+    const [, , body, status = 200] = route;
+    return {
+      ok: status >= 200 && status < 300,
+      status,
+      statusText: status === 200 ? 'OK' : 'Error',
+      json: async () => body,
+      text: async () => JSON.stringify(body),
+    } as Response;
+  });
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+function sentBody(fetchMock: jest.Mock, pattern: RegExp): Record<string, any> {
+  const call = fetchMock.mock.calls.find(([url, init]) => pattern.test(url) && init?.method === 'POST');
+  return JSON.parse(call?.[1]?.body as string);
+}
+
+function sentHeaders(fetchMock: jest.Mock, index: number): Record<string, string> {
+  return (fetchMock.mock.calls[index][1] as RequestInit).headers as Record<string, string>;
+}
+
+function integration(
+  integrationType: IntegrationType,
+  credentials: IntegrationCredentials
+): FeedbackIntegration {
+  return {
+    id: `int-${integrationType}`,
+    projectId: 'project-1',
+    integrationType,
+    displayName: integrationType,
+    credentials,
+    config: { enabled: true, syncFrequencyMinutes: 15 },
+    syncEnabled: true,
+    syncFrequencyMinutes: 15,
+    lastSyncItemsCount: 0,
+    totalItemsSynced: 0,
+    totalItemsThisMonth: 0,
+    isActive: true,
+    isConnected: true,
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    updatedAt: new Date('2026-10-01T00:00:00Z'),
+  };
+}
+
+function item(overrides: Partial<UnifiedFeedbackItem>): UnifiedFeedbackItem {
+  return {
+    id: 'item-1',
+    projectId: 'project-1',
+    integrationId: 'int-1',
+    sourceType: 'slack',
+    content: 'The export button does nothing',
+    language: 'en',
+    authorMetadata: {},
+    tags: [],
+    isDuplicate: false,
+    engagementMetrics: {},
+    engagementScore: 0,
+    status: 'new',
+    starred: false,
+    originalCreatedAt: new Date('2026-10-01T00:00:00Z'),
+    importedAt: new Date('2026-10-01T00:00:00Z'),
+    updatedAt: new Date('2026-10-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+const reply = 'Thanks! We shipped a fix this morning.';
+
+describe('SlackSyncer.sendReply', () => {
+  it('replies in the thread, reading the channel ID from the source URL', async () => {
+    const fetchMock = mockFetch([['POST', /chat\.postMessage$/, { ok: true, ts: '1760000000.000200' }]]);
+
+    const delivery = await new SlackSyncer().sendReply(
+      integration('slack', { accessToken: 'xoxb-1' }),
+      item({
+        sourceId: '1759990000.000100',
+        sourceChannel: 'feedback',
+        sourceUrl: 'slack://channel?id=C024BE91L&message=1759990000.000100',
+      }),
+      reply
+    );
+
+    expect(sentBody(fetchMock, /chat\.postMessage/)).toEqual({
+      channel: 'C024BE91L',
+      thread_ts: '1759990000.000100',
+      text: reply,
+    });
+    expect(delivery.externalId).toBe('1760000000.000200');
+  });
+
+  it('surfaces Slack API errors', async () => {
+    mockFetch([['POST', /chat\.postMessage$/, { ok: false, error: 'not_in_channel' }]]);
+
+    await expect(new SlackSyncer().sendReply(
+      integration('slack', { accessToken: 'xoxb-1' }),
+      item({ sourceId: '1759990000.000100', sourceChannel: 'C024BE91L' }),
+      reply
+    )).rejects.toThrow('Slack API error: not_in_channel');
+  });
+});
+
+describe('DiscordSyncer.sendReply', () => {
+  it('posts a message referencing the original', async () => {
+    const fetchMock = mockFetch([['POST', /\/channels\/81384788765712384\/messages$/, { id: '9001' }]]);
+
+    const delivery = await new DiscordSyncer().sendReply(
+      integration('discord', { accessToken: 'bot-token', guildId: '41771983423143937' }),
+      item({ sourceType: 'discord', sourceId: '8999', sourceChannel: '81384788765712384' }),
+      reply
+    );
+
+    expect(sentBody(fetchMock, /\/messages$/)).toMatchObject({
+      content: reply,
+      message_reference: { message_id: '8999' },
+    });
+    expect(sentHeaders(fetchMock, 0).Authorization).toBe('Bot bot-token');
+    expect(delivery.externalUrl).toBe('https://discord.com/channels/41771983423143937/81384788765712384/9001');
+  });
+});
+
+describe('IntercomSyncer.sendReply', () => {
+  it('replies to the conversation as the token owner', async () => {
+    const fetchMock = mockFetch([
+      ['GET', /\/me$/, { type: 'admin', id: '814860' }],
+      ['POST', /\/conversations\/1911149811\/reply$/, {
+        id: '1911149811',
+        conversation_parts: { conversation_parts: [{ id: '7001' }, { id: '7002' }] },
+      }],
+    ]);
+
+    const delivery = await new IntercomSyncer().sendReply(
+      integration('intercom', { accessToken: 'ic-token' }),
+      item({ sourceType: 'intercom', sourceId: '1911149811' }),
+      reply
+    );
+
+    expect(sentBody(fetchMock, /\/reply$/)).toEqual({
+      message_type: 'comment',
+      type: 'admin',
+      admin_id: '814860',
+      body: reply,
+    });
+    expect(delivery.externalId).toBe('7002');
+  });
+});
+
+describe('GmailSyncer.sendReply', () => {
+  it('sends a threaded reply to the sender', async () => {
+    const fetchMock = mockFetch([
+      ['GET', /\/messages\/18f2a\?format=metadata/, {
+        id: '18f2a',
+        threadId: 't-77',
+        payload: {
+          headers: [
+            { name: 'Subject', value: 'Export broken' },
+            { name: 'Message-ID', value: '<CAF123@mail.example.com>' },
+          ],
+        },
+      }],
+      ['POST', /\/messages\/send$/, { id: '18f3b', threadId: 't-77' }],
+    ]);
+
+    await new GmailSyncer().sendReply(
+      integration('email_gmail', { accessToken: 'gm-token' }),
+      item({ sourceType: 'email_gmail', sourceId: '18f2a', authorEmail: 'ana@customer.example' }),
+      reply
+    );
+
+    const sent = sentBody(fetchMock, /\/messages\/send$/);
+    const mime = Buffer.from(sent.raw, 'base64url').toString('utf-8');
+
+    expect(sent.threadId).toBe('t-77');
+    expect(mime).toContain('To: ana@customer.example');
+    expect(mime).toContain('Subject: Re: Export broken');
+    expect(mime).toContain('In-Reply-To: <CAF123@mail.example.com>');
+    expect(mime.endsWith(`\r\n\r\n${reply}`)).toBe(true);
+  });
+
+  it('keeps an existing Re: prefix', () => {
+    expect(buildReplyMime({ to: 'a@b.example', subject: 'RE: Billing', body: 'Hi' }))
+      .toContain('Subject: RE: Billing\r\n');
+  });
+});
+
+describe('OutlookSyncer.sendReply', () => {
+  it('replies through Graph with a Mail.Send token', async () => {
+    process.env.MICROSOFT_CLIENT_ID = 'client';
+    process.env.MICROSOFT_CLIENT_SECRET = 'secret';
+    const fetchMock = mockFetch([
+      ['POST', /oauth2\/v2\.0\/token$/, { access_token: 'graph-send-token' }],
+      ['POST', /\/me\/messages\/AAMkAD%3D\/reply$/, {}, 202],
+    ]);
+
+    await new OutlookSyncer().sendReply(
+      integration('email_outlook', { refreshToken: 'refresh' }),
+      item({ sourceType: 'email_outlook', sourceId: 'AAMkAD=' }),
+      reply
+    );
+
+    const tokenRequest = (fetchMock.mock.calls[0][1] as RequestInit).body as URLSearchParams;
+    expect(tokenRequest.get('scope')).toBe('https://graph.microsoft.com/Mail.Send offline_access');
+    expect(sentBody(fetchMock, /\/reply$/)).toEqual({ comment: reply });
+    expect(sentHeaders(fetchMock, 1).Authorization).toBe('Bearer graph-send-token');
+  });
+});
+
+describe('sources without replies', () => {
+  it('refuses to reply', async () => {
+    const syncer = new ZendeskSyncer();
+
+    expect(syncer.supportsReply).toBe(false);
+    await expect(syncer.sendReply(
+      integration('zendesk', { apiKey: 'zd' }),
+      item({ sourceType: 'zendesk' }),
+      reply
+    )).rejects.toThrow("Replying isn't supported for zendesk");
+  });
+});
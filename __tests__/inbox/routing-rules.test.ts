@@ -0,0 +1,175 @@
+/**
+ * Inbox Routing Rule Tests
+ * Condition matching, rule ordering, the column updates actions produce,
+ * rule validation and dry runs over historical items
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  RoutingEngine,
+  buildItemUpdate,
+  matchesConditions,
+  selectMatchingRules,
+  validateRule,
+} from '@/lib/inbox/routing-rules';
+import type { RoutingRule, UnifiedFeedbackItem } from '@/lib/inbox/types';
+
+jest.mock('@/lib/cache', () => ({
+  invalidateCacheTags: jest.fn(),
+  postCacheTags: jest.fn(() => []),
+}));
+
+function item(overrides: Partial<UnifiedFeedbackItem> = {}): UnifiedFeedbackItem {
+  return {
+    id: 'item-1',
+    projectId: 'project-1',
+    sourceType: 'zendesk',
+    title: 'Refund request',
+    content: 'The export keeps failing and I want a refund',
+    language: 'en',
+    authorMetadata: {},
+    category: 'complaint',
+    sentimentScore: -0.7,
+    sentimentLabel: 'negative',
+    urgencyScore: 4,
+    tags: ['export'],
+    isDuplicate: false,
+    engagementMetrics: {},
+    engagementScore: 0,
+    status: 'new',
+    starred: false,
+    originalCreatedAt: new Date('2026-10-01T00:00:00Z'),
+    importedAt: new Date('2026-10-01T00:00:00Z'),
+    updatedAt: new Date('2026-10-01T00:00:00Z'),
+    customer: { planName: 'Enterprise', mrr: 2400 } as UnifiedFeedbackItem['customer'],
+    ...overrides,
+  };
+}
+
+function rule(overrides: Partial<RoutingRule> = {}): RoutingRule {
+  return {
+    id: 'rule-1',
+    projectId: 'project-1',
+    name: 'Rule',
+    enabled: true,
+    position: 0,
+    conditions: {},
+    actions: [{ type: 'tag', tags: ['routed'] }],
+    stopProcessing: false,
+    matchCount: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('matchesConditions', () => {
+  it('requires every condition that is set', () => {
+    const conditions = {
+      sourceTypes: ['zendesk' as const, 'intercom' as const],
+      keywords: ['REFUND'],
+      sentimentMax: -0.5,
+      customerTiers: ['enterprise'],
+      categories: ['complaint' as const],
+      minUrgency: 4,
+    };
+
+    expect(matchesConditions(conditions, item())).toBe(true);
+    expect(matchesConditions(conditions, item({ sourceType: 'slack' }))).toBe(false);
+    expect(matchesConditions(conditions, item({ sentimentScore: 0.2 }))).toBe(false);
+    expect(matchesConditions(conditions, item({ customer: undefined }))).toBe(false);
+  });
+
+  it('honours excluded keywords, languages and customer MRR', () => {
+    expect(matchesConditions({ excludeKeywords: ['export'] }, item())).toBe(false);
+    expect(matchesConditions({ languages: ['de', 'fr'] }, item())).toBe(false);
+    expect(matchesConditions({ languages: ['EN'] }, item())).toBe(true);
+    expect(matchesConditions({ minCustomerMrr: 5000 }, item())).toBe(false);
+  });
+
+  it('matches everything when no conditions are set', () => {
+    expect(matchesConditions({}, item({ sourceType: 'reddit', customer: undefined }))).toBe(true);
+  });
+});
+
+describe('selectMatchingRules', () => {
+  it('runs enabled rules in position order and stops where asked', () => {
+    const rules = [
+      rule({ id: 'late', position: 3 }),
+      rule({ id: 'disabled', position: 0, enabled: false }),
+      rule({ id: 'stop', position: 2, stopProcessing: true }),
+      rule({ id: 'first', position: 1 }),
+    ];
+
+    expect(selectMatchingRules(rules, item()).map(r => r.id)).toEqual(['first', 'stop']);
+  });
+});
+
+describe('buildItemUpdate', () => {
+  it('merges tags and lets later actions win', () => {
+    const update = buildItemUpdate(item(), [
+      { type: 'tag', tags: ['refund', 'export'] },
+      { type: 'set_priority', priority: 'medium' },
+      { type: 'set_priority', priority: 'urgent' },
+      { type: 'assign', userId: 'user-2' },
+      { type: 'archive' },
+      { type: 'slack', channelId: 'C123' },
+    ]);
+
+    expect(update).toMatchObject({
+      tags: ['export', 'refund'],
+      priority: 'urgent',
+      assigned_to: 'user-2',
+      status: 'archived',
+    });
+  });
+});
+
+describe('validateRule', () => {
+  it('rejects rules without actions and malformed actions', () => {
+    expect(validateRule({ name: 'Refunds', conditions: {}, actions: [] })).toBe('A rule needs at least one action');
+    expect(validateRule({
+      name: 'Refunds',
+      conditions: {},
+      actions: [{ type: 'set_priority', priority: 'critical' as never }],
+    })).toBe('priority must be one of low, medium, high, urgent');
+    expect(validateRule({ name: 'Refunds', conditions: { sentimentMin: -3 }, actions: [{ type: 'archive' }] }))
+      .toBe('Sentiment bounds must be between -1 and 1');
+  });
+
+  it('only checks the fields present in an update', () => {
+    expect(validateRule({ enabled: false }, true)).toBeNull();
+    expect(validateRule({ name: ' ' }, true)).toBe('Rule name is required');
+  });
+});
+
+describe('RoutingEngine.dryRun', () => {
+  it('reports matching historical items without writing anything', async () => {
+    const rows = [
+      { id: 'a', project_id: 'project-1', source_type: 'zendesk', content: 'Please refund me', original_created_at: '2026-10-10T00:00:00Z' },
+      { id: 'b', project_id: 'project-1', source_type: 'slack', content: 'Love the new export', original_created_at: '2026-10-09T00:00:00Z' },
+      { id: 'c', project_id: 'project-1', source_type: 'zendesk', content: 'Refund for last invoice?', original_created_at: '2026-10-08T00:00:00Z' },
+    ];
+    const writes: string[] = [];
+    const query: Record<string, unknown> = {};
+    for (const method of ['select', 'eq', 'gte', 'order']) {
+      query[method] = () => query;
+    }
+    query.limit = async () => ({ data: rows, error: null });
+    query.update = () => { writes.push('update'); return query; };
+    query.insert = () => { writes.push('insert'); return query; };
+    const supabase = { from: () => query } as unknown as SupabaseClient;
+
+    const result = await new RoutingEngine(supabase).dryRun(
+      'project-1',
+      { conditions: { keywords: ['refund'] }, actions: [{ type: 'archive' }] },
+      30
+    );
+
+    expect(result.itemsScanned).toBe(3);
+    expect(result.itemsMatched).toBe(2);
+    expect(result.matches.map(m => m.itemId)).toEqual(['a', 'c']);
+    expect(result.matches[0].actions).toEqual(['archive']);
+    expect(writes).toEqual([]);
+  });
+});
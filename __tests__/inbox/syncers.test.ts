@@ -0,0 +1,280 @@
+/**
+ * Inbox Syncer Tests
+ * Zendesk and Typeform fetching against recorded API responses, sync-state
+ * cursors and Typeform webhook signatures
+ */
+
+import crypto from 'crypto';
+import { ZendeskSyncer } from '@/lib/inbox/syncers/zendesk-syncer';
+import { TypeformSyncer, mapTypeformResponse, type TypeformResponse } from '@/lib/inbox/syncers/typeform-syncer';
+import type { FeedbackIntegration, IntegrationType } from '@/lib/inbox/types';
+import { verifyTypeformSignature } from '@/lib/webhook-security';
+
+import zendeskMe from '../mocks/fixtures/zendesk/users-me.json';
+import zendeskTicketsPage1 from '../mocks/fixtures/zendesk/tickets-page-1.json';
+import zendeskTicketsPage2 from '../mocks/fixtures/zendesk/tickets-page-2.json';
+import zendeskComments101 from '../mocks/fixtures/zendesk/comments-101.json';
+import zendeskComments102 from '../mocks/fixtures/zendesk/comments-102.json';
+import typeformForm from '../mocks/fixtures/typeform/form.json';
+import typeformResponses from '../mocks/fixtures/typeform/responses.json';
+import typeformWebhook from '../mocks/fixtures/typeform/webhook.json';
+
+const supabaseUpdates: Array<{ table: string; values: Record<string, unknown> }> = [];
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: () => {
+    const from = (table: string) => {
+      const query: Record<string, unknown> = {};
+      for (const method of ['select', 'eq', 'order', 'limit']) {
+        query[method] = () => query;
+      }
+      query.single = async () => ({ data: null, error: null });
+      query.maybeSingle = async () => ({ data: null, error: null });
+      query.insert = () => query;
+      query.update = (values: Record<string, unknown>) => {
+        supabaseUpdates.push({ table, values });
+        return query;
+      };
+      query.then = (resolve: (value: unknown) => void) => resolve({ data: null, error: null });
+      return query;
+    };
+    return { from, rpc: async () => ({ data: null, error: null }) };
+  },
+}));
+
+jest.mock('@/lib/openai-client', () => ({
+  getOpenAI: jest.fn(() => ({
+    chat: { completions: { create: async () => ({ choices: [{ message: { content: '{}' } }] }) } },
+  })),
+}));
+
+jest.mock('@/lib/cache', () => ({
+  invalidateCacheTags: jest.fn(),
+  postCacheTags: jest.fn(() => []),
+}));
+
+type Route = [RegExp, unknown, number?];
+
+function mockFetch(routes: Route[]) {
+  const fetchMock = jest.fn(async (url: string) => {
+    const route = routes.find(([pattern]) => pattern.test(url));
+    if (!route) throw new Error(`Unexpected request: ${url}`);
+    const [, body, status = 200] = route;
+    return {
+      ok: status >= 200 && status < 300,
+      status,
+      statusText: status === 200 ? 'OK' : 'Error',
+      headers: new Headers(),
+      json: async () => body,
+    } as Response;
+  });
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+function requestedUrls(fetchMock: jest.Mock): string[] {
+  return fetchMock.mock.calls.map(([url]) => url as string);
+}
+
+function integration(
+  integrationType: IntegrationType,
+  overrides: Partial<FeedbackIntegration> = {}
+): FeedbackIntegration {
+  return {
+    id: `int-${integrationType}`,
+    projectId: 'project-1',
+    integrationType,
+    displayName: integrationType,
+    credentials: {},
+    config: { enabled: true, syncFrequencyMinutes: 15 },
+    syncEnabled: true,
+    syncFrequencyMinutes: 15,
+    lastSyncItemsCount: 0,
+    totalItemsSynced: 0,
+    totalItemsThisMonth: 0,
+    syncState: {},
+    isActive: true,
+    isConnected: true,
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    updatedAt: new Date('2026-10-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+const zendeskRoutes: Route[] = [
+  [/\/users\/me\.json$/, zendeskMe],
+  [/\/incremental\/tickets\/cursor\.json\?.*cursor=MTU3NjYxMzUzOS4wfHw0Njd8/, zendeskTicketsPage2],
+  [/\/incremental\/tickets\/cursor\.json/, zendeskTicketsPage1],
+  [/\/tickets\/101\/comments\.json/, zendeskComments101],
+  [/\/tickets\/102\/comments\.json/, zendeskComments102],
+];
+
+const zendeskCredentials = { subdomain: 'acme', email: 'sam@acme.example', apiKey: 'zd-token' };
+
+beforeEach(() => {
+  supabaseUpdates.length = 0;
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('ZendeskSyncer', () => {
+  it('imports public end-user comments and skips agent, internal and deleted-ticket comments', async () => {
+    const fetchMock = mockFetch(zendeskRoutes);
+    const syncer = new ZendeskSyncer();
+
+    const items = await syncer.fetchFeedback(integration('zendesk', { credentials: zendeskCredentials }));
+
+    expect(items.map((item) => item.sourceId)).toEqual(['7001', '7004', '7101']);
+    expect(items[0]).toMatchObject({
+      sourceType: 'zendesk',
+      sourceThreadId: '101',
+      sourceUrl: 'https://acme.zendesk.com/agent/tickets/101',
+      sourceChannel: 'email',
+      title: 'Export to CSV times out',
+      authorName: 'Dana Customer',
+      authorEmail: 'dana@bigco.example',
+      metadata: { ticketId: 101, priority: 'high', tags: ['export', 'enterprise'] },
+    });
+    expect(items[2].authorAvatarUrl).toBe('https://acme.zendesk.com/photos/lee.png');
+
+    const urls = requestedUrls(fetchMock);
+    expect(urls[0]).toMatch(/^https:\/\/acme\.zendesk\.com\/api\/v2\/incremental\/tickets\/cursor\.json\?.*start_time=\d+/);
+    expect(urls.some((url) => url.includes('/tickets/103/'))).toBe(false);
+
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const expectedAuth = Buffer.from('sam@acme.example/token:zd-token').toString('base64');
+    expect((init.headers as Record<string, string>).Authorization).toBe(`Basic ${expectedAuth}`);
+  });
+
+  it('resumes from the stored cursor and saves the new one after a successful sync', async () => {
+    const fetchMock = mockFetch(zendeskRoutes);
+    const syncer = new ZendeskSyncer();
+
+    const result = await syncer.sync(
+      integration('zendesk', {
+        credentials: zendeskCredentials,
+        syncState: { afterCursor: 'MTU3NjYxMzUzOS4wfHw0Njd8' },
+      })
+    );
+
+    expect(result.status).toBe('success');
+    expect(requestedUrls(fetchMock)[0]).not.toContain('start_time');
+    expect(supabaseUpdates).toContainEqual({
+      table: 'feedback_integrations',
+      values: { sync_state: { afterCursor: 'MTU3NjYxMzk5OS4wfHw0NzB8' } },
+    });
+  });
+
+  it('keeps the old cursor when the sync fails', async () => {
+    mockFetch([[/\/tickets\/101\/comments\.json/, {}, 500], ...zendeskRoutes]);
+    const syncer = new ZendeskSyncer();
+
+    const result = await syncer.sync(integration('zendesk', { credentials: zendeskCredentials }));
+
+    expect(result.status).toBe('failed');
+    expect(supabaseUpdates.some(({ values }) => 'sync_state' in values)).toBe(false);
+  });
+
+  it('rejects credentials that resolve to an anonymous end user', async () => {
+    const syncer = new ZendeskSyncer();
+
+    mockFetch(zendeskRoutes);
+    await expect(
+      syncer.verifyCredentials(integration('zendesk', { credentials: zendeskCredentials }))
+    ).resolves.toBeUndefined();
+
+    mockFetch([[/\/users\/me\.json$/, { user: { id: null, name: 'Anonymous user', role: 'end-user' } }]]);
+    await expect(
+      syncer.verifyCredentials(integration('zendesk', { credentials: zendeskCredentials }))
+    ).rejects.toThrow('agent or admin');
+
+    await expect(
+      syncer.verifyCredentials(integration('zendesk', { credentials: { ...zendeskCredentials, subdomain: 'evil.com/x' } }))
+    ).rejects.toThrow('subdomain');
+  });
+});
+
+describe('TypeformSyncer', () => {
+  it('maps answers, respondent email and scores onto a feedback item', () => {
+    const [withContent, emailOnly] = typeformResponses.items as TypeformResponse[];
+
+    const item = mapTypeformResponse(typeformForm, withContent);
+
+    expect(item).toMatchObject({
+      sourceType: 'typeform',
+      sourceId: 'resp_a1',
+      sourceThreadId: 'u6nXL7',
+      title: 'Product feedback',
+      authorName: 'Riley',
+      authorEmail: 'riley@customer.example',
+      engagementMetrics: { score: 4 },
+      metadata: { scores: { 'How likely are you to recommend us?': 4 } },
+    });
+    expect(item?.content).toBe(
+      'How likely are you to recommend us?\n4\n\n' +
+        'What should we improve?\nSearch is slow once you have more than a few thousand posts.\n\n' +
+        'Which area is this about?\nPerformance'
+    );
+    expect(item?.content).not.toContain('riley@customer.example');
+
+    expect(mapTypeformResponse(typeformForm, emailOnly)).toBeNull();
+  });
+
+  it('fetches each configured form since its stored cursor and stages the newest submission', async () => {
+    const fetchMock = mockFetch([
+      [/\/forms\/u6nXL7\/responses\?/, typeformResponses],
+      [/\/forms\/u6nXL7$/, typeformForm],
+    ]);
+    const syncer = new TypeformSyncer();
+
+    const result = await syncer.sync(
+      integration('typeform', {
+        credentials: { accessToken: 'tfp_token' },
+        config: { enabled: true, syncFrequencyMinutes: 15, formIds: ['u6nXL7'] },
+        syncState: { forms: { u6nXL7: { since: '2026-10-10T00:00:00Z' } } },
+      })
+    );
+
+    expect(result).toMatchObject({ status: 'success', itemsFound: 1, itemsImported: 1 });
+
+    const responsesUrl = new URL(requestedUrls(fetchMock)[1]);
+    expect(responsesUrl.searchParams.get('since')).toBe('2026-10-10T00:00:00Z');
+    expect(responsesUrl.searchParams.get('completed')).toBe('true');
+
+    expect(supabaseUpdates).toContainEqual({
+      table: 'feedback_integrations',
+      values: { sync_state: { forms: { u6nXL7: { since: '2026-10-16T10:01:00Z' } } } },
+    });
+  });
+
+  it('maps webhook payloads with the embedded form definition', () => {
+    const { form_response: response } = typeformWebhook;
+
+    const item = mapTypeformResponse({ ...response.definition, id: response.form_id }, response as TypeformResponse);
+
+    expect(item).toMatchObject({
+      sourceId: 'resp_c3',
+      authorEmail: 'morgan@customer.example',
+      engagementMetrics: { score: 9 },
+    });
+  });
+});
+
+describe('verifyTypeformSignature', () => {
+  const payload = JSON.stringify(typeformWebhook);
+  const secret = 'tf-webhook-secret';
+  const signature = `sha256=${crypto.createHmac('sha256', secret).update(payload).digest('base64')}`;
+
+  it('accepts the signature Typeform computes over the raw body', () => {
+    expect(verifyTypeformSignature(payload, signature, secret).valid).toBe(true);
+  });
+
+  it('rejects a tampered body, wrong secret or missing header', () => {
+    expect(verifyTypeformSignature(payload.replace('resp_c3', 'resp_x9'), signature, secret).valid).toBe(false);
+    expect(verifyTypeformSignature(payload, signature, 'other-secret').valid).toBe(false);
+    expect(verifyTypeformSignature(payload, null, secret).valid).toBe(false);
+  });
+});
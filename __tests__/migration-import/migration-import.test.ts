@@ -0,0 +1,334 @@
+/**
+ * Migration Import Tests
+ * Parsing Canny, UserVoice and Productboard exports, and resumable,
+ * idempotent runs with rollback against an in-memory database
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { invalidateCacheTags } from '@/lib/cache';
+import {
+  MigrationImportError,
+  MigrationImporter,
+  MigrationRunConflictError,
+  parseMigrationExport,
+} from '@/lib/migration-import';
+
+jest.mock('@/lib/cache', () => ({
+  cacheTags: {
+    project: (id: string) => `project:${id}`,
+    board: (id: string) => `board:${id}`,
+    post: (id: string) => `post:${id}`,
+  },
+  invalidateCacheTags: jest.fn(),
+  postCacheTags: jest.fn((post: { id: string }) => [`post:${post.id}`]),
+}));
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(__dirname, '../mocks/fixtures/migration', name), 'utf-8');
+}
+
+type Row = Record<string, any>;
+
+/**
+ * Just enough of the query builder for the importer: filters, upserts
+ * that skip conflicting rows, deletes and RPC calls
+ */
+function fakeDatabase(seed: Record<string, Row[]> = {}) {
+  const tables = new Map<string, Row[]>(Object.entries(seed).map(([name, rows]) => [name, [...rows]]));
+  const rpcCalls: Array<{ name: string; args: Row }> = [];
+  let nextId = 1;
+
+  const table = (name: string) => {
+    if (!tables.has(name)) tables.set(name, []);
+    return tables.get(name)!;
+  };
+
+  const from = (name: string) => {
+    const filters: Array<(row: Row) => boolean> = [];
+    let action: { kind: 'select' | 'insert' | 'update' | 'delete' | 'upsert'; values?: any; conflict?: string[] } = { kind: 'select' };
+    let limit = Infinity;
+
+    const run = (): Row[] => {
+      const rows = table(name);
+      const matching = () => rows.filter(row => filters.every(filter => filter(row)));
+
+      switch (action.kind) {
+        case 'insert': {
+          const inserted = [].concat(action.values).map((values: Row) => ({ id: `row-${nextId++}`, ...values }));
+          rows.push(...inserted);
+          return inserted;
+        }
+        case 'upsert': {
+          const inserted: Row[] = [];
+          for (const values of [].concat(action.values) as Row[]) {
+            const conflict = rows.some(row => action.conflict!.every(column => row[column] === values[column]));
+            if (!conflict) {
+              const row = { id: `row-${nextId++}`, ...values };
+              rows.push(row);
+              inserted.push(row);
+            }
+          }
+          return inserted;
+        }
+        case 'update': {
+          const updated = matching();
+          updated.forEach(row => Object.assign(row, action.values));
+          return updated;
+        }
+        case 'delete': {
+          const removed = matching();
+          tables.set(name, rows.filter(row => !removed.includes(row)));
+          return removed;
+        }
+        default:
+          return matching().slice(0, limit);
+      }
+    };
+
+    const query: Record<string, any> = {
+      select: () => query,
+      order: () => query,
+      limit: (count: number) => { limit = count; return query; },
+      eq: (column: string, value: unknown) => { filters.push(row => row[column] === value); return query; },
+      in: (column: string, values: unknown[]) => { filters.push(row => values.includes(row[column])); return query; },
+      lt: (column: string, value: string) => { filters.push(row => row[column] < value); return query; },
+      insert: (values: unknown) => { action = { kind: 'insert', values }; return query; },
+      update: (values: unknown) => { action = { kind: 'update', values }; return query; },
+      delete: () => { action = { kind: 'delete' }; return query; },
+      upsert: (values: unknown, options: { onConflict: string }) => {
+        action = { kind: 'upsert', values, conflict: options.onConflict.split(',') };
+        return query;
+      },
+      single: async () => ({ data: run()[0] ?? null, error: null }),
+      maybeSingle: async () => ({ data: run()[0] ?? null, error: null }),
+      then: (resolve: (value: unknown) => void) => resolve({ data: run(), error: null }),
+    };
+    return query;
+  };
+
+  const rpc = async (name: string, args: Row) => {
+    rpcCalls.push({ name, args });
+    return { data: null, error: null };
+  };
+
+  return { client: { from, rpc } as unknown as SupabaseClient, table, rpcCalls };
+}
+
+describe('parseMigrationExport', () => {
+  it('reads a Canny export', () => {
+    const bundle = parseMigrationExport(fixture('canny.json'));
+
+    expect(bundle.platform).toBe('canny');
+    expect(bundle.boards.map(board => board.name)).toEqual(['Feature Requests', 'Bugs']);
+    expect(bundle.posts[0]).toMatchObject({
+      status: 'in_progress',
+      category: 'Admin',
+      tags: ['workflow'],
+      authorEmail: 'priya@acme.example',
+      voteCount: 4,
+    });
+    expect(bundle.posts[1].status).toBe('done');
+    expect(bundle.votes.map(vote => [vote.voterEmail, vote.priority, vote.voterCompany])).toEqual([
+      ['tom@globex.example', 'must_have', 'Globex'],
+      ['lena@initech.example', 'important', undefined],
+      ['priya@acme.example', 'nice_to_have', undefined],
+    ]);
+    expect(bundle.comments.map(comment => comment.sourceId)).toEqual(['cm-reply', 'cm-root']);
+    expect(bundle.warnings).toEqual(['1 internal comments were left out so they don\'t become public']);
+    expect(bundle.changelog).toEqual([{
+      sourceId: 'e-export',
+      title: 'Faster exports',
+      content: 'Exports of large boards no longer time out.',
+      entryType: 'fix',
+      publishedAt: '2026-05-01T09:00:00.000Z',
+      tags: ['Performance'],
+      postSourceIds: ['p-export'],
+    }]);
+  });
+
+  it('follows UserVoice links and drops spam', () => {
+    const bundle = parseMigrationExport(fixture('uservoice.json'));
+
+    expect(bundle.platform).toBe('uservoice');
+    expect(bundle.posts[0]).toMatchObject({
+      boardSourceId: '11',
+      description: 'A daily Slack digest would help.\nRight now we check the portal by hand.',
+      status: 'in_progress',
+      category: 'Integrations',
+      authorEmail: 'marco@umbrella.example',
+      voteCount: 3,
+    });
+    expect(bundle.posts[1].status).toBe('declined');
+    expect(bundle.votes).toEqual([expect.objectContaining({
+      postSourceId: '51',
+      voterEmail: 'ana@customer.example',
+      priority: 'must_have',
+    })]);
+    expect(bundle.comments.map(comment => comment.content)).toEqual(['We would use this every morning.']);
+  });
+
+  it('turns Productboard notes into votes and comments', () => {
+    const bundle = parseMigrationExport(fixture('productboard.json'));
+
+    expect(bundle.platform).toBe('productboard');
+    expect(bundle.boards).toEqual([{ sourceId: 'cmp-reporting', name: 'Reporting', description: 'Dashboards & exports' }]);
+    expect(bundle.posts.map(post => [post.title, post.boardSourceId, post.status, post.voteCount])).toEqual([
+      ['Scheduled reports', 'cmp-reporting', 'planned', 2],
+      ['PDF attachments for scheduled reports', 'cmp-reporting', 'done', 1],
+    ]);
+    expect(bundle.votes.map(vote => [vote.sourceId, vote.voterEmail, vote.priority, vote.voterCompany])).toEqual([
+      ['n1:f-sched', 'tom@globex.example', 'must_have', 'globex.example'],
+      ['n1:f-sched-pdf', 'tom@globex.example', 'nice_to_have', 'globex.example'],
+      ['n2:f-sched', undefined, 'important', undefined],
+    ]);
+    expect(bundle.comments[0].content).toBe('Call with Globex\n\nThey export the same report every week by hand.');
+    expect(bundle.changelog[0]).toMatchObject({
+      title: 'February release',
+      publishedAt: '2026-02-28T00:00:00.000Z',
+      postSourceIds: ['f-sched-pdf'],
+    });
+  });
+
+  it('rejects exports it cannot place', () => {
+    expect(() => parseMigrationExport('{"items": []}')).toThrow(MigrationImportError);
+    expect(() => parseMigrationExport('not json')).toThrow('The export isn\'t valid JSON');
+  });
+});
+
+describe('MigrationImporter', () => {
+  const seed = () => ({
+    boards: [{ id: 'board-existing', project_id: 'project-1', name: 'bugs' }],
+  });
+
+  async function startRun(importer: MigrationImporter) {
+    const bundle = parseMigrationExport(fixture('canny.json'));
+    return importer.createRun('project-1', 'admin-1', bundle, 'canny.json');
+  }
+
+  it('imports every entity and reports what it did', async () => {
+    const db = fakeDatabase(seed());
+    const importer = new MigrationImporter(db.client);
+
+    const run = await importer.runImport((await startRun(importer)).id);
+
+    expect(run?.status).toBe('completed');
+    expect(run?.summary.entities).toEqual({
+      board: { total: 2, created: 1, skipped: 1, failed: 0 },
+      post: { total: 2, created: 2, skipped: 0, failed: 0 },
+      vote: { total: 5, created: 5, skipped: 0, failed: 0 },
+      comment: { total: 2, created: 2, skipped: 0, failed: 0 },
+      changelog: { total: 1, created: 1, skipped: 0, failed: 0 },
+    });
+
+    const [bulk, exportBug] = db.table('posts');
+    expect(exportBug.board_id).toBe('board-existing');
+    expect(bulk).toMatchObject({ title: 'Bulk edit tags on posts', status: 'in_progress', created_at: '2026-03-02T14:11:09.000Z' });
+
+    const votes = db.table('votes');
+    expect(votes.filter(vote => vote.post_id === bulk.id)).toHaveLength(4);
+    expect(votes.filter(vote => vote.anonymous_id)).toHaveLength(2);
+    expect(db.table('vote_metadata')).toHaveLength(3);
+    expect(db.table('vote_metadata')[0]).toMatchObject({
+      voted_by_admin_id: 'admin-1',
+      customer_email: 'tom@globex.example',
+      customer_company: 'Globex',
+      priority: 'must_have',
+      vote_source: 'canny_import',
+    });
+    expect(db.rpcCalls.map(call => call.args.p_post_id).sort()).toEqual([bulk.id, exportBug.id].sort());
+
+    const [root, reply] = db.table('comments');
+    expect(root.content).toBe('How many posts do you usually re-tag at once?');
+    expect(reply.parent_id).toBe(root.id);
+
+    expect(db.table('changelog_releases')[0]).toMatchObject({ title: 'Faster exports', is_published: true });
+    expect(db.table('changelog_entries')[0]).toMatchObject({ entry_type: 'fix' });
+    expect(db.table('changelog_feedback_links')[0].post_id).toBe(exportBug.id);
+  });
+
+  it('pauses when out of time and resumes where it stopped', async () => {
+    const db = fakeDatabase(seed());
+    const importer = new MigrationImporter(db.client);
+    const created = await startRun(importer);
+
+    const paused = await importer.runImport(created.id, { timeBudgetMs: 0 });
+    expect(paused).toMatchObject({ status: 'paused', stage: 'board', cursor: 0 });
+    expect(db.table('posts')).toHaveLength(0);
+
+    const resumed = await importer.runImport(created.id);
+    expect(resumed?.status).toBe('completed');
+    expect(db.table('posts')).toHaveLength(2);
+  });
+
+  it('skips everything on a second import of the same export', async () => {
+    const db = fakeDatabase(seed());
+    const importer = new MigrationImporter(db.client);
+    await importer.runImport((await startRun(importer)).id);
+
+    const again = await importer.runImport((await startRun(importer)).id);
+
+    expect(again?.summary.entities.post).toEqual({ total: 2, created: 0, skipped: 2, failed: 0 });
+    expect(again?.summary.entities.vote).toEqual({ total: 5, created: 0, skipped: 5, failed: 0 });
+    expect(db.table('posts')).toHaveLength(2);
+    expect(db.table('votes')).toHaveLength(5);
+    expect(db.table('comments')).toHaveLength(2);
+  });
+
+  it('rolls back only what the run created', async () => {
+    const db = fakeDatabase(seed());
+    const importer = new MigrationImporter(db.client);
+    const run = await importer.runImport((await startRun(importer)).id);
+
+    const rolledBack = await importer.rollback(run!.id);
+
+    expect(rolledBack?.status).toBe('rolled_back');
+    expect(db.table('boards').map(board => board.id)).toEqual(['board-existing']);
+    for (const name of ['posts', 'votes', 'vote_metadata', 'comments', 'changelog_releases', 'migration_import_records']) {
+      expect(db.table(name)).toHaveLength(0);
+    }
+
+    // Rolled-back records are free to import again
+    const reimported = await importer.runImport((await startRun(importer)).id);
+    expect(reimported?.summary.entities.post.created).toBe(2);
+  });
+
+  it('refuses to resume a run another request is importing', async () => {
+    const db = fakeDatabase(seed());
+    const importer = new MigrationImporter(db.client);
+    const created = await startRun(importer);
+    Object.assign(db.table('migration_import_runs')[0], { status: 'running', updated_at: new Date().toISOString() });
+
+    await expect(importer.runImport(created.id)).rejects.toBeInstanceOf(MigrationRunConflictError);
+    await expect(importer.rollback(created.id)).rejects.toBeInstanceOf(MigrationRunConflictError);
+    expect(db.table('posts')).toHaveLength(0);
+  });
+
+  it('takes over a run whose request stopped saving', async () => {
+    const db = fakeDatabase(seed());
+    const importer = new MigrationImporter(db.client);
+    const created = await startRun(importer);
+    Object.assign(db.table('migration_import_runs')[0], { status: 'running', updated_at: '2026-01-01T00:00:00.000Z' });
+
+    const run = await importer.runImport(created.id);
+
+    expect(run?.status).toBe('completed');
+  });
+
+  it('invalidates cached posts on import and rollback', async () => {
+    (invalidateCacheTags as jest.Mock).mockClear();
+    const db = fakeDatabase(seed());
+    const importer = new MigrationImporter(db.client);
+    const run = await importer.runImport((await startRun(importer)).id);
+    const postTags = db.table('posts').map(post => `post:${post.id}`);
+    const invalidated = () => (invalidateCacheTags as jest.Mock).mock.calls.flatMap(([tags]) => tags);
+
+    expect(invalidated()).toEqual(expect.arrayContaining(['project:project-1', ...postTags]));
+
+    (invalidateCacheTags as jest.Mock).mockClear();
+    await importer.rollback(run!.id);
+
+    expect(invalidated()).toEqual(expect.arrayContaining(['project:project-1', ...postTags]));
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Local Redis stand-in for tests
+ *
+ * Implements the subset of the @upstash/redis client used by the app
+ * (strings, counters, expiry, MULTI/pipelines) against an in-process
+ * keyspace. Clients created with the same URL share one keyspace, like
+ * separate serverless instances talking to the same Redis.
+ */
+
+interface Entry {
+  value: string;
+  expiresAt: number | null;
+}
+
+export class RedisStandInServer {
+  private data = new Map<string, Entry>();
+  now: () => number = () => Date.now();
+  failing = false;
+
+  private read(key: string): Entry | undefined {
+    const entry = this.data.get(key);
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= this.now()) {
+      this.data.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private guard() {
+    if (this.failing) {
+      throw new Error('ECONNREFUSED: Redis stand-in is down');
+    }
+  }
+
+  get(key: string): string | null {
+    this.guard();
+    return this.read(key)?.value ?? null;
+  }
+
+  set(key: string, value: unknown, options?: { ex?: number; px?: number }): 'OK' {
+    this.guard();
+    const ttlMs = options?.px ?? (options?.ex !== undefined ? options.ex * 1000 : undefined);
+    this.data.set(key, {
+      value: typeof value === 'string' ? value : JSON.stringify(value),
+      expiresAt: ttlMs !== undefined ? this.now() + ttlMs : null,
+    });
+    return 'OK';
+  }
+
+  incrby(key: string, amount: number): number {
+    this.guard();
+    const entry = this.read(key);
+    const value = Number(entry?.value ?? 0) + amount;
+    this.data.set(key, { value: String(value), expiresAt: entry?.expiresAt ?? null });
+    return value;
+  }
+
+  pexpire(key: string, ms: number): 0 | 1 {
+    this.guard();
+    const entry = this.read(key);
+    if (!entry) return 0;
+    entry.expiresAt = this.now() + ms;
+    return 1;
+  }
+
+  del(...keys: string[]): number {
+    this.guard();
+    return keys.filter((key) => this.data.delete(key)).length;
+  }
+
+  keys(pattern: string): string[] {
+    this.guard();
+    const regex = new RegExp(`^${pattern.split('*').map(escapeRegex).join('.*')}$`);
+    return [...this.data.keys()].filter((key) => this.read(key) && regex.test(key));
+  }
+
+  flushall() {
+    this.data.clear();
+  }
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Kept on globalThis so isolated module registries still share keyspaces
+const globalStore = globalThis as typeof globalThis & {
+  __redisStandInServers?: Map<string, RedisStandInServer>;
+};
+const servers = (globalStore.__redisStandInServers ??= new Map<string, RedisStandInServer>());
+
+export function getRedisStandInServer(url: string): RedisStandInServer {
+  if (!servers.has(url)) {
+    servers.set(url, new RedisStandInServer());
+  }
+  return servers.get(url)!;
+}
+
+function parse(value: string | null): unknown {
+  if (value === null) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+class StandInPipeline {
+  private commands: Array<() => unknown> = [];
+
+  constructor(private server: RedisStandInServer) {}
+
+  get(key: string) {
+    this.commands.push(() => parse(this.server.get(key)));
+    return this;
+  }
+
+  incrby(key: string, amount: number) {
+    this.commands.push(() => this.server.incrby(key, amount));
+    return this;
+  }
+
+  decrby(key: string, amount: number) {
+    this.commands.push(() => this.server.incrby(key, -amount));
+    return this;
+  }
+
+  pexpire(key: string, ms: number) {
+    this.commands.push(() => this.server.pexpire(key, ms));
+    return this;
+  }
+
+  // Commands run back to back without yielding, so a MULTI is atomic
+  async exec<T = unknown[]>(): Promise<T> {
+    return this.commands.map((command) => command()) as T;
+  }
+}
+
+/**
+ * Drop-in for `Redis` from @upstash/redis
+ */
+export class RedisStandIn {
+  private server: RedisStandInServer;
+
+  constructor(config: { url: string; token: string }) {
+    this.server = getRedisStandInServer(config.url);
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    return parse(this.server.get(key)) as T | null;
+  }
+
+  async mget<T extends unknown[]>(...keys: string[]): Promise<T> {
+    return keys.map((key) => parse(this.server.get(key))) as T;
+  }
+
+  async set(key: string, value: unknown, options?: { ex?: number; px?: number }) {
+    return this.server.set(key, value, options);
+  }
+
+  async incrby(key: string, amount: number) {
+    return this.server.incrby(key, amount);
+  }
+
+  async decrby(key: string, amount: number) {
+    return this.server.incrby(key, -amount);
+  }
+
+  async pexpire(key: string, ms: number) {
+    return this.server.pexpire(key, ms);
+  }
+
+  async del(...keys: string[]) {
+    return this.server.del(...keys);
+  }
+
+  async keys(pattern: string) {
+    return this.server.keys(pattern);
+  }
+
+  async exists(key: string) {
+    return this.server.get(key) === null ? 0 : 1;
+  }
+
+  async ping() {
+    return 'PONG';
+  }
+
+  multi() {
+    return new StandInPipeline(this.server);
+  }
+
+  pipeline() {
+    return new StandInPipeline(this.server);
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Distributed Rate Limiting Tests
+ * Sliding window limits against a local Redis stand-in, with in-memory fallback
+ */
+
+import { getRedisStandInServer } from '../mocks/redis.mock';
+
+jest.mock('@upstash/redis', () => ({
+  Redis: jest.requireActual('../mocks/redis.mock').RedisStandIn,
+}));
+
+jest.mock('@/lib/observability/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const REDIS_URL = 'https://redis-stand-in.test';
+const server = getRedisStandInServer(REDIS_URL);
+
+type RateLimitStoreModule = typeof import('@/lib/rate-limit-store');
+
+/**
+ * Load a fresh copy of the store, as a separate serverless instance would
+ */
+async function loadInstance(): Promise<RateLimitStoreModule> {
+  let instance: RateLimitStoreModule;
+  await jest.isolateModulesAsync(async () => {
+    instance = await import('@/lib/rate-limit-store');
+  });
+  return instance!;
+}
+
+const MINUTE = 60 * 1000;
+const T0 = Date.UTC(2026, 0, 1, 12, 0, 0);
+
+describe('slidingWindowLimit with Redis', () => {
+  let now: number;
+
+  beforeEach(() => {
+    process.env.UPSTASH_REDIS_REST_URL = REDIS_URL;
+    process.env.UPSTASH_REDIS_REST_TOKEN = 'token';
+    server.flushall();
+    server.failing = false;
+    now = T0;
+    server.now = () => now;
+  });
+
+  afterEach(() => {
+    delete process.env.UPSTASH_REDIS_REST_URL;
+    delete process.env.UPSTASH_REDIS_REST_TOKEN;
+  });
+
+  it('allows requests up to the limit and then denies with Retry-After', async () => {
+    const { slidingWindowLimit } = await loadInstance();
+    const windows = [{ limit: 3, windowMs: MINUTE }];
+
+    for (let i = 0; i < 3; i++) {
+      const result = await slidingWindowLimit('test:user', windows, { now });
+      expect(result.allowed).toBe(true);
+      expect(result.backend).toBe('redis');
+      expect(result.windows[0].remaining).toBe(2 - i);
+    }
+
+    const denied = await slidingWindowLimit('test:user', windows, { now });
+    expect(denied.allowed).toBe(false);
+    expect(denied.windows[0].remaining).toBe(0);
+    expect(denied.windows[0].retryAfter).toBe(60);
+  });
+
+  it('shares counters across instances', async () => {
+    const instanceA = await loadInstance();
+    const instanceB = await loadInstance();
+    const windows = [{ limit: 2, windowMs: MINUTE }];
+
+    expect((await instanceA.slidingWindowLimit('shared', windows, { now })).allowed).toBe(true);
+    expect((await instanceB.slidingWindowLimit('shared', windows, { now })).allowed).toBe(true);
+    expect((await instanceA.slidingWindowLimit('shared', windows, { now })).allowed).toBe(false);
+  });
+
+  it('weights the previous interval instead of resetting at the boundary', async () => {
+    const { slidingWindowLimit } = await loadInstance();
+    const windows = [{ limit: 4, windowMs: MINUTE }];
+
+    for (let i = 0; i < 4; i++) {
+      await slidingWindowLimit('slide', windows, { now });
+    }
+
+    // Just after the boundary nearly the whole previous interval still counts
+    now = T0 + MINUTE + 1000;
+    expect((await slidingWindowLimit('slide', windows, { now })).allowed).toBe(false);
+
+    // Halfway through, half of it has slid out of the window
+    now = T0 + MINUTE + 30 * 1000;
+    const halfway = await slidingWindowLimit('slide', windows, { now });
+    expect(halfway.allowed).toBe(true);
+    expect(halfway.windows[0].remaining).toBe(1);
+  });
+
+  it('does not count denied requests', async () => {
+    const { slidingWindowLimit } = await loadInstance();
+    const windows = [{ limit: 1, windowMs: MINUTE }];
+
+    await slidingWindowLimit('rollback', windows, { now });
+    await slidingWindowLimit('rollback', windows, { now });
+    await slidingWindowLimit('rollback', windows, { now });
+
+    const key = `ratelimit:rollback:${MINUTE}:${Math.floor(now / MINUTE)}`;
+    expect(server.get(key)).toBe('1');
+  });
+
+  it('enforces every window and reports the one that was exceeded', async () => {
+    const { slidingWindowLimit } = await loadInstance();
+    const windows = [
+      { limit: 10, windowMs: MINUTE },
+      { limit: 2, windowMs: 60 * MINUTE },
+    ];
+
+    await slidingWindowLimit('multi', windows, { now });
+    await slidingWindowLimit('multi', windows, { now });
+    const denied = await slidingWindowLimit('multi', windows, { now });
+
+    expect(denied.allowed).toBe(false);
+    expect(denied.windows[0].retryAfter).toBeUndefined();
+    expect(denied.windows[1].retryAfter).toBeGreaterThan(0);
+  });
+
+  it('sends the longest wait across windows as Retry-After', async () => {
+    const { slidingWindowHeaders, slidingWindowLimit } = await loadInstance();
+    const windows = [
+      { limit: 1, windowMs: MINUTE },
+      { limit: 1, windowMs: 60 * MINUTE },
+    ];
+
+    const allowed = await slidingWindowLimit('headers', windows, { now });
+    expect(slidingWindowHeaders(allowed, now)).toEqual({
+      'RateLimit-Limit': '1',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '60',
+      'RateLimit-Policy': '1;w=60, 1;w=3600',
+    });
+
+    const denied = await slidingWindowLimit('headers', windows, { now });
+    expect(denied.windows.map(w => w.retryAfter)).toEqual([60, 3600]);
+    expect(slidingWindowHeaders(denied, now)['Retry-After']).toBe('3600');
+  });
+
+  it('peeks without counting and records unconditionally', async () => {
+    const { slidingWindowLimit } = await loadInstance();
+    const windows = [{ limit: 2, windowMs: MINUTE }];
+
+    const peek = await slidingWindowLimit('usage', windows, { mode: 'peek', now });
+    expect(peek.allowed).toBe(true);
+    expect(peek.windows[0].remaining).toBe(2);
+
+    await slidingWindowLimit('usage', windows, { mode: 'record', cost: 5, now });
+    const after = await slidingWindowLimit('usage', windows, { mode: 'peek', now });
+    expect(after.allowed).toBe(false);
+    expect(after.windows[0].remaining).toBe(0);
+  });
+
+  it('falls back to memory when Redis is unreachable', async () => {
+    const { slidingWindowLimit } = await loadInstance();
+    server.failing = true;
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await slidingWindowLimit('offline', [{ limit: 1, windowMs: MINUTE }], { now });
+
+    expect(result.allowed).toBe(true);
+    expect(result.backend).toBe('memory');
+    spy.mockRestore();
+  });
+});
+
+describe('slidingWindowLimit without Redis', () => {
+  it('keeps counters in memory', async () => {
+    const { slidingWindowLimit } = await loadInstance();
+    const windows = [{ limit: 1, windowMs: MINUTE }];
+
+    const first = await slidingWindowLimit('local', windows, { now: T0 });
+    const second = await slidingWindowLimit('local', windows, { now: T0 });
+
+    expect(first.backend).toBe('memory');
+    expect(first.allowed).toBe(true);
+    expect(second.allowed).toBe(false);
+  });
+});
+
+describe('checkRateLimit', () => {
+  beforeEach(() => {
+    process.env.UPSTASH_REDIS_REST_URL = REDIS_URL;
+    process.env.UPSTASH_REDIS_REST_TOKEN = 'token';
+    server.flushall();
+    server.failing = false;
+    server.now = () => Date.now();
+  });
+
+  afterEach(() => {
+    delete process.env.UPSTASH_REDIS_REST_URL;
+    delete process.env.UPSTASH_REDIS_REST_TOKEN;
+  });
+
+  it('returns standard RateLimit headers', async () => {
+    let rateLimit: typeof import('@/lib/rate-limit');
+    await jest.isolateModulesAsync(async () => {
+      rateLimit = await import('@/lib/rate-limit');
+    });
+
+    const config = { minuteLimit: 2, hourlyLimit: 100 };
+    const ok = await rateLimit!.checkRateLimit('headers-test', config);
+    const okHeaders = rateLimit!.getRateLimitHeaders(ok);
+
+    expect(okHeaders['RateLimit-Limit']).toBe('100');
+    expect(okHeaders['RateLimit-Remaining']).toBe('99');
+    expect(okHeaders['RateLimit-Policy']).toBe('2;w=60, 100;w=3600');
+    expect(Number(okHeaders['RateLimit-Reset'])).toBeLessThanOrEqual(3600);
+    expect(okHeaders['Retry-After']).toBeUndefined();
+
+    await rateLimit!.checkRateLimit('headers-test', config);
+    const denied = await rateLimit!.checkRateLimit('headers-test', config);
+    const deniedHeaders = rateLimit!.getRateLimitHeaders(denied);
+
+    expect(denied.success).toBe(false);
+    expect(deniedHeaders['RateLimit-Limit']).toBe('2');
+    expect(deniedHeaders['RateLimit-Remaining']).toBe('0');
+    expect(Number(deniedHeaders['Retry-After'])).toBeGreaterThan(0);
+  });
+});
+
+describe('demo rate limit', () => {
+  beforeEach(() => {
+    process.env.UPSTASH_REDIS_REST_URL = REDIS_URL;
+    process.env.UPSTASH_REDIS_REST_TOKEN = 'token';
+    server.flushall();
+    server.now = () => Date.now();
+  });
+
+  it('checks without counting and counts usage once work is done', async () => {
+    let demo: typeof import('@/lib/demo-rate-limit');
+    await jest.isolateModulesAsync(async () => {
+      demo = await import('@/lib/demo-rate-limit');
+    });
+
+    const before = await demo!.checkDemoRateLimit('203.0.113.7', 'competitive_intel');
+    expect(before).toMatchObject({ allowed: true, limit: 2, remaining: 1 });
+
+    await demo!.incrementDemoUsage('203.0.113.7', 'competitive_intel', 2);
+
+    const after = await demo!.checkDemoRateLimit('203.0.113.7', 'competitive_intel');
+    expect(after.allowed).toBe(false);
+    expect(after.resetAt).toBeGreaterThan(Date.now());
+    expect(demo!.getDemoRateLimitHeaders(after)['RateLimit-Remaining']).toBe('0');
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Webhook Delivery Queue Tests
+ * Backoff schedule, retry classification and per-attempt bookkeeping
+ */
+
+import {
+  attemptWebhookDelivery,
+  computeWebhookBackoffMs,
+  isRetryableWebhookFailure,
+  WEBHOOK_DISABLE_AFTER_FAILURES,
+  type FeedbackWebhook,
+  type WebhookDelivery,
+} from '@/lib/webhooks';
+import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
+
+jest.mock('@/lib/supabase-client', () => ({
+  getSupabaseServiceRoleClient: jest.fn(),
+}));
+
+const webhook: FeedbackWebhook = {
+  id: 'webhook-1',
+  project_id: 'project-1',
+  webhook_url: 'https://example.com/hooks',
+  webhook_secret: 'secret',
+  events: ['post.created'],
+  is_active: true,
+};
+
+function buildDelivery(overrides: Partial<WebhookDelivery> = {}): WebhookDelivery {
+  return {
+    id: 'delivery-1',
+    webhook_id: webhook.id,
+    project_id: webhook.project_id,
+    event_type: 'post.created',
+    event_id: null,
+    payload: {
+      event: 'post.created',
+      version: 1,
+      data: { id: 'post-1' },
+      timestamp: '2026-01-01T00:00:00.000Z',
+      project_id: webhook.project_id,
+    },
+    status: 'delivering',
+    attempt_count: 0,
+    max_attempts: 3,
+    next_attempt_at: null,
+    last_attempt_at: null,
+    request_url: webhook.webhook_url,
+    request_headers: null,
+    request_body: null,
+    status_code: null,
+    response_headers: null,
+    response_body: null,
+    error_message: null,
+    delivery_duration_ms: null,
+    attempts: [],
+    redelivery_of: null,
+    success: false,
+    created_at: '2026-01-01T00:00:00.000Z',
+    delivered_at: null,
+    ...overrides,
+  };
+}
+
+function mockSupabase() {
+  const updates: Array<{ table: string; values: Record<string, any> }> = [];
+  const rpc = jest.fn().mockResolvedValue({ data: false, error: null });
+  const client = {
+    from: jest.fn((table: string) => ({
+      update: jest.fn((values: Record<string, any>) => {
+        updates.push({ table, values });
+        return { eq: jest.fn().mockResolvedValue({ error: null }) };
+      }),
+    })),
+    rpc,
+  };
+  (getSupabaseServiceRoleClient as jest.Mock).mockReturnValue(client);
+  return { updates, rpc };
+}
+
+function mockFetchResponse(status: number, body = '') {
+  (global.fetch as jest.Mock).mockResolvedValueOnce({
+    ok: status >= 200 && status < 300,
+    status,
+    text: async () => body,
+    headers: new Map([['content-type', 'text/plain']]),
+  });
+}
+
+describe('computeWebhookBackoffMs', () => {
+  const noJitter = () => 0.5;
+
+  it('doubles the delay for each attempt', () => {
+    expect(computeWebhookBackoffMs(1, noJitter)).toBe(30_000);
+    expect(computeWebhookBackoffMs(2, noJitter)).toBe(60_000);
+    expect(computeWebhookBackoffMs(4, noJitter)).toBe(240_000);
+  });
+
+  it('caps the delay at 6 hours', () => {
+    expect(computeWebhookBackoffMs(30, noJitter)).toBe(6 * 60 * 60 * 1000);
+  });
+
+  it('applies at most ±20% jitter', () => {
+    expect(computeWebhookBackoffMs(1, () => 0)).toBe(24_000);
+    expect(computeWebhookBackoffMs(1, () => 1)).toBe(36_000);
+  });
+});
+
+describe('isRetryableWebhookFailure', () => {
+  it('retries network errors, 5xx and throttling responses', () => {
+    expect(isRetryableWebhookFailure(undefined)).toBe(true);
+    expect(isRetryableWebhookFailure(500)).toBe(true);
+    expect(isRetryableWebhookFailure(503)).toBe(true);
+    expect(isRetryableWebhookFailure(429)).toBe(true);
+    expect(isRetryableWebhookFailure(408)).toBe(true);
+  });
+
+  it('does not retry payload rejections', () => {
+    expect(isRetryableWebhookFailure(400)).toBe(false);
+    expect(isRetryableWebhookFailure(404)).toBe(false);
+    expect(isRetryableWebhookFailure(410)).toBe(false);
+  });
+});
+
+describe('attemptWebhookDelivery', () => {
+  beforeEach(() => {
+    (global.fetch as jest.Mock).mockReset();
+  });
+
+  it('marks a successful delivery as delivered and resets endpoint failures', async () => {
+    const { updates, rpc } = mockSupabase();
+    mockFetchResponse(200, 'ok');
+
+    const result = await attemptWebhookDelivery(buildDelivery(), webhook);
+
+    expect(result.success).toBe(true);
+    expect(result.attempt).toBe(1);
+    const deliveryUpdate = updates.find((u) => u.table === 'webhook_deliveries')!.values;
+    expect(deliveryUpdate.status).toBe('delivered');
+    expect(deliveryUpdate.response_body).toBe('ok');
+    expect(deliveryUpdate.request_headers['X-Webhook-Delivery']).toBe('delivery-1');
+    expect(deliveryUpdate.attempts).toHaveLength(1);
+    const webhookUpdate = updates.find((u) => u.table === 'feedback_webhooks')!.values;
+    expect(webhookUpdate.consecutive_failures).toBe(0);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('reschedules a retryable failure with backoff', async () => {
+    const { updates, rpc } = mockSupabase();
+    mockFetchResponse(503, 'unavailable');
+
+    const result = await attemptWebhookDelivery(buildDelivery(), webhook);
+
+    expect(result.success).toBe(false);
+    expect(result.next_attempt_at).not.toBeNull();
+    const deliveryUpdate = updates.find((u) => u.table === 'webhook_deliveries')!.values;
+    expect(deliveryUpdate.status).toBe('pending');
+    expect(deliveryUpdate.status_code).toBe(503);
+    expect(rpc).toHaveBeenCalledWith('record_webhook_failure', {
+      p_webhook_id: webhook.id,
+      p_status_code: 503,
+      p_disable_after: WEBHOOK_DISABLE_AFTER_FAILURES,
+    });
+  });
+
+  it('fails permanently once attempts are exhausted', async () => {
+    const { updates } = mockSupabase();
+    (global.fetch as jest.Mock).mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+    const result = await attemptWebhookDelivery(
+      buildDelivery({ attempt_count: 2, attempts: [{ attempt: 1, duration_ms: 5, attempted_at: 'x' }, { attempt: 2, duration_ms: 5, attempted_at: 'y' }] }),
+      webhook
+    );
+
+    expect(result.next_attempt_at).toBeNull();
+    const deliveryUpdate = updates.find((u) => u.table === 'webhook_deliveries')!.values;
+    expect(deliveryUpdate.status).toBe('failed');
+    expect(deliveryUpdate.error_message).toBe('ECONNREFUSED');
+    expect(deliveryUpdate.attempts).toHaveLength(3);
+  });
+
+  it('does not retry a 4xx rejection', async () => {
+    const { updates } = mockSupabase();
+    mockFetchResponse(400, 'bad payload');
+
+    const result = await attemptWebhookDelivery(buildDelivery(), webhook);
+
+    expect(result.next_attempt_at).toBeNull();
+    expect(updates.find((u) => u.table === 'webhook_deliveries')!.values.status).toBe('failed');
+  });
+
+  it('leaves endpoint health alone for test deliveries', async () => {
+    const { updates, rpc } = mockSupabase();
+    mockFetchResponse(500);
+
+    await attemptWebhookDelivery(buildDelivery({ max_attempts: 1 }), webhook, {
+      trackEndpointHealth: false,
+    });
+
+    expect(rpc).not.toHaveBeenCalled();
+    expect(updates.some((u) => u.table === 'feedback_webhooks')).toBe(false);
+  });
+});
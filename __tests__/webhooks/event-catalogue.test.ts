@@ -0,0 +1,167 @@
+/**
+ * Webhook Event Catalogue Tests
+ * Every domain event is subscribable and documented in the OpenAPI spec
+ */
+
+import { EventType } from '@/lib/events/types';
+import { EVENT_CATALOGUE, getEventPayloadSchemaName } from '@/lib/events/catalogue';
+import { generateOpenAPISpec } from '@/lib/openapi/generator';
+import {
+  forwardDomainEventToWebhooks,
+  getWebhookEventVersion,
+  isWebhookEvent,
+  WEBHOOK_EVENTS,
+} from '@/lib/webhooks';
+import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
+
+jest.mock('@/lib/supabase-client', () => ({
+  getSupabaseServiceRoleClient: jest.fn(),
+}));
+
+function collectRefs(value: unknown, refs: string[] = []): string[] {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectRefs(item, refs));
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === '$ref' && typeof child === 'string') {
+        refs.push(child);
+      } else {
+        collectRefs(child, refs);
+      }
+    }
+  }
+  return refs;
+}
+
+describe('event catalogue', () => {
+  it('makes every domain event subscribable', () => {
+    for (const eventType of Object.values(EventType)) {
+      expect(isWebhookEvent(eventType)).toBe(true);
+      expect(WEBHOOK_EVENTS).toContain(eventType);
+    }
+    expect(isWebhookEvent('post.created')).toBe(true);
+    expect(isWebhookEvent('not.an_event')).toBe(false);
+  });
+
+  it('versions payloads from the catalogue', () => {
+    expect(getWebhookEventVersion(EventType.FEATURE_LAUNCHED)).toBe(
+      EVENT_CATALOGUE[EventType.FEATURE_LAUNCHED].version
+    );
+    expect(getWebhookEventVersion('post.created')).toBe(1);
+  });
+
+  it('names payload schemas by event and version', () => {
+    expect(getEventPayloadSchemaName(EventType.ROADMAP_STALLED)).toBe('RoadmapStalledPayloadV1');
+    expect(getEventPayloadSchemaName(EventType.COMPETITOR_FEATURE_DETECTED, 2)).toBe(
+      'CompetitorFeatureDetectedPayloadV2'
+    );
+  });
+});
+
+describe('OpenAPI webhook section', () => {
+  const spec = generateOpenAPISpec();
+
+  it('publishes a webhook and payload schema for every domain event', () => {
+    for (const eventType of Object.values(EventType)) {
+      expect(spec['x-webhooks']?.[eventType]?.post?.requestBody).toBeDefined();
+      expect(spec.components.schemas?.[getEventPayloadSchemaName(eventType)]).toBeDefined();
+    }
+  });
+
+  it('only references schemas that exist', () => {
+    const webhookSchemas = Object.keys(spec.components.schemas ?? {}).filter(
+      (name) => name.startsWith('Webhook') || /(Webhook|PayloadV\d+)$/.test(name)
+    );
+    const refs = collectRefs([spec['x-webhooks'], webhookSchemas.map((name) => spec.components.schemas![name])]);
+    const missing = refs
+      .map((ref) => ref.replace('#/components/schemas/', ''))
+      .filter((name) => !spec.components.schemas?.[name]);
+
+    expect(missing).toEqual([]);
+  });
+});
+
+describe('forwardDomainEventToWebhooks', () => {
+  it('enqueues the event once per subscribed endpoint with its event id', async () => {
+    const inserts: Record<string, any>[] = [];
+    const webhook = {
+      id: 'webhook-1',
+      project_id: 'project-1',
+      webhook_url: 'https://example.com/hooks',
+      webhook_secret: 'secret',
+      events: [EventType.USER_AT_RISK],
+      is_active: true,
+    };
+
+    const client = {
+      from: jest.fn((table: string) => {
+        if (table === 'feedback_webhooks') {
+          const query: Record<string, jest.Mock> = {};
+          query.select = jest.fn(() => query);
+          query.eq = jest.fn(() => query);
+          query.contains = jest.fn().mockResolvedValue({ data: [webhook], error: null });
+          return query;
+        }
+        return {
+          insert: jest.fn((row: Record<string, any>) => {
+            inserts.push(row);
+            return {
+              select: () => ({
+                single: () =>
+                  Promise.resolve({
+                    data: null,
+                    error: { code: '23505', message: 'duplicate key value' },
+                  }),
+              }),
+            };
+          }),
+        };
+      }),
+    };
+    (getSupabaseServiceRoleClient as jest.Mock).mockReturnValue(client);
+
+    await forwardDomainEventToWebhooks({
+      id: 'event-1',
+      type: EventType.USER_AT_RISK,
+      aggregate_type: 'user',
+      aggregate_id: 'user-1',
+      payload: { risk_level: 'high' },
+      metadata: { project_id: 'project-1', source: 'user_engagement_agent' },
+      version: 1,
+      created_at: new Date('2026-01-01T00:00:00.000Z'),
+    });
+
+    expect(inserts).toHaveLength(1);
+    expect(inserts[0].event_id).toBe('event-1');
+    expect(inserts[0].payload).toMatchObject({
+      event: 'user.at_risk',
+      version: 1,
+      timestamp: '2026-01-01T00:00:00.000Z',
+      data: {
+        event_id: 'event-1',
+        aggregate_type: 'user',
+        aggregate_id: 'user-1',
+        payload: { risk_level: 'high' },
+        source: 'user_engagement_agent',
+      },
+    });
+    // Duplicate (already queued by an earlier run) is skipped, not attempted
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('ignores events without a project', async () => {
+    const client = { from: jest.fn() };
+    (getSupabaseServiceRoleClient as jest.Mock).mockReturnValue(client);
+
+    await forwardDomainEventToWebhooks({
+      type: EventType.FEEDBACK_CREATED,
+      aggregate_type: 'post',
+      aggregate_id: 'post-1',
+      payload: {},
+      metadata: {} as any,
+      version: 1,
+    });
+
+    expect(client.from).not.toHaveBeenCalled();
+  });
+});
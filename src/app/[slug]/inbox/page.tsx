@@ -305,6 +305,7 @@ export default function InboxPage() {
                   item={selectedItem}
                   onClose={() => setSelectedItem(null)}
                   onAction={handleItemAction}
+                  onUpdate={setSelectedItem}
                 />
               </Card>
             </div>
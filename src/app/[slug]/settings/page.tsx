@@ -11,6 +11,7 @@ import { CustomDomainSettings } from '@/components/CustomDomainSettings';
 import GlobalBanner from '@/components/GlobalBanner';
 import FeedbackExport from '@/components/FeedbackExport';
 import { CSVImport } from '@/components/admin/csv-import';
+import { MigrationImport } from '@/components/admin/migration-import';
 import SimpleChangelogManager from '@/components/SimpleChangelogManager';
 import { WebhooksSettings } from '@/components/WebhooksSettings';
 import { SlackSettings } from '@/components/slack/SlackSettings';
@@ -45,6 +46,7 @@ import { NotificationRecipientsManager } from '@/components/NotificationRecipien
 import { TeammatesSettings } from '@/components/TeammatesSettings';
 import { AgentDashboard } from '@/components/agents/AgentDashboard';
 import { TriagerSettingsPanel } from '@/components/agents/TriagerSettingsPanel';
+import { AutomationWorkflowsPanel } from '@/components/agents/AutomationWorkflowsPanel';
 import { NotificationSettings, PushNotificationPrompt } from '@/components/notifications';
 
 interface Project {
@@ -831,7 +833,10 @@ export default function SettingsPage() {
                   </div>
 
                   {project?.plan === 'pro' ? (
-                    <CSVImport projectSlug={project.slug} />
+                    <div className="space-y-8">
+                      <CSVImport projectSlug={project.slug} />
+                      <MigrationImport projectSlug={project.slug} />
+                    </div>
                   ) : (
                     <div className="text-center py-12">
                       <div className="w-16 h-16 bg-gradient-to-r from-yellow-100 to-orange-100 rounded-full flex items-center justify-center mx-auto mb-6">
@@ -955,9 +960,10 @@ export default function SettingsPage() {
                 <div className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm rounded-xl border border-white/20 dark:border-slate-700 shadow-lg p-6">
                   {project ? (
                     <Tabs defaultValue="status" className="w-full">
-                      <TabsList className="grid w-full grid-cols-2 mb-6">
+                      <TabsList className="grid w-full grid-cols-3 mb-6">
                         <TabsTrigger value="status">Agent Status</TabsTrigger>
                         <TabsTrigger value="triager">Triager Settings</TabsTrigger>
+                        <TabsTrigger value="automations">Automations</TabsTrigger>
                       </TabsList>
                       <TabsContent value="status">
                         <AgentDashboard projectId={project.id} />
@@ -965,6 +971,9 @@ export default function SettingsPage() {
                       <TabsContent value="triager">
                         <TriagerSettingsPanel projectId={project.id} />
                       </TabsContent>
+                      <TabsContent value="automations">
+                        <AutomationWorkflowsPanel projectSlug={project.slug} />
+                      </TabsContent>
                     </Tabs>
                   ) : (
                     <div className="text-center py-12">
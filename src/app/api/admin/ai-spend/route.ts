@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureAPI, validateAdminAuth } from '@/lib/api-security';
+import {
+  getAIBudgetStatus,
+  getAISpendBreakdown,
+  upsertAIBudget,
+} from '@/lib/ai/cost-ledger';
+
+export const runtime = 'nodejs';
+export const maxDuration = 30;
+
+const DEFAULT_WINDOW_DAYS = 30;
+
+/**
+ * GET /api/admin/ai-spend?projectId=...&from=...&to=...
+ * AI spend for a project broken down by feature, day and model,
+ * plus the current month's budget status
+ */
+export const GET = secureAPI(
+  async ({ query }) => {
+    const projectId = query!.projectId;
+    const to = query?.to ? new Date(query.to) : new Date();
+    const from = query?.from
+      ? new Date(query.from)
+      : new Date(to.getTime() - DEFAULT_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from >= to) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    try {
+      const [breakdown, budget] = await Promise.all([
+        getAISpendBreakdown(projectId, from, to),
+        getAIBudgetStatus(projectId),
+      ]);
+
+      return NextResponse.json({ spend: breakdown, budget });
+    } catch (error) {
+      console.error('Error fetching AI spend:', error);
+      return NextResponse.json(
+        {
+          error: 'Failed to fetch AI spend',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  {
+    enableRateLimit: true,
+    requireAuth: true,
+    authValidator: validateAdminAuth,
+    querySchema: z.object({
+      projectId: z.string().uuid(),
+      from: z.string().optional(),
+      to: z.string().optional(),
+    }),
+  }
+);
+
+/**
+ * PUT /api/admin/ai-spend
+ * Set a project's monthly AI budget caps
+ */
+export const PUT = secureAPI(
+  async ({ body }) => {
+    try {
+      await upsertAIBudget(body!.projectId, {
+        softCapUsd: body!.softCapUsd,
+        hardCapUsd: body!.hardCapUsd,
+        softCapAction: body!.softCapAction,
+        downgradeModel: body!.downgradeModel,
+      });
+
+      const budget = await getAIBudgetStatus(body!.projectId);
+      return NextResponse.json({ success: true, budget });
+    } catch (error) {
+      console.error('Error saving AI budget:', error);
+      return NextResponse.json(
+        {
+          error: 'Failed to save AI budget',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  {
+    enableRateLimit: true,
+    requireAuth: true,
+    authValidator: validateAdminAuth,
+    bodySchema: z
+      .object({
+        projectId: z.string().uuid(),
+        softCapUsd: z.number().nonnegative().nullable().optional(),
+        hardCapUsd: z.number().nonnegative().nullable().optional(),
+        softCapAction: z.enum(['downgrade', 'alert']).optional(),
+        downgradeModel: z.string().min(1).optional(),
+      })
+      .refine(
+        (b) => b.softCapUsd == null || b.hardCapUsd == null || b.softCapUsd <= b.hardCapUsd,
+        { message: 'softCapUsd must not exceed hardCapUsd' }
+      ),
+  }
+);
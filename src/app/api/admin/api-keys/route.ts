@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { secureAPI, validateAdminAuth } from '@/lib/api-security';
 import { createClient } from '@supabase/supabase-js';
+import { API_KEY_SCOPES } from '@/lib/api-key-scopes';
 
 const getSupabaseAdmin = () => {
   if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE) {
@@ -21,7 +22,7 @@ const getSupabaseAdmin = () => {
 
 export const POST = secureAPI(
   async ({ body }) => {
-    const { projectId, name } = body!;
+    const { projectId, name, scopes, expiresAt, allowedIps } = body!;
 
     // Generate API key
     const apiKey = 'sk_' + Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
@@ -38,7 +39,10 @@ export const POST = secureAPI(
         project_id: projectId,
         name: name,
         key_hash: keyHash,
-        usage_count: 0
+        usage_count: 0,
+        scopes,
+        expires_at: expiresAt || null,
+        allowed_ips: allowedIps.length > 0 ? allowedIps : null
       })
       .select()
       .single();
@@ -61,6 +65,13 @@ export const POST = secureAPI(
     bodySchema: z.object({
       projectId: z.string().uuid(),
       name: z.string().min(1).max(100),
+      scopes: z.array(z.enum(API_KEY_SCOPES)).min(1).default(['posts:read']),
+      expiresAt: z.string().datetime({ offset: true }).optional(),
+      // Single addresses or IPv4 CIDR ranges
+      allowedIps: z
+        .array(z.string().trim().regex(/^[0-9a-fA-F:.]+(\/\d{1,2})?$/, 'Invalid IP address or CIDR range'))
+        .max(50)
+        .default([]),
     }),
   }
 );
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { secureAPI, validateAuth } from '@/lib/api-security';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
+import { invalidateCacheTags, postCacheTags } from '@/lib/cache';
 
 export const runtime = 'nodejs';
 
@@ -83,10 +84,14 @@ export const DELETE = secureAPI(
         .select('*', { count: 'exact', head: true })
         .eq('post_id', comment.post_id);
 
-      await supabase
+      const { data: post } = await supabase
         .from('posts')
         .update({ comment_count: count || 0 })
-        .eq('id', comment.post_id);
+        .eq('id', comment.post_id)
+        .select('id, project_id, board_id')
+        .maybeSingle();
+
+      await invalidateCacheTags(postCacheTags(post ?? { id: comment.post_id, project_id: projectId }));
     } catch (error) {
       console.error('Error updating comment count:', error);
     }
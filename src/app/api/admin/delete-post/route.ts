@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { secureAPI, validateAuth } from '@/lib/api-security';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
+import { invalidateCacheTags, postCacheTags } from '@/lib/cache';
 
 export const runtime = 'nodejs';
 
@@ -46,10 +47,11 @@ export const DELETE = secureAPI(
 
     // Before deleting the post, unmerge any duplicates that reference this post
     // Set duplicate_of to NULL for all posts that were merged into this one
-    const { error: unmergeError } = await supabase
+    const { data: unmerged, error: unmergeError } = await supabase
       .from('posts')
       .update({ duplicate_of: null })
-      .eq('duplicate_of', postId);
+      .eq('duplicate_of', postId)
+      .select('id, project_id, board_id');
 
     if (unmergeError) {
       console.error('Error unmerging duplicates:', unmergeError);
@@ -57,16 +59,19 @@ export const DELETE = secureAPI(
     }
 
     // Delete the post (this will cascade delete comments, votes, etc. if set up in DB)
-    const { error: deleteError } = await supabase
+    const { data: deleted, error: deleteError } = await supabase
       .from('posts')
       .delete()
-      .eq('id', postId);
+      .eq('id', postId)
+      .select('id, project_id, board_id');
 
     if (deleteError) {
       console.error('Error deleting post:', deleteError);
       return NextResponse.json({ error: 'Failed to delete post' }, { status: 500 });
     }
 
+    await invalidateCacheTags([...(deleted || []), ...(unmerged || [])].flatMap(post => postCacheTags(post)));
+
     return NextResponse.json({ success: true, message: 'Post deleted successfully' });
   },
   {
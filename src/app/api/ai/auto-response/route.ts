@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getOpenAI } from '@/lib/openai-client';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
+import { aiBudgetExceededResponse } from '@/lib/ai/budget-response';
+import { AIBudgetExceededError } from '@/lib/ai/types';
 import { checkAIUsageLimit, incrementAIUsage } from '@/lib/ai-rate-limit';
-import { checkDemoRateLimit, incrementDemoUsage, getClientIP, getTimeUntilReset } from '@/lib/demo-rate-limit';
+import { checkDemoRateLimit, incrementDemoUsage, getClientIP, getTimeUntilReset, getDemoRateLimitHeaders } from '@/lib/demo-rate-limit';
 import { getSupabaseServerClient } from '@/lib/supabase-client';
 
 export const runtime = 'nodejs';
@@ -48,7 +51,7 @@ export async function POST(request: NextRequest) {
     } else {
       // Demo/unauthenticated user - use IP-based rate limiting
       const clientIP = getClientIP(request);
-      const demoCheck = checkDemoRateLimit(clientIP, 'smart_replies'); // Use smart_replies limit for auto-response
+      const demoCheck = await checkDemoRateLimit(clientIP, 'smart_replies'); // Use smart_replies limit for auto-response
 
       if (!demoCheck.allowed) {
         return NextResponse.json(
@@ -60,7 +63,7 @@ export async function POST(request: NextRequest) {
             resetAt: demoCheck.resetAt,
             isDemo: true
           },
-          { status: 429 }
+          { status: 429, headers: getDemoRateLimitHeaders(demoCheck) }
         );
       }
     }
@@ -119,7 +122,7 @@ Generate a professional, empathetic response that:
 
 Keep the response concise (2-3 paragraphs), personal, and actionable. Address the user by name if provided, otherwise use "Hi there".`;
 
-    const completion = await getOpenAI().chat.completions.create({
+    const completion = await withAICostContext({ projectId }, () => getOpenAI('auto_response').chat.completions.create({
       model: AUTO_RESPONSE_MODEL,
       messages: [
         {
@@ -133,7 +136,7 @@ Keep the response concise (2-3 paragraphs), personal, and actionable. Address th
       ],
       temperature: 0.7,
       max_tokens: 500,
-    });
+    }));
 
     const response = completion.choices[0]?.message?.content || '';
 
@@ -142,7 +145,7 @@ Keep the response concise (2-3 paragraphs), personal, and actionable. Address th
       await incrementAIUsage(projectId, 'auto_response');
     } else {
       const clientIP = getClientIP(request);
-      incrementDemoUsage(clientIP, 'smart_replies');
+      await incrementDemoUsage(clientIP, 'smart_replies');
     }
 
     return NextResponse.json({
@@ -153,6 +156,9 @@ Keep the response concise (2-3 paragraphs), personal, and actionable. Address th
     });
 
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      return aiBudgetExceededResponse(error);
+    }
     console.error('[AUTO RESPONSE] Error:', error);
     return NextResponse.json(
       {
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { categorizePost, SAAS_CATEGORIES } from '@/lib/enhanced-categorization';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 import { createClient } from '@supabase/supabase-js';
 import { checkAIUsageLimit, incrementAIUsage } from '@/lib/ai-rate-limit';
-import { checkDemoRateLimit, incrementDemoUsage, getClientIP, getTimeUntilReset } from '@/lib/demo-rate-limit';
+import { checkDemoRateLimit, incrementDemoUsage, getClientIP, getTimeUntilReset, getDemoRateLimitHeaders } from '@/lib/demo-rate-limit';
 
 export const runtime = 'nodejs';
 export const maxDuration = 30;
@@ -42,7 +43,7 @@ export async function POST(request: NextRequest) {
     } else {
       // Demo/unauthenticated user - use IP-based rate limiting
       const clientIP = getClientIP(request);
-      const demoCheck = checkDemoRateLimit(clientIP, 'categorization');
+      const demoCheck = await checkDemoRateLimit(clientIP, 'categorization');
 
       if (!demoCheck.allowed) {
         return NextResponse.json(
@@ -54,7 +55,7 @@ export async function POST(request: NextRequest) {
             resetAt: demoCheck.resetAt,
             isDemo: true
           },
-          { status: 429 }
+          { status: 429, headers: getDemoRateLimitHeaders(demoCheck) }
         );
       }
 
@@ -77,10 +78,10 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      const enhancedResult = await categorizePost(title, description || '', {
+      const enhancedResult = await withAICostContext({ projectId: body.projectId }, () => categorizePost(title, description || '', {
         userTier: userTier || 'free',
         voteCount: voteCount || 0,
-      });
+      }));
 
       console.log('🤖 Categorization result:', enhancedResult);
 
@@ -96,7 +97,7 @@ export async function POST(request: NextRequest) {
         await incrementAIUsage(projectId, 'categorization');
       } else {
         const clientIP = getClientIP(request);
-        incrementDemoUsage(clientIP, 'categorization');
+        await incrementDemoUsage(clientIP, 'categorization');
       }
 
       let usageInfo = null;
@@ -145,10 +146,10 @@ export async function POST(request: NextRequest) {
       const results = await Promise.all(
         body.posts.map(async (post: any) => ({
           id: post.id,
-          result: await categorizePost(post.title, post.description || '', {
+          result: await withAICostContext({ projectId: body.projectId }, () => categorizePost(post.title, post.description || '', {
             userTier: post.userTier || 'free',
             voteCount: post.voteCount || 0,
-          })
+          }))
         }))
       );
 
@@ -156,14 +157,14 @@ export async function POST(request: NextRequest) {
         await incrementAIUsage(projectId, 'categorization', body.posts.length);
       } else if (demoUsageInfo) {
         const clientIP = getClientIP(request);
-        incrementDemoUsage(clientIP, 'categorization', body.posts.length);
+        await incrementDemoUsage(clientIP, 'categorization', body.posts.length);
         demoUsageInfo = {
           ...demoUsageInfo,
           remaining: Math.max(demoUsageInfo.remaining - Math.max(body.posts.length - 1, 0), 0)
         };
       } else if (!projectId) {
         const clientIP = getClientIP(request);
-        incrementDemoUsage(clientIP, 'categorization', body.posts.length);
+        await incrementDemoUsage(clientIP, 'categorization', body.posts.length);
       }
 
       return NextResponse.json({
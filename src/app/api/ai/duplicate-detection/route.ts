@@ -2,7 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { detectDuplicates, detectDuplicateClusters, type DuplicateCandidate } from '@/lib/enhanced-duplicate-detection';
 import { checkAIUsageLimit, incrementAIUsage } from '@/lib/ai-rate-limit';
-import { checkDemoRateLimit, incrementDemoUsage, getClientIP, getTimeUntilReset } from '@/lib/demo-rate-limit';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
+import { aiBudgetExceededResponse } from '@/lib/ai/budget-response';
+import { AIBudgetExceededError } from '@/lib/ai/types';
+import { invalidateCacheTags, postCacheTags } from '@/lib/cache';
+import { checkDemoRateLimit, incrementDemoUsage, getClientIP, getTimeUntilReset, getDemoRateLimitHeaders } from '@/lib/demo-rate-limit';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
@@ -50,7 +54,7 @@ export async function POST(request: NextRequest) {
     } else {
       // Demo/unauthenticated user - use IP-based rate limiting
       const clientIP = getClientIP(request);
-      const demoCheck = checkDemoRateLimit(clientIP, 'duplicate_detection');
+      const demoCheck = await checkDemoRateLimit(clientIP, 'duplicate_detection');
 
       if (!demoCheck.allowed) {
         return NextResponse.json(
@@ -62,7 +66,7 @@ export async function POST(request: NextRequest) {
             resetAt: demoCheck.resetAt,
             isDemo: true
           },
-          { status: 429 }
+          { status: 429, headers: getDemoRateLimitHeaders(demoCheck) }
         );
       }
 
@@ -89,13 +93,15 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      const clusters = await detectDuplicateClusters(posts, options);
+      const clusters = await withAICostContext({ projectId, feature: 'duplicate_detection' }, () =>
+        detectDuplicateClusters(posts, options)
+      );
 
       if (projectId) {
         await incrementAIUsage(projectId, 'duplicate_detection', posts.length);
       } else {
         const clientIP = getClientIP(request);
-        incrementDemoUsage(clientIP, 'duplicate_detection', Math.min(posts.length, 5));
+        await incrementDemoUsage(clientIP, 'duplicate_detection', Math.min(posts.length, 5));
         if (demoUsageInfo) {
           demoUsageInfo = {
             ...demoUsageInfo,
@@ -208,7 +214,9 @@ export async function POST(request: NextRequest) {
         voteCount: newPost?.voteCount ?? newPost?.vote_count,
       });
 
-      const duplicates = await detectDuplicates(normalizedNewPost, candidatePosts, options);
+      const duplicates = await withAICostContext({ projectId, feature: 'duplicate_detection' }, () =>
+        detectDuplicates(normalizedNewPost, candidatePosts, options)
+      );
       const savedSimilarities: SavedSimilarityRecord[] = [];
 
       if (
@@ -321,7 +329,7 @@ export async function POST(request: NextRequest) {
         await incrementAIUsage(projectId, 'duplicate_detection');
       } else {
         const clientIP = getClientIP(request);
-        incrementDemoUsage(clientIP, 'duplicate_detection');
+        await incrementDemoUsage(clientIP, 'duplicate_detection');
         if (demoUsageInfo) {
           demoUsageInfo = {
             ...demoUsageInfo,
@@ -380,6 +388,9 @@ export async function POST(request: NextRequest) {
     }
 
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      return aiBudgetExceededResponse(error);
+    }
     console.error('[DUPLICATE DETECTION] Error:', error);
     return NextResponse.json(
       {
@@ -474,7 +485,7 @@ export async function PUT(request: NextRequest) {
 
     const { data: postsData, error: postsError } = await supabase
       .from('posts')
-      .select('id, project_id, duplicate_of')
+      .select('id, project_id, board_id, duplicate_of')
       .in('id', postIds);
 
     if (postsError) {
@@ -623,6 +634,8 @@ export async function PUT(request: NextRequest) {
         );
       }
 
+      await invalidateCacheTags(postsData.flatMap(post => postCacheTags(post)));
+
       if (similarityRecord) {
         const { error: similarityUpdateError } = await supabase
           .from('post_similarities')
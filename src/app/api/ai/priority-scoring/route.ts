@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { calculatePriorityScore, batchScorePosts, type PriorityContext } from '@/lib/enhanced-priority-scoring';
 import { checkAIUsageLimit, incrementAIUsage } from '@/lib/ai-rate-limit';
-import { checkDemoRateLimit, incrementDemoUsage, getClientIP, getTimeUntilReset } from '@/lib/demo-rate-limit';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
+import { aiBudgetExceededResponse } from '@/lib/ai/budget-response';
+import { AIBudgetExceededError } from '@/lib/ai/types';
+import { checkDemoRateLimit, incrementDemoUsage, getClientIP, getTimeUntilReset, getDemoRateLimitHeaders } from '@/lib/demo-rate-limit';
 import { getSupabaseServerClient } from '@/lib/supabase-client';
 
 export const runtime = 'nodejs';
@@ -39,7 +42,7 @@ export async function POST(request: NextRequest) {
     } else {
       // Demo/unauthenticated user - use IP-based rate limiting
       const clientIP = getClientIP(request);
-      const demoCheck = checkDemoRateLimit(clientIP, 'priority_scoring');
+      const demoCheck = await checkDemoRateLimit(clientIP, 'priority_scoring');
 
       if (!demoCheck.allowed) {
         return NextResponse.json(
@@ -51,7 +54,7 @@ export async function POST(request: NextRequest) {
             resetAt: demoCheck.resetAt,
             isDemo: true
           },
-          { status: 429 }
+          { status: 429, headers: getDemoRateLimitHeaders(demoCheck) }
         );
       }
 
@@ -64,13 +67,15 @@ export async function POST(request: NextRequest) {
 
     // Handle batch scoring
     if (batch && Array.isArray(batch)) {
-      const scores = await batchScorePosts(batch);
+      const scores = await withAICostContext({ projectId, feature: 'priority_scoring' }, () =>
+        batchScorePosts(batch)
+      );
 
       if (projectId) {
         await incrementAIUsage(projectId, 'priority_scoring', batch.length);
       } else {
         const clientIP = getClientIP(request);
-        incrementDemoUsage(clientIP, 'priority_scoring', batch.length);
+        await incrementDemoUsage(clientIP, 'priority_scoring', batch.length);
         if (demoUsageInfo) {
           demoUsageInfo = {
             ...demoUsageInfo,
@@ -377,18 +382,20 @@ export async function POST(request: NextRequest) {
           : 'growth'
     };
 
-    const score = await calculatePriorityScore({
-      post: normalizedPost,
-      metrics: normalizedMetrics,
-      user: normalizedUser,
-      businessContext: normalizedBusinessContext
-    });
+    const score = await withAICostContext({ projectId: resolvedProjectId, feature: 'priority_scoring' }, () =>
+      calculatePriorityScore({
+        post: normalizedPost,
+        metrics: normalizedMetrics,
+        user: normalizedUser,
+        businessContext: normalizedBusinessContext
+      })
+    );
 
     if (resolvedProjectId) {
       await incrementAIUsage(resolvedProjectId, 'priority_scoring');
     } else {
       const clientIP = getClientIP(request);
-      incrementDemoUsage(clientIP, 'priority_scoring');
+      await incrementDemoUsage(clientIP, 'priority_scoring');
       if (demoUsageInfo) {
         demoUsageInfo = {
           ...demoUsageInfo,
@@ -410,6 +417,9 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      return aiBudgetExceededResponse(error);
+    }
     console.error('[PRIORITY SCORING] Error:', error);
     return NextResponse.json(
       {
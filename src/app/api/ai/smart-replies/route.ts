@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { generateSmartReplies } from '@/lib/enhanced-smart-replies';
-import { checkDemoRateLimit, incrementDemoUsage, getClientIP, getTimeUntilReset } from '@/lib/demo-rate-limit';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
+import { checkDemoRateLimit, incrementDemoUsage, getClientIP, getTimeUntilReset, getDemoRateLimitHeaders } from '@/lib/demo-rate-limit';
 
 export const runtime = 'nodejs';
 export const maxDuration = 30;
@@ -26,7 +27,7 @@ export async function POST(request: NextRequest) {
     // Demo rate limiting for unauthenticated users
     if (!projectId) {
       const clientIP = getClientIP(request);
-      const demoCheck = checkDemoRateLimit(clientIP, 'smart_replies');
+      const demoCheck = await checkDemoRateLimit(clientIP, 'smart_replies');
 
       if (!demoCheck.allowed) {
         return NextResponse.json(
@@ -38,7 +39,7 @@ export async function POST(request: NextRequest) {
             resetAt: demoCheck.resetAt,
             isDemo: true
           },
-          { status: 429 }
+          { status: 429, headers: getDemoRateLimitHeaders(demoCheck) }
         );
       }
 
@@ -50,18 +51,18 @@ export async function POST(request: NextRequest) {
     }
 
     // Generate smart replies using enhanced system
-    const replies = await generateSmartReplies({
+    const replies = await withAICostContext({ projectId }, () => generateSmartReplies({
       title,
       description: description || '',
       category: category || 'general',
       userTier: userTier || 'free',
       voteCount: voteCount || 0,
-    });
+    }));
 
     // Increment demo usage after successful generation
     if (!projectId) {
       const clientIP = getClientIP(request);
-      incrementDemoUsage(clientIP, 'smart_replies');
+      await incrementDemoUsage(clientIP, 'smart_replies');
       if (demoUsageInfo) {
         demoUsageInfo = {
           ...demoUsageInfo,
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { authenticateAPIKey } from '@/lib/api-key-auth';
 
 export const runtime = 'nodejs';
 export const maxDuration = 30;
@@ -43,19 +44,13 @@ export async function POST(request: NextRequest) {
     // Try to find the project associated with this API key
     let projectId = null;
 
-    try {
-      const { data: apiKeyData } = await getSupabase()
-        .from('api_keys')
-        .select('project_id')
-        .eq('key_hash', btoa(apiKey))
-        .single();
-
-      if (apiKeyData) {
-        projectId = apiKeyData.project_id;
-      }
-    } catch (error) {
+    // Only live keys are attributed to their project
+    const auth = await authenticateAPIKey(request, apiKey, { keyHashes: [btoa(apiKey)] });
+    if (auth.valid) {
+      projectId = auth.key.project_id;
+    } else {
       // API key not found, continue without project association
-      console.log('API key not found for analytics:', apiKey);
+      console.log('API key not usable for analytics:', auth.error);
     }
 
     // Store the analytics event in the database
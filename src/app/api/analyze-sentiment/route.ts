@@ -5,11 +5,15 @@ import {
   analyzeSentimentWithRetry,
 } from '@/lib/openai/sentiment';
 import { checkAIUsageLimit, incrementAIUsage } from '@/lib/ai-rate-limit';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
+import { aiBudgetExceededResponse } from '@/lib/ai/budget-response';
+import { AIBudgetExceededError } from '@/lib/ai/types';
 import {
   checkDemoRateLimit,
   incrementDemoUsage,
   getClientIP,
   getTimeUntilReset,
+  getDemoRateLimitHeaders,
 } from '@/lib/demo-rate-limit';
 import {
   AnalyzeSentimentRequest,
@@ -85,7 +89,7 @@ export async function POST(request: NextRequest) {
     } else {
       // Demo/unauthenticated user - use IP-based rate limiting
       const clientIP = getClientIP(request);
-      const demoCheck = checkDemoRateLimit(clientIP, 'sentiment_analysis');
+      const demoCheck = await checkDemoRateLimit(clientIP, 'sentiment_analysis');
 
       if (!demoCheck.allowed) {
         return NextResponse.json(
@@ -98,7 +102,7 @@ export async function POST(request: NextRequest) {
             resetAt: demoCheck.resetAt,
             isDemo: true,
           },
-          { status: 429 },
+          { status: 429, headers: getDemoRateLimitHeaders(demoCheck) },
         );
       }
 
@@ -167,10 +171,12 @@ export async function POST(request: NextRequest) {
     }));
 
     // Analyze sentiment in batches
-    const batchResults = await analyzeSentimentBatch({
-      items: sentimentInputs,
-      maxBatchSize: BATCH_SIZE,
-    });
+    const batchResults = await withAICostContext({ projectId, feature: 'sentiment_analysis' }, () =>
+      analyzeSentimentBatch({
+        items: sentimentInputs,
+        maxBatchSize: BATCH_SIZE,
+      })
+    );
 
     // Flatten results
     const allResults = batchResults.flatMap((batch) => batch.results);
@@ -240,9 +246,7 @@ export async function POST(request: NextRequest) {
       }
     } else if (!projectId && successCount > 0) {
       const clientIP = getClientIP(request);
-      for (let i = 0; i < successCount; i++) {
-        incrementDemoUsage(clientIP, 'sentiment_analysis');
-      }
+      await incrementDemoUsage(clientIP, 'sentiment_analysis', successCount);
     }
 
     // Prepare response
@@ -261,6 +265,9 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(response);
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      return aiBudgetExceededResponse(error);
+    }
     console.error('[SENTIMENT API] Unexpected error:', error);
     return NextResponse.json(
       {
@@ -15,6 +15,7 @@ import {
   detectSentimentAnomalies,
   detectVolumeAnomalies,
 } from '@/lib/predictions/anomaly-detection';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -103,14 +104,14 @@ export async function POST(request: NextRequest) {
 
     switch (detectionType) {
       case 'sentiment':
-        anomalies = await detectSentimentAnomalies(projectId);
+        anomalies = await withAICostContext({ projectId }, () => detectSentimentAnomalies(projectId));
         break;
       case 'volume':
-        anomalies = await detectVolumeAnomalies(projectId);
+        anomalies = await withAICostContext({ projectId }, () => detectVolumeAnomalies(projectId));
         break;
       case 'all':
       default:
-        anomalies = await detectAllAnomalies(projectId);
+        anomalies = await withAICostContext({ projectId }, () => detectAllAnomalies(projectId));
         break;
     }
 
@@ -3,6 +3,7 @@
 import { NextResponse } from 'next/server';
 import { secureAPI, validateAuth } from '@/lib/api-security';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
+import { isApiKeyLive } from '@/lib/api-key-scopes';
 
 export const runtime = 'nodejs';
 export const maxDuration = 30;
@@ -103,7 +104,7 @@ export const GET = secureAPI(
     // Active API keys (widget usage)
     const { data: apiKeys, error: apiKeyError } = await supabase
       .from('api_keys')
-      .select('project_id, is_active, usage_count, last_used')
+      .select('project_id, is_active, expires_at, usage_count, last_used')
       .in('project_id', projectIds);
 
     if (apiKeyError) {
@@ -191,7 +192,7 @@ export const GET = secureAPI(
     // Active widgets
     const activeWidgetProjects = new Set<string>();
     (apiKeys || []).forEach(key => {
-      if (!key.is_active) return;
+      if (!isApiKeyLive(key, now)) return;
       if (!key.project_id) return;
       if (key.usage_count && key.usage_count > 0) {
         activeWidgetProjects.add(key.project_id);
@@ -9,6 +9,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase-client';
 import { executeAction } from '@/lib/ask/action-executor';
 import { isValidActionType } from '@/lib/ask/action-router';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 import type { ExecuteActionRequest, ExecuteActionResponse } from '@/types/ask';
 
 // ============================================================================
@@ -128,13 +129,13 @@ export async function POST(request: NextRequest) {
     console.log('[Execute Action] Executing action:', actionType);
 
     // 6. Execute the action
-    const result = await executeAction(
+    const result = await withAICostContext({ projectId, feature: 'ask_signalsloop' }, () => executeAction(
       actionType,
       parameters,
       projectId,
       user.id,
       messageId
-    );
+    ));
 
     console.log('[Execute Action] Action execution result:', {
       success: result.success,
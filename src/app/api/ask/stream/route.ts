@@ -7,9 +7,13 @@
 
 import { NextRequest } from 'next/server';
 import OpenAI from 'openai';
+import { getOpenAI } from '@/lib/openai-client';
 import { createServerClient } from '@/lib/supabase-client';
 import { classifyQuery } from '@/lib/ask/classifier';
 import { retrieveContext } from '@/lib/ask/retrieval';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
+import { aiBudgetExceededResponse } from '@/lib/ai/budget-response';
+import { AIBudgetExceededError } from '@/lib/ai/types';
 import type { MessageSource } from '@/types/ask';
 
 // ============================================================================
@@ -30,9 +34,7 @@ const FALLBACK_MODELS = Array.from(
 );
 
 const openai = openaiApiKey
-  ? new OpenAI({
-      apiKey: openaiApiKey,
-    })
+  ? getOpenAI('ask_signalsloop')
   : null;
 
 async function createStreamingCompletion(
@@ -229,16 +231,18 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    const costContext = { projectId, feature: 'ask_signalsloop' } as const;
+
     // 5. Classify the query
-    const classification = await classifyQuery(query);
+    const classification = await withAICostContext(costContext, () => classifyQuery(query));
 
     // 6. Retrieve relevant context
-    const { context, sources } = await retrieveContext(
+    const { context, sources } = await withAICostContext(costContext, () => retrieveContext(
       projectId,
       classification.queryType,
       classification.searchQuery,
       classification.entities
-    );
+    ));
 
     // 7. Create or get conversation
     let activeConversationId = conversationId;
@@ -331,7 +335,7 @@ export async function POST(request: NextRequest) {
     // 10. Call OpenAI with streaming
     const startTime = Date.now();
 
-    const response = await createStreamingCompletion(messages);
+    const response = await withAICostContext(costContext, () => createStreamingCompletion(messages));
     const responseModel = response.model;
 
     // Create streaming response with callbacks
@@ -399,6 +403,9 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      return aiBudgetExceededResponse(error);
+    }
     console.error('Error in /api/ask/stream:', error);
 
     // Return error as JSON
@@ -7,6 +7,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import OpenAI from 'openai';
+import { getOpenAI } from '@/lib/openai-client';
 import { createServerClient } from '@/lib/supabase-client';
 import type { TranscribeResponse } from '@/types/ask';
 
@@ -30,9 +31,7 @@ const SUPPORTED_FORMATS = [
 ];
 
 const openai = process.env.OPENAI_API_KEY
-  ? new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    })
+  ? getOpenAI('ask_signalsloop')
   : null;
 
 // ============================================================================
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { cacheTags, invalidateCacheTags } from '@/lib/cache';
 
 export async function DELETE(request: Request) {
   try {
@@ -60,7 +61,7 @@ export async function DELETE(request: Request) {
     // Get project and verify user is the OWNER (not just admin)
     const { data: project, error: projectError } = await supabase
       .from('projects')
-      .select('owner_id')
+      .select('owner_id, slug')
       .eq('id', projectId)
       .single();
 
@@ -93,6 +94,12 @@ export async function DELETE(request: Request) {
       );
     }
 
+    await invalidateCacheTags([
+      cacheTags.project(projectId),
+      cacheTags.board(boardId),
+      project.slug ? cacheTags.projectSlug(project.slug) : null,
+    ]);
+
     console.log('✅ Project and board deleted successfully:', { projectId, boardId });
 
     return NextResponse.json({ 
@@ -6,6 +6,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase-client';
 import { executiveBriefService } from '@/lib/briefs/executive-brief-service';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
+import { aiBudgetExceededResponse } from '@/lib/ai/budget-response';
+import { AIBudgetExceededError } from '@/lib/ai/types';
 
 export async function GET(request: NextRequest) {
   try {
@@ -53,15 +56,18 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Project ID required' }, { status: 400 });
     }
     
-    const brief = await executiveBriefService.generateBrief(
+    const brief = await withAICostContext({ projectId }, () => executiveBriefService.generateBrief(
       projectId,
       briefType || 'weekly',
       config || {}
-    );
+    ));
     
     return NextResponse.json({ brief }, { status: 201 });
     
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      return aiBudgetExceededResponse(error);
+    }
     console.error('[API] Generate brief error:', error);
     return NextResponse.json(
       { error: 'Failed to generate brief' },
@@ -14,6 +14,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseServerClient } from '@/lib/supabase-client';
 import { getOpenAI } from '@/lib/openai-client';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
@@ -31,7 +32,7 @@ interface AnalysisResult {
 }
 
 async function analyzeTranscript(transcript: string, customer: string | null): Promise<AnalysisResult> {
-    const openai = getOpenAI();
+    const openai = getOpenAI('call_intelligence');
 
     const systemPrompt = `You are an expert sales call analyst. Analyze the following call transcript and extract key insights.
 
@@ -139,7 +140,9 @@ export async function POST(request: NextRequest) {
         const results = [];
         for (const record of pendingRecords) {
             try {
-                const analysis = await analyzeTranscript(record.transcript, record.customer);
+                const analysis = await withAICostContext({ projectId }, () =>
+                    analyzeTranscript(record.transcript, record.customer)
+                );
 
                 // Update the record with analysis results
                 // Only update columns that exist in the call_records table
@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { checkDemoRateLimit, incrementDemoUsage, getTimeUntilReset } from '@/lib/demo-rate-limit';
+import { checkDemoRateLimit, incrementDemoUsage, getTimeUntilReset, getDemoRateLimitHeaders } from '@/lib/demo-rate-limit';
 
 // Lazy getter for Supabase client to avoid build-time initialization
 function getSupabase() {
@@ -22,7 +22,7 @@ export async function POST(req: Request) {
     try {
         // Rate limiting for demo users
         const clientIP = getClientIP(req);
-        const rateCheck = checkDemoRateLimit(clientIP, 'competitive_intel');
+        const rateCheck = await checkDemoRateLimit(clientIP, 'competitive_intel');
 
         if (!rateCheck.allowed) {
             return NextResponse.json({
@@ -30,7 +30,7 @@ export async function POST(req: Request) {
                 remaining: 0,
                 limit: rateCheck.limit,
                 resetAt: rateCheck.resetAt
-            }, { status: 429 });
+            }, { status: 429, headers: getDemoRateLimitHeaders(rateCheck) });
         }
 
         const body = await req.json();
@@ -57,7 +57,7 @@ export async function POST(req: Request) {
         if (error) throw error;
 
         // Increment usage after successful session creation
-        incrementDemoUsage(clientIP, 'competitive_intel');
+        await incrementDemoUsage(clientIP, 'competitive_intel');
 
         return NextResponse.json({
             sessionId: data.id,
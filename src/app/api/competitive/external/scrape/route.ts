@@ -8,6 +8,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseServerClient } from '@/lib/supabase-client';
 import { scrapeCompetitorReviews, analyzeStrengthsAndWeaknesses } from '@/lib/competitive-intelligence/external-review-scraper';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
+import { aiBudgetExceededResponse } from '@/lib/ai/budget-response';
+import { AIBudgetExceededError } from '@/lib/ai/types';
 import { checkAIUsageLimit, incrementAIUsage, getUpgradeMessage } from '@/lib/ai-rate-limit';
 
 export const runtime = 'nodejs';
@@ -63,11 +66,11 @@ export async function POST(req: NextRequest) {
     console.log(`[External Scrape] Scraping ${platform} reviews for competitor ${competitorProductId} (${usageCheck.remaining} scrapes remaining)`);
 
     // Scrape reviews
-    const scrapeResult = await scrapeCompetitorReviews(
+    const scrapeResult = await withAICostContext({ projectId, feature: 'external_review_scrape' }, () => scrapeCompetitorReviews(
       competitorProductId,
       platform as 'g2' | 'capterra' | 'trustradius',
       limit
-    );
+    ));
 
     if (!scrapeResult.success) {
       return NextResponse.json(
@@ -77,7 +80,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Analyze strengths and weaknesses
-    const analyzeResult = await analyzeStrengthsAndWeaknesses(competitorProductId);
+    const analyzeResult = await withAICostContext({ projectId, feature: 'external_review_scrape' }, () => analyzeStrengthsAndWeaknesses(competitorProductId));
 
     // Increment usage
     await incrementAIUsage(projectId, 'external_review_scrape');
@@ -96,6 +99,9 @@ export async function POST(req: NextRequest) {
       },
     });
   } catch (error: any) {
+    if (error instanceof AIBudgetExceededError) {
+      return aiBudgetExceededResponse(error);
+    }
     console.error('[External Scrape API] Unexpected error:', error);
     return NextResponse.json(
       { success: false, error: error.message },
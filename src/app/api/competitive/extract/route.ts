@@ -9,6 +9,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseServerClient } from '@/lib/supabase-client';
 import { extractCompetitorMentionsBatch, getPendingFeedbackForExtraction } from '@/lib/competitive-intelligence';
 import { checkAIUsageLimit, incrementAIUsage, getUpgradeMessage } from '@/lib/ai-rate-limit';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
+import { aiBudgetExceededResponse } from '@/lib/ai/budget-response';
+import { AIBudgetExceededError } from '@/lib/ai/types';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
@@ -83,7 +86,9 @@ export async function POST(request: NextRequest) {
     console.log(`[Competitive Extraction] Found ${pendingFeedbackIds.length} pending feedback items`);
 
     // Extract competitors from feedback batch
-    const result = await extractCompetitorMentionsBatch(pendingFeedbackIds);
+    const result = await withAICostContext({ projectId, feature: 'competitor_extraction' }, () =>
+      extractCompetitorMentionsBatch(pendingFeedbackIds)
+    );
 
     // Increment usage by number of items processed
     if (result.successful > 0) {
@@ -106,6 +111,9 @@ export async function POST(request: NextRequest) {
       },
     });
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      return aiBudgetExceededResponse(error);
+    }
     console.error('[Competitive Extraction] Error:', error);
     return NextResponse.json(
       {
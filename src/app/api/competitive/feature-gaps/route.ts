@@ -13,6 +13,9 @@ import {
   detectFeatureGaps,
 } from '@/lib/competitive-intelligence';
 import { checkAIUsageLimit, incrementAIUsage, getUpgradeMessage } from '@/lib/ai-rate-limit';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
+import { aiBudgetExceededResponse } from '@/lib/ai/budget-response';
+import { AIBudgetExceededError } from '@/lib/ai/types';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
@@ -118,7 +121,9 @@ export async function POST(request: NextRequest) {
     console.log(`[Feature Gaps] Running detection for project ${projectId} (${usageCheck.remaining} detections remaining)`);
 
     // Run feature gap detection
-    const result = await detectFeatureGaps(projectId, daysBack);
+    const result = await withAICostContext({ projectId, feature: 'feature_gap_detection' }, () =>
+      detectFeatureGaps(projectId, daysBack)
+    );
 
     if (!result.success) {
       return NextResponse.json({
@@ -144,6 +149,9 @@ export async function POST(request: NextRequest) {
       },
     });
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      return aiBudgetExceededResponse(error);
+    }
     console.error('[Feature Gaps API] POST Error:', error);
     return NextResponse.json(
       {
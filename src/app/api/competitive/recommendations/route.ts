@@ -13,6 +13,9 @@ import {
   generateStrategicRecommendations,
 } from '@/lib/competitive-intelligence';
 import { checkAIUsageLimit, incrementAIUsage, getUpgradeMessage } from '@/lib/ai-rate-limit';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
+import { aiBudgetExceededResponse } from '@/lib/ai/budget-response';
+import { AIBudgetExceededError } from '@/lib/ai/types';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
@@ -111,7 +114,9 @@ export async function POST(request: NextRequest) {
     console.log(`[Strategic Recommendations] Generating for project ${projectId} (${usageCheck.remaining} generations remaining)`);
 
     // Generate recommendations
-    const result = await generateStrategicRecommendations(projectId);
+    const result = await withAICostContext({ projectId, feature: 'strategic_recommendations' }, () =>
+      generateStrategicRecommendations(projectId)
+    );
 
     if (!result.success) {
       return NextResponse.json({
@@ -137,6 +142,9 @@ export async function POST(request: NextRequest) {
       },
     });
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      return aiBudgetExceededResponse(error);
+    }
     console.error('[Recommendations API] POST Error:', error);
     return NextResponse.json(
       {
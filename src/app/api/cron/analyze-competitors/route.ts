@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { analyzeStrengthsAndWeaknesses } from '@/lib/competitive-intelligence/external-review-scraper';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE!;
@@ -51,7 +52,7 @@ export async function POST(req: NextRequest) {
       try {
         console.log(`[Cron: Analyze Competitors] Analyzing ${product.product_name}...`);
 
-        const result = await analyzeStrengthsAndWeaknesses(product.id);
+        const result = await withAICostContext({ projectId: product.project_id }, () => analyzeStrengthsAndWeaknesses(product.id));
 
         if (result.success) {
           totalStrengthsFound += result.strengthsFound;
@@ -17,6 +17,7 @@ import {
   extractThemes,
   CallAnalysisResult,
 } from '@/lib/ai-call-analysis';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 
 export const runtime = 'nodejs';
 export const maxDuration = 300; // 5 minutes for cron jobs
@@ -81,12 +82,12 @@ export async function GET(request: NextRequest) {
         console.log(`[Cron: Calls Analyze] Analyzing call ${record.id}...`);
 
         // Analyze the call with AI
-        const analysis = await analyzeCall(
+        const analysis = await withAICostContext({ projectId: record.project_id }, () => analyzeCall(
           record.transcript,
           record.customer,
           record.amount ? Number(record.amount) : undefined,
           record.stage
-        );
+        ));
 
         if (!analysis) {
           results.push({
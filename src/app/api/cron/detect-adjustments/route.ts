@@ -9,6 +9,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { detectRoadmapAdjustmentTriggers } from '@/lib/roadmap/trigger-detection';
 import { generateAdjustmentProposal } from '@/lib/roadmap/proposal-generator';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 import { getServiceRoleClient } from '@/lib/supabase-singleton';
 
 export const maxDuration = 300; // 5 minutes max
@@ -53,7 +54,7 @@ export async function GET(request: NextRequest) {
         for (const project of projects) {
             try {
                 // Detect triggers
-                const triggers = await detectRoadmapAdjustmentTriggers(project.id);
+                const triggers = await withAICostContext({ projectId: project.id }, () => detectRoadmapAdjustmentTriggers(project.id));
                 results.triggersDetected += triggers.length;
 
                 // Generate proposals for significant triggers
@@ -61,7 +62,7 @@ export async function GET(request: NextRequest) {
 
                 for (const trigger of significantTriggers) {
                     try {
-                        const proposal = await generateAdjustmentProposal(project.id, trigger);
+                        const proposal = await withAICostContext({ projectId: project.id }, () => generateAdjustmentProposal(project.id, trigger));
 
                         const { error: insertError } = await supabase
                             .from('roadmap_adjustment_proposals')
@@ -0,0 +1,50 @@
+/**
+ * Hunter Backfill Cron Job
+ *
+ * Advances active backfills: records each finished page and starts the
+ * next one when the project has no live scan, has free job slots, and the
+ * platform is outside quiet hours with its circuit closed
+ * (see src/lib/hunters/backfill.ts).
+ *
+ * Schedule: Every 5 minutes via Vercel Cron
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { advanceBackfills } from '@/lib/hunters/backfill';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+const BATCH_SIZE = 20;
+
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get('authorization');
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const summary = await advanceBackfills(BATCH_SIZE);
+
+    if (summary.started > 0 || summary.complete > 0 || summary.failed > 0) {
+      console.log(
+        `[Hunter Backfill] started=${summary.started} waiting=${summary.waiting} ` +
+        `in_progress=${summary.in_progress} complete=${summary.complete} failed=${summary.failed}`
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...summary,
+      duration_ms: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error('[Hunter Backfill] Error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
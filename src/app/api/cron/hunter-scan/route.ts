@@ -1,12 +1,15 @@
 /**
  * Hunter Cron Job
  * Scheduled job to scan all active platform integrations
- * Should be triggered every 15 minutes via cron
+ * Should be triggered every 15 minutes via cron; each integration's own
+ * schedule and quiet hours decide when it is next due
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getHunter } from '@/lib/hunters';
+import { getNextScanAt, isInQuietHours } from '@/lib/hunters/scan-schedule';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 
 export const runtime = 'nodejs';
 export const maxDuration = 300; // 5 minutes
@@ -67,12 +70,28 @@ export async function GET(request: NextRequest) {
 
     for (const integration of integrations) {
       try {
+        // Due during quiet hours: skip to the next allowed run
+        if (isInQuietHours(new Date(), integration.quiet_hours, integration.schedule_timezone || 'UTC')) {
+          await supabase
+            .from('platform_integrations')
+            .update({ next_scan_at: getNextScanAt(integration).toISOString() })
+            .eq('id', integration.id);
+
+          results.push({
+            platform: integration.platform_type,
+            projectId: integration.project_id,
+            success: true,
+            skipped: 'quiet_hours',
+          });
+          continue;
+        }
+
         const hunter = getHunter(integration.platform_type);
         const config = (integration as any).hunter_configs;
 
         console.log(`[Hunter Cron] Scanning ${integration.platform_type} for project ${integration.project_id}`);
 
-        const result = await hunter.scan(config, integration);
+        const result = await withAICostContext({ projectId: integration.project_id, feature: 'hunter_scan' }, () => hunter.scan(config, integration));
 
         // Log the scan
         await hunter.logScan(
@@ -82,10 +101,8 @@ export async function GET(request: NextRequest) {
           'scheduled'
         );
 
-        // Update next scan time
-        const nextScanAt = new Date(
-          Date.now() + integration.scan_frequency_minutes * 60 * 1000
-        ).toISOString();
+        // Update next scan time from the schedule (or frequency)
+        const nextScanAt = getNextScanAt(integration).toISOString();
 
         await supabase
           .from('platform_integrations')
@@ -11,6 +11,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getOpenAI } from '@/lib/openai-client';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
 import { generateEmbedding, prepareSpecForEmbedding, generateContentHash } from '@/lib/specs/embeddings';
 import { SPEC_GENERATION_SYSTEM_PROMPT, getSpecGenerationPrompt, getFeedbackSynthesisPrompt } from '@/lib/specs/prompts';
@@ -122,7 +123,7 @@ async function autoGenerateSpec(cluster: FeedbackCluster): Promise<string | null
       }))
     );
 
-    const synthesisResponse = await getOpenAI().chat.completions.create({
+    const synthesisResponse = await getOpenAI('spec_generation').chat.completions.create({
       model: 'gpt-4o',
       messages: [{ role: 'user', content: synthesisPrompt }],
       response_format: { type: 'json_object' },
@@ -149,7 +150,7 @@ async function autoGenerateSpec(cluster: FeedbackCluster): Promise<string | null
       customContext: `This spec was auto-generated based on ${cluster.feedback_count} user requests (${cluster.total_votes} votes). High-demand feature cluster detected.`,
     });
 
-    const completion = await getOpenAI().chat.completions.create({
+    const completion = await getOpenAI('spec_generation').chat.completions.create({
       model: 'gpt-4o',
       messages: [
         { role: 'system', content: SPEC_GENERATION_SYSTEM_PROMPT },
@@ -308,7 +309,10 @@ export async function GET(request: NextRequest) {
     // Step 2: Generate specs for top 5 clusters (to avoid overwhelming)
     const results = [];
     for (const cluster of clusters.slice(0, 5)) {
-      const specId = await autoGenerateSpec(cluster);
+      const specId = await withAICostContext(
+        { projectId: cluster.project_id, feature: 'spec_generation' },
+        () => autoGenerateSpec(cluster)
+      );
       if (specId) {
         await notifyPM(cluster.project_id, specId, cluster.theme_name, cluster.feedback_count);
         results.push({
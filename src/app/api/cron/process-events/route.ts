@@ -6,9 +6,11 @@
  *
  * How it works:
  * 1. Queries events table for unprocessed events (processed = false)
- * 2. Processes each event through the agent registry
- * 3. Marks events as processed after successful handling
- * 4. Retries failed events with exponential backoff
+ * 2. Runs each event's handlers from the agent registry, checkpointing
+ *    every (event, handler) pair in event_handler_runs
+ * 3. Marks events as processed once every handler has succeeded or given up
+ * 4. On retry, runs only the handlers that failed; a handler that fails
+ *    MAX_RETRIES times goes to the dead letter queue on its own
  *
  * Schedule: EVERY 5 MINUTES (Vercel Pro tier - independent cron job)
  * - Real-time event processing for immediate agent reactions
@@ -22,6 +24,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServiceRoleClient } from '@/lib/supabase-singleton';
 import { AGENT_REGISTRY } from '@/lib/agents/registry';
 import { DomainEvent } from '@/lib/events/types';
+import { HandlerRunResult, runEventHandlers } from '@/lib/events/handler-runs';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60; // 1 minute max
@@ -36,36 +39,43 @@ interface ProcessingResult {
   success: boolean;
   duration: number;
   error?: string;
+  handlers?: HandlerRunResult[];
 }
 
 /**
  * Process a single event through the agent registry
+ * `complete` is false while any handler still has retries left
  */
-async function processEvent(event: DomainEvent): Promise<{ success: boolean; error?: string }> {
+async function processEvent(event: DomainEvent): Promise<{
+  success: boolean;
+  complete: boolean;
+  error?: string;
+  handlers?: HandlerRunResult[];
+}> {
   const handlers = AGENT_REGISTRY[event.type];
 
   if (!handlers || handlers.length === 0) {
     // No handlers for this event type - mark as processed (not an error)
-    return { success: true };
+    return { success: true, complete: true };
   }
 
   try {
-    // Run all handlers in parallel
-    await Promise.all(
-      handlers.map(async (handler, index) => {
-        try {
-          await handler(event);
-        } catch (error) {
-          console.error(`[EVENT PROCESSOR] Handler ${index + 1} failed for ${event.type}:`, error);
-          throw error; // Re-throw to fail the entire event processing
-        }
-      })
-    );
+    const { complete, results } = await runEventHandlers(event, handlers, MAX_RETRIES);
+    const failures = results.filter(result => result.status === 'failed' || result.status === 'dead_lettered');
 
-    return { success: true };
+    return {
+      success: failures.length === 0,
+      complete,
+      error: failures.length > 0
+        ? failures.map(result => `${result.handlerName}: ${result.error}`).join('; ')
+        : undefined,
+      handlers: results,
+    };
   } catch (error) {
+    // Checkpoints could not be read or written - retry the whole event
     return {
       success: false,
+      complete: false,
       error: error instanceof Error ? error.message : 'Unknown error',
     };
   }
@@ -82,7 +92,7 @@ async function markEventProcessed(eventId: string, success: boolean, error?: str
     processed_at: success ? new Date().toISOString() : null,
   };
 
-  if (!success && error) {
+  if (error) {
     updateData.processing_error = error;
   }
 
@@ -181,24 +191,22 @@ export async function GET(request: NextRequest) {
         success: result.success,
         duration,
         error: result.error,
+        handlers: result.handlers,
       });
 
-      if (result.success) {
-        // Mark as processed
-        await markEventProcessed(event.id!, true);
-        console.log(`  ✅ ${event.type} processed successfully (${duration}ms)`);
-      } else {
-        // Increment retry count
-        await incrementRetryCount(event.id!);
-
-        // Mark as failed if max retries reached
-        const currentRetryCount = (eventRow.retry_count || 0) + 1;
-        if (currentRetryCount >= MAX_RETRIES) {
-          await markEventProcessed(event.id!, false, result.error);
-          console.log(`  ❌ ${event.type} failed after ${MAX_RETRIES} retries: ${result.error}`);
+      if (result.complete) {
+        // Every handler succeeded, or gave up and went to the dead letter queue
+        await markEventProcessed(event.id!, true, result.error);
+        if (result.success) {
+          console.log(`  ✅ ${event.type} processed successfully (${duration}ms)`);
         } else {
-          console.log(`  ⚠️  ${event.type} failed (retry ${currentRetryCount}/${MAX_RETRIES}): ${result.error}`);
+          console.log(`  ❌ ${event.type} processed with dead-lettered handlers: ${result.error}`);
         }
+      } else {
+        // Only the failed handlers run on the next attempt
+        await incrementRetryCount(event.id!);
+        await markEventProcessed(event.id!, false, result.error);
+        console.log(`  ⚠️  ${event.type} failed (attempt ${(eventRow.retry_count || 0) + 1}): ${result.error}`);
       }
     }
 
@@ -11,6 +11,8 @@ import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
 import { buildProductContext } from '@/lib/hunters/product-context';
 import { filterByRelevance } from '@/lib/hunters/relevance-filter';
 import OpenAI from 'openai';
+import { getOpenAI } from '@/lib/openai-client';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 import {
     RawFeedback,
     ClassifiedFeedback,
@@ -91,6 +93,7 @@ export async function GET(request: NextRequest) {
 
         // Process each project's items
         for (const [projectId, items] of itemsByProject) {
+            const costContext = { projectId, feature: 'hunter_scan' } as const;
             try {
                 // Fetch hunter config for this project
                 const { data: config } = await supabase
@@ -132,7 +135,9 @@ export async function GET(request: NextRequest) {
                     console.log(`[Cron] Running Stage 2 for project ${projectId} (company: ${config?.company_name})...`);
                     try {
                         const context = buildProductContext(config as HunterConfig);
-                        const filterResult = await filterByRelevance(rawItems, context);
+                        const filterResult = await withAICostContext(costContext, () =>
+                            filterByRelevance(rawItems, context)
+                        );
 
                         // Store relevance scores and filter out excluded items
                         for (const included of filterResult.included) {
@@ -184,12 +189,14 @@ export async function GET(request: NextRequest) {
                 if (itemsToClassify.length > 0 && process.env.OPENAI_API_KEY) {
                     console.log(`[Cron] Running Stage 3 for ${itemsToClassify.length} items...`);
 
-                    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+                    const openai = getOpenAI('hunter_scan');
 
                     for (const item of itemsToClassify) {
                         try {
                             // Classify the item
-                            const classification = await classifyFeedback(openai, item, config);
+                            const classification = await withAICostContext(costContext, () =>
+                                classifyFeedback(openai, item, config)
+                            );
                             const relevance = relevanceResults.get(item.platform_id);
 
                             // Update the database
@@ -8,7 +8,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import OpenAI from 'openai';
+import { getOpenAI } from '@/lib/openai-client';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 import { classifyQuery } from '@/lib/ask/classifier';
 import { retrieveContext } from '@/lib/ask/retrieval';
 
@@ -36,9 +37,7 @@ export async function GET(request: NextRequest) {
     console.log('[Scheduled Queries Cron] Starting execution');
 
     // Create clients inside the handler to avoid build-time initialization
-    const openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+    const openai = getOpenAI('ask_signalsloop');
 
     const supabase = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -85,19 +84,23 @@ export async function GET(request: NextRequest) {
       try {
         console.log(`[Scheduled Queries Cron] Executing query: ${scheduledQuery.id}`);
 
+        const costContext = { projectId: scheduledQuery.project_id, feature: 'ask_signalsloop' } as const;
+
         // Classify the query
-        const classification = await classifyQuery(scheduledQuery.query_text);
+        const classification = await withAICostContext(costContext, () =>
+          classifyQuery(scheduledQuery.query_text)
+        );
 
         // Retrieve context
-        const { context, sources } = await retrieveContext(
+        const { context, sources } = await withAICostContext(costContext, () => retrieveContext(
           scheduledQuery.project_id,
           classification.queryType,
           classification.searchQuery,
           classification.entities
-        );
+        ));
 
         // Generate response with OpenAI
-        const completion = await openai.chat.completions.create({
+        const completion = await withAICostContext(costContext, () => openai.chat.completions.create({
           model: 'gpt-4o-mini',
           messages: [
             { role: 'system', content: SYSTEM_PROMPT },
@@ -109,7 +112,7 @@ export async function GET(request: NextRequest) {
           ],
           temperature: 0.7,
           max_tokens: 1500,
-        });
+        }));
 
         const response = completion.choices[0]?.message?.content;
 
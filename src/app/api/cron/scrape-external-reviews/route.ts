@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { scrapeCompetitorReviews } from '@/lib/competitive-intelligence/external-review-scraper';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE!;
@@ -52,11 +53,11 @@ export async function POST(req: NextRequest) {
       // Scrape from each enabled platform
       for (const platform of product.platforms) {
         try {
-          const result = await scrapeCompetitorReviews(
+          const result = await withAICostContext({ projectId: product.project_id }, () => scrapeCompetitorReviews(
             product.id,
             platform as 'g2' | 'capterra' | 'trustradius',
             50 // Scrape up to 50 reviews per platform per day
-          );
+          ));
 
           if (result.success) {
             totalReviewsScraped += result.reviewsScraped;
@@ -11,6 +11,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { sendWeeklyReports } from '@/lib/stakeholders/report-generator';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
 
 export const runtime = 'nodejs';
@@ -77,7 +78,7 @@ export async function POST(request: NextRequest) {
     for (const projectId of uniqueProjectIds) {
       try {
         console.log(`[Stakeholder Reports Cron] Processing project ${projectId}`);
-        await sendWeeklyReports(projectId);
+        await withAICostContext({ projectId }, () => sendWeeklyReports(projectId));
         results.success.push(projectId);
       } catch (error) {
         console.error(`[Stakeholder Reports Cron] Error processing project ${projectId}:`, error);
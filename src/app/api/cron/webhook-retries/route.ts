@@ -0,0 +1,53 @@
+/**
+ * Webhook Retries Cron Job
+ *
+ * Re-attempts webhook deliveries whose first attempt failed, using
+ * exponential backoff. Endpoints are auto-disabled after repeated
+ * consecutive failures (see src/lib/webhooks.ts).
+ *
+ * Schedule: Every minute via Vercel Cron
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { processWebhookQueue } from '@/lib/webhooks';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// Each attempt has a 10s timeout; 25 keeps a slow batch under maxDuration
+const BATCH_SIZE = 25;
+
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get('authorization');
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const summary = await processWebhookQueue(BATCH_SIZE);
+
+    if (summary.claimed > 0) {
+      console.log(
+        `[Webhook Retries] claimed=${summary.claimed} delivered=${summary.delivered} ` +
+        `rescheduled=${summary.rescheduled} failed=${summary.failed}`
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...summary,
+      duration_ms: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error('[Webhook Retries] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -9,6 +9,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getTodayBriefing, getDashboardMetrics } from '@/lib/ai/mission-control';
 import { getSupabaseServerClient } from '@/lib/supabase-client';
 import { checkAIUsageLimit, incrementAIUsage } from '@/lib/ai-rate-limit';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
+import { aiBudgetExceededResponse } from '@/lib/ai/budget-response';
+import { AIBudgetExceededError } from '@/lib/ai/types';
 import { triggerDiscordNotification } from '@/lib/discord';
 import { triggerSlackNotification } from '@/lib/slack';
 
@@ -82,7 +85,9 @@ export async function GET(request: NextRequest) {
       }
 
       // Generate new briefing
-      briefing = await getTodayBriefing(projectId);
+      briefing = await withAICostContext({ projectId, feature: 'daily_briefing' }, () =>
+        getTodayBriefing(projectId)
+      );
       briefing.cached = false;
 
       // Increment AI usage
@@ -114,6 +119,9 @@ export async function GET(request: NextRequest) {
       },
     });
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      return aiBudgetExceededResponse(error);
+    }
     console.error('Error in briefing API:', error);
     return NextResponse.json(
       {
@@ -186,7 +194,9 @@ export async function POST(request: NextRequest) {
       .eq('briefing_date', today);
 
     // Generate new briefing
-    const briefing = await getTodayBriefing(projectId);
+    const briefing = await withAICostContext({ projectId, feature: 'daily_briefing' }, () =>
+      getTodayBriefing(projectId)
+    );
 
     // Increment AI usage
     await incrementAIUsage(projectId, 'sentiment_analysis');
@@ -213,6 +223,9 @@ export async function POST(request: NextRequest) {
       regenerated: true,
     });
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      return aiBudgetExceededResponse(error);
+    }
     console.error('Error regenerating briefing:', error);
     return NextResponse.json(
       {
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { analyzeFeedback, AnalysisRequest } from '@/lib/user-feedback/feedback-service';
-import { checkDemoRateLimit, incrementDemoUsage, getClientIP, getTimeUntilReset } from '@/lib/demo-rate-limit';
+import { checkDemoRateLimit, incrementDemoUsage, getClientIP, getTimeUntilReset, getDemoRateLimitHeaders } from '@/lib/demo-rate-limit';
 
 export const maxDuration = 60; // Allow longer timeout for scraping + GPT-4o
 
@@ -8,7 +8,7 @@ export async function POST(req: NextRequest) {
     try {
         // Rate limiting for demo users
         const clientIP = getClientIP(req);
-        const rateCheck = checkDemoRateLimit(clientIP, 'feedback_analysis');
+        const rateCheck = await checkDemoRateLimit(clientIP, 'feedback_analysis');
 
         if (!rateCheck.allowed) {
             return NextResponse.json({
@@ -16,7 +16,7 @@ export async function POST(req: NextRequest) {
                 remaining: 0,
                 limit: rateCheck.limit,
                 resetAt: rateCheck.resetAt
-            }, { status: 429 });
+            }, { status: 429, headers: getDemoRateLimitHeaders(rateCheck) });
         }
 
         const body = await req.json();
@@ -36,7 +36,7 @@ export async function POST(req: NextRequest) {
         const result = await analyzeFeedback(request);
 
         // Only increment usage after successful analysis
-        incrementDemoUsage(clientIP, 'feedback_analysis');
+        await incrementDemoUsage(clientIP, 'feedback_analysis');
 
         return NextResponse.json({
             ...result,
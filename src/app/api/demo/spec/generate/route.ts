@@ -1,4 +1,4 @@
-import OpenAI from 'openai';
+import { getOpenAI } from '@/lib/openai-client';
 import { Redis } from '@upstash/redis';
 import { NextRequest, NextResponse } from 'next/server';
 
@@ -40,9 +40,7 @@ export async function POST(req: NextRequest) {
         }
 
         // Initialize OpenAI inside handler to avoid build-time issues
-        const openai = new OpenAI({
-            apiKey: process.env.OPENAI_API_KEY,
-        });
+        const openai = getOpenAI('spec_generation');
 
         const response = await openai.chat.completions.create({
             model: 'gpt-4o',
@@ -17,6 +17,7 @@ import {
   Theme,
 } from '@/types/themes';
 import { captureThemeDetectionReasoning } from '@/lib/reasoning/integrations';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 
 export const runtime = 'nodejs';
 export const maxDuration = 300; // 5 minutes for processing
@@ -154,7 +155,7 @@ export async function POST(request: NextRequest) {
     }));
 
     // Detect themes using AI
-    const batchResults = await detectThemesBatch(feedbackItems);
+    const batchResults = await withAICostContext({ projectId }, () => detectThemesBatch(feedbackItems));
 
     if (batchResults.length === 0) {
       return NextResponse.json({
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { slidingWindowHeaders, slidingWindowLimit } from '@/lib/rate-limit-store';
+import { authenticateAPIKey, hashAPIKey } from '@/lib/api-key-auth';
 
 // Lazy getter for Supabase client to avoid build-time initialization
 function getSupabase() {
@@ -9,71 +11,51 @@ function getSupabase() {
   );
 }
 
-// Rate limiting map (in production, use Redis or database)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-
-function checkRateLimit(domain: string): boolean {
-  const now = Date.now();
-  const limit = rateLimitMap.get(domain);
-
-  if (!limit || now > limit.resetTime) {
-    rateLimitMap.set(domain, { count: 1, resetTime: now + 60000 }); // 1 minute window
-    return true;
-  }
-
-  if (limit.count >= 100) { // 100 requests per minute per domain
-    return false;
-  }
-
-  limit.count++;
-  return true;
-}
+// 100 requests per minute per embedding domain, shared across instances
+const EMBED_RATE_LIMIT = { limit: 100, windowMs: 60 * 1000 };
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { key: string } }
 ) {
+  // Sent with every response once the request has been counted
+  let rateLimitHeaders: Record<string, string> = {};
+
   try {
     const { key } = params;
     const url = new URL(request.url);
     const domain = request.headers.get('referer') || request.headers.get('origin') || 'unknown';
 
     // Rate limiting
-    if (!checkRateLimit(domain)) {
-      return new NextResponse('Rate limit exceeded', { status: 429 });
+    const rateLimit = await slidingWindowLimit(`embed:${domain}`, [EMBED_RATE_LIMIT]);
+    rateLimitHeaders = slidingWindowHeaders(rateLimit);
+    if (!rateLimit.allowed) {
+      return new NextResponse('Rate limit exceeded', { status: 429, headers: rateLimitHeaders });
     }
 
     // Validate API key - check both API keys table and project slugs
     let project = null;
     const supabase = getSupabase();
 
-    // First, try to find by API key in api_keys table
-    const { data: apiKeyData, error: apiKeyError } = await supabase
-      .from('api_keys')
-      .select(`
-        id,
-        project_id,
-        name,
-        usage_count,
-        projects!inner(id, name, slug, plan)
-      `)
-      .eq('key_hash', btoa(key))
-      .single();
-
-    if (apiKeyData && apiKeyData.projects) {
-      // Valid API key found
-      project = apiKeyData.projects;
+    // First, try to find by API key (embed keys are stored base64-encoded, newer keys as SHA-256)
+    const auth = await authenticateAPIKey(request, key, { keyHashes: [btoa(key), hashAPIKey(key)] });
+
+    if (auth.valid) {
+      project = auth.project;
 
       // Update usage count and last used
       await supabase
         .from('api_keys')
         .update({
-          usage_count: apiKeyData.usage_count + 1,
+          usage_count: (auth.key.usage_count || 0) + 1,
           last_used_at: new Date().toISOString()
         })
-        .eq('id', apiKeyData.id);
+        .eq('id', auth.key.id);
 
-      console.log('Valid API key found:', key, 'for project:', project.name);
+      console.log('Valid API key found for project:', project.name);
+    } else if (auth.reason === 'policy') {
+      // The key exists but is revoked, expired or not allowed from this IP
+      return new NextResponse(auth.error, { status: auth.status, headers: rateLimitHeaders });
     } else {
       // Fallback: try to find project by slug (for demo purposes)
       const { data: projectData, error: projectError } = await supabase
@@ -87,7 +69,7 @@ export async function GET(
         console.log('Project found by slug:', key, 'project:', project.name);
       } else {
         // If no valid API key or project found, return error
-        return new NextResponse('Invalid API key', { status: 401 });
+        return new NextResponse('Invalid API key', { status: 401, headers: rateLimitHeaders });
       }
     }
 
@@ -486,7 +468,8 @@ export async function GET(
       'Access-Control-Allow-Headers': 'Origin, X-Requested-With, Content-Type, Accept',
       'X-Content-Type-Options': 'nosniff',
       'X-Frame-Options': 'SAMEORIGIN',
-      'Content-Security-Policy': "default-src 'self'; script-src 'unsafe-inline' 'unsafe-eval'; style-src 'unsafe-inline'; connect-src *;"
+      'Content-Security-Policy': "default-src 'self'; script-src 'unsafe-inline' 'unsafe-eval'; style-src 'unsafe-inline'; connect-src *;",
+      ...rateLimitHeaders,
     });
 
     return new NextResponse(jsCode, {
@@ -496,6 +479,6 @@ export async function GET(
 
   } catch (error) {
     console.error('Widget generation error:', error);
-    return new NextResponse('Internal server error', { status: 500 });
+    return new NextResponse('Internal server error', { status: 500, headers: rateLimitHeaders });
   }
 }
@@ -4,6 +4,9 @@
  * POST /api/events/replay
  *
  * Replays an event by re-publishing it to trigger agents again
+ * Old events are upcast to the current version of their schema first, and
+ * replays that do not validate are rejected with 422.
+ *
  * Useful for:
  * - Reprocessing failed events
  * - Testing agent behavior
@@ -13,6 +16,45 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServiceRoleClient } from '@/lib/supabase-singleton';
 import { publishEvent } from '@/lib/events/publisher';
+import { EventValidationError, upcastEvent, validateEvent } from '@/lib/events/schema-registry';
+import { DomainEvent } from '@/lib/events/types';
+
+/**
+ * Build the replay of a stored event at the current schema version
+ */
+function toReplayEvent(row: Record<string, any>, metadata: Record<string, any>): DomainEvent {
+  const original: DomainEvent = {
+    type: row.type,
+    aggregate_type: row.aggregate_type,
+    aggregate_id: row.aggregate_id,
+    payload: row.payload,
+    metadata: row.metadata,
+    version: row.version || 1,
+  };
+  const current = upcastEvent(original);
+
+  return {
+    ...current,
+    metadata: {
+      ...original.metadata,
+      ...metadata,
+      ...(current.version !== original.version ? { upcast_from: original.version } : {}),
+    },
+  };
+}
+
+/**
+ * Upcast and validate every event before anything is re-published
+ */
+function prepareReplay(events: DomainEvent[]): DomainEvent[] {
+  const errors = events.flatMap(event =>
+    validateEvent(event).errors.map(message => `${event.metadata.replayed_from}: ${message}`)
+  );
+  if (errors.length > 0) {
+    throw new EventValidationError('Replayed events do not match their schemas', errors);
+  }
+  return events;
+}
 
 export const runtime = 'nodejs';
 
@@ -50,21 +92,15 @@ export async function POST(request: NextRequest) {
       }
 
       // Re-publish the event with replay marker
-      const replayedEvent = {
-        type: originalEvent.type,
-        aggregate_type: originalEvent.aggregate_type,
-        aggregate_id: originalEvent.aggregate_id,
-        payload: originalEvent.payload,
-        metadata: {
-          ...originalEvent.metadata,
+      const [replayedEvent] = prepareReplay([
+        toReplayEvent(originalEvent, {
           replayed: true,
           replayed_from: event_id,
           replayed_at: new Date().toISOString(),
-        },
-        version: originalEvent.version,
-      };
+        }),
+      ]);
 
-      await publishEvent(replayedEvent);
+      await publishEvent(replayedEvent, { onInvalid: 'reject' });
 
       return NextResponse.json({
         success: true,
@@ -92,26 +128,19 @@ export async function POST(request: NextRequest) {
 
       // Replay each event in order
       const newCorrelationId = `replay-${Date.now()}`;
-      const replayedEvents = [];
-
-      for (const event of chainEvents) {
-        const replayedEvent = {
-          type: event.type,
-          aggregate_type: event.aggregate_type,
-          aggregate_id: event.aggregate_id,
-          payload: event.payload,
-          metadata: {
-            ...event.metadata,
+      const replayedEvents = prepareReplay(
+        chainEvents.map(event =>
+          toReplayEvent(event, {
             replayed: true,
             replayed_from: event.id,
             replayed_at: new Date().toISOString(),
             correlation_id: newCorrelationId,
-          },
-          version: event.version,
-        };
+          })
+        )
+      );
 
-        await publishEvent(replayedEvent);
-        replayedEvents.push(replayedEvent);
+      for (const replayedEvent of replayedEvents) {
+        await publishEvent(replayedEvent, { onInvalid: 'reject' });
 
         // Small delay to maintain order
         await new Promise(resolve => setTimeout(resolve, 100));
@@ -131,6 +160,13 @@ export async function POST(request: NextRequest) {
       { status: 400 }
     );
   } catch (error) {
+    if (error instanceof EventValidationError) {
+      return NextResponse.json(
+        { error: error.message, errors: error.errors },
+        { status: 422 }
+      );
+    }
+
     console.error('❌ Error replaying event:', error);
     return NextResponse.json(
       {
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getOpenAI } from '@/lib/openai-client';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
+import { aiBudgetExceededResponse } from '@/lib/ai/budget-response';
+import { AIBudgetExceededError } from '@/lib/ai/types';
 
 // Lazy getter for Supabase client to avoid build-time initialization
 function getSupabase() {
@@ -49,17 +52,19 @@ export async function POST(
       );
     }
 
+    const costContext = { projectId: experiment.project_id, feature: 'experiments' } as const;
+
     // Extract learnings using AI
-    const learnings = await extractLearningsWithAI(experiment, results);
+    const learnings = await withAICostContext(costContext, () => extractLearningsWithAI(experiment, results));
 
     // Generate embeddings for semantic search
-    const embeddingPromises = learnings.map(async (learning) => {
-      const embeddingResponse = await getOpenAI().embeddings.create({
+    const embeddingPromises = learnings.map((learning) => withAICostContext(costContext, async () => {
+      const embeddingResponse = await getOpenAI('experiments').embeddings.create({
         model: 'text-embedding-ada-002',
         input: `${learning.title} ${learning.description}`,
       });
       return embeddingResponse.data[0].embedding;
-    });
+    }));
 
     const embeddings = await Promise.all(embeddingPromises);
 
@@ -89,6 +94,9 @@ export async function POST(
 
     return NextResponse.json({ learnings: insertedLearnings });
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      return aiBudgetExceededResponse(error);
+    }
     console.error('Error in POST /api/experiments/[id]/learnings:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -139,7 +147,7 @@ Focus on:
 
 Return ONLY a JSON array of learnings, no other text.`;
 
-  const completion = await getOpenAI().chat.completions.create({
+  const completion = await getOpenAI('experiments').chat.completions.create({
     model: 'gpt-4',
     messages: [
       {
@@ -13,6 +13,7 @@ import {
   saveExperimentDesign,
   validateExperimentDesign,
 } from '@/lib/experiments/design-assistant';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60; // Allow up to 60 seconds for AI generation
@@ -44,10 +45,10 @@ export async function POST(request: NextRequest) {
     let design;
     if (variantCount > 2) {
       // Multivariate experiment
-      design = await generateMultivariateDesign(featureIdea, variantCount, projectId);
+      design = await withAICostContext({ projectId }, () => generateMultivariateDesign(featureIdea, variantCount, projectId));
     } else {
       // Standard A/B test
-      design = await generateExperimentDesign(featureIdea, projectId);
+      design = await withAICostContext({ projectId }, () => generateExperimentDesign(featureIdea, projectId));
     }
 
     // Validate design
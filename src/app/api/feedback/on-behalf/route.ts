@@ -8,6 +8,7 @@ import {
 import { triggerWebhooks } from '@/lib/webhooks';
 import { triggerSlackNotification } from '@/lib/slack';
 import { triggerDiscordNotification } from '@/lib/discord';
+import { invalidateCacheTags, postCacheTags } from '@/lib/cache';
 
 export const runtime = 'nodejs';
 export const maxDuration = 30;
@@ -164,6 +165,8 @@ export async function POST(request: NextRequest) {
 
     console.log('✅ Post created successfully:', post.id);
 
+    await invalidateCacheTags(postCacheTags(post));
+
     // Create feedback metadata
     const { data: metadata, error: metadataError } = await supabase
       .from('feedback_metadata')
@@ -7,6 +7,7 @@ import {
   sendTeamFeedbackAlertEmail,
 } from '@/lib/email';
 import { checkRateLimit, getRateLimitHeaders, RATE_LIMITS } from '@/lib/rate-limit';
+import { invalidateCacheTags, postCacheTags } from '@/lib/cache';
 
 // Lazy getter for Supabase client to avoid build-time initialization
 function getSupabase() {
@@ -22,7 +23,7 @@ export async function POST(request: NextRequest) {
   const ip = forwarded ? forwarded.split(',')[0].trim() : request.ip || 'unknown';
   const identifier = `feedback:${ip}`;
 
-  const rateLimitResult = checkRateLimit(identifier, RATE_LIMITS.public.feedback);
+  const rateLimitResult = await checkRateLimit(identifier, RATE_LIMITS.public.feedback);
 
   if (!rateLimitResult.success) {
     const headers = getRateLimitHeaders(rateLimitResult);
@@ -152,6 +153,8 @@ export async function POST(request: NextRequest) {
 
     console.log('[FEEDBACK] Post created successfully:', post.id);
 
+    await invalidateCacheTags(postCacheTags(post));
+
     if (user_email) {
       try {
         await sendPostConfirmationEmail({
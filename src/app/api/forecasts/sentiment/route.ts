@@ -15,6 +15,7 @@ import {
   storeSentimentForecast,
   generateAllForecasts,
 } from '@/lib/predictions/sentiment-forecasting';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -110,7 +111,7 @@ export async function POST(request: NextRequest) {
 
     // If generateAll is true, generate forecasts for all horizons (7, 14, 30 days)
     if (generateAll) {
-      await generateAllForecasts(projectId);
+      await withAICostContext({ projectId }, () => generateAllForecasts(projectId));
 
       return NextResponse.json({
         success: true,
@@ -128,11 +129,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const result = await generateSentimentForecast({
+    const result = await withAICostContext({ projectId }, () => generateSentimentForecast({
       projectId,
       horizon: forecastHorizon,
       trainingWindowDays: 90,
-    });
+    }));
 
     const forecastId = await storeSentimentForecast(
       projectId,
@@ -10,6 +10,7 @@ import {
   GenerateRecommendationsResponse,
 } from '@/types/hunter';
 import { getOpenAI } from '@/lib/openai-client';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
@@ -198,7 +199,7 @@ Generate an action recommendation with:
 Return JSON only.`;
 
       try {
-        const response = await getOpenAI().chat.completions.create({
+        const response = await withAICostContext({ projectId }, () => getOpenAI('hunter_scan').chat.completions.create({
           model: 'gpt-4o',
           messages: [
             {
@@ -210,7 +211,7 @@ Return JSON only.`;
           ],
           response_format: { type: 'json_object' },
           temperature: 0.5,
-        });
+        }));
 
         const analysis = JSON.parse(
           response.choices[0].message.content || '{}'
@@ -0,0 +1,102 @@
+/**
+ * Hunter Scan Analytics API
+ * Funnel counts per scan, yield and cost per source, and pruning of
+ * low-yield sources from the hunter config
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase-client';
+import { PRUNE_FIELDS, applyPrune, getScanAnalytics, type PruneField } from '@/lib/hunters/scan-analytics';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * Resolve the signed-in user and check they own the project
+ */
+async function authorize(projectId: string | null) {
+  const supabase = await createServerClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  if (!projectId) {
+    return {
+      error: NextResponse.json({ success: false, error: 'projectId is required' }, { status: 400 }),
+    };
+  }
+
+  const { data: project } = await supabase
+    .from('projects')
+    .select('id, owner_id')
+    .eq('id', projectId)
+    .single();
+
+  if (!project || project.owner_id !== user.id) {
+    return { error: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 403 }) };
+  }
+
+  return { user, projectId };
+}
+
+/**
+ * GET /api/hunter/analytics?projectId=...&days=30
+ * Per-scan funnel, per-source yield and cost, and prune recommendations
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const auth = await authorize(searchParams.get('projectId'));
+    if (auth.error) return auth.error;
+
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '30') || 30, 1), 90);
+    const analytics = await getScanAnalytics(auth.projectId, days);
+
+    return NextResponse.json({ success: true, days, ...analytics });
+  } catch (error) {
+    console.error('[Hunter Analytics API] Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load scan analytics' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/hunter/analytics
+ * Body: { projectId, platform, field, value }
+ * Remove a source from the hunter config
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { projectId, platform, field, value } = await request.json();
+    const auth = await authorize(projectId);
+    if (auth.error) return auth.error;
+
+    if (typeof platform !== 'string' || typeof value !== 'string' || !PRUNE_FIELDS.includes(field)) {
+      return NextResponse.json(
+        { success: false, error: `platform, value and field (${PRUNE_FIELDS.join(', ')}) are required` },
+        { status: 400 }
+      );
+    }
+
+    const pruned = await applyPrune(auth.projectId, { platform, field: field as PruneField, value });
+
+    if (!pruned) {
+      return NextResponse.json(
+        { success: false, error: 'Source is not in the hunter config' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Hunter Analytics API] Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to prune source' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Hunter Backfill API
+ * Start, list and cancel historical backfills for a platform
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase-client';
+import { getHunter } from '@/lib/hunters';
+import {
+  DEFAULT_PAGE_DAYS,
+  MAX_BACKFILL_MONTHS,
+  cancelBackfill,
+  countPages,
+  createBackfill,
+  getBackfills,
+} from '@/lib/hunters/backfill';
+import type { PlatformType } from '@/types/hunter';
+
+export const runtime = 'nodejs';
+export const maxDuration = 30;
+
+// Grok-powered platforms need Premium, as for live scans
+const GROK_PLATFORMS = ['twitter', 'g2', 'capterra', 'trustpilot', 'producthunt'];
+
+/**
+ * Resolve the signed-in user and check they own the project
+ */
+async function authorize(projectId: string | null) {
+  const supabase = await createServerClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  if (!projectId) {
+    return {
+      error: NextResponse.json({ success: false, error: 'projectId is required' }, { status: 400 }),
+    };
+  }
+
+  const { data: project } = await supabase
+    .from('projects')
+    .select('id, owner_id, plan')
+    .eq('id', projectId)
+    .single();
+
+  if (!project || project.owner_id !== user.id) {
+    return { error: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 403 }) };
+  }
+
+  return { user, projectId, plan: (project.plan as string) || 'free', supabase };
+}
+
+/**
+ * GET /api/hunter/backfill?projectId=...
+ * Recent backfills with their progress
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const auth = await authorize(searchParams.get('projectId'));
+    if (auth.error) return auth.error;
+
+    const backfills = await getBackfills(auth.projectId);
+
+    return NextResponse.json({
+      success: true,
+      backfills: backfills.map((backfill) => ({ ...backfill, pages_total: countPages(backfill) })),
+    });
+  } catch (error) {
+    console.error('[Hunter Backfill API] Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load backfills' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/hunter/backfill
+ * Body: { projectId, platform, months, pageDays? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { projectId, platform, months, pageDays = DEFAULT_PAGE_DAYS } = await request.json();
+    const auth = await authorize(projectId);
+    if (auth.error) return auth.error;
+
+    if (!Number.isInteger(months) || months < 1 || months > MAX_BACKFILL_MONTHS) {
+      return NextResponse.json(
+        { success: false, error: `months must be a whole number from 1 to ${MAX_BACKFILL_MONTHS}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(pageDays) || pageDays < 1 || pageDays > 31) {
+      return NextResponse.json(
+        { success: false, error: 'pageDays must be a whole number from 1 to 31' },
+        { status: 400 }
+      );
+    }
+
+    const { data: integration } = await auth.supabase
+      .from('platform_integrations')
+      .select('id, status')
+      .eq('project_id', auth.projectId)
+      .eq('platform_type', platform)
+      .maybeSingle();
+
+    if (!integration) {
+      return NextResponse.json(
+        { success: false, error: `No ${platform} integration for this project` },
+        { status: 404 }
+      );
+    }
+
+    let supportsBackfill = false;
+    try {
+      supportsBackfill = getHunter(platform as PlatformType).supportsBackfill;
+    } catch {
+      // Unknown platform
+    }
+
+    if (!supportsBackfill) {
+      return NextResponse.json(
+        { success: false, error: `${platform} can't search historical content` },
+        { status: 400 }
+      );
+    }
+
+    if (GROK_PLATFORMS.includes(platform) && auth.plan !== 'premium') {
+      return NextResponse.json(
+        { success: false, error: `Backfilling ${platform} requires Premium` },
+        { status: 403 }
+      );
+    }
+
+    try {
+      const backfill = await createBackfill({
+        projectId: auth.projectId,
+        platform,
+        months,
+        pageDays,
+        createdBy: auth.user.id,
+      });
+
+      return NextResponse.json({
+        success: true,
+        backfill: { ...backfill, pages_total: countPages(backfill) },
+        message: `Backfill queued. Pages run between live scans.`,
+      });
+    } catch (createError) {
+      return NextResponse.json(
+        { success: false, error: createError instanceof Error ? createError.message : 'Failed to create backfill' },
+        { status: 409 }
+      );
+    }
+  } catch (error) {
+    console.error('[Hunter Backfill API] Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to start backfill' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/hunter/backfill?projectId=...&id=...
+ * Cancel a backfill; the page in flight finishes
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const auth = await authorize(searchParams.get('projectId'));
+    if (auth.error) return auth.error;
+
+    const id = searchParams.get('id');
+    if (!id || !(await cancelBackfill(auth.projectId, id))) {
+      return NextResponse.json(
+        { success: false, error: 'Backfill not found or already finished' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Hunter Backfill API] Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to cancel backfill' },
+      { status: 500 }
+    );
+  }
+}
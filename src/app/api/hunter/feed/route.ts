@@ -64,7 +64,10 @@ export async function GET(request: NextRequest) {
     // Build query
     let query = supabase
       .from('discovered_feedback')
-      .select('*', { count: 'exact' })
+      .select(
+        '*, mentions:discovered_feedback_mentions(id, feedback_id, platform, platform_id, platform_url, author_username, title, engagement_score, match_reason, similarity, discovered_at)',
+        { count: 'exact' }
+      )
       .eq('project_id', projectId)
       .eq('is_duplicate', false)
       .eq('is_archived', false);
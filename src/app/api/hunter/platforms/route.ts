@@ -9,6 +9,7 @@ import {
   AddPlatformRequest,
   UpdatePlatformRequest,
 } from '@/types/hunter';
+import { getNextScanAt, validateSchedule } from '@/lib/hunters/scan-schedule';
 
 export const runtime = 'nodejs';
 export const maxDuration = 30;
@@ -108,7 +109,10 @@ export async function POST(request: NextRequest) {
       projectId,
       platformType,
       config,
-      scanFrequencyMinutes = 15,
+      scanFrequencyMinutes = 480,
+      scanSchedule = null,
+      scheduleTimezone = 'UTC',
+      quietHours = null,
     } = body;
 
     // Validate input
@@ -136,10 +140,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const scheduleError = validateSchedule({ scanSchedule, scheduleTimezone, quietHours });
+    if (scheduleError) {
+      return NextResponse.json(
+        { success: false, error: scheduleError },
+        { status: 400 }
+      );
+    }
+
     // Calculate next scan time
-    const nextScanAt = new Date(
-      Date.now() + scanFrequencyMinutes * 60 * 1000
-    ).toISOString();
+    const nextScanAt = getNextScanAt({
+      scan_frequency_minutes: scanFrequencyMinutes,
+      scan_schedule: scanSchedule,
+      schedule_timezone: scheduleTimezone,
+      quiet_hours: quietHours,
+    }).toISOString();
 
     // Insert or update platform integration
     const { data: integration, error } = await supabase
@@ -151,6 +166,9 @@ export async function POST(request: NextRequest) {
           config,
           status: 'active',
           scan_frequency_minutes: scanFrequencyMinutes,
+          scan_schedule: scanSchedule,
+          schedule_timezone: scheduleTimezone,
+          quiet_hours: quietHours,
           next_scan_at: nextScanAt,
         },
         {
@@ -199,7 +217,7 @@ export async function PUT(request: NextRequest) {
     }
 
     const body = (await request.json()) as UpdatePlatformRequest;
-    const { integrationId, config, status, scanFrequencyMinutes } = body;
+    const { integrationId, config, status, scanFrequencyMinutes, scanSchedule, scheduleTimezone, quietHours } = body;
 
     if (!integrationId) {
       return NextResponse.json(
@@ -211,7 +229,7 @@ export async function PUT(request: NextRequest) {
     // Get existing integration
     const { data: integration } = await supabase
       .from('platform_integrations')
-      .select('project_id')
+      .select('project_id, scan_frequency_minutes, scan_schedule, schedule_timezone, quiet_hours')
       .eq('id', integrationId)
       .single();
 
@@ -249,12 +267,30 @@ export async function PUT(request: NextRequest) {
       updates.status = status;
     }
 
-    if (scanFrequencyMinutes) {
-      updates.scan_frequency_minutes = scanFrequencyMinutes;
+    // Undefined leaves a field as is; null clears the schedule or quiet hours
+    const schedule = {
+      scan_frequency_minutes: scanFrequencyMinutes || integration.scan_frequency_minutes,
+      scan_schedule: scanSchedule !== undefined ? scanSchedule : integration.scan_schedule,
+      schedule_timezone: scheduleTimezone || integration.schedule_timezone,
+      quiet_hours: quietHours !== undefined ? quietHours : integration.quiet_hours,
+    };
+
+    if (scanFrequencyMinutes || scanSchedule !== undefined || scheduleTimezone || quietHours !== undefined) {
+      const scheduleError = validateSchedule({
+        scanSchedule: schedule.scan_schedule,
+        scheduleTimezone: schedule.schedule_timezone,
+        quietHours: schedule.quiet_hours,
+      });
+      if (scheduleError) {
+        return NextResponse.json(
+          { success: false, error: scheduleError },
+          { status: 400 }
+        );
+      }
+
+      Object.assign(updates, schedule);
       // Recalculate next scan time
-      updates.next_scan_at = new Date(
-        Date.now() + scanFrequencyMinutes * 60 * 1000
-      ).toISOString();
+      updates.next_scan_at = getNextScanAt(schedule).toISOString();
     }
 
     // Update integration
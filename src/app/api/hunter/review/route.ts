@@ -0,0 +1,138 @@
+/**
+ * Hunter Review Queue API
+ * Items the relevance filter sent to human review, and reviewer decisions
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase-client';
+import {
+  getProjectThresholds,
+  getReviewQueue,
+  resolveReview,
+  ReviewAlreadyResolvedError,
+  type ReviewStatus,
+} from '@/lib/hunters/review-queue';
+import { DEFAULT_RELEVANCE_THRESHOLDS } from '@/lib/hunters/relevance-filter';
+import { aiBudgetExceededResponse } from '@/lib/ai/budget-response';
+import { AIBudgetExceededError } from '@/lib/ai/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'included', 'excluded'];
+
+/**
+ * Resolve the signed-in user and check they own the project
+ */
+async function authorize(projectId: string | null) {
+  const supabase = await createServerClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  if (!projectId) {
+    return {
+      error: NextResponse.json({ success: false, error: 'projectId is required' }, { status: 400 }),
+    };
+  }
+
+  const { data: project } = await supabase
+    .from('projects')
+    .select('id, owner_id')
+    .eq('id', projectId)
+    .single();
+
+  if (!project || project.owner_id !== user.id) {
+    return { error: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 403 }) };
+  }
+
+  return { user, projectId };
+}
+
+/**
+ * GET /api/hunter/review?projectId=...&status=pending
+ * List review items with the filter's reasoning, plus current thresholds
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const auth = await authorize(searchParams.get('projectId'));
+    if (auth.error) return auth.error;
+
+    const status = (searchParams.get('status') || 'pending') as ReviewStatus;
+    if (!REVIEW_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: 'status must be pending, included or excluded' },
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 100);
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    const [{ items, total }, thresholds] = await Promise.all([
+      getReviewQueue(auth.projectId, { status, limit, offset }),
+      getProjectThresholds(auth.projectId),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      items,
+      total,
+      thresholds: thresholds || { ...DEFAULT_RELEVANCE_THRESHOLDS, labelledCount: 0, updatedAt: null },
+    });
+  } catch (error) {
+    console.error('[Review Queue API] Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load review queue' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/hunter/review
+ * Body: { projectId, id, decision: 'include' | 'exclude' }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { projectId, id, decision } = await request.json();
+    const auth = await authorize(projectId);
+    if (auth.error) return auth.error;
+
+    if (!id || !['include', 'exclude'].includes(decision)) {
+      return NextResponse.json(
+        { success: false, error: 'id and decision ("include" or "exclude") are required' },
+        { status: 400 }
+      );
+    }
+
+    const resolved = await resolveReview(auth.projectId, id, decision, auth.user.id);
+
+    if (!resolved) {
+      return NextResponse.json(
+        { success: false, error: 'Review item not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, item: resolved });
+  } catch (error) {
+    if (error instanceof ReviewAlreadyResolvedError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+    if (error instanceof AIBudgetExceededError) {
+      return aiBudgetExceededResponse(error);
+    }
+    console.error('[Review Queue API] Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to process review' },
+      { status: 500 }
+    );
+  }
+}
@@ -46,8 +46,13 @@ export async function POST(request: NextRequest) {
       websiteUrl,
       socialHandles,
       excludeTerms = [],
+      dedupSimilarityThreshold,
       // Platform-specific config
       redditSubreddits = [],
+      appstoreAppId,
+      appstoreCountries = [],
+      githubRepos = [],
+      stackexchangeTags = [],
     } = body;
 
     // Validate input
@@ -61,6 +66,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (
+      dedupSimilarityThreshold !== undefined &&
+      !(dedupSimilarityThreshold >= 0.5 && dedupSimilarityThreshold <= 1)
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'dedupSimilarityThreshold must be between 0.5 and 1',
+        },
+        { status: 400 }
+      );
+    }
+
     if (!platforms || platforms.length === 0) {
       return NextResponse.json(
         {
@@ -112,6 +130,9 @@ export async function POST(request: NextRequest) {
           website_url: websiteUrl,
           social_handles: socialHandles,
           exclude_terms: excludeTerms,
+          ...(dedupSimilarityThreshold !== undefined && {
+            dedup_similarity_threshold: dedupSimilarityThreshold,
+          }),
           updated_at: new Date().toISOString(),
         })
         .eq('id', existingConfig.id)
@@ -142,6 +163,9 @@ export async function POST(request: NextRequest) {
           website_url: websiteUrl,
           social_handles: socialHandles,
           exclude_terms: excludeTerms,
+          ...(dedupSimilarityThreshold !== undefined && {
+            dedup_similarity_threshold: dedupSimilarityThreshold,
+          }),
           is_active: true,
         })
         .select('id')
@@ -163,6 +187,21 @@ export async function POST(request: NextRequest) {
         platformConfig.subreddits = redditSubreddits;
       }
 
+      if (platform === 'appstore' && appstoreAppId) {
+        platformConfig.appstore_app_id = appstoreAppId;
+        if (appstoreCountries.length > 0) {
+          platformConfig.appstore_countries = appstoreCountries;
+        }
+      }
+
+      if (platform === 'github' && githubRepos.length > 0) {
+        platformConfig.github_repos = githubRepos;
+      }
+
+      if (platform === 'stackexchange' && stackexchangeTags.length > 0) {
+        platformConfig.stackexchange_tags = stackexchangeTags;
+      }
+
       const { error: platformError } = await supabase
         .from('platform_integrations')
         .upsert(
@@ -171,7 +210,7 @@ export async function POST(request: NextRequest) {
             platform_type: platform,
             config: platformConfig,
             status: 'setup',
-            scan_frequency_minutes: 15,
+            scan_frequency_minutes: 480,
           },
           {
             onConflict: 'project_id,platform_type',
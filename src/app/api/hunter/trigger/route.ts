@@ -128,9 +128,9 @@ export async function POST(request: NextRequest) {
 
     // === Plan-based platform filtering ===
     // Grok-powered platforms (expensive): twitter, g2, capterra, trustpilot, producthunt
-    // Non-Grok platforms (cheap): reddit, hackernews, playstore
+    // Non-Grok platforms (cheap): reddit, hackernews, playstore, appstore, github, stackexchange
     const GROK_PLATFORMS = ['twitter', 'g2', 'capterra', 'trustpilot', 'producthunt'];
-    const NON_GROK_PLATFORMS = ['reddit', 'hackernews', 'playstore'];
+    const NON_GROK_PLATFORMS = ['reddit', 'hackernews', 'playstore', 'appstore', 'github', 'stackexchange'];
 
     // Get project plan
     const { data: projectPlan } = await supabase
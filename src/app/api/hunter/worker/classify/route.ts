@@ -17,11 +17,19 @@ import {
     updatePlatformStatus,
     checkScanComplete,
     createJob,
+    markItemStored,
+    recordScanUsage,
 } from '@/lib/hunters/job-queue';
 import { getServiceRoleClient } from '@/lib/supabase-singleton';
 import { extractCompetitorMentions } from '@/lib/competitive-intelligence';
 import { checkAIUsageLimit, incrementAIUsage } from '@/lib/ai-rate-limit';
-import OpenAI from 'openai';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
+import { aiBudgetExceededResponse } from '@/lib/ai/budget-response';
+import { AIBudgetExceededError } from '@/lib/ai/types';
+import { applyLabelClassification, classifyItem, storeClassifiedItem } from '@/lib/hunters/feedback-store';
+import { getSimilarityThreshold } from '@/lib/hunters/deduplication';
+import type { HunterApiUsage } from '@/types/hunter';
+import { getOpenAI } from '@/lib/openai-client';
 
 export const maxDuration = 300;
 export const dynamic = 'force-dynamic';
@@ -65,58 +73,57 @@ export async function POST() {
 
         console.log(`[Classify Worker] Classifying ${items.length} items for ${job.platform}`);
 
-        const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+        const openai = getOpenAI('hunter_scan');
+        const similarityThreshold = await getSimilarityThreshold(supabase, job.project_id);
+        const usage: HunterApiUsage[] = [];
         let classifiedCount = 0;
+        let budgetError: AIBudgetExceededError | null = null;
 
         // Classify each item
         for (const item of items) {
             try {
-                const classification = await classifyItem(openai, item.content, item.title);
-                await updateItemClassification(item.id, classification);
-
-                // Store in discovered_feedback (final table)
-                const { error: storeError } = await supabase
-                    .from('discovered_feedback')
-                    .upsert({
-                        project_id: job.project_id,
-                        platform: job.platform,
-                        platform_id: item.external_id || item.id,
-                        platform_url: item.external_url || '',
-                        title: item.title,
-                        content: item.content,
-                        author_username: item.author,
-                        discovered_at: item.posted_at || item.created_at || new Date().toISOString(),
-                        // Use correct column names from schema
-                        classification: classification.classification,
-                        classification_confidence: classification.confidence || 0.5,
-                        classification_reason: classification.quotable || null,
-                        sentiment_score: classification.sentiment || 0,
-                        urgency_score: classification.urgency || 1,
-                        urgency_reason: classification.action_needed ? 'Action needed' : null,
-                        tags: classification.tags || [],
-                        processed_at: new Date().toISOString(),
-                        // Required for feed query to find items
-                        is_duplicate: false,
-                        is_archived: false,
-                        // Flag for human review if relevance filter marked it
-                        needs_review: item.relevance_decision === 'human_review',
-                    }, {
-                        onConflict: 'project_id,platform,platform_id',
-                    });
-
-                if (storeError) {
-                    console.error(`[Classify Worker] Error storing item:`, storeError);
-                } else {
+                const itemUsage: HunterApiUsage[] = [];
+
+                // Store in discovered_feedback (final table), or link to a semantic duplicate
+                const storedId = await withAICostContext(
+                    { projectId: job.project_id, feature: 'hunter_scan' },
+                    () => storeClassifiedItem(supabase, item, async () => {
+                        const classification = applyLabelClassification(
+                            item,
+                            await classifyItem(openai, item.content, item.title, itemUsage)
+                        );
+                        await updateItemClassification(item.id, classification);
+                        return classification;
+                    }, similarityThreshold, itemUsage)
+                );
+                usage.push(...itemUsage.map(entry => ({ ...entry, source: item.source || undefined })));
+                if (storedId) {
+                    await markItemStored(item.id);
                     classifiedCount++;
                 }
             } catch (error) {
+                if (error instanceof AIBudgetExceededError) {
+                    // Every remaining item would fail the same way
+                    budgetError = error;
+                    break;
+                }
                 console.error(`[Classify Worker] Error classifying item ${item.id}:`, error);
             }
         }
 
+        await recordScanUsage(job.scan_id, job.project_id, job.platform, 'classify', usage);
+
         // Update scan stats
         await updateScanStats(job.scan_id, { classified: classifiedCount });
 
+        if (budgetError) {
+            console.warn(`[Classify Worker] AI budget exhausted for project ${job.project_id}, stopping ${job.platform}`);
+            await failJob(job.id, budgetError.message, false);
+            await updatePlatformStatus(job.scan_id, job.platform, 'failed');
+            await checkScanComplete(job.scan_id);
+            return aiBudgetExceededResponse(budgetError);
+        }
+
         // Mark this job complete
         await completeJob(job.id);
 
@@ -158,81 +165,6 @@ export async function POST() {
     }
 }
 
-/**
- * Classify a single feedback item
- */
-async function classifyItem(
-    openai: OpenAI,
-    content: string,
-    title?: string | null
-): Promise<Record<string, unknown>> {
-    const systemPrompt = `Classify this product feedback. Return JSON only.
-
-CLASSIFICATION (pick ONE):
-- bug: broken, errors, crashes
-- feature_request: "I wish", "please add"
-- usability_issue: works but confusing
-- praise: positive, recommendation
-- complaint: negative without specific bug
-- comparison: mentions competitors
-- question: "how do I", "can it do"
-- churn_risk: "thinking of switching"
-- other: doesn't fit above
-
-URGENCY (1-5):
-5: Data loss, security, viral complaint
-4: Major bug, workflow blocked
-3: Feature request with traction
-2: Minor suggestion
-1: Pure praise
-
-SENTIMENT (-1 to +1):
--1 to -0.5: Very negative
--0.5 to 0: Negative  
-0 to 0.5: Positive
-0.5 to 1: Very positive
-
-OUTPUT JSON:
-{
-  "classification": "feature_request",
-  "confidence": 0.9,
-  "urgency": 3,
-  "sentiment": 0.3,
-  "tags": ["integrations", "slack"],
-  "quotable": "Best quote from feedback",
-  "action_needed": true
-}`;
-
-    const userPrompt = `Classify this feedback:
-
-${title ? `Title: ${title}\n` : ''}Content: ${content}`;
-
-    try {
-        const response = await openai.chat.completions.create({
-            model: 'gpt-4o-mini',
-            messages: [
-                { role: 'system', content: systemPrompt },
-                { role: 'user', content: userPrompt },
-            ],
-            response_format: { type: 'json_object' },
-            temperature: 0.3,
-        });
-
-        const result = JSON.parse(response.choices[0].message.content || '{}');
-        return result;
-    } catch (error) {
-        console.error('[Classify Worker] OpenAI error:', error);
-        return {
-            classification: 'other',
-            confidence: 0,
-            urgency: 1,
-            sentiment: 0,
-            tags: [],
-            error: 'Classification failed',
-        };
-    }
-}
-
 /**
  * Trigger Competitive Intelligence extraction for newly imported feedback
  * Runs in the background after Hunter completes - respects tier limits
@@ -1,15 +1,21 @@
 /**
  * Cleanup Worker
- * Recovers stale jobs from crashed workers
+ * Recovers stale jobs from crashed workers and indexes a batch of stored
+ * feedback that predates semantic dedupe embeddings
  * Triggered by cron every 5 minutes
  */
 
 import { NextResponse } from 'next/server';
 import { recoverStaleJobs } from '@/lib/hunters/job-queue';
+import { backfillFeedbackEmbeddings } from '@/lib/hunters/deduplication';
+import { getServiceRoleClient } from '@/lib/supabase-singleton';
 
 export const maxDuration = 10;
 export const dynamic = 'force-dynamic';
 
+// Embeddings backfilled per run; one batched embedding call per project
+const EMBEDDING_BACKFILL_BATCH = 50;
+
 export async function GET() {
     return POST();
 }
@@ -24,9 +30,19 @@ export async function POST() {
             console.log(`[Cleanup Worker] Recovered ${recoveredCount} stale jobs`);
         }
 
+        const supabase = getServiceRoleClient();
+        const embeddedCount = supabase
+            ? await backfillFeedbackEmbeddings(supabase, EMBEDDING_BACKFILL_BATCH)
+            : 0;
+
+        if (embeddedCount > 0) {
+            console.log(`[Cleanup Worker] Backfilled ${embeddedCount} feedback embeddings`);
+        }
+
         return NextResponse.json({
             success: true,
             recovered: recoveredCount,
+            embedded: embeddedCount,
         });
     } catch (error) {
         console.error('[Cleanup Worker] Error:', error);
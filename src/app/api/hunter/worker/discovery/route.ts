@@ -14,6 +14,10 @@ import {
     updateScanStats,
     updatePlatformStatus,
     updatePlatformIntegrationStats,
+    updatePlatformSyncState,
+    recordScanUsage,
+    getScan,
+    checkScanComplete,
 } from '@/lib/hunters/job-queue';
 import { getHunter } from '@/lib/hunters';
 import { getServiceRoleClient } from '@/lib/supabase-singleton';
@@ -101,6 +105,20 @@ export async function POST() {
         // Run discovery
         const hunter = getHunter(job.platform as PlatformType);
 
+        // Backfill pages search one historical window instead of recent content
+        const scan = await getScan(job.scan_id);
+        const huntWindow = scan?.mode === 'backfill' && scan.window_start && scan.window_end
+            ? { since: new Date(scan.window_start), until: new Date(scan.window_end) }
+            : undefined;
+
+        if (scan?.mode === 'backfill' && (!huntWindow || !hunter.supportsBackfill)) {
+            console.error(`[Discovery Worker] FAILED: ${job.platform} can't run backfill scan ${job.scan_id}`);
+            await failJob(job.id, `${job.platform} does not support backfill`, false);
+            await updatePlatformStatus(job.scan_id, job.platform, 'failed');
+            await checkScanComplete(job.scan_id);
+            return NextResponse.json({ processed: 0, error: 'Backfill not supported' });
+        }
+
         const hunterConfig = {
             project_id: job.project_id,
             company_name: config.company_name,
@@ -121,6 +139,7 @@ export async function POST() {
             project_id: integration.project_id,
             status: integration.status,
             config: integration.config || {},
+            sync_state: integration.sync_state || {},
         } as any;
 
         console.log(`[Discovery Worker] Running hunt for ${job.platform}...`);
@@ -138,6 +157,7 @@ export async function POST() {
                 projectId: job.project_id,
                 jobType: 'relevance',
                 platform: job.platform,
+                priority: job.priority,
             });
             return NextResponse.json({
                 processed: 1,
@@ -152,7 +172,7 @@ export async function POST() {
         let huntError: Error | null = null;
 
         try {
-            const huntPromise = hunter.hunt(hunterConfig, platformIntegration);
+            const huntPromise = hunter.hunt(hunterConfig, platformIntegration, huntWindow);
             const timeoutPromise = new Promise<never>((_, reject) =>
                 setTimeout(() => reject(new Error('Hunt timeout')), HUNT_TIMEOUT)
             );
@@ -200,7 +220,11 @@ export async function POST() {
                     raw_metadata: {
                         engagement_metrics: item.engagement_metrics,
                         author_profile_url: item.author_profile_url,
+                        labels: item.labels,
+                        label_classification: item.label_classification,
+                        duplicate_of: item.duplicate_of,
                     },
+                    source: item.source,
                 }))
             );
 
@@ -209,6 +233,16 @@ export async function POST() {
             console.log(`[Discovery Worker] Stored ${storedCount} items in staging`);
         }
 
+        // Grok calls made during the hunt, for scan cost analytics
+        await recordScanUsage(job.scan_id, job.project_id, job.platform, 'discovery', hunter.takeApiUsage());
+
+        // Advance incremental cursors only once the items they cover are stored
+        // (backfill pages never move the live cursors)
+        const syncState = hunter.takeStagedSyncState();
+        if (syncState && !huntError && !huntWindow) {
+            await updatePlatformSyncState(integration.id, syncState);
+        }
+
         // Create relevance job if we found items
         if (rawFeedback.length > 0) {
             await createJob({
@@ -216,6 +250,7 @@ export async function POST() {
                 projectId: job.project_id,
                 jobType: 'relevance',
                 platform: job.platform,
+                priority: job.priority,
             });
             console.log(`[Discovery Worker] Created relevance job for ${job.platform}`);
         }
@@ -225,6 +260,11 @@ export async function POST() {
         await updatePlatformStatus(job.scan_id, job.platform, 'discovered');
         await updatePlatformIntegrationStats(job.project_id, job.platform, rawFeedback.length, true);
 
+        // With nothing to filter, no later stage will close out the scan
+        if (rawFeedback.length === 0) {
+            await checkScanComplete(job.scan_id);
+        }
+
         return NextResponse.json({
             processed: 1,
             platform: job.platform,
@@ -14,11 +14,16 @@ import {
     updateItemRelevance,
     updateScanStats,
     updatePlatformStatus,
+    recordScanUsage,
 } from '@/lib/hunters/job-queue';
 import { getServiceRoleClient } from '@/lib/supabase-singleton';
 import { filterByRelevance } from '@/lib/hunters/relevance-filter';
 import { buildProductContext } from '@/lib/hunters/product-context';
+import { enqueueForReview, getRelevanceCalibration } from '@/lib/hunters/review-queue';
 import type { RawFeedback, PlatformType } from '@/types/hunter';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
+import { aiBudgetExceededResponse } from '@/lib/ai/budget-response';
+import { AIBudgetExceededError } from '@/lib/ai/types';
 
 export const maxDuration = 300;
 export const dynamic = 'force-dynamic';
@@ -103,19 +108,38 @@ export async function POST() {
             discovered_at: new Date(item.created_at),
         }));
 
+        // Per-project thresholds and reviewer examples from the review queue
+        const calibration = await getRelevanceCalibration(job.project_id);
+
         // Run relevance filter with timeout
-        const filterPromise = filterByRelevance(rawFeedback, context);
+        const filterPromise = withAICostContext(
+            { projectId: job.project_id, feature: 'hunter_scan' },
+            () => filterByRelevance(rawFeedback, context, calibration)
+        );
         const timeoutPromise = new Promise<null>((_, reject) =>
             setTimeout(() => reject(new Error('Relevance filter timeout')), 240000)
         );
 
-        const result = await Promise.race([filterPromise, timeoutPromise]);
+        let result: Awaited<typeof filterPromise> | null;
+        try {
+            result = await Promise.race([filterPromise, timeoutPromise]);
+        } catch (error) {
+            if (!(error instanceof AIBudgetExceededError)) throw error;
+            console.warn(`[Relevance Worker] AI budget exhausted for project ${job.project_id}, stopping ${job.platform}`);
+            await failJob(job.id, error.message, false);
+            await updatePlatformStatus(job.scan_id, job.platform, 'failed');
+            const { checkScanComplete } = await import('@/lib/hunters/job-queue');
+            await checkScanComplete(job.scan_id);
+            return aiBudgetExceededResponse(error);
+        }
 
         if (!result) {
             await failJob(job.id, 'Relevance filter timeout');
             return NextResponse.json({ processed: 0, error: 'Timeout' });
         }
 
+        await recordScanUsage(job.scan_id, job.project_id, job.platform, 'relevance', result.usage || []);
+
         // Update items with relevance scores
         // FilterBatchResult has: included, excluded, needsReview arrays
         let relevantCount = 0;
@@ -137,8 +161,17 @@ export async function POST() {
             }
         }
 
-        // Process needsReview items
+        // Process needsReview items - held for a reviewer, not classified.
+        // Items the filter could not score stay discovered for a retry, so
+        // placeholder scores never reach reviewers or threshold calibration.
+        let reviewCount = 0;
+        let deferredCount = 0;
         for (const itemResult of result.needsReview) {
+            if (itemResult.deferred) {
+                deferredCount++;
+                continue;
+            }
+
             const originalItem = items.find(i =>
                 i.external_id === itemResult.item.platform_id || i.id === itemResult.item.platform_id
             );
@@ -150,7 +183,8 @@ export async function POST() {
                     'human_review',
                     itemResult.reasoning
                 );
-                relevantCount++;
+                await enqueueForReview(originalItem, itemResult);
+                reviewCount++;
             }
         }
 
@@ -180,10 +214,30 @@ export async function POST() {
                 projectId: job.project_id,
                 jobType: 'classify',
                 platform: job.platform,
+                priority: job.priority,
             });
             console.log(`[Relevance Worker] Created classify job for ${job.platform}`);
         }
 
+        if (deferredCount > 0) {
+            // Retried with backoff and picks up the items still discovered
+            await failJob(job.id, `Relevance scoring deferred for ${deferredCount} items`);
+            if (job.attempts >= job.max_attempts) {
+                await updatePlatformStatus(job.scan_id, job.platform, 'failed');
+                const { checkScanComplete } = await import('@/lib/hunters/job-queue');
+                await checkScanComplete(job.scan_id);
+            }
+            console.log(`[Relevance Worker] Deferred ${deferredCount} ${job.platform} items`);
+            return NextResponse.json({
+                processed: 1,
+                platform: job.platform,
+                total: items.length,
+                relevant: relevantCount,
+                needsReview: reviewCount,
+                deferred: deferredCount,
+            });
+        }
+
         // Mark job complete
         await completeJob(job.id);
 
@@ -197,6 +251,7 @@ export async function POST() {
                 projectId: job.project_id,
                 jobType: 'relevance',
                 platform: job.platform,
+                priority: job.priority,
             });
             console.log(`[Relevance Worker] Created follow-up relevance job for ${job.platform} (${remainingItems.length}+ items remaining)`);
         } else {
@@ -204,13 +259,14 @@ export async function POST() {
             await updatePlatformStatus(job.scan_id, job.platform, 'filtered');
         }
 
-        console.log(`[Relevance Worker] Filtered ${items.length} items, ${relevantCount} relevant`);
+        console.log(`[Relevance Worker] Filtered ${items.length} items, ${relevantCount} relevant, ${reviewCount} for review`);
 
         return NextResponse.json({
             processed: 1,
             platform: job.platform,
             total: items.length,
             relevant: relevantCount,
+            needsReview: reviewCount,
         });
     } catch (error) {
         console.error('[Relevance Worker] Error:', error);
@@ -0,0 +1,130 @@
+/**
+ * Feedback Import API Route
+ * Preview, remap and commit an uploaded import
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase-client';
+import { FeedbackImporter, ImportFileError } from '@/lib/inbox/feedback-import';
+import type { ImportDateFormat } from '@/lib/inbox/types';
+
+interface RouteParams {
+    params: Promise<{ importId: string }>;
+}
+
+const DATE_FORMATS: ImportDateFormat[] = ['iso', 'ymd', 'mdy', 'dmy', 'unix_seconds', 'unix_ms', 'auto'];
+
+/**
+ * GET /api/inbox/import/:importId
+ * The current preview
+ */
+export async function GET(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+    try {
+        const { importId } = await params;
+        const supabase = await createServerClient();
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const preview = await new FeedbackImporter().previewImport(importId, user.id);
+
+        if (!preview) {
+            return NextResponse.json({ error: 'Import not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ preview });
+
+    } catch (error) {
+        console.error('[Import] Get preview error:', error);
+        return NextResponse.json(
+            { error: 'Failed to load import' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PATCH /api/inbox/import/:importId
+ * Body: { mapping?, dateFormat? } - returns the preview with the new mapping
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+    try {
+        const { importId } = await params;
+        const supabase = await createServerClient();
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { mapping, dateFormat } = await request.json();
+
+        if (dateFormat && !DATE_FORMATS.includes(dateFormat)) {
+            return NextResponse.json(
+                { error: `dateFormat must be one of ${DATE_FORMATS.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const preview = await new FeedbackImporter().previewImport(importId, user.id, { mapping, dateFormat });
+
+        if (!preview) {
+            return NextResponse.json({ error: 'Import not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ preview });
+
+    } catch (error) {
+        if (error instanceof ImportFileError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+
+        console.error('[Import] Update mapping error:', error);
+        return NextResponse.json(
+            { error: 'Failed to update import' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/inbox/import/:importId
+ * Commit the import. Rows already imported into the project are skipped,
+ * so retrying is safe.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+    try {
+        const { importId } = await params;
+        const supabase = await createServerClient();
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const result = await new FeedbackImporter().commitImport(importId, user.id);
+
+        if (!result) {
+            return NextResponse.json({ error: 'Import not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            success: result.errors.length === 0,
+            message: `Imported ${result.imported} items, skipped ${result.duplicates + result.invalid}`,
+            ...result,
+        });
+
+    } catch (error) {
+        if (error instanceof ImportFileError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+
+        console.error('[Import] Commit error:', error);
+        return NextResponse.json(
+            { error: 'Import failed' },
+            { status: 500 }
+        );
+    }
+}
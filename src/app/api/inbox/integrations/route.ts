@@ -6,6 +6,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase-client';
 import { SyncOrchestrator } from '@/lib/inbox/sync-orchestrator';
+import { inboundAddressConfig } from '@/lib/inbox/syncers/inbound-email-syncer';
 import { IntegrationType } from '@/lib/inbox/types';
 
 export async function GET(request: NextRequest) {
@@ -57,13 +58,18 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    // Inbound email integrations get their feedback+<token>@ address here
+    const integrationConfig = integrationType === 'email_inbound'
+      ? { ...config, ...inboundAddressConfig() }
+      : config || {};
+    
     const orchestrator = new SyncOrchestrator();
     const integration = await orchestrator.createIntegration(
       projectId,
       integrationType as IntegrationType,
       displayName || integrationType,
       credentials || {},
-      config || {}
+      integrationConfig
     );
     
     if (!integration) {
@@ -0,0 +1,155 @@
+/**
+ * API: Reply to Inbox Item
+ * Send a reply back to the channel an item came from (Slack, Discord,
+ * Intercom, Gmail, Outlook), optionally seeded from smart replies
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase-client';
+import { InboxService } from '@/lib/inbox/inbox-service';
+import { SyncOrchestrator } from '@/lib/inbox/sync-orchestrator';
+import { generateSmartReplies } from '@/lib/enhanced-smart-replies';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
+import type { UnifiedFeedbackItem } from '@/lib/inbox/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 30;
+
+interface RouteParams {
+  params: Promise<{ itemId: string }>;
+}
+
+const MAX_REPLY_LENGTH = 10000;
+
+// Smart replies group feedback into their own category names
+const SMART_REPLY_CATEGORIES: Record<string, string> = {
+  bug: 'bug',
+  feature_request: 'feature',
+  complaint: 'improvement',
+};
+
+/**
+ * Draft a reply around the first suggested follow-up question
+ */
+function buildDraft(item: UnifiedFeedbackItem, suggestions: string[]): string {
+  const firstName = item.authorName?.split(' ')[0];
+  const greeting = firstName ? `Hi ${firstName},` : 'Hi,';
+  const followUp = suggestions[0] ? `\n\n${suggestions[0]}` : '';
+  return `${greeting}\n\nThanks for the feedback!${followUp}`;
+}
+
+/**
+ * GET /api/inbox/items/:itemId/reply?suggest=true
+ * Whether the item can be replied to, with smart-reply suggestions on request
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { itemId } = await params;
+    const supabase = await createServerClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const inboxService = new InboxService(supabase);
+    const item = await inboxService.getItem(itemId);
+
+    if (!item) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    const orchestrator = new SyncOrchestrator();
+    const supported = !!item.integrationId && orchestrator.supportsReply(item.sourceType);
+
+    let suggestions: string[] = [];
+    if (supported && request.nextUrl.searchParams.get('suggest') === 'true') {
+      const plan = item.customer?.planName?.toLowerCase();
+      const replies = await withAICostContext({ projectId: item.projectId }, () => generateSmartReplies({
+        title: item.title || item.aiSummary || item.content.slice(0, 120),
+        description: item.contentPlain || item.content,
+        category: SMART_REPLY_CATEGORIES[item.category || ''] || 'general',
+        userTier: plan === 'enterprise' || plan === 'pro' ? plan : 'free',
+      }));
+      suggestions = replies.map(reply => reply.text);
+    }
+
+    return NextResponse.json({
+      supported,
+      via: supported ? item.sourceType : null,
+      suggestions,
+      draft: suggestions.length > 0 ? buildDraft(item, suggestions) : null,
+    });
+
+  } catch (error) {
+    console.error('[API] Get inbox reply options error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load reply options' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/inbox/items/:itemId/reply
+ * Body: { content }
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { itemId } = await params;
+    const supabase = await createServerClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { content } = await request.json();
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json({ error: 'Reply content required' }, { status: 400 });
+    }
+
+    if (content.length > MAX_REPLY_LENGTH) {
+      return NextResponse.json(
+        { error: `Replies are limited to ${MAX_REPLY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    // Loading through the user's client checks they can see the item
+    const inboxService = new InboxService(supabase);
+    const item = await inboxService.getItem(itemId);
+
+    if (!item) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    const orchestrator = new SyncOrchestrator();
+
+    if (!orchestrator.supportsReply(item.sourceType)) {
+      return NextResponse.json(
+        { error: `Replying isn't supported for ${item.sourceType}` },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const delivery = await orchestrator.sendReply(item, user.id, content.trim());
+      const updatedItem = await inboxService.getItem(itemId);
+      return NextResponse.json({ item: updatedItem, delivery });
+    } catch (sendError) {
+      return NextResponse.json(
+        { error: sendError instanceof Error ? sendError.message : 'Failed to send reply' },
+        { status: 502 }
+      );
+    }
+
+  } catch (error) {
+    console.error('[API] Send inbox reply error:', error);
+    return NextResponse.json(
+      { error: 'Failed to send reply' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * API: Inbox Item Timeline
+ * Replies and other activity recorded against an inbox item
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase-client';
+import { InboxService } from '@/lib/inbox/inbox-service';
+
+interface RouteParams {
+  params: Promise<{ itemId: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { itemId } = await params;
+    const supabase = await createServerClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const inboxService = new InboxService(supabase);
+    const item = await inboxService.getItem(itemId);
+
+    if (!item) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    const events = await inboxService.getTimeline(itemId);
+
+    return NextResponse.json({ events });
+
+  } catch (error) {
+    console.error('[API] Get inbox item timeline error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch timeline' },
+      { status: 500 }
+    );
+  }
+}
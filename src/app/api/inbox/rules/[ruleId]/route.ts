@@ -0,0 +1,91 @@
+/**
+ * API: Single Inbox Routing Rule
+ * Update or delete a routing rule
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase-client';
+import { RoutingEngine, validateRule } from '@/lib/inbox/routing-rules';
+
+interface RouteParams {
+  params: Promise<{ ruleId: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { ruleId } = await params;
+    const supabase = await createServerClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const input = await request.json();
+
+    const validationError = validateRule(input, true);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const engine = new RoutingEngine(supabase);
+    const existing = await engine.getRule(ruleId);
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+
+    if (input.actions) {
+      const invalidAssignees = await engine.findInvalidAssignees(existing.projectId, input.actions);
+      if (invalidAssignees.length > 0) {
+        return NextResponse.json(
+          { error: `Not a member of this project: ${invalidAssignees.join(', ')}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const rule = await engine.updateRule(ruleId, input);
+
+    if (!rule) {
+      return NextResponse.json({ error: 'Operation failed' }, { status: 500 });
+    }
+
+    return NextResponse.json({ rule });
+
+  } catch (error) {
+    console.error('[API] Update routing rule error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update routing rule' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { ruleId } = await params;
+    const supabase = await createServerClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const engine = new RoutingEngine(supabase);
+    const success = await engine.deleteRule(ruleId);
+
+    if (!success) {
+      return NextResponse.json({ error: 'Operation failed' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('[API] Delete routing rule error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete routing rule' },
+      { status: 500 }
+    );
+  }
+}
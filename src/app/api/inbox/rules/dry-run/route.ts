@@ -0,0 +1,58 @@
+/**
+ * API: Routing Rule Dry Run
+ * Show which historical inbox items a rule would have matched, without
+ * applying any of its actions
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase-client';
+import { RoutingEngine, validateRule } from '@/lib/inbox/routing-rules';
+
+/**
+ * POST /api/inbox/rules/dry-run
+ * Body: { projectId, ruleId } for a saved rule, or
+ *       { projectId, conditions, actions? } for a draft; optional days (max 90)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { projectId, ruleId, conditions, actions = [], days = 30 } = await request.json();
+
+    if (!projectId) {
+      return NextResponse.json({ error: 'Project ID required' }, { status: 400 });
+    }
+
+    const engine = new RoutingEngine(supabase);
+    let rule = { conditions, actions };
+
+    if (ruleId) {
+      const saved = await engine.getRule(ruleId);
+      if (!saved || saved.projectId !== projectId) {
+        return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+      }
+      rule = { conditions: saved.conditions, actions: saved.actions };
+    } else {
+      const validationError = validateRule({ conditions }, true);
+      if (!conditions || validationError) {
+        return NextResponse.json({ error: validationError || 'conditions are required' }, { status: 400 });
+      }
+    }
+
+    const result = await engine.dryRun(projectId, rule, Number(days) || 30);
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('[API] Routing rule dry run error:', error);
+    return NextResponse.json(
+      { error: 'Failed to run routing rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * API: Inbox Routing Rules
+ * List and create a project's routing rules
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase-client';
+import { RoutingEngine, validateRule } from '@/lib/inbox/routing-rules';
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createServerClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const projectId = request.nextUrl.searchParams.get('projectId');
+
+    if (!projectId) {
+      return NextResponse.json({ error: 'Project ID required' }, { status: 400 });
+    }
+
+    const engine = new RoutingEngine(supabase);
+    const rules = await engine.listRules(projectId);
+
+    return NextResponse.json({ rules });
+
+  } catch (error) {
+    console.error('[API] Get routing rules error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch routing rules' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { projectId, ...input } = await request.json();
+
+    if (!projectId) {
+      return NextResponse.json({ error: 'Project ID required' }, { status: 400 });
+    }
+
+    const validationError = validateRule(input);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const engine = new RoutingEngine(supabase);
+
+    const invalidAssignees = await engine.findInvalidAssignees(projectId, input.actions);
+    if (invalidAssignees.length > 0) {
+      return NextResponse.json(
+        { error: `Not a member of this project: ${invalidAssignees.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const rule = await engine.createRule(projectId, input, user.id);
+
+    if (!rule) {
+      return NextResponse.json(
+        { error: 'Failed to create routing rule' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ rule }, { status: 201 });
+
+  } catch (error) {
+    console.error('[API] Create routing rule error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create routing rule' },
+      { status: 500 }
+    );
+  }
+}
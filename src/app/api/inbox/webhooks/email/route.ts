@@ -0,0 +1,86 @@
+/**
+ * API: Inbound Email Webhook
+ * Receives raw MIME messages sent to a project's feedback+<token>@ address.
+ * The mail provider posts the message as the request body, signed with
+ * INBOUND_EMAIL_WEBHOOK_SECRET in the x-inbound-signature header. The
+ * envelope recipient may be passed as ?recipient= when the provider has it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SyncOrchestrator } from '@/lib/inbox/sync-orchestrator';
+import { parseMime } from '@/lib/inbox/mime-parser';
+import { InboundEmailSyncer, findInboundToken } from '@/lib/inbox/syncers/inbound-email-syncer';
+import { verifyHmacSha256 } from '@/lib/webhook-security';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// Providers cap messages around 25MB; anything larger isn't mail we want
+const MAX_MESSAGE_BYTES = 30 * 1024 * 1024;
+
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.INBOUND_EMAIL_WEBHOOK_SECRET;
+    if (!secret) {
+      return NextResponse.json({ error: 'Inbound email not configured' }, { status: 503 });
+    }
+
+    const contentLength = Number(request.headers.get('content-length') || 0);
+    if (contentLength > MAX_MESSAGE_BYTES) {
+      return NextResponse.json({ error: 'Message too large' }, { status: 413 });
+    }
+
+    const rawBody = Buffer.from(await request.arrayBuffer());
+
+    const verification = verifyHmacSha256(
+      rawBody,
+      request.headers.get('x-inbound-signature') || '',
+      secret
+    );
+    if (!verification.valid) {
+      console.log('[Inbound Email Webhook] Invalid signature:', verification.error);
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    // Forwarded mail keeps the original To, so prefer the envelope recipient
+    const email = parseMime(rawBody);
+    const recipients = [
+      request.nextUrl.searchParams.get('recipient'),
+      ...(email.headers['delivered-to'] || []),
+      ...(email.headers['x-original-to'] || []),
+      ...email.to.map(address => address.email),
+      ...email.cc.map(address => address.email),
+    ].filter((address): address is string => !!address);
+
+    const token = findInboundToken(recipients);
+    if (!token) {
+      return NextResponse.json({ error: 'No feedback address among recipients' }, { status: 404 });
+    }
+
+    const integration = await new SyncOrchestrator().getInboundEmailIntegration(token);
+    if (!integration) {
+      return NextResponse.json({ error: 'Address not found' }, { status: 404 });
+    }
+
+    const recipient = recipients.find(address => address.toLowerCase().includes(token)) || '';
+    const result = await new InboundEmailSyncer().ingestEmail(integration, email, recipient);
+
+    // A non-2xx response makes the provider retry the delivery
+    if (result.itemsErrors > 0) {
+      return NextResponse.json({ error: 'Failed to store message' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      imported: result.itemsImported,
+      duplicates: result.itemsDuplicates,
+    });
+
+  } catch (error) {
+    console.error('[Inbound Email Webhook] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to process email' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * API: Typeform Webhook
+ * Receives form responses pushed by Typeform for a Typeform integration.
+ * Configure the webhook URL as /api/inbox/webhooks/typeform/{integrationId}
+ * with the integration's webhookSecret as the Typeform webhook secret.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SyncOrchestrator } from '@/lib/inbox/sync-orchestrator';
+import {
+  TypeformSyncer,
+  mapTypeformResponse,
+  type TypeformDefinition,
+  type TypeformResponse,
+} from '@/lib/inbox/syncers/typeform-syncer';
+import { verifyTypeformSignature } from '@/lib/webhook-security';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ integrationId: string }>;
+}
+
+interface TypeformWebhookPayload {
+  event_id: string;
+  event_type: string;
+  form_response?: TypeformResponse & {
+    form_id: string;
+    definition: TypeformDefinition;
+  };
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { integrationId } = await params;
+    const rawBody = await request.text();
+
+    const orchestrator = new SyncOrchestrator();
+    const integration = await orchestrator.getIntegration(integrationId);
+
+    if (!integration || integration.integrationType !== 'typeform' || !integration.isActive) {
+      return NextResponse.json({ error: 'Integration not found' }, { status: 404 });
+    }
+
+    const secret = integration.credentials.webhookSecret;
+    if (!secret) {
+      return NextResponse.json({ error: 'Webhook secret not configured' }, { status: 400 });
+    }
+
+    const verification = verifyTypeformSignature(
+      rawBody,
+      request.headers.get('typeform-signature'),
+      secret
+    );
+    if (!verification.valid) {
+      console.log('[Typeform Webhook] Invalid signature:', verification.error);
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    const payload = JSON.parse(rawBody) as TypeformWebhookPayload;
+    const formResponse = payload.form_response;
+
+    if (payload.event_type !== 'form_response' || !formResponse) {
+      return NextResponse.json({ success: true, message: 'Event ignored' });
+    }
+
+    const formIds = integration.config.formIds;
+    if (formIds?.length && !formIds.includes(formResponse.form_id)) {
+      return NextResponse.json({ success: true, message: 'Form not tracked' });
+    }
+
+    const item = mapTypeformResponse(
+      { ...formResponse.definition, id: formResponse.form_id },
+      formResponse
+    );
+    if (!item) {
+      return NextResponse.json({ success: true, message: 'Response has no feedback content' });
+    }
+
+    const result = await new TypeformSyncer().ingest(integration, [item]);
+
+    // A non-2xx response makes Typeform retry the delivery
+    if (result.itemsErrors > 0) {
+      return NextResponse.json({ error: 'Failed to store response' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      imported: result.itemsImported,
+      duplicates: result.itemsDuplicates,
+    });
+
+  } catch (error) {
+    console.error('[Typeform Webhook] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to process webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -10,6 +10,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
 import { parseIntent } from '@/lib/ai/intent-parser';
 import { executeAction } from '@/lib/ai/chat-actions';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
@@ -189,7 +190,7 @@ async function handleNLPCommand(projectId: string, query: string): Promise<strin
         console.log('[Discord NLP] Parsing query:', query);
 
         // Parse intent using AI
-        const intent = await parseIntent(query);
+        const intent = await withAICostContext({ projectId }, () => parseIntent(query));
         console.log('[Discord NLP] Parsed intent:', intent.action);
 
         // If it's an unknown action, just return the AI's response
@@ -198,7 +199,7 @@ async function handleNLPCommand(projectId: string, query: string): Promise<strin
         }
 
         // Execute the action
-        const result = await executeAction(intent, projectId);
+        const result = await withAICostContext({ projectId }, () => executeAction(intent, projectId));
 
         // Format response for Discord (convert Slack markdown to Discord markdown)
         let message = result.message
@@ -10,9 +10,11 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
+import { invalidateCacheTags, postCacheTags } from '@/lib/cache';
 import { JiraAPI } from '@/lib/jira/api';
 import { parseIntent } from '@/lib/ai/intent-parser';
 import { executeAction } from '@/lib/ai/chat-actions';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
@@ -150,11 +152,11 @@ async function handleCommentCreated(
             .replace(/@?signalsloop/gi, '')
             .trim();
 
-        const intent = await parseIntent(cleanedMessage);
+        const intent = await withAICostContext({ projectId: connection.project_id }, () => parseIntent(cleanedMessage));
         console.log('[Jira Webhook] Parsed intent:', intent.action);
 
         // Execute the action
-        const result = await executeAction(intent, connection.project_id);
+        const result = await withAICostContext({ projectId: connection.project_id }, () => executeAction(intent, connection.project_id));
 
         // Build reply
         let replyText = result.message;
@@ -214,7 +216,7 @@ async function handleIssueUpdated(
     // Find linked feedback posts
     const { data: linkedPosts } = await supabase!
         .from('posts')
-        .select('id, status')
+        .select('id, status, project_id, board_id')
         .eq('project_id', connection.project_id)
         .contains('metadata', { jira_issue_key: issueKey });
 
@@ -238,6 +240,7 @@ async function handleIssueUpdated(
                 .from('posts')
                 .update({ status: signalsLoopStatus })
                 .eq('id', post.id);
+            await invalidateCacheTags(postCacheTags(post));
 
             console.log(`[Jira Webhook] Updated post ${post.id} to ${signalsLoopStatus}`);
         }
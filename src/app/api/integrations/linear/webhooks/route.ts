@@ -10,10 +10,12 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
+import { invalidateCacheTags, postCacheTags } from '@/lib/cache';
 import { LinearAPI } from '@/lib/linear/api';
 import { getAccessToken } from '@/lib/linear/oauth';
 import { parseIntent } from '@/lib/ai/intent-parser';
 import { executeAction } from '@/lib/ai/chat-actions';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 import crypto from 'crypto';
 
 export const runtime = 'nodejs';
@@ -142,11 +144,11 @@ async function handleCommentCreated(
             .replace(/@?signalsloop/gi, '')
             .trim();
 
-        const intent = await parseIntent(cleanedMessage);
+        const intent = await withAICostContext({ projectId: connection.project_id }, () => parseIntent(cleanedMessage));
         console.log('[Linear Webhook] Parsed intent:', intent.action);
 
         // Execute the action
-        const result = await executeAction(intent, connection.project_id);
+        const result = await withAICostContext({ projectId: connection.project_id }, () => executeAction(intent, connection.project_id));
 
         // Build reply
         let replyText = result.message;
@@ -198,7 +200,7 @@ async function handleIssueUpdated(
     // Find linked feedback posts
     const { data: linkedPosts } = await supabase!
         .from('posts')
-        .select('id, status')
+        .select('id, status, project_id, board_id')
         .eq('project_id', connection.project_id)
         .contains('metadata', { linear_issue_id: issueData.id });
 
@@ -222,6 +224,7 @@ async function handleIssueUpdated(
                 .from('posts')
                 .update({ status: signalsLoopStatus })
                 .eq('id', post.id);
+            await invalidateCacheTags(postCacheTags(post));
 
             console.log(`[Linear Webhook] Updated post ${post.id} to ${signalsLoopStatus}`);
         }
@@ -14,6 +14,7 @@ import crypto from 'crypto';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
 import { parseIntent, formatActionDescription } from '@/lib/ai/intent-parser';
 import { executeAction } from '@/lib/ai/chat-actions';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 import { decryptToken } from '@/lib/encryption';
 
 export const runtime = 'nodejs';
@@ -305,7 +306,7 @@ async function processAppMention(
 
     // Parse the message to extract intent
     console.log('[Slack] Parsing intent...');
-    const intent = await parseIntent(innerEvent.text);
+    const intent = await withAICostContext({ projectId }, () => parseIntent(innerEvent.text));
     console.log('[Slack] Intent:', intent.action);
 
     // Log the interaction (ignore errors)
@@ -337,7 +338,7 @@ async function processAppMention(
 
     // Execute the action
     console.log('[Slack] Executing action...');
-    const result = await executeAction(intent, projectId);
+    const result = await withAICostContext({ projectId }, () => executeAction(intent, projectId));
     console.log('[Slack] Result:', result.success);
 
     // Send the result back to Slack
@@ -444,7 +445,7 @@ async function processDirectMessage(
     }
 
     // Parse and execute
-    const intent = await parseIntent(innerEvent.text);
+    const intent = await withAICostContext({ projectId }, () => parseIntent(innerEvent.text));
 
     try {
         if (connection?.id) {
@@ -470,6 +471,6 @@ async function processDirectMessage(
         return;
     }
 
-    const result = await executeAction(intent, projectId);
+    const result = await withAICostContext({ projectId }, () => executeAction(intent, projectId));
     await sendSlackMessage(botToken, innerEvent.channel, result.message);
 }
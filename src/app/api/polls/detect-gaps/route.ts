@@ -6,6 +6,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase-client';
 import { detectKnowledgeGaps, getPollSuggestions } from '@/lib/polls/knowledge-gap-detection';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 
 // POST /api/polls/detect-gaps
 export async function POST(request: NextRequest) {
@@ -46,11 +47,11 @@ export async function POST(request: NextRequest) {
         }
 
         // Run knowledge gap detection
-        const result = await detectKnowledgeGaps(projectId, {
+        const result = await withAICostContext({ projectId }, () => detectKnowledgeGaps(projectId, {
             minFeedbackCount: minFeedbackCount || 5,
             maxSpecificity: maxSpecificity || 0.4,
             createActions: createActions ?? true
-        });
+        }));
 
         console.log(`[Knowledge Gap API] ✓ Detected ${result.gaps.length} gaps, created ${result.actions_created} actions`);
 
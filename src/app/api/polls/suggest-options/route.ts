@@ -6,6 +6,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient, getSupabaseServiceRoleClient } from '@/lib/supabase-client';
 import { getOpenAI } from '@/lib/openai-client';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
+import { aiBudgetExceededResponse } from '@/lib/ai/budget-response';
+import { AIBudgetExceededError } from '@/lib/ai/types';
 import type { PollSuggestionRequest, PollSuggestionResponse, SuggestedPollOption } from '@/types/polls';
 
 const MODEL = 'gpt-4o';
@@ -135,8 +138,8 @@ Average Sentiment: ${theme.avg_sentiment?.toFixed(2) || 'Unknown'}
         }
 
         // Call OpenAI
-        const openai = getOpenAI();
-        const response = await openai.chat.completions.create({
+        const openai = getOpenAI('surveys');
+        const response = await withAICostContext({ projectId: project_id }, () => openai.chat.completions.create({
             model: MODEL,
             messages: [
                 { role: 'system', content: SYSTEM_PROMPT },
@@ -152,7 +155,7 @@ Generate options that would help prioritize or clarify user needs within this th
             temperature: 0.7,
             max_tokens: 1000,
             response_format: { type: 'json_object' }
-        });
+        }));
 
         const content = response.choices[0]?.message?.content;
         if (!content) {
@@ -181,6 +184,9 @@ Generate options that would help prioritize or clarify user needs within this th
         return NextResponse.json(result);
 
     } catch (error) {
+        if (error instanceof AIBudgetExceededError) {
+            return aiBudgetExceededResponse(error);
+        }
         console.error('[Poll Suggest API] Error:', error);
         return NextResponse.json(
             { error: 'Failed to generate suggestions' },
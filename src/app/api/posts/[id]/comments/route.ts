@@ -4,6 +4,7 @@ import { notifyCommentParticipants, sendCommentEmail } from '@/lib/email';
 import { triggerWebhooks } from '@/lib/webhooks';
 import { triggerSlackNotification } from '@/lib/slack';
 import { triggerDiscordNotification } from '@/lib/discord';
+import { invalidateCacheTags, postCacheTags } from '@/lib/cache';
 
 export const runtime = 'nodejs';
 export const maxDuration = 30;
@@ -100,6 +101,8 @@ export async function POST(
       return NextResponse.json({ error: 'Failed to create comment' }, { status: 500 });
     }
 
+    await invalidateCacheTags(postCacheTags(post));
+
     let isAdmin = false;
     if (email && post.projects?.owner_id) {
       try {
@@ -4,6 +4,7 @@ import { triggerWebhooks } from '@/lib/webhooks';
 import { triggerSlackNotification } from '@/lib/slack';
 import { triggerDiscordNotification } from '@/lib/discord';
 import { getServiceRoleClient } from '@/lib/supabase-singleton';
+import { invalidateCacheTags, cacheTags } from '@/lib/cache';
 
 export const runtime = 'nodejs';
 export const maxDuration = 30;
@@ -62,6 +63,8 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
+    await invalidateCacheTags([cacheTags.post(postId), cacheTags.project(projectId)]);
+
     const statusChanged = oldStatus !== newStatus;
 
     // Send email notification if status actually changed
@@ -3,6 +3,7 @@ import { createClient, type PostgrestError, SupabaseClient } from '@supabase/sup
 import { triggerWebhooks } from '@/lib/webhooks';
 import { triggerSlackNotification } from '@/lib/slack';
 import { triggerDiscordNotification } from '@/lib/discord';
+import { invalidateCacheTags, postCacheTags } from '@/lib/cache';
 
 const PRIORITY_VALUES = ['must_have', 'important', 'nice_to_have'] as const;
 type VotePriority = typeof PRIORITY_VALUES[number];
@@ -217,6 +218,8 @@ export async function POST(
       }
     }
 
+    await invalidateCacheTags(postCacheTags(postRecord));
+
     // Use the vote_count from the post (updated by trigger)
     const safeTotalVotes = updatedPost?.vote_count ?? 0;
 
@@ -300,7 +303,7 @@ export async function DELETE(
 
     const { data: postRecord, error: postError } = await getSupabase()
       .from('posts')
-      .select('id, duplicate_of')
+      .select('id, project_id, duplicate_of')
       .eq('id', postId)
       .single();
 
@@ -345,6 +348,8 @@ export async function DELETE(
       console.error('Error updating priority counts:', priorityError);
     }
 
+    await invalidateCacheTags(postCacheTags(postRecord));
+
     // Use the vote_count from the post (updated by trigger)
     return NextResponse.json({
       message: 'Vote removed successfully',
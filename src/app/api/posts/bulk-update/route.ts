@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseServerClient } from '@/lib/supabase-client';
+import { invalidateCacheTags, postCacheTags } from '@/lib/cache';
 
 export async function PATCH(request: NextRequest) {
   try {
@@ -57,6 +58,8 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
+    await invalidateCacheTags((data || []).flatMap(postCacheTags));
+
     return NextResponse.json({ 
       success: true, 
       updatedCount: data?.length || 0,
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseServerClient } from '@/lib/supabase-client';
 import { categorizeFeedback } from '@/lib/ai-categorization';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 import { sendPostConfirmationEmail } from '@/lib/email';
 import { triggerWebhooks } from '@/lib/webhooks';
 import { triggerSlackNotification } from '@/lib/slack';
 import { triggerDiscordNotification } from '@/lib/discord';
+import { invalidateCacheTags, postCacheTags } from '@/lib/cache';
 
 export const runtime = 'nodejs';
 export const maxDuration = 30;
@@ -113,6 +115,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    await invalidateCacheTags(postCacheTags(newPost));
+
     // Check if project has Pro plan for AI categorization
     const { data: proProjectData, error: proProjectError } = await supabase
       .from('projects')
@@ -123,7 +127,7 @@ export async function POST(request: NextRequest) {
     // Only attempt AI features for Pro accounts
     if (!proProjectError && proProjectData && proProjectData.plan === 'pro') {
       // 1. AI Categorization in background
-      categorizeFeedback(title, description)
+      withAICostContext({ projectId: project_id, feature: 'categorization' }, () => categorizeFeedback(title, description))
         .then(async (aiResult) => {
           try {
             const shouldOverwrite =
@@ -148,6 +152,7 @@ export async function POST(request: NextRequest) {
             if (updateError) {
               console.error('Error updating post with AI categorization:', updateError);
             } else {
+              await invalidateCacheTags(postCacheTags(newPost));
               console.log(`✅ Post ${newPost.id} categorized as: ${aiResult.category} (${Math.round(aiResult.confidence * 100)}% confidence)`);
             }
           } catch (updateError) {
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
 import { categorizeFeedback } from '@/lib/ai-categorization';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
+import { cacheTags, invalidateCacheTags } from '@/lib/cache';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60; // Vercel Pro tier - 60s for batch categorization
@@ -131,9 +133,9 @@ export async function POST(
 
     for (const post of posts) {
       try {
-        const { category, confidence, reasoning } = await categorizeFeedback(
-          post.title as string,
-          (post.description as string) || undefined
+        const { category, confidence, reasoning } = await withAICostContext(
+          { projectId: project.id, feature: 'categorization' },
+          () => categorizeFeedback(post.title as string, (post.description as string) || undefined)
         );
 
         const { error: updateError } = await supabase
@@ -161,6 +163,14 @@ export async function POST(
       }
     }
 
+    if (updatedCount > 0) {
+      await invalidateCacheTags([
+        cacheTags.project(project.id),
+        cacheTags.board(board.id),
+        ...posts.map(post => cacheTags.post(String(post.id))),
+      ]);
+    }
+
     // Calculate remaining posts that still need work (excluding what we just processed)
     const processedIds = posts.map(p => p.id);
     let remainingQuery = supabase
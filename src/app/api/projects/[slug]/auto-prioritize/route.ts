@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
 import { calculatePriorityScore } from '@/lib/enhanced-priority-scoring';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
+import { cacheTags, invalidateCacheTags } from '@/lib/cache';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60; // Vercel Pro tier - 60s for batch prioritization
@@ -256,7 +258,7 @@ export async function POST(
           console.error('Failed to calculate similar posts during auto-prioritize:', similarError);
         }
 
-        const score = await calculatePriorityScore({
+        const score = await withAICostContext({ projectId: project.id, feature: 'priority_scoring' }, () => calculatePriorityScore({
           post: {
             id: post.id,
             title: (post.title as string) || '(untitled)',
@@ -285,7 +287,7 @@ export async function POST(
             currentQuarter: `Q${Math.ceil((new Date().getMonth() + 1) / 3)} ${new Date().getFullYear()}`,
             companyStrategy: strategy,
           },
-        });
+        }));
 
         const derivedLabel = derivePriorityLabel(score.weightedScore);
         const priorityReason = `${derivedLabel.toUpperCase()}: ${score.businessJustification}`;
@@ -314,6 +316,14 @@ export async function POST(
       }
     }
 
+    if (updatedCount > 0) {
+      await invalidateCacheTags([
+        cacheTags.project(project.id),
+        cacheTags.board(board.id),
+        ...posts.map(post => cacheTags.post(String(post.id))),
+      ]);
+    }
+
     // Calculate remaining posts that still need prioritization (excluding what we just processed)
     const processedIds = posts.map(p => p.id);
     let remainingQuery = supabase
@@ -0,0 +1,119 @@
+/**
+ * Automation Workflow API Route
+ * Read a workflow with its run history, edit it or delete it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
+import { AutomationEngine, validateAutomation } from '@/lib/agents/automation-engine';
+import type { AutomationWorkflow } from '@/types/agent-workflow';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+interface RouteParams {
+  params: Promise<{ slug: string; workflowId: string }>;
+}
+
+/**
+ * Resolve the caller and the workflow, or the response to send instead
+ */
+async function loadWorkflow(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<{ engine: AutomationEngine; workflow: AutomationWorkflow } | NextResponse> {
+  const { slug, workflowId } = await params;
+  const supabase = getSupabaseServiceRoleClient();
+
+  if (!supabase) {
+    return NextResponse.json({ error: 'Database connection not available' }, { status: 500 });
+  }
+
+  const token = request.headers.get('authorization')?.replace('Bearer ', '');
+  const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const engine = new AutomationEngine(supabase);
+  const project = await engine.findProject(slug, user.id);
+
+  if (!project?.canManage) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const workflow = await engine.getWorkflow(workflowId);
+
+  if (!workflow || workflow.projectId !== project.id) {
+    return NextResponse.json({ error: 'Automation not found' }, { status: 404 });
+  }
+
+  return { engine, workflow };
+}
+
+/**
+ * GET /api/projects/:slug/automations/:workflowId
+ */
+export async function GET(request: NextRequest, context: RouteParams) {
+  try {
+    const loaded = await loadWorkflow(request, context);
+    if (loaded instanceof NextResponse) return loaded;
+
+    const runs = await loaded.engine.listRuns(loaded.workflow.id);
+    return NextResponse.json({ workflow: loaded.workflow, runs });
+
+  } catch (error) {
+    console.error('[Automations] Get error:', error);
+    return NextResponse.json({ error: 'Failed to load automation' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/projects/:slug/automations/:workflowId
+ * Body: any AutomationWorkflowInput fields
+ */
+export async function PATCH(request: NextRequest, context: RouteParams) {
+  try {
+    const loaded = await loadWorkflow(request, context);
+    if (loaded instanceof NextResponse) return loaded;
+
+    const input = await request.json();
+    const validationError = validateAutomation(input, true);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const workflow = await loaded.engine.updateWorkflow(loaded.workflow.id, input);
+    if (!workflow) {
+      return NextResponse.json({ error: 'Failed to update automation' }, { status: 500 });
+    }
+
+    return NextResponse.json({ workflow });
+
+  } catch (error) {
+    console.error('[Automations] Update error:', error);
+    return NextResponse.json({ error: 'Failed to update automation' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/projects/:slug/automations/:workflowId
+ */
+export async function DELETE(request: NextRequest, context: RouteParams) {
+  try {
+    const loaded = await loadWorkflow(request, context);
+    if (loaded instanceof NextResponse) return loaded;
+
+    const deleted = await loaded.engine.deleteWorkflow(loaded.workflow.id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Failed to delete automation' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('[Automations] Delete error:', error);
+    return NextResponse.json({ error: 'Failed to delete automation' }, { status: 500 });
+  }
+}
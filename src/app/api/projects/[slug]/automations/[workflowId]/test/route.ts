@@ -0,0 +1,73 @@
+/**
+ * Automation Test API Route
+ * Run a workflow against a sample event without carrying out its actions
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
+import { AutomationEngine } from '@/lib/agents/automation-engine';
+import type { DomainEvent } from '@/lib/events/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * POST /api/projects/:slug/automations/:workflowId/test
+ * Body: { event?: { payload, aggregate_type?, aggregate_id?, metadata? } }
+ * Without an event, a sample is built from the trigger's payload schema.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string; workflowId: string }> }
+) {
+  try {
+    const { slug, workflowId } = await params;
+    const supabase = getSupabaseServiceRoleClient();
+
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection not available' }, { status: 500 });
+    }
+
+    const token = request.headers.get('authorization')?.replace('Bearer ', '');
+    const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const engine = new AutomationEngine(supabase);
+    const project = await engine.findProject(slug, user.id);
+
+    if (!project?.canManage) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const workflow = await engine.getWorkflow(workflowId);
+
+    if (!workflow || workflow.projectId !== project.id) {
+      return NextResponse.json({ error: 'Automation not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const event = body?.event;
+
+    if (event !== undefined &&
+        (typeof event !== 'object' || event === null || typeof event.payload !== 'object' || event.payload === null)) {
+      return NextResponse.json({ error: 'event.payload must be an object' }, { status: 400 });
+    }
+
+    const sample: Partial<DomainEvent> | undefined = event && {
+      aggregate_type: typeof event.aggregate_type === 'string' ? event.aggregate_type : undefined,
+      aggregate_id: typeof event.aggregate_id === 'string' ? event.aggregate_id : undefined,
+      payload: event.payload,
+      metadata: { ...(event.metadata || {}), project_id: project.id },
+    };
+
+    const run = await engine.testWorkflow(workflow, sample);
+    return NextResponse.json({ run });
+
+  } catch (error) {
+    console.error('[Automations] Test error:', error);
+    return NextResponse.json({ error: 'Failed to test automation' }, { status: 500 });
+  }
+}
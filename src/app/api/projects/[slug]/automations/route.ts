@@ -0,0 +1,117 @@
+/**
+ * Automation Workflows API Route
+ * List and create a project's "when X then Y" automations
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
+import { AutomationEngine, validateAutomation } from '@/lib/agents/automation-engine';
+import { EVENT_CATALOGUE } from '@/lib/events/catalogue';
+import { AUTOMATION_TEMPLATES } from '@/types/agent-workflow';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * GET /api/projects/:slug/automations
+ * The project's workflows, plus the trigger events and templates the
+ * builder offers
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const supabase = getSupabaseServiceRoleClient();
+
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection not available' }, { status: 500 });
+    }
+
+    const token = request.headers.get('authorization')?.replace('Bearer ', '');
+    const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const engine = new AutomationEngine(supabase);
+    const project = await engine.findProject(slug, user.id);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    if (!project.canManage) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const workflows = await engine.listWorkflows(project.id);
+    const triggers = Object.values(EVENT_CATALOGUE).map(definition => ({
+      type: definition.type,
+      domain: definition.domain,
+      summary: definition.summary,
+      fields: Object.keys(definition.payload.properties || {}),
+    }));
+
+    return NextResponse.json({ workflows, triggers, templates: AUTOMATION_TEMPLATES });
+
+  } catch (error) {
+    console.error('[Automations] List error:', error);
+    return NextResponse.json({ error: 'Failed to load automations' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/projects/:slug/automations
+ * Body: AutomationWorkflowInput
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const supabase = getSupabaseServiceRoleClient();
+
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection not available' }, { status: 500 });
+    }
+
+    const token = request.headers.get('authorization')?.replace('Bearer ', '');
+    const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const engine = new AutomationEngine(supabase);
+    const project = await engine.findProject(slug, user.id);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    if (!project.canManage) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const input = await request.json();
+    const validationError = validateAutomation(input);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const workflow = await engine.createWorkflow(project.id, input, user.id);
+    if (!workflow) {
+      return NextResponse.json({ error: 'Failed to create automation' }, { status: 500 });
+    }
+
+    return NextResponse.json({ workflow }, { status: 201 });
+
+  } catch (error) {
+    console.error('[Automations] Create error:', error);
+    return NextResponse.json({ error: 'Failed to create automation' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
 import { detectDuplicateClusters, type DuplicateCandidate } from '@/lib/enhanced-duplicate-detection';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60; // Vercel Pro tier - 60s for duplicate detection
@@ -121,10 +122,10 @@ export async function POST(
     }));
 
     // Detect duplicate clusters
-    const clusters = await detectDuplicateClusters(candidates, {
+    const clusters = await withAICostContext({ projectId: project.id, feature: 'duplicate_detection' }, () => detectDuplicateClusters(candidates, {
       clusterThreshold: threshold,
       minClusterSize: 2,
-    });
+    }));
 
     // Mark duplicates in database
     let duplicatesMarked = 0;
@@ -0,0 +1,63 @@
+/**
+ * Migration Import Rollback API Route
+ * POST /api/projects/:slug/migrations/:runId/rollback
+ * Deletes every board, post, vote, comment and changelog release the run
+ * created. Returns status 'rolling_back' when there is more to delete;
+ * call again to continue. A run that is still importing answers 409.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
+import { MigrationImporter, MigrationRunConflictError } from '@/lib/migration-import';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string; runId: string }> }
+) {
+  try {
+    const { slug, runId } = await params;
+    const supabase = getSupabaseServiceRoleClient();
+
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection not available' }, { status: 500 });
+    }
+
+    const token = request.headers.get('authorization')?.replace('Bearer ', '');
+    const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const importer = new MigrationImporter(supabase);
+    const project = await importer.findProject(slug, user.id);
+
+    if (!project?.canManage) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existing = await importer.getRun(runId);
+
+    if (!existing || existing.projectId !== project.id) {
+      return NextResponse.json({ error: 'Import not found' }, { status: 404 });
+    }
+
+    if (existing.status === 'running') {
+      return NextResponse.json({ error: 'This import is still running' }, { status: 409 });
+    }
+
+    const run = await importer.rollback(runId);
+    return NextResponse.json({ run });
+
+  } catch (error) {
+    if (error instanceof MigrationRunConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error('[Migration] Rollback error:', error);
+    return NextResponse.json({ error: 'Rollback failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Migration Import Run API Route
+ * Read a run's report and resume a paused or failed run
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
+import { MigrationImporter, MigrationRunConflictError } from '@/lib/migration-import';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+interface RouteParams {
+  params: Promise<{ slug: string; runId: string }>;
+}
+
+/**
+ * GET /api/projects/:slug/migrations/:runId
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { slug, runId } = await params;
+    const supabase = getSupabaseServiceRoleClient();
+
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection not available' }, { status: 500 });
+    }
+
+    const token = request.headers.get('authorization')?.replace('Bearer ', '');
+    const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const importer = new MigrationImporter(supabase);
+    const project = await importer.findProject(slug, user.id);
+
+    if (!project?.canManage) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const run = await importer.getRun(runId);
+
+    if (!run || run.projectId !== project.id) {
+      return NextResponse.json({ error: 'Import not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ run });
+
+  } catch (error) {
+    console.error('[Migration] Get run error:', error);
+    return NextResponse.json({ error: 'Failed to load import' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/projects/:slug/migrations/:runId
+ * Resume the run from where it stopped. Completed runs are returned as is;
+ * a run another request is already importing answers 409.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { slug, runId } = await params;
+    const supabase = getSupabaseServiceRoleClient();
+
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection not available' }, { status: 500 });
+    }
+
+    const token = request.headers.get('authorization')?.replace('Bearer ', '');
+    const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const importer = new MigrationImporter(supabase);
+    const project = await importer.findProject(slug, user.id);
+
+    if (!project?.canManage) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existing = await importer.getRun(runId);
+
+    if (!existing || existing.projectId !== project.id) {
+      return NextResponse.json({ error: 'Import not found' }, { status: 404 });
+    }
+
+    if (existing.status === 'rolling_back' || existing.status === 'rolled_back') {
+      return NextResponse.json({ error: 'This import was rolled back' }, { status: 409 });
+    }
+
+    const run = await importer.runImport(runId);
+    return NextResponse.json({ run });
+
+  } catch (error) {
+    if (error instanceof MigrationRunConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error('[Migration] Resume error:', error);
+    return NextResponse.json({ error: 'Failed to resume import' }, { status: 500 });
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Migration Imports API Route
+ * Import a Canny, UserVoice or Productboard export into the project.
+ * Large exports come back paused; resume them with
+ * POST /api/projects/:slug/migrations/:runId.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
+import {
+  MAX_MIGRATION_BYTES,
+  MIGRATION_PLATFORMS,
+  MigrationImportError,
+  MigrationImporter,
+  MigrationPlatform,
+  parseMigrationExport,
+} from '@/lib/migration-import';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * GET /api/projects/:slug/migrations
+ * Recent import runs with their summary reports
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const supabase = getSupabaseServiceRoleClient();
+
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection not available' }, { status: 500 });
+    }
+
+    const token = request.headers.get('authorization')?.replace('Bearer ', '');
+    const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const importer = new MigrationImporter(supabase);
+    const project = await importer.findProject(slug, user.id);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    if (!project.canManage) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const runs = await importer.listRuns(project.id);
+    return NextResponse.json({ runs });
+
+  } catch (error) {
+    console.error('[Migration] List runs error:', error);
+    return NextResponse.json({ error: 'Failed to load imports' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/projects/:slug/migrations
+ * Form data: file (JSON export), optional platform
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const supabase = getSupabaseServiceRoleClient();
+
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection not available' }, { status: 500 });
+    }
+
+    const token = request.headers.get('authorization')?.replace('Bearer ', '');
+    const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const importer = new MigrationImporter(supabase);
+    const project = await importer.findProject(slug, user.id);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    if (!project.canManage) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const platform = (formData.get('platform') as string | null) || undefined;
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    if (file.size > MAX_MIGRATION_BYTES) {
+      return NextResponse.json({ error: 'File too large. Maximum size is 25MB' }, { status: 400 });
+    }
+
+    if (platform && !MIGRATION_PLATFORMS.includes(platform as MigrationPlatform)) {
+      return NextResponse.json(
+        { error: `platform must be one of ${MIGRATION_PLATFORMS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const bundle = parseMigrationExport(await file.text(), platform as MigrationPlatform | undefined);
+
+    if (bundle.posts.length === 0) {
+      return NextResponse.json({ error: 'No posts found in the export' }, { status: 400 });
+    }
+
+    const created = await importer.createRun(project.id, user.id, bundle, file.name);
+    const run = await importer.runImport(created.id);
+
+    return NextResponse.json({ run }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof MigrationImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('[Migration] Import error:', error);
+    return NextResponse.json({ error: 'Import failed' }, { status: 500 });
+  }
+}
@@ -12,6 +12,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { detectRoadmapAdjustmentTriggers } from '@/lib/roadmap/trigger-detection';
 import { generateAdjustmentProposal } from '@/lib/roadmap/proposal-generator';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 import { getServiceRoleClient } from '@/lib/supabase-singleton';
 
 const DetectRequestSchema = z.object({
@@ -26,7 +27,7 @@ export async function POST(request: NextRequest) {
         console.log(`[API] Detecting adjustments for project ${projectId}`);
 
         // 1. Detect triggers
-        const triggers = await detectRoadmapAdjustmentTriggers(projectId);
+        const triggers = await withAICostContext({ projectId }, () => detectRoadmapAdjustmentTriggers(projectId));
 
         if (triggers.length === 0) {
             return NextResponse.json({
@@ -43,7 +44,7 @@ export async function POST(request: NextRequest) {
 
         for (const trigger of significantTriggers) {
             try {
-                const proposal = await generateAdjustmentProposal(projectId, trigger);
+                const proposal = await withAICostContext({ projectId }, () => generateAdjustmentProposal(projectId, trigger));
 
                 // Store proposal in database
                 const { data, error } = await supabase
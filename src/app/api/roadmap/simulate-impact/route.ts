@@ -7,6 +7,7 @@
 
 import { NextResponse } from 'next/server';
 import { simulateFeatureImpact, simulateDeprioritization, compareScenarios } from '@/lib/predictions/impact-simulation/simulator';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
@@ -26,7 +27,7 @@ export async function POST(request: Request) {
     // Comparison mode: compare multiple features
     if (compareWith && Array.isArray(compareWith)) {
       const suggestionIds = [suggestionId, ...compareWith];
-      const comparison = await compareScenarios(projectId, suggestionIds);
+      const comparison = await withAICostContext({ projectId }, () => compareScenarios(projectId, suggestionIds));
 
       return NextResponse.json({
         success: true,
@@ -46,9 +47,9 @@ export async function POST(request: Request) {
     let prediction;
 
     if (action === 'deprioritize') {
-      prediction = await simulateDeprioritization(projectId, suggestionId);
+      prediction = await withAICostContext({ projectId }, () => simulateDeprioritization(projectId, suggestionId));
     } else {
-      prediction = await simulateFeatureImpact(projectId, suggestionId);
+      prediction = await withAICostContext({ projectId }, () => simulateFeatureImpact(projectId, suggestionId));
     }
 
     return NextResponse.json({
@@ -5,6 +5,7 @@
 
 import { NextRequest } from 'next/server';
 import { getOpenAI } from '@/lib/openai-client';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 import { createServerClient, getSupabaseServiceRoleClient } from '@/lib/supabase-client';
 import { checkAIUsageLimit } from '@/lib/ai-rate-limit';
 import { generateEmbedding, prepareSpecForEmbedding, generateContentHash } from '@/lib/specs/embeddings';
@@ -72,8 +73,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create readable stream for Server-Sent Events
-    const stream = new ReadableStream({
+    // Create readable stream for Server-Sent Events. start() runs inside the
+    // cost context, so every AI call it makes is charged to the project.
+    const stream = withAICostContext({ projectId, feature: 'spec_generation' }, () => new ReadableStream({
       async start(controller) {
         const sendProgress = (step: GenerationStep, progress: number, message: string) => {
           const data = JSON.stringify({
@@ -132,7 +134,7 @@ export async function POST(request: NextRequest) {
                 feedback.map((f) => ({ id: f.id, content: f.content, votes: f.upvotes || 0 }))
               );
 
-              const synthesisResponse = await getOpenAI().chat.completions.create({
+              const synthesisResponse = await getOpenAI('spec_generation').chat.completions.create({
                 model: 'gpt-4o',
                 messages: [{ role: 'user', content: synthesisPrompt }],
                 response_format: { type: 'json_object' },
@@ -228,7 +230,7 @@ export async function POST(request: NextRequest) {
           let totalTokens = 0;
           let generatedContent = '';
 
-          const completion = await getOpenAI().chat.completions.create({
+          const completion = await getOpenAI('spec_generation').chat.completions.create({
             model: 'gpt-4o',
             messages: [
               { role: 'system', content: SPEC_GENERATION_SYSTEM_PROMPT },
@@ -365,7 +367,7 @@ export async function POST(request: NextRequest) {
           controller.close();
         }
       },
-    });
+    }));
 
     return new Response(stream, {
       headers: {
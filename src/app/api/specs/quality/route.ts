@@ -6,6 +6,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase-client';
 import { specQualityScorer } from '@/lib/specs/quality-scorer';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 import type { SpecTemplate } from '@/types/specs';
 
 export async function POST(request: NextRequest) {
@@ -24,6 +25,7 @@ export async function POST(request: NextRequest) {
     let specContent = content;
     let specTitle = title || 'Untitled Spec';
     let specTemplate: SpecTemplate = template || 'standard';
+    let specProjectId: string | undefined;
     
     if (specId && !content) {
       const { data: spec, error } = await supabase
@@ -39,6 +41,7 @@ export async function POST(request: NextRequest) {
       specContent = spec.content;
       specTitle = spec.title;
       specTemplate = spec.template || 'standard';
+      specProjectId = spec.project_id;
     }
     
     if (!specContent) {
@@ -48,11 +51,11 @@ export async function POST(request: NextRequest) {
     switch (action) {
       case 'evaluate':
       default: {
-        const result = await specQualityScorer.evaluateSpec(
+        const result = await withAICostContext({ projectId: specProjectId }, () => specQualityScorer.evaluateSpec(
           specContent,
           specTemplate,
           specTitle
-        );
+        ));
         
         // Store quality score in database if specId provided
         if (specId) {
@@ -78,20 +81,20 @@ export async function POST(request: NextRequest) {
           return NextResponse.json({ error: 'Issue details required' }, { status: 400 });
         }
         
-        const result = await specQualityScorer.autoFix(
+        const result = await withAICostContext({ projectId: specProjectId }, () => specQualityScorer.autoFix(
           specContent,
           issue,
           specTemplate
-        );
+        ));
         
         return NextResponse.json(result);
       }
       
       case 'improve': {
-        const improvedContent = await specQualityScorer.generateImprovements(
+        const improvedContent = await withAICostContext({ projectId: specProjectId }, () => specQualityScorer.generateImprovements(
           specContent,
           specTemplate
-        );
+        ));
         
         return NextResponse.json({ improvedContent });
       }
@@ -8,6 +8,7 @@ import {
     generateTicketPlan,
     executeTicketPlan,
 } from '@/lib/specs/spec-to-tickets-service';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 
 export async function POST(request: NextRequest) {
     try {
@@ -30,7 +31,7 @@ export async function POST(request: NextRequest) {
                 );
             }
 
-            const result = await generateTicketPlan({ specId, projectId });
+            const result = await withAICostContext({ projectId }, () => generateTicketPlan({ specId, projectId }));
             return NextResponse.json(result);
         }
 
@@ -43,7 +44,7 @@ export async function POST(request: NextRequest) {
                 );
             }
 
-            const result = await executeTicketPlan({ projectId, plan });
+            const result = await withAICostContext({ projectId }, () => executeTicketPlan({ projectId, plan }));
             return NextResponse.json(result);
         }
 
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
+import { getOpenAI } from '@/lib/openai-client';
 
 export const maxDuration = 60; // Vercel Pro tier - 60s for audio transcription
 
@@ -30,7 +30,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Initialize OpenAI client
-    const openai = new OpenAI({ apiKey });
+    const openai = getOpenAI('stakeholder_reports');
 
     // Convert File to format Whisper expects
     const audioBuffer = await audioFile.arrayBuffer();
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
+import { getOpenAI } from '@/lib/openai-client';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
 
 export const runtime = 'nodejs';
@@ -49,10 +50,10 @@ export async function POST(request: NextRequest) {
     let answer = '';
 
     if (openaiApiKey) {
-      const openai = new OpenAI({ apiKey: openaiApiKey });
+      const openai = getOpenAI('stakeholder_reports');
       const prompt = `You are a product status assistant for stakeholders. Answer clearly and briefly.\n\nRoadmap Highlights:\n${roadmapSummary || 'No roadmap suggestions yet.'}\n\nStakeholder question: ${question}`;
 
-      const completion = await openai.chat.completions.create({
+      const completion = await withAICostContext({ projectId: stakeholder.project_id }, () => openai.chat.completions.create({
         model: MODEL,
         messages: [
           { role: 'system', content: 'Be concise (<=120 words), actionable, and avoid technical jargon.' },
@@ -60,7 +61,7 @@ export async function POST(request: NextRequest) {
         ],
         temperature: 0.4,
         max_tokens: 200,
-      });
+      }));
 
       answer = completion.choices[0].message?.content || 'No answer.';
     } else {
@@ -8,6 +8,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { generateStakeholderReport, sendWeeklyReports } from '@/lib/stakeholders/report-generator';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
 import { sendEmail } from '@/lib/email';
 
@@ -34,7 +35,7 @@ export async function POST(request: NextRequest) {
       console.log(`[Reports API] Generating reports for all stakeholders in project ${projectId}`);
 
       try {
-        await sendWeeklyReports(projectId);
+        await withAICostContext({ projectId }, () => sendWeeklyReports(projectId));
 
         return NextResponse.json({
           success: true,
@@ -75,11 +76,11 @@ export async function POST(request: NextRequest) {
     console.log(`[Reports API] Generating report for stakeholder ${stakeholder.email}`);
 
     // Generate report
-    const reportHtml = await generateStakeholderReport(
+    const reportHtml = await withAICostContext({ projectId: stakeholder.project_id }, () => generateStakeholderReport(
       stakeholder.id,
       stakeholder.role,
       stakeholder.project_id
-    );
+    ));
 
     // Send email if requested
     if (shouldSendEmail) {
@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { generateAndSaveShifts } from '@/lib/strategy/strategy-shift-service';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 
 export async function POST(request: NextRequest) {
     try {
@@ -18,7 +19,7 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const result = await generateAndSaveShifts(projectId);
+        const result = await withAICostContext({ projectId }, () => generateAndSaveShifts(projectId));
 
         return NextResponse.json(result);
     } catch (error) {
@@ -7,6 +7,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseServerClient } from '@/lib/supabase-client';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
 import { getOpenAI } from '@/lib/openai-client';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 import crypto from 'crypto';
 import type { SubmitSurveyResponseInput, SurveyQuestion } from '@/types/polls';
 
@@ -40,7 +41,7 @@ async function analyzeTextSentiment(textResponses: string[]): Promise<number | n
     if (textResponses.length === 0) return null;
 
     try {
-        const openai = getOpenAI();
+        const openai = getOpenAI('surveys');
         const combinedText = textResponses.join('\n\n');
 
         const response = await openai.chat.completions.create({
@@ -206,7 +207,9 @@ export async function POST(
         }
 
         // Analyze sentiment from text responses
-        const sentimentScore = await analyzeTextSentiment(textResponses);
+        const sentimentScore = await withAICostContext({ projectId: survey.project_id }, () =>
+            analyzeTextSentiment(textResponses)
+        );
 
         // Try to get customer info
         let customerId = null;
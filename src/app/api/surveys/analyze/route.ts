@@ -7,6 +7,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseServerClient } from '@/lib/supabase-client';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
 import { getOpenAI } from '@/lib/openai-client';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 import type { SurveyAnalysis, QuestionSummary, ThemeSummary } from '@/types/polls';
 
 // POST /api/surveys/analyze
@@ -170,13 +171,13 @@ export async function POST(request: NextRequest) {
 
         if (textResponses.length >= 3) {
             try {
-                const openai = getOpenAI();
+                const openai = getOpenAI('surveys');
                 const combinedText = textResponses
                     .map(t => t.text)
                     .slice(0, 50)
                     .join('\n---\n');
 
-                const response = await openai.chat.completions.create({
+                const response = await withAICostContext({ projectId: survey.project_id }, () => openai.chat.completions.create({
                     model: 'gpt-4o',
                     messages: [
                         {
@@ -202,7 +203,7 @@ Identify 3-5 key themes. Focus on actionable insights.`
                     temperature: 0.3,
                     max_tokens: 800,
                     response_format: { type: 'json_object' }
-                });
+                }));
 
                 const content = response.choices[0]?.message?.content;
                 if (content) {
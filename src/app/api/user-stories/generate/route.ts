@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
 import { generateUserStoryWithRetry } from '@/lib/user-stories/generation';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 import { GenerateStoryInput, FeedbackItemForStory } from '@/types/user-stories';
 import { Theme } from '@/types/themes';
 
@@ -140,7 +141,7 @@ export async function POST(request: NextRequest) {
     };
 
     // Generate the user story
-    const generatedStory = await generateUserStoryWithRetry(input);
+    const generatedStory = await withAICostContext({ projectId: project_id }, () => generateUserStoryWithRetry(input));
 
     const generationTime = Date.now() - startTime;
 
@@ -0,0 +1,116 @@
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { secureAPI, validateAPIKey } from '@/lib/api-security';
+import { invalidateCacheTags, postCacheTags } from '@/lib/cache';
+import {
+  CommentParamsSchema,
+  UpdateCommentSchema,
+  COMMENT_COLUMNS,
+  findProjectPost,
+  notFound,
+  requireSupabase,
+  type CommentParams,
+  type UpdateCommentBody,
+  type V1Post,
+} from '@/lib/api-v1';
+
+export const runtime = 'nodejs';
+export const maxDuration = 30;
+
+/**
+ * Resolve the post (scoped to the key's project) and the comment on it
+ */
+async function findComment(
+  supabase: SupabaseClient,
+  projectId: string,
+  { id: postId, commentId }: CommentParams
+): Promise<{ post: V1Post; commentId: string } | NextResponse> {
+  const post = await findProjectPost(supabase, projectId, postId);
+  if (!post) {
+    return notFound('Post');
+  }
+
+  const { data: comment } = await supabase
+    .from('comments')
+    .select('id')
+    .eq('id', commentId)
+    .eq('post_id', post.id)
+    .maybeSingle();
+
+  if (!comment) {
+    return notFound('Comment');
+  }
+
+  return { post, commentId: comment.id };
+}
+
+// PATCH /api/v1/posts/[id]/comments/[commentId] - Edit a comment
+export const PATCH = secureAPI<UpdateCommentBody, CommentParams>(
+  async ({ project, params, body }) => {
+    const supabase = requireSupabase();
+    const found = await findComment(supabase, project.id, params!);
+    if (found instanceof NextResponse) {
+      return found;
+    }
+
+    const { data: comment, error } = await supabase
+      .from('comments')
+      .update({
+        content: body!.content,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', found.commentId)
+      .select(COMMENT_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error updating comment:', error);
+      return NextResponse.json({ error: 'Failed to update comment' }, { status: 500 });
+    }
+
+    await invalidateCacheTags(postCacheTags(found.post));
+
+    return NextResponse.json({ data: comment });
+  },
+  {
+    requireAuth: true,
+    authValidator: validateAPIKey,
+    requiredScopes: ['posts:write'],
+    paramsSchema: CommentParamsSchema,
+    bodySchema: UpdateCommentSchema,
+  }
+);
+
+// DELETE /api/v1/posts/[id]/comments/[commentId] - Delete a comment
+export const DELETE = secureAPI<never, CommentParams>(
+  async ({ project, params }) => {
+    const supabase = requireSupabase();
+    const found = await findComment(supabase, project.id, params!);
+    if (found instanceof NextResponse) {
+      return found;
+    }
+
+    const { error } = await supabase
+      .from('comments')
+      .delete()
+      .eq('id', found.commentId);
+
+    if (error) {
+      console.error('Error deleting comment:', error);
+      return NextResponse.json({ error: 'Failed to delete comment' }, { status: 500 });
+    }
+
+    await invalidateCacheTags(postCacheTags(found.post));
+
+    return NextResponse.json({
+      message: 'Comment deleted successfully',
+      deleted_comment: { id: found.commentId },
+    });
+  },
+  {
+    requireAuth: true,
+    authValidator: validateAPIKey,
+    requiredScopes: ['posts:write'],
+    paramsSchema: CommentParamsSchema,
+  }
+);
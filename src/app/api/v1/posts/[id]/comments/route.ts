@@ -1,205 +1,145 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-
-// Initialize Supabase client with service role
-const getSupabaseClient = () => {
-  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE) {
-    throw new Error('Missing Supabase configuration');
-  }
-  return createClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL,
-    process.env.SUPABASE_SERVICE_ROLE
-  );
-};
-
-// API Key validation middleware
-async function validateApiKey(request: NextRequest) {
-  const authHeader = request.headers.get('Authorization');
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return { valid: false, error: 'Missing or invalid Authorization header' };
-  }
-
-  const apiKey = authHeader.replace('Bearer ', '');
-  
-  // Hash the API key for comparison
-  const crypto = require('crypto');
-  const hashedKey = crypto.createHash('sha256').update(apiKey).digest('hex');
-  
-  const supabase = getSupabaseClient();
-  const { data: apiKeyData, error } = await supabase
-    .from('api_keys')
-    .select(`
-      *,
-      projects!inner(id, slug, name, plan, user_id)
-    `)
-    .eq('key_hash', hashedKey)
-    .single();
-
-  if (error || !apiKeyData) {
-    return { valid: false, error: 'Invalid API key' };
-  }
-
-  return { valid: true, project: apiKeyData.projects, apiKey: apiKeyData };
-}
-
-// GET /api/v1/posts/[id]/comments - Get all comments for a post
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    // Validate API key
-    const authResult = await validateApiKey(request);
-    if (!authResult.valid) {
-      return NextResponse.json({ error: authResult.error }, { status: 401 });
-    }
-
-    const { project } = authResult;
-    const resolvedParams = await params;
-    const postId = resolvedParams.id;
-
-    const supabase = getSupabaseClient();
-
-    // Get query parameters
-    const { searchParams } = new URL(request.url);
-    const limit = parseInt(searchParams.get('limit') || '50');
-    const offset = parseInt(searchParams.get('offset') || '0');
-
-    // First verify the post belongs to this project
-    const { data: post, error: postError } = await supabase
-      .from('posts')
-      .select(`
-        id,
-        boards!inner(project_id)
-      `)
-      .eq('id', postId)
-      .eq('boards.project_id', project.id)
-      .single();
-
-    if (postError) {
-      if (postError.code === 'PGRST116') {
-        return NextResponse.json({ error: 'Post not found' }, { status: 404 });
-      }
-      console.error('Error fetching post:', postError);
-      return NextResponse.json({ error: 'Failed to fetch post' }, { status: 500 });
+import { NextResponse } from 'next/server';
+import { secureAPI, validateAPIKey } from '@/lib/api-security';
+import { invalidateCacheTags, postCacheTags } from '@/lib/cache';
+import {
+  CommentListQuerySchema,
+  CreateCommentSchema,
+  PostParamsSchema,
+  InvalidCursorError,
+  COMMENT_COLUMNS,
+  applyListQuery,
+  badRequest,
+  findProjectPost,
+  notFound,
+  notifyIntegrations,
+  requireSupabase,
+  toCursorPage,
+  type CreateCommentBody,
+  type ListQuery,
+  type PostParams,
+} from '@/lib/api-v1';
+
+export const runtime = 'nodejs';
+export const maxDuration = 30;
+
+// GET /api/v1/posts/[id]/comments - List comments, oldest first by default
+export const GET = secureAPI<never, PostParams>(
+  async ({ project, params, query }) => {
+    const filters = query as unknown as ListQuery;
+    const supabase = requireSupabase();
+
+    const post = await findProjectPost(supabase, project.id, params!.id);
+    if (!post) {
+      return notFound('Post');
     }
 
-    // Get comments for this post
-    const { data: comments, error, count } = await supabase
+    let dbQuery = supabase
       .from('comments')
-      .select(`
-        id,
-        content,
-        author_name,
-        author_email,
-        created_at,
-        updated_at
-      `)
-      .eq('post_id', postId)
-      .range(offset, offset + limit - 1)
-      .order('created_at', { ascending: true });
+      .select(COMMENT_COLUMNS)
+      .eq('post_id', post.id);
+
+    try {
+      dbQuery = applyListQuery(dbQuery, filters);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) return badRequest(error.message);
+      throw error;
+    }
 
+    const { data, error } = await dbQuery;
     if (error) {
       console.error('Error fetching comments:', error);
       return NextResponse.json({ error: 'Failed to fetch comments' }, { status: 500 });
     }
 
-    return NextResponse.json({
-      data: comments,
-      pagination: {
-        limit,
-        offset,
-        total: count,
-        has_more: comments.length === limit
-      }
-    });
-
-  } catch (error) {
-    console.error('API Error:', error);
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    return NextResponse.json(
+      toCursorPage((data || []) as unknown as { id: string; created_at: string }[], filters.limit, 'created_at')
+    );
+  },
+  {
+    requireAuth: true,
+    authValidator: validateAPIKey,
+    requiredScopes: ['posts:read'],
+    paramsSchema: PostParamsSchema,
+    querySchema: CommentListQuerySchema,
   }
-}
-
-// POST /api/v1/posts/[id]/comments - Create a new comment
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    // Validate API key
-    const authResult = await validateApiKey(request);
-    if (!authResult.valid) {
-      return NextResponse.json({ error: authResult.error }, { status: 401 });
-    }
+);
 
-    const { project } = authResult;
-    const resolvedParams = await params;
-    const postId = resolvedParams.id;
-    const body = await request.json();
+// POST /api/v1/posts/[id]/comments - Add a comment or a reply
+export const POST = secureAPI<CreateCommentBody, PostParams>(
+  async ({ project, params, body }) => {
+    const input = body!;
+    const supabase = requireSupabase();
 
-    // Validate required fields
-    if (!body.content) {
-      return NextResponse.json({ 
-        error: 'Missing required field: content is required' 
-      }, { status: 400 });
+    const post = await findProjectPost(supabase, project.id, params!.id);
+    if (!post) {
+      return notFound('Post');
     }
 
-    const supabase = getSupabaseClient();
-
-    // First verify the post belongs to this project
-    const { data: post, error: postError } = await supabase
-      .from('posts')
-      .select(`
-        id,
-        boards!inner(project_id)
-      `)
-      .eq('id', postId)
-      .eq('boards.project_id', project.id)
-      .single();
+    if (post.duplicate_of) {
+      return NextResponse.json(
+        { error: 'This post has been merged into another post. Comments are disabled.' },
+        { status: 403 }
+      );
+    }
+
+    if (input.parent_id) {
+      const { data: parent } = await supabase
+        .from('comments')
+        .select('id')
+        .eq('id', input.parent_id)
+        .eq('post_id', post.id)
+        .maybeSingle();
 
-    if (postError) {
-      if (postError.code === 'PGRST116') {
-        return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+      if (!parent) {
+        return badRequest('parent_id must be a comment on the same post');
       }
-      console.error('Error fetching post:', postError);
-      return NextResponse.json({ error: 'Failed to fetch post' }, { status: 500 });
     }
 
-    // Create the comment
-    const { data: comment, error: commentError } = await supabase
+    const { data: comment, error } = await supabase
       .from('comments')
       .insert({
-        post_id: postId,
-        content: body.content,
-        author_name: body.author_name || 'API User',
-        author_email: body.author_email || null,
-        created_via: 'api'
+        post_id: post.id,
+        parent_id: input.parent_id || null,
+        content: input.content,
+        author_name: input.author_name,
+        author_email: input.author_email || null,
+        created_via: 'api',
       })
-      .select(`
-        id,
-        content,
-        author_name,
-        author_email,
-        created_at,
-        updated_at
-      `)
+      .select(COMMENT_COLUMNS)
       .single();
 
-    if (commentError) {
-      console.error('Error creating comment:', commentError);
+    if (error || !comment) {
+      console.error('Error creating comment:', error);
       return NextResponse.json({ error: 'Failed to create comment' }, { status: 500 });
     }
 
-    // Update the post's comment count
-    await supabase
-      .from('posts')
-      .update({ comments_count: supabase.sql`comments_count + 1` })
-      .eq('id', postId);
+    await invalidateCacheTags(postCacheTags(post));
+
+    await notifyIntegrations(project.id, 'comment.created', {
+      comment: {
+        id: comment.id,
+        content: comment.content,
+        author_name: comment.author_name,
+        author_email: comment.author_email,
+        parent_id: comment.parent_id,
+        created_at: comment.created_at,
+      },
+      post: {
+        id: post.id,
+        title: post.title,
+      },
+      project: {
+        id: project.id,
+      },
+    });
 
     return NextResponse.json({ data: comment }, { status: 201 });
-
-  } catch (error) {
-    console.error('API Error:', error);
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  },
+  {
+    requireAuth: true,
+    authValidator: validateAPIKey,
+    requiredScopes: ['posts:write'],
+    paramsSchema: PostParamsSchema,
+    bodySchema: CreateCommentSchema,
   }
-}
+);
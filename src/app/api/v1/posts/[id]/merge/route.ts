@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server';
+import { secureAPI, validateAPIKey } from '@/lib/api-security';
+import { invalidateCacheTags, postCacheTags } from '@/lib/cache';
+import {
+  MergePostSchema,
+  PostParamsSchema,
+  POST_COLUMNS,
+  badRequest,
+  findProjectPost,
+  notFound,
+  notifyIntegrations,
+  requireSupabase,
+  type MergePostBody,
+  type PostParams,
+} from '@/lib/api-v1';
+
+export const runtime = 'nodejs';
+export const maxDuration = 30;
+
+// POST /api/v1/posts/[id]/merge - Merge this post into target_post_id.
+// The merged post stays readable but is hidden from lists and closed to
+// votes and comments, like a merge from the dashboard.
+export const POST = secureAPI<MergePostBody, PostParams>(
+  async ({ project, params, body }) => {
+    const supabase = requireSupabase();
+    const targetId = body!.target_post_id;
+
+    if (targetId === params!.id) {
+      return badRequest('A post cannot be merged into itself');
+    }
+
+    const [source, target] = await Promise.all([
+      findProjectPost(supabase, project.id, params!.id),
+      findProjectPost(supabase, project.id, targetId),
+    ]);
+
+    if (!source) {
+      return notFound('Post');
+    }
+    if (!target) {
+      return notFound('Target post');
+    }
+    if (source.duplicate_of) {
+      return NextResponse.json(
+        { error: 'This post has already been merged', merged_into: source.duplicate_of },
+        { status: 409 }
+      );
+    }
+    if (target.duplicate_of) {
+      return badRequest(`Target post has itself been merged into ${target.duplicate_of}`);
+    }
+
+    const { data: merged, error } = await supabase
+      .from('posts')
+      .update({
+        duplicate_of: target.id,
+        merged_into: target.id,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', source.id)
+      .select(POST_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error merging post:', error);
+      return NextResponse.json({ error: 'Failed to merge post' }, { status: 500 });
+    }
+
+    const { error: historyError } = await supabase
+      .from('feedback_merges')
+      .insert({
+        project_id: project.id,
+        primary_post_id: target.id,
+        merged_post_id: source.id,
+        similarity_score: 1,
+        auto_merged: false,
+        merged_by: project.user_id,
+        merge_reason: 'Merged via API',
+      });
+
+    if (historyError) {
+      // The merge itself succeeded; only the history row is missing
+      console.error('Error recording merge history:', historyError);
+    }
+
+    await invalidateCacheTags([...postCacheTags(source), ...postCacheTags(target)]);
+
+    await notifyIntegrations(project.id, 'duplicate.merged', {
+      merge: {
+        primary_id: target.id,
+        primary_title: target.title,
+        duplicate_count: 1,
+        merged_post_ids: [source.id],
+      },
+      project: {
+        id: project.id,
+      },
+    });
+
+    return NextResponse.json({ data: merged, merged_into: target.id });
+  },
+  {
+    requireAuth: true,
+    authValidator: validateAPIKey,
+    requiredScopes: ['posts:write'],
+    paramsSchema: PostParamsSchema,
+    bodySchema: MergePostSchema,
+  }
+);
@@ -1,272 +1,171 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-import { withRateLimit } from '@/middleware/rate-limit';
-
-// Initialize Supabase client with service role
-const getSupabaseClient = () => {
-  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE) {
-    throw new Error('Missing Supabase configuration');
-  }
-  return createClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL,
-    process.env.SUPABASE_SERVICE_ROLE
-  );
-};
-
-// API Key validation middleware
-async function validateApiKey(request: NextRequest) {
-  const authHeader = request.headers.get('Authorization');
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return { valid: false, error: 'Missing or invalid Authorization header' };
-  }
-
-  const apiKey = authHeader.replace('Bearer ', '');
-  
-  // Hash the API key for comparison
-  const crypto = require('crypto');
-  const hashedKey = crypto.createHash('sha256').update(apiKey).digest('hex');
-  
-  const supabase = getSupabaseClient();
-  const { data: apiKeyData, error } = await supabase
-    .from('api_keys')
-    .select(`
-      *,
-      projects!inner(id, slug, name, plan, user_id)
-    `)
-    .eq('key_hash', hashedKey)
-    .single();
-
-  if (error || !apiKeyData) {
-    return { valid: false, error: 'Invalid API key' };
-  }
-
-  return { valid: true, project: apiKeyData.projects, apiKey: apiKeyData };
-}
+import { NextResponse } from 'next/server';
+import { secureAPI, validateAPIKey } from '@/lib/api-security';
+import { invalidateCacheTags, postCacheTags } from '@/lib/cache';
+import {
+  LegacyUpdatePostSchema,
+  PostParamsSchema,
+  UpdatePostSchema,
+  LEGACY_POST_COLUMNS,
+  POST_COLUMNS,
+  badRequest,
+  boardBelongsToProject,
+  findProjectPost,
+  notFound,
+  notifyIntegrations,
+  requireSupabase,
+  type LegacyUpdatePostBody,
+  type PostParams,
+  type UpdatePostBody,
+} from '@/lib/api-v1';
+
+export const runtime = 'nodejs';
+export const maxDuration = 30;
 
 // GET /api/v1/posts/[id] - Get a specific post
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  return withRateLimit(request, async () => getHandler(request, params), 'api');
-}
-
-async function getHandler(
-  request: NextRequest,
-  params: Promise<{ id: string }>
-) {
-  try {
-    // Validate API key
-    const authResult = await validateApiKey(request);
-    if (!authResult.valid) {
-      return NextResponse.json({ error: authResult.error }, { status: 401 });
+export const GET = secureAPI<never, PostParams>(
+  async ({ project, params }) => {
+    const post = await findProjectPost(requireSupabase(), project.id, params!.id);
+    if (!post) {
+      return notFound('Post');
     }
 
-    const { project } = authResult;
-    const resolvedParams = await params;
-    const postId = resolvedParams.id;
+    return NextResponse.json({ data: post });
+  },
+  {
+    requireAuth: true,
+    authValidator: validateAPIKey,
+    requiredScopes: ['posts:read'],
+    paramsSchema: PostParamsSchema,
+  }
+);
+
+// PATCH /api/v1/posts/[id] - Update title, description, board, category or author.
+// Status changes and merges have their own endpoints so they fire the right events.
+export const PATCH = secureAPI<UpdatePostBody, PostParams>(
+  async ({ project, params, body }) => {
+    const supabase = requireSupabase();
+    const existing = await findProjectPost(supabase, project.id, params!.id);
+    if (!existing) {
+      return notFound('Post');
+    }
 
-    const supabase = getSupabaseClient();
+    const updates = body!;
+    if (updates.board_id && !(await boardBelongsToProject(supabase, project.id, updates.board_id))) {
+      return badRequest('board_id does not belong to this project');
+    }
 
     const { data: post, error } = await supabase
       .from('posts')
-      .select(`
-        id,
-        title,
-        description,
-        status,
-        ai_category,
-        ai_confidence,
-        vote_count,
-        comments_count,
-        author_name,
-        author_email,
-        created_at,
-        updated_at,
-        boards!inner(
-          id,
-          name,
-          project_id
-        )
-      `)
-      .eq('id', postId)
-      .eq('boards.project_id', project.id)
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', existing.id)
+      .select(POST_COLUMNS)
       .single();
 
     if (error) {
-      if (error.code === 'PGRST116') {
-        return NextResponse.json({ error: 'Post not found' }, { status: 404 });
-      }
-      console.error('Error fetching post:', error);
-      return NextResponse.json({ error: 'Failed to fetch post' }, { status: 500 });
+      console.error('Error updating post:', error);
+      return NextResponse.json({ error: 'Failed to update post' }, { status: 500 });
     }
 
-    return NextResponse.json({ data: post });
+    // A board move invalidates both the old and the new board
+    await invalidateCacheTags([...postCacheTags(existing), ...postCacheTags(updates)]);
 
-  } catch (error) {
-    console.error('API Error:', error);
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    return NextResponse.json({ data: post });
+  },
+  {
+    requireAuth: true,
+    authValidator: validateAPIKey,
+    requiredScopes: ['posts:write'],
+    paramsSchema: PostParamsSchema,
+    bodySchema: UpdatePostSchema,
   }
-}
-
-// PUT /api/v1/posts/[id] - Update a specific post
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  return withRateLimit(request, async () => putHandler(request, params), 'api');
-}
-
-async function putHandler(
-  request: NextRequest,
-  params: Promise<{ id: string }>
-) {
-  try {
-    // Validate API key
-    const authResult = await validateApiKey(request);
-    if (!authResult.valid) {
-      return NextResponse.json({ error: authResult.error }, { status: 401 });
-    }
-
-    const { project } = authResult;
-    const resolvedParams = await params;
-    const postId = resolvedParams.id;
-    const body = await request.json();
-
-    const supabase = getSupabaseClient();
-
-    // First, verify the post belongs to this project
-    const { data: existingPost, error: fetchError } = await supabase
-      .from('posts')
-      .select(`
-        id,
-        boards!inner(project_id)
-      `)
-      .eq('id', postId)
-      .eq('boards.project_id', project.id)
-      .single();
-
-    if (fetchError) {
-      if (fetchError.code === 'PGRST116') {
-        return NextResponse.json({ error: 'Post not found' }, { status: 404 });
-      }
-      console.error('Error fetching post:', fetchError);
-      return NextResponse.json({ error: 'Failed to fetch post' }, { status: 500 });
+);
+
+// PUT /api/v1/posts/[id] - Legacy update kept for existing integrations.
+// Unlike PATCH it still sets status and the AI category and confidence,
+// and answers with the original response shape.
+export const PUT = secureAPI<LegacyUpdatePostBody, PostParams>(
+  async ({ project, params, body }) => {
+    const supabase = requireSupabase();
+    const existing = await findProjectPost(supabase, project.id, params!.id);
+    if (!existing) {
+      return notFound('Post');
     }
 
-    // Build update object with only provided fields
-    const updateData: any = {};
-    if (body.title !== undefined) updateData.title = body.title;
-    if (body.description !== undefined) updateData.description = body.description;
-    if (body.status !== undefined) updateData.status = body.status;
-    if (body.category !== undefined) updateData.ai_category = body.category;
-    if (body.confidence !== undefined) updateData.ai_confidence = body.confidence;
-    if (body.author_name !== undefined) updateData.author_name = body.author_name;
-    if (body.author_email !== undefined) updateData.author_email = body.author_email;
-
-    // Add updated_at timestamp
-    updateData.updated_at = new Date().toISOString();
+    const { category, confidence, ...fields } = body!;
+    const updates: Record<string, unknown> = { ...fields, updated_at: new Date().toISOString() };
+    if (category !== undefined) updates.ai_category = category;
+    if (confidence !== undefined) updates.ai_confidence = confidence;
 
-    // Update the post
-    const { data: updatedPost, error: updateError } = await supabase
+    const { data: post, error } = await supabase
       .from('posts')
-      .update(updateData)
-      .eq('id', postId)
-      .select(`
-        id,
-        title,
-        description,
-        status,
-        ai_category,
-        ai_confidence,
-        vote_count,
-        comments_count,
-        author_name,
-        author_email,
-        created_at,
-        updated_at
-      `)
+      .update(updates)
+      .eq('id', existing.id)
+      .select(LEGACY_POST_COLUMNS)
       .single();
 
-    if (updateError) {
-      console.error('Error updating post:', updateError);
+    if (error) {
+      console.error('Error updating post:', error);
       return NextResponse.json({ error: 'Failed to update post' }, { status: 500 });
     }
 
-    return NextResponse.json({ data: updatedPost });
+    await invalidateCacheTags(postCacheTags(existing));
 
-  } catch (error) {
-    console.error('API Error:', error);
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    return NextResponse.json({ data: post });
+  },
+  {
+    requireAuth: true,
+    authValidator: validateAPIKey,
+    requiredScopes: ['posts:write'],
+    paramsSchema: PostParamsSchema,
+    bodySchema: LegacyUpdatePostSchema,
   }
-}
-
-// DELETE /api/v1/posts/[id] - Delete a specific post
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  return withRateLimit(request, async () => deleteHandler(request, params), 'api');
-}
-
-async function deleteHandler(
-  request: NextRequest,
-  params: Promise<{ id: string }>
-) {
-  try {
-    // Validate API key
-    const authResult = await validateApiKey(request);
-    if (!authResult.valid) {
-      return NextResponse.json({ error: authResult.error }, { status: 401 });
+);
+
+// DELETE /api/v1/posts/[id] - Delete a post with its comments and votes
+export const DELETE = secureAPI<never, PostParams>(
+  async ({ project, params }) => {
+    const supabase = requireSupabase();
+    const existing = await findProjectPost(supabase, project.id, params!.id);
+    if (!existing) {
+      return notFound('Post');
     }
 
-    const { project } = authResult;
-    const resolvedParams = await params;
-    const postId = resolvedParams.id;
-
-    const supabase = getSupabaseClient();
-
-    // First, verify the post belongs to this project
-    const { data: existingPost, error: fetchError } = await supabase
-      .from('posts')
-      .select(`
-        id,
-        title,
-        boards!inner(project_id)
-      `)
-      .eq('id', postId)
-      .eq('boards.project_id', project.id)
-      .single();
-
-    if (fetchError) {
-      if (fetchError.code === 'PGRST116') {
-        return NextResponse.json({ error: 'Post not found' }, { status: 404 });
-      }
-      console.error('Error fetching post:', fetchError);
-      return NextResponse.json({ error: 'Failed to fetch post' }, { status: 500 });
-    }
-
-    // Delete the post (this will cascade delete comments and votes)
-    const { error: deleteError } = await supabase
+    // Comments and votes cascade with the post
+    const { error } = await supabase
       .from('posts')
       .delete()
-      .eq('id', postId);
+      .eq('id', existing.id);
 
-    if (deleteError) {
-      console.error('Error deleting post:', deleteError);
+    if (error) {
+      console.error('Error deleting post:', error);
       return NextResponse.json({ error: 'Failed to delete post' }, { status: 500 });
     }
 
-    return NextResponse.json({ 
+    await invalidateCacheTags(postCacheTags(existing));
+
+    await notifyIntegrations(project.id, 'post.deleted', {
+      post: {
+        id: existing.id,
+        title: existing.title,
+        deleted_at: new Date().toISOString(),
+      },
+      project: {
+        id: project.id,
+      },
+    });
+
+    return NextResponse.json({
       message: 'Post deleted successfully',
       deleted_post: {
-        id: postId,
-        title: existingPost.title
-      }
+        id: existing.id,
+        title: existing.title,
+      },
     });
-
-  } catch (error) {
-    console.error('API Error:', error);
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  },
+  {
+    requireAuth: true,
+    authValidator: validateAPIKey,
+    requiredScopes: ['posts:write'],
+    paramsSchema: PostParamsSchema,
   }
-}
+);
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { secureAPI, validateAPIKey } from '@/lib/api-security';
+import { invalidateCacheTags, postCacheTags } from '@/lib/cache';
+import {
+  PostParamsSchema,
+  UpdatePostStatusSchema,
+  POST_COLUMNS,
+  findProjectPost,
+  notFound,
+  notifyIntegrations,
+  requireSupabase,
+  type PostParams,
+  type UpdatePostStatusBody,
+} from '@/lib/api-v1';
+
+export const runtime = 'nodejs';
+export const maxDuration = 30;
+
+// PATCH /api/v1/posts/[id]/status - Move a post through the workflow
+export const PATCH = secureAPI<UpdatePostStatusBody, PostParams>(
+  async ({ project, params, body }) => {
+    const supabase = requireSupabase();
+    const existing = await findProjectPost(supabase, project.id, params!.id);
+    if (!existing) {
+      return notFound('Post');
+    }
+
+    const { status, note } = body!;
+    const { data: post, error } = await supabase
+      .from('posts')
+      .update({
+        status,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', existing.id)
+      .select(POST_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error updating post status:', error);
+      return NextResponse.json({ error: 'Failed to update post status' }, { status: 500 });
+    }
+
+    await invalidateCacheTags(postCacheTags(existing));
+
+    if (existing.status !== status) {
+      await notifyIntegrations(project.id, 'post.status_changed', {
+        post: {
+          id: existing.id,
+          title: existing.title,
+          description: existing.description,
+          old_status: existing.status,
+          new_status: status,
+          author_name: existing.author_name,
+          author_email: existing.author_email,
+          note: note || null,
+          updated_at: new Date().toISOString(),
+        },
+        project: {
+          id: project.id,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      data: post,
+      previous_status: existing.status,
+    });
+  },
+  {
+    requireAuth: true,
+    authValidator: validateAPIKey,
+    requiredScopes: ['posts:write'],
+    paramsSchema: PostParamsSchema,
+    bodySchema: UpdatePostStatusSchema,
+  }
+);
@@ -0,0 +1,241 @@
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { secureAPI, validateAPIKey } from '@/lib/api-security';
+import { invalidateCacheTags, postCacheTags } from '@/lib/cache';
+import {
+  CastVoteSchema,
+  PostParamsSchema,
+  RetractVoteQuerySchema,
+  VoteListQuerySchema,
+  InvalidCursorError,
+  VOTE_COLUMNS,
+  applyListQuery,
+  badRequest,
+  findProjectPost,
+  hashVoterEmail,
+  notFound,
+  notifyIntegrations,
+  requireSupabase,
+  toCursorPage,
+  type CastVoteBody,
+  type ListQuery,
+  type PostParams,
+  type RetractVoteQuery,
+} from '@/lib/api-v1';
+
+export const runtime = 'nodejs';
+export const maxDuration = 30;
+
+/**
+ * Refresh priority counts and read back vote_count, which the
+ * `trigger_update_vote_count` trigger maintains on insert/delete
+ */
+async function refreshVoteCounts(supabase: SupabaseClient, postId: string): Promise<number> {
+  try {
+    await supabase.rpc('update_post_priority_counts', { p_post_id: postId });
+  } catch (priorityError) {
+    console.error('Error updating priority counts:', priorityError);
+  }
+
+  const { data } = await supabase
+    .from('posts')
+    .select('vote_count')
+    .eq('id', postId)
+    .single();
+
+  return data?.vote_count ?? 0;
+}
+
+// GET /api/v1/posts/[id]/votes - List votes, newest first
+export const GET = secureAPI<never, PostParams>(
+  async ({ project, params, query }) => {
+    const filters = query as unknown as ListQuery;
+    const supabase = requireSupabase();
+
+    const post = await findProjectPost(supabase, project.id, params!.id);
+    if (!post) {
+      return notFound('Post');
+    }
+
+    let dbQuery = supabase
+      .from('votes')
+      .select(VOTE_COLUMNS)
+      .eq('post_id', post.id);
+
+    try {
+      dbQuery = applyListQuery(dbQuery, filters);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) return badRequest(error.message);
+      throw error;
+    }
+
+    const { data, error } = await dbQuery;
+    if (error) {
+      console.error('Error fetching votes:', error);
+      return NextResponse.json({ error: 'Failed to fetch votes' }, { status: 500 });
+    }
+
+    return NextResponse.json(
+      toCursorPage((data || []) as unknown as { id: string; created_at: string }[], filters.limit, 'created_at')
+    );
+  },
+  {
+    requireAuth: true,
+    authValidator: validateAPIKey,
+    requiredScopes: ['posts:read'],
+    paramsSchema: PostParamsSchema,
+    querySchema: VoteListQuerySchema,
+  }
+);
+
+// POST /api/v1/posts/[id]/votes - Cast a vote on behalf of an end user
+export const POST = secureAPI<CastVoteBody, PostParams>(
+  async ({ project, params, body }) => {
+    const input = body!;
+    const supabase = requireSupabase();
+
+    const post = await findProjectPost(supabase, project.id, params!.id);
+    if (!post) {
+      return notFound('Post');
+    }
+
+    if (post.duplicate_of) {
+      return NextResponse.json(
+        { error: 'This post has been merged into another post. Voting is disabled.' },
+        { status: 403 }
+      );
+    }
+
+    const voterHash = hashVoterEmail(input.voter_email);
+
+    const { data: existingVote } = await supabase
+      .from('votes')
+      .select('id')
+      .eq('post_id', post.id)
+      .eq('voter_hash', voterHash)
+      .maybeSingle();
+
+    if (existingVote) {
+      return NextResponse.json(
+        { error: 'This user has already voted on this post', vote_id: existingVote.id },
+        { status: 409 }
+      );
+    }
+
+    const { data: vote, error } = await supabase
+      .from('votes')
+      .insert({
+        post_id: post.id,
+        voter_hash: voterHash,
+        priority: input.priority,
+        created_at: new Date().toISOString(),
+      })
+      .select(VOTE_COLUMNS)
+      .single();
+
+    if (error || !vote) {
+      console.error('Error creating vote:', error);
+      return NextResponse.json({ error: 'Failed to create vote' }, { status: 500 });
+    }
+
+    const { error: metadataError } = await supabase
+      .from('vote_metadata')
+      .insert({
+        vote_id: vote.id,
+        voted_by_admin_id: project.user_id,
+        voted_by_admin_name: 'API',
+        customer_email: input.voter_email.toLowerCase(),
+        customer_name: input.voter_name || input.voter_email,
+        customer_company: input.voter_company || null,
+        priority: input.priority,
+        vote_source: 'api',
+        internal_note: input.note || null,
+        customer_notified: false,
+      });
+
+    if (metadataError) {
+      // Don't fail the request, the vote is already recorded
+      console.error('Error creating vote metadata:', metadataError);
+    }
+
+    const voteCount = await refreshVoteCounts(supabase, post.id);
+    await invalidateCacheTags(postCacheTags(post));
+
+    await notifyIntegrations(project.id, 'vote.created', {
+      vote: {
+        post_id: post.id,
+        priority: input.priority,
+        vote_count: voteCount,
+        created_at: vote.created_at,
+      },
+      post: {
+        id: post.id,
+        title: post.title,
+      },
+      project: {
+        id: project.id,
+      },
+    });
+
+    return NextResponse.json({ data: vote, vote_count: voteCount }, { status: 201 });
+  },
+  {
+    requireAuth: true,
+    authValidator: validateAPIKey,
+    requiredScopes: ['votes:write'],
+    paramsSchema: PostParamsSchema,
+    bodySchema: CastVoteSchema,
+  }
+);
+
+// DELETE /api/v1/posts/[id]/votes?voter_email= - Retract an end user's vote
+export const DELETE = secureAPI<never, PostParams>(
+  async ({ project, params, query }) => {
+    const { voter_email } = query as unknown as RetractVoteQuery;
+    const supabase = requireSupabase();
+
+    const post = await findProjectPost(supabase, project.id, params!.id);
+    if (!post) {
+      return notFound('Post');
+    }
+
+    const { data: vote } = await supabase
+      .from('votes')
+      .select('id')
+      .eq('post_id', post.id)
+      .eq('voter_hash', hashVoterEmail(voter_email))
+      .maybeSingle();
+
+    if (!vote) {
+      return notFound('Vote');
+    }
+
+    await supabase.from('vote_metadata').delete().eq('vote_id', vote.id);
+
+    const { error } = await supabase
+      .from('votes')
+      .delete()
+      .eq('id', vote.id);
+
+    if (error) {
+      console.error('Error deleting vote:', error);
+      return NextResponse.json({ error: 'Failed to remove vote' }, { status: 500 });
+    }
+
+    const voteCount = await refreshVoteCounts(supabase, post.id);
+    await invalidateCacheTags(postCacheTags(post));
+
+    return NextResponse.json({
+      message: 'Vote removed successfully',
+      deleted_vote: { id: vote.id },
+      vote_count: voteCount,
+    });
+  },
+  {
+    requireAuth: true,
+    authValidator: validateAPIKey,
+    requiredScopes: ['votes:write'],
+    paramsSchema: PostParamsSchema,
+    querySchema: RetractVoteQuerySchema,
+  }
+);
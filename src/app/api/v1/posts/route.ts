@@ -1,17 +1,147 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withRateLimit } from '@/middleware/rate-limit';
 import { getServiceRoleClient } from '@/lib/supabase-singleton';
-import { withCache } from '@/lib/cache';
+import { withCache, cacheTags, invalidateCacheTags, postCacheTags } from '@/lib/cache';
 import { withSupabaseRetry } from '@/lib/retry';
+import { secureAPI, validateAPIKey } from '@/lib/api-security';
+import {
+  CreatePostSchema,
+  PostListQuerySchema,
+  InvalidCursorError,
+  POST_COLUMNS,
+  applyListQuery,
+  badRequest,
+  boardBelongsToProject,
+  findDefaultBoardId,
+  notifyIntegrations,
+  requireSupabase,
+  toCursorPage,
+  type CreatePostBody,
+  type PostListQuery,
+  type V1Post,
+} from '@/lib/api-v1';
 
 // Force Node.js runtime for better connection handling
 export const runtime = 'nodejs';
 export const maxDuration = 30;
 
+// GET /api/v1/posts
+// With an API key: the key's project, filtered and cursor paginated.
+// Without one: the legacy public listing of open posts by project_slug.
 export async function GET(request: NextRequest) {
+  if (request.headers.get('authorization')) {
+    return listPosts(request);
+  }
   return withRateLimit(request, () => getHandler(request), 'api');
 }
 
+const listPosts = secureAPI(
+  async ({ project, query }) => {
+    const filters = query as unknown as PostListQuery;
+    const supabase = requireSupabase();
+
+    let dbQuery = supabase
+      .from('posts')
+      .select(POST_COLUMNS)
+      .eq('project_id', project.id);
+
+    if (!filters.include_merged) dbQuery = dbQuery.is('duplicate_of', null);
+    if (filters.status) dbQuery = dbQuery.in('status', filters.status);
+    if (filters.category) dbQuery = dbQuery.eq('category', filters.category);
+    if (filters.board_id) dbQuery = dbQuery.eq('board_id', filters.board_id);
+    if (filters.updated_after) dbQuery = dbQuery.gte('updated_at', filters.updated_after);
+
+    try {
+      dbQuery = applyListQuery(dbQuery, filters, filters.sort);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) return badRequest(error.message);
+      throw error;
+    }
+
+    const { data, error } = await dbQuery;
+    if (error) {
+      console.error('Error listing posts:', error);
+      return NextResponse.json({ error: 'Failed to fetch posts' }, { status: 500 });
+    }
+
+    return NextResponse.json(toCursorPage((data || []) as unknown as V1Post[], filters.limit, filters.sort));
+  },
+  {
+    requireAuth: true,
+    authValidator: validateAPIKey,
+    requiredScopes: ['posts:read'],
+    querySchema: PostListQuerySchema,
+  }
+);
+
+// POST /api/v1/posts - Create a post
+export const POST = secureAPI<CreatePostBody>(
+  async ({ project, body }) => {
+    const input = body!;
+    const supabase = requireSupabase();
+
+    let boardId = input.board_id ?? null;
+    if (boardId) {
+      if (!(await boardBelongsToProject(supabase, project.id, boardId))) {
+        return badRequest('board_id does not belong to this project');
+      }
+    } else {
+      boardId = await findDefaultBoardId(supabase, project.id);
+      if (!boardId) {
+        return badRequest('Project has no board; pass board_id');
+      }
+    }
+
+    const { data: post, error } = await supabase
+      .from('posts')
+      .insert({
+        project_id: project.id,
+        board_id: boardId,
+        title: input.title,
+        description: input.description || null,
+        category: input.category || null,
+        status: input.status,
+        author_name: input.author_name,
+        author_email: input.author_email || null,
+        ai_categorized: false,
+      })
+      .select(POST_COLUMNS)
+      .single();
+
+    if (error || !post) {
+      console.error('Error creating post:', error);
+      return NextResponse.json({ error: 'Failed to create post' }, { status: 500 });
+    }
+
+    const created = post as unknown as V1Post;
+    await invalidateCacheTags(postCacheTags(created));
+
+    await notifyIntegrations(project.id, 'post.created', {
+      post: {
+        id: created.id,
+        title: created.title,
+        description: created.description,
+        status: created.status,
+        author_name: created.author_name,
+        author_email: created.author_email,
+        category: created.category,
+        created_at: created.created_at,
+      },
+      project: {
+        id: project.id,
+      },
+    });
+
+    return NextResponse.json({ data: created }, { status: 201 });
+  },
+  {
+    requireAuth: true,
+    authValidator: validateAPIKey,
+    requiredScopes: ['posts:write'],
+    bodySchema: CreatePostSchema,
+  }
+);
+
 async function getHandler(request: NextRequest) {
   try {
     const supabase = getServiceRoleClient();
@@ -26,7 +156,7 @@ async function getHandler(request: NextRequest) {
       return NextResponse.json({ error: 'Project slug is required' }, { status: 400 });
     }
 
-    // Find the project with caching (5 min TTL) and graceful degradation
+    // Find the project with caching (5 min TTL, purged when the project is deleted) and graceful degradation
     const project = await withCache(
       `project:${projectSlug}`,
       async () => {
@@ -41,9 +171,10 @@ async function getHandler(request: NextRequest) {
         if (error || !data) {
           throw new Error('Project not found');
         }
-        return data;
+        return data as { id: string };
       },
-      300
+      300,
+      { tags: [cacheTags.projectSlug(projectSlug)] }
     ).catch((err) => {
       console.error('Failed to fetch project:', err);
       return null;
@@ -53,46 +184,58 @@ async function getHandler(request: NextRequest) {
       return NextResponse.json({ error: 'Project not found' }, { status: 404 });
     }
 
-    // Build query
-    let query = supabase
-      .from('posts')
-      .select(`
-        id,
-        title,
-        description,
-        category,
-        vote_count,
-        created_at,
-        author_name,
-        author_email,
-        status
-      `)
-      .eq('project_id', project.id)
-      .eq('status', 'open');
-
-    // Apply filters
-    if (category && category !== 'all') {
-      query = query.eq('category', category);
-    }
-
-    // Apply sorting
+    // Sorting and limit are normalized first so they form a stable cache key
     const validSortFields = ['created_at', 'vote_count', 'title'];
     const validOrders = ['asc', 'desc'];
-    
-    if (validSortFields.includes(sort) && validOrders.includes(order)) {
-      query = query.order(sort, { ascending: order === 'asc' });
-    } else {
-      query = query.order('created_at', { ascending: false });
-    }
+    const sortField = validSortFields.includes(sort) && validOrders.includes(order) ? sort : 'created_at';
+    const ascending = sortField === sort && order === 'asc';
+    const cappedLimit = Math.min(limit, 50); // Max 50 posts
+    const categoryFilter = category && category !== 'all' ? category : null;
 
-    // Apply limit
-    query = query.limit(Math.min(limit, 50)); // Max 50 posts
+    // Cache the post list (60s TTL); post mutations purge the project tag
+    const posts = await withCache(
+      `v1:posts:${project.id}:${categoryFilter ?? 'all'}:${sortField}:${ascending ? 'asc' : 'desc'}:${cappedLimit}`,
+      async () => {
+        // Build query
+        let query = supabase
+          .from('posts')
+          .select(`
+            id,
+            title,
+            description,
+            category,
+            vote_count,
+            created_at,
+            author_name,
+            author_email,
+            status
+          `)
+          .eq('project_id', project.id)
+          .eq('status', 'open');
+
+        // Apply filters
+        if (categoryFilter) {
+          query = query.eq('category', categoryFilter);
+        }
+
+        query = query.order(sortField, { ascending }).limit(cappedLimit);
+
+        // Execute query with retry logic
+        const { data, error } = await withSupabaseRetry(() => query);
 
-    // Execute query with retry logic
-    const { data: posts, error: postsError } = await withSupabaseRetry(() => query);
+        if (error) {
+          throw error;
+        }
+        return data || [];
+      },
+      60,
+      { tags: [cacheTags.project(project.id)] }
+    ).catch((err) => {
+      console.error('Error fetching posts:', err);
+      return null;
+    });
 
-    if (postsError) {
-      console.error('Error fetching posts:', postsError);
+    if (!posts) {
       return NextResponse.json({ error: 'Failed to fetch posts' }, { status: 500 });
     }
 
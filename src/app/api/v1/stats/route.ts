@@ -2,36 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { withRateLimit } from '@/middleware/rate-limit';
 import { getServiceRoleClient } from '@/lib/supabase-singleton';
 import { withTimeout } from '@/middleware/timeout';
-
-// API Key validation middleware
-async function validateApiKey(request: NextRequest) {
-  const authHeader = request.headers.get('Authorization');
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return { valid: false, error: 'Missing or invalid Authorization header' };
-  }
-
-  const apiKey = authHeader.replace('Bearer ', '');
-
-  // Hash the API key for comparison
-  const crypto = require('crypto');
-  const hashedKey = crypto.createHash('sha256').update(apiKey).digest('hex');
-
-  const supabase = getServiceRoleClient();
-  const { data: apiKeyData, error } = await supabase
-    .from('api_keys')
-    .select(`
-      *,
-      projects!inner(id, slug, name, plan, user_id)
-    `)
-    .eq('key_hash', hashedKey)
-    .single();
-
-  if (error || !apiKeyData) {
-    return { valid: false, error: 'Invalid API key' };
-  }
-
-  return { valid: true, project: apiKeyData.projects, apiKey: apiKeyData };
-}
+import { logAPIKeyUsage } from '@/lib/audit-logger';
+import { apiKeyErrorResponse, authenticateAPIKey, bearerAPIKey } from '@/lib/api-key-auth';
 
 // GET /api/v1/stats - Get project statistics
 export async function GET(request: NextRequest) {
@@ -41,12 +13,16 @@ export async function GET(request: NextRequest) {
 async function getHandler(request: NextRequest) {
   try {
     // Validate API key
-    const authResult = await validateApiKey(request);
+    const authResult = await authenticateAPIKey(request, bearerAPIKey(request), {
+      requiredScopes: ['export:read'],
+    });
     if (!authResult.valid) {
-      return NextResponse.json({ error: authResult.error }, { status: 401 });
+      return apiKeyErrorResponse(authResult);
     }
 
-    const { project } = authResult;
+    const { project, key: apiKey } = authResult;
+    void logAPIKeyUsage(apiKey.id, project.id, 'GET /api/v1/stats', request, 'export:read');
+
     const supabase = getServiceRoleClient();
 
     // Get query parameters for date range
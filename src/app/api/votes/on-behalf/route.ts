@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
 import { createHash } from 'crypto';
+import { invalidateCacheTags, postCacheTags } from '@/lib/cache';
 
 export const runtime = 'nodejs';
 export const maxDuration = 30;
@@ -201,6 +202,8 @@ export async function POST(request: NextRequest) {
       console.error('Error incrementing vote count:', error);
     }
 
+    await invalidateCacheTags(postCacheTags(postRecord));
+
     // Send customer notification email if requested
     if (notifyCustomer && metadata) {
       try {
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
+import { apiKeyErrorResponse, authenticateAPIKey, bearerAPIKey } from '@/lib/api-key-auth';
+import { redeliverWebhook } from '@/lib/webhooks';
+
+/**
+ * POST /api/webhooks/projects/[projectId]/[webhookId]/deliveries/[deliveryId]/redeliver
+ * Re-send a stored delivery's payload as a new delivery linked to the original
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; webhookId: string; deliveryId: string }> }
+) {
+  try {
+    const { projectId, webhookId, deliveryId } = await params;
+    const supabase = getSupabaseServiceRoleClient();
+
+    if (!supabase) {
+      console.error('Failed to initialize Supabase client');
+      return NextResponse.json({ error: 'Database connection error' }, { status: 500 });
+    }
+
+    const auth = await authenticateAPIKey(request, bearerAPIKey(request), {
+      projectId,
+      requiredScopes: ['webhooks:manage'],
+    });
+    if (!auth.valid) {
+      return apiKeyErrorResponse(auth);
+    }
+
+    // Verify delivery belongs to this webhook
+    const { data: delivery, error: deliveryError } = await supabase
+      .from('webhook_deliveries')
+      .select('id')
+      .eq('id', deliveryId)
+      .eq('webhook_id', webhookId)
+      .single();
+
+    if (deliveryError || !delivery) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 });
+    }
+
+    const result = await redeliverWebhook(deliveryId, projectId);
+
+    if (!result.delivery_id) {
+      return NextResponse.json({ error: result.error || 'Delivery not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      {
+        success: result.success,
+        message: result.success
+          ? 'Webhook redelivered successfully'
+          : result.next_attempt_at
+            ? 'Redelivery failed; it will be retried automatically'
+            : 'Redelivery failed',
+        delivery_id: result.delivery_id,
+        status_code: result.status_code,
+        error: result.error,
+        duration_ms: result.duration_ms,
+        next_attempt_at: result.next_attempt_at,
+      },
+      { status: result.success ? 200 : 400 }
+    );
+  } catch (error) {
+    console.error('Error in POST /api/webhooks/projects/[projectId]/[webhookId]/deliveries/[deliveryId]/redeliver:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
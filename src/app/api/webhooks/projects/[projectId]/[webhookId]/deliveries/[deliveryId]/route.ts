@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
+import { apiKeyErrorResponse, authenticateAPIKey, bearerAPIKey } from '@/lib/api-key-auth';
+
+// Everything but locked_at; request headers are added without the signature
+const DELIVERY_COLUMNS = [
+  'id', 'webhook_id', 'project_id', 'event_type', 'event_id', 'status',
+  'attempt_count', 'max_attempts', 'next_attempt_at', 'last_attempt_at',
+  'request_url', 'request_body', 'payload', 'status_code', 'response_headers',
+  'response_body', 'error_message', 'delivery_duration_ms', 'attempts',
+  'redelivery_of', 'success', 'created_at', 'delivered_at',
+];
+
+/**
+ * GET /api/webhooks/projects/[projectId]/[webhookId]/deliveries/[deliveryId]
+ * Full delivery log entry, including request/response bodies and every attempt
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; webhookId: string; deliveryId: string }> }
+) {
+  try {
+    const { projectId, webhookId, deliveryId } = await params;
+    const supabase = getSupabaseServiceRoleClient();
+
+    if (!supabase) {
+      console.error('Failed to initialize Supabase client');
+      return NextResponse.json({ error: 'Database connection error' }, { status: 500 });
+    }
+
+    const auth = await authenticateAPIKey(request, bearerAPIKey(request), {
+      projectId,
+      requiredScopes: ['webhooks:manage'],
+    });
+    if (!auth.valid) {
+      return apiKeyErrorResponse(auth);
+    }
+
+    // Delivery must belong to a webhook of this project
+    const { data: delivery, error } = await supabase
+      .from('webhook_deliveries')
+      .select('*, feedback_webhooks!inner(project_id)')
+      .eq('id', deliveryId)
+      .eq('webhook_id', webhookId)
+      .eq('feedback_webhooks.project_id', projectId)
+      .single();
+
+    if (error || !delivery) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 });
+    }
+
+    // Don't echo the joined row or the signing header back
+    const requestHeaders = { ...(delivery.request_headers as Record<string, string> | null) };
+    delete requestHeaders['X-Webhook-Signature'];
+
+    return NextResponse.json({
+      data: {
+        ...Object.fromEntries(DELIVERY_COLUMNS.map(column => [column, delivery[column]])),
+        request_headers: requestHeaders,
+      },
+    });
+  } catch (error) {
+    console.error('Error in GET /api/webhooks/projects/[projectId]/[webhookId]/deliveries/[deliveryId]:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
-import crypto from 'crypto';
+import { apiKeyErrorResponse, authenticateAPIKey, bearerAPIKey } from '@/lib/api-key-auth';
+
+// Summary columns only: request headers carry the signature, and bodies and
+// attempts are served by the single-delivery endpoint
+const DELIVERY_LIST_COLUMNS = [
+  'id', 'webhook_id', 'project_id', 'event_type', 'event_id', 'status',
+  'attempt_count', 'max_attempts', 'next_attempt_at', 'last_attempt_at',
+  'request_url', 'status_code', 'error_message', 'delivery_duration_ms',
+  'redelivery_of', 'success', 'created_at', 'delivered_at',
+].join(', ');
 
 export async function GET(
   request: NextRequest,
@@ -15,24 +24,12 @@ export async function GET(
       return NextResponse.json({ error: 'Database connection error' }, { status: 500 });
     }
 
-    // Get API key from header
-    const authHeader = request.headers.get('Authorization');
-    if (!authHeader?.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Missing API key' }, { status: 401 });
-    }
-
-    const apiKey = authHeader.replace('Bearer ', '');
-
-    // Verify API key belongs to this project
-    const keyHash = crypto.createHash('sha256').update(apiKey).digest('hex');
-    const { data: apiKeyData, error: keyError } = await supabase
-      .from('api_keys')
-      .select('project_id')
-      .eq('key_hash', keyHash)
-      .single();
-
-    if (keyError || !apiKeyData || apiKeyData.project_id !== projectId) {
-      return NextResponse.json({ error: 'Invalid API key' }, { status: 401 });
+    const auth = await authenticateAPIKey(request, bearerAPIKey(request), {
+      projectId,
+      requiredScopes: ['webhooks:manage'],
+    });
+    if (!auth.valid) {
+      return apiKeyErrorResponse(auth);
     }
 
     // Verify webhook belongs to this project
@@ -50,13 +47,23 @@ export async function GET(
     const url = new URL(request.url);
     const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 100);
     const offset = parseInt(url.searchParams.get('offset') || '0');
+    const status = url.searchParams.get('status');
 
     // Fetch delivery logs
-    const { data: deliveries, error, count } = await supabase
+    let query = supabase
       .from('webhook_deliveries')
-      .select('*', { count: 'exact' })
-      .eq('webhook_id', webhookId)
-      .order('delivered_at', { ascending: false })
+      .select(DELIVERY_LIST_COLUMNS, { count: 'exact' })
+      .eq('webhook_id', webhookId);
+
+    if (status) {
+      if (!['pending', 'delivering', 'delivered', 'failed'].includes(status)) {
+        return NextResponse.json({ error: 'Invalid status filter' }, { status: 400 });
+      }
+      query = query.eq('status', status);
+    }
+
+    const { data: deliveries, error, count } = await query
+      .order('created_at', { ascending: false })
       .range(offset, offset + limit - 1);
 
     if (error) {
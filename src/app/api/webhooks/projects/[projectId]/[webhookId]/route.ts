@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
-import crypto from 'crypto';
+import { apiKeyErrorResponse, authenticateAPIKey, bearerAPIKey } from '@/lib/api-key-auth';
+import { isWebhookEvent } from '@/lib/webhooks';
 
 export async function PATCH(
   request: NextRequest,
@@ -15,34 +16,35 @@ export async function PATCH(
       return NextResponse.json({ error: 'Database connection error' }, { status: 500 });
     }
 
-    // Get API key from header
-    const authHeader = request.headers.get('Authorization');
-    if (!authHeader?.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Missing API key' }, { status: 401 });
-    }
-
-    const apiKey = authHeader.replace('Bearer ', '');
-
-    // Verify API key belongs to this project
-    const keyHash = crypto.createHash('sha256').update(apiKey).digest('hex');
-    const { data: apiKeyData, error: keyError } = await supabase
-      .from('api_keys')
-      .select('project_id')
-      .eq('key_hash', keyHash)
-      .single();
-
-    if (keyError || !apiKeyData || apiKeyData.project_id !== projectId) {
-      return NextResponse.json({ error: 'Invalid API key' }, { status: 401 });
+    const auth = await authenticateAPIKey(request, bearerAPIKey(request), {
+      projectId,
+      requiredScopes: ['webhooks:manage'],
+    });
+    if (!auth.valid) {
+      return apiKeyErrorResponse(auth);
     }
 
     const body = await request.json();
     const { webhook_url, events, description, is_active } = body;
 
+    if (
+      events !== undefined &&
+      (!Array.isArray(events) || events.length === 0 || !events.every(isWebhookEvent))
+    ) {
+      return NextResponse.json({ error: 'Invalid events' }, { status: 400 });
+    }
+
     const updateData: Record<string, unknown> = {};
     if (webhook_url !== undefined) updateData.webhook_url = webhook_url;
     if (events !== undefined) updateData.events = events;
     if (description !== undefined) updateData.description = description;
     if (is_active !== undefined) updateData.is_active = is_active;
+    if (is_active === true) {
+      // Re-enabling an auto-disabled endpoint starts its failure count afresh
+      updateData.consecutive_failures = 0;
+      updateData.disabled_at = null;
+      updateData.disabled_reason = null;
+    }
 
     const { data: webhook, error } = await supabase
       .from('feedback_webhooks')
@@ -77,24 +79,12 @@ export async function DELETE(
       return NextResponse.json({ error: 'Database connection error' }, { status: 500 });
     }
 
-    // Get API key from header
-    const authHeader = request.headers.get('Authorization');
-    if (!authHeader?.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Missing API key' }, { status: 401 });
-    }
-
-    const apiKey = authHeader.replace('Bearer ', '');
-
-    // Verify API key belongs to this project
-    const keyHash = crypto.createHash('sha256').update(apiKey).digest('hex');
-    const { data: apiKeyData, error: keyError } = await supabase
-      .from('api_keys')
-      .select('project_id')
-      .eq('key_hash', keyHash)
-      .single();
-
-    if (keyError || !apiKeyData || apiKeyData.project_id !== projectId) {
-      return NextResponse.json({ error: 'Invalid API key' }, { status: 401 });
+    const auth = await authenticateAPIKey(request, bearerAPIKey(request), {
+      projectId,
+      requiredScopes: ['webhooks:manage'],
+    });
+    if (!auth.valid) {
+      return apiKeyErrorResponse(auth);
     }
 
     const { error } = await supabase
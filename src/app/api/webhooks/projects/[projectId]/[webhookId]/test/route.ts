@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
+import { apiKeyErrorResponse, authenticateAPIKey, bearerAPIKey } from '@/lib/api-key-auth';
 import { testWebhookDelivery } from '@/lib/webhooks';
-import crypto from 'crypto';
 
 export async function POST(
   request: NextRequest,
@@ -16,24 +16,12 @@ export async function POST(
       return NextResponse.json({ error: 'Database connection error' }, { status: 500 });
     }
 
-    // Get API key from header
-    const authHeader = request.headers.get('Authorization');
-    if (!authHeader?.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Missing API key' }, { status: 401 });
-    }
-
-    const apiKey = authHeader.replace('Bearer ', '');
-
-    // Verify API key belongs to this project
-    const keyHash = crypto.createHash('sha256').update(apiKey).digest('hex');
-    const { data: apiKeyData, error: keyError } = await supabase
-      .from('api_keys')
-      .select('project_id')
-      .eq('key_hash', keyHash)
-      .single();
-
-    if (keyError || !apiKeyData || apiKeyData.project_id !== projectId) {
-      return NextResponse.json({ error: 'Invalid API key' }, { status: 401 });
+    const auth = await authenticateAPIKey(request, bearerAPIKey(request), {
+      projectId,
+      requiredScopes: ['webhooks:manage'],
+    });
+    if (!auth.valid) {
+      return apiKeyErrorResponse(auth);
     }
 
     // Verify webhook belongs to this project
@@ -3,6 +3,8 @@ import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
 import { withRateLimit } from '@/middleware/rate-limit';
 import crypto from 'crypto';
 import { createClient } from '@supabase/supabase-js';
+import { DEFAULT_WEBHOOK_EVENTS, isWebhookEvent } from '@/lib/webhooks';
+import { apiKeyErrorResponse, authenticateAPIKey, bearerAPIKey } from '@/lib/api-key-auth';
 
 // Initialize Supabase client with service role
 const getSupabaseClient = () => {
@@ -29,44 +31,15 @@ async function getHandler(
   try {
     const { projectId } = await params;
 
-    // Get API key from header - FIXED: Using capital 'A' Authorization
-    const authHeader = request.headers.get('Authorization');
-    console.log('[WEBHOOK] Auth header received:', authHeader ? 'YES' : 'NO');
-    if (!authHeader?.startsWith('Bearer ')) {
-      console.error('[WEBHOOK] Missing or invalid Authorization header');
-      return NextResponse.json({ error: 'Missing API key' }, { status: 401 });
+    const auth = await authenticateAPIKey(request, bearerAPIKey(request), {
+      projectId,
+      requiredScopes: ['webhooks:manage'],
+    });
+    if (!auth.valid) {
+      return apiKeyErrorResponse(auth);
     }
 
-    const apiKey = authHeader.replace('Bearer ', '');
-
-    // Verify API key - use the same approach as v1 routes
-    const keyHash = crypto.createHash('sha256').update(apiKey).digest('hex');
-
-    console.log('[WEBHOOK GET] API Key prefix:', apiKey.substring(0, 10));
-    console.log('[WEBHOOK GET] Key Hash:', keyHash);
-
     const supabase = getSupabaseClient();
-    const { data: apiKeyData, error: keyError } = await supabase
-      .from('api_keys')
-      .select('*')
-      .eq('key_hash', keyHash)
-      .eq('project_id', projectId)
-      .single();
-
-    console.log('[WEBHOOK GET] Query error:', keyError);
-    console.log('[WEBHOOK GET] Query result:', apiKeyData ? 'Found' : 'Not found');
-
-    if (keyError || !apiKeyData) {
-      console.error('[WEBHOOK GET] Authentication failed - Key not found in database');
-      console.error('[WEBHOOK GET] Searched for hash:', keyHash);
-      return NextResponse.json({
-        error: 'Invalid API key',
-        debug: {
-          keyHash: keyHash.substring(0, 20) + '...',
-          projectId: projectId
-        }
-      }, { status: 401 });
-    }
 
     // Fetch webhooks
     const { data: webhooks, error } = await supabase
@@ -101,33 +74,20 @@ async function postHandler(
   try {
     const { projectId } = await params;
 
-    // Get API key from header
-    const authHeader = request.headers.get('Authorization');
-    if (!authHeader?.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Missing API key' }, { status: 401 });
+    const auth = await authenticateAPIKey(request, bearerAPIKey(request), {
+      projectId,
+      requiredScopes: ['webhooks:manage'],
+    });
+    if (!auth.valid) {
+      return apiKeyErrorResponse(auth);
     }
 
-    const apiKey = authHeader.replace('Bearer ', '');
-
-    // Verify API key - use the same approach as v1 routes
-    const keyHash = crypto.createHash('sha256').update(apiKey).digest('hex');
-
     const supabase = getSupabaseClient();
-    const { data: apiKeyData, error: keyError } = await supabase
-      .from('api_keys')
-      .select('*')
-      .eq('key_hash', keyHash)
-      .eq('project_id', projectId)
-      .single();
-
-    if (keyError || !apiKeyData) {
-      return NextResponse.json({ error: 'Invalid API key' }, { status: 401 });
-    }
 
     const body = await request.json();
     const {
       webhook_url,
-      events = ['post.created', 'post.status_changed', 'post.deleted', 'comment.created', 'vote.created'],
+      events = DEFAULT_WEBHOOK_EVENTS,
       description,
       webhook_secret,
     } = body;
@@ -138,8 +98,7 @@ async function postHandler(
     }
 
     // Validate events
-    const validEvents = ['post.created', 'post.status_changed', 'post.deleted', 'comment.created', 'vote.created'];
-    if (!Array.isArray(events) || events.some((e) => !validEvents.includes(e))) {
+    if (!Array.isArray(events) || events.length === 0 || !events.every(isWebhookEvent)) {
       return NextResponse.json({ error: 'Invalid events' }, { status: 400 });
     }
 
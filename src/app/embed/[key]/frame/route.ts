@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import crypto from 'crypto';
+import { authenticateAPIKey, hashAPIKey } from '@/lib/api-key-auth';
 
 // Lazy getter for Supabase client to avoid build-time initialization
 function getSupabase(): SupabaseClient {
@@ -26,53 +26,28 @@ export async function GET(
     // Validate API key and get project info
     let project = null;
 
-    const keyHashBase64 = Buffer.from(key, 'utf8').toString('base64');
-    const sha256Hash = crypto.createHash('sha256').update(key).digest('hex');
-
-    const { data: apiKeyData } = await getSupabase()
-      .from('api_keys')
-      .select(`
-        id,
-        project_id,
-        name,
-        usage_count,
-        projects!inner(id, name, slug, plan)
-      `)
-      .eq('key_hash', keyHashBase64)
-      .single();
+    const auth = await authenticateAPIKey(request, key, {
+      keyHashes: [Buffer.from(key, 'utf8').toString('base64'), hashAPIKey(key)],
+    });
 
-    if (apiKeyData && apiKeyData.projects) {
-      project = apiKeyData.projects;
-      console.log('Valid API key found in frame:', key, 'for project:', project.name);
+    if (auth.valid) {
+      project = auth.project;
+      console.log('Valid API key found in frame for project:', project.name);
+    } else if (auth.reason === 'policy') {
+      // The key exists but is revoked, expired or not allowed from this IP
+      return new NextResponse(auth.error, { status: auth.status });
     } else {
-      const { data: hashedKeyData } = await getSupabase()
-        .from('api_keys')
-        .select(`
-          id,
-          project_id,
-          name,
-          usage_count,
-          projects!inner(id, name, slug, plan)
-        `)
-        .eq('key_hash', sha256Hash)
+      const { data: projectData } = await getSupabase()
+        .from('projects')
+        .select('id, name, slug, plan')
+        .eq('slug', key)
         .single();
 
-      if (hashedKeyData && hashedKeyData.projects) {
-        project = hashedKeyData.projects;
-        console.log('Valid (legacy) API key found in frame:', key, 'for project:', project.name);
+      if (projectData) {
+        project = projectData;
+        console.log('Project found by slug in frame:', key, 'project:', project.name);
       } else {
-        const { data: projectData } = await getSupabase()
-          .from('projects')
-          .select('id, name, slug, plan')
-          .eq('slug', key)
-          .single();
-
-        if (projectData) {
-          project = projectData;
-          console.log('Project found by slug in frame:', key, 'project:', project.name);
-        } else {
-          return new NextResponse('Invalid API key', { status: 401 });
-        }
+        return new NextResponse('Invalid API key', { status: 401 });
       }
     }
 
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import crypto from 'crypto';
+import { authenticateAPIKey, hashAPIKey } from '@/lib/api-key-auth';
+import { slidingWindowHeaders, slidingWindowLimit } from '@/lib/rate-limit-store';
 
 // Lazy getter for Supabase client to avoid build-time initialization
 function getSupabase() {
@@ -10,33 +11,16 @@ function getSupabase() {
   );
 }
 
-// Rate limiting map (in production, use Redis or database)
-const rateLimitMap = new Map();
-
-function checkRateLimit(domain) {
-  const now = Date.now();
-  const limit = 100; // 100 requests per minute
-  const windowMs = 60 * 1000; // 1 minute
-
-  if (!rateLimitMap.has(domain)) {
-    rateLimitMap.set(domain, { count: 0, resetTime: now + windowMs });
-  }
-
-  const entry = rateLimitMap.get(domain);
-
-  if (entry.resetTime < now) {
-    entry.count = 0;
-    entry.resetTime = now + windowMs;
-  }
-
-  entry.count++;
-  return entry.count <= limit;
-}
+// 100 requests per minute per embedding domain, shared across instances
+const EMBED_RATE_LIMIT = { limit: 100, windowMs: 60 * 1000 };
 
 export async function GET(
   request,
   { params }
 ) {
+  // Sent with every response once the request has been counted
+  let rateLimitHeaders = {};
+
   try {
     const { searchParams } = new URL(request.url);
     const resolvedParams = await params;
@@ -48,8 +32,10 @@ export async function GET(
     const domain = origin || referer || 'unknown';
 
     // Rate limiting
-    if (!checkRateLimit(domain)) {
-      return new NextResponse('Rate limit exceeded', { status: 429 });
+    const rateLimit = await slidingWindowLimit(`embed:${domain}`, [EMBED_RATE_LIMIT]);
+    rateLimitHeaders = slidingWindowHeaders(rateLimit);
+    if (!rateLimit.allowed) {
+      return new NextResponse('Rate limit exceeded', { status: 429, headers: rateLimitHeaders });
     }
 
     // Get widget configuration options from URL params
@@ -63,80 +49,43 @@ export async function GET(
     let project = null;
     let projectSlug = key;
 
-    // First, try to find by API key in api_keys table
-    const keyHashBase64 = Buffer.from(key, 'utf8').toString('base64');
-    const sha256Hash = crypto.createHash('sha256').update(key).digest('hex');
-
-    const { data: apiKeyData, error: apiKeyError } = await getSupabase()
-      .from('api_keys')
-      .select(`
-        id,
-        project_id,
-        name,
-        usage_count,
-        projects!inner(id, name, slug, plan)
-      `)
-      .eq('key_hash', keyHashBase64)
-      .single();
-
-    if (apiKeyData && apiKeyData.projects) {
-      // Valid API key found
-      project = apiKeyData.projects;
+    // First, try to find by API key (stored base64-encoded, or as SHA-256 for older keys)
+    const auth = await authenticateAPIKey(request, key, {
+      keyHashes: [Buffer.from(key, 'utf8').toString('base64'), hashAPIKey(key)],
+    });
+
+    if (auth.valid) {
+      project = auth.project;
       projectSlug = project.slug;
 
       // Update usage count and last used
       await getSupabase()
         .from('api_keys')
         .update({
-          usage_count: apiKeyData.usage_count + 1,
+          usage_count: (auth.key.usage_count || 0) + 1,
           last_used_at: new Date().toISOString()
         })
-        .eq('id', apiKeyData.id);
+        .eq('id', auth.key.id);
 
-      console.log('Valid API key found:', key, 'for project:', project.name);
+      console.log('Valid API key found for project:', project.name);
+    } else if (auth.reason === 'policy') {
+      // The key exists but is revoked, expired or not allowed from this IP
+      return new NextResponse(auth.error, { status: auth.status, headers: rateLimitHeaders });
     } else {
-      // Fallback to legacy hashed key (sha256 hex)
-      const { data: hashedKeyData } = await getSupabase()
-        .from('api_keys')
-        .select(`
-          id,
-          project_id,
-          name,
-          usage_count,
-          projects!inner(id, name, slug, plan)
-        `)
-        .eq('key_hash', sha256Hash)
+      // Fallback: try to find project by slug (for demo purposes)
+      const { data: projectData, error: projectError } = await getSupabase()
+        .from('projects')
+        .select('id, name, slug, plan')
+        .eq('slug', key)
         .single();
 
-      if (hashedKeyData && hashedKeyData.projects) {
-        project = hashedKeyData.projects;
+      if (projectData) {
+        project = projectData;
         projectSlug = project.slug;
-
-        await getSupabase()
-          .from('api_keys')
-          .update({
-            usage_count: (hashedKeyData.usage_count || 0) + 1,
-            last_used_at: new Date().toISOString()
-          })
-          .eq('id', hashedKeyData.id);
-
-        console.log('Valid (legacy) API key found:', key, 'for project:', project.name);
+        console.log('Project found by slug:', key, 'project:', project.name);
       } else {
-        // Fallback: try to find project by slug (for demo purposes)
-        const { data: projectData, error: projectError } = await getSupabase()
-          .from('projects')
-          .select('id, name, slug, plan')
-          .eq('slug', key)
-          .single();
-
-        if (projectData) {
-          project = projectData;
-          projectSlug = project.slug;
-          console.log('Project found by slug:', key, 'project:', project.name);
-        } else {
-          // If no valid API key or project found, return error
-          return new NextResponse('Invalid API key', { status: 401 });
-        }
+        // If no valid API key or project found, return error
+        return new NextResponse('Invalid API key', { status: 401, headers: rateLimitHeaders });
       }
     }
 
@@ -168,7 +117,8 @@ export async function GET(
         'Access-Control-Allow-Headers': 'Content-Type',
         'X-Content-Type-Options': 'nosniff',
         'X-Frame-Options': 'DENY', // Prevent clickjacking
-        'Content-Security-Policy': "default-src 'none'; script-src 'self' 'unsafe-inline'; connect-src 'self'; style-src 'self' 'unsafe-inline';"
+        'Content-Security-Policy': "default-src 'none'; script-src 'self' 'unsafe-inline'; connect-src 'self'; style-src 'self' 'unsafe-inline';",
+        ...rateLimitHeaders,
       },
     });
 
@@ -183,6 +133,7 @@ export async function GET(
           'Content-Type': 'application/javascript',
           'Cache-Control': 'no-cache',
           'Access-Control-Allow-Origin': '*',
+          ...rateLimitHeaders,
         },
       }
     );
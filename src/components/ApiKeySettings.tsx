@@ -2,11 +2,13 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { getSupabaseClient } from '@/lib/supabase-client';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
   Key, 
@@ -32,6 +34,12 @@ import { toast } from 'sonner';
 import { formatDistanceToNow } from 'date-fns';
 import html2canvas from 'html2canvas';
 import { cn } from '@/lib/utils';
+import {
+  API_KEY_SCOPES,
+  API_KEY_SCOPE_DESCRIPTIONS,
+  resolveScopes,
+  type ApiKeyScope,
+} from '@/lib/api-key-scopes';
 
 interface ApiKey {
   id: string;
@@ -43,6 +51,9 @@ interface ApiKey {
   allowed_domains?: string[];
   usage_limit?: number;
   is_active: boolean;
+  scopes?: string[] | null;
+  expires_at?: string | null;
+  allowed_ips?: string[] | null;
 }
 
 interface WidgetSettings {
@@ -81,10 +92,12 @@ export function ApiKeySettings({ projectId, projectSlug, userPlan = 'free', onSh
   const [loading, setLoading] = useState(false);
   const [copiedKey, setCopiedKey] = useState<string | null>(null);
   const [newKeyName, setNewKeyName] = useState('');
+  const [newKeyScopes, setNewKeyScopes] = useState<ApiKeyScope[]>(['posts:read']);
+  const [newKeyExpiry, setNewKeyExpiry] = useState('');
+  const [newKeyAllowedIps, setNewKeyAllowedIps] = useState('');
   const [creatingKey, setCreatingKey] = useState(false);
   const [newlyCreatedKey, setNewlyCreatedKey] = useState<string | null>(null);
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const [supabase, setSupabase] = useState<any>(null);
+  const [supabase, setSupabase] = useState<SupabaseClient | null>(null);
   const [widgetSettings, setWidgetSettings] = useState<WidgetSettings>({
     position: 'bottom-right',
     color: '#667eea',
@@ -128,7 +141,8 @@ const loadApiKeys = useCallback(async () => {
         .from('api_keys')
         .select('*')
         .eq('project_id', projectId)
-        .order('created_at', { ascending: false });
+        .order('created_at', { ascending: false })
+        .returns<ApiKey[]>();
 
       if (error) throw error;
       console.log('API keys loaded:', data);
@@ -207,6 +221,11 @@ const loadSecurityInsights = useCallback(async () => {
       return;
     }
 
+    if (newKeyScopes.length === 0) {
+      toast.error('Select at least one scope for the API key');
+      return;
+    }
+
     setCreatingKey(true);
     try {
       // Create API key via server-side route to ensure it uses service role
@@ -215,7 +234,14 @@ const loadSecurityInsights = useCallback(async () => {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           projectId: projectId,
-          name: newKeyName
+          name: newKeyName,
+          scopes: newKeyScopes,
+          // Keys expire at the end of the chosen day
+          expiresAt: newKeyExpiry ? new Date(`${newKeyExpiry}T23:59:59`).toISOString() : undefined,
+          allowedIps: newKeyAllowedIps
+            .split(',')
+            .map((ip) => ip.trim())
+            .filter(Boolean)
         })
       });
 
@@ -229,6 +255,9 @@ const loadSecurityInsights = useCallback(async () => {
 
       setApiKeys([result.data, ...apiKeys]);
       setNewKeyName('');
+      setNewKeyScopes(['posts:read']);
+      setNewKeyExpiry('');
+      setNewKeyAllowedIps('');
       setNewlyCreatedKey(newKey);
       toast.success('API key created successfully! Copy it now - you won\'t see it again.');
 
@@ -269,6 +298,12 @@ const loadSecurityInsights = useCallback(async () => {
     }
   };
 
+  const toggleNewKeyScope = (scope: ApiKeyScope) => {
+    setNewKeyScopes((current) =>
+      current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]
+    );
+  };
+
   const copyToClipboard = (text: string, keyId: string) => {
     if (typeof window !== 'undefined' && navigator.clipboard) {
       navigator.clipboard.writeText(text);
@@ -447,7 +482,7 @@ add_action('wp_enqueue_scripts', 'add_signalsloop_widget');`;
                 <div className="flex items-end sm:w-auto">
                   <Button 
                     onClick={generateApiKey}
-                    disabled={creatingKey || !newKeyName.trim()}
+                    disabled={creatingKey || !newKeyName.trim() || newKeyScopes.length === 0}
                     className="min-w-[100px] w-full sm:w-auto"
                   >
                     {creatingKey ? (
@@ -461,6 +496,54 @@ add_action('wp_enqueue_scripts', 'add_signalsloop_widget');`;
                   </Button>
                 </div>
               </div>
+
+              <div className="mt-4 space-y-2">
+                <Label>Scopes</Label>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  {API_KEY_SCOPES.map((scope) => (
+                    <label
+                      key={scope}
+                      htmlFor={`scope-${scope}`}
+                      className="flex items-start gap-2 rounded-md border p-2 text-sm cursor-pointer"
+                    >
+                      <Checkbox
+                        id={`scope-${scope}`}
+                        checked={newKeyScopes.includes(scope)}
+                        onCheckedChange={() => toggleNewKeyScope(scope)}
+                        className="mt-0.5"
+                      />
+                      <span>
+                        <span className="font-mono text-xs">{scope}</span>
+                        <span className="block text-xs text-muted-foreground">
+                          {API_KEY_SCOPE_DESCRIPTIONS[scope]}
+                        </span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="mt-4 grid gap-3 sm:grid-cols-2">
+                <div>
+                  <Label htmlFor="keyExpiry">Expires (optional)</Label>
+                  <Input
+                    id="keyExpiry"
+                    type="date"
+                    value={newKeyExpiry}
+                    min={new Date().toISOString().slice(0, 10)}
+                    onChange={(e) => setNewKeyExpiry(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="keyAllowedIps">Allowed IPs (optional)</Label>
+                  <Input
+                    id="keyAllowedIps"
+                    placeholder="e.g., 203.0.113.4, 10.0.0.0/8"
+                    value={newKeyAllowedIps}
+                    onChange={(e) => setNewKeyAllowedIps(e.target.value)}
+                  />
+                </div>
+              </div>
             </CardContent>
           </Card>
 
@@ -551,8 +634,21 @@ add_action('wp_enqueue_scripts', 'add_signalsloop_widget');`;
                           <p className="text-sm text-muted-foreground font-mono">
                             {maskedKey}
                           </p>
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {resolveScopes(apiKey.scopes).map((scope) => (
+                              <Badge key={scope} variant="outline" className="font-mono text-xs">
+                                {scope}
+                              </Badge>
+                            ))}
+                          </div>
                           <p className="text-xs text-muted-foreground mt-1">
                             Created {new Date(apiKey.created_at).toLocaleDateString()}
+                            {apiKey.expires_at && (
+                              <> · {new Date(apiKey.expires_at) <= new Date() ? 'Expired' : 'Expires'} {new Date(apiKey.expires_at).toLocaleDateString()}</>
+                            )}
+                            {apiKey.allowed_ips && apiKey.allowed_ips.length > 0 && (
+                              <> · Restricted to {apiKey.allowed_ips.join(', ')}</>
+                            )}
                           </p>
                         </div>
                         <div className="flex items-center gap-2">
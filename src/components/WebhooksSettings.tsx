@@ -23,6 +23,7 @@ import {
   CheckCircle,
   XCircle,
 } from 'lucide-react';
+import { EVENT_CATALOGUE } from '@/lib/events/catalogue';
 
 interface Webhook {
   id: string;
@@ -54,7 +55,7 @@ interface WebhooksSettingsProps {
   onResetApiKey?: () => void;
 }
 
-const availableEvents = [
+const defaultEvents = [
   { value: 'post.created', label: 'Post Created', description: 'New post is created' },
   { value: 'post.status_changed', label: 'Status Changed', description: 'Post status is updated' },
   { value: 'post.deleted', label: 'Post Deleted', description: 'Post is deleted' },
@@ -62,6 +63,15 @@ const availableEvents = [
   { value: 'vote.created', label: 'Vote Created', description: 'New vote is cast' },
 ];
 
+// Domain events from the event bus, opt-in
+const domainEvents = Object.values(EVENT_CATALOGUE).map(definition => ({
+  value: definition.type as string,
+  label: `${definition.domain}: ${definition.type}`,
+  description: definition.summary,
+}));
+
+const availableEvents = [...defaultEvents, ...domainEvents];
+
 export function WebhooksSettings({ projectId, apiKey, onShowNotification, onResetApiKey }: WebhooksSettingsProps) {
   const [webhooks, setWebhooks] = useState<Webhook[]>([]);
   const [loading, setLoading] = useState(true);
@@ -76,7 +86,7 @@ export function WebhooksSettings({ projectId, apiKey, onShowNotification, onRese
   // Form state
   const [webhookUrl, setWebhookUrl] = useState('');
   const [description, setDescription] = useState('');
-  const [selectedEvents, setSelectedEvents] = useState<string[]>(availableEvents.map(e => e.value));
+  const [selectedEvents, setSelectedEvents] = useState<string[]>(defaultEvents.map(e => e.value));
 
   useEffect(() => {
     if (apiKey) {
@@ -171,7 +181,7 @@ export function WebhooksSettings({ projectId, apiKey, onShowNotification, onRese
       setShowCreateForm(false);
       setWebhookUrl('');
       setDescription('');
-      setSelectedEvents(availableEvents.map(e => e.value));
+      setSelectedEvents(defaultEvents.map(e => e.value));
       onShowNotification('Webhook created successfully');
     } catch (error) {
       console.error('Error creating webhook:', error);
@@ -371,7 +381,7 @@ export function WebhooksSettings({ projectId, apiKey, onShowNotification, onRese
 
             <div>
               <Label className="mb-3 block">Events to Subscribe *</Label>
-              <div className="space-y-2">
+              <div className="space-y-2 max-h-80 overflow-y-auto pr-1">
                 {availableEvents.map(event => (
                   <div key={event.value} className="flex items-start space-x-2">
                     <Checkbox
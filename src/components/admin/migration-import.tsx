@@ -0,0 +1,270 @@
+'use client';
+
+import React, { useState, useCallback, useEffect } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { Upload, FileText, AlertCircle, Loader2, RotateCcw, Play } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { getSupabaseClient } from '@/lib/supabase-client';
+import type { MigrationEntityType, MigrationRun } from '@/lib/migration-import/types';
+
+interface MigrationImportProps {
+  projectSlug: string;
+}
+
+const ENTITY_LABELS: Record<MigrationEntityType, string> = {
+  board: 'Boards',
+  post: 'Posts',
+  vote: 'Votes',
+  comment: 'Comments',
+  changelog: 'Changelog',
+};
+
+const PLATFORM_OPTIONS = [
+  { value: 'auto', label: 'Detect automatically' },
+  { value: 'canny', label: 'Canny' },
+  { value: 'uservoice', label: 'UserVoice' },
+  { value: 'productboard', label: 'Productboard' },
+];
+
+const STATUS_STYLES: Record<MigrationRun['status'], string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-700',
+  paused: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  rolling_back: 'bg-orange-100 text-orange-700',
+  rolled_back: 'bg-gray-100 text-gray-500',
+};
+
+export function MigrationImport({ projectSlug }: MigrationImportProps) {
+  const [platform, setPlatform] = useState('auto');
+  const [runs, setRuns] = useState<MigrationRun[]>([]);
+  const [busyRunId, setBusyRunId] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = useCallback(async (path: string, init: RequestInit = {}) => {
+    const supabase = getSupabaseClient();
+    const { data } = supabase ? await supabase.auth.getSession() : { data: { session: null } };
+    const token = data.session?.access_token;
+    if (!token) {
+      throw new Error('Please sign in to import data.');
+    }
+
+    const response = await fetch(`/api/projects/${projectSlug}/migrations${path}`, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Bearer ${token}` },
+    });
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Request failed');
+    }
+    return payload;
+  }, [projectSlug]);
+
+  const updateRun = useCallback((run: MigrationRun) => {
+    setRuns(current => [run, ...current.filter(existing => existing.id !== run.id)]);
+  }, []);
+
+  const loadRuns = useCallback(async () => {
+    try {
+      const { runs: loaded } = await request('');
+      setRuns(loaded || []);
+    } catch (err) {
+      console.error('Failed to load imports:', err);
+    }
+  }, [request]);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  // Large exports and rollbacks take several calls; keep going until done
+  const continueRun = useCallback(async (initial: MigrationRun, action: '' | '/rollback', alreadyStarted = false) => {
+    const unfinished = (status: MigrationRun['status']) =>
+      action ? status !== 'rolled_back' : status === 'paused';
+
+    let run = initial;
+    let callNow = !alreadyStarted;
+    setBusyRunId(run.id);
+    try {
+      while (callNow || unfinished(run.status)) {
+        callNow = false;
+        const payload = await request(`/${run.id}${action}`, { method: 'POST' });
+        run = payload.run;
+        updateRun(run);
+      }
+
+      if (run.status === 'completed') toast.success('Import complete');
+      if (run.status === 'rolled_back') toast.success('Import rolled back');
+      if (run.status === 'failed') toast.error(run.error || 'Import failed');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusyRunId(null);
+    }
+  }, [request, updateRun]);
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    const file = acceptedFiles[0];
+    if (!file) return;
+
+    setUploading(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (platform !== 'auto') formData.append('platform', platform);
+
+      const { run } = await request('', { method: 'POST', body: formData });
+      updateRun(run);
+      await continueRun(run, '', true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setUploading(false);
+    }
+  }, [platform, request, updateRun, continueRun]);
+
+  const handleRollback = useCallback((run: MigrationRun) => {
+    const created = Object.values(run.summary.entities).reduce((sum, entity) => sum + entity.created, 0);
+    if (!window.confirm(`Delete the ${created} boards, posts, votes, comments and releases this import created?`)) {
+      return;
+    }
+    continueRun(run, '/rollback');
+  }, [continueRun]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: { 'application/json': ['.json'] },
+    maxFiles: 1,
+    disabled: uploading || !!busyRunId,
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            Migrate from Canny, UserVoice or Productboard
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Upload a JSON export to bring over boards, posts, votes (with voter identities), comments and
+            changelog entries. Importing the same export again skips anything already imported, and any
+            import can be rolled back.
+          </p>
+
+          <div className="w-64">
+            <Select value={platform} onValueChange={setPlatform}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PLATFORM_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div
+            {...getRootProps()}
+            className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
+              isDragActive ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-gray-400'
+            }`}
+          >
+            <input {...getInputProps()} />
+            {uploading ? (
+              <Loader2 className="h-8 w-8 mx-auto mb-3 text-blue-500 animate-spin" />
+            ) : (
+              <FileText className="h-8 w-8 mx-auto mb-3 text-gray-400" />
+            )}
+            <p className="text-sm text-gray-600">
+              {uploading ? 'Importing...' : isDragActive ? 'Drop the export here' : 'Drag and drop an export (.json), or click to choose'}
+            </p>
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      {runs.map(run => (
+        <Card key={run.id}>
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-base">
+                {run.filename || run.platform} <span className="text-gray-400 font-normal">· {run.platform}</span>
+              </CardTitle>
+              <div className="flex items-center gap-2">
+                <Badge className={STATUS_STYLES[run.status]}>{run.status.replace('_', ' ')}</Badge>
+                {(run.status === 'paused' || run.status === 'failed') && (
+                  <Button size="sm" variant="outline" disabled={!!busyRunId} onClick={() => continueRun(run, '')}>
+                    <Play className="h-4 w-4 mr-1" />
+                    Resume
+                  </Button>
+                )}
+                {run.status !== 'rolled_back' && (
+                  <Button size="sm" variant="outline" disabled={!!busyRunId} onClick={() => handleRollback(run)}>
+                    {busyRunId === run.id ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                    )}
+                    Roll back
+                  </Button>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="font-medium py-1">Type</th>
+                  <th className="font-medium py-1">In export</th>
+                  <th className="font-medium py-1">Imported</th>
+                  <th className="font-medium py-1">Skipped</th>
+                  <th className="font-medium py-1">Failed</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(Object.keys(ENTITY_LABELS) as MigrationEntityType[]).map(entity => {
+                  const counts = run.summary.entities[entity];
+                  return (
+                    <tr key={entity} className="border-t">
+                      <td className="py-1">{ENTITY_LABELS[entity]}</td>
+                      <td className="py-1">{counts.total}</td>
+                      <td className="py-1">{counts.created}</td>
+                      <td className="py-1">{counts.skipped}</td>
+                      <td className={`py-1 ${counts.failed > 0 ? 'text-red-600' : ''}`}>{counts.failed}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            {[...run.summary.warnings, ...run.summary.errors, ...(run.error ? [run.error] : [])].map((message, index) => (
+              <p key={index} className="text-xs text-gray-600 dark:text-gray-400">
+                <AlertCircle className="h-3 w-3 inline mr-1" />
+                {message}
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
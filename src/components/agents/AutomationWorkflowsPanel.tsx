@@ -0,0 +1,697 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Workflow, Plus, Trash2, Save, X, FlaskConical, History, Pencil } from 'lucide-react'
+import { toast } from 'sonner'
+import { getSupabaseClient } from '@/lib/supabase-client'
+import type {
+  AutomationAction,
+  AutomationActionType,
+  AutomationCondition,
+  AutomationConditionOperator,
+  AutomationRun,
+  AutomationTemplate,
+  AutomationWorkflow,
+  AutomationWorkflowInput
+} from '@/types/agent-workflow'
+
+interface TriggerOption {
+  type: string
+  domain: string
+  summary: string
+  fields: string[]
+}
+
+type Draft = AutomationWorkflowInput & { id?: string }
+
+const OPERATOR_LABELS: Record<AutomationConditionOperator, string> = {
+  equals: 'equals',
+  not_equals: 'does not equal',
+  contains: 'contains',
+  not_contains: 'does not contain',
+  in: 'is one of',
+  not_in: 'is not one of',
+  greater_than: 'is greater than',
+  less_than: 'is less than',
+  exists: 'is set',
+  not_exists: 'is not set'
+}
+
+const ACTION_LABELS: Record<AutomationActionType, string> = {
+  slack: 'Post to Slack',
+  jira: 'Create Jira issue',
+  email: 'Send email',
+  set_post_status: 'Set post status'
+}
+
+const POST_STATUSES = ['open', 'planned', 'in_progress', 'done', 'declined'] as const
+
+const CONTEXT_FIELDS = [
+  'post.title', 'post.status', 'post.category', 'post.vote_count', 'post.author_email',
+  'customer.company', 'customer.plan_name', 'customer.mrr', 'customer.churn_risk',
+  'metadata.source'
+]
+
+const STATUS_STYLES: Record<AutomationRun['status'], string> = {
+  running: 'bg-blue-100 text-blue-700',
+  succeeded: 'bg-green-100 text-green-700',
+  partial: 'bg-yellow-100 text-yellow-800',
+  failed: 'bg-red-100 text-red-700',
+  skipped: 'bg-gray-100 text-gray-600'
+}
+
+const EMPTY_DRAFT: Draft = {
+  name: '',
+  triggerEventType: 'feedback.created',
+  conditionMatch: 'all',
+  conditions: [],
+  actions: [{ type: 'slack', channelId: '', message: '' }],
+  enabled: true
+}
+
+function newAction(type: AutomationActionType): AutomationAction {
+  switch (type) {
+    case 'slack':
+      return { type, channelId: '', message: '' }
+    case 'jira':
+      return { type, summary: '' }
+    case 'email':
+      return { type, to: [], subject: '', body: '' }
+    case 'set_post_status':
+      return { type, status: 'planned' }
+  }
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map(part => part.trim()).filter(Boolean)
+}
+
+export function AutomationWorkflowsPanel({ projectSlug }: { projectSlug: string }) {
+  const [workflows, setWorkflows] = useState<AutomationWorkflow[]>([])
+  const [triggers, setTriggers] = useState<TriggerOption[]>([])
+  const [templates, setTemplates] = useState<AutomationTemplate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [draft, setDraft] = useState<Draft | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [historyFor, setHistoryFor] = useState<string | null>(null)
+  const [runs, setRuns] = useState<AutomationRun[]>([])
+  const [samplePayload, setSamplePayload] = useState('')
+  const [testRun, setTestRun] = useState<AutomationRun | null>(null)
+  const [testing, setTesting] = useState(false)
+
+  const request = useCallback(async (path: string, init: RequestInit = {}) => {
+    const supabase = getSupabaseClient()
+    const { data } = supabase ? await supabase.auth.getSession() : { data: { session: null } }
+    const token = data.session?.access_token
+    if (!token) {
+      throw new Error('Please sign in to manage automations')
+    }
+
+    const response = await fetch(`/api/projects/${projectSlug}/automations${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init.headers, Authorization: `Bearer ${token}` }
+    })
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Request failed')
+    }
+    return payload
+  }, [projectSlug])
+
+  const fetchWorkflows = useCallback(async () => {
+    try {
+      const data = await request('')
+      setWorkflows(data.workflows || [])
+      setTriggers(data.triggers || [])
+      setTemplates(data.templates || [])
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load automations')
+    } finally {
+      setLoading(false)
+    }
+  }, [request])
+
+  useEffect(() => {
+    fetchWorkflows()
+  }, [fetchWorkflows])
+
+  async function saveDraft() {
+    if (!draft) return
+
+    setSaving(true)
+    try {
+      const { id, ...input } = draft
+      const { workflow } = await request(id ? `/${id}` : '', {
+        method: id ? 'PATCH' : 'POST',
+        body: JSON.stringify(input)
+      })
+      toast.success(id ? 'Automation updated' : 'Automation created')
+      setDraft({ ...draft, id: workflow.id })
+      await fetchWorkflows()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save automation')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function toggleEnabled(workflow: AutomationWorkflow, enabled: boolean) {
+    try {
+      await request(`/${workflow.id}`, { method: 'PATCH', body: JSON.stringify({ enabled }) })
+      setWorkflows(current => current.map(w => (w.id === workflow.id ? { ...w, enabled } : w)))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update automation')
+    }
+  }
+
+  async function deleteWorkflow(workflow: AutomationWorkflow) {
+    if (!confirm(`Delete the automation "${workflow.name}" and its run history?`)) {
+      return
+    }
+
+    try {
+      await request(`/${workflow.id}`, { method: 'DELETE' })
+      toast.success('Automation deleted')
+      if (draft?.id === workflow.id) closeEditor()
+      await fetchWorkflows()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete automation')
+    }
+  }
+
+  async function showHistory(workflowId: string) {
+    if (historyFor === workflowId) {
+      setHistoryFor(null)
+      return
+    }
+
+    try {
+      const data = await request(`/${workflowId}`)
+      setRuns(data.runs || [])
+      setHistoryFor(workflowId)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load run history')
+    }
+  }
+
+  async function runTest() {
+    if (!draft?.id) return
+
+    let event: { payload: unknown } | undefined
+    if (samplePayload.trim()) {
+      try {
+        event = { payload: JSON.parse(samplePayload) }
+      } catch {
+        toast.error('The sample payload is not valid JSON')
+        return
+      }
+    }
+
+    setTesting(true)
+    try {
+      const { run } = await request(`/${draft.id}/test`, {
+        method: 'POST',
+        body: JSON.stringify(event ? { event } : {})
+      })
+      setTestRun(run)
+      if (historyFor === draft.id) {
+        setRuns(current => [run, ...current])
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Test failed')
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  function editWorkflow(workflow: AutomationWorkflow) {
+    setDraft({
+      id: workflow.id,
+      name: workflow.name,
+      description: workflow.description,
+      enabled: workflow.enabled,
+      triggerEventType: workflow.triggerEventType,
+      conditionMatch: workflow.conditionMatch,
+      conditions: workflow.conditions,
+      actions: workflow.actions
+    })
+    setTestRun(null)
+    setSamplePayload('')
+  }
+
+  function startFromTemplate(templateId: string) {
+    const template = templates.find(t => t.id === templateId)
+    setDraft(template
+      ? { ...template.workflow, name: template.name, description: template.description, enabled: true }
+      : { ...EMPTY_DRAFT })
+    setTestRun(null)
+    setSamplePayload('')
+  }
+
+  function closeEditor() {
+    setDraft(null)
+    setTestRun(null)
+    setSamplePayload('')
+  }
+
+  function updateCondition(index: number, changes: Partial<AutomationCondition>) {
+    if (!draft) return
+    const conditions = [...(draft.conditions || [])]
+    conditions[index] = { ...conditions[index], ...changes }
+    setDraft({ ...draft, conditions })
+  }
+
+  function updateAction(index: number, action: AutomationAction) {
+    if (!draft) return
+    const actions = [...draft.actions]
+    actions[index] = action
+    setDraft({ ...draft, actions })
+  }
+
+  if (loading) {
+    return <div className="p-8 text-center">Loading...</div>
+  }
+
+  const triggerFields = triggers.find(t => t.type === draft?.triggerEventType)?.fields || []
+  const fieldSuggestions = [...triggerFields.map(field => `payload.${field}`), ...CONTEXT_FIELDS]
+
+  return (
+    <div className="space-y-6 p-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <Workflow className="w-6 h-6" />
+            Automations
+          </h2>
+          <p className="text-muted-foreground mt-1">
+            When an event happens and your conditions match, post to Slack, open a Jira issue, send email or move the post
+          </p>
+        </div>
+        {!draft && (
+          <div className="flex items-center gap-2">
+            <Select onValueChange={startFromTemplate}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Start from a template" />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map(template => (
+                  <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={() => startFromTemplate('')}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Automation
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Builder */}
+      {draft && (
+        <Card className="border-2 border-primary">
+          <CardHeader>
+            <CardTitle>{draft.id ? 'Edit Automation' : 'New Automation'}</CardTitle>
+            <CardDescription>
+              Use {'{{field}}'} in messages to insert event data, e.g. {'{{payload.post_title}}'} or {'{{customer.company}}'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Name</Label>
+                <Input
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Escalate negative enterprise feedback"
+                />
+              </div>
+              <div>
+                <Label>When this happens</Label>
+                <Select
+                  value={draft.triggerEventType}
+                  onValueChange={(value) => setDraft({ ...draft, triggerEventType: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {triggers.map(trigger => (
+                      <SelectItem key={trigger.type} value={trigger.type}>
+                        {trigger.type} — {trigger.summary}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* Conditions */}
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Label>Only if</Label>
+                <Select
+                  value={draft.conditionMatch || 'all'}
+                  onValueChange={(value) => setDraft({ ...draft, conditionMatch: value as 'all' | 'any' })}
+                >
+                  <SelectTrigger className="w-24 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">all</SelectItem>
+                    <SelectItem value="any">any</SelectItem>
+                  </SelectContent>
+                </Select>
+                <span className="text-sm text-muted-foreground">of these match</span>
+              </div>
+
+              <datalist id="automation-fields">
+                {fieldSuggestions.map(field => <option key={field} value={field} />)}
+              </datalist>
+
+              {(draft.conditions || []).map((condition, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    className="flex-1"
+                    list="automation-fields"
+                    value={condition.field}
+                    onChange={(e) => updateCondition(index, { field: e.target.value })}
+                    placeholder="payload.sentiment_category"
+                  />
+                  <Select
+                    value={condition.operator}
+                    onValueChange={(value) => updateCondition(index, { operator: value as AutomationConditionOperator })}
+                  >
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(OPERATOR_LABELS) as AutomationConditionOperator[]).map(op => (
+                        <SelectItem key={op} value={op}>{OPERATOR_LABELS[op]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {condition.operator !== 'exists' && condition.operator !== 'not_exists' && (
+                    <Input
+                      className="flex-1"
+                      value={condition.value === undefined ? '' : String(condition.value)}
+                      onChange={(e) => updateCondition(index, { value: e.target.value })}
+                      placeholder={condition.operator.endsWith('in') ? 'a, b, c' : 'value'}
+                    />
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDraft({ ...draft, conditions: (draft.conditions || []).filter((_, i) => i !== index) })}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft({
+                  ...draft,
+                  conditions: [...(draft.conditions || []), { field: '', operator: 'equals', value: '' }]
+                })}
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add condition
+              </Button>
+            </div>
+
+            {/* Actions */}
+            <div className="space-y-3">
+              <Label>Then</Label>
+              {draft.actions.map((action, index) => (
+                <div key={index} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={action.type}
+                      onValueChange={(value) => updateAction(index, newAction(value as AutomationActionType))}
+                    >
+                      <SelectTrigger className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ACTION_LABELS) as AutomationActionType[]).map(type => (
+                          <SelectItem key={type} value={type}>{ACTION_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="flex-1" />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={draft.actions.length === 1}
+                      onClick={() => setDraft({ ...draft, actions: draft.actions.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+
+                  {action.type === 'slack' && (
+                    <>
+                      <Input
+                        value={action.channelId}
+                        onChange={(e) => updateAction(index, { ...action, channelId: e.target.value })}
+                        placeholder="Slack channel ID, e.g. C0123456789"
+                      />
+                      <Textarea
+                        value={action.message}
+                        onChange={(e) => updateAction(index, { ...action, message: e.target.value })}
+                        placeholder="Message"
+                        rows={2}
+                      />
+                    </>
+                  )}
+
+                  {action.type === 'jira' && (
+                    <>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Input
+                          value={action.projectKey || ''}
+                          onChange={(e) => updateAction(index, { ...action, projectKey: e.target.value || undefined })}
+                          placeholder="Project key (default from connection)"
+                        />
+                        <Input
+                          value={action.issueType || ''}
+                          onChange={(e) => updateAction(index, { ...action, issueType: e.target.value || undefined })}
+                          placeholder="Issue type (default from connection)"
+                        />
+                      </div>
+                      <Input
+                        value={action.summary}
+                        onChange={(e) => updateAction(index, { ...action, summary: e.target.value })}
+                        placeholder="Summary"
+                      />
+                      <Textarea
+                        value={action.description || ''}
+                        onChange={(e) => updateAction(index, { ...action, description: e.target.value })}
+                        placeholder="Description"
+                        rows={3}
+                      />
+                      <Input
+                        value={(action.labels || []).join(', ')}
+                        onChange={(e) => updateAction(index, { ...action, labels: splitList(e.target.value) })}
+                        placeholder="Labels, comma separated"
+                      />
+                    </>
+                  )}
+
+                  {action.type === 'email' && (
+                    <>
+                      <Input
+                        value={action.to.join(', ')}
+                        onChange={(e) => updateAction(index, { ...action, to: splitList(e.target.value) })}
+                        placeholder="Recipients, comma separated"
+                      />
+                      <Input
+                        value={action.subject}
+                        onChange={(e) => updateAction(index, { ...action, subject: e.target.value })}
+                        placeholder="Subject"
+                      />
+                      <Textarea
+                        value={action.body}
+                        onChange={(e) => updateAction(index, { ...action, body: e.target.value })}
+                        placeholder="Body"
+                        rows={3}
+                      />
+                    </>
+                  )}
+
+                  {action.type === 'set_post_status' && (
+                    <Select
+                      value={action.status}
+                      onValueChange={(value) => updateAction(index, { ...action, status: value as typeof POST_STATUSES[number] })}
+                    >
+                      <SelectTrigger className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {POST_STATUSES.map(status => (
+                          <SelectItem key={status} value={status}>{status.replace('_', ' ')}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              ))}
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft({ ...draft, actions: [...draft.actions, newAction('slack')] })}
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add action
+              </Button>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Button onClick={saveDraft} disabled={saving}>
+                <Save className="w-4 h-4 mr-2" />
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+              <Button variant="outline" onClick={closeEditor}>
+                <X className="w-4 h-4 mr-2" />
+                Close
+              </Button>
+            </div>
+
+            {/* Test mode */}
+            {draft.id && (
+              <div className="space-y-2 border-t pt-4">
+                <Label>Test with a sample event</Label>
+                <p className="text-sm text-muted-foreground">
+                  Paste an event payload as JSON, or leave this empty to use a generated sample. Actions are
+                  shown, not carried out. Save your changes before testing.
+                </p>
+                <Textarea
+                  value={samplePayload}
+                  onChange={(e) => setSamplePayload(e.target.value)}
+                  placeholder='{"post_id": "...", "sentiment_category": "negative", "sentiment_score": -0.8}'
+                  rows={4}
+                  className="font-mono text-xs"
+                />
+                <Button variant="outline" onClick={runTest} disabled={testing}>
+                  <FlaskConical className="w-4 h-4 mr-2" />
+                  {testing ? 'Testing...' : 'Run test'}
+                </Button>
+
+                {testRun && (
+                  <div className="rounded-lg bg-muted p-3 text-sm space-y-2">
+                    <div className="font-medium">
+                      {testRun.status === 'skipped' ? 'Conditions did not match' : 'Conditions matched'}
+                    </div>
+                    {testRun.conditionResults.map((result, index) => (
+                      <div key={index} className={result.passed ? 'text-green-700' : 'text-red-700'}>
+                        {result.passed ? '✓' : '✗'} {result.field} {OPERATOR_LABELS[result.operator]}{' '}
+                        {result.expected !== undefined && String(result.expected)}
+                        <span className="text-muted-foreground"> (was {JSON.stringify(result.actual) ?? 'not set'})</span>
+                      </div>
+                    ))}
+                    {testRun.actionResults.map((result, index) => (
+                      <div key={index}>→ {result.detail}</div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Workflows */}
+      <div className="space-y-4">
+        {workflows.length === 0 && !draft && (
+          <Card>
+            <CardContent className="p-8 text-center text-muted-foreground">
+              No automations yet. Start from a template or build your own.
+            </CardContent>
+          </Card>
+        )}
+
+        {workflows.map(workflow => (
+          <Card key={workflow.id}>
+            <CardHeader className="pb-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="text-base">{workflow.name}</CardTitle>
+                  <CardDescription>
+                    <Badge variant="outline" className="mr-2">{workflow.triggerEventType}</Badge>
+                    {workflow.conditions.length} condition(s) · {workflow.actions.map(a => ACTION_LABELS[a.type]).join(', ')}
+                    {' · '}ran {workflow.runCount} time(s)
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={workflow.enabled}
+                    onCheckedChange={(checked) => toggleEnabled(workflow, checked)}
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => showHistory(workflow.id)}>
+                    <History className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => editWorkflow(workflow)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => deleteWorkflow(workflow)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+
+            {historyFor === workflow.id && (
+              <CardContent>
+                {runs.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No runs yet</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="font-medium py-1">When</th>
+                        <th className="font-medium py-1">Status</th>
+                        <th className="font-medium py-1">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {runs.map(run => (
+                        <tr key={run.id} className="border-t align-top">
+                          <td className="py-1 whitespace-nowrap">
+                            {new Date(run.createdAt).toLocaleString()}
+                            {run.isTest && <Badge variant="outline" className="ml-2">test</Badge>}
+                          </td>
+                          <td className="py-1">
+                            <Badge className={STATUS_STYLES[run.status]}>{run.status}</Badge>
+                          </td>
+                          <td className="py-1">
+                            {run.actionResults.map((result, index) => (
+                              <div key={index} className={result.status === 'failed' ? 'text-red-600' : ''}>
+                                {ACTION_LABELS[result.type]}: {result.error || result.detail}
+                              </div>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            )}
+          </Card>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -396,9 +396,28 @@ export function FeedbackFeed({
                       </span>
                     </div>
                   )}
-                  {item.engagement_score > 0 && (
+                  {(item.aggregated_engagement_score ?? item.engagement_score) > 0 && (
                     <div className="text-xs text-gray-500">
-                      {item.engagement_score} engagement
+                      {item.aggregated_engagement_score ?? item.engagement_score} engagement
+                    </div>
+                  )}
+                  {item.mentions && item.mentions.length > 0 && (
+                    <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                      <MessageSquare className="h-3 w-3" />
+                      Also on
+                      {item.mentions.slice(0, 3).map((mention) => (
+                        <a
+                          key={mention.id}
+                          href={mention.platform_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="hover:text-gray-700"
+                          title={mention.author_username || PLATFORM_META[mention.platform]?.name}
+                        >
+                          {PLATFORM_META[mention.platform]?.icon || mention.platform}
+                        </a>
+                      ))}
+                      {item.mentions.length > 3 && <span>+{item.mentions.length - 3}</span>}
                     </div>
                   )}
                 </div>
@@ -27,6 +27,8 @@ import {
 } from '@/types/hunter';
 import { RefreshCw, Settings, TrendingUp, AlertCircle, ExternalLink, Clock, User, ThumbsUp, ThumbsDown, Tag } from 'lucide-react';
 import { ScanProgressPanel } from './ScanProgressPanel';
+import { ScanYieldPanel } from './ScanYieldPanel';
+import type { HunterReviewItem } from '@/lib/hunters/review-queue';
 
 interface HunterDashboardProps {
   projectId: string;
@@ -45,7 +47,8 @@ export function HunterDashboard({ projectId }: HunterDashboardProps) {
   const [selectedAction, setSelectedAction] = useState<ActionRecommendation | null>(null);
   const [activeTab, setActiveTab] = useState('feed');
   const [usageInfo, setUsageInfo] = useState<{ current: number; limit: number; remaining: number; plan: string } | null>(null);
-  const [needsReviewFeedback, setNeedsReviewFeedback] = useState<DiscoveredFeedback[]>([]);
+  const [reviewQueue, setReviewQueue] = useState<HunterReviewItem[]>([]);
+  const [reviewBand, setReviewBand] = useState<{ include: number; exclude: number; labelledCount: number } | null>(null);
   const [processingCount, setProcessingCount] = useState(0);
   const [currentScanId, setCurrentScanId] = useState<string | null>(null);
 
@@ -199,20 +202,13 @@ export function HunterDashboard({ projectId }: HunterDashboardProps) {
         setActions(actionsData.recommendations || []);
       }
 
-      // Load items needing human review
-      const reviewRes = await fetch(
-        `/api/hunter/feed?projectId=${projectId}&needsReview=true&limit=50`
-      );
+      // Load items the relevance filter sent to human review
+      const reviewRes = await fetch(`/api/hunter/review?projectId=${projectId}&limit=50`);
       const reviewData = await reviewRes.json();
 
       if (reviewData.success) {
-        // Map platform_url to source_url and author_username to author_name for convenience
-        const reviewItems = (reviewData.items || []).map((item: DiscoveredFeedback) => ({
-          ...item,
-          source_url: item.source_url || item.platform_url,
-          author_name: item.author_name || item.author_username,
-        }));
-        setNeedsReviewFeedback(reviewItems);
+        setReviewQueue(reviewData.items || []);
+        setReviewBand(reviewData.thresholds);
       }
 
       // Check for pending items (to show processing indicator and start polling)
@@ -266,6 +262,31 @@ export function HunterDashboard({ projectId }: HunterDashboardProps) {
     }
   };
 
+  const handleReviewDecision = async (reviewId: string, decision: 'include' | 'exclude') => {
+    try {
+      const res = await fetch('/api/hunter/review', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ projectId, id: reviewId, decision }),
+      });
+
+      const data = await res.json();
+      if (data.success) {
+        setReviewQueue((queue) => queue.filter((item) => item.id !== reviewId));
+        if (decision === 'include') {
+          // Included items are classified into the feed
+          const feedRes = await fetch(`/api/hunter/feed?projectId=${projectId}&limit=20`);
+          const feedData = await feedRes.json();
+          if (feedData.success) {
+            setRecentFeedback(feedData.items || []);
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`[Hunter Dashboard] Error marking review item as ${decision}:`, error);
+    }
+  };
+
   const generateActions = async () => {
     try {
       setRefreshing(true);
@@ -420,9 +441,9 @@ export function HunterDashboard({ projectId }: HunterDashboardProps) {
           <TabsTrigger value="analytics">Analytics</TabsTrigger>
           <TabsTrigger value="review">
             Needs Review
-            {needsReviewFeedback.length > 0 && (
+            {reviewQueue.length > 0 && (
               <span className="ml-2 bg-amber-500 text-white text-xs rounded-full px-2 py-0.5">
-                {needsReviewFeedback.length}
+                {reviewQueue.length}
               </span>
             )}
           </TabsTrigger>
@@ -620,6 +641,8 @@ export function HunterDashboard({ projectId }: HunterDashboardProps) {
 
         {/* Analytics Tab */}
         <TabsContent value="analytics" className="space-y-6">
+          <ScanYieldPanel projectId={projectId} />
+
           {allFeedback.length === 0 ? (
             <Card className="p-8 text-center">
               <TrendingUp className="h-12 w-12 mx-auto text-gray-400 mb-4" />
@@ -680,7 +703,7 @@ export function HunterDashboard({ projectId }: HunterDashboardProps) {
               <Card className="p-6">
                 <h3 className="text-lg font-semibold mb-4">Feedback by Platform</h3>
                 <div className="space-y-3">
-                  {['reddit', 'hackernews', 'twitter', 'playstore'].map((platform) => {
+                  {['reddit', 'hackernews', 'twitter', 'playstore', 'appstore', 'github', 'stackexchange'].map((platform) => {
                     const count = allFeedback.filter(f => f.platform === platform).length;
                     const percentage = allFeedback.length > 0 ? ((count / allFeedback.length) * 100) : 0;
                     return (
@@ -731,111 +754,116 @@ export function HunterDashboard({ projectId }: HunterDashboardProps) {
               <div>
                 <h4 className="font-semibold text-amber-900 dark:text-amber-200">Human Review Queue</h4>
                 <p className="text-sm text-amber-700 dark:text-amber-300 mt-1">
-                  These items scored between 50-69% relevance and need manual verification.
-                  Review and mark as relevant or irrelevant to improve AI accuracy.
+                  {reviewBand
+                    ? `These items scored between ${reviewBand.exclude}-${reviewBand.include - 1}% relevance and need manual verification. `
+                    : 'These items need manual verification. '}
+                  Included items are added to your feed; every decision tunes the filter for this project.
                 </p>
+                {reviewBand && reviewBand.labelledCount > 0 && (
+                  <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+                    Thresholds calibrated from {reviewBand.labelledCount} reviewed items.
+                  </p>
+                )}
               </div>
             </div>
           </Card>
 
-          {needsReviewFeedback.length === 0 ? (
+          {reviewQueue.length === 0 ? (
             <Card className="p-8 text-center">
               <p className="text-gray-500">No items pending review. Great job! 🎉</p>
             </Card>
           ) : (
-            needsReviewFeedback.map((item) => (
-              <Card key={item.id} className="p-4 border-l-4 border-l-amber-500">
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2 mb-2">
-                      <PlatformBadge platform={item.platform} size="sm" />
-                      <ClassificationBadge
-                        classification={item.classification}
-                        size="sm"
-                        isProcessing={item.processing_status === 'pending' || item.processing_status === 'processing'}
-                      />
-                      <span className="text-xs bg-amber-100 dark:bg-amber-900/50 text-amber-700 dark:text-amber-300 px-2 py-0.5 rounded">
-                        Relevance: {item.relevance_score}%
-                      </span>
-                    </div>
-                    {item.title && (
-                      <h4 className="font-medium mb-1">{item.title}</h4>
-                    )}
-                    <p className="text-gray-600 dark:text-gray-400 text-sm line-clamp-3">
-                      {item.content}
-                    </p>
-                    {item.relevance_reasoning && (
-                      <p className="text-xs text-gray-500 mt-2 italic">
-                        AI: {item.relevance_reasoning}
+            reviewQueue.map((item) => {
+              const triggeredFilters = Object.entries(item.filters_applied || {})
+                .filter(([, filter]) => filter?.triggered)
+                .map(([name]) => name.replace(/([A-Z])/g, ' $1').toLowerCase());
+
+              return (
+                <Card key={item.id} className="p-4 border-l-4 border-l-amber-500">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-2">
+                        <PlatformBadge platform={item.platform as PlatformType} size="sm" />
+                        <span className="text-xs bg-amber-100 dark:bg-amber-900/50 text-amber-700 dark:text-amber-300 px-2 py-0.5 rounded">
+                          Relevance: {item.relevance_score}%
+                        </span>
+                        {item.confidence && (
+                          <span className="text-xs bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 px-2 py-0.5 rounded">
+                            {item.confidence} confidence
+                          </span>
+                        )}
+                      </div>
+                      {item.title && (
+                        <h4 className="font-medium mb-1">{item.title}</h4>
+                      )}
+                      <p className="text-gray-600 dark:text-gray-400 text-sm line-clamp-3">
+                        {item.content}
                       </p>
-                    )}
-                    <div className="flex items-center gap-4 mt-3 text-sm text-gray-500">
-                      <span className="flex items-center gap-1">
-                        <User className="h-3 w-3" />
-                        {item.author_name || 'Anonymous'}
-                      </span>
-                      <span className="flex items-center gap-1">
-                        <Clock className="h-3 w-3" />
-                        {item.discovered_at ? new Date(item.discovered_at).toLocaleDateString() : 'Unknown'}
-                      </span>
+                      {item.reasoning && (
+                        <p className="text-xs text-gray-500 mt-2 italic">
+                          AI: {item.reasoning}
+                        </p>
+                      )}
+                      {(triggeredFilters.length > 0 || item.positive_signals.length > 0) && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {triggeredFilters.map((filter) => (
+                            <span key={filter} className="text-xs bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300 px-2 py-0.5 rounded">
+                              {filter}
+                            </span>
+                          ))}
+                          {item.positive_signals.map((signal) => (
+                            <span key={signal} className="text-xs bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-300 px-2 py-0.5 rounded">
+                              {signal}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      <div className="flex items-center gap-4 mt-3 text-sm text-gray-500">
+                        <span className="flex items-center gap-1">
+                          <User className="h-3 w-3" />
+                          {item.author || 'Anonymous'}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Clock className="h-3 w-3" />
+                          {new Date(item.posted_at || item.created_at).toLocaleDateString()}
+                        </span>
+                      </div>
                     </div>
-                  </div>
-                  <div className="flex flex-col gap-2 ml-4">
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      className="text-green-600 border-green-300 hover:bg-green-50"
-                      onClick={async () => {
-                        try {
-                          await fetch('/api/hunter/feedback/review', {
-                            method: 'POST',
-                            headers: { 'Content-Type': 'application/json' },
-                            body: JSON.stringify({ id: item.id, decision: 'relevant' }),
-                          });
-                          setNeedsReviewFeedback(needsReviewFeedback.filter(f => f.id !== item.id));
-                        } catch (error) {
-                          console.error('Error marking as relevant:', error);
-                        }
-                      }}
-                    >
-                      <ThumbsUp className="h-4 w-4 mr-1" />
-                      Relevant
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      className="text-red-600 border-red-300 hover:bg-red-50"
-                      onClick={async () => {
-                        try {
-                          await fetch('/api/hunter/feedback/review', {
-                            method: 'POST',
-                            headers: { 'Content-Type': 'application/json' },
-                            body: JSON.stringify({ id: item.id, decision: 'irrelevant' }),
-                          });
-                          setNeedsReviewFeedback(needsReviewFeedback.filter(f => f.id !== item.id));
-                        } catch (error) {
-                          console.error('Error marking as irrelevant:', error);
-                        }
-                      }}
-                    >
-                      <ThumbsDown className="h-4 w-4 mr-1" />
-                      Irrelevant
-                    </Button>
-                    {item.source_url && (
-                      <a
-                        href={item.source_url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-xs text-blue-500 hover:underline flex items-center justify-center"
+                    <div className="flex flex-col gap-2 ml-4">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-green-600 border-green-300 hover:bg-green-50"
+                        onClick={() => handleReviewDecision(item.id, 'include')}
                       >
-                        <ExternalLink className="h-3 w-3 mr-1" />
-                        View
-                      </a>
-                    )}
+                        <ThumbsUp className="h-4 w-4 mr-1" />
+                        Include
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600 border-red-300 hover:bg-red-50"
+                        onClick={() => handleReviewDecision(item.id, 'exclude')}
+                      >
+                        <ThumbsDown className="h-4 w-4 mr-1" />
+                        Exclude
+                      </Button>
+                      {item.external_url && (
+                        <a
+                          href={item.external_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-xs text-blue-500 hover:underline flex items-center justify-center"
+                        >
+                          <ExternalLink className="h-3 w-3 mr-1" />
+                          View
+                        </a>
+                      )}
+                    </div>
                   </div>
-                </div>
-              </Card>
-            ))
+                </Card>
+              );
+            })
           )}
         </TabsContent>
       </Tabs>
@@ -35,9 +35,11 @@ const STEPS = [
  * - hackernews: HN API (free)
  * - g2/capterra/trustpilot: Grok-powered web search (paid)
  * - producthunt: PH API integration
+ * - appstore: Public App Store reviews feed (free)
+ * - github: GitHub REST/GraphQL API (free)
+ * - stackexchange: Stack Exchange API (free)
  * 
  * NOT included (no working implementation):
- * - appstore: No hunter implemented
  * - playstore: Scraping is too fragile
  */
 const AVAILABLE_PLATFORMS: PlatformType[] = [
@@ -48,6 +50,9 @@ const AVAILABLE_PLATFORMS: PlatformType[] = [
   'capterra',
   'trustpilot',
   'producthunt',
+  'appstore',
+  'github',
+  'stackexchange',
 ];
 
 /**
@@ -140,6 +145,10 @@ export function HunterSetup({ projectId, onComplete, className }: HunterSetupPro
   const [twitterHandle, setTwitterHandle] = useState('');
   const [excludeTerms, setExcludeTerms] = useState<string[]>(['']);
   const [targetSubreddits, setTargetSubreddits] = useState<string[]>(['']);
+  const [appstoreAppId, setAppstoreAppId] = useState('');
+  const [appstoreCountries, setAppstoreCountries] = useState('us');
+  const [githubRepos, setGithubRepos] = useState('');
+  const [stackexchangeTags, setStackexchangeTags] = useState('');
   const [generatingContext, setGeneratingContext] = useState(false);
 
   // Track if config has been loaded to prevent re-fetching on remount
@@ -186,6 +195,25 @@ export function HunterSetup({ projectId, onComplete, className }: HunterSetupPro
             if (redditIntegration?.config?.subreddits?.length) {
               setTargetSubreddits([...redditIntegration.config.subreddits, '']);
             }
+
+            // Load App Store app id and storefronts from integration config
+            const appstoreIntegration = platformsData.integrations.find((i: any) => i.platform_type === 'appstore');
+            if (appstoreIntegration?.config?.appstore_app_id) {
+              setAppstoreAppId(appstoreIntegration.config.appstore_app_id);
+              if (appstoreIntegration.config.appstore_countries?.length) {
+                setAppstoreCountries(appstoreIntegration.config.appstore_countries.join(', '));
+              }
+            }
+
+            const githubIntegration = platformsData.integrations.find((i: any) => i.platform_type === 'github');
+            if (githubIntegration?.config?.github_repos?.length) {
+              setGithubRepos(githubIntegration.config.github_repos.join(', '));
+            }
+
+            const stackexchangeIntegration = platformsData.integrations.find((i: any) => i.platform_type === 'stackexchange');
+            if (stackexchangeIntegration?.config?.stackexchange_tags?.length) {
+              setStackexchangeTags(stackexchangeIntegration.config.stackexchange_tags.join(', '));
+            }
           }
         }
         configLoadedRef.current = true;
@@ -240,7 +268,9 @@ export function HunterSetup({ projectId, onComplete, className }: HunterSetupPro
       case 1:
         return companyName.trim().length > 0;
       case 2:
-        return selectedPlatforms.length > 0;
+        return selectedPlatforms.length > 0 &&
+          (!selectedPlatforms.includes('appstore') || appstoreAppId.trim().length > 0) &&
+          (!selectedPlatforms.includes('github') || githubRepos.trim().length > 0);
       case 3:
         return true;
       case 4:
@@ -397,6 +427,19 @@ export function HunterSetup({ projectId, onComplete, className }: HunterSetupPro
           excludeTerms: excludeTerms.filter((t) => t.trim()),
           // Platform-specific config
           redditSubreddits: targetSubreddits.filter((s) => s.trim()),
+          appstoreAppId: appstoreAppId.trim() || undefined,
+          appstoreCountries: appstoreCountries
+            .split(',')
+            .map((c) => c.trim().toLowerCase())
+            .filter(Boolean),
+          githubRepos: githubRepos
+            .split(',')
+            .map((r) => r.trim())
+            .filter(Boolean),
+          stackexchangeTags: stackexchangeTags
+            .split(',')
+            .map((t) => t.trim().toLowerCase())
+            .filter(Boolean),
         }),
       });
 
@@ -451,6 +494,10 @@ export function HunterSetup({ projectId, onComplete, className }: HunterSetupPro
         setTwitterHandle('');
         setExcludeTerms(['']);
         setTargetSubreddits(['']);
+        setAppstoreAppId('');
+        setAppstoreCountries('us');
+        setGithubRepos('');
+        setStackexchangeTags('');
         setExistingConfigId(null);
         setCurrentStep(1);
 
@@ -632,7 +679,7 @@ export function HunterSetup({ projectId, onComplete, className }: HunterSetupPro
             </p>
             <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-700 rounded-lg p-3 mb-4">
               <p className="text-xs text-amber-800 dark:text-amber-300">
-                <strong>Pro plan:</strong> Reddit, HackerNews, PlayStore •
+                <strong>Pro plan:</strong> Reddit, HackerNews, PlayStore, App Store, GitHub, Stack Overflow •
                 <strong className="text-purple-600 dark:text-purple-400 ml-1">Premium plan:</strong> All platforms including Twitter, G2, Capterra, Trustpilot, ProductHunt
               </p>
             </div>
@@ -676,6 +723,77 @@ export function HunterSetup({ projectId, onComplete, className }: HunterSetupPro
                   </div>
                 ))}
             </div>
+
+            {/* App Store app - only show if App Store is selected */}
+            {selectedPlatforms.includes('appstore') && (
+              <div className="mt-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-700 rounded-lg p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <span className="text-lg">🍎</span>
+                  <Label className="text-blue-900 dark:text-blue-200 font-semibold">App Store App</Label>
+                </div>
+                <div>
+                  <Label htmlFor="appstoreAppId" className="text-xs">App ID</Label>
+                  <Input
+                    id="appstoreAppId"
+                    value={appstoreAppId}
+                    onChange={(e) => setAppstoreAppId(e.target.value.replace(/^id/, ''))}
+                    placeholder="e.g. 284882215 (from apps.apple.com/app/id284882215)"
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="appstoreCountries" className="text-xs">Storefronts</Label>
+                  <Input
+                    id="appstoreCountries"
+                    value={appstoreCountries}
+                    onChange={(e) => setAppstoreCountries(e.target.value)}
+                    placeholder="us, gb, de"
+                    className="mt-1"
+                  />
+                  <p className="text-xs text-blue-700 dark:text-blue-300 mt-1">
+                    Comma-separated country codes. Reviews are pulled from each storefront.
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {/* GitHub repos - only show if GitHub is selected */}
+            {selectedPlatforms.includes('github') && (
+              <div className="mt-4 bg-slate-50 dark:bg-slate-900/40 border border-slate-200 dark:border-slate-600 rounded-lg p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <span className="text-lg">🐙</span>
+                  <Label htmlFor="githubRepos" className="text-slate-900 dark:text-slate-200 font-semibold">GitHub Repositories</Label>
+                </div>
+                <Input
+                  id="githubRepos"
+                  value={githubRepos}
+                  onChange={(e) => setGithubRepos(e.target.value)}
+                  placeholder="acme/app, acme/sdk"
+                />
+                <p className="text-xs text-slate-600 dark:text-slate-300">
+                  Comma-separated owner/repo names. New issues, issue comments and discussions are picked up on each scan.
+                </p>
+              </div>
+            )}
+
+            {/* Stack Overflow tags - only show if Stack Overflow is selected */}
+            {selectedPlatforms.includes('stackexchange') && (
+              <div className="mt-4 bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-700 rounded-lg p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <span className="text-lg">📚</span>
+                  <Label htmlFor="stackexchangeTags" className="text-orange-900 dark:text-orange-200 font-semibold">Stack Overflow Tags (Optional)</Label>
+                </div>
+                <Input
+                  id="stackexchangeTags"
+                  value={stackexchangeTags}
+                  onChange={(e) => setStackexchangeTags(e.target.value)}
+                  placeholder="your-sdk, your-product"
+                />
+                <p className="text-xs text-orange-700 dark:text-orange-300">
+                  Comma-separated tags to watch. Questions mentioning your product name and keywords are found either way.
+                </p>
+              </div>
+            )}
           </div>
         )}
 
@@ -32,6 +32,9 @@ const PLATFORM_ICONS: Record<string, string> = {
     trustpilot: '⭐',
     producthunt: '🚀',
     playstore: '📱',
+    appstore: '🍎',
+    github: '🐙',
+    stackexchange: '📚',
 };
 
 const STATUS_CONFIG: Record<PlatformStatus, { icon: React.ReactNode; color: string; text: string }> = {
@@ -0,0 +1,209 @@
+/**
+ * ScanYieldPanel
+ * Scan funnel, per-source yield and cost, and prune recommendations
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Loader2, Scissors } from 'lucide-react';
+import { PlatformBadge } from './PlatformBadge';
+import type { PlatformType } from '@/types/hunter';
+import type {
+    FunnelCounts,
+    PruneRecommendation,
+    ScanFunnel,
+    SourceYield,
+} from '@/lib/hunters/scan-analytics';
+
+interface ScanYieldPanelProps {
+    projectId: string;
+    days?: number;
+}
+
+interface AnalyticsResponse {
+    scans: ScanFunnel[];
+    sources: SourceYield[];
+    totals: FunnelCounts & { costUsd: number };
+    recommendations: PruneRecommendation[];
+}
+
+const FUNNEL_STEPS: Array<{ key: keyof FunnelCounts; label: string }> = [
+    { key: 'discovered', label: 'Discovered' },
+    { key: 'relevant', label: 'Relevant' },
+    { key: 'classified', label: 'Classified' },
+    { key: 'stored', label: 'Stored' },
+];
+
+const formatCost = (cost: number) => `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+export function ScanYieldPanel({ projectId, days = 30 }: ScanYieldPanelProps) {
+    const [analytics, setAnalytics] = useState<AnalyticsResponse | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [pruning, setPruning] = useState<string | null>(null);
+
+    const loadAnalytics = useCallback(async () => {
+        try {
+            const res = await fetch(`/api/hunter/analytics?projectId=${projectId}&days=${days}`);
+            const data = await res.json();
+            if (data.success) {
+                setAnalytics(data);
+            }
+        } catch (error) {
+            console.error('[ScanYieldPanel] Error loading analytics:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, [projectId, days]);
+
+    useEffect(() => {
+        loadAnalytics();
+    }, [loadAnalytics]);
+
+    const handlePrune = async (recommendation: PruneRecommendation) => {
+        const key = `${recommendation.platform}:${recommendation.source}`;
+        try {
+            setPruning(key);
+            const res = await fetch('/api/hunter/analytics', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    projectId,
+                    platform: recommendation.platform,
+                    field: recommendation.field,
+                    value: recommendation.value,
+                }),
+            });
+            const data = await res.json();
+            if (data.success) {
+                setAnalytics((current) => current && {
+                    ...current,
+                    recommendations: current.recommendations.filter(
+                        (rec) => `${rec.platform}:${rec.source}` !== key
+                    ),
+                });
+            }
+        } catch (error) {
+            console.error('[ScanYieldPanel] Error pruning source:', error);
+        } finally {
+            setPruning(null);
+        }
+    };
+
+    if (loading) {
+        return (
+            <Card className="p-6 flex items-center justify-center">
+                <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+            </Card>
+        );
+    }
+
+    if (!analytics || analytics.scans.length === 0) {
+        return null;
+    }
+
+    const { totals } = analytics;
+
+    return (
+        <Card className="p-6 space-y-6">
+            <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold">Scan Yield (last {days} days)</h3>
+                <span className="text-sm text-gray-500">
+                    {analytics.scans.length} scans · {formatCost(totals.costUsd)}
+                    {totals.stored > 0 && ` · ${formatCost(totals.costUsd / totals.stored)} per stored item`}
+                </span>
+            </div>
+
+            {/* Funnel */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {FUNNEL_STEPS.map(({ key, label }) => (
+                    <div key={key} className="bg-slate-100 dark:bg-slate-700 rounded-lg p-4 text-center">
+                        <div className="text-2xl font-bold">{totals[key]}</div>
+                        <div className="text-sm text-gray-600 dark:text-gray-400">{label}</div>
+                        {key !== 'discovered' && totals.discovered > 0 && (
+                            <div className="text-xs text-gray-500">
+                                {((totals[key] / totals.discovered) * 100).toFixed(0)}%
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            {/* Per-source yield */}
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-gray-500 border-b">
+                            <th className="py-2 pr-4">Source</th>
+                            <th className="py-2 pr-4 text-right">Discovered</th>
+                            <th className="py-2 pr-4 text-right">Relevant</th>
+                            <th className="py-2 pr-4 text-right">Stored</th>
+                            <th className="py-2 pr-4 text-right">Yield</th>
+                            <th className="py-2 pr-4 text-right">Cost</th>
+                            <th className="py-2 text-right">Per stored</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {analytics.sources.map((source) => (
+                            <tr key={`${source.platform}:${source.source}`} className="border-b last:border-0">
+                                <td className="py-2 pr-4">
+                                    <div className="flex items-center gap-2">
+                                        <PlatformBadge platform={source.platform as PlatformType} size="sm" showName={false} />
+                                        <span className="truncate">{source.source || 'Other'}</span>
+                                    </div>
+                                </td>
+                                <td className="py-2 pr-4 text-right">{source.discovered}</td>
+                                <td className="py-2 pr-4 text-right">{source.relevant}</td>
+                                <td className="py-2 pr-4 text-right">{source.stored}</td>
+                                <td className="py-2 pr-4 text-right">{(source.yieldRate * 100).toFixed(0)}%</td>
+                                <td className="py-2 pr-4 text-right">{formatCost(source.costUsd)}</td>
+                                <td className="py-2 text-right">
+                                    {source.costPerStored !== null ? formatCost(source.costPerStored) : '—'}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {/* Prune recommendations */}
+            {analytics.recommendations.length > 0 && (
+                <div className="space-y-3">
+                    <h4 className="font-medium">Low-yield sources</h4>
+                    {analytics.recommendations.map((rec) => {
+                        const key = `${rec.platform}:${rec.source}`;
+                        return (
+                            <div
+                                key={key}
+                                className="flex items-start justify-between gap-4 rounded-lg border p-3"
+                            >
+                                <div className="text-sm">
+                                    <div className="font-medium">{rec.source}</div>
+                                    <div className="text-gray-500">{rec.reason}</div>
+                                    {rec.suggestions.length > 0 && (
+                                        <div className="text-gray-500 mt-1">
+                                            Try instead: {rec.suggestions.map((sub) => `r/${sub}`).join(', ')}
+                                        </div>
+                                    )}
+                                </div>
+                                <Button
+                                    size="sm"
+                                    variant="outline"
+                                    disabled={pruning === key}
+                                    onClick={() => handlePrune(rec)}
+                                >
+                                    {pruning === key
+                                        ? <Loader2 className="w-4 h-4 animate-spin" />
+                                        : <Scissors className="w-4 h-4 mr-1" />}
+                                    Remove
+                                </Button>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </Card>
+    );
+}
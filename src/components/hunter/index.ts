@@ -7,6 +7,7 @@ export { HunterDashboard } from './HunterDashboard';
 export { HunterSetup } from './HunterSetup';
 export { FeedbackFeed } from './FeedbackFeed';
 export { PlatformsDashboard } from './PlatformsDashboard';
+export { ScanYieldPanel } from './ScanYieldPanel';
 export { ClassificationOverview } from './ClassificationOverview';
 export { ActionRecommendations } from './ActionRecommendations';
 export { PlatformBadge } from './PlatformBadge';
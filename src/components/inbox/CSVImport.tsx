@@ -1,6 +1,7 @@
 /**
  * CSV Import Component
- * Drag-and-drop CSV upload for importing feedback
+ * Drag-and-drop upload of CSV, JSON, JSON Lines or XLSX feedback exports,
+ * with a column mapping preview before anything is imported
  */
 
 'use client';
@@ -12,6 +13,14 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
 import {
     Dialog,
     DialogContent,
@@ -27,7 +36,14 @@ import {
     AlertCircle,
     Loader2,
     Download,
+    ChevronLeft,
 } from 'lucide-react';
+import type {
+    ImportColumnMapping,
+    ImportDateFormat,
+    ImportField,
+    ImportPreview,
+} from '@/lib/inbox/types';
 
 interface CSVImportProps {
     projectId: string;
@@ -39,11 +55,36 @@ interface CSVImportProps {
 interface ImportResult {
     success: boolean;
     imported: number;
-    skipped: number;
+    duplicates: number;
+    invalid: number;
     errors: string[];
     message?: string;
 }
 
+const UNMAPPED = '__none__';
+
+const FIELD_LABELS: Record<ImportField, string> = {
+    content: 'Content',
+    title: 'Title',
+    authorName: 'Author name',
+    authorEmail: 'Author email',
+    category: 'Category',
+    createdAt: 'Created at',
+    tags: 'Tags',
+    votes: 'Votes',
+    sourceUrl: 'Link',
+};
+
+const DATE_FORMAT_LABELS: Record<ImportDateFormat, string> = {
+    iso: 'ISO (2026-10-14)',
+    ymd: 'Year/Month/Day',
+    mdy: 'Month/Day/Year',
+    dmy: 'Day/Month/Year',
+    unix_seconds: 'Unix seconds',
+    unix_ms: 'Unix milliseconds',
+    auto: 'Detect per value',
+};
+
 export function CSVImport({ projectId, open, onClose, onComplete }: CSVImportProps) {
     const [file, setFile] = useState<File | null>(null);
     const [sourceLabel, setSourceLabel] = useState('');
@@ -51,6 +92,8 @@ export function CSVImport({ projectId, open, onClose, onComplete }: CSVImportPro
     const [progress, setProgress] = useState(0);
     const [result, setResult] = useState<ImportResult | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const [preview, setPreview] = useState<ImportPreview | null>(null);
+    const [updatingPreview, setUpdatingPreview] = useState(false);
 
     const onDrop = useCallback((acceptedFiles: File[]) => {
         if (acceptedFiles.length > 0) {
@@ -65,12 +108,15 @@ export function CSVImport({ projectId, open, onClose, onComplete }: CSVImportPro
         accept: {
             'text/csv': ['.csv'],
             'application/vnd.ms-excel': ['.csv'],
+            'application/json': ['.json'],
+            'application/x-ndjson': ['.jsonl', '.ndjson'],
+            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
         },
         maxFiles: 1,
         maxSize: 5 * 1024 * 1024, // 5MB
     });
 
-    const handleImport = async () => {
+    const handleUpload = async () => {
         if (!file) return;
 
         setImporting(true);
@@ -81,7 +127,7 @@ export function CSVImport({ projectId, open, onClose, onComplete }: CSVImportPro
             const formData = new FormData();
             formData.append('file', file);
             formData.append('projectId', projectId);
-            formData.append('sourceLabel', sourceLabel || 'CSV Import');
+            formData.append('sourceLabel', sourceLabel || file.name);
 
             setProgress(30);
 
@@ -90,7 +136,70 @@ export function CSVImport({ projectId, open, onClose, onComplete }: CSVImportPro
                 body: formData,
             });
 
-            setProgress(80);
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Upload failed');
+            }
+
+            setProgress(0);
+            setPreview(data.preview);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Upload failed');
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    const updatePreview = async (changes: { mapping?: ImportColumnMapping; dateFormat?: ImportDateFormat }) => {
+        if (!preview) return;
+
+        setUpdatingPreview(true);
+        setError(null);
+
+        try {
+            const response = await fetch(`/api/inbox/import/${preview.importId}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(changes),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to update mapping');
+            }
+
+            setPreview(data.preview);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update mapping');
+        } finally {
+            setUpdatingPreview(false);
+        }
+    };
+
+    const handleMappingChange = (field: ImportField, column: string) => {
+        if (!preview) return;
+        const mapping = { ...preview.mapping };
+        if (column === UNMAPPED) {
+            delete mapping[field];
+        } else {
+            mapping[field] = column;
+        }
+        updatePreview({ mapping });
+    };
+
+    const handleImport = async () => {
+        if (!preview) return;
+
+        setImporting(true);
+        setProgress(50);
+        setError(null);
+
+        try {
+            const response = await fetch(`/api/inbox/import/${preview.importId}`, {
+                method: 'POST',
+            });
 
             const data = await response.json();
 
@@ -100,7 +209,7 @@ export function CSVImport({ projectId, open, onClose, onComplete }: CSVImportPro
 
             setProgress(100);
             setResult(data);
-            onComplete({ imported: data.imported, skipped: data.skipped });
+            onComplete({ imported: data.imported, skipped: data.duplicates + data.invalid });
         } catch (err) {
             setError(err instanceof Error ? err.message : 'Import failed');
         } finally {
@@ -114,6 +223,7 @@ export function CSVImport({ projectId, open, onClose, onComplete }: CSVImportPro
         setProgress(0);
         setResult(null);
         setError(null);
+        setPreview(null);
         onClose();
     };
 
@@ -132,16 +242,170 @@ export function CSVImport({ projectId, open, onClose, onComplete }: CSVImportPro
         URL.revokeObjectURL(url);
     };
 
+    const renderPreview = () => {
+        if (!preview) return null;
+        const importable = preview.validRows - preview.alreadyImported;
+
+        return (
+            <div className="space-y-5">
+                {/* Summary */}
+                <div className="flex flex-wrap gap-2 text-sm">
+                    <Badge variant="secondary">{preview.totalRows} rows</Badge>
+                    <Badge variant="secondary">{importable} to import</Badge>
+                    {preview.alreadyImported > 0 && (
+                        <Badge variant="outline">{preview.alreadyImported} already imported</Badge>
+                    )}
+                    {preview.duplicateRows > 0 && (
+                        <Badge variant="outline">{preview.duplicateRows} repeated in file</Badge>
+                    )}
+                    {preview.invalidRows > 0 && (
+                        <Badge variant="destructive">{preview.invalidRows} invalid</Badge>
+                    )}
+                </div>
+
+                {/* Column Mapping */}
+                <div className="grid grid-cols-2 gap-3">
+                    {(Object.keys(FIELD_LABELS) as ImportField[]).map((field) => (
+                        <div key={field}>
+                            <Label className="text-xs">{FIELD_LABELS[field]}{field === 'content' && ' *'}</Label>
+                            <Select
+                                value={preview.mapping[field] || UNMAPPED}
+                                onValueChange={(column) => handleMappingChange(field, column)}
+                                disabled={updatingPreview || importing}
+                            >
+                                <SelectTrigger className="mt-1 h-8 text-sm">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={UNMAPPED}>Don&apos;t import</SelectItem>
+                                    {preview.columns.map((column) => (
+                                        <SelectItem key={column} value={column}>{column}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    ))}
+                    {preview.mapping.createdAt && (
+                        <div>
+                            <Label className="text-xs">Date format</Label>
+                            <Select
+                                value={preview.dateFormat}
+                                onValueChange={(dateFormat) => updatePreview({ dateFormat: dateFormat as ImportDateFormat })}
+                                disabled={updatingPreview || importing}
+                            >
+                                <SelectTrigger className="mt-1 h-8 text-sm">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {(Object.keys(DATE_FORMAT_LABELS) as ImportDateFormat[]).map((format) => (
+                                        <SelectItem key={format} value={format}>{DATE_FORMAT_LABELS[format]}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+                </div>
+
+                {/* Sample Rows */}
+                {preview.sample.length > 0 && (
+                    <div className="border rounded-lg max-h-48 overflow-auto">
+                        <table className="w-full text-xs">
+                            <thead className="bg-gray-50 dark:bg-gray-800 sticky top-0">
+                                <tr className="text-left text-gray-600 dark:text-gray-300">
+                                    <th className="p-2">Row</th>
+                                    <th className="p-2">Title / Content</th>
+                                    <th className="p-2">Author</th>
+                                    <th className="p-2">Category</th>
+                                    <th className="p-2">Date</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {preview.sample.map((row) => (
+                                    <tr key={row.hash} className="border-t align-top">
+                                        <td className="p-2 text-gray-400">{row.row}</td>
+                                        <td className="p-2">
+                                            {row.title && <div className="font-medium">{row.title}</div>}
+                                            <div className="text-gray-600 dark:text-gray-400 line-clamp-2">{row.content}</div>
+                                        </td>
+                                        <td className="p-2">{row.authorEmail || row.authorName || '—'}</td>
+                                        <td className="p-2">{row.category}</td>
+                                        <td className="p-2">
+                                            {row.createdAt ? new Date(row.createdAt).toLocaleDateString() : '—'}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                {/* Validation Report */}
+                {preview.issues.length > 0 && (
+                    <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-3 max-h-32 overflow-auto">
+                        <ul className="text-xs text-amber-800 dark:text-amber-200 space-y-1">
+                            {preview.issues.map((issue, index) => (
+                                <li key={index}>
+                                    {issue.row > 0 && <span className="font-medium">Row {issue.row}: </span>}
+                                    {issue.message}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                {/* Progress */}
+                {importing && (
+                    <div className="space-y-2">
+                        <Progress value={progress} />
+                        <p className="text-sm text-gray-500 text-center">Importing...</p>
+                    </div>
+                )}
+
+                {/* Error */}
+                {error && (
+                    <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 flex items-start gap-3">
+                        <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0 mt-0.5" />
+                        <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+                    </div>
+                )}
+
+                {/* Actions */}
+                <div className="flex justify-between">
+                    <Button variant="outline" onClick={() => setPreview(null)} disabled={importing}>
+                        <ChevronLeft className="h-4 w-4 mr-2" />
+                        Back
+                    </Button>
+                    <Button
+                        onClick={handleImport}
+                        disabled={importing || updatingPreview || !preview.mapping.content || importable <= 0}
+                    >
+                        {importing ? (
+                            <>
+                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                Importing...
+                            </>
+                        ) : (
+                            <>
+                                <Upload className="h-4 w-4 mr-2" />
+                                Import {importable} Items
+                            </>
+                        )}
+                    </Button>
+                </div>
+            </div>
+        );
+    };
+
     return (
         <Dialog open={open} onOpenChange={(open) => !open && handleClose()}>
-            <DialogContent className="max-w-xl">
+            <DialogContent className={preview && !result ? 'max-w-3xl' : 'max-w-xl'}>
                 <DialogHeader>
                     <DialogTitle className="flex items-center gap-2">
                         <FileSpreadsheet className="h-5 w-5" />
-                        Import Feedback from CSV
+                        Import Feedback
                     </DialogTitle>
                     <DialogDescription>
-                        Upload a CSV file to import feedback from Zendesk, Intercom, or any other source
+                        Upload a CSV, JSON, JSON Lines or XLSX export from Canny, UserVoice, Zendesk, or any other source
                     </DialogDescription>
                 </DialogHeader>
 
@@ -156,7 +420,8 @@ export function CSVImport({ projectId, open, onClose, onComplete }: CSVImportPro
                                 <div>
                                     <p className="font-medium text-green-800 dark:text-green-200">Import Complete!</p>
                                     <p className="text-sm text-green-700 dark:text-green-300">
-                                        {result.imported} items imported, {result.skipped} skipped
+                                        {result.imported} items imported, {result.duplicates} already imported
+                                        {result.invalid > 0 && `, ${result.invalid} without content`}
                                     </p>
                                 </div>
                             </div>
@@ -166,8 +431,11 @@ export function CSVImport({ projectId, open, onClose, onComplete }: CSVImportPro
                         </div>
                     )}
 
+                    {/* Mapping Preview */}
+                    {preview && !result?.success && renderPreview()}
+
                     {/* File Upload */}
-                    {!result?.success && (
+                    {!preview && !result?.success && (
                         <>
                             <div
                                 {...getRootProps()}
@@ -206,7 +474,7 @@ export function CSVImport({ projectId, open, onClose, onComplete }: CSVImportPro
                                     <>
                                         <Upload className="h-10 w-10 text-gray-400 mx-auto mb-3" />
                                         <p className="text-gray-600 dark:text-gray-300 mb-1">
-                                            {isDragActive ? 'Drop your CSV file here' : 'Drag and drop a CSV file'}
+                                            {isDragActive ? 'Drop your file here' : 'Drag and drop a CSV, JSON, JSONL or XLSX file'}
                                         </p>
                                         <p className="text-sm text-gray-500 dark:text-gray-400">
                                             or click to browse (max 5MB)
@@ -236,7 +504,7 @@ export function CSVImport({ projectId, open, onClose, onComplete }: CSVImportPro
                                     Column Mapping
                                 </h4>
                                 <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
-                                    Your CSV should include a column for feedback content. We automatically detect:
+                                    You&apos;ll be able to check and change the mapping before importing. We automatically detect:
                                 </p>
                                 <ul className="text-sm text-gray-500 dark:text-gray-400 grid grid-cols-2 gap-1">
                                     <li>• <code className="text-xs bg-gray-200 dark:bg-gray-700 px-1 rounded">content</code> or <code className="text-xs bg-gray-200 dark:bg-gray-700 px-1 rounded">description</code></li>
@@ -261,7 +529,7 @@ export function CSVImport({ projectId, open, onClose, onComplete }: CSVImportPro
                             {importing && (
                                 <div className="space-y-2">
                                     <Progress value={progress} />
-                                    <p className="text-sm text-gray-500 text-center">Importing...</p>
+                                    <p className="text-sm text-gray-500 text-center">Uploading...</p>
                                 </div>
                             )}
 
@@ -281,16 +549,16 @@ export function CSVImport({ projectId, open, onClose, onComplete }: CSVImportPro
                                 <Button variant="outline" onClick={handleClose}>
                                     Cancel
                                 </Button>
-                                <Button onClick={handleImport} disabled={!file || importing}>
+                                <Button onClick={handleUpload} disabled={!file || importing}>
                                     {importing ? (
                                         <>
                                             <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                                            Importing...
+                                            Reading file...
                                         </>
                                     ) : (
                                         <>
                                             <Upload className="h-4 w-4 mr-2" />
-                                            Import Feedback
+                                            Preview Import
                                         </>
                                     )}
                                 </Button>
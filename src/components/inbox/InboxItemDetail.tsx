@@ -15,6 +15,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   UnifiedFeedbackItem,
   Customer,
+  InboxTimelineEvent,
   INTEGRATION_CONFIGS,
 } from '@/lib/inbox/types';
 import {
@@ -46,6 +47,7 @@ interface InboxItemDetailProps {
   item: UnifiedFeedbackItem;
   onClose?: () => void;
   onAction?: (action: string, data?: any) => void;
+  onUpdate?: (item: UnifiedFeedbackItem) => void;
   className?: string;
 }
 
@@ -63,10 +65,15 @@ export function InboxItemDetail({
   item,
   onClose,
   onAction,
+  onUpdate,
   className,
 }: InboxItemDetailProps) {
   const [replyContent, setReplyContent] = useState('');
   const [isReplying, setIsReplying] = useState(false);
+  const [canSendReply, setCanSendReply] = useState(false);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [replyError, setReplyError] = useState<string | null>(null);
+  const [timeline, setTimeline] = useState<InboxTimelineEvent[]>([]);
   const [similarItems, setSimilarItems] = useState<UnifiedFeedbackItem[]>([]);
   const [customerFeedback, setCustomerFeedback] = useState<UnifiedFeedbackItem[]>([]);
   
@@ -103,15 +110,65 @@ export function InboxItemDetail({
     }
   }, [item.id, item.projectId, item.customerId, item.readAt, item.tags, onAction]);
   
+  // Check whether replies can go back to the source, and load the timeline
+  useEffect(() => {
+    setReplyError(null);
+    
+    fetch(`/api/inbox/items/${item.id}/reply`)
+      .then(res => res.json())
+      .then(data => setCanSendReply(!!data.supported))
+      .catch(() => setCanSendReply(false));
+    
+    fetch(`/api/inbox/items/${item.id}/timeline`)
+      .then(res => res.json())
+      .then(data => setTimeline(data.events || []))
+      .catch(console.error);
+  }, [item.id, item.repliedAt]);
+  
+  const handleSuggestReply = async () => {
+    setIsSuggesting(true);
+    try {
+      const res = await fetch(`/api/inbox/items/${item.id}/reply?suggest=true`);
+      const data = await res.json();
+      if (data.draft) setReplyContent(data.draft);
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+  
   const handleReply = async () => {
     if (!replyContent.trim()) return;
     
     setIsReplying(true);
+    setReplyError(null);
     try {
-      await onAction?.('reply', {
-        content: replyContent,
-        sentVia: item.sourceType,
-      });
+      if (canSendReply) {
+        const res = await fetch(`/api/inbox/items/${item.id}/reply`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ content: replyContent }),
+        });
+        const data = await res.json();
+        
+        if (!res.ok) {
+          setReplyError(data.error || 'Failed to send reply');
+          // The failed attempt is on the timeline
+          fetch(`/api/inbox/items/${item.id}/timeline`)
+            .then(timelineRes => timelineRes.json())
+            .then(timelineData => setTimeline(timelineData.events || []))
+            .catch(console.error);
+          return;
+        }
+        
+        if (data.item) onUpdate?.(data.item);
+      } else {
+        await onAction?.('reply', {
+          content: replyContent,
+          sentVia: item.sourceType,
+        });
+      }
       setReplyContent('');
     } finally {
       setIsReplying(false);
@@ -310,14 +367,32 @@ export function InboxItemDetail({
                     onChange={(e) => setReplyContent(e.target.value)}
                     rows={3}
                   />
-                  <div className="flex justify-end mt-2">
+                  {replyError && (
+                    <p className="text-xs text-red-600 mt-2">{replyError}</p>
+                  )}
+                  <div className="flex justify-end gap-2 mt-2">
+                    {canSendReply && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={handleSuggestReply}
+                        disabled={isSuggesting}
+                      >
+                        <Sparkles className="h-4 w-4 mr-2" />
+                        {isSuggesting ? 'Drafting...' : 'Suggest Reply'}
+                      </Button>
+                    )}
                     <Button
                       size="sm"
                       onClick={handleReply}
                       disabled={!replyContent.trim() || isReplying}
                     >
                       <Send className="h-4 w-4 mr-2" />
-                      {isReplying ? 'Sending...' : 'Send Reply'}
+                      {isReplying
+                        ? 'Sending...'
+                        : canSendReply
+                          ? `Send via ${sourceConfig?.name || item.sourceType}`
+                          : 'Send Reply'}
                     </Button>
                   </div>
                 </CardContent>
@@ -337,6 +412,36 @@ export function InboxItemDetail({
                 </CardContent>
               </Card>
             )}
+            
+            {/* Timeline */}
+            {timeline.length > 0 && (
+              <Card>
+                <CardContent className="p-4">
+                  <h4 className="text-sm font-medium text-gray-700 mb-2">Timeline</h4>
+                  <div className="space-y-2">
+                    {timeline.map((event) => (
+                      <div key={event.id} className="flex items-start gap-2 text-sm">
+                        {event.eventType === 'reply_sent' ? (
+                          <CheckCircle className="h-4 w-4 text-green-500 mt-0.5" />
+                        ) : (
+                          <AlertTriangle className="h-4 w-4 text-red-500 mt-0.5" />
+                        )}
+                        <div className="flex-1">
+                          <p className="text-gray-700">
+                            {event.eventType === 'reply_sent'
+                              ? `Reply sent via ${event.metadata.via}`
+                              : `Reply via ${event.metadata.via} failed: ${event.metadata.error}`}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
           
           <TabsContent value="analysis" className="p-4 space-y-4">
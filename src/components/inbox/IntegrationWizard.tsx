@@ -68,6 +68,7 @@ const INTEGRATION_ICONS: Partial<Record<IntegrationType, React.ReactNode>> = {
   intercom: <MessageSquare className="h-6 w-6 text-[#6AFDEF]" />,
   email_gmail: <Mail className="h-6 w-6 text-[#EA4335]" />,
   email_outlook: <Mail className="h-6 w-6 text-[#0078D4]" />,
+  email_inbound: <Mail className="h-6 w-6 text-gray-600" />,
   twitter: <Twitter className="h-6 w-6 text-[#1DA1F2]" />,
   g2: <Star className="h-6 w-6 text-[#FF492C]" />,
   app_store: <Chrome className="h-6 w-6 text-gray-600" />,
@@ -88,6 +89,7 @@ export function IntegrationWizard({
   const [testResult, setTestResult] = useState<{ success: boolean; error?: string } | null>(null);
   const [saving, setSaving] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [inboundAddress, setInboundAddress] = useState<string | null>(null);
 
   const selectedConfig = selectedType ? INTEGRATION_CONFIGS[selectedType] : null;
 
@@ -148,6 +150,8 @@ export function IntegrationWizard({
         throw new Error(data.error || 'Failed to create integration');
       }
 
+      setInboundAddress(data.integration.config?.inboxEmail || null);
+
       // Test the connection
       const testResponse = await fetch(`/api/inbox/integrations/${data.integration.id}`, {
         method: 'PATCH',
@@ -212,6 +216,7 @@ export function IntegrationWizard({
     setConfig({});
     setTestResult(null);
     setSearchQuery('');
+    setInboundAddress(null);
     onClose();
   };
 
@@ -458,6 +463,14 @@ export function IntegrationWizard({
             </div>
           );
 
+        case 'email_inbound':
+          return (
+            <p className="text-sm text-gray-600">
+              We&apos;ll create a feedback address for this project. Forward emails to it, or set up
+              auto-forwarding from your support mailbox; quoted replies and signatures are removed.
+            </p>
+          );
+
         default:
           return null;
       }
@@ -534,6 +547,13 @@ export function IntegrationWizard({
         </p>
       </div>
 
+      {inboundAddress && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-left">
+          <h4 className="text-sm font-medium text-blue-900 mb-1">Your feedback address</h4>
+          <code className="text-sm text-blue-800 break-all">{inboundAddress}</code>
+        </div>
+      )}
+
       <div className="bg-gray-50 rounded-lg p-4 text-left">
         <h4 className="text-sm font-medium text-gray-700 mb-2">What happens next?</h4>
         <ul className="space-y-2 text-sm text-gray-600">
@@ -0,0 +1,895 @@
+/**
+ * Automation Engine - Runs project-defined workflows on the event bus
+ *
+ * Each workflow names a trigger event, conditions on the event and a list
+ * of actions (Slack message, Jira issue, email, post status). The engine is
+ * registered for every event type in the agent registry, alongside the
+ * built-in agents, and records each matching run so PMs can see what fired.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { WebClient } from '@slack/web-api';
+import { decryptToken } from '@/lib/jira/encryption';
+import { JiraAPI, getIssueUrl, textToADF } from '@/lib/jira/api';
+import { sendEmail } from '@/lib/email';
+import { invalidateCacheTags, postCacheTags } from '@/lib/cache';
+import { EVENT_CATALOGUE, isDomainEventType } from '@/lib/events/catalogue';
+import type { OpenAPISchema } from '@/lib/openapi/schema';
+import { DomainEvent, EventType } from '@/lib/events/types';
+import type {
+  AutomationAction,
+  AutomationActionResult,
+  AutomationCondition,
+  AutomationConditionOperator,
+  AutomationConditionResult,
+  AutomationRun,
+  AutomationRunStatus,
+  AutomationWorkflow,
+  AutomationWorkflowInput,
+} from '@/types/agent-workflow';
+
+const OPERATORS: AutomationConditionOperator[] = [
+  'equals', 'not_equals', 'contains', 'not_contains', 'in', 'not_in',
+  'greater_than', 'less_than', 'exists', 'not_exists',
+];
+const ACTION_TYPES = ['slack', 'jira', 'email', 'set_post_status'];
+const POST_STATUSES = ['open', 'planned', 'in_progress', 'done', 'declined'];
+const MAX_CONDITIONS = 20;
+const MAX_ACTIONS = 10;
+const RUN_HISTORY_LIMIT = 50;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * What conditions and placeholders can refer to. post and customer are
+ * looked up only when a workflow mentions them.
+ */
+export interface AutomationContext {
+  event: {
+    id?: string;
+    type: string;
+    aggregate_type: string;
+    aggregate_id: string;
+    version: number;
+  };
+  payload: Record<string, unknown>;
+  metadata: Record<string, unknown>;
+  post?: Record<string, unknown> | null;
+  customer?: Record<string, unknown> | null;
+}
+
+// ============================================================================
+// Conditions & Templates
+// ============================================================================
+
+/**
+ * Read a dotted path such as 'payload.sentiment_category' from the context
+ */
+export function resolveField(context: AutomationContext, path: string): unknown {
+  let value: unknown = context;
+  for (const key of path.split('.')) {
+    if (value === null || value === undefined || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function normalise(value: unknown): unknown {
+  return typeof value === 'string' ? value.trim().toLowerCase() : value;
+}
+
+function sameValue(actual: unknown, expected: unknown): boolean {
+  if (typeof actual === 'number' && typeof expected === 'string' && expected.trim() !== '') {
+    return actual === Number(expected);
+  }
+  if (typeof actual === 'boolean' && typeof expected === 'string') {
+    return String(actual) === expected.trim().toLowerCase();
+  }
+  return normalise(actual) === normalise(expected);
+}
+
+function listOf(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') return value.split(',').map(part => part.trim()).filter(Boolean);
+  return value === undefined || value === null ? [] : [value];
+}
+
+function isPresent(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return false;
+  return !Array.isArray(value) || value.length > 0;
+}
+
+/**
+ * Whether a single condition holds for the context
+ */
+export function evaluateCondition(condition: AutomationCondition, context: AutomationContext): AutomationConditionResult {
+  const actual = resolveField(context, condition.field);
+  const expected = condition.value;
+  let passed: boolean;
+
+  switch (condition.operator) {
+    case 'equals':
+      passed = sameValue(actual, expected);
+      break;
+    case 'not_equals':
+      passed = !sameValue(actual, expected);
+      break;
+    case 'contains':
+    case 'not_contains': {
+      const found = Array.isArray(actual)
+        ? actual.some(item => sameValue(item, expected))
+        : typeof actual === 'string' && actual.toLowerCase().includes(String(expected ?? '').toLowerCase());
+      passed = condition.operator === 'contains' ? found : !found;
+      break;
+    }
+    case 'in':
+    case 'not_in': {
+      const found = listOf(expected).some(option => sameValue(actual, option));
+      passed = condition.operator === 'in' ? found : !found;
+      break;
+    }
+    case 'greater_than':
+    case 'less_than': {
+      const a = typeof actual === 'string' ? Number(actual) : actual;
+      const b = Number(expected);
+      passed = typeof a === 'number' && !Number.isNaN(a) && !Number.isNaN(b) &&
+        (condition.operator === 'greater_than' ? a > b : a < b);
+      break;
+    }
+    case 'exists':
+      passed = isPresent(actual);
+      break;
+    case 'not_exists':
+      passed = !isPresent(actual);
+      break;
+    default:
+      passed = false;
+  }
+
+  return { field: condition.field, operator: condition.operator, expected, actual, passed };
+}
+
+/**
+ * Evaluate a workflow's conditions. A workflow without conditions runs on
+ * every event of its trigger type.
+ */
+export function evaluateConditions(
+  workflow: Pick<AutomationWorkflow, 'conditions' | 'conditionMatch'>,
+  context: AutomationContext
+): { matched: boolean; results: AutomationConditionResult[] } {
+  const results = workflow.conditions.map(condition => evaluateCondition(condition, context));
+  if (results.length === 0) {
+    return { matched: true, results };
+  }
+
+  const matched = workflow.conditionMatch === 'any'
+    ? results.some(result => result.passed)
+    : results.every(result => result.passed);
+
+  return { matched, results };
+}
+
+/**
+ * Fill {{field}} placeholders from the context; unknown fields render empty
+ */
+export function renderTemplate(template: string, context: AutomationContext): string {
+  return template.replace(PLACEHOLDER, (_match, path: string) => {
+    const value = resolveField(context, path);
+    if (value === undefined || value === null) return '';
+    if (Array.isArray(value)) return value.join(', ');
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  });
+}
+
+/**
+ * Everything a workflow's conditions and action templates refer to
+ */
+function referencedFields(workflow: Pick<AutomationWorkflow, 'conditions' | 'actions'>): string[] {
+  const fields = workflow.conditions.map(condition => condition.field);
+  for (const action of workflow.actions) {
+    for (const value of Object.values(action)) {
+      if (typeof value !== 'string') continue;
+      for (const match of value.matchAll(PLACEHOLDER)) {
+        fields.push(match[1]);
+      }
+    }
+  }
+  return fields;
+}
+
+/**
+ * Check a workflow before saving it; returns an error message or null
+ */
+export function validateAutomation(input: Partial<AutomationWorkflowInput>, partial = false): string | null {
+  if (!partial || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) return 'Workflow name is required';
+  }
+
+  if (!partial || input.triggerEventType !== undefined) {
+    if (typeof input.triggerEventType !== 'string' || !isDomainEventType(input.triggerEventType)) {
+      return `Unknown trigger event "${input.triggerEventType}"`;
+    }
+  }
+
+  if (input.conditionMatch !== undefined && !['all', 'any'].includes(input.conditionMatch)) {
+    return 'conditionMatch must be "all" or "any"';
+  }
+
+  if (input.conditions !== undefined) {
+    if (!Array.isArray(input.conditions)) return 'conditions must be a list';
+    if (input.conditions.length > MAX_CONDITIONS) return `A workflow can have at most ${MAX_CONDITIONS} conditions`;
+
+    for (const condition of input.conditions) {
+      if (!condition || typeof condition.field !== 'string' || !condition.field.trim()) {
+        return 'Every condition needs a field';
+      }
+      if (!OPERATORS.includes(condition.operator)) {
+        return `Unknown operator "${condition.operator}"`;
+      }
+      if (!['exists', 'not_exists'].includes(condition.operator) && condition.value === undefined) {
+        return `${condition.field} ${condition.operator} needs a value`;
+      }
+    }
+  }
+
+  if (!partial || input.actions !== undefined) {
+    if (!Array.isArray(input.actions) || input.actions.length === 0) {
+      return 'A workflow needs at least one action';
+    }
+    if (input.actions.length > MAX_ACTIONS) return `A workflow can have at most ${MAX_ACTIONS} actions`;
+
+    for (const action of input.actions) {
+      if (!action || !ACTION_TYPES.includes(action.type)) {
+        return `Unknown action "${(action as { type?: string })?.type}"`;
+      }
+      if (action.type === 'slack' && (!action.channelId || !action.message)) {
+        return 'slack needs a channelId and a message';
+      }
+      if (action.type === 'jira' && !action.summary) return 'jira needs a summary';
+      if (action.type === 'email') {
+        if (!Array.isArray(action.to) || action.to.length === 0 || !action.to.every(to => EMAIL_PATTERN.test(to))) {
+          return 'email needs at least one valid recipient';
+        }
+        if (!action.subject || !action.body) return 'email needs a subject and a body';
+      }
+      if (action.type === 'set_post_status' && !POST_STATUSES.includes(action.status)) {
+        return `status must be one of ${POST_STATUSES.join(', ')}`;
+      }
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Sample Events
+// ============================================================================
+
+function sampleValue(name: string, schema: OpenAPISchema): unknown {
+  if (schema.example !== undefined) return schema.example;
+  if (schema.enum?.length) return schema.enum[0];
+
+  switch (schema.type) {
+    case 'integer':
+    case 'number':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'array':
+      return [];
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, property]) => [key, sampleValue(key, property)])
+      );
+    default:
+      return schema.format === 'uuid' ? crypto.randomUUID() : `Sample ${name.replace(/_/g, ' ')}`;
+  }
+}
+
+/**
+ * An event shaped like the catalogue's payload for the type, used when a
+ * workflow is tested without a pasted event
+ */
+export function buildSampleEvent(eventType: string, projectId: string): DomainEvent {
+  const definition = EVENT_CATALOGUE[eventType as EventType];
+  if (!definition) {
+    throw new Error(`Unknown event type "${eventType}"`);
+  }
+
+  return {
+    type: definition.type,
+    aggregate_type: definition.aggregateType,
+    aggregate_id: crypto.randomUUID(),
+    payload: sampleValue('payload', definition.payload) as Record<string, unknown>,
+    metadata: { project_id: projectId, source: 'automation_test' },
+    version: definition.version,
+  };
+}
+
+// ============================================================================
+// Engine
+// ============================================================================
+
+export class AutomationEngine {
+  private supabase: SupabaseClient;
+
+  constructor(supabaseClient?: SupabaseClient) {
+    this.supabase = supabaseClient || createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+  }
+
+  /**
+   * Find a project by slug with whether the user may manage its automations
+   * (the owner or an admin member)
+   */
+  async findProject(slug: string, userId: string): Promise<{ id: string; canManage: boolean } | null> {
+    const { data: project } = await this.supabase
+      .from('projects')
+      .select('id, owner_id')
+      .eq('slug', slug)
+      .maybeSingle();
+
+    if (!project) {
+      return null;
+    }
+
+    if (project.owner_id === userId) {
+      return { id: project.id, canManage: true };
+    }
+
+    const { data: member } = await this.supabase
+      .from('members')
+      .select('role')
+      .eq('project_id', project.id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    return { id: project.id, canManage: member?.role === 'admin' };
+  }
+
+  async listWorkflows(projectId: string): Promise<AutomationWorkflow[]> {
+    const { data, error } = await this.supabase
+      .from('automation_workflows')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true });
+
+    if (error || !data) {
+      console.error('[AutomationEngine] Error listing workflows:', error);
+      return [];
+    }
+
+    return data.map(this.mapWorkflow);
+  }
+
+  async getWorkflow(workflowId: string): Promise<AutomationWorkflow | null> {
+    const { data, error } = await this.supabase
+      .from('automation_workflows')
+      .select('*')
+      .eq('id', workflowId)
+      .maybeSingle();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return this.mapWorkflow(data);
+  }
+
+  async createWorkflow(projectId: string, input: AutomationWorkflowInput, userId?: string): Promise<AutomationWorkflow | null> {
+    const { data, error } = await this.supabase
+      .from('automation_workflows')
+      .insert({
+        project_id: projectId,
+        name: input.name.trim(),
+        description: input.description,
+        enabled: input.enabled ?? true,
+        trigger_event_type: input.triggerEventType,
+        condition_match: input.conditionMatch ?? 'all',
+        conditions: input.conditions ?? [],
+        actions: input.actions,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('[AutomationEngine] Error creating workflow:', error);
+      return null;
+    }
+
+    return this.mapWorkflow(data);
+  }
+
+  async updateWorkflow(workflowId: string, input: Partial<AutomationWorkflowInput>): Promise<AutomationWorkflow | null> {
+    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+
+    if (input.name !== undefined) updates.name = input.name.trim();
+    if (input.description !== undefined) updates.description = input.description;
+    if (input.enabled !== undefined) updates.enabled = input.enabled;
+    if (input.triggerEventType !== undefined) updates.trigger_event_type = input.triggerEventType;
+    if (input.conditionMatch !== undefined) updates.condition_match = input.conditionMatch;
+    if (input.conditions !== undefined) updates.conditions = input.conditions;
+    if (input.actions !== undefined) updates.actions = input.actions;
+
+    const { data, error } = await this.supabase
+      .from('automation_workflows')
+      .update(updates)
+      .eq('id', workflowId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('[AutomationEngine] Error updating workflow:', error);
+      return null;
+    }
+
+    return this.mapWorkflow(data);
+  }
+
+  async deleteWorkflow(workflowId: string): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('automation_workflows')
+      .delete()
+      .eq('id', workflowId);
+
+    return !error;
+  }
+
+  /**
+   * A workflow's most recent runs, test runs included
+   */
+  async listRuns(workflowId: string, limit = RUN_HISTORY_LIMIT): Promise<AutomationRun[]> {
+    const { data, error } = await this.supabase
+      .from('automation_runs')
+      .select('*')
+      .eq('workflow_id', workflowId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error || !data) {
+      console.error('[AutomationEngine] Error listing runs:', error);
+      return [];
+    }
+
+    return data.map(this.mapRun);
+  }
+
+  /**
+   * Run the project's enabled workflows for an event. Each workflow runs
+   * at most once per event, so redelivered events don't repeat actions.
+   */
+  async handleEvent(event: DomainEvent): Promise<AutomationRun[]> {
+    const projectId = event.metadata?.project_id;
+    if (!projectId) {
+      return [];
+    }
+
+    const { data, error } = await this.supabase
+      .from('automation_workflows')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('trigger_event_type', event.type)
+      .eq('enabled', true);
+
+    if (error) {
+      console.error('[AutomationEngine] Error loading workflows:', error);
+      throw error;
+    }
+
+    const workflows = (data || []).map(this.mapWorkflow);
+    if (workflows.length === 0) {
+      return [];
+    }
+
+    const context = await this.buildContext(event, workflows);
+    const runs: AutomationRun[] = [];
+
+    for (const workflow of workflows) {
+      const { matched, results } = evaluateConditions(workflow, context);
+      if (!matched) continue;
+
+      const run = await this.startRun(workflow, event, results, true, false);
+      if (!run) continue;
+
+      runs.push(await this.finishRun(run, workflow, context, false));
+    }
+
+    return runs;
+  }
+
+  /**
+   * Run a workflow against a sample event without carrying out its
+   * actions. Fields missing from the event are filled from the trigger's
+   * catalogue schema. The run shows which conditions passed and what each action
+   * would have sent, and is kept in the history marked as a test.
+   */
+  async testWorkflow(workflow: AutomationWorkflow, event: Partial<DomainEvent> = {}): Promise<AutomationRun> {
+    const generated = buildSampleEvent(workflow.triggerEventType, workflow.projectId);
+    const sample: DomainEvent = {
+      ...generated,
+      aggregate_type: event.aggregate_type || generated.aggregate_type,
+      aggregate_id: event.aggregate_id || generated.aggregate_id,
+      payload: event.payload || generated.payload,
+      metadata: { ...generated.metadata, ...event.metadata, project_id: workflow.projectId },
+    };
+
+    const context = await this.buildContext(sample, [workflow]);
+    const { matched, results } = evaluateConditions(workflow, context);
+
+    const run = await this.startRun(workflow, sample, results, matched, true);
+    if (!run) {
+      throw new Error('Failed to record test run');
+    }
+
+    if (!matched) {
+      return this.saveRun(run, 'skipped', [], 0);
+    }
+
+    return this.finishRun(run, workflow, context, true);
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * Event fields plus the post and customer it concerns, when the
+   * workflows need them
+   */
+  private async buildContext(event: DomainEvent, workflows: AutomationWorkflow[]): Promise<AutomationContext> {
+    const context: AutomationContext = {
+      event: {
+        id: event.id,
+        type: event.type,
+        aggregate_type: event.aggregate_type,
+        aggregate_id: event.aggregate_id,
+        version: event.version,
+      },
+      payload: event.payload || {},
+      metadata: event.metadata || {},
+    };
+
+    const fields = workflows.flatMap(referencedFields);
+    const needsCustomer = fields.some(field => field.startsWith('customer.'));
+    const needsPost = needsCustomer || fields.some(field => field.startsWith('post.'));
+    const postId = this.postIdFor(context);
+
+    if (needsPost && postId) {
+      const { data: post } = await this.supabase
+        .from('posts')
+        .select('id, title, description, status, category, vote_count, author_name, author_email, board_id, created_at')
+        .eq('id', postId)
+        .eq('project_id', event.metadata.project_id)
+        .maybeSingle();
+      context.post = post;
+
+      if (needsCustomer && post?.author_email) {
+        const { data: customer } = await this.supabase
+          .from('customers')
+          .select('id, name, email, company, mrr, arr, plan_name, health_score, churn_risk')
+          .eq('project_id', event.metadata.project_id)
+          .eq('email', String(post.author_email).toLowerCase())
+          .limit(1)
+          .maybeSingle();
+        context.customer = customer;
+      }
+    }
+
+    return context;
+  }
+
+  private postIdFor(context: Pick<AutomationContext, 'event' | 'payload'>): string | undefined {
+    if (context.event.aggregate_type === 'post') return context.event.aggregate_id;
+    const postId = context.payload.post_id;
+    return typeof postId === 'string' ? postId : undefined;
+  }
+
+  /**
+   * Claim the (workflow, event) pair; returns null when a live run for the
+   * event already exists
+   */
+  private async startRun(
+    workflow: AutomationWorkflow,
+    event: DomainEvent,
+    conditionResults: AutomationConditionResult[],
+    matched: boolean,
+    isTest: boolean
+  ): Promise<AutomationRun | null> {
+    const { data, error } = await this.supabase
+      .from('automation_runs')
+      .insert({
+        workflow_id: workflow.id,
+        project_id: workflow.projectId,
+        event_id: event.id ?? null,
+        event_type: event.type,
+        event_payload: event.payload ?? {},
+        is_test: isTest,
+        matched,
+        status: 'running',
+        condition_results: conditionResults,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      // 23505: this workflow already ran for the event
+      if (error?.code !== '23505') {
+        console.error('[AutomationEngine] Error recording run:', error);
+      }
+      return null;
+    }
+
+    return this.mapRun(data);
+  }
+
+  private async finishRun(
+    run: AutomationRun,
+    workflow: AutomationWorkflow,
+    context: AutomationContext,
+    isTest: boolean
+  ): Promise<AutomationRun> {
+    const startedAt = Date.now();
+    const actionResults: AutomationActionResult[] = [];
+
+    for (const action of workflow.actions) {
+      if (isTest) {
+        actionResults.push({ type: action.type, status: 'simulated', detail: this.describeAction(action, context) });
+        continue;
+      }
+
+      try {
+        const detail = await this.executeAction(action, workflow, context);
+        actionResults.push({ type: action.type, status: 'succeeded', detail });
+      } catch (error) {
+        actionResults.push({
+          type: action.type,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    const failed = actionResults.filter(result => result.status === 'failed').length;
+    const status: AutomationRunStatus = failed === 0
+      ? 'succeeded'
+      : failed === actionResults.length ? 'failed' : 'partial';
+
+    if (failed > 0) {
+      console.error(`[AutomationEngine] ${failed} action(s) failed in workflow ${workflow.id}`);
+    }
+
+    if (!isTest) {
+      const { error } = await this.supabase.rpc('record_automation_run', { p_workflow_id: workflow.id });
+      if (error) {
+        console.error('[AutomationEngine] Error recording workflow run:', error);
+      }
+    }
+
+    return this.saveRun(run, status, actionResults, Date.now() - startedAt);
+  }
+
+  private async saveRun(
+    run: AutomationRun,
+    status: AutomationRunStatus,
+    actionResults: AutomationActionResult[],
+    durationMs: number
+  ): Promise<AutomationRun> {
+    await this.supabase
+      .from('automation_runs')
+      .update({ status, action_results: actionResults, duration_ms: durationMs })
+      .eq('id', run.id);
+
+    return { ...run, status, actionResults, durationMs };
+  }
+
+  /**
+   * What an action would do, for test runs
+   */
+  private describeAction(action: AutomationAction, context: AutomationContext): string {
+    switch (action.type) {
+      case 'slack':
+        return `Post to ${action.channelId}: ${renderTemplate(action.message, context)}`;
+      case 'jira':
+        return `Create ${action.issueType || 'issue'}${action.projectKey ? ` in ${action.projectKey}` : ''}: ${renderTemplate(action.summary, context)}`;
+      case 'email':
+        return `Email ${action.to.join(', ')}: ${renderTemplate(action.subject, context)}`;
+      case 'set_post_status':
+        return this.postIdFor(context)
+          ? `Set post status to ${action.status}`
+          : 'No post for this event; the status would not change';
+    }
+  }
+
+  private async executeAction(
+    action: AutomationAction,
+    workflow: AutomationWorkflow,
+    context: AutomationContext
+  ): Promise<string> {
+    switch (action.type) {
+      case 'slack':
+        return this.postToSlack(workflow, action.channelId, renderTemplate(action.message, context), context);
+      case 'jira':
+        return this.createJiraIssue(workflow.projectId, action, context);
+      case 'email': {
+        const subject = renderTemplate(action.subject, context);
+        const html = renderTemplate(action.body, context)
+          .replace(/&/g, '&amp;')
+          .replace(/</g, '&lt;')
+          .replace(/>/g, '&gt;')
+          .replace(/\n/g, '<br>');
+        for (const to of action.to) {
+          await sendEmail({ to, subject, html });
+        }
+        return `Emailed ${action.to.length} recipient(s)`;
+      }
+      case 'set_post_status': {
+        const postId = this.postIdFor(context);
+        if (!postId) {
+          throw new Error('The event has no post');
+        }
+        const { data: updated, error } = await this.supabase
+          .from('posts')
+          .update({ status: action.status, updated_at: new Date().toISOString() })
+          .eq('id', postId)
+          .eq('project_id', workflow.projectId)
+          .select('id, project_id, board_id');
+        if (error) {
+          throw new Error(error.message);
+        }
+        await invalidateCacheTags((updated || []).flatMap(post => postCacheTags(post)));
+        return `Post status set to ${action.status}`;
+      }
+    }
+  }
+
+  /**
+   * Post through the project's Slack connection with the service client,
+   * since events are processed without a user session
+   */
+  private async postToSlack(
+    workflow: AutomationWorkflow,
+    channelId: string,
+    text: string,
+    context: AutomationContext
+  ): Promise<string> {
+    const { data: connection } = await this.supabase
+      .from('slack_connections')
+      .select('id, bot_token_encrypted')
+      .eq('project_id', workflow.projectId)
+      .eq('status', 'active')
+      .maybeSingle();
+
+    if (!connection) {
+      throw new Error('No active Slack connection');
+    }
+
+    const client = new WebClient(decryptToken(connection.bot_token_encrypted));
+    const blocks = [
+      { type: 'section', text: { type: 'mrkdwn', text } },
+      { type: 'context', elements: [{ type: 'mrkdwn', text: `Automation "${workflow.name}" · ${context.event.type}` }] },
+    ];
+    const response = await client.chat.postMessage({
+      channel: channelId,
+      text,
+      blocks,
+      unfurl_links: false,
+      unfurl_media: false,
+    });
+
+    const { error } = await this.supabase.from('slack_message_logs').insert({
+      slack_connection_id: connection.id,
+      alert_type: 'automation',
+      channel_id: channelId,
+      message_ts: response.ts,
+      blocks,
+      text_fallback: text,
+      success: true,
+      entity_id: context.event.aggregate_id,
+      entity_type: context.event.aggregate_type,
+    });
+
+    if (error) {
+      console.error('[AutomationEngine] Error logging Slack message:', error);
+    }
+
+    return `Posted to ${channelId}`;
+  }
+
+  private async createJiraIssue(
+    projectId: string,
+    action: Extract<AutomationAction, { type: 'jira' }>,
+    context: AutomationContext
+  ): Promise<string> {
+    const { data: connection } = await this.supabase
+      .from('jira_connections')
+      .select('id, cloud_id, site_url, default_project_key, default_issue_type')
+      .eq('project_id', projectId)
+      .eq('status', 'active')
+      .limit(1)
+      .maybeSingle();
+
+    if (!connection) {
+      throw new Error('No active Jira connection');
+    }
+
+    const projectKey = action.projectKey || connection.default_project_key;
+    if (!projectKey) {
+      throw new Error('No Jira project set on the action or the connection');
+    }
+
+    const api = new JiraAPI(connection.id, connection.cloud_id);
+    const issue = await api.createIssue({
+      project: projectKey,
+      summary: renderTemplate(action.summary, context).slice(0, 255),
+      description: textToADF(renderTemplate(action.description || '', context)),
+      issuetype: action.issueType || connection.default_issue_type || 'Task',
+      labels: action.labels,
+    });
+
+    return `Created ${issue.key} (${getIssueUrl(connection.site_url, issue.key)})`;
+  }
+
+  private mapWorkflow(row: any): AutomationWorkflow {
+    return {
+      id: row.id,
+      projectId: row.project_id,
+      name: row.name,
+      description: row.description ?? undefined,
+      enabled: row.enabled,
+      triggerEventType: row.trigger_event_type,
+      conditionMatch: row.condition_match === 'any' ? 'any' : 'all',
+      conditions: row.conditions || [],
+      actions: row.actions || [],
+      runCount: row.run_count || 0,
+      lastRunAt: row.last_run_at ? new Date(row.last_run_at) : undefined,
+      createdBy: row.created_by ?? undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private mapRun(row: any): AutomationRun {
+    return {
+      id: row.id,
+      workflowId: row.workflow_id,
+      projectId: row.project_id,
+      eventId: row.event_id ?? undefined,
+      eventType: row.event_type,
+      isTest: row.is_test,
+      matched: row.matched,
+      status: row.status,
+      conditionResults: row.condition_results || [],
+      actionResults: row.action_results || [],
+      durationMs: row.duration_ms ?? undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
+
+// Lazy singleton pattern to avoid build-time initialization
+let _automationEngineInstance: AutomationEngine | null = null;
+
+function getAutomationEngine(): AutomationEngine {
+  if (!_automationEngineInstance) {
+    _automationEngineInstance = new AutomationEngine();
+  }
+  return _automationEngineInstance;
+}
+
+/**
+ * Event bus handler: run the project's automations for a domain event.
+ * Registered for all event types in the agent registry.
+ */
+export async function runAutomationWorkflows(event: DomainEvent): Promise<void> {
+  if (!event.metadata?.project_id || !isDomainEventType(event.type)) {
+    return;
+  }
+
+  await getAutomationEngine().handleEvent(event);
+}
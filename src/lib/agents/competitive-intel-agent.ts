@@ -13,18 +13,7 @@ import { DomainEvent } from '@/lib/events/types';
 import { getServiceRoleClient } from '@/lib/supabase-singleton';
 import { publishEvent } from '@/lib/events/publisher';
 import { EventType, AggregateType } from '@/lib/events/types';
-import OpenAI from 'openai';
-
-let openaiInstance: OpenAI | null = null;
-
-function getOpenAI(): OpenAI {
-  if (!openaiInstance) {
-    openaiInstance = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-  return openaiInstance;
-}
+import { getOpenAI } from '@/lib/openai-client';
 
 // Common competitor keywords to quickly filter
 const COMPETITOR_KEYWORDS = [
@@ -199,7 +188,7 @@ Return ONLY a JSON object with this structure (no markdown, no extra text):
 If no competitors are mentioned, return: {"competitors": []}`;
 
   try {
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('competitor_extraction').chat.completions.create({
       model: 'gpt-4o-mini',
       messages: [
         {
@@ -9,6 +9,7 @@
  */
 
 import { DomainEvent } from '@/lib/events/types';
+import { claimHandlerEffect } from '@/lib/events/handler-runs';
 import { getServiceRoleClient } from '@/lib/supabase-singleton';
 import { checkAndNotifyStakeholders } from '@/lib/stakeholders/interest-tracking';
 
@@ -121,7 +122,7 @@ export async function handleSpecAutoDrafted(event: DomainEvent): Promise<void> {
     };
 
     // Send Slack notification
-    await sendSlackNotification(project.settings?.notifications?.slack?.webhook_url, message);
+    await sendSlackNotification(event, project.settings?.notifications?.slack?.webhook_url, message);
 
     const duration = Date.now() - startTime;
     console.log(`[NOTIFICATION AGENT] ✅ Notification sent in ${duration}ms`);
@@ -207,7 +208,7 @@ export async function handleThemeThresholdReached(event: DomainEvent): Promise<v
       ],
     };
 
-    await sendSlackNotification(project.settings?.notifications?.slack?.webhook_url, message);
+    await sendSlackNotification(event, project.settings?.notifications?.slack?.webhook_url, message);
 
     const duration = Date.now() - startTime;
     console.log(`[NOTIFICATION AGENT] ✅ Theme alert sent in ${duration}ms`);
@@ -284,7 +285,7 @@ export async function handleHighVoteFeedback(event: DomainEvent): Promise<void>
       ],
     };
 
-    await sendSlackNotification(project.settings?.notifications?.slack?.webhook_url, message);
+    await sendSlackNotification(event, project.settings?.notifications?.slack?.webhook_url, message);
 
     const duration = Date.now() - startTime;
     console.log(`[NOTIFICATION AGENT] ✅ High-vote alert sent in ${duration}ms`);
@@ -296,14 +297,20 @@ export async function handleHighVoteFeedback(event: DomainEvent): Promise<void>
 
 /**
  * Send Slack notification
- * Helper function to send formatted messages to Slack
+ * Helper function to send formatted messages to Slack, at most once per
+ * event handler (retries of the handler reuse its idempotency key)
  */
-async function sendSlackNotification(webhookUrl: string | undefined, message: any): Promise<void> {
+async function sendSlackNotification(event: DomainEvent, webhookUrl: string | undefined, message: any): Promise<void> {
   if (!webhookUrl) {
     console.log('[NOTIFICATION AGENT] ⏭️  No Slack webhook URL configured');
     return;
   }
 
+  if (!(await claimHandlerEffect(event))) {
+    console.log(`[NOTIFICATION AGENT] ⏭️  Already notified (${event.metadata.idempotency_key})`);
+    return;
+  }
+
   try {
     const response = await fetch(webhookUrl, {
       method: 'POST',
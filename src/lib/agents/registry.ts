@@ -7,6 +7,7 @@
  */
 
 import { EventType, EventHandler } from '@/lib/events/types';
+import { namedHandler } from '@/lib/events/handler-runs';
 // Phase 1 Agents
 import { triageAgent } from './triager-agent';
 // Phase 2 Agents
@@ -24,11 +25,17 @@ import { handleCompetitorExtraction } from './competitive-intel-agent';
 import { handleUserFeedback, handleUserVote } from './user-engagement-agent';
 import { handleSpecQualityReview } from './spec-quality-agent';
 import { handleFeatureLaunched } from './release-planning-agent';
+// Outgoing webhooks
+import { forwardDomainEventToWebhooks } from '@/lib/webhooks';
+// Project-defined automations
+import { runAutomationWorkflows } from './automation-engine';
 
 /**
  * Agent Registry Structure
  * Maps event types to arrays of handler functions
  * Multiple agents can react to the same event in parallel
+ * Handlers are checkpointed by name, so renaming one re-runs it for events
+ * that are still being retried
  */
 export interface AgentRegistry {
   [eventType: string]: EventHandler[];
@@ -48,9 +55,9 @@ export const AGENT_REGISTRY: AgentRegistry = {
 
   [EventType.FEEDBACK_CREATED]: [
     // ✅ Phase 1: Triager Agent (runs first to categorize, prioritize, assign PM, detect duplicates)
-    async (event) => {
+    namedHandler('triageAgent', async (event) => {
       await triageAgent(event.payload.postId, event.metadata.project_id);
-    },
+    }),
 
     // ✅ Phase 2: Sentiment Analysis Agent
     handleFeedbackCreated,
@@ -94,7 +101,8 @@ export const AGENT_REGISTRY: AgentRegistry = {
     handleThemeThresholdReached,
 
     // ✅ Phase 3: Theme Notification Agent
-    handleThemeNotification,
+    // (named: shares its function name with the spec writer's handler)
+    namedHandler('handleThemeNotification', handleThemeNotification),
 
     // ✅ Phase 3: Stakeholder Notification Agent
     handleStakeholderNotification,
@@ -162,6 +170,13 @@ export const AGENT_REGISTRY: AgentRegistry = {
   ],
 };
 
+// Every domain event is also delivered to the project's subscribed webhooks
+// and runs the project's automation workflows for its type
+for (const eventType of Object.values(EventType)) {
+  registerAgent(eventType, forwardDomainEventToWebhooks);
+  registerAgent(eventType, runAutomationWorkflows);
+}
+
 /**
  * Helper function to get all agents for an event type
  * @param eventType - The event type
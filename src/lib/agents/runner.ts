@@ -13,6 +13,21 @@
 import { subscribeToEvent, subscribeToEvents } from '@/lib/events/subscriber';
 import { AGENT_REGISTRY, getRegisteredEventTypes } from './registry';
 import { EventType, DomainEvent, EventHandler } from '@/lib/events/types';
+import { eventForHandler } from '@/lib/events/schema-registry';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
+
+/**
+ * Run a handler on the event at a version it understands, charging its AI
+ * calls to the event's project
+ */
+async function runHandler(handler: EventHandler, event: DomainEvent): Promise<void> {
+  const handlerEvent = eventForHandler(event, handler);
+  if (!handlerEvent) {
+    console.warn(`⚠️  Agent does not handle ${event.type} v${event.version}, skipping`);
+    return;
+  }
+  await withAICostContext({ projectId: event.metadata.project_id }, () => handler(handlerEvent));
+}
 
 /**
  * Start all agents by subscribing to their events
@@ -54,7 +69,7 @@ export async function startAllAgents(): Promise<() => Promise<void>> {
       await Promise.all(
         handlers.map(async (handler: EventHandler, index: number) => {
           try {
-            await handler(event);
+            await runHandler(handler, event);
           } catch (error) {
             console.error(`❌ Agent ${index + 1} failed for ${event.type}:`, error);
             // Continue - don't let one agent failure break others
@@ -108,7 +123,7 @@ export async function startAgent(eventType: string): Promise<() => Promise<void>
     await Promise.all(
       handlers.map(async (handler: EventHandler) => {
         try {
-          await handler(event);
+          await runHandler(handler, event);
         } catch (error) {
           console.error(`❌ Agent failed:`, error);
         }
@@ -25,6 +25,21 @@ export async function handleFeedbackCreated(event: DomainEvent): Promise<void> {
 
   try {
     const supabase = getServiceRoleClient();
+    if (!supabase) throw new Error('Database unavailable');
+
+    // A retry of this handler whose earlier attempt already stored the sentiment
+    if (metadata.idempotency_key) {
+      const { data: stored } = await supabase
+        .from('sentiment_analysis')
+        .select('id')
+        .eq('idempotency_key', metadata.idempotency_key)
+        .maybeSingle();
+
+      if (stored) {
+        console.log(`[SENTIMENT AGENT] ⏭️  Already analyzed (${metadata.idempotency_key})`);
+        return;
+      }
+    }
 
     // Fetch the full post details
     const { data: post, error: fetchError } = await supabase
@@ -66,6 +81,7 @@ export async function handleFeedbackCreated(event: DomainEvent): Promise<void> {
           key_themes: [], // Will be populated by theme agent
           emotional_intensity: Math.abs(analysis.sentiment_score),
           analyzed_at: new Date().toISOString(),
+          idempotency_key: metadata.idempotency_key ?? null,
         },
         {
           onConflict: 'post_id',
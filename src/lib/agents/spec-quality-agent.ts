@@ -10,18 +10,7 @@
 
 import { DomainEvent } from '@/lib/events/types';
 import { getServiceRoleClient } from '@/lib/supabase-singleton';
-import OpenAI from 'openai';
-
-let openaiInstance: OpenAI | null = null;
-
-function getOpenAI(): OpenAI {
-  if (!openaiInstance) {
-    openaiInstance = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-  return openaiInstance;
-}
+import { getOpenAI } from '@/lib/openai-client';
 
 // Quality criteria for specs
 const QUALITY_CRITERIA = {
@@ -167,7 +156,7 @@ Return ONLY a JSON object (no markdown, no extra text):
 }`;
 
   try {
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('spec_quality').chat.completions.create({
       model: 'gpt-4o-mini',
       messages: [
         {
@@ -9,6 +9,7 @@
  */
 
 import { DomainEvent } from '@/lib/events/types';
+import { claimHandlerEffect } from '@/lib/events/handler-runs';
 import { getServiceRoleClient } from '@/lib/supabase-singleton';
 
 // Threshold for urgent alerts (very negative sentiment)
@@ -152,6 +153,12 @@ export async function handleUrgentFeedback(event: DomainEvent): Promise<void> {
       ],
     };
 
+    // A retry of this handler must not alert or log twice
+    if (!(await claimHandlerEffect(event))) {
+      console.log(`[URGENT FEEDBACK AGENT] ⏭️  Already alerted (${metadata.idempotency_key})`);
+      return;
+    }
+
     // Send Slack alert if configured
     if (project.settings?.notifications?.slack?.webhook_url) {
       await sendSlackAlert(project.settings.notifications.slack.webhook_url, message);
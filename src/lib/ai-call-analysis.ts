@@ -4,6 +4,7 @@
  */
 
 import OpenAI from 'openai';
+import { getOpenAI } from '@/lib/openai-client';
 import {
   CALL_ANALYSIS_SYSTEM_PROMPT,
   CALL_ANALYSIS_USER_PROMPT,
@@ -74,7 +75,7 @@ function getOpenAIClient(): OpenAI | null {
     console.error('[AI Call Analysis] OPENAI_API_KEY not configured');
     return null;
   }
-  return new OpenAI({ apiKey });
+  return getOpenAI('call_intelligence');
 }
 
 /**
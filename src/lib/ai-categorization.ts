@@ -1,13 +1,12 @@
 import OpenAI from 'openai';
+import { getOpenAI } from '@/lib/openai-client';
 
 // Initialize OpenAI client only when API key is available
 const getOpenAIClient = (): OpenAI | null => {
   if (!process.env.OPENAI_API_KEY) {
     return null;
   }
-  return new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
+  return getOpenAI('categorization');
 };
 
 // Get the OpenAI model from environment variables with fallback
@@ -1,4 +1,5 @@
 import { getSupabaseServerClient } from './supabase-client';
+import { getAIBudgetStatus } from './ai/cost-ledger';
 
 // Monthly AI usage limits - 3 tiers: free, pro ($19), premium ($79)
 export const AI_LIMITS = {
@@ -94,6 +95,7 @@ interface UsageCheckResult {
   limit: number;
   remaining: number;
   plan: PlanType;
+  budgetExceeded?: boolean;
 }
 
 function getPlanLimits(plan: PlanType): typeof AI_LIMITS.free {
@@ -153,6 +155,19 @@ export async function checkAIUsageLimit(
   const planLimits = getPlanLimits(plan);
   const limit = planLimits[featureType];
 
+  // Monthly dollar hard cap blocks every feature, regardless of call counts
+  const budget = await getAIBudgetStatus(projectId);
+  if (budget?.hardCapReached) {
+    return {
+      allowed: false,
+      current: 0,
+      limit,
+      remaining: 0,
+      plan,
+      budgetExceeded: true
+    };
+  }
+
   const { data, error } = await supabase.rpc('check_ai_usage_limit', {
     p_project_id: projectId,
     p_feature_type: featureType,
@@ -0,0 +1,22 @@
+/**
+ * AI Budget Responses
+ * How routes report an AI call blocked by the project's monthly hard cap
+ */
+
+import { NextResponse } from 'next/server';
+import type { AIBudgetExceededError } from './types';
+
+/**
+ * 402 Payment Required with the month's spend and cap
+ */
+export function aiBudgetExceededResponse(error: AIBudgetExceededError): NextResponse {
+  return NextResponse.json(
+    {
+      error: error.message,
+      code: 'ai_budget_exceeded',
+      spent_usd: Number(error.spentUsd.toFixed(2)),
+      hard_cap_usd: error.hardCapUsd,
+    },
+    { status: 402 }
+  );
+}
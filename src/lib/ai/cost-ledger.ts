@@ -0,0 +1,419 @@
+/**
+ * AI Cost Ledger
+ * Persists token usage and USD cost per project / feature / model and
+ * enforces monthly soft (downgrade) and hard (block) budget caps.
+ *
+ * Attribution flows through an async context so deep call sites
+ * (getOpenAI(), AIRouter) don't need projectId threaded through them:
+ *
+ * @example
+ * await withAICostContext({ projectId, feature: 'spec_generation' }, () =>
+ *   generateSpec(input)
+ * );
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
+import {
+  AIBudgetExceededError,
+  MODEL_REGISTRY,
+  getModelCapabilities,
+  type AICostFeature,
+  type AIModel,
+  type AIProvider,
+} from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AICostContext {
+  projectId?: string;
+  feature?: AICostFeature;
+}
+
+export interface AIUsageEntry {
+  projectId?: string | null;
+  feature?: AICostFeature | null;
+  provider: AIProvider;
+  model: AIModel;
+  operation?: 'completion' | 'embedding';
+  promptTokens: number;
+  completionTokens: number;
+  downgradedFrom?: AIModel;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AIBudgetStatus {
+  projectId: string;
+  periodStart: string;
+  spentUsd: number;
+  softCapUsd: number | null;
+  hardCapUsd: number | null;
+  softCapAction: 'downgrade' | 'alert';
+  downgradeModel: AIModel;
+  softCapReached: boolean;
+  hardCapReached: boolean;
+}
+
+export interface AISpendRow {
+  day: string;
+  feature: string;
+  model: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface AISpendBreakdown {
+  projectId: string;
+  from: string;
+  to: string;
+  totalUsd: number;
+  byFeature: Record<string, { calls: number; costUsd: number; tokens: number }>;
+  byDay: Record<string, { calls: number; costUsd: number }>;
+  byModel: Record<string, { calls: number; costUsd: number }>;
+  rows: AISpendRow[];
+}
+
+// ============================================================================
+// Context
+// ============================================================================
+
+const costContext = new AsyncLocalStorage<AICostContext>();
+
+/**
+ * Run fn with AI cost attribution. Nested contexts inherit unset fields.
+ */
+export function withAICostContext<T>(context: AICostContext, fn: () => T): T {
+  const parent = costContext.getStore();
+  return costContext.run(
+    {
+      projectId: context.projectId ?? parent?.projectId,
+      feature: context.feature ?? parent?.feature,
+    },
+    fn
+  );
+}
+
+export function getAICostContext(): AICostContext | undefined {
+  return costContext.getStore();
+}
+
+// ============================================================================
+// Pricing
+// ============================================================================
+
+// USD per 1M tokens for models outside MODEL_REGISTRY
+const EXTRA_MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+  'text-embedding-ada-002': { input: 0.10, output: 0 },
+  'gpt-4': { input: 30.0, output: 60.0 },
+  'gpt-4.1': { input: 2.0, output: 8.0 },
+  'gpt-4.1-mini': { input: 0.40, output: 1.60 },
+  // xAI, used by the Hunter's X and review-site search
+  'grok-3-fast': { input: 5.0, output: 25.0 },
+  'grok-4-1-fast': { input: 0.20, output: 0.50 },
+};
+
+/**
+ * Per-1M-token pricing for a model. Dated snapshots
+ * (e.g. 'gpt-4o-mini-2024-07-18') resolve to the longest known prefix.
+ * Unknown and self-hosted models cost 0.
+ */
+export function getModelPricing(model: AIModel): { input: number; output: number } {
+  const capabilities = getModelCapabilities(model);
+  if (capabilities) {
+    return {
+      input: capabilities.costPer1MInputTokens,
+      output: capabilities.costPer1MOutputTokens,
+    };
+  }
+  if (EXTRA_MODEL_PRICING[model]) {
+    return EXTRA_MODEL_PRICING[model];
+  }
+
+  const prefix = [...Object.keys(MODEL_REGISTRY), ...Object.keys(EXTRA_MODEL_PRICING)]
+    .filter((known) => model.startsWith(known))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? getModelPricing(prefix) : { input: 0, output: 0 };
+}
+
+export function calculateAICost(
+  model: AIModel,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  const pricing = getModelPricing(model);
+  return (
+    (promptTokens / 1_000_000) * pricing.input +
+    (completionTokens / 1_000_000) * pricing.output
+  );
+}
+
+// ============================================================================
+// Ledger
+// ============================================================================
+
+/**
+ * Append a usage row. Never throws - a ledger outage must not fail the
+ * AI call that already succeeded.
+ */
+export async function recordAIUsage(entry: AIUsageEntry): Promise<void> {
+  const context = getAICostContext();
+  const projectId = entry.projectId ?? context?.projectId ?? null;
+  const feature = entry.feature ?? context?.feature ?? null;
+  const costUsd = entry.provider === 'local'
+    ? 0
+    : calculateAICost(entry.model, entry.promptTokens, entry.completionTokens);
+
+  if (projectId) {
+    const cached = budgetCache.get(projectId);
+    if (cached) {
+      cached.status = evaluateBudget({
+        ...cached.status,
+        spentUsd: cached.status.spentUsd + costUsd,
+      });
+    }
+  }
+
+  try {
+    const supabase = getSupabaseServiceRoleClient();
+    if (!supabase) return;
+
+    const { error } = await supabase.from('ai_cost_ledger').insert({
+      project_id: projectId,
+      feature_type: feature,
+      provider: entry.provider,
+      model: entry.model,
+      operation: entry.operation || 'completion',
+      prompt_tokens: entry.promptTokens,
+      completion_tokens: entry.completionTokens,
+      total_tokens: entry.promptTokens + entry.completionTokens,
+      cost_usd: costUsd,
+      downgraded_from: entry.downgradedFrom || null,
+      metadata: entry.metadata || {},
+    });
+
+    if (error) {
+      console.error('[AI Cost Ledger] Failed to record usage:', error);
+    }
+  } catch (error) {
+    console.error('[AI Cost Ledger] Failed to record usage:', error);
+  }
+}
+
+// ============================================================================
+// Budgets
+// ============================================================================
+
+const BUDGET_CACHE_TTL_MS = 60 * 1000;
+const budgetCache = new Map<string, { status: AIBudgetStatus; expiresAt: number }>();
+
+function getPeriodStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function evaluateBudget(status: AIBudgetStatus): AIBudgetStatus {
+  return {
+    ...status,
+    softCapReached: status.softCapUsd !== null && status.spentUsd >= status.softCapUsd,
+    hardCapReached: status.hardCapUsd !== null && status.spentUsd >= status.hardCapUsd,
+  };
+}
+
+/**
+ * Current month spend and cap state for a project (cached for 60s)
+ */
+export async function getAIBudgetStatus(projectId: string): Promise<AIBudgetStatus | null> {
+  const cached = budgetCache.get(projectId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.status;
+  }
+
+  const supabase = getSupabaseServiceRoleClient();
+  if (!supabase) return null;
+
+  const { data: budget, error: budgetError } = await supabase
+    .from('ai_budgets')
+    .select('soft_cap_usd, hard_cap_usd, soft_cap_action, downgrade_model')
+    .eq('project_id', projectId)
+    .maybeSingle();
+
+  if (budgetError) {
+    console.error('[AI Cost Ledger] Budget lookup error:', budgetError);
+    // Fail open, consistent with checkAIUsageLimit
+    return null;
+  }
+
+  const periodStart = getPeriodStart();
+  let spentUsd = 0;
+
+  if (budget) {
+    const { data: spend, error: spendError } = await supabase.rpc('get_project_ai_spend', {
+      p_project_id: projectId,
+      p_since: periodStart.toISOString(),
+    });
+
+    if (spendError) {
+      console.error('[AI Cost Ledger] Spend lookup error:', spendError);
+      return null;
+    }
+    spentUsd = Number(spend) || 0;
+  }
+
+  const status = evaluateBudget({
+    projectId,
+    periodStart: periodStart.toISOString(),
+    spentUsd,
+    softCapUsd: budget?.soft_cap_usd != null ? Number(budget.soft_cap_usd) : null,
+    hardCapUsd: budget?.hard_cap_usd != null ? Number(budget.hard_cap_usd) : null,
+    softCapAction: budget?.soft_cap_action === 'alert' ? 'alert' : 'downgrade',
+    downgradeModel: budget?.downgrade_model || 'gpt-4o-mini',
+    softCapReached: false,
+    hardCapReached: false,
+  });
+
+  budgetCache.set(projectId, { status, expiresAt: Date.now() + BUDGET_CACHE_TTL_MS });
+  return status;
+}
+
+/**
+ * Apply the project's budget to a requested model.
+ * - Hard cap reached → throws AIBudgetExceededError
+ * - Soft cap reached (action 'downgrade') → returns the cheaper downgrade model
+ * - Otherwise → returns the requested model unchanged
+ */
+export async function resolveBudgetedModel(
+  projectId: string,
+  model: AIModel
+): Promise<{ model: AIModel; downgradedFrom?: AIModel }> {
+  const status = await getAIBudgetStatus(projectId);
+  if (!status) {
+    return { model };
+  }
+
+  if (status.hardCapReached) {
+    throw new AIBudgetExceededError(
+      `AI budget exhausted: $${status.spentUsd.toFixed(2)} of $${status.hardCapUsd!.toFixed(2)} spent this month`,
+      projectId,
+      status.spentUsd,
+      status.hardCapUsd!
+    );
+  }
+
+  if (status.softCapReached && status.softCapAction === 'downgrade') {
+    const requested = getModelPricing(model);
+    const fallback = getModelPricing(status.downgradeModel);
+    // Only downgrade chat models to something genuinely cheaper
+    if (
+      !model.startsWith('text-embedding') &&
+      fallback.input + fallback.output < requested.input + requested.output
+    ) {
+      return { model: status.downgradeModel, downgradedFrom: model };
+    }
+  }
+
+  return { model };
+}
+
+export async function upsertAIBudget(
+  projectId: string,
+  budget: {
+    softCapUsd?: number | null;
+    hardCapUsd?: number | null;
+    softCapAction?: 'downgrade' | 'alert';
+    downgradeModel?: AIModel;
+  }
+): Promise<void> {
+  const supabase = getSupabaseServiceRoleClient();
+  if (!supabase) {
+    throw new Error('Database connection not available');
+  }
+
+  const { error } = await supabase.from('ai_budgets').upsert({
+    project_id: projectId,
+    soft_cap_usd: budget.softCapUsd ?? null,
+    hard_cap_usd: budget.hardCapUsd ?? null,
+    soft_cap_action: budget.softCapAction || 'downgrade',
+    downgrade_model: budget.downgradeModel || 'gpt-4o-mini',
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    throw new Error(`Failed to save AI budget: ${error.message}`);
+  }
+
+  budgetCache.delete(projectId);
+}
+
+// ============================================================================
+// Reporting
+// ============================================================================
+
+/**
+ * Spend for a project broken down by feature, day and model
+ */
+export async function getAISpendBreakdown(
+  projectId: string,
+  from: Date,
+  to: Date
+): Promise<AISpendBreakdown> {
+  const supabase = getSupabaseServiceRoleClient();
+  if (!supabase) {
+    throw new Error('Database connection not available');
+  }
+
+  const { data, error } = await supabase.rpc('get_project_ai_spend_breakdown', {
+    p_project_id: projectId,
+    p_from: from.toISOString(),
+    p_to: to.toISOString(),
+  });
+
+  if (error) {
+    throw new Error(`Failed to load AI spend: ${error.message}`);
+  }
+
+  const rows: AISpendRow[] = (data || []).map((row: any) => ({
+    day: row.day,
+    feature: row.feature_type,
+    model: row.model,
+    calls: Number(row.calls) || 0,
+    promptTokens: Number(row.prompt_tokens) || 0,
+    completionTokens: Number(row.completion_tokens) || 0,
+    costUsd: Number(row.cost_usd) || 0,
+  }));
+
+  const breakdown: AISpendBreakdown = {
+    projectId,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    totalUsd: 0,
+    byFeature: {},
+    byDay: {},
+    byModel: {},
+    rows,
+  };
+
+  for (const row of rows) {
+    breakdown.totalUsd += row.costUsd;
+
+    const feature = (breakdown.byFeature[row.feature] ||= { calls: 0, costUsd: 0, tokens: 0 });
+    feature.calls += row.calls;
+    feature.costUsd += row.costUsd;
+    feature.tokens += row.promptTokens + row.completionTokens;
+
+    const day = (breakdown.byDay[row.day] ||= { calls: 0, costUsd: 0 });
+    day.calls += row.calls;
+    day.costUsd += row.costUsd;
+
+    const model = (breakdown.byModel[row.model] ||= { calls: 0, costUsd: 0 });
+    model.calls += row.calls;
+    model.costUsd += row.costUsd;
+  }
+
+  return breakdown;
+}
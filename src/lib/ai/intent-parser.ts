@@ -245,7 +245,7 @@ Examples:
  * Fallback when Claude is not available
  */
 async function parseWithGPT4(message: string): Promise<ParsedIntent> {
-    const openai = getOpenAI();
+    const openai = getOpenAI('ask_signalsloop');
 
     const systemPrompt = `You are an AI assistant for SignalsLoop, a product feedback management tool.
 Parse the user's message and call the appropriate function.
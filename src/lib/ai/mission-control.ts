@@ -6,6 +6,7 @@
 import { getOpenAI } from '../openai-client';
 import { getSupabaseServerClient } from '../supabase-client';
 import { calculateProductHealthScore, type ProductHealthScore } from './product-health-score';
+import { AIBudgetExceededError } from './types';
 
 export interface BriefingItem {
   severity: 'critical' | 'warning' | 'info' | 'success';
@@ -338,7 +339,7 @@ Key focus areas:
 5. Provide roadmap health assessment`;
 
   try {
-    const completion = await getOpenAI().chat.completions.create({
+    const completion = await getOpenAI('daily_briefing').chat.completions.create({
       model: 'gpt-4o',
       messages: [
         { role: 'system', content: systemPrompt },
@@ -582,6 +583,7 @@ Key focus areas:
 
     return validated;
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) throw error;
     console.error('Error generating daily briefing:', error);
 
     // Return fallback briefing
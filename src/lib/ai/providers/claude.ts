@@ -10,8 +10,8 @@ import type {
   AIMessage,
   AICompletionOptions,
   AICompletionResult,
-  MODEL_REGISTRY,
 } from '../types';
+import { getModelCapabilities } from '../types';
 
 // Dynamically import Anthropic SDK
 let Anthropic: any;
@@ -122,7 +122,7 @@ export class ClaudeProvider implements IAIProvider {
     completionTokens: number,
     model: AIModel
   ): number {
-    const capabilities = MODEL_REGISTRY[model];
+    const capabilities = getModelCapabilities(model);
     if (!capabilities || capabilities.provider !== 'claude') {
       return 0;
     }
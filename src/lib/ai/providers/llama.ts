@@ -10,8 +10,8 @@ import type {
   AIMessage,
   AICompletionOptions,
   AICompletionResult,
-  MODEL_REGISTRY,
 } from '../types';
+import { getModelCapabilities } from '../types';
 
 // Dynamically import Groq SDK
 let Groq: any;
@@ -117,7 +117,7 @@ export class LlamaProvider implements IAIProvider {
     completionTokens: number,
     model: AIModel
   ): number {
-    const capabilities = MODEL_REGISTRY[model];
+    const capabilities = getModelCapabilities(model);
     if (!capabilities || capabilities.provider !== 'llama') {
       return 0;
     }
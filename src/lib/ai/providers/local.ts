@@ -0,0 +1,206 @@
+/**
+ * Local Provider (OpenAI-compatible)
+ * Talks to any self-hosted server exposing /v1/chat/completions and
+ * /v1/embeddings - vLLM, Ollama, llama.cpp server, LM Studio, etc.
+ */
+
+import OpenAI from 'openai';
+import type {
+  IAIProvider,
+  AIProvider,
+  AIModel,
+  AIMessage,
+  AICompletionOptions,
+  AICompletionResult,
+  AIEmbeddingOptions,
+  AIEmbeddingResult,
+} from '../types';
+
+export interface LocalProviderConfig {
+  baseURL: string;             // e.g. http://localhost:11434/v1
+  apiKey?: string;             // Most local servers ignore this
+  model: AIModel;              // Default chat model
+  embeddingModel?: AIModel;    // Default embedding model
+  maxContextLength?: number;
+  supportsJSON?: boolean;      // Whether the server honours response_format
+  timeoutMs?: number;
+}
+
+/**
+ * Read local provider settings from the environment.
+ * Returns null when LOCAL_LLM_BASE_URL is not set.
+ */
+export function getLocalProviderConfig(): LocalProviderConfig | null {
+  const baseURL = process.env.LOCAL_LLM_BASE_URL;
+  if (!baseURL) return null;
+
+  return {
+    baseURL,
+    apiKey: process.env.LOCAL_LLM_API_KEY,
+    model: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+    embeddingModel: process.env.LOCAL_LLM_EMBEDDING_MODEL,
+    maxContextLength: positiveIntEnv('LOCAL_LLM_MAX_CONTEXT'),
+    supportsJSON: process.env.LOCAL_LLM_SUPPORTS_JSON !== 'false',
+    timeoutMs: positiveIntEnv('LOCAL_LLM_TIMEOUT_MS'),
+  };
+}
+
+/**
+ * A positive integer setting, or undefined (the default applies) when it
+ * is unset or not a positive integer
+ */
+function positiveIntEnv(name: string): number | undefined {
+  const raw = process.env[name];
+  if (!raw) return undefined;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    console.warn(`[Local Provider] Ignoring ${name}=${raw}: expected a positive integer`);
+    return undefined;
+  }
+  return value;
+}
+
+export class LocalProvider implements IAIProvider {
+  readonly provider: AIProvider = 'local';
+  readonly supportedModels: AIModel[];
+  readonly supportsJSON: boolean;
+  readonly maxContextLength: number;
+  readonly defaultModel: AIModel;
+  readonly defaultEmbeddingModel?: AIModel;
+
+  private client: OpenAI;
+
+  constructor(config?: LocalProviderConfig) {
+    const resolved = config || getLocalProviderConfig();
+    if (!resolved) {
+      throw new Error('LOCAL_LLM_BASE_URL not configured');
+    }
+
+    this.defaultModel = resolved.model;
+    this.defaultEmbeddingModel = resolved.embeddingModel;
+    // Model names are free-form; the list is informational only
+    this.supportedModels = [resolved.model, resolved.embeddingModel].filter(
+      (m): m is AIModel => Boolean(m)
+    );
+    this.supportsJSON = resolved.supportsJSON ?? true;
+    this.maxContextLength = resolved.maxContextLength ?? 32768;
+
+    this.client = new OpenAI({
+      baseURL: resolved.baseURL,
+      // The SDK refuses an empty key; local servers accept any value
+      apiKey: resolved.apiKey || 'local',
+      timeout: resolved.timeoutMs,
+    });
+  }
+
+  async complete(
+    messages: AIMessage[],
+    options?: AICompletionOptions
+  ): Promise<AICompletionResult> {
+    const model = options?.model || this.defaultModel;
+
+    try {
+      const response = await this.client.chat.completions.create({
+        model,
+        messages: messages.map((m) => ({
+          role: m.role,
+          content: m.content,
+        })),
+        temperature: options?.temperature ?? 0.7,
+        max_tokens: options?.maxTokens,
+        top_p: options?.topP,
+        stop: options?.stopSequences,
+        response_format:
+          options?.responseFormat === 'json' && this.supportsJSON
+            ? { type: 'json_object' }
+            : undefined,
+      });
+
+      const choice = response.choices[0];
+      if (!choice || !choice.message.content) {
+        throw new Error('No response from local model server');
+      }
+
+      return {
+        content: choice.message.content,
+        provider: 'local',
+        model,
+        usage: {
+          promptTokens: response.usage?.prompt_tokens || 0,
+          completionTokens: response.usage?.completion_tokens || 0,
+          totalTokens: response.usage?.total_tokens || 0,
+        },
+        finishReason: this.mapFinishReason(choice.finish_reason),
+      };
+    } catch (error) {
+      console.error('[Local Provider] Error:', error);
+      throw new Error(
+        `Local completion failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async embed(
+    input: string[],
+    options?: AIEmbeddingOptions
+  ): Promise<AIEmbeddingResult> {
+    const model = options?.model || this.defaultEmbeddingModel;
+    if (!model) {
+      throw new Error('No embedding model configured (set LOCAL_LLM_EMBEDDING_MODEL)');
+    }
+
+    try {
+      const response = await this.client.embeddings.create({
+        model,
+        input,
+        dimensions: options?.dimensions,
+      });
+
+      return {
+        embeddings: response.data.map((d) => d.embedding),
+        provider: 'local',
+        model,
+        usage: {
+          promptTokens: response.usage?.prompt_tokens || 0,
+          totalTokens: response.usage?.total_tokens || 0,
+        },
+      };
+    } catch (error) {
+      console.error('[Local Provider] Embedding error:', error);
+      throw new Error(
+        `Local embedding failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      // GET /v1/models is cheap and supported by vLLM, Ollama and llama.cpp
+      await this.client.models.list();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  estimateCost(): number {
+    // Self-hosted inference has no per-token price
+    return 0;
+  }
+
+  private mapFinishReason(
+    reason: string | null | undefined
+  ): 'stop' | 'length' | 'content_filter' | 'error' {
+    switch (reason) {
+      case 'stop':
+        return 'stop';
+      case 'length':
+        return 'length';
+      case 'content_filter':
+        return 'content_filter';
+      default:
+        return 'error';
+    }
+  }
+}
@@ -11,9 +11,10 @@ import type {
   AIMessage,
   AICompletionOptions,
   AICompletionResult,
-  ModelCapabilities,
-  MODEL_REGISTRY,
+  AIEmbeddingOptions,
+  AIEmbeddingResult,
 } from '../types';
+import { getModelCapabilities } from '../types';
 
 export class OpenAIProvider implements IAIProvider {
   readonly provider: AIProvider = 'openai';
@@ -85,6 +86,36 @@ export class OpenAIProvider implements IAIProvider {
     }
   }
 
+  async embed(
+    input: string[],
+    options?: AIEmbeddingOptions
+  ): Promise<AIEmbeddingResult> {
+    const model = options?.model || 'text-embedding-3-small';
+
+    try {
+      const response = await this.client.embeddings.create({
+        model,
+        input,
+        dimensions: options?.dimensions,
+      });
+
+      return {
+        embeddings: response.data.map((d) => d.embedding),
+        provider: 'openai',
+        model,
+        usage: {
+          promptTokens: response.usage?.prompt_tokens || 0,
+          totalTokens: response.usage?.total_tokens || 0,
+        },
+      };
+    } catch (error) {
+      console.error('[OpenAI Provider] Embedding error:', error);
+      throw new Error(
+        `OpenAI embedding failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   async isAvailable(): Promise<boolean> {
     try {
       // Test with a minimal request
@@ -104,7 +135,7 @@ export class OpenAIProvider implements IAIProvider {
     completionTokens: number,
     model: AIModel
   ): number {
-    const capabilities = MODEL_REGISTRY[model];
+    const capabilities = getModelCapabilities(model);
     if (!capabilities || capabilities.provider !== 'openai') {
       return 0;
     }
@@ -5,24 +5,66 @@
  */
 
 import { OpenAIProvider } from './providers/openai';
+import { LocalProvider, getLocalProviderConfig } from './providers/local';
+import { getAICostContext, recordAIUsage, resolveBudgetedModel } from './cost-ledger';
 import {
   DEFAULT_ROUTER_CONFIG,
-  MODEL_REGISTRY,
+  getModelCapabilities,
   type IAIProvider,
   type AIProvider,
   type AIModel,
   type AITaskType,
   type AITaskRequest,
+  type AITaskRoute,
   type AICompletionResult,
+  type AIEmbeddingOptions,
+  type AIEmbeddingResult,
   type RouterConfig,
 } from './types';
 
+const ALL_TASK_TYPES: AITaskType[] = [
+  'classification',
+  'sentiment',
+  'extraction',
+  'generation',
+  'long-context',
+  'reasoning',
+  'conversation',
+  'embedding',
+];
+
+/**
+ * Router settings derived from the environment.
+ * AI_ROUTE_ALL_TO_LOCAL=true pins every task to the local provider and
+ * disables fallback to hosted providers, so no request leaves the network.
+ */
+function getEnvRouterConfig(): Partial<RouterConfig> {
+  const local = getLocalProviderConfig();
+  if (!local || process.env.AI_ROUTE_ALL_TO_LOCAL !== 'true') {
+    return {};
+  }
+
+  const taskRoutes: Partial<Record<AITaskType, AITaskRoute>> = {};
+  for (const type of ALL_TASK_TYPES) {
+    taskRoutes[type] = {
+      provider: 'local',
+      model: type === 'embedding' && local.embeddingModel ? local.embeddingModel : local.model,
+    };
+  }
+
+  return {
+    defaultProvider: 'local',
+    fallbackChain: ['local'],
+    taskRoutes,
+  };
+}
+
 export class AIRouter {
   private providers: Map<AIProvider, IAIProvider>;
   private config: RouterConfig;
 
   constructor(config?: Partial<RouterConfig>) {
-    this.config = { ...DEFAULT_ROUTER_CONFIG, ...config };
+    this.config = { ...DEFAULT_ROUTER_CONFIG, ...getEnvRouterConfig(), ...config };
     this.providers = new Map();
 
     // Initialize providers
@@ -46,14 +88,62 @@ export class AIRouter {
     } catch (error) {
       console.warn('[AI Router] Llama provider not available (install groq-sdk to enable)');
     }
+
+    // Self-hosted OpenAI-compatible server - only when LOCAL_LLM_BASE_URL is set
+    if (getLocalProviderConfig()) {
+      try {
+        this.providers.set('local', new LocalProvider());
+      } catch (error) {
+        console.warn('[AI Router] Local provider not available:', error);
+      }
+    }
   }
 
   /**
    * Main entry point: route and execute an AI task
    */
   async complete(request: AITaskRequest): Promise<AICompletionResult> {
-    const { provider, model } = this.route(request);
+    const context = getAICostContext();
+    const projectId = request.projectId ?? context?.projectId;
+    const feature = request.feature ?? context?.feature;
+
+    let { provider, model } = this.route(request);
+    let downgradedFrom: AIModel | undefined;
+
+    // Apply the project's monthly AI budget (throws at the hard cap)
+    if (projectId && provider !== 'local') {
+      const budgeted = await resolveBudgetedModel(projectId, model);
+      if (budgeted.downgradedFrom) {
+        downgradedFrom = budgeted.downgradedFrom;
+        model = budgeted.model;
+        provider = getModelCapabilities(model)?.provider ?? provider;
+      }
+    }
+
+    const result = await this.execute(request, provider, model);
+
+    void recordAIUsage({
+      projectId,
+      feature,
+      provider: result.provider,
+      model: result.model,
+      promptTokens: result.usage.promptTokens,
+      completionTokens: result.usage.completionTokens,
+      downgradedFrom,
+    });
 
+    return result;
+  }
+
+  /**
+   * Run a completion on the given provider, walking the fallback chain on
+   * failure. Pinned tasks never fall back, so they can't leak to another provider.
+   */
+  private async execute(
+    request: AITaskRequest,
+    provider: AIProvider,
+    model: AIModel
+  ): Promise<AICompletionResult> {
     const providerInstance = this.providers.get(provider);
     if (!providerInstance) {
       throw new Error(`Provider ${provider} not available`);
@@ -67,6 +157,10 @@ export class AIRouter {
     } catch (error) {
       console.error(`[AI Router] Provider ${provider} failed:`, error);
 
+      if (this.config.taskRoutes?.[request.type]) {
+        throw error;
+      }
+
       // Try fallback chain
       for (const fallbackProvider of this.config.fallbackChain) {
         if (fallbackProvider === provider) continue; // Skip the failed provider
@@ -91,10 +185,60 @@ export class AIRouter {
     }
   }
 
+  /**
+   * Create embeddings using the provider routed for the 'embedding' task.
+   * There is deliberately no fallback: vectors from different models are not
+   * comparable, so silently switching provider would corrupt stored embeddings.
+   */
+  async embed(
+    input: string | string[],
+    options?: AIEmbeddingOptions
+  ): Promise<AIEmbeddingResult> {
+    const context = getAICostContext();
+    const { provider, model } = this.route({ type: 'embedding', messages: [] });
+    const embeddingModel = options?.model || model;
+
+    const providerInstance = this.providers.get(provider);
+    if (!providerInstance) {
+      throw new Error(`Provider ${provider} not available`);
+    }
+    if (!providerInstance.embed) {
+      throw new Error(`Provider ${provider} does not support embeddings`);
+    }
+
+    // Throws at the hard cap; embedding models are never downgraded
+    if (context?.projectId && provider !== 'local') {
+      await resolveBudgetedModel(context.projectId, embeddingModel);
+    }
+
+    const result = await providerInstance.embed(Array.isArray(input) ? input : [input], {
+      ...options,
+      model: embeddingModel,
+    });
+
+    void recordAIUsage({
+      provider: result.provider,
+      model: result.model,
+      operation: 'embedding',
+      promptTokens: result.usage.promptTokens,
+      completionTokens: 0,
+    });
+
+    return result;
+  }
+
   /**
    * Smart routing logic
    */
   private route(request: AITaskRequest): { provider: AIProvider; model: AIModel } {
+    // Explicit task routes always win (e.g. everything → local model server).
+    // They are honoured even if the provider is down so nothing silently
+    // leaks to a hosted provider; complete() then reports it as unavailable.
+    const pinned = this.config.taskRoutes?.[request.type];
+    if (pinned) {
+      return pinned;
+    }
+
     // If smart routing is disabled, use default provider
     if (!this.config.enableSmartRouting) {
       return {
@@ -180,10 +324,10 @@ export class AIRouter {
     }
 
     // ========================================================================
-    // EMBEDDING → OpenAI only (text-embedding-3-small)
+    // EMBEDDING → OpenAI (text-embedding-3-small)
     // ========================================================================
     if (type === 'embedding') {
-      return { provider: 'openai', model: 'gpt-4o-mini' }; // Placeholder
+      return { provider: 'openai', model: 'text-embedding-3-small' };
     }
 
     // ========================================================================
@@ -206,6 +350,8 @@ export class AIRouter {
         return 'claude-3-5-sonnet';
       case 'llama':
         return 'llama-3.1-8b';
+      case 'local':
+        return getLocalProviderConfig()?.model || 'gpt-4o-mini';
       default:
         return 'gpt-4o-mini';
     }
@@ -287,6 +433,14 @@ export async function complete(request: AITaskRequest): Promise<AICompletionResu
   return router.complete(request);
 }
 
+export async function embed(
+  input: string | string[],
+  options?: AIEmbeddingOptions
+): Promise<AIEmbeddingResult> {
+  const router = getAIRouter();
+  return router.embed(input, options);
+}
+
 export function estimateCost(
   request: AITaskRequest,
   estimatedCompletionTokens?: number
@@ -70,7 +70,7 @@ export async function generateAudioBriefing(
   const cleanText = cleanTextForTTS(briefingText);
 
   // Generate audio using OpenAI TTS
-  const mp3Response = await getOpenAI().audio.speech.create({
+  const mp3Response = await getOpenAI('ask_signalsloop').audio.speech.create({
     model,
     voice,
     input: cleanText,
@@ -206,7 +206,7 @@ export async function generateQuickAudio(
 
   const cleanText = cleanTextForTTS(text);
 
-  const response = await getOpenAI().audio.speech.create({
+  const response = await getOpenAI('ask_signalsloop').audio.speech.create({
     model,
     voice,
     input: cleanText,
@@ -1,15 +1,37 @@
 /**
  * Multi-Provider AI Abstraction Types
- * Unified interface for OpenAI, Claude, and Llama
+ * Unified interface for OpenAI, Claude, Llama, and self-hosted
+ * OpenAI-compatible servers (vLLM, Ollama, llama.cpp)
  */
 
+import type { AIFeatureType } from '@/lib/ai-rate-limit';
+
 // ============================================================================
 // Core Types
 // ============================================================================
 
-export type AIProvider = 'openai' | 'claude' | 'llama';
+export type AIProvider = 'openai' | 'claude' | 'llama' | 'local';
 
-export type AIModel =
+/**
+ * Feature an AI call is attributed to in the cost ledger: the usage-limited
+ * features plus ones that only need their spend tracked
+ */
+export type AICostFeature =
+  | AIFeatureType
+  | 'daily_briefing'
+  | 'stakeholder_reports'
+  | 'roadmap_intelligence'
+  | 'roast_roadmap'
+  | 'war_room'
+  | 'experiments'
+  | 'surveys'
+  | 'predictions'
+  | 'outcome_attribution'
+  | 'enrichment'
+  | 'reasoning_capture'
+  | 'inbox_sync';
+
+export type KnownAIModel =
   // OpenAI models
   | 'gpt-4o'
   | 'gpt-4o-mini'
@@ -26,6 +48,13 @@ export type AIModel =
   | 'llama-3-70b'
   | 'llama-3-8b';
 
+/**
+ * Any model name. Known hosted models get autocompletion and pricing from
+ * MODEL_REGISTRY; self-hosted servers accept whatever id they were started
+ * with (e.g. 'llama3.1:8b' on Ollama, 'Qwen/Qwen2.5-7B-Instruct' on vLLM).
+ */
+export type AIModel = KnownAIModel | (string & {});
+
 export interface AIMessage {
   role: 'system' | 'user' | 'assistant';
   content: string;
@@ -52,6 +81,21 @@ export interface AICompletionResult {
   finishReason: 'stop' | 'length' | 'content_filter' | 'error';
 }
 
+export interface AIEmbeddingOptions {
+  model?: AIModel;
+  dimensions?: number;
+}
+
+export interface AIEmbeddingResult {
+  embeddings: number[][];
+  provider: AIProvider;
+  model: AIModel;
+  usage: {
+    promptTokens: number;
+    totalTokens: number;
+  };
+}
+
 // ============================================================================
 // Task Types for Smart Routing
 // ============================================================================
@@ -76,6 +120,10 @@ export interface AITaskRequest {
   costSensitive?: boolean; // Prefer cheaper models if possible
   requiresJSON?: boolean;  // Must support JSON mode
   priority?: 'low' | 'medium' | 'high'; // Latency vs cost trade-off
+
+  // Cost attribution (falls back to the surrounding withAICostContext)
+  projectId?: string;
+  feature?: AICostFeature;
 }
 
 // ============================================================================
@@ -96,6 +144,11 @@ export interface IAIProvider {
     options?: AICompletionOptions
   ): Promise<AICompletionResult>;
 
+  /**
+   * Create embeddings (optional - only providers with an embeddings endpoint)
+   */
+  embed?(input: string[], options?: AIEmbeddingOptions): Promise<AIEmbeddingResult>;
+
   /**
    * Test if the provider is configured and available
    */
@@ -122,7 +175,7 @@ export interface ModelCapabilities {
   bestFor: AITaskType[];         // Tasks this model excels at
 }
 
-export const MODEL_REGISTRY: Record<AIModel, ModelCapabilities> = {
+export const MODEL_REGISTRY: Record<KnownAIModel, ModelCapabilities> = {
   // OpenAI models
   'gpt-4o': {
     provider: 'openai',
@@ -250,6 +303,14 @@ export const MODEL_REGISTRY: Record<AIModel, ModelCapabilities> = {
   },
 };
 
+/**
+ * Look up capabilities for a model. Returns undefined for free-form models
+ * (e.g. ones served by the local provider) that are not in the registry.
+ */
+export function getModelCapabilities(model: AIModel): ModelCapabilities | undefined {
+  return (MODEL_REGISTRY as Record<string, ModelCapabilities | undefined>)[model];
+}
+
 // ============================================================================
 // Routing Configuration
 // ============================================================================
@@ -266,6 +327,15 @@ export interface RouterConfig {
 
   // Fallback chain if primary provider fails
   fallbackChain: AIProvider[];
+
+  // Explicit per-task routes. These take precedence over smart routing, so
+  // every task (including 'embedding') can be pinned to e.g. the local provider.
+  taskRoutes?: Partial<Record<AITaskType, AITaskRoute>>;
+}
+
+export interface AITaskRoute {
+  provider: AIProvider;
+  model: AIModel;
 }
 
 export const DEFAULT_ROUTER_CONFIG: RouterConfig = {
@@ -274,3 +344,22 @@ export const DEFAULT_ROUTER_CONFIG: RouterConfig = {
   enableCostOptimization: true,
   fallbackChain: ['openai', 'claude', 'llama'],
 };
+
+// ============================================================================
+// Error Types
+// ============================================================================
+
+/**
+ * Thrown when a project has reached its monthly AI hard cap
+ */
+export class AIBudgetExceededError extends Error {
+  constructor(
+    message: string,
+    public projectId: string,
+    public spentUsd: number,
+    public hardCapUsd: number
+  ) {
+    super(message);
+    this.name = 'AIBudgetExceededError';
+  }
+}
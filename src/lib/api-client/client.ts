@@ -0,0 +1,244 @@
+/**
+ * SignalsLoop API Client
+ * Typed client for the v1 REST API with API-key auth, 429 retries and
+ * cursor pagination iterators
+ */
+
+import { API_OPERATIONS, type OperationId } from './operations';
+import { errorFromResponse, type APIErrorBody } from './errors';
+import type {
+  CastVoteInput,
+  CastVoteResponse,
+  Comment,
+  CreateCommentInput,
+  CreatePostInput,
+  DataResponse,
+  DeleteCommentResponse,
+  DeletePostResponse,
+  ListParams,
+  MergeResponse,
+  Page,
+  Post,
+  PostListParams,
+  RetractVoteResponse,
+  StatusChangeResponse,
+  UpdateCommentInput,
+  UpdatePostInput,
+  UpdatePostStatusInput,
+  Vote,
+} from './types';
+
+export const DEFAULT_BASE_URL = 'https://app.signalsloop.com/api/v1';
+
+export interface SignalsLoopClientOptions {
+  apiKey: string;
+  // Server URL including /api/v1
+  baseUrl?: string;
+  // Retries for 429 responses before a RateLimitError is thrown
+  maxRetries?: number;
+  // Upper bound on a single wait, whatever Retry-After asks for
+  maxRetryDelayMs?: number;
+  fetch?: typeof fetch;
+}
+
+type QueryValue = string | number | boolean | string[] | undefined | null;
+
+interface RequestOptions {
+  params?: Record<string, string>;
+  query?: object;
+  body?: object;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into seconds
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim());
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return null;
+  }
+  return Math.max(0, Math.ceil((date - now) / 1000));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class SignalsLoopClient {
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly maxRetries: number;
+  private readonly maxRetryDelayMs: number;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: SignalsLoopClientOptions) {
+    if (!options.apiKey) {
+      throw new Error('SignalsLoopClient requires an apiKey');
+    }
+
+    this.apiKey = options.apiKey;
+    this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.maxRetries = options.maxRetries ?? 3;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 60_000;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  // === Posts ===
+
+  listPosts(params: PostListParams = {}): Promise<Page<Post>> {
+    return this.request('listPosts', { query: params });
+  }
+
+  iteratePosts(params: PostListParams = {}): AsyncGenerator<Post> {
+    return this.paginate((cursor) => this.listPosts({ ...params, cursor }), params.cursor);
+  }
+
+  createPost(input: CreatePostInput): Promise<DataResponse<Post>> {
+    return this.request('createPost', { body: input });
+  }
+
+  getPost(postId: string): Promise<DataResponse<Post>> {
+    return this.request('getPost', { params: { postId } });
+  }
+
+  updatePost(postId: string, input: UpdatePostInput): Promise<DataResponse<Post>> {
+    return this.request('updatePost', { params: { postId }, body: input });
+  }
+
+  deletePost(postId: string): Promise<DeletePostResponse> {
+    return this.request('deletePost', { params: { postId } });
+  }
+
+  updatePostStatus(postId: string, input: UpdatePostStatusInput): Promise<StatusChangeResponse> {
+    return this.request('updatePostStatus', { params: { postId }, body: input });
+  }
+
+  mergePost(postId: string, targetPostId: string): Promise<MergeResponse> {
+    return this.request('mergePost', { params: { postId }, body: { target_post_id: targetPostId } });
+  }
+
+  // === Comments ===
+
+  listComments(postId: string, params: ListParams = {}): Promise<Page<Comment>> {
+    return this.request('listComments', { params: { postId }, query: params });
+  }
+
+  iterateComments(postId: string, params: ListParams = {}): AsyncGenerator<Comment> {
+    return this.paginate((cursor) => this.listComments(postId, { ...params, cursor }), params.cursor);
+  }
+
+  createComment(postId: string, input: CreateCommentInput): Promise<DataResponse<Comment>> {
+    return this.request('createComment', { params: { postId }, body: input });
+  }
+
+  updateComment(postId: string, commentId: string, input: UpdateCommentInput): Promise<DataResponse<Comment>> {
+    return this.request('updateComment', { params: { postId, commentId }, body: input });
+  }
+
+  deleteComment(postId: string, commentId: string): Promise<DeleteCommentResponse> {
+    return this.request('deleteComment', { params: { postId, commentId } });
+  }
+
+  // === Votes ===
+
+  listVotes(postId: string, params: ListParams = {}): Promise<Page<Vote>> {
+    return this.request('listVotes', { params: { postId }, query: params });
+  }
+
+  iterateVotes(postId: string, params: ListParams = {}): AsyncGenerator<Vote> {
+    return this.paginate((cursor) => this.listVotes(postId, { ...params, cursor }), params.cursor);
+  }
+
+  castVote(postId: string, input: CastVoteInput): Promise<CastVoteResponse> {
+    return this.request('castVote', { params: { postId }, body: input });
+  }
+
+  retractVote(postId: string, voterEmail: string): Promise<RetractVoteResponse> {
+    return this.request('retractVote', { params: { postId }, query: { voter_email: voterEmail } });
+  }
+
+  // === Transport ===
+
+  /**
+   * Yield every item across pages, following next_cursor until has_more is false
+   */
+  private async *paginate<T>(
+    fetchPage: (cursor: string | undefined) => Promise<Page<T>>,
+    startCursor?: string
+  ): AsyncGenerator<T> {
+    let cursor = startCursor;
+
+    while (true) {
+      const page = await fetchPage(cursor);
+      yield* page.data;
+
+      if (!page.pagination.has_more || !page.pagination.next_cursor) {
+        return;
+      }
+      cursor = page.pagination.next_cursor;
+    }
+  }
+
+  private buildUrl(operationId: OperationId, options: RequestOptions): string {
+    const operation = API_OPERATIONS[operationId];
+    const path = operation.path.replace(/\{(\w+)\}/g, (_, name: string) => {
+      const value = options.params?.[name];
+      if (!value) {
+        throw new Error(`${operationId} requires the "${name}" path parameter`);
+      }
+      return encodeURIComponent(value);
+    });
+
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries((options.query ?? {}) as Record<string, QueryValue>)) {
+      if (value === undefined || value === null) continue;
+      search.set(key, Array.isArray(value) ? value.join(',') : String(value));
+    }
+
+    const queryString = search.toString();
+    return `${this.baseUrl}${path}${queryString ? `?${queryString}` : ''}`;
+  }
+
+  private async request<T>(operationId: OperationId, options: RequestOptions = {}): Promise<T> {
+    const { method } = API_OPERATIONS[operationId];
+    const url = this.buildUrl(operationId, options);
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${this.apiKey}`,
+      Accept: 'application/json',
+    };
+    if (options.body) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.fetchImpl(url, {
+        method,
+        headers,
+        body: options.body ? JSON.stringify(options.body) : undefined,
+      });
+
+      const payload = await response.json().catch(() => null);
+
+      if (response.ok) {
+        return payload as T;
+      }
+
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      if (response.status === 429 && attempt < this.maxRetries) {
+        const delayMs = retryAfter !== null ? retryAfter * 1000 : 1000 * 2 ** attempt;
+        await sleep(Math.min(delayMs, this.maxRetryDelayMs));
+        continue;
+      }
+
+      throw errorFromResponse(response.status, operationId, payload as APIErrorBody | null, retryAfter);
+    }
+  }
+}
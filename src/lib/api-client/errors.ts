@@ -0,0 +1,107 @@
+/**
+ * Typed errors raised by the SignalsLoop API client
+ */
+
+export interface APIErrorBody {
+  error?: string;
+  message?: string;
+  details?: unknown;
+  required_scopes?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * Base class for every non-2xx response
+ */
+export class SignalsLoopAPIError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly operationId: string,
+    public readonly body: APIErrorBody | null
+  ) {
+    super(message);
+    this.name = 'SignalsLoopAPIError';
+  }
+}
+
+/** 400: the request failed validation */
+export class ValidationError extends SignalsLoopAPIError {
+  name = 'ValidationError';
+}
+
+/** 401: the API key is missing, invalid, expired or used from a disallowed IP */
+export class AuthenticationError extends SignalsLoopAPIError {
+  name = 'AuthenticationError';
+}
+
+/** 403: the API key lacks a scope, or the resource is closed (e.g. a merged post) */
+export class PermissionError extends SignalsLoopAPIError {
+  name = 'PermissionError';
+
+  get requiredScopes(): string[] {
+    return this.body?.required_scopes ?? [];
+  }
+}
+
+/** 404 */
+export class NotFoundError extends SignalsLoopAPIError {
+  name = 'NotFoundError';
+}
+
+/** 409: e.g. a duplicate vote or an already merged post */
+export class ConflictError extends SignalsLoopAPIError {
+  name = 'ConflictError';
+}
+
+/** 429 after all retries were used */
+export class RateLimitError extends SignalsLoopAPIError {
+  name = 'RateLimitError';
+
+  constructor(
+    message: string,
+    status: number,
+    operationId: string,
+    body: APIErrorBody | null,
+    /** Seconds the server asked us to wait, when it said */
+    public readonly retryAfter: number | null
+  ) {
+    super(message, status, operationId, body);
+  }
+}
+
+/** 5xx */
+export class ServerError extends SignalsLoopAPIError {
+  name = 'ServerError';
+}
+
+/**
+ * Build the error for a failed response
+ */
+export function errorFromResponse(
+  status: number,
+  operationId: string,
+  body: APIErrorBody | null,
+  retryAfter: number | null = null
+): SignalsLoopAPIError {
+  const message = body?.message || body?.error || `Request failed with status ${status}`;
+
+  switch (status) {
+    case 400:
+      return new ValidationError(message, status, operationId, body);
+    case 401:
+      return new AuthenticationError(message, status, operationId, body);
+    case 403:
+      return new PermissionError(message, status, operationId, body);
+    case 404:
+      return new NotFoundError(message, status, operationId, body);
+    case 409:
+      return new ConflictError(message, status, operationId, body);
+    case 429:
+      return new RateLimitError(message, status, operationId, body, retryAfter);
+    default:
+      return status >= 500
+        ? new ServerError(message, status, operationId, body)
+        : new SignalsLoopAPIError(message, status, operationId, body);
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * SignalsLoop API Client
+ *
+ * Usage:
+ *   const client = new SignalsLoopClient({ apiKey: process.env.SIGNALSLOOP_API_KEY! });
+ *   for await (const post of client.iteratePosts({ status: ['open', 'planned'] })) {
+ *     console.log(post.title);
+ *   }
+ */
+
+export * from './client';
+export * from './errors';
+export * from './operations';
+export * from './types';
@@ -0,0 +1,55 @@
+/**
+ * The v1 operations the client calls, keyed by OpenAPI operationId.
+ * The contract test checks this table against the generated spec.
+ */
+
+export type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+export interface OperationDefinition {
+  method: HttpMethod;
+  // Path relative to the /api/v1 server URL, with {placeholders}
+  path: string;
+  query?: readonly string[];
+  body?: readonly string[];
+}
+
+const LIST_QUERY = ['cursor', 'limit', 'order', 'created_after', 'created_before'] as const;
+
+export const API_OPERATIONS = {
+  listPosts: {
+    method: 'GET',
+    path: '/posts',
+    query: [...LIST_QUERY, 'status', 'category', 'board_id', 'updated_after', 'sort', 'include_merged'],
+  },
+  createPost: {
+    method: 'POST',
+    path: '/posts',
+    body: ['title', 'description', 'board_id', 'category', 'status', 'author_name', 'author_email'],
+  },
+  getPost: { method: 'GET', path: '/posts/{postId}' },
+  updatePost: {
+    method: 'PATCH',
+    path: '/posts/{postId}',
+    body: ['title', 'description', 'board_id', 'category', 'author_name', 'author_email'],
+  },
+  deletePost: { method: 'DELETE', path: '/posts/{postId}' },
+  updatePostStatus: { method: 'PATCH', path: '/posts/{postId}/status', body: ['status', 'note'] },
+  mergePost: { method: 'POST', path: '/posts/{postId}/merge', body: ['target_post_id'] },
+  listComments: { method: 'GET', path: '/posts/{postId}/comments', query: LIST_QUERY },
+  createComment: {
+    method: 'POST',
+    path: '/posts/{postId}/comments',
+    body: ['content', 'author_name', 'author_email', 'parent_id'],
+  },
+  updateComment: { method: 'PATCH', path: '/posts/{postId}/comments/{commentId}', body: ['content'] },
+  deleteComment: { method: 'DELETE', path: '/posts/{postId}/comments/{commentId}' },
+  listVotes: { method: 'GET', path: '/posts/{postId}/votes', query: LIST_QUERY },
+  castVote: {
+    method: 'POST',
+    path: '/posts/{postId}/votes',
+    body: ['voter_email', 'voter_name', 'voter_company', 'priority', 'note'],
+  },
+  retractVote: { method: 'DELETE', path: '/posts/{postId}/votes', query: ['voter_email'] },
+} as const satisfies Record<string, OperationDefinition>;
+
+export type OperationId = keyof typeof API_OPERATIONS;
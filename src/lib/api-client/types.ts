@@ -0,0 +1,142 @@
+/**
+ * Request and response types for the v1 API, mirroring the
+ * component schemas and request bodies in the OpenAPI spec
+ */
+
+export type PostStatus = 'open' | 'planned' | 'in_progress' | 'done' | 'declined';
+export type VotePriority = 'must_have' | 'important' | 'nice_to_have';
+export type SortOrder = 'asc' | 'desc';
+
+export interface Post {
+  id: string;
+  project_id: string;
+  board_id?: string;
+  title: string;
+  description?: string | null;
+  status: PostStatus;
+  category?: string | null;
+  vote_count: number;
+  author_name?: string | null;
+  author_email?: string | null;
+  duplicate_of?: string | null;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+export interface Comment {
+  id: string;
+  post_id: string;
+  parent_id?: string | null;
+  content: string;
+  author_name?: string | null;
+  author_email?: string | null;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+export interface Vote {
+  id: string;
+  post_id: string;
+  priority?: VotePriority;
+  created_at: string;
+}
+
+export interface CursorPagination {
+  limit: number;
+  has_more: boolean;
+  next_cursor: string | null;
+}
+
+export interface Page<T> {
+  data: T[];
+  pagination: CursorPagination;
+}
+
+export interface ListParams {
+  cursor?: string;
+  limit?: number;
+  order?: SortOrder;
+  created_after?: string;
+  created_before?: string;
+}
+
+export interface PostListParams extends ListParams {
+  status?: PostStatus | PostStatus[];
+  category?: string;
+  board_id?: string;
+  updated_after?: string;
+  sort?: 'created_at' | 'vote_count';
+  include_merged?: boolean;
+}
+
+export interface CreatePostInput {
+  title: string;
+  description?: string | null;
+  board_id?: string;
+  category?: string | null;
+  status?: PostStatus;
+  author_name?: string;
+  author_email?: string | null;
+}
+
+export type UpdatePostInput = Partial<Omit<CreatePostInput, 'status'>>;
+
+export interface UpdatePostStatusInput {
+  status: PostStatus;
+  note?: string | null;
+}
+
+export interface MergePostInput {
+  target_post_id: string;
+}
+
+export interface CreateCommentInput {
+  content: string;
+  author_name?: string;
+  author_email?: string | null;
+  parent_id?: string | null;
+}
+
+export interface UpdateCommentInput {
+  content: string;
+}
+
+export interface CastVoteInput {
+  voter_email: string;
+  voter_name?: string;
+  voter_company?: string;
+  priority?: VotePriority;
+  note?: string | null;
+}
+
+export interface DataResponse<T> {
+  data: T;
+}
+
+export interface StatusChangeResponse extends DataResponse<Post> {
+  previous_status: PostStatus;
+}
+
+export interface MergeResponse extends DataResponse<Post> {
+  merged_into: string;
+}
+
+export interface CastVoteResponse extends DataResponse<Vote> {
+  vote_count: number;
+}
+
+export interface DeletePostResponse {
+  message: string;
+  deleted_post: { id: string; title: string };
+}
+
+export interface DeleteCommentResponse {
+  message: string;
+  deleted_comment: { id: string };
+}
+
+export interface RetractVoteResponse {
+  message: string;
+  deleted_vote: { id: string };
+  vote_count: number;
+}
@@ -0,0 +1,131 @@
+/**
+ * API Key Authentication
+ * The one place project API keys are looked up. Every route that accepts a
+ * key goes through authenticateAPIKey so revocation, expiry, IP allow-lists
+ * and scopes apply the same way everywhere.
+ */
+
+import crypto from 'crypto';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { getSupabaseServiceRoleClient } from './secure-supabase';
+import { extractRequestMetadata } from './security-logger';
+import {
+  checkApiKeyPolicy,
+  missingScopes,
+  resolveScopes,
+  type ApiKeyPolicy,
+  type ApiKeyScope,
+} from './api-key-scopes';
+
+export interface APIKeyAuthOptions {
+  projectId?: string;             // The key must belong to this project
+  requiredScopes?: ApiKeyScope[];
+  // Stored hashes to look the key up by, in order; defaults to its SHA-256
+  keyHashes?: string[];
+}
+
+export interface APIKeyRecord extends ApiKeyPolicy {
+  id: string;
+  project_id: string;
+  usage_count?: number | null;
+  projects: { id: string; slug: string; name: string; plan: string | null; user_id: string | null };
+  [column: string]: unknown;
+}
+
+export type APIKeyAuthResult =
+  | {
+      valid: true;
+      key: APIKeyRecord;
+      project: APIKeyRecord['projects'];
+      scopes: ApiKeyScope[];
+    }
+  | {
+      valid: false;
+      reason: 'missing' | 'unknown' | 'policy' | 'scope';
+      status: 401 | 403;
+      error: string;
+      requiredScopes?: ApiKeyScope[];
+    };
+
+export function hashAPIKey(apiKey: string): string {
+  return crypto.createHash('sha256').update(apiKey).digest('hex');
+}
+
+/**
+ * The key from an `Authorization: Bearer <key>` header
+ */
+export function bearerAPIKey(request: NextRequest): string | null {
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null;
+  }
+  return authHeader.replace('Bearer ', '') || null;
+}
+
+/**
+ * Look up an API key and apply its full policy: revocation, expiry, IP
+ * allow-list, project and scopes. Unknown, revoked, expired, IP-restricted
+ * and other projects' keys fail with 401; missing scopes with 403.
+ */
+export async function authenticateAPIKey(
+  request: NextRequest,
+  apiKey: string | null,
+  options: APIKeyAuthOptions = {}
+): Promise<APIKeyAuthResult> {
+  if (!apiKey) {
+    return { valid: false, reason: 'missing', status: 401, error: 'Missing API key' };
+  }
+
+  const supabase = getSupabaseServiceRoleClient();
+  let key: APIKeyRecord | null = null;
+
+  for (const keyHash of options.keyHashes || [hashAPIKey(apiKey)]) {
+    const { data } = await supabase
+      .from('api_keys')
+      .select('*, projects!inner(id, slug, name, plan, user_id)')
+      .eq('key_hash', keyHash)
+      .maybeSingle();
+
+    if (data) {
+      key = data as APIKeyRecord;
+      break;
+    }
+  }
+
+  if (!key || (options.projectId && key.project_id !== options.projectId)) {
+    return { valid: false, reason: 'unknown', status: 401, error: 'Invalid API key' };
+  }
+
+  const policyError = checkApiKeyPolicy(key, extractRequestMetadata(request).ip);
+  if (policyError) {
+    return { valid: false, reason: 'policy', status: 401, error: policyError };
+  }
+
+  const scopes = resolveScopes(key.scopes);
+  const missing = missingScopes(scopes, options.requiredScopes || []);
+  if (missing.length > 0) {
+    return {
+      valid: false,
+      reason: 'scope',
+      status: 403,
+      error: `API key is missing required scope: ${missing.join(', ')}`,
+      requiredScopes: options.requiredScopes,
+    };
+  }
+
+  return { valid: true, key, project: key.projects, scopes };
+}
+
+/**
+ * JSON error response for a failed authenticateAPIKey
+ */
+export function apiKeyErrorResponse(result: Extract<APIKeyAuthResult, { valid: false }>): NextResponse {
+  return NextResponse.json(
+    {
+      error: result.error,
+      ...(result.requiredScopes ? { required_scopes: result.requiredScopes } : {}),
+    },
+    { status: result.status }
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * API Key Scopes
+ * Per-key permissions, expiry and IP allow-lists for project API keys
+ */
+
+export const API_KEY_SCOPES = [
+  'posts:read',
+  'posts:write',
+  'votes:write',
+  'export:read',
+  'webhooks:manage',
+  'admin',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  'posts:read': 'Read posts, comments and votes',
+  'posts:write': 'Create, edit, merge and delete posts and comments',
+  'votes:write': 'Cast and retract votes on behalf of users',
+  'export:read': 'Read project statistics and exports',
+  'webhooks:manage': 'Create, edit, test and delete webhooks and read or redeliver their deliveries',
+  admin: 'Full access, including every other scope',
+};
+
+/**
+ * Columns on api_keys that control what a key may do
+ */
+export interface ApiKeyPolicy {
+  is_active?: boolean | null;
+  scopes?: string[] | null;
+  expires_at?: string | null;
+  allowed_ips?: string[] | null;
+}
+
+export function isApiKeyScope(value: string): value is ApiKeyScope {
+  return (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+/**
+ * Normalise the stored scopes. Keys created before scopes existed have
+ * no value and keep the full access they always had.
+ */
+export function resolveScopes(scopes: string[] | null | undefined): ApiKeyScope[] {
+  if (!scopes) {
+    return ['admin'];
+  }
+  return scopes.filter(isApiKeyScope);
+}
+
+/**
+ * Scopes from `required` that `granted` does not cover; `admin` covers all
+ */
+export function missingScopes(granted: ApiKeyScope[], required: ApiKeyScope[]): ApiKeyScope[] {
+  if (granted.includes('admin')) {
+    return [];
+  }
+  return required.filter((scope) => !granted.includes(scope));
+}
+
+export function hasScopes(granted: ApiKeyScope[], required: ApiKeyScope[]): boolean {
+  return missingScopes(granted, required).length === 0;
+}
+
+function parseIPv4(ip: string): number | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) {
+      return null;
+    }
+    value = value * 256 + Number(part);
+  }
+  return value;
+}
+
+/**
+ * Match an address against one allow-list entry: an exact address
+ * (IPv4 or IPv6) or an IPv4 CIDR range such as 10.0.0.0/8
+ */
+export function ipMatches(ip: string, entry: string): boolean {
+  const address = ip.trim().toLowerCase().replace(/^::ffff:(?=\d+\.)/, '');
+  const rule = entry.trim().toLowerCase();
+
+  if (!rule.includes('/')) {
+    return address === rule;
+  }
+
+  const [range, bitsText] = rule.split('/');
+  const bits = Number(bitsText);
+  const addressValue = parseIPv4(address);
+  const rangeValue = parseIPv4(range);
+
+  if (addressValue === null || rangeValue === null || !/^\d{1,2}$/.test(bitsText) || bits > 32) {
+    return false;
+  }
+
+  const blockSize = 2 ** (32 - bits);
+  return Math.floor(addressValue / blockSize) === Math.floor(rangeValue / blockSize);
+}
+
+/**
+ * Whether a key is neither revoked nor expired, regardless of where it is used from
+ */
+export function isApiKeyLive(key: ApiKeyPolicy, now: Date = new Date()): boolean {
+  return key.is_active !== false &&
+    !(key.expires_at && new Date(key.expires_at).getTime() <= now.getTime());
+}
+
+/**
+ * Check a key's active flag, expiry and IP allow-list.
+ * Returns the reason the key may not be used, or null when it may.
+ */
+export function checkApiKeyPolicy(
+  key: ApiKeyPolicy,
+  clientIp: string | undefined,
+  now: Date = new Date()
+): string | null {
+  if (key.is_active === false) {
+    return 'API key has been revoked';
+  }
+
+  if (!isApiKeyLive(key, now)) {
+    return 'API key has expired';
+  }
+
+  const allowList = key.allowed_ips || [];
+  if (allowList.length > 0) {
+    if (!clientIp || !allowList.some((entry) => ipMatches(clientIp, entry))) {
+      return 'API key is not allowed from this IP address';
+    }
+  }
+
+  return null;
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { ZodSchema } from 'zod';
+import { ZodSchema, ZodType, ZodTypeDef } from 'zod';
 import { withRateLimit } from '@/middleware/rate-limit';
 import { withCSRFProtection } from './csrf-protection';
 import { applySecurityHeaders } from './security-headers';
@@ -7,14 +7,34 @@ import { sanitizeObject } from './input-validation';
 import {
   logValidationError,
   logAuthenticationFailed,
+  logUnauthorizedAccess,
   extractRequestMetadata,
 } from './security-logger';
+import { logAPIKeyUsage } from './audit-logger';
+import { missingScopes, type ApiKeyScope } from './api-key-scopes';
+import { authenticateAPIKey, bearerAPIKey } from './api-key-auth';
 
 /**
  * Comprehensive API Security Wrapper
  * Combines all security measures into a single wrapper
  */
 
+/**
+ * The API key a request authenticated with
+ */
+export interface AuthenticatedAPIKey {
+  id: string;
+  scopes: ApiKeyScope[];
+}
+
+export interface AuthValidationResult {
+  valid: boolean;
+  user?: any;
+  project?: any;
+  apiKey?: AuthenticatedAPIKey;
+  error?: string;
+}
+
 export interface SecureAPIOptions<TBody = any, TParams = any> {
   // Rate limiting
   enableRateLimit?: boolean;
@@ -25,15 +45,14 @@ export interface SecureAPIOptions<TBody = any, TParams = any> {
 
   // Authentication
   requireAuth?: boolean;
-  authValidator?: (request: NextRequest) => Promise<{
-    valid: boolean;
-    user?: any;
-    error?: string;
-  }>;
+  authValidator?: (request: NextRequest) => Promise<AuthValidationResult>;
+  // Scopes the API key must carry; ignored for validators that don't resolve a key
+  requiredScopes?: ApiKeyScope[];
 
   // Input validation
-  bodySchema?: ZodSchema<TBody>;
-  paramsSchema?: ZodSchema<TParams>;
+  // Input types are left open so schemas with defaults/transforms fit
+  bodySchema?: ZodType<TBody, ZodTypeDef, unknown>;
+  paramsSchema?: ZodType<TParams, ZodTypeDef, unknown>;
   querySchema?: ZodSchema<any>;
 
   // Request sanitization
@@ -52,6 +71,9 @@ export interface SecureAPIContext<TBody = any, TParams = any> {
   params?: TParams;
   query?: Record<string, string>;
   user?: any;
+  // Project the API key belongs to (set by validateAPIKey)
+  project?: any;
+  apiKey?: AuthenticatedAPIKey;
 }
 
 /**
@@ -71,6 +93,7 @@ export function secureAPI<TBody = any, TParams = any, TResponse = any>(
       enableCSRF = false,
       requireAuth = false,
       authValidator,
+      requiredScopes = [],
       bodySchema,
       paramsSchema,
       querySchema,
@@ -135,6 +158,41 @@ export function secureAPI<TBody = any, TParams = any, TResponse = any>(
         }
 
         context.user = authResult.user;
+        context.project = authResult.project;
+        context.apiKey = authResult.apiKey;
+
+        if (authResult.apiKey) {
+          const missing = missingScopes(authResult.apiKey.scopes, requiredScopes);
+          if (missing.length > 0) {
+            logUnauthorizedAccess(request, authResult.user?.id, authResult.apiKey.id);
+
+            const response = NextResponse.json(
+              {
+                error: 'Forbidden',
+                message: `API key is missing required scope: ${missing.join(', ')}`,
+                required_scopes: requiredScopes,
+              },
+              { status: 403 }
+            );
+            return applySecurityHeaders(response);
+          }
+
+          // Audit logging never throws, so there is no need to hold the request for it
+          const endpoint = `${request.method} ${request.nextUrl.pathname}`;
+          const usedScopes: Array<ApiKeyScope | undefined> =
+            requiredScopes.length > 0 ? requiredScopes : [undefined];
+          void Promise.all(
+            usedScopes.map((scope) =>
+              logAPIKeyUsage(
+                authResult.apiKey!.id,
+                authResult.project?.id,
+                endpoint,
+                request,
+                scope
+              )
+            )
+          );
+        }
       }
 
       // Parse and validate body
@@ -292,47 +350,25 @@ function applyCORSHeaders(
 
 /**
  * Default API key validator
+ * Rejects revoked and expired keys and requests from outside the key's IP allow-list
  */
-export async function validateAPIKey(request: NextRequest): Promise<{
-  valid: boolean;
-  user?: any;
-  project?: any;
-  error?: string;
-}> {
-  const authHeader = request.headers.get('authorization');
-
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+export async function validateAPIKey(request: NextRequest): Promise<AuthValidationResult> {
+  if (!bearerAPIKey(request)) {
     return { valid: false, error: 'Missing or invalid Authorization header' };
   }
 
-  const apiKey = authHeader.replace('Bearer ', '');
-
   try {
-    const crypto = await import('crypto');
-    const { getSupabaseServiceRoleClient } = await import('./secure-supabase');
-
-    const supabase = getSupabaseServiceRoleClient();
-    const keyHash = crypto.default.createHash('sha256').update(apiKey).digest('hex');
-
-    const { data: apiKeyData, error } = await supabase
-      .from('api_keys')
-      .select(
-        `
-        *,
-        projects!inner(id, slug, name, plan, user_id)
-      `
-      )
-      .eq('key_hash', keyHash)
-      .single();
-
-    if (error || !apiKeyData) {
-      return { valid: false, error: 'Invalid API key' };
+    // Scopes are checked by secureAPI against the route's requiredScopes
+    const result = await authenticateAPIKey(request, bearerAPIKey(request));
+    if (!result.valid) {
+      return { valid: false, error: result.error };
     }
 
     return {
       valid: true,
-      project: apiKeyData.projects,
-      user: { id: apiKeyData.projects.user_id },
+      project: result.project,
+      user: { id: result.project.user_id },
+      apiKey: { id: result.key.id, scopes: result.scopes },
     };
   } catch (error) {
     console.error('API key validation error:', error);
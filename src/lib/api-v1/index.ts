@@ -0,0 +1,7 @@
+/**
+ * Public v1 REST API helpers
+ */
+
+export * from './pagination';
+export * from './schemas';
+export * from './resources';
@@ -0,0 +1,93 @@
+/**
+ * Cursor pagination for the public v1 API
+ *
+ * Lists are ordered by (sort column, id) and a cursor encodes the last row
+ * of the previous page, so pages stay stable while rows are inserted or
+ * deleted (unlike offset pagination).
+ */
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+// Cursor values end up inside a PostgREST filter, so only plain values pass
+const SAFE_VALUE = /^[\w:.+-]+$/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface CursorPosition {
+  value: string | number;
+  id: string;
+}
+
+export interface CursorPage<T> {
+  data: T[];
+  pagination: {
+    limit: number;
+    has_more: boolean;
+    next_cursor: string | null;
+  };
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid pagination cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+export function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(JSON.stringify([position.value, position.id])).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): CursorPosition {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 2 &&
+      (typeof decoded[0] === 'number' ||
+        (typeof decoded[0] === 'string' && SAFE_VALUE.test(decoded[0]))) &&
+      typeof decoded[1] === 'string' &&
+      UUID.test(decoded[1])
+    ) {
+      return { value: decoded[0], id: decoded[1] };
+    }
+  } catch {
+    // Fall through
+  }
+  throw new InvalidCursorError();
+}
+
+/**
+ * PostgREST `or` filter selecting rows strictly after the cursor
+ */
+export function cursorFilter(sortColumn: string, ascending: boolean, position: CursorPosition): string {
+  const op = ascending ? 'gt' : 'lt';
+  const value = typeof position.value === 'number' ? position.value : `"${position.value}"`;
+  return `${sortColumn}.${op}.${value},and(${sortColumn}.eq.${value},id.${op}.${position.id})`;
+}
+
+/**
+ * Build a page from rows fetched with `limit + 1`; the extra row only
+ * signals that another page exists
+ */
+export function toCursorPage<T extends { id: string }>(
+  rows: T[],
+  limit: number,
+  sortColumn: keyof T & string
+): CursorPage<T> {
+  const hasMore = rows.length > limit;
+  const data = hasMore ? rows.slice(0, limit) : rows;
+  const last = data[data.length - 1];
+
+  return {
+    data,
+    pagination: {
+      limit,
+      has_more: hasMore,
+      next_cursor:
+        hasMore && last
+          ? encodeCursor({ value: last[sortColumn] as unknown as string | number, id: last.id })
+          : null,
+    },
+  };
+}
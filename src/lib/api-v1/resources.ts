@@ -0,0 +1,228 @@
+/**
+ * Shared data access for the public v1 API
+ *
+ * Every lookup is scoped to the project the API key belongs to, so a key
+ * can never read or change another project's posts.
+ */
+
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createHash } from 'crypto';
+import { getServiceRoleClient } from '@/lib/supabase-singleton';
+import { triggerWebhooks, type WebhookEvent } from '@/lib/webhooks';
+import { triggerSlackNotification } from '@/lib/slack';
+import { triggerDiscordNotification } from '@/lib/discord';
+import { cursorFilter, decodeCursor, type CursorPosition } from './pagination';
+import type { ListQuery } from './schemas';
+
+export const POST_COLUMNS = `
+  id,
+  project_id,
+  board_id,
+  title,
+  description,
+  status,
+  category,
+  vote_count,
+  author_name,
+  author_email,
+  duplicate_of,
+  created_at,
+  updated_at
+`;
+
+// Response shape of the legacy PUT /posts/{id}
+export const LEGACY_POST_COLUMNS = `
+  id,
+  title,
+  description,
+  status,
+  ai_category,
+  ai_confidence,
+  vote_count,
+  comments_count,
+  author_name,
+  author_email,
+  created_at,
+  updated_at
+`;
+
+export const COMMENT_COLUMNS = `
+  id,
+  post_id,
+  parent_id,
+  content,
+  author_name,
+  author_email,
+  created_at,
+  updated_at
+`;
+
+export const VOTE_COLUMNS = `
+  id,
+  post_id,
+  priority,
+  created_at
+`;
+
+interface ListQueryBuilder<Q> {
+  gte(column: string, value: string): Q;
+  lte(column: string, value: string): Q;
+  or(filters: string): Q;
+  order(column: string, options: { ascending: boolean }): Q;
+  limit(count: number): Q;
+}
+
+export interface V1Post {
+  id: string;
+  project_id: string;
+  board_id: string | null;
+  title: string;
+  description: string | null;
+  status: string;
+  category: string | null;
+  vote_count: number;
+  author_name: string | null;
+  author_email: string | null;
+  duplicate_of: string | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export interface V1Project {
+  id: string;
+  slug: string;
+  name: string;
+  plan: string;
+  user_id: string;
+}
+
+/**
+ * Service-role client; throws so secureAPI answers with a 500
+ */
+export function requireSupabase(): SupabaseClient {
+  const supabase = getServiceRoleClient();
+  if (!supabase) {
+    throw new Error('Database connection not available');
+  }
+  return supabase;
+}
+
+export function badRequest(message: string): NextResponse {
+  return NextResponse.json({ error: message }, { status: 400 });
+}
+
+export function notFound(resource: string): NextResponse {
+  return NextResponse.json({ error: `${resource} not found` }, { status: 404 });
+}
+
+export async function findProjectPost(
+  supabase: SupabaseClient,
+  projectId: string,
+  postId: string
+): Promise<V1Post | null> {
+  const { data, error } = await supabase
+    .from('posts')
+    .select(POST_COLUMNS)
+    .eq('id', postId)
+    .eq('project_id', projectId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return data as V1Post | null;
+}
+
+/**
+ * Board to file new posts under when the caller does not pick one
+ */
+export async function findDefaultBoardId(
+  supabase: SupabaseClient,
+  projectId: string
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('boards')
+    .select('id')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return data?.id ?? null;
+}
+
+export async function boardBelongsToProject(
+  supabase: SupabaseClient,
+  projectId: string,
+  boardId: string
+): Promise<boolean> {
+  const { data } = await supabase
+    .from('boards')
+    .select('id')
+    .eq('id', boardId)
+    .eq('project_id', projectId)
+    .maybeSingle();
+
+  return Boolean(data);
+}
+
+/**
+ * Apply the shared created_at range, ordering and cursor to a list query
+ *
+ * Fetches `limit + 1` rows so toCursorPage can tell whether more exist.
+ */
+export function applyListQuery<Q extends ListQueryBuilder<Q>>(
+  query: Q,
+  params: ListQuery,
+  sortColumn = 'created_at'
+): Q {
+  const ascending = params.order === 'asc';
+  let cursor: CursorPosition | null = null;
+  if (params.cursor) {
+    cursor = decodeCursor(params.cursor);
+  }
+
+  if (params.created_after) query = query.gte('created_at', params.created_after);
+  if (params.created_before) query = query.lte('created_at', params.created_before);
+  if (cursor) query = query.or(cursorFilter(sortColumn, ascending, cursor));
+
+  return query
+    .order(sortColumn, { ascending })
+    .order('id', { ascending })
+    .limit(params.limit + 1);
+}
+
+/**
+ * Same hash the dashboard's vote-on-behalf flow uses, so a customer
+ * cannot be counted twice through the two entry points
+ */
+export function hashVoterEmail(email: string): string {
+  return createHash('sha256').update(email.toLowerCase().trim()).digest('hex');
+}
+
+/**
+ * Fan an event out to webhooks, Slack and Discord without failing the request
+ */
+export async function notifyIntegrations(
+  projectId: string,
+  event: WebhookEvent,
+  payload: Record<string, unknown>
+): Promise<void> {
+  try {
+    await triggerWebhooks(projectId, event, payload);
+  } catch (webhookError) {
+    console.error('Failed to trigger webhooks:', webhookError);
+  }
+
+  triggerSlackNotification(projectId, event, payload).catch((slackError) => {
+    console.error('Failed to notify Slack:', slackError);
+  });
+
+  triggerDiscordNotification(projectId, event, payload).catch((discordError) => {
+    console.error('Failed to notify Discord:', discordError);
+  });
+}
@@ -0,0 +1,156 @@
+/**
+ * Request validation for the public v1 API
+ *
+ * Query schemas coerce from strings because secureAPI hands query
+ * parameters over as a flat string record.
+ */
+
+import { z } from 'zod';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './pagination';
+
+export const POST_STATUSES = ['open', 'planned', 'in_progress', 'done', 'declined'] as const;
+export const VOTE_PRIORITIES = ['must_have', 'important', 'nice_to_have'] as const;
+export const POST_SORT_FIELDS = ['created_at', 'vote_count'] as const;
+
+export type PostStatus = typeof POST_STATUSES[number];
+export type VotePriority = typeof VOTE_PRIORITIES[number];
+
+const uuid = z.string().uuid();
+const optionalText = (max: number) => z.string().trim().max(max).nullable().optional();
+
+// The dashboard calls it "completed"; the column stores "done"
+const postStatus = z.preprocess(
+  (value) => (value === 'completed' ? 'done' : value),
+  z.enum(POST_STATUSES)
+);
+
+// === Params ===
+
+export const PostParamsSchema = z.object({ id: uuid });
+export const CommentParamsSchema = z.object({ id: uuid, commentId: uuid });
+
+export type PostParams = z.infer<typeof PostParamsSchema>;
+export type CommentParams = z.infer<typeof CommentParamsSchema>;
+
+// === List queries ===
+
+const listQuery = z.object({
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  created_after: z.string().datetime({ offset: true }).optional(),
+  created_before: z.string().datetime({ offset: true }).optional(),
+});
+
+export const PostListQuerySchema = listQuery.extend({
+  // Comma separated, e.g. status=open,planned
+  status: z
+    .string()
+    .transform((value) => value.split(',').map((s) => s.trim()).filter(Boolean))
+    .pipe(z.array(postStatus).min(1))
+    .optional(),
+  category: z.string().trim().min(1).optional(),
+  board_id: uuid.optional(),
+  updated_after: z.string().datetime({ offset: true }).optional(),
+  sort: z.enum(POST_SORT_FIELDS).default('created_at'),
+  include_merged: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .default('false'),
+});
+
+// Comments read as a thread, oldest first
+export const CommentListQuerySchema = listQuery.extend({
+  order: z.enum(['asc', 'desc']).default('asc'),
+});
+export const VoteListQuerySchema = listQuery;
+
+export type PostListQuery = z.infer<typeof PostListQuerySchema>;
+export type ListQuery = z.infer<typeof listQuery>;
+
+// === Posts ===
+
+export const CreatePostSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  description: optionalText(10000),
+  board_id: uuid.optional(),
+  category: optionalText(100),
+  status: postStatus.default('open'),
+  author_name: z.string().trim().min(1).max(100).default('API User'),
+  author_email: z.string().trim().email().nullable().optional(),
+});
+
+export const UpdatePostSchema = z
+  .object({
+    title: z.string().trim().min(1).max(200),
+    description: optionalText(10000),
+    board_id: uuid,
+    category: optionalText(100),
+    author_name: z.string().trim().min(1).max(100),
+    author_email: z.string().trim().email().nullable(),
+  })
+  .partial()
+  .strict()
+  .refine((body) => Object.keys(body).length > 0, 'At least one field is required');
+
+// Body of the legacy PUT, which predates the status endpoint and still
+// writes status and the AI category and confidence directly
+export const LegacyUpdatePostSchema = z
+  .object({
+    title: z.string().trim().min(1).max(200),
+    description: optionalText(10000),
+    status: postStatus,
+    category: optionalText(100),
+    confidence: z.number().nullable(),
+    author_name: z.string().trim().min(1).max(100),
+    author_email: z.string().trim().email().nullable(),
+  })
+  .partial();
+
+export const UpdatePostStatusSchema = z.object({
+  status: postStatus,
+  note: optionalText(2000),
+});
+
+export const MergePostSchema = z.object({
+  target_post_id: uuid,
+});
+
+export type CreatePostBody = z.infer<typeof CreatePostSchema>;
+export type UpdatePostBody = z.infer<typeof UpdatePostSchema>;
+export type LegacyUpdatePostBody = z.infer<typeof LegacyUpdatePostSchema>;
+export type UpdatePostStatusBody = z.infer<typeof UpdatePostStatusSchema>;
+export type MergePostBody = z.infer<typeof MergePostSchema>;
+
+// === Comments ===
+
+export const CreateCommentSchema = z.object({
+  content: z.string().trim().min(1).max(5000),
+  author_name: z.string().trim().min(1).max(100).default('API User'),
+  author_email: z.string().trim().email().nullable().optional(),
+  parent_id: uuid.nullable().optional(),
+});
+
+export const UpdateCommentSchema = z.object({
+  content: z.string().trim().min(1).max(5000),
+});
+
+export type CreateCommentBody = z.infer<typeof CreateCommentSchema>;
+export type UpdateCommentBody = z.infer<typeof UpdateCommentSchema>;
+
+// === Votes ===
+
+export const CastVoteSchema = z.object({
+  voter_email: z.string().trim().email(),
+  voter_name: z.string().trim().min(1).max(100).optional(),
+  voter_company: z.string().trim().max(200).optional(),
+  priority: z.enum(VOTE_PRIORITIES).default('important'),
+  note: optionalText(2000),
+});
+
+export const RetractVoteQuerySchema = z.object({
+  voter_email: z.string().trim().email(),
+});
+
+export type CastVoteBody = z.infer<typeof CastVoteSchema>;
+export type RetractVoteQuery = z.infer<typeof RetractVoteQuerySchema>;
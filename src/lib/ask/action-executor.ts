@@ -172,7 +172,7 @@ Generate a comprehensive product spec with the following sections:
 
 Format as markdown.`;
 
-  const completion = await getOpenAI().chat.completions.create({
+  const completion = await getOpenAI('ask_signalsloop').chat.completions.create({
     model: 'gpt-4o',
     messages: [
       {
@@ -304,7 +304,7 @@ The report should include:
 
 Format as markdown with clear sections and bullet points.`;
 
-  const completion = await getOpenAI().chat.completions.create({
+  const completion = await getOpenAI('ask_signalsloop').chat.completions.create({
     model: 'gpt-4o',
     messages: [
       {
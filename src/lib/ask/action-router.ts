@@ -125,7 +125,7 @@ export async function detectActionIntent(
     }
 
     // Call GPT-4o to detect intent
-    const completion = await getOpenAI().chat.completions.create({
+    const completion = await getOpenAI('ask_signalsloop').chat.completions.create({
       model: 'gpt-4o-mini',
       messages: [
         { role: 'system', content: ACTION_DETECTION_PROMPT },
@@ -101,7 +101,7 @@ export async function classifyQuery(query: string): Promise<ClassificationResult
     }
 
     // Call OpenAI with JSON mode for structured output
-    const completion = await getOpenAI().chat.completions.create({
+    const completion = await getOpenAI('ask_signalsloop').chat.completions.create({
       model: 'gpt-4o-mini',
       messages: [
         { role: 'system', content: CLASSIFICATION_SYSTEM_PROMPT },
@@ -363,13 +363,14 @@ export async function logDataExport(
 }
 
 /**
- * Log an API key usage event
+ * Log an API key usage event, optionally for the scope the call exercised
  */
 export async function logAPIKeyUsage(
   apiKeyId: string,
   projectId: string,
   endpoint: string,
-  request?: NextRequest
+  request?: NextRequest,
+  scope?: string
 ): Promise<void> {
   await logAuditEvent({
     eventType: AuditEventTypes.API_KEY_USED,
@@ -382,6 +383,7 @@ export async function logAPIKeyUsage(
     projectId,
     metadata: {
       endpoint,
+      scope: scope || null,
     },
     request,
   });
@@ -4,6 +4,7 @@
  */
 
 import OpenAI from 'openai';
+import { getOpenAI } from '@/lib/openai-client';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { format, subDays, startOfWeek, endOfWeek, startOfMonth, endOfMonth } from 'date-fns';
 
@@ -130,9 +131,7 @@ export class ExecutiveBriefService {
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+    this.openai = getOpenAI('executive_briefs');
   }
 
   /**
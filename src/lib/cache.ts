@@ -1,58 +1,225 @@
+/**
+ * Shared response cache with tag-based invalidation
+ *
+ * Entries live in Redis (the shared observability/redis-cache connection) when
+ * it is configured, otherwise in process memory. Each entry records the
+ * version of every tag it was cached under; invalidating a tag bumps its
+ * version, so every entry carrying that tag becomes a miss on its next read
+ * without having to enumerate keys.
+ */
+
+import { getRedisClient } from './observability/redis-cache';
+
+export interface CacheOptions {
+  tags?: string[];
+}
+
 interface CacheEntry<T> {
   data: T;
-  expiresAt: number;
+  tags: Record<string, number>;
 }
 
+const KEY_PREFIX = 'cache';
+const TAG_PREFIX = `${KEY_PREFIX}:tag`;
+
+/**
+ * Tag builders, so readers and writers agree on the tag format
+ */
+export const cacheTags = {
+  project: (projectId: string) => `project:${projectId}`,
+  projectSlug: (slug: string) => `project-slug:${slug}`,
+  board: (boardId: string) => `board:${boardId}`,
+  post: (postId: string) => `post:${postId}`,
+};
+
+// === Memory backend ===
+
 class SimpleCache {
-  private cache: Map<string, CacheEntry<any>> = new Map();
+  private cache: Map<string, { entry: CacheEntry<unknown>; expiresAt: number }> = new Map();
+  private tagVersions: Map<string, number> = new Map();
+  private operations = 0;
 
-  get<T>(key: string): T | null {
-    const entry = this.cache.get(key);
-    if (!entry) return null;
+  get<T>(key: string): CacheEntry<T> | null {
+    this.sweep();
+    const stored = this.cache.get(key);
+    if (!stored) return null;
 
-    if (Date.now() > entry.expiresAt) {
+    if (Date.now() > stored.expiresAt) {
       this.cache.delete(key);
       return null;
     }
 
-    return entry.data as T;
+    return stored.entry as CacheEntry<T>;
   }
 
-  set<T>(key: string, data: T, ttlSeconds: number): void {
+  set<T>(key: string, entry: CacheEntry<T>, ttlSeconds: number): void {
     this.cache.set(key, {
-      data,
+      entry,
       expiresAt: Date.now() + ttlSeconds * 1000,
     });
   }
 
+  getTagVersions(tags: string[]): number[] {
+    return tags.map((tag) => this.tagVersions.get(tag) ?? 0);
+  }
+
+  bumpTags(tags: string[]): void {
+    for (const tag of tags) {
+      this.tagVersions.set(tag, (this.tagVersions.get(tag) ?? 0) + 1);
+    }
+  }
+
   clear(): void {
     this.cache.clear();
+    this.tagVersions.clear();
+  }
+
+  // Drop expired entries every 500 reads instead of on a timer
+  private sweep(): void {
+    if (++this.operations % 500 !== 0) return;
+
+    const now = Date.now();
+    for (const [key, stored] of this.cache.entries()) {
+      if (now > stored.expiresAt) {
+        this.cache.delete(key);
+      }
+    }
+  }
+}
+
+const memoryCache = new SimpleCache();
+
+// === Redis backend ===
+
+async function redisGetTagVersions(tags: string[]): Promise<number[] | null> {
+  const redis = getRedisClient();
+  if (!redis) return null;
+  if (tags.length === 0) return [];
+
+  const values = await redis.mget<(number | string | null)[]>(
+    ...tags.map((tag) => `${TAG_PREFIX}:${tag}`)
+  );
+  return values.map((value) => Number(value ?? 0));
+}
+
+// === Shared logic ===
+
+async function getTagVersions(tags: string[]): Promise<number[]> {
+  try {
+    const versions = await redisGetTagVersions(tags);
+    if (versions) return versions;
+  } catch (error) {
+    console.error('Redis cache error, falling back to in-memory cache:', error);
   }
+  return memoryCache.getTagVersions(tags);
 }
 
-const cache = new SimpleCache();
+async function readEntry<T>(key: string): Promise<CacheEntry<T> | null> {
+  const redis = getRedisClient();
+  if (redis) {
+    try {
+      return await redis.get<CacheEntry<T>>(`${KEY_PREFIX}:${key}`);
+    } catch (error) {
+      console.error('Redis cache error, falling back to in-memory cache:', error);
+    }
+  }
+  return memoryCache.get<T>(key);
+}
 
-// Cleanup expired entries every 5 minutes
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, entry] of (cache as any).cache.entries()) {
-    if (now > entry.expiresAt) {
-      (cache as any).cache.delete(key);
+async function writeEntry<T>(key: string, entry: CacheEntry<T>, ttlSeconds: number): Promise<void> {
+  const redis = getRedisClient();
+  if (redis) {
+    try {
+      await redis.set(`${KEY_PREFIX}:${key}`, entry, { ex: ttlSeconds });
+      return;
+    } catch (error) {
+      console.error('Redis cache error, falling back to in-memory cache:', error);
     }
   }
-}, 5 * 60 * 1000);
+  memoryCache.set(key, entry, ttlSeconds);
+}
+
+async function isFresh(entry: CacheEntry<unknown>): Promise<boolean> {
+  const tags = Object.keys(entry.tags ?? {});
+  if (tags.length === 0) return true;
+
+  const versions = await getTagVersions(tags);
+  return tags.every((tag, i) => versions[i] === entry.tags[tag]);
+}
 
+/**
+ * Return the cached value for `key`, or compute and cache it
+ *
+ * @example
+ * const posts = await withCache(
+ *   `posts:${project.id}:open`,
+ *   () => fetchOpenPosts(project.id),
+ *   60,
+ *   { tags: [cacheTags.project(project.id)] }
+ * );
+ */
 export async function withCache<T>(
   key: string,
   fn: () => Promise<T>,
-  ttlSeconds: number = 60
+  ttlSeconds: number = 60,
+  options: CacheOptions = {}
 ): Promise<T> {
-  const cached = cache.get<T>(key);
-  if (cached !== null) {
-    return cached;
+  const cached = await readEntry<T>(key);
+  if (cached && (await isFresh(cached))) {
+    return cached.data;
   }
 
+  // Snapshot versions before computing, so an invalidation that lands while
+  // `fn` runs leaves the stored entry already stale
+  const tags = [...new Set(options.tags ?? [])];
+  const versions = await getTagVersions(tags);
+
   const data = await fn();
-  cache.set(key, data, ttlSeconds);
+  await writeEntry(
+    key,
+    { data, tags: Object.fromEntries(tags.map((tag, i) => [tag, versions[i]])) },
+    ttlSeconds
+  );
   return data;
 }
+
+/**
+ * Invalidate every cache entry carrying any of the given tags
+ *
+ * Never throws: a failed purge is logged and the entries age out by TTL.
+ */
+export async function invalidateCacheTags(tags: Array<string | null | undefined>): Promise<void> {
+  const unique = [...new Set(tags.filter((tag): tag is string => Boolean(tag)))];
+  if (unique.length === 0) return;
+
+  // Bump memory too, in case this instance fell back to it earlier
+  memoryCache.bumpTags(unique);
+
+  const redis = getRedisClient();
+  if (!redis) return;
+
+  try {
+    const pipeline = redis.pipeline();
+    for (const tag of unique) {
+      pipeline.incrby(`${TAG_PREFIX}:${tag}`, 1);
+    }
+    await pipeline.exec();
+  } catch (error) {
+    console.error('Failed to invalidate cache tags:', unique, error);
+  }
+}
+
+/**
+ * Tags affected by a change to a post
+ */
+export function postCacheTags(post: {
+  id?: string | null;
+  project_id?: string | null;
+  board_id?: string | null;
+}): string[] {
+  const tags: string[] = [];
+  if (post.id) tags.push(cacheTags.post(post.id));
+  if (post.project_id) tags.push(cacheTags.project(post.project_id));
+  if (post.board_id) tags.push(cacheTags.board(post.board_id));
+  return tags;
+}
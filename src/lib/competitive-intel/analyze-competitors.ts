@@ -110,7 +110,7 @@ export async function analyzeCompetitors(
   `;
 
   try {
-    const completion = await getOpenAI().chat.completions.create({
+    const completion = await getOpenAI('strategic_recommendations').chat.completions.create({
       model: "gpt-4o",
       messages: [{ role: "system", content: prompt }],
       response_format: { type: "json_object" }
@@ -17,7 +17,7 @@ export async function parsePastedText(text: string, productName?: string): Promi
     try {
         if (!text || text.trim().length < 10) return [];
 
-        const completion = await getOpenAI().chat.completions.create({
+        const completion = await getOpenAI('competitor_extraction').chat.completions.create({
             model: "gpt-4o",
             messages: [
                 {
@@ -7,6 +7,7 @@
 import { getOpenAI } from '@/lib/openai-client';
 import { getSupabaseServiceRoleClient } from '../supabase-client';
 import { withCache } from '../ai-cache-manager';
+import { AIBudgetExceededError } from '../ai/types';
 
 
 const MODELS = {
@@ -154,7 +155,7 @@ ${feedbackText}
 Extract ALL competitor mentions from this feedback.`;
 
   try {
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('competitor_extraction').chat.completions.create({
       model: MODELS.EXTRACTION,
       messages: [
         { role: 'system', content: COMPETITOR_EXTRACTION_PROMPT },
@@ -364,6 +365,7 @@ export async function extractCompetitorMentions(feedbackId: string): Promise<{
       competitorsDetected: [...new Set(competitorsDetected)], // Deduplicate
     };
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) throw error;
     console.error('[COMPETITOR_EXTRACTOR] Error processing feedback:', error);
     return {
       success: false,
@@ -397,6 +399,7 @@ export async function extractCompetitorMentionsBatch(feedbackIds: string[]): Pro
         failed++;
       }
     } catch (error) {
+      if (error instanceof AIBudgetExceededError) throw error;
       console.error(`[COMPETITOR_EXTRACTOR] Failed to process ${feedbackId}:`, error);
       failed++;
     }
@@ -236,7 +236,7 @@ Return as JSON:
   "use_cases": ["use case1", "use case2"]
 }`;
 
-    const completion = await getOpenAI().chat.completions.create({
+    const completion = await getOpenAI('external_review_scrape').chat.completions.create({
       model: 'gpt-4o-mini',
       messages: [
         {
@@ -444,7 +444,7 @@ Return as JSON array:
   }
 ]`;
 
-    const completion = await getOpenAI().chat.completions.create({
+    const completion = await getOpenAI('external_review_scrape').chat.completions.create({
       model: 'gpt-4',
       messages: [{ role: 'user', content: prompt }],
       response_format: { type: 'json_object' },
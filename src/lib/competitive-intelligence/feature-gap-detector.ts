@@ -6,6 +6,7 @@
 
 import { getOpenAI } from '@/lib/openai-client';
 import { getSupabaseServiceRoleClient } from '../supabase-client';
+import { AIBudgetExceededError } from '../ai/types';
 
 
 const MODELS = {
@@ -166,7 +167,7 @@ ${JSON.stringify(formattedMentions, null, 2)}
 
 Identify and prioritize feature gaps our product should address.`;
 
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('feature_gap_detection').chat.completions.create({
       model: MODELS.FEATURE_GAPS,
       messages: [
         { role: 'system', content: FEATURE_GAP_ANALYSIS_PROMPT },
@@ -239,6 +240,7 @@ Identify and prioritize feature gaps our product should address.`;
       gaps,
     };
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) throw error;
     console.error('[FEATURE_GAP_DETECTOR] Error detecting gaps:', error);
     return {
       success: false,
@@ -6,6 +6,7 @@
 
 import { getOpenAI } from '@/lib/openai-client';
 import { getSupabaseServiceRoleClient } from '../supabase-client';
+import { AIBudgetExceededError } from '../ai/types';
 
 
 const MODELS = {
@@ -256,7 +257,7 @@ ${JSON.stringify(intelligence.recent_mentions.slice(0, 30), null, 2)}
 
 Generate 3-7 prioritized strategic recommendations.`;
 
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('strategic_recommendations').chat.completions.create({
       model: MODELS.STRATEGIC,
       messages: [
         { role: 'system', content: STRATEGIC_ANALYSIS_PROMPT },
@@ -330,6 +331,7 @@ Generate 3-7 prioritized strategic recommendations.`;
       executiveSummary,
     };
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) throw error;
     console.error('[STRATEGIC_ANALYZER] Error generating recommendations:', error);
     return {
       success: false,
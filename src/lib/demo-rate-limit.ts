@@ -1,18 +1,13 @@
 /**
  * Demo Rate Limiting
- * Simple in-memory rate limiting for demo/unauthenticated users
+ * Rate limiting for demo/unauthenticated users, shared across instances
+ * via Redis (in-memory fallback when Redis is not configured)
  * Prevents abuse of AI features on public demo pages
  * 
- * Uses 24-hour windows to limit daily usage
+ * Uses 24-hour sliding windows to limit daily usage
  */
 
-interface RateLimitEntry {
-  count: number;
-  resetAt: number;
-}
-
-// In-memory storage for demo rate limits (resets on server restart)
-const demoLimits = new Map<string, RateLimitEntry>();
+import { slidingWindowLimit } from './rate-limit-store';
 
 // Rate limits for demo users (per IP per DAY)
 const DEMO_LIMITS = {
@@ -52,70 +47,63 @@ export function getClientIP(request: Request): string {
   return 'unknown';
 }
 
+function demoWindow(feature: DemoFeatureType) {
+  return [{ limit: DEMO_LIMITS[feature], windowMs: RATE_LIMIT_WINDOW_MS }];
+}
+
 /**
- * Check if demo user has exceeded rate limit
+ * Check if demo user has exceeded rate limit. Does not count the request;
+ * call incrementDemoUsage() once the work has been done.
  */
-export function checkDemoRateLimit(
+export async function checkDemoRateLimit(
   ip: string,
   feature: DemoFeatureType
-): { allowed: boolean; remaining: number; limit: number; resetAt: number } {
-  const now = Date.now();
-  const key = `${ip}:${feature}`;
-  const limit = DEMO_LIMITS[feature];
-
-  // Clean up expired entries
-  for (const [entryKey, entry] of demoLimits.entries()) {
-    if (entry.resetAt < now) {
-      demoLimits.delete(entryKey);
-    }
-  }
-
-  const entry = demoLimits.get(key);
-
-  // No entry or expired entry
-  if (!entry || entry.resetAt < now) {
-    const resetAt = now + RATE_LIMIT_WINDOW_MS;
-    demoLimits.set(key, { count: 0, resetAt });
-    return {
-      allowed: true,
-      remaining: limit - 1,
-      limit,
-      resetAt,
-    };
-  }
-
-  // Check if limit exceeded
-  if (entry.count >= limit) {
-    return {
-      allowed: false,
-      remaining: 0,
-      limit,
-      resetAt: entry.resetAt,
-    };
-  }
+): Promise<{ allowed: boolean; remaining: number; limit: number; resetAt: number }> {
+  const result = await slidingWindowLimit(`demo:${ip}:${feature}`, demoWindow(feature), {
+    mode: 'peek',
+  });
+  const state = result.windows[0];
 
   return {
-    allowed: true,
-    remaining: limit - entry.count - 1,
-    limit,
-    resetAt: entry.resetAt,
+    allowed: result.allowed,
+    remaining: result.allowed ? Math.max(state.remaining - 1, 0) : 0,
+    limit: state.limit,
+    resetAt: state.retryAfter
+      ? Date.now() + state.retryAfter * 1000
+      : state.reset * 1000,
   };
 }
 
 /**
  * Increment demo usage count
  */
-export function incrementDemoUsage(ip: string, feature: DemoFeatureType, count: number = 1): void {
-  const now = Date.now();
-  const key = `${ip}:${feature}`;
-  const entry = demoLimits.get(key);
-
-  if (!entry || entry.resetAt < now) {
-    const resetAt = now + RATE_LIMIT_WINDOW_MS;
-    demoLimits.set(key, { count, resetAt });
-  } else {
-    entry.count += count;
-  }
+export async function incrementDemoUsage(
+  ip: string,
+  feature: DemoFeatureType,
+  count: number = 1
+): Promise<void> {
+  await slidingWindowLimit(`demo:${ip}:${feature}`, demoWindow(feature), {
+    mode: 'record',
+    cost: count,
+  });
+}
+
+/**
+ * Standard RateLimit-* headers for a demo limit check
+ */
+export function getDemoRateLimitHeaders(check: {
+  remaining: number;
+  limit: number;
+  resetAt: number;
+}): Record<string, string> {
+  const resetIn = Math.max(0, Math.ceil((check.resetAt - Date.now()) / 1000));
+  return {
+    'RateLimit-Limit': check.limit.toString(),
+    'RateLimit-Remaining': check.remaining.toString(),
+    'RateLimit-Reset': resetIn.toString(),
+    'RateLimit-Policy': `${check.limit};w=${RATE_LIMIT_WINDOW_MS / 1000}`,
+    'Retry-After': resetIn.toString(),
+  };
 }
 
 /**
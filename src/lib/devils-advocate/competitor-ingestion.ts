@@ -188,7 +188,7 @@ export async function createCompetitorEvent(
  */
 export async function generateEmbedding(text: string): Promise<number[]> {
   try {
-    const response = await getOpenAI().embeddings.create({
+    const response = await getOpenAI('devils_advocate').embeddings.create({
       model: 'text-embedding-3-small',
       input: text,
       encoding_format: 'float',
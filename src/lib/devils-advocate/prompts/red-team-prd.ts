@@ -98,7 +98,7 @@ export async function analyzePRDWithRedTeam(
   feedbackData: any
 ): Promise<PRDRiskAlertInput[]> {
   try {
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('devils_advocate').chat.completions.create({
       model: 'gpt-4o',
       messages: [
         { role: 'system', content: RED_TEAM_SYSTEM_PROMPT },
@@ -58,7 +58,7 @@ export async function summarizeCompetitorEvent(
   rawContent: string
 ): Promise<z.infer<typeof CompetitorEventSchema>> {
   try {
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('devils_advocate').chat.completions.create({
       model: 'gpt-4o',
       messages: [
         { role: 'system', content: SUMMARIZATION_SYSTEM_PROMPT },
@@ -144,7 +144,7 @@ Description: ${description}
 ${additionalContext?.authorEmail ? `From: ${additionalContext.authorEmail}` : ''}`;
 
   try {
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('categorization').chat.completions.create({
       model: MODELS.CATEGORIZATION,
       messages: [
         { role: 'system', content: systemPrompt },
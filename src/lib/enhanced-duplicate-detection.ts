@@ -5,6 +5,7 @@
 
 import { withCache } from './ai-cache-manager';
 import { getOpenAI } from './openai-client';
+import { AIBudgetExceededError } from './ai/types';
 
 const MODELS = {
   DUPLICATE_DETECTION: process.env.DUPLICATE_MODEL || 'gpt-4o-mini',
@@ -58,13 +59,14 @@ const THRESHOLDS = {
  */
 async function generateEmbedding(text: string): Promise<number[]> {
   try {
-    const response = await getOpenAI().embeddings.create({
+    const response = await getOpenAI('duplicate_detection').embeddings.create({
       model: MODELS.DUPLICATE_EMBEDDING,
       input: text.slice(0, 8000), // Limit input size
     });
 
     return response.data[0].embedding;
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) throw error;
     console.error('Embedding generation error:', error);
     return [];
   }
@@ -141,7 +143,7 @@ Return JSON with this structure:
 }`;
 
   try {
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('duplicate_detection').chat.completions.create({
       model: MODELS.DUPLICATE_DETECTION,
       messages: [
         { role: 'system', content: systemPrompt },
@@ -161,6 +163,7 @@ Return JSON with this structure:
     return analysis;
 
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) throw error;
     console.error('Semantic analysis error:', error);
     return getFallbackDuplicateAnalysis(post1, post2, similarityScore);
   }
@@ -338,7 +341,7 @@ async function extractClusterTheme(posts: DuplicateCandidate[]): Promise<string>
   const titles = posts.map(p => p.title).join(', ');
 
   try {
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('duplicate_detection').chat.completions.create({
       model: MODELS.DUPLICATE_DETECTION,
       messages: [
         {
@@ -11,6 +11,7 @@
 
 import { withCache } from './ai-cache-manager';
 import { getOpenAI } from './openai-client';
+import { AIBudgetExceededError } from './ai/types';
 
 const MODELS = {
   PRIORITY_SCORING: process.env.PRIORITY_MODEL || 'gpt-4o-mini',
@@ -282,7 +283,7 @@ Provide JSON:
 }`;
 
   try {
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('priority_scoring').chat.completions.create({
       model: MODELS.PRIORITY_SCORING,
       messages: [
         { role: 'system', content: systemPrompt },
@@ -405,6 +406,7 @@ Provide JSON:
       relatedPosts: aiResponse.relatedPosts || []
     };
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) throw error;
     console.error('[PRIORITY SCORING] Error:', error);
     return getFallbackPriorityScore(context);
   }
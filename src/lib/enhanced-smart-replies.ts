@@ -129,7 +129,7 @@ Description: ${description || 'No description provided'}
 The questions should help us understand the impact, urgency, and implementation requirements.`;
 
   try {
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('auto_response').chat.completions.create({
       model: MODELS.SMART_REPLIES,
       messages: [
         { role: 'system', content: systemPrompt },
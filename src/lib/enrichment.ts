@@ -412,7 +412,7 @@ Return JSON:
 IMPORTANT: Return ONLY valid JSON. Err on the side of NULL values rather than guessing!`;
 
   try {
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('enrichment').chat.completions.create({
       model: 'gpt-4o-mini',
       messages: [
         {
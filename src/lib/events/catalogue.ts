@@ -0,0 +1,512 @@
+/**
+ * Event Catalogue - Documented payload schemas for every domain event
+ *
+ * Single source of truth for what each EventType carries. Used to publish
+ * domain events as webhooks and to generate the webhook section of the
+ * OpenAPI spec. When a payload changes shape, bump `version` and describe
+ * the new shape; receivers see the version in every webhook envelope.
+ */
+
+import type { OpenAPISchema } from '@/lib/openapi/schema';
+import { AggregateType, EventType } from './types';
+
+export interface EventDefinition {
+  type: EventType;
+  aggregateType: AggregateType;
+  domain: string;
+  summary: string;
+  version: number;                // Current payload schema version
+  payload: OpenAPISchema;
+}
+
+// === Schema helpers ===
+
+const str = (description: string): OpenAPISchema => ({ type: 'string', description });
+const num = (description: string): OpenAPISchema => ({ type: 'number', description });
+const int = (description: string): OpenAPISchema => ({ type: 'integer', description });
+const bool = (description: string): OpenAPISchema => ({ type: 'boolean', description });
+const uuid = (description: string): OpenAPISchema => ({ type: 'string', format: 'uuid', description });
+const stringArray = (description: string): OpenAPISchema => ({
+  type: 'array',
+  items: { type: 'string' },
+  description,
+});
+const freeform = (description: string): OpenAPISchema => ({
+  type: 'object',
+  description,
+  additionalProperties: true,
+});
+
+function object(
+  properties: Record<string, OpenAPISchema>,
+  required: string[] = []
+): OpenAPISchema {
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+    additionalProperties: true,
+  };
+}
+
+const sentimentCategory: OpenAPISchema = {
+  type: 'string',
+  enum: ['positive', 'negative', 'neutral', 'mixed'],
+  description: 'Sentiment category',
+};
+
+// === Catalogue ===
+
+export const EVENT_CATALOGUE: Record<EventType, EventDefinition> = {
+  // Feedback Domain
+  [EventType.FEEDBACK_CREATED]: {
+    type: EventType.FEEDBACK_CREATED,
+    aggregateType: AggregateType.POST,
+    domain: 'Feedback',
+    summary: 'A new feedback post was submitted',
+    version: 1,
+    payload: object(
+      {
+        title: str('Post title'),
+        content: str('Post body'),
+        category: str('Post category'),
+        vote_count: int('Votes at creation time'),
+        status: str('Post status'),
+      },
+      ['title']
+    ),
+  },
+  [EventType.FEEDBACK_UPDATED]: {
+    type: EventType.FEEDBACK_UPDATED,
+    aggregateType: AggregateType.POST,
+    domain: 'Feedback',
+    summary: 'A feedback post was edited or changed status',
+    version: 1,
+    payload: object({
+      title: str('Post title'),
+      content: str('Post body'),
+      category: str('Post category'),
+      status: str('Post status'),
+      changes: object({
+        title_changed: bool('Title was edited'),
+        content_changed: bool('Body was edited'),
+        category_changed: bool('Category was changed'),
+        status_changed: bool('Status was changed'),
+      }),
+    }),
+  },
+  [EventType.FEEDBACK_VOTED]: {
+    type: EventType.FEEDBACK_VOTED,
+    aggregateType: AggregateType.POST,
+    domain: 'Feedback',
+    summary: "A feedback post's vote count changed",
+    version: 1,
+    payload: object(
+      {
+        vote_count: int('Current vote count'),
+        previous_vote_count: int('Vote count before the change'),
+        vote_delta: int('Change in votes'),
+      },
+      ['vote_count']
+    ),
+  },
+  [EventType.FEEDBACK_COMMENTED]: {
+    type: EventType.FEEDBACK_COMMENTED,
+    aggregateType: AggregateType.POST,
+    domain: 'Feedback',
+    summary: 'A comment was added to a feedback post',
+    version: 1,
+    payload: object({
+      comment_id: uuid('Comment ID'),
+      content: str('Comment body'),
+      author_name: str('Comment author'),
+    }),
+  },
+  [EventType.FEEDBACK_DELETED]: {
+    type: EventType.FEEDBACK_DELETED,
+    aggregateType: AggregateType.POST,
+    domain: 'Feedback',
+    summary: 'A feedback post was deleted',
+    version: 1,
+    payload: object({
+      title: str('Title of the deleted post'),
+      category: str('Category of the deleted post'),
+      vote_count: int('Votes at deletion time'),
+    }),
+  },
+
+  // AI Analysis Domain
+  [EventType.SENTIMENT_ANALYZED]: {
+    type: EventType.SENTIMENT_ANALYZED,
+    aggregateType: AggregateType.SENTIMENT,
+    domain: 'AI Analysis',
+    summary: 'Sentiment analysis completed for a feedback post',
+    version: 1,
+    payload: object(
+      {
+        post_id: uuid('Analyzed post'),
+        post_title: str('Analyzed post title'),
+        sentiment_score: num('Score from -1 (negative) to 1 (positive)'),
+        sentiment_category: sentimentCategory,
+        key_themes: stringArray('Themes detected in the post'),
+        emotional_intensity: num('Emotional intensity from 0 to 1'),
+      },
+      ['post_id', 'sentiment_score', 'sentiment_category']
+    ),
+  },
+  [EventType.THEME_DETECTED]: {
+    type: EventType.THEME_DETECTED,
+    aggregateType: AggregateType.THEME,
+    domain: 'AI Analysis',
+    summary: 'A new feedback theme was detected',
+    version: 1,
+    payload: object(
+      {
+        theme_name: str('Theme name'),
+        description: str('Theme description'),
+        frequency: int('Number of feedback items in the theme'),
+        avg_sentiment: num('Average sentiment of the theme'),
+        is_emerging: bool('Theme is growing quickly'),
+      },
+      ['theme_name']
+    ),
+  },
+  [EventType.THEME_UPDATED]: {
+    type: EventType.THEME_UPDATED,
+    aggregateType: AggregateType.THEME,
+    domain: 'AI Analysis',
+    summary: "A theme's frequency, sentiment or emerging status changed",
+    version: 1,
+    payload: object({
+      theme_name: str('Theme name'),
+      frequency: int('Number of feedback items in the theme'),
+      avg_sentiment: num('Average sentiment of the theme'),
+      is_emerging: bool('Theme is growing quickly'),
+      changes: object({
+        frequency_delta: int('Change in frequency'),
+        sentiment_delta: num('Change in average sentiment'),
+        emerging_status_changed: bool('Emerging flag flipped'),
+      }),
+    }),
+  },
+  [EventType.THEME_THRESHOLD_REACHED]: {
+    type: EventType.THEME_THRESHOLD_REACHED,
+    aggregateType: AggregateType.THEME,
+    domain: 'AI Analysis',
+    summary: 'A theme crossed the demand threshold for auto-drafting a spec',
+    version: 1,
+    payload: object(
+      {
+        theme_name: str('Theme name'),
+        description: str('Theme description'),
+        frequency: int('Number of feedback items in the theme'),
+        threshold: int('Threshold that was crossed'),
+        avg_sentiment: num('Average sentiment of the theme'),
+        is_emerging: bool('Theme is growing quickly'),
+      },
+      ['theme_name', 'frequency']
+    ),
+  },
+  [EventType.DUPLICATE_FOUND]: {
+    type: EventType.DUPLICATE_FOUND,
+    aggregateType: AggregateType.POST,
+    domain: 'AI Analysis',
+    summary: 'A feedback post was identified as a likely duplicate',
+    version: 1,
+    payload: object({
+      post_id: uuid('Post that was checked'),
+      duplicate_of: uuid('Existing post it duplicates'),
+      similarity: num('Similarity score from 0 to 1'),
+    }),
+  },
+  [EventType.PRIORITY_CALCULATED]: {
+    type: EventType.PRIORITY_CALCULATED,
+    aggregateType: AggregateType.POST,
+    domain: 'AI Analysis',
+    summary: 'An AI priority score was calculated for a feedback post',
+    version: 1,
+    payload: object({
+      post_id: uuid('Scored post'),
+      priority_score: num('Priority score'),
+      priority_level: str('Priority bucket, e.g. high or low'),
+      reasoning: str('Why the score was given'),
+    }),
+  },
+
+  // Spec Domain
+  [EventType.SPEC_AUTO_DRAFTED]: {
+    type: EventType.SPEC_AUTO_DRAFTED,
+    aggregateType: AggregateType.SPEC,
+    domain: 'Specs',
+    summary: 'A spec was drafted automatically from a feedback theme',
+    version: 1,
+    payload: object(
+      {
+        title: str('Spec title'),
+        input_idea: str('Idea the spec was generated from'),
+        status: str('Spec status'),
+        linked_feedback_count: int('Number of linked feedback posts'),
+        linked_feedback_ids: stringArray('Linked feedback post IDs'),
+        generation_model: str('Model that drafted the spec'),
+        generation_tokens: int('Tokens used to draft the spec'),
+      },
+      ['title']
+    ),
+  },
+  [EventType.SPEC_APPROVED]: {
+    type: EventType.SPEC_APPROVED,
+    aggregateType: AggregateType.SPEC,
+    domain: 'Specs',
+    summary: 'A spec was approved',
+    version: 1,
+    payload: object({
+      title: str('Spec title'),
+      auto_generated: bool('Spec was drafted automatically'),
+      linked_feedback_count: int('Number of linked feedback posts'),
+      linked_feedback_ids: stringArray('Linked feedback post IDs'),
+    }),
+  },
+  [EventType.SPEC_REJECTED]: {
+    type: EventType.SPEC_REJECTED,
+    aggregateType: AggregateType.SPEC,
+    domain: 'Specs',
+    summary: 'A spec was rejected',
+    version: 1,
+    payload: object({
+      title: str('Spec title'),
+      auto_generated: bool('Spec was drafted automatically'),
+      previous_status: str('Status before rejection'),
+    }),
+  },
+  [EventType.SPEC_LINKED]: {
+    type: EventType.SPEC_LINKED,
+    aggregateType: AggregateType.SPEC,
+    domain: 'Specs',
+    summary: 'Feedback posts were linked to a spec',
+    version: 1,
+    payload: object({
+      title: str('Spec title'),
+      linked_feedback_count: int('Number of linked feedback posts'),
+      linked_feedback_ids: stringArray('Linked feedback post IDs'),
+      previous_count: int('Linked posts before the change'),
+    }),
+  },
+  [EventType.SPEC_UPDATED]: {
+    type: EventType.SPEC_UPDATED,
+    aggregateType: AggregateType.SPEC,
+    domain: 'Specs',
+    summary: 'A spec was edited',
+    version: 1,
+    payload: object({
+      title: str('Spec title'),
+      status: str('Spec status'),
+      auto_generated: bool('Spec was drafted automatically'),
+      changes: object({
+        title_changed: bool('Title was edited'),
+        content_changed: bool('Body was edited'),
+      }),
+    }),
+  },
+
+  // Competitive Domain
+  [EventType.COMPETITOR_MENTIONED]: {
+    type: EventType.COMPETITOR_MENTIONED,
+    aggregateType: AggregateType.COMPETITOR,
+    domain: 'Competitive',
+    summary: 'A competitor was mentioned in feedback',
+    version: 1,
+    payload: object(
+      {
+        competitor_name: str('Competitor name'),
+        post_id: uuid('Feedback post that mentioned the competitor'),
+        features: stringArray('Competitor features mentioned'),
+        sentiment: str('Sentiment towards the competitor'),
+        context: str('Excerpt around the mention'),
+      },
+      ['competitor_name']
+    ),
+  },
+  [EventType.COMPETITOR_FEATURE_DETECTED]: {
+    type: EventType.COMPETITOR_FEATURE_DETECTED,
+    aggregateType: AggregateType.COMPETITOR,
+    domain: 'Competitive',
+    summary: 'A feature was detected in a competing product',
+    version: 1,
+    payload: object({
+      competitor_name: str('Competitor name'),
+      feature_name: str('Detected feature'),
+      description: str('Feature description'),
+      source_url: str('Where the feature was detected'),
+    }),
+  },
+  [EventType.COMPETITIVE_THREAT_IDENTIFIED]: {
+    type: EventType.COMPETITIVE_THREAT_IDENTIFIED,
+    aggregateType: AggregateType.COMPETITOR,
+    domain: 'Competitive',
+    summary: 'A competitive threat was identified',
+    version: 1,
+    payload: object({
+      competitor_name: str('Competitor name'),
+      threat_level: str('Threat severity, e.g. high or critical'),
+      reason: str('Why this is a threat'),
+      related_post_ids: stringArray('Feedback posts supporting the assessment'),
+    }),
+  },
+
+  // Notification Domain
+  [EventType.NOTIFICATION_SENT]: {
+    type: EventType.NOTIFICATION_SENT,
+    aggregateType: AggregateType.PROJECT,
+    domain: 'Notifications',
+    summary: 'A notification was sent to project stakeholders',
+    version: 1,
+    payload: object({
+      channel: str('Delivery channel, e.g. email or slack'),
+      recipient: str('Recipient identifier'),
+      subject: str('Notification subject'),
+      trigger_event: str('Event that caused the notification'),
+    }),
+  },
+
+  // User Engagement Domain
+  [EventType.USER_ENGAGED]: {
+    type: EventType.USER_ENGAGED,
+    aggregateType: AggregateType.USER,
+    domain: 'User Engagement',
+    summary: 'A user was identified as a power user',
+    version: 1,
+    payload: object(
+      {
+        engagement_level: str('Engagement level, e.g. power_user'),
+        feedback_count: int('Feedback submitted by the user'),
+        vote_count: int('Votes cast by the user'),
+        days_active: int('Days the user has been active'),
+      },
+      ['engagement_level']
+    ),
+  },
+  [EventType.USER_AT_RISK]: {
+    type: EventType.USER_AT_RISK,
+    aggregateType: AggregateType.USER,
+    domain: 'User Engagement',
+    summary: 'A user was flagged as at risk of churning',
+    version: 1,
+    payload: object(
+      {
+        risk_level: str('Risk level, e.g. high'),
+        negative_feedback_ratio: num('Share of negative feedback from 0 to 1'),
+        recent_negative_count: int('Recent negative feedback count'),
+        reason: str('Why the user was flagged'),
+      },
+      ['risk_level']
+    ),
+  },
+
+  // Roadmap Domain
+  [EventType.ROADMAP_UPDATED]: {
+    type: EventType.ROADMAP_UPDATED,
+    aggregateType: AggregateType.ROADMAP,
+    domain: 'Roadmap',
+    summary: 'A roadmap item was added, moved or reprioritized',
+    version: 1,
+    payload: object({
+      item_id: uuid('Roadmap item'),
+      title: str('Roadmap item title'),
+      previous_priority: str('Priority before the change'),
+      new_priority: str('Priority after the change'),
+      reason: str('Why the item changed'),
+    }),
+  },
+  [EventType.ROADMAP_STALLED]: {
+    type: EventType.ROADMAP_STALLED,
+    aggregateType: AggregateType.ROADMAP,
+    domain: 'Roadmap',
+    summary: 'A roadmap item has not progressed for too long',
+    version: 1,
+    payload: object({
+      item_id: uuid('Roadmap item'),
+      title: str('Roadmap item title'),
+      status: str('Current status'),
+      days_stalled: int('Days without progress'),
+    }),
+  },
+
+  // Feature Impact Domain
+  [EventType.FEATURE_LAUNCHED]: {
+    type: EventType.FEATURE_LAUNCHED,
+    aggregateType: AggregateType.FEATURE_IMPACT,
+    domain: 'Feature Impact',
+    summary: 'A feature shipped',
+    version: 1,
+    payload: object(
+      {
+        feature_name: str('Feature name'),
+        feature_category: str('Feature category'),
+        suggestion_id: uuid('Feedback post the feature came from'),
+        effort_estimate: str('Estimated effort'),
+        actual_effort_days: num('Actual effort in days'),
+        pre_metrics: freeform('Product metrics captured before launch'),
+      },
+      ['feature_name']
+    ),
+  },
+  [EventType.FEATURE_METRICS_COLLECTED]: {
+    type: EventType.FEATURE_METRICS_COLLECTED,
+    aggregateType: AggregateType.FEATURE_IMPACT,
+    domain: 'Feature Impact',
+    summary: 'Post-launch metrics were collected for a feature',
+    version: 1,
+    payload: object(
+      {
+        feature_name: str('Feature name'),
+        post_metrics: freeform('Product metrics captured after launch'),
+        adoption_rate: num('Share of users who adopted the feature'),
+        days_since_launch: int('Days between launch and collection'),
+      },
+      ['feature_name']
+    ),
+  },
+  [EventType.FEATURE_RETROSPECTIVE_RECORDED]: {
+    type: EventType.FEATURE_RETROSPECTIVE_RECORDED,
+    aggregateType: AggregateType.FEATURE_IMPACT,
+    domain: 'Feature Impact',
+    summary: 'A launch retrospective was recorded for a feature',
+    version: 1,
+    payload: object(
+      {
+        feature_name: str('Feature name'),
+        success_rating: int('Success rating from 1 to 5'),
+        lessons_learned: str('Lessons learned'),
+        revenue_impact_estimate: num('Estimated revenue impact'),
+      },
+      ['feature_name']
+    ),
+  },
+};
+
+/**
+ * Look up the definition for an event type
+ */
+export function getEventDefinition(eventType: string): EventDefinition | undefined {
+  return EVENT_CATALOGUE[eventType as EventType];
+}
+
+/**
+ * Whether a string is a known domain event type
+ */
+export function isDomainEventType(eventType: string): eventType is EventType {
+  return eventType in EVENT_CATALOGUE;
+}
+
+/**
+ * OpenAPI component name for an event's payload, e.g.
+ * 'feature.launched' v1 → 'FeatureLaunchedPayloadV1'
+ */
+export function getEventPayloadSchemaName(eventType: EventType, version?: number): string {
+  const definition = EVENT_CATALOGUE[eventType];
+  const pascal = eventType
+    .split(/[._]/)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+  return `${pascal}PayloadV${version ?? definition.version}`;
+}
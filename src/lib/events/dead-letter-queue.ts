@@ -14,6 +14,7 @@ export interface DeadLetterQueueEntry {
   event_type: string;
   aggregate_type: string;
   aggregate_id: string;
+  handler_name?: string | null;   // Handler that failed, when processed per handler
   payload: Record<string, any>;
   metadata: Record<string, any>;
   error_message: string;
@@ -24,12 +25,18 @@ export interface DeadLetterQueueEntry {
   last_retry_at?: Date;
 }
 
+export interface DeadLetterOptions {
+  handlerName?: string;           // Only this handler failed; the others succeeded
+  attempts?: number;              // Attempts made before giving up
+}
+
 /**
  * Send a failed event to the dead letter queue
  */
 export async function sendToDeadLetterQueue(
   event: DomainEvent,
-  error: Error
+  error: Error,
+  options: DeadLetterOptions = {}
 ): Promise<void> {
   const supabase = getServiceRoleClient();
 
@@ -41,10 +48,12 @@ export async function sendToDeadLetterQueue(
         event_type: event.type,
         aggregate_type: event.aggregate_type,
         aggregate_id: event.aggregate_id,
+        handler_name: options.handlerName || null,
         payload: event.payload,
         metadata: event.metadata,
         error_message: error.message,
         error_stack: error.stack,
+        retry_count: options.attempts || 0,
         status: 'pending',
       });
 
@@ -54,7 +63,8 @@ export async function sendToDeadLetterQueue(
       console.error('[DLQ Fallback] Event:', JSON.stringify(event));
       console.error('[DLQ Fallback] Error:', error);
     } else {
-      console.log(`[DLQ] Event sent to dead letter queue: ${event.type} (${event.aggregate_id})`);
+      const handler = options.handlerName ? ` for ${options.handlerName}` : '';
+      console.log(`[DLQ] Event sent to dead letter queue${handler}: ${event.type} (${event.aggregate_id})`);
     }
   } catch (dlqError) {
     console.error('[DLQ] Critical error writing to dead letter queue:', dlqError);
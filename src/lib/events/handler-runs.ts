@@ -0,0 +1,224 @@
+/**
+ * Handler Runs - Per-handler checkpoints for event processing
+ *
+ * Every (event, handler) pair has its own row in event_handler_runs, so a
+ * retry only re-runs the handlers that failed: the ones that already
+ * succeeded are not called again. Each handler gets an idempotency key in
+ * `metadata.idempotency_key` that stays the same across retries, and a
+ * handler that keeps failing goes to the dead letter queue on its own.
+ */
+
+import { getServiceRoleClient } from '@/lib/supabase-singleton';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
+import { sendToDeadLetterQueue } from './dead-letter-queue';
+import { eventForHandler } from './schema-registry';
+import { DomainEvent, EventHandler } from './types';
+
+export type HandlerRunStatus = 'succeeded' | 'failed' | 'dead_lettered' | 'skipped';
+
+export interface HandlerCheckpoint {
+  event_id: string;
+  handler_name: string;
+  idempotency_key: string;
+  status: HandlerRunStatus;
+  attempts: number;
+  last_error?: string | null;
+  completed_at?: string | null;
+  updated_at?: string;
+}
+
+export interface HandlerRunResult {
+  handlerName: string;
+  status: HandlerRunStatus;
+  attempts: number;
+  error?: string;
+  alreadyDone?: boolean;          // Finished in an earlier run, not called again
+}
+
+export interface EventHandlersOutcome {
+  complete: boolean;              // No handler is left to retry
+  results: HandlerRunResult[];
+}
+
+// Handlers in these states are never run again for the same event
+const FINISHED: HandlerRunStatus[] = ['succeeded', 'dead_lettered', 'skipped'];
+
+/**
+ * Give a handler a stable name. Checkpoints are keyed by name, so use one
+ * for anonymous handlers and for handlers whose function name is shared
+ * with another handler of the same event.
+ */
+export function namedHandler(name: string, handler: EventHandler): EventHandler {
+  const wrapped: EventHandler = (event) => handler(event);
+  wrapped.handledVersions = handler.handledVersions;
+  wrapped.handlerName = name;
+  return wrapped;
+}
+
+/**
+ * Names of an event's handlers in registry order, unique within the event
+ */
+export function getHandlerNames(handlers: EventHandler[]): string[] {
+  const seen = new Map<string, number>();
+
+  return handlers.map((handler, index) => {
+    const base = handler.handlerName || handler.name || `handler_${index + 1}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base}#${count}`;
+  });
+}
+
+/**
+ * Idempotency key of a handler for an event, the same on every attempt
+ */
+export function handlerIdempotencyKey(eventId: string, handlerName: string): string {
+  return `${eventId}:${handlerName}`;
+}
+
+/**
+ * Claim a handler's one-off side effect, such as a Slack alert, before
+ * performing it. Returns false when an earlier attempt with the same
+ * idempotency key already claimed it. Events handled outside the event
+ * processor have no key and always claim.
+ */
+export async function claimHandlerEffect(event: DomainEvent): Promise<boolean> {
+  const idempotencyKey = event.metadata.idempotency_key as string | undefined;
+  if (!idempotencyKey) return true;
+
+  const supabase = getServiceRoleClient();
+  if (!supabase) throw new Error('Database unavailable');
+
+  const { data, error } = await supabase
+    .from('event_handler_effects')
+    .upsert({ idempotency_key: idempotencyKey }, { onConflict: 'idempotency_key', ignoreDuplicates: true })
+    .select('idempotency_key');
+
+  if (error) {
+    throw new Error(`Failed to claim ${idempotencyKey}: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+async function loadCheckpoints(eventId: string): Promise<Map<string, HandlerCheckpoint>> {
+  const supabase = getServiceRoleClient();
+  if (!supabase) throw new Error('Database unavailable');
+
+  const { data, error } = await supabase
+    .from('event_handler_runs')
+    .select('*')
+    .eq('event_id', eventId);
+
+  if (error) {
+    throw new Error(`Failed to load handler checkpoints: ${error.message}`);
+  }
+
+  return new Map((data as HandlerCheckpoint[] || []).map(row => [row.handler_name, row]));
+}
+
+async function saveCheckpoint(checkpoint: HandlerCheckpoint): Promise<void> {
+  const supabase = getServiceRoleClient();
+  if (!supabase) throw new Error('Database unavailable');
+
+  const { error } = await supabase
+    .from('event_handler_runs')
+    .upsert(
+      { ...checkpoint, updated_at: new Date().toISOString() },
+      { onConflict: 'event_id,handler_name' }
+    );
+
+  if (error) {
+    // The handler already ran; without the checkpoint it would run again
+    console.error(`[HANDLER RUNS] Failed to checkpoint ${checkpoint.idempotency_key}:`, error);
+    throw new Error(`Failed to save handler checkpoint: ${error.message}`);
+  }
+}
+
+/**
+ * Run an event's handlers, skipping the ones that finished on an earlier
+ * attempt. A handler that fails for the `maxAttempts`th time is sent to the
+ * dead letter queue with its error and attempt count and is not retried.
+ */
+export async function runEventHandlers(
+  event: DomainEvent,
+  handlers: EventHandler[],
+  maxAttempts: number
+): Promise<EventHandlersOutcome> {
+  if (!event.id) {
+    throw new Error('Only stored events (with an id) can be checkpointed');
+  }
+
+  const eventId = event.id;
+  const names = getHandlerNames(handlers);
+  const checkpoints = await loadCheckpoints(eventId);
+
+  const results = await Promise.all(
+    handlers.map(async (handler, index): Promise<HandlerRunResult> => {
+      const handlerName = names[index];
+      const previous = checkpoints.get(handlerName);
+
+      if (previous && FINISHED.includes(previous.status)) {
+        return {
+          handlerName,
+          status: previous.status,
+          attempts: previous.attempts,
+          ...(previous.last_error ? { error: previous.last_error } : {}),
+          alreadyDone: true,
+        };
+      }
+
+      const idempotencyKey = handlerIdempotencyKey(eventId, handlerName);
+      const attempts = (previous?.attempts || 0) + 1;
+      const checkpoint: HandlerCheckpoint = {
+        event_id: eventId,
+        handler_name: handlerName,
+        idempotency_key: idempotencyKey,
+        status: 'succeeded',
+        attempts,
+        last_error: null,
+        completed_at: new Date().toISOString(),
+      };
+
+      try {
+        // Each handler sees the event at a version it understands
+        const handlerEvent = eventForHandler(event, handler);
+        if (!handlerEvent) {
+          console.warn(`[HANDLER RUNS] ${handlerName} does not handle ${event.type} v${event.version}, skipping`);
+          checkpoint.status = 'skipped';
+        } else {
+          // AI calls the agent makes are charged to the event's project
+          await withAICostContext({ projectId: event.metadata.project_id }, () => handler({
+            ...handlerEvent,
+            metadata: { ...handlerEvent.metadata, idempotency_key: idempotencyKey },
+          }));
+        }
+      } catch (error) {
+        const failure = error instanceof Error ? error : new Error(String(error));
+        console.error(`[HANDLER RUNS] ${handlerName} failed for ${event.type} (attempt ${attempts}/${maxAttempts}):`, failure);
+
+        checkpoint.status = attempts >= maxAttempts ? 'dead_lettered' : 'failed';
+        checkpoint.last_error = failure.message;
+        checkpoint.completed_at = null;
+
+        if (checkpoint.status === 'dead_lettered') {
+          await sendToDeadLetterQueue(event, failure, { handlerName, attempts });
+        }
+      }
+
+      await saveCheckpoint(checkpoint);
+
+      return {
+        handlerName,
+        status: checkpoint.status,
+        attempts,
+        ...(checkpoint.last_error ? { error: checkpoint.last_error } : {}),
+      };
+    })
+  );
+
+  return {
+    complete: results.every(result => FINISHED.includes(result.status)),
+    results,
+  };
+}
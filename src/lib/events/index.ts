@@ -6,8 +6,31 @@
 // Types
 export * from './types';
 
+// Payload schemas
+export { EVENT_CATALOGUE, getEventDefinition, isDomainEventType } from './catalogue';
+export type { EventDefinition } from './catalogue';
+
+// Schema registry
+export {
+  EventValidationError,
+  registerEventSchemaVersion,
+  getCurrentEventVersion,
+  getEventVersions,
+  getEventSchema,
+  validateEvent,
+  upcastEvent,
+  handlesVersions,
+  eventForHandler,
+} from './schema-registry';
+export type { EventSchemaVersion, EventValidationResult } from './schema-registry';
+
 // Publisher
 export { publishEvent, publishEvents, createCorrelationId } from './publisher';
+export type { PublishOptions, InvalidEventPolicy } from './publisher';
+
+// Per-handler processing checkpoints
+export { namedHandler, getHandlerNames, handlerIdempotencyKey, claimHandlerEffect, runEventHandlers } from './handler-runs';
+export type { HandlerCheckpoint, HandlerRunResult, HandlerRunStatus, EventHandlersOutcome } from './handler-runs';
 
 // Subscriber
 export { subscribeToEvent, subscribeToEvents, pollForEvents } from './subscriber';
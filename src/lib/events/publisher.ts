@@ -4,13 +4,86 @@
  */
 
 import { getServiceRoleClient } from '@/lib/supabase-singleton';
+import { EventValidationError, validateEvent } from './schema-registry';
 import { DomainEvent, EventMetadata } from './types';
 
+/**
+ * What to do with an event that does not match its registered schema:
+ * - reject: throw an EventValidationError
+ * - quarantine: store it in event_quarantine for review instead of the
+ *   event store, so no agent sees it
+ */
+export type InvalidEventPolicy = 'reject' | 'quarantine';
+
+export interface PublishOptions {
+  onInvalid?: InvalidEventPolicy;  // Defaults to EVENT_VALIDATION_MODE, then 'quarantine'
+}
+
+function invalidEventPolicy(options: PublishOptions): InvalidEventPolicy {
+  return options.onInvalid || (process.env.EVENT_VALIDATION_MODE === 'reject' ? 'reject' : 'quarantine');
+}
+
+/**
+ * Keep an invalid event out of the event store, recording why
+ */
+async function quarantineEvent(event: DomainEvent, errors: string[]): Promise<void> {
+  const supabase = getServiceRoleClient();
+  if (!supabase) {
+    throw new EventValidationError(`Invalid ${event.type} event could not be quarantined: database unavailable`, errors);
+  }
+
+  const { error } = await supabase
+    .from('event_quarantine')
+    .insert({
+      project_id: event.metadata?.project_id || null,
+      type: event.type,
+      aggregate_type: event.aggregate_type,
+      aggregate_id: event.aggregate_id,
+      payload: event.payload ?? {},
+      metadata: event.metadata ?? {},
+      version: event.version || 1,
+      errors,
+    });
+
+  if (error) {
+    console.error('Failed to quarantine event:', error);
+    throw new EventValidationError(`Invalid ${event.type} event could not be quarantined: ${error.message}`, errors);
+  }
+
+  console.warn(`⚠️ Event quarantined: ${event.type} (${errors.join('; ')})`);
+}
+
+/**
+ * Validate events before they reach the event store
+ *
+ * @returns The valid events; invalid ones are quarantined or rejected
+ */
+async function screenEvents(events: DomainEvent[], options: PublishOptions): Promise<DomainEvent[]> {
+  const policy = invalidEventPolicy(options);
+  const checked = events.map(event => ({ event, result: validateEvent(event) }));
+  const invalid = checked.filter(({ result }) => !result.valid);
+
+  if (invalid.length > 0 && policy === 'reject') {
+    const errors = invalid.flatMap(({ event, result }) => result.errors.map(message => `${event.type}: ${message}`));
+    throw new EventValidationError(`Invalid event: ${errors.join('; ')}`, errors);
+  }
+
+  for (const { event, result } of invalid) {
+    await quarantineEvent(event, result.errors);
+  }
+
+  return checked.filter(({ result }) => result.valid).map(({ event }) => event);
+}
+
 /**
  * Publishes a domain event to the event store
+ * The event is validated against the schema registered for its type and
+ * version first; see PublishOptions for what happens when it does not match.
  *
  * @param event - The domain event to publish
- * @returns The published event with ID and timestamp
+ * @param options - Publishing options
+ * @returns The published event with ID and timestamp (a quarantined event is
+ *   returned as given, without an ID)
  *
  * @example
  * ```typescript
@@ -32,7 +105,12 @@ import { DomainEvent, EventMetadata } from './types';
  * });
  * ```
  */
-export async function publishEvent(event: DomainEvent): Promise<DomainEvent> {
+export async function publishEvent(event: DomainEvent, options: PublishOptions = {}): Promise<DomainEvent> {
+  const [valid] = await screenEvents([event], options);
+  if (!valid) {
+    return event;
+  }
+
   const supabase = getServiceRoleClient();
 
   // Add timestamp to metadata if not present
@@ -70,13 +148,20 @@ export async function publishEvent(event: DomainEvent): Promise<DomainEvent> {
  * More efficient than publishing events one by one
  *
  * @param events - Array of domain events to publish
+ * @param options - Publishing options; with 'reject', nothing is published
+ *   when any event is invalid
  * @returns Array of published events with IDs and timestamps
  */
-export async function publishEvents(events: DomainEvent[]): Promise<DomainEvent[]> {
+export async function publishEvents(events: DomainEvent[], options: PublishOptions = {}): Promise<DomainEvent[]> {
+  const validEvents = await screenEvents(events, options);
+  if (validEvents.length === 0) {
+    return [];
+  }
+
   const supabase = getServiceRoleClient();
 
   // Add timestamps to metadata
-  const eventsWithTimestamps = events.map(event => ({
+  const eventsWithTimestamps = validEvents.map(event => ({
     type: event.type,
     aggregate_type: event.aggregate_type,
     aggregate_id: event.aggregate_id,
@@ -99,7 +184,7 @@ export async function publishEvents(events: DomainEvent[]): Promise<DomainEvent[
     throw new Error(`Failed to publish events: ${error.message}`);
   }
 
-  console.log(`✅ Published ${events.length} events in batch`);
+  console.log(`✅ Published ${validEvents.length} events in batch`);
 
   return data as DomainEvent[];
 }
@@ -0,0 +1,274 @@
+/**
+ * Event Schema Registry - Payload schemas keyed by event type and version
+ *
+ * The catalogue holds the current schema of every event type. The registry
+ * adds the schemas of earlier versions together with upcasters that turn a
+ * payload of one version into the next, so that:
+ * - publishers are validated against the schema of the version they publish
+ * - handlers can declare which versions they understand
+ * - replayed history is brought up to the current shape
+ *
+ * When a payload changes shape, bump `version` in the catalogue and register
+ * the previous schema here with an upcaster from it to the new version.
+ */
+
+import type { OpenAPISchema } from '@/lib/openapi/schema';
+import { EVENT_CATALOGUE, getEventDefinition } from './catalogue';
+import { DomainEvent, EventHandler, EventType } from './types';
+
+export interface EventSchemaVersion {
+  version: number;
+  payload: OpenAPISchema;
+  upcast: (payload: Record<string, any>) => Record<string, any>;  // Payload of version + 1
+}
+
+export interface EventValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+/**
+ * Thrown when an event does not match its registered schema, or cannot be
+ * brought to the version a consumer needs
+ */
+export class EventValidationError extends Error {
+  constructor(
+    message: string,
+    public errors: string[]
+  ) {
+    super(message);
+    this.name = 'EventValidationError';
+  }
+}
+
+/**
+ * Earlier schema versions per event type. The current version of every
+ * type lives in EVENT_CATALOGUE.
+ */
+const PREVIOUS_VERSIONS: Partial<Record<EventType, EventSchemaVersion[]>> = {};
+
+/**
+ * Register an earlier schema version of an event type and its upcaster
+ */
+export function registerEventSchemaVersion(eventType: EventType, schema: EventSchemaVersion): void {
+  const current = EVENT_CATALOGUE[eventType].version;
+  if (schema.version >= current) {
+    throw new Error(
+      `${eventType} v${schema.version} is not older than the current version v${current}`
+    );
+  }
+
+  const versions = (PREVIOUS_VERSIONS[eventType] || []).filter(
+    (existing) => existing.version !== schema.version
+  );
+  PREVIOUS_VERSIONS[eventType] = [...versions, schema].sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Current schema version of an event type
+ */
+export function getCurrentEventVersion(eventType: string): number | undefined {
+  return getEventDefinition(eventType)?.version;
+}
+
+/**
+ * All known versions of an event type, oldest first
+ */
+export function getEventVersions(eventType: string): number[] {
+  const definition = getEventDefinition(eventType);
+  if (!definition) return [];
+
+  const previous = PREVIOUS_VERSIONS[definition.type] || [];
+  return [...previous.map((schema) => schema.version), definition.version];
+}
+
+/**
+ * Payload schema of an event type at a version (the current one by default)
+ */
+export function getEventSchema(eventType: string, version?: number): OpenAPISchema | undefined {
+  const definition = getEventDefinition(eventType);
+  if (!definition) return undefined;
+  if (version === undefined || version === definition.version) return definition.payload;
+
+  return PREVIOUS_VERSIONS[definition.type]?.find((schema) => schema.version === version)?.payload;
+}
+
+// === Validation ===
+
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+}
+
+function matchesType(schema: OpenAPISchema, value: unknown): boolean {
+  switch (schema.type) {
+    case 'object':
+      return typeOf(value) === 'object';
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'string':
+    case 'boolean':
+      return typeof value === schema.type;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Check a value against a payload schema. Optional properties may be null
+ * or left out; formats are documentation only.
+ *
+ * @returns One message per problem, prefixed with the path of the value
+ */
+export function validateAgainstSchema(
+  schema: OpenAPISchema,
+  value: unknown,
+  path = 'payload'
+): string[] {
+  if (value === null && schema.nullable) return [];
+
+  if (!matchesType(schema, value)) {
+    return [`${path} must be ${schema.type === 'integer' ? 'an integer' : `a ${schema.type}`}, got ${typeOf(value)}`];
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return [`${path} must be one of ${schema.enum.join(', ')}`];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.type === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, index) => {
+      errors.push(...validateAgainstSchema(schema.items!, item, `${path}[${index}]`));
+    });
+  }
+
+  if (schema.type === 'object') {
+    const record = value as Record<string, unknown>;
+
+    for (const field of schema.required || []) {
+      if (record[field] === undefined || record[field] === null) {
+        errors.push(`${path}.${field} is required`);
+      }
+    }
+
+    for (const [field, fieldSchema] of Object.entries(schema.properties || {})) {
+      if (record[field] === undefined || record[field] === null) continue;
+      errors.push(...validateAgainstSchema(fieldSchema, record[field], `${path}.${field}`));
+    }
+
+    if (schema.additionalProperties === false) {
+      const known = new Set(Object.keys(schema.properties || {}));
+      Object.keys(record)
+        .filter((field) => !known.has(field))
+        .forEach((field) => errors.push(`${path}.${field} is not allowed`));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate an event envelope and its payload against the schema registered
+ * for its type and version
+ */
+export function validateEvent(event: DomainEvent): EventValidationResult {
+  const errors: string[] = [];
+  const definition = getEventDefinition(event.type);
+
+  if (!definition) {
+    return { valid: false, errors: [`Unknown event type "${event.type}"`] };
+  }
+
+  if (event.aggregate_type !== definition.aggregateType) {
+    errors.push(`aggregate_type must be "${definition.aggregateType}", got "${event.aggregate_type}"`);
+  }
+  if (!event.aggregate_id) {
+    errors.push('aggregate_id is required');
+  }
+  if (!event.metadata?.project_id) {
+    errors.push('metadata.project_id is required');
+  }
+
+  const version = event.version || 1;
+  const schema = getEventSchema(event.type, version);
+  if (!schema) {
+    errors.push(`Unknown version ${version} of ${event.type} (known: ${getEventVersions(event.type).join(', ')})`);
+  } else {
+    errors.push(...validateAgainstSchema(schema, event.payload));
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+// === Versioning ===
+
+/**
+ * Bring an event to a newer version of its schema by running the upcasters
+ * between its version and the target (the current version by default).
+ * Events already at or past the target, and events of unknown types, are
+ * returned unchanged.
+ */
+export function upcastEvent<T extends DomainEvent>(event: T, toVersion?: number): T {
+  const target = toVersion ?? getCurrentEventVersion(event.type);
+  let version = event.version || 1;
+  if (target === undefined || version >= target) return event;
+
+  let payload = event.payload;
+  const previous = PREVIOUS_VERSIONS[event.type as EventType] || [];
+
+  while (version < target) {
+    const schema = previous.find((candidate) => candidate.version === version);
+    if (!schema) {
+      throw new EventValidationError(
+        `No upcaster for ${event.type} v${version}`,
+        [`${event.type} v${version} cannot be upcast to v${target}`]
+      );
+    }
+    payload = schema.upcast(payload);
+    version += 1;
+  }
+
+  return { ...event, payload, version };
+}
+
+/**
+ * Declare the schema versions a handler understands. Handlers without a
+ * declaration receive events at the current version.
+ *
+ * @example
+ * ```typescript
+ * registerAgent(EventType.THEME_THRESHOLD_REACHED, handlesVersions([2], handleThemeThresholdReached));
+ * ```
+ */
+export function handlesVersions(versions: number[], handler: EventHandler): EventHandler {
+  const wrapped: EventHandler = (event) => handler(event);
+  wrapped.handledVersions = [...versions].sort((a, b) => a - b);
+  wrapped.handlerName = handler.handlerName || handler.name;
+  return wrapped;
+}
+
+/**
+ * The event as a handler should see it: unchanged when the handler
+ * understands its version, otherwise upcast to the oldest newer version the
+ * handler declares. Returns null when the event is newer than anything the
+ * handler understands.
+ */
+export function eventForHandler(event: DomainEvent, handler: EventHandler): DomainEvent | null {
+  const version = event.version || 1;
+  const declared = handler.handledVersions;
+
+  if (!declared || declared.length === 0) {
+    return upcastEvent(event);
+  }
+
+  if (declared.includes(version)) return event;
+
+  const target = declared.find((candidate) => candidate > version);
+  return target === undefined ? null : upcastEvent(event, target);
+}
@@ -94,8 +94,15 @@ export enum AggregateType {
 
 /**
  * Event Handler - Function signature for event handlers
+ * `handledVersions` lists the payload versions the handler understands
+ * (see handlesVersions in schema-registry.ts); without it the handler
+ * receives events at the current version. `handlerName` identifies the
+ * handler in processing checkpoints (see namedHandler in handler-runs.ts).
  */
-export type EventHandler = (event: DomainEvent) => Promise<void>;
+export type EventHandler = ((event: DomainEvent) => Promise<void>) & {
+  handledVersions?: number[];
+  handlerName?: string;
+};
 
 /**
  * Event Subscription - Configuration for subscribing to events
@@ -121,7 +121,7 @@ Return ONLY a valid JSON object with these exact keys (camelCase):
 }`;
 
   try {
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('experiments').chat.completions.create({
       model: 'gpt-4-turbo-preview',
       messages: [
         {
@@ -424,7 +424,7 @@ Return JSON with standard fields PLUS:
 }`;
 
   try {
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('experiments').chat.completions.create({
       model: 'gpt-4-turbo-preview',
       messages: [
         {
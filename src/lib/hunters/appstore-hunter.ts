@@ -0,0 +1,234 @@
+/**
+ * App Store Hunter
+ * Discovers iOS app reviews from the Apple App Store
+ * Uses the public customer reviews RSS feed (JSON), one feed per storefront
+ */
+
+import { BaseHunter } from './base-hunter';
+import {
+    PlatformType,
+    RawFeedback,
+    HunterConfig,
+    PlatformIntegration,
+    PlatformIntegrationError,
+} from '@/types/hunter';
+
+export interface AppStoreReview {
+    id: string;
+    title: string;
+    content: string;
+    author: string;
+    authorUrl?: string;
+    rating: number;
+    version?: string;
+    voteCount: number;
+    date: Date;
+    country: string;
+}
+
+/**
+ * Feed entry as returned by itunes.apple.com/{country}/rss/customerreviews/.../json
+ * Every field is wrapped in a { label } object
+ */
+interface AppStoreFeedEntry {
+    id?: { label?: string };
+    title?: { label?: string };
+    content?: { label?: string };
+    author?: { name?: { label?: string }; uri?: { label?: string } };
+    updated?: { label?: string };
+    'im:rating'?: { label?: string };
+    'im:version'?: { label?: string };
+    'im:voteCount'?: { label?: string };
+}
+
+/**
+ * Parse one page of the reviews feed
+ * The feed returns a single object instead of an array when there is one
+ * entry, and the first page may lead with an app-info entry (no rating)
+ */
+export function parseAppStoreFeed(data: unknown, country: string): AppStoreReview[] {
+    const feed = (data as { feed?: { entry?: AppStoreFeedEntry | AppStoreFeedEntry[] } })?.feed;
+    if (!feed?.entry) return [];
+
+    const entries = Array.isArray(feed.entry) ? feed.entry : [feed.entry];
+    const reviews: AppStoreReview[] = [];
+
+    for (const entry of entries) {
+        const id = entry.id?.label;
+        const rating = parseInt(entry['im:rating']?.label || '', 10);
+
+        // App-info entry has no rating
+        if (!id || isNaN(rating)) continue;
+
+        const date = new Date(entry.updated?.label || '');
+
+        reviews.push({
+            id,
+            title: entry.title?.label || '',
+            content: entry.content?.label || '',
+            author: entry.author?.name?.label || 'App Store user',
+            authorUrl: entry.author?.uri?.label,
+            rating,
+            version: entry['im:version']?.label,
+            voteCount: parseInt(entry['im:voteCount']?.label || '0', 10) || 0,
+            date: isNaN(date.getTime()) ? new Date() : date,
+            country,
+        });
+    }
+
+    return reviews;
+}
+
+export class AppStoreHunter extends BaseHunter {
+    platform: PlatformType = 'appstore';
+    private readonly REVIEWS_FEED_URL = 'https://itunes.apple.com';
+    private readonly APP_URL = 'https://apps.apple.com';
+    // Apple serves 50 reviews per page, and at most 10 pages per storefront
+    private readonly MAX_PAGES = 3;
+    private readonly LOOKBACK_DAYS = 7;
+
+    /**
+     * Hunt for app reviews across the configured App Store storefronts
+     */
+    async hunt(
+        config: HunterConfig,
+        integration: PlatformIntegration
+    ): Promise<RawFeedback[]> {
+        try {
+            const appId = integration.config.appstore_app_id;
+
+            if (!appId) {
+                console.warn('[AppStore] No appstore_app_id configured');
+                return [];
+            }
+
+            const countries = this.getCountries(integration);
+            const since = new Date();
+            since.setDate(since.getDate() - this.LOOKBACK_DAYS);
+
+            const results: RawFeedback[] = [];
+            // The same review can show up in more than one storefront's feed
+            const seen = new Set<string>();
+
+            for (const country of countries) {
+                try {
+                    const reviews = await this.fetchReviews(appId, country, since);
+                    console.log(`[AppStore] Parsed ${reviews.length} recent reviews from ${country.toUpperCase()}`);
+
+                    for (const review of reviews) {
+                        if (seen.has(review.id)) continue;
+                        seen.add(review.id);
+
+                        const text = `${review.title}\n\n${review.content}`;
+
+                        // Check if review matches keywords
+                        const matchesKeywords = this.containsAnyKeyword(
+                            text,
+                            [...(config.keywords || []), config.company_name, ...config.name_variations]
+                        );
+
+                        // Always include low-rating reviews (1-2 stars) or those matching keywords
+                        if (review.rating > 2 && !matchesKeywords) continue;
+
+                        // Skip if contains excluded keywords
+                        if (this.containsExcludedKeywords(text, config.excluded_keywords)) continue;
+
+                        results.push({
+                            content: this.sanitizeText(review.content),
+                            title: review.title
+                                ? `${review.rating}★ ${this.sanitizeText(review.title)}`
+                                : `${review.rating}★ Review`,
+                            platform: 'appstore',
+                            platform_id: review.id,
+                            platform_url: `${this.APP_URL}/${country}/app/id${appId}?see-all=reviews`,
+                            author_username: review.author,
+                            author_profile_url: review.authorUrl,
+                            discovered_at: review.date,
+                            engagement_metrics: {
+                                upvotes: review.voteCount,
+                                score: review.rating,
+                            },
+                            author_metadata: {
+                                app_version: review.version,
+                                rating: review.rating,
+                                country: review.country,
+                            },
+                        });
+                    }
+                } catch (error) {
+                    console.error(`[AppStore] Error fetching ${country.toUpperCase()} reviews for ${appId}:`, error);
+                }
+
+                // Rate limiting between storefronts
+                if (countries.length > 1) {
+                    await this.delay(500);
+                }
+            }
+
+            console.log(`[AppStore] Found ${results.length} relevant reviews across ${countries.length} storefronts`);
+            return results;
+        } catch (error) {
+            console.error('[AppStore] Hunt error:', error);
+            throw new PlatformIntegrationError(
+                `App Store hunt failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                'appstore',
+                error
+            );
+        }
+    }
+
+    /**
+     * Storefronts to scan, as lowercase two-letter country codes
+     */
+    private getCountries(integration: PlatformIntegration): string[] {
+        const { appstore_countries, appstore_country } = integration.config;
+        const countries = appstore_countries?.length
+            ? appstore_countries
+            : [appstore_country || 'us'];
+
+        return [...new Set(countries.map(country => country.trim().toLowerCase()).filter(Boolean))];
+    }
+
+    /**
+     * Page through one storefront's feed (newest first) until reviews
+     * are older than the lookback window
+     */
+    private async fetchReviews(appId: string, country: string, since: Date): Promise<AppStoreReview[]> {
+        const reviews: AppStoreReview[] = [];
+
+        for (let page = 1; page <= this.MAX_PAGES; page++) {
+            const url = `${this.REVIEWS_FEED_URL}/${country}/rss/customerreviews/page=${page}/id=${encodeURIComponent(appId)}/sortby=mostrecent/json`;
+
+            const response = await fetch(url, {
+                headers: {
+                    'User-Agent': 'SignalsLoop/1.0',
+                    'Accept': 'application/json',
+                },
+            });
+
+            if (!response.ok) {
+                // Apple returns 400 past the last available page
+                if (page > 1) break;
+                throw new Error(`App Store feed error: ${response.status}`);
+            }
+
+            const pageReviews = parseAppStoreFeed(await response.json(), country);
+            const recent = pageReviews.filter(review => review.date >= since);
+            reviews.push(...recent);
+
+            if (pageReviews.length === 0 || recent.length < pageReviews.length) break;
+        }
+
+        return reviews;
+    }
+
+    /**
+     * Check if content contains any of the keywords
+     */
+    private containsAnyKeyword(content: string, keywords: string[]): boolean {
+        const lowerContent = content.toLowerCase();
+        return keywords.some(keyword =>
+            keyword && lowerContent.includes(keyword.toLowerCase())
+        );
+    }
+}
@@ -0,0 +1,333 @@
+/**
+ * Hunter Backfill
+ * One-off historical scans that walk back N months through a platform, one
+ * time-window page per scan. Pages queue behind live jobs and only start
+ * when the project has no live scan running, has room under its job limit,
+ * the platform's circuit is closed and the integration is outside quiet
+ * hours, so a backfill can't starve live scans.
+ */
+
+import { getServiceRoleClient } from '@/lib/supabase-singleton';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { HuntWindow, PlatformIntegration } from '@/types/hunter';
+import { checkPendingScanLimit, checkProjectConcurrency, isCircuitOpen } from './concurrency';
+import { createScan, getScan } from './job-queue';
+import { isInQuietHours } from './scan-schedule';
+
+function getSupabase(): SupabaseClient {
+    const client = getServiceRoleClient();
+    if (!client) {
+        throw new Error('[Backfill] Supabase client not available - missing env vars');
+    }
+    return client;
+}
+
+// ==========================================
+// Types
+// ==========================================
+
+export type BackfillStatus = 'pending' | 'running' | 'complete' | 'cancelled' | 'failed';
+
+export interface HunterBackfill {
+    id: string;
+    project_id: string;
+    platform: string;
+    months: number;
+    page_days: number;
+    cursor: string;
+    stop_at: string;
+    status: BackfillStatus;
+    current_scan_id: string | null;
+    current_window_start: string | null;
+    pages_completed: number;
+    page_attempts: number;
+    items_found: number;
+    error: string | null;
+    created_by: string | null;
+    created_at: string;
+    updated_at: string;
+    completed_at: string | null;
+}
+
+export type BackfillTickResult =
+    | 'started'
+    | 'waiting'
+    | 'in_progress'
+    | 'complete'
+    | 'failed';
+
+export const MAX_BACKFILL_MONTHS = 24;
+export const DEFAULT_PAGE_DAYS = 7;
+// A page that fails this many times in a row fails the backfill
+const MAX_PAGE_ATTEMPTS = 3;
+const DAY = 24 * 60 * 60 * 1000;
+
+// ==========================================
+// Paging
+// ==========================================
+
+/**
+ * Window for the next page: up to page_days back from the cursor, never
+ * past stop_at. Null once the backfill has reached stop_at.
+ */
+export function planNextPage(backfill: Pick<HunterBackfill, 'cursor' | 'stop_at' | 'page_days'>): HuntWindow | null {
+    const until = new Date(backfill.cursor);
+    const stopAt = new Date(backfill.stop_at);
+    if (until.getTime() <= stopAt.getTime()) return null;
+
+    return {
+        since: new Date(Math.max(until.getTime() - backfill.page_days * DAY, stopAt.getTime())),
+        until,
+    };
+}
+
+/**
+ * Total pages a backfill walks through
+ */
+export function countPages(backfill: Pick<HunterBackfill, 'page_days' | 'created_at' | 'stop_at'>): number {
+    const span = new Date(backfill.created_at).getTime() - new Date(backfill.stop_at).getTime();
+    return Math.max(1, Math.ceil(span / (backfill.page_days * DAY)));
+}
+
+// ==========================================
+// Management
+// ==========================================
+
+/**
+ * Queue a backfill. Throws if one is already active for the platform.
+ */
+export async function createBackfill(params: {
+    projectId: string;
+    platform: string;
+    months: number;
+    pageDays?: number;
+    createdBy?: string;
+}): Promise<HunterBackfill> {
+    const now = new Date();
+    const stopAt = new Date(now);
+    stopAt.setMonth(stopAt.getMonth() - params.months);
+
+    const { data, error } = await getSupabase()
+        .from('hunter_backfills')
+        .insert({
+            project_id: params.projectId,
+            platform: params.platform,
+            months: params.months,
+            page_days: params.pageDays ?? DEFAULT_PAGE_DAYS,
+            cursor: now.toISOString(),
+            stop_at: stopAt.toISOString(),
+            created_by: params.createdBy,
+        })
+        .select()
+        .single();
+
+    if (error || !data) {
+        // Unique violation on the one-active-backfill index
+        if (error?.code === '23505') {
+            throw new Error(`A ${params.platform} backfill is already running for this project`);
+        }
+        throw new Error(`Failed to create backfill: ${error?.message}`);
+    }
+
+    return data;
+}
+
+export async function getBackfills(projectId: string): Promise<HunterBackfill[]> {
+    const { data, error } = await getSupabase()
+        .from('hunter_backfills')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+    if (error) {
+        console.error('[Backfill] Error loading backfills:', error);
+        return [];
+    }
+    return data || [];
+}
+
+/**
+ * Stop a backfill. The page in flight finishes, but no new page starts.
+ */
+export async function cancelBackfill(projectId: string, backfillId: string): Promise<boolean> {
+    const { data, error } = await getSupabase()
+        .from('hunter_backfills')
+        .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+        .eq('id', backfillId)
+        .eq('project_id', projectId)
+        .in('status', ['pending', 'running'])
+        .select('id');
+
+    if (error) {
+        console.error('[Backfill] Error cancelling backfill:', error);
+        return false;
+    }
+    return (data?.length || 0) > 0;
+}
+
+// ==========================================
+// Orchestration
+// ==========================================
+
+async function updateBackfill(id: string, updates: Partial<HunterBackfill>): Promise<void> {
+    const { error } = await getSupabase()
+        .from('hunter_backfills')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+    if (error) {
+        console.error(`[Backfill] Error updating backfill ${id}:`, error);
+    }
+}
+
+/**
+ * Why the next page can't start yet, or null if it can
+ */
+async function pageBlocker(backfill: HunterBackfill): Promise<string | null> {
+    const { data: integration } = await getSupabase()
+        .from('platform_integrations')
+        .select('status, schedule_timezone, quiet_hours')
+        .eq('project_id', backfill.project_id)
+        .eq('platform_type', backfill.platform)
+        .maybeSingle();
+
+    const scheduled = integration as Pick<PlatformIntegration, 'status' | 'schedule_timezone' | 'quiet_hours'> | null;
+    if (!scheduled || scheduled.status !== 'active') {
+        return 'integration is not active';
+    }
+    if (isInQuietHours(new Date(), scheduled.quiet_hours, scheduled.schedule_timezone || 'UTC')) {
+        return 'quiet hours';
+    }
+    if (await isCircuitOpen(backfill.platform)) {
+        return 'platform circuit is open';
+    }
+
+    // Live scans go first: wait for any running live scan, and leave the
+    // project's job slots to it
+    const liveScan = await checkPendingScanLimit(backfill.project_id);
+    if (!liveScan.allowed) return 'a live scan is running';
+
+    const jobs = await checkProjectConcurrency(backfill.project_id);
+    if (!jobs.allowed) return jobs.reason || 'project job limit reached';
+
+    return null;
+}
+
+/**
+ * Move one backfill forward: record the finished page, then start the
+ * next one if nothing is blocking it
+ */
+export async function advanceBackfill(backfill: HunterBackfill): Promise<BackfillTickResult> {
+    let state = backfill;
+
+    if (state.current_scan_id) {
+        const scan = await getScan(state.current_scan_id);
+
+        if (scan?.status === 'running') return 'in_progress';
+
+        const pageSucceeded = scan?.status === 'complete' && scan.platforms?.[state.platform] !== 'skipped';
+
+        if (pageSucceeded) {
+            state = {
+                ...state,
+                cursor: state.current_window_start || state.cursor,
+                pages_completed: state.pages_completed + 1,
+                page_attempts: 0,
+                items_found: state.items_found + (scan?.total_discovered || 0),
+                current_scan_id: null,
+                current_window_start: null,
+            };
+        } else if (state.page_attempts + 1 >= MAX_PAGE_ATTEMPTS) {
+            await updateBackfill(state.id, {
+                status: 'failed',
+                current_scan_id: null,
+                error: `Page ending ${state.cursor} failed ${MAX_PAGE_ATTEMPTS} times`,
+                completed_at: new Date().toISOString(),
+            });
+            return 'failed';
+        } else {
+            // Retry the same window
+            state = { ...state, page_attempts: state.page_attempts + 1, current_scan_id: null, current_window_start: null };
+        }
+
+        await updateBackfill(state.id, {
+            cursor: state.cursor,
+            pages_completed: state.pages_completed,
+            page_attempts: state.page_attempts,
+            items_found: state.items_found,
+            current_scan_id: null,
+            current_window_start: null,
+        });
+    }
+
+    const page = planNextPage(state);
+    if (!page) {
+        await updateBackfill(state.id, { status: 'complete', completed_at: new Date().toISOString() });
+        return 'complete';
+    }
+
+    const blocker = await pageBlocker(state);
+    if (blocker) {
+        console.log(`[Backfill] ${state.platform} backfill ${state.id} waiting: ${blocker}`);
+        return 'waiting';
+    }
+
+    const { scan, jobs } = await createScan(
+        state.project_id,
+        [state.platform],
+        state.created_by || undefined,
+        { backfillId: state.id, window: page }
+    );
+
+    if (jobs.length === 0) {
+        console.error(`[Backfill] No discovery job created for backfill ${state.id}`);
+    }
+
+    await updateBackfill(state.id, {
+        status: 'running',
+        current_scan_id: scan.id,
+        current_window_start: page.since.toISOString(),
+    });
+
+    console.log(
+        `[Backfill] Started ${state.platform} page ${page.since.toISOString()} → ${page.until.toISOString()} for backfill ${state.id}`
+    );
+    return 'started';
+}
+
+/**
+ * Advance every active backfill, oldest-touched first
+ */
+export async function advanceBackfills(limit = 20): Promise<Record<BackfillTickResult, number>> {
+    const summary: Record<BackfillTickResult, number> = {
+        started: 0,
+        waiting: 0,
+        in_progress: 0,
+        complete: 0,
+        failed: 0,
+    };
+
+    const { data: backfills, error } = await getSupabase()
+        .from('hunter_backfills')
+        .select('*')
+        .in('status', ['pending', 'running'])
+        .order('updated_at', { ascending: true })
+        .limit(limit);
+
+    if (error) {
+        console.error('[Backfill] Error loading active backfills:', error);
+        return summary;
+    }
+
+    for (const backfill of backfills || []) {
+        try {
+            summary[await advanceBackfill(backfill)]++;
+        } catch (error) {
+            console.error(`[Backfill] Error advancing backfill ${backfill.id}:`, error);
+            summary.waiting++;
+        }
+    }
+
+    return summary;
+}
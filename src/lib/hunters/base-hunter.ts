@@ -4,6 +4,7 @@
  */
 
 import OpenAI from 'openai';
+import { getOpenAI } from '@/lib/openai-client';
 import {
   PlatformType,
   RawFeedback,
@@ -15,33 +16,76 @@ import {
   HunterScanResult,
   HunterError,
   FeedbackClassification,
+  PlatformSyncState,
+  HunterApiUsage,
+  HuntWindow,
 } from '@/types/hunter';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
 import { buildProductContext, formatContextBlock, ProductContext } from './product-context';
 import { filterByRelevance, RelevanceResult } from './relevance-filter';
+import {
+  findSemanticDuplicate,
+  getSimilarityThreshold,
+  recordMention,
+  storeFeedbackEmbedding,
+  type DedupeCandidate,
+} from './deduplication';
 
 /**
  * Abstract base class for all hunters
  */
 export abstract class BaseHunter {
   abstract platform: PlatformType;
+  // Whether hunt() can search a historical window (for backfill scans)
+  readonly supportsBackfill: boolean = false;
   protected openai: OpenAI;
+  private stagedSyncState: PlatformSyncState | null = null;
+  private apiUsage: HunterApiUsage[] = [];
 
   constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+    this.openai = getOpenAI('hunter_scan');
   }
 
   /**
    * Hunt for feedback on the platform
-   * Must be implemented by each platform hunter
+   * Must be implemented by each platform hunter. A window is only passed to
+   * hunters that support backfill; without one they look at recent content.
    */
   abstract hunt(
     config: HunterConfig,
-    integration: PlatformIntegration
+    integration: PlatformIntegration,
+    window?: HuntWindow
   ): Promise<RawFeedback[]>;
 
+  /**
+   * Cursor state reached by the last hunt(), if the hunter polls incrementally
+   * The caller commits it once the returned items are stored, so a failed
+   * run resumes from the previous cursor
+   */
+  takeStagedSyncState(): PlatformSyncState | null {
+    const state = this.stagedSyncState;
+    this.stagedSyncState = null;
+    return state;
+  }
+
+  protected stageSyncState(state: PlatformSyncState): void {
+    this.stagedSyncState = state;
+  }
+
+  /**
+   * Paid API calls made by the last hunt, for scan cost analytics
+   * Clears the record so a reused hunter doesn't report calls twice
+   */
+  takeApiUsage(): HunterApiUsage[] {
+    const usage = this.apiUsage;
+    this.apiUsage = [];
+    return usage;
+  }
+
+  protected recordApiUsage(usage: HunterApiUsage): void {
+    this.apiUsage.push(usage);
+  }
+
   /**
    * Build formatted Product Context block from HunterConfig
    * Use this in subclass prompts for disambiguation
@@ -116,25 +160,47 @@ export abstract class BaseHunter {
     }
     let stored = 0;
     let duplicates = 0;
+    const similarityThreshold = await getSimilarityThreshold(supabase, projectId);
 
     for (const item of items) {
       try {
-        // Check if item already exists
-        const { data: existing } = await supabase
-          .from('discovered_feedback')
-          .select('id')
-          .eq('project_id', projectId)
-          .eq('platform', item.platform)
-          .eq('platform_id', item.platform_id)
-          .single();
-
-        if (existing) {
+        const discoveredAt = (item.discovered_at instanceof Date && !isNaN(item.discovered_at.getTime()))
+          ? item.discovered_at.toISOString()
+          : new Date().toISOString();
+        const candidate: DedupeCandidate = {
+          project_id: projectId,
+          platform: item.platform,
+          platform_id: item.platform_id,
+          platform_url: item.platform_url,
+          title: item.title,
+          content: item.content,
+          author_username: item.author_username,
+          engagement_score: item.engagement_score,
+          engagement_metrics: { ...item.engagement_metrics },
+          discovered_at: discoveredAt,
+          duplicate_of: item.duplicate_of,
+        };
+
+        // Skip items already stored; link cross-posts to their canonical item
+        const { match, existingId, embedding } = await findSemanticDuplicate(
+          supabase,
+          candidate,
+          similarityThreshold
+        );
+
+        if (existingId) {
+          duplicates++;
+          continue;
+        }
+
+        if (match) {
+          await recordMention(supabase, candidate, match);
           duplicates++;
           continue;
         }
 
         // Insert new feedback
-        const { error } = await supabase.from('discovered_feedback').insert({
+        const { data: inserted, error } = await supabase.from('discovered_feedback').insert({
           project_id: projectId,
           platform: item.platform,
           platform_id: item.platform_id,
@@ -158,16 +224,17 @@ export abstract class BaseHunter {
           is_duplicate: false,
           is_archived: false,
           processing_status: 'complete', // Mark as fully processed
-          discovered_at: (item.discovered_at instanceof Date && !isNaN(item.discovered_at.getTime()))
-            ? item.discovered_at.toISOString()
-            : new Date().toISOString(),
+          discovered_at: discoveredAt,
           processed_at: new Date().toISOString(),
-        });
+        }).select('id').single();
 
         if (error) {
           console.error(`[${this.platform}] Error storing feedback: `, error);
         } else {
           stored++;
+          if (embedding && inserted) {
+            await storeFeedbackEmbedding(supabase, inserted.id, candidate, embedding);
+          }
         }
       } catch (error) {
         console.error(`[${this.platform}] Error processing item: `, error);
@@ -649,18 +716,7 @@ Return JSON classification.`;
   protected calculateEngagementScore(
     metrics?: Record<string, any>
   ): number {
-    if (!metrics) return 0;
-
-    let score = 0;
-    score += (metrics.likes || 0) * 1;
-    score += (metrics.shares || 0) * 2;
-    score += (metrics.retweets || 0) * 2;
-    score += (metrics.comments || 0) * 3;
-    score += (metrics.replies || 0) * 3;
-    score += (metrics.upvotes || 0) * 1;
-    score += (metrics.score || 0) * 1;
-
-    return Math.min(score, 1000); // Cap at 1000
+    return calculateEngagementScore(metrics);
   }
 
   /**
@@ -752,3 +808,27 @@ Return JSON classification.`;
     );
   }
 }
+
+/**
+ * Calculate engagement score from metrics
+ * Shared with the job-queue workers, which store items outside a hunter
+ */
+export function calculateEngagementScore(
+  metrics?: Record<string, any>
+): number {
+  if (!metrics) return 0;
+
+  let score = 0;
+  score += (metrics.likes || 0) * 1;
+  score += (metrics.shares || 0) * 2;
+  score += (metrics.retweets || 0) * 2;
+  score += (metrics.comments || 0) * 3;
+  score += (metrics.replies || 0) * 3;
+  score += (metrics.upvotes || 0) * 1;
+  score += (metrics.score || 0) * 1;
+  score += Math.floor((metrics.views || 0) / 100);
+  score += metrics.accepted ? 5 : 0;
+  score += (metrics.duplicates || 0) * 5;
+
+  return Math.min(score, 1000); // Cap at 1000
+}
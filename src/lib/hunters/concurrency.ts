@@ -117,6 +117,7 @@ export async function checkProjectConcurrency(projectId: string): Promise<Concur
 
 /**
  * Check if a project has too many pending scans
+ * Backfill pages don't count, so a running backfill never blocks a live scan
  */
 export async function checkPendingScanLimit(projectId: string): Promise<ConcurrencyCheckResult> {
     const supabase = getServiceRoleClient();
@@ -127,7 +128,8 @@ export async function checkPendingScanLimit(projectId: string): Promise<Concurre
             .from('hunter_scans')
             .select('*', { count: 'exact', head: true })
             .eq('project_id', projectId)
-            .eq('status', 'running');
+            .eq('status', 'running')
+            .neq('mode', 'backfill');
 
         if (error) {
             console.error('[Concurrency] Error checking pending scans:', error);
@@ -508,7 +510,7 @@ export async function getCircuitBreakerStatus(): Promise<Record<string, CircuitS
     const redis = getRedis();
     if (!redis) return {};
 
-    const platforms = ['reddit', 'hackernews', 'twitter', 'trustpilot', 'g2', 'playstore'];
+    const platforms = ['reddit', 'hackernews', 'twitter', 'trustpilot', 'g2', 'playstore', 'appstore', 'github', 'stackexchange'];
     const status: Record<string, CircuitState | null> = {};
 
     for (const platform of platforms) {
@@ -2,9 +2,17 @@
  * Stage 4: Deduplication
  * Identifies and merges duplicate or near-duplicate feedback items
  * Before storing, dedupe similar feedback to avoid noise
+ *
+ * Semantic dedupe compares embeddings against feedback already stored for
+ * the project, so the same complaint cross-posted in different words (or
+ * found again in a later scan) becomes a mention of one canonical item
  */
 
-import OpenAI from 'openai';
+import { getOpenAI } from '@/lib/openai-client';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { generateContentHash, generateEmbeddingsBatch } from '@/lib/specs/embeddings';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
+import type { HunterApiUsage } from '@/types/hunter';
 
 export interface DeduplicationResult {
     duplicateGroups: Array<{
@@ -99,8 +107,7 @@ Return JSON with duplicate_groups and unique_items.`;
  */
 export async function deduplicateFeedback(
     items: FeedbackItem[],
-    productName: string,
-    openaiApiKey?: string
+    productName: string
 ): Promise<DeduplicationResult> {
     // If less than 2 items, nothing to dedupe
     if (items.length < 2) {
@@ -110,8 +117,7 @@ export async function deduplicateFeedback(
         };
     }
 
-    const apiKey = openaiApiKey || process.env.OPENAI_API_KEY;
-    if (!apiKey) {
+    if (!process.env.OPENAI_API_KEY) {
         console.warn('[Deduplication] No OpenAI API key, skipping deduplication');
         return {
             duplicateGroups: [],
@@ -119,7 +125,7 @@ export async function deduplicateFeedback(
         };
     }
 
-    const openai = new OpenAI({ apiKey });
+    const openai = getOpenAI('duplicate_detection');
 
     try {
         const response = await openai.chat.completions.create({
@@ -206,3 +212,310 @@ export function mergeDuplicates(
     // Return only non-duplicate items
     return items.filter(item => !duplicateIds.has(item.id));
 }
+
+// ==========================================
+// Semantic Deduplication (embeddings)
+// ==========================================
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.88;
+
+// Same model as generateEmbedding, so stored vectors stay comparable
+const EMBEDDING_MODEL = 'text-embedding-3-small';
+
+export type MentionMatchReason = 'source_duplicate' | 'embedding';
+
+/**
+ * An item about to be stored in discovered_feedback
+ */
+export interface DedupeCandidate {
+    project_id: string;
+    platform: string;
+    platform_id: string;
+    platform_url: string;
+    title?: string | null;
+    content: string;
+    author_username?: string | null;
+    engagement_score: number;
+    engagement_metrics: Record<string, unknown>;
+    discovered_at: string;
+    // The platform's own duplicate marker, in the same platform_id scheme
+    // (e.g. a Stack Exchange question closed as a duplicate)
+    duplicate_of?: string | null;
+}
+
+export interface MentionMatch {
+    feedbackId: string;
+    similarity: number;
+    reason: MentionMatchReason;
+}
+
+export interface SemanticDuplicateResult {
+    match: MentionMatch | null;
+    // Set when the candidate is already stored as its own item
+    existingId: string | null;
+    // Set when the candidate is new and should be indexed once stored
+    embedding: number[] | null;
+}
+
+/**
+ * Text embedded for an item: title and the start of the content
+ */
+export function buildEmbeddingText(item: Pick<DedupeCandidate, 'title' | 'content'>): string {
+    return `${item.title ? `${item.title}\n\n` : ''}${item.content}`.slice(0, 2000);
+}
+
+/**
+ * The project's similarity threshold for linking mentions
+ */
+export async function getSimilarityThreshold(
+    supabase: SupabaseClient,
+    projectId: string
+): Promise<number> {
+    const { data } = await supabase
+        .from('hunter_configs')
+        .select('dedup_similarity_threshold')
+        .eq('project_id', projectId)
+        .maybeSingle();
+
+    const threshold = Number(data?.dedup_similarity_threshold);
+    return threshold > 0 && threshold <= 1 ? threshold : DEFAULT_SIMILARITY_THRESHOLD;
+}
+
+/**
+ * Find the canonical item a candidate duplicates
+ *
+ * Checked in order: an earlier scan already linked it as a mention; it is
+ * already stored as its own item (never a duplicate); the platform marked it
+ * as a duplicate of something we have; its embedding is within the
+ * threshold of a stored item. The first stored copy stays canonical.
+ * Pass usage to collect the embedding call for scan cost analytics
+ */
+export async function findSemanticDuplicate(
+    supabase: SupabaseClient,
+    candidate: DedupeCandidate,
+    threshold: number,
+    usage?: HunterApiUsage[]
+): Promise<SemanticDuplicateResult> {
+    const { data: mention } = await supabase
+        .from('discovered_feedback_mentions')
+        .select('feedback_id, similarity, match_reason')
+        .eq('project_id', candidate.project_id)
+        .eq('platform', candidate.platform)
+        .eq('platform_id', candidate.platform_id)
+        .maybeSingle();
+
+    if (mention) {
+        return {
+            match: {
+                feedbackId: mention.feedback_id,
+                similarity: Number(mention.similarity),
+                reason: mention.match_reason,
+            },
+            existingId: null,
+            embedding: null,
+        };
+    }
+
+    const { data: existing } = await supabase
+        .from('discovered_feedback')
+        .select('id')
+        .eq('project_id', candidate.project_id)
+        .eq('platform', candidate.platform)
+        .eq('platform_id', candidate.platform_id)
+        .maybeSingle();
+
+    if (existing) {
+        return { match: null, existingId: existing.id, embedding: null };
+    }
+
+    if (candidate.duplicate_of) {
+        const feedbackId = await resolveCanonicalId(supabase, candidate, candidate.duplicate_of);
+        if (feedbackId) {
+            return {
+                match: { feedbackId, similarity: 1, reason: 'source_duplicate' },
+                existingId: null,
+                embedding: null,
+            };
+        }
+    }
+
+    let embedding: number[];
+    try {
+        const response = await getOpenAI('duplicate_detection').embeddings.create({
+            model: EMBEDDING_MODEL,
+            input: buildEmbeddingText(candidate),
+            encoding_format: 'float',
+        });
+        embedding = response.data[0].embedding;
+        usage?.push({
+            provider: 'openai',
+            model: EMBEDDING_MODEL,
+            calls: 1,
+            promptTokens: response.usage?.prompt_tokens || 0,
+            completionTokens: 0,
+        });
+    } catch (error) {
+        console.error('[Deduplication] Embedding failed, storing without semantic dedupe:', error);
+        return { match: null, existingId: null, embedding: null };
+    }
+
+    const { data: matches, error } = await supabase.rpc('match_discovered_feedback', {
+        p_project_id: candidate.project_id,
+        p_query_embedding: embedding,
+        p_similarity_threshold: threshold,
+        p_limit: 1,
+    });
+
+    if (error) {
+        console.error('[Deduplication] Similarity search failed:', error);
+        return { match: null, existingId: null, embedding };
+    }
+
+    const [nearest] = (matches || []) as Array<{ feedback_id: string; similarity: number }>;
+    if (!nearest) {
+        return { match: null, existingId: null, embedding };
+    }
+
+    return {
+        match: { feedbackId: nearest.feedback_id, similarity: nearest.similarity, reason: 'embedding' },
+        existingId: null,
+        embedding: null,
+    };
+}
+
+/**
+ * Link a candidate to its canonical item as a mention
+ * The canonical item's mention count and aggregated engagement score are
+ * kept up to date by a trigger on the mentions table
+ */
+export async function recordMention(
+    supabase: SupabaseClient,
+    candidate: DedupeCandidate,
+    match: MentionMatch
+): Promise<boolean> {
+    const { error } = await supabase
+        .from('discovered_feedback_mentions')
+        .upsert({
+            project_id: candidate.project_id,
+            feedback_id: match.feedbackId,
+            platform: candidate.platform,
+            platform_id: candidate.platform_id,
+            platform_url: candidate.platform_url,
+            author_username: candidate.author_username,
+            title: candidate.title,
+            content: candidate.content,
+            engagement_score: candidate.engagement_score,
+            engagement_metrics: candidate.engagement_metrics,
+            match_reason: match.reason,
+            similarity: Math.round(match.similarity * 1000) / 1000,
+            discovered_at: candidate.discovered_at,
+            updated_at: new Date().toISOString(),
+        }, {
+            onConflict: 'project_id,platform,platform_id',
+        });
+
+    if (error) {
+        console.error('[Deduplication] Error recording mention:', error);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Index a newly stored canonical item for later similarity searches
+ */
+export async function storeFeedbackEmbedding(
+    supabase: SupabaseClient,
+    feedbackId: string,
+    candidate: Pick<DedupeCandidate, 'project_id' | 'title' | 'content'>,
+    embedding: number[]
+): Promise<void> {
+    const { error } = await supabase
+        .from('discovered_feedback_embeddings')
+        .upsert({
+            feedback_id: feedbackId,
+            project_id: candidate.project_id,
+            embedding,
+            content_hash: generateContentHash(buildEmbeddingText(candidate)),
+        }, {
+            onConflict: 'feedback_id',
+        });
+
+    if (error) {
+        console.error('[Deduplication] Error storing embedding:', error);
+    }
+}
+
+/**
+ * Index a batch of canonical items stored before they had embeddings, so
+ * later scans can link mentions to them. Returns how many were indexed.
+ */
+export async function backfillFeedbackEmbeddings(
+    supabase: SupabaseClient,
+    limit: number = 50
+): Promise<number> {
+    const { data, error } = await supabase.rpc('get_discovered_feedback_without_embeddings', { p_limit: limit });
+
+    if (error) {
+        console.error('[Deduplication] Error loading feedback to backfill:', error);
+        return 0;
+    }
+
+    const byProject = new Map<string, Array<{ id: string; project_id: string; title: string | null; content: string }>>();
+    for (const row of data || []) {
+        if (!row.content) continue;
+        byProject.set(row.project_id, [...(byProject.get(row.project_id) || []), row]);
+    }
+
+    let indexed = 0;
+    for (const [projectId, rows] of byProject) {
+        try {
+            const embeddings = await withAICostContext(
+                { projectId, feature: 'hunter_scan' },
+                () => generateEmbeddingsBatch(rows.map(row => buildEmbeddingText(row)))
+            );
+
+            for (const [index, row] of rows.entries()) {
+                await storeFeedbackEmbedding(supabase, row.id, row, embeddings[index]);
+                indexed++;
+            }
+        } catch (error) {
+            console.error(`[Deduplication] Embedding backfill failed for project ${projectId}:`, error);
+        }
+    }
+
+    return indexed;
+}
+
+/**
+ * The canonical id for a platform_id the source marked as the original,
+ * whether it was stored as an item or linked as a mention
+ */
+async function resolveCanonicalId(
+    supabase: SupabaseClient,
+    candidate: DedupeCandidate,
+    originalPlatformId: string
+): Promise<string | null> {
+    const { data: original } = await supabase
+        .from('discovered_feedback')
+        .select('id, is_duplicate, duplicate_of')
+        .eq('project_id', candidate.project_id)
+        .eq('platform', candidate.platform)
+        .eq('platform_id', originalPlatformId)
+        .maybeSingle();
+
+    if (original) {
+        return original.is_duplicate && original.duplicate_of ? original.duplicate_of : original.id;
+    }
+
+    const { data: mention } = await supabase
+        .from('discovered_feedback_mentions')
+        .select('feedback_id')
+        .eq('project_id', candidate.project_id)
+        .eq('platform', candidate.platform)
+        .eq('platform_id', originalPlatformId)
+        .maybeSingle();
+
+    return mention?.feedback_id ?? null;
+}
@@ -0,0 +1,225 @@
+/**
+ * Hunter Feedback Store
+ * Dedupes and classifies relevant raw items and writes them to
+ * discovered_feedback. Shared by the classify worker and the human-review
+ * queue.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import OpenAI from 'openai';
+import type { HunterRawItem } from './job-queue';
+import type { HunterApiUsage } from '@/types/hunter';
+import { calculateEngagementScore } from './base-hunter';
+import {
+    findSemanticDuplicate,
+    getSimilarityThreshold,
+    recordMention,
+    storeFeedbackEmbedding,
+    type DedupeCandidate,
+} from './deduplication';
+import { AIBudgetExceededError } from '@/lib/ai/types';
+
+/**
+ * Classify a single feedback item
+ * Pass usage to collect the OpenAI call for scan cost analytics
+ */
+export async function classifyItem(
+    openai: OpenAI,
+    content: string,
+    title?: string | null,
+    usage?: HunterApiUsage[]
+): Promise<Record<string, unknown>> {
+    const systemPrompt = `Classify this product feedback. Return JSON only.
+
+CLASSIFICATION (pick ONE):
+- bug: broken, errors, crashes
+- feature_request: "I wish", "please add"
+- usability_issue: works but confusing
+- praise: positive, recommendation
+- complaint: negative without specific bug
+- comparison: mentions competitors
+- question: "how do I", "can it do"
+- churn_risk: "thinking of switching"
+- other: doesn't fit above
+
+URGENCY (1-5):
+5: Data loss, security, viral complaint
+4: Major bug, workflow blocked
+3: Feature request with traction
+2: Minor suggestion
+1: Pure praise
+
+SENTIMENT (-1 to +1):
+-1 to -0.5: Very negative
+-0.5 to 0: Negative  
+0 to 0.5: Positive
+0.5 to 1: Very positive
+
+OUTPUT JSON:
+{
+  "classification": "feature_request",
+  "confidence": 0.9,
+  "urgency": 3,
+  "sentiment": 0.3,
+  "tags": ["integrations", "slack"],
+  "quotable": "Best quote from feedback",
+  "action_needed": true
+}`;
+
+    const userPrompt = `Classify this feedback:
+
+${title ? `Title: ${title}\n` : ''}Content: ${content}`;
+
+    try {
+        const response = await openai.chat.completions.create({
+            model: 'gpt-4o-mini',
+            messages: [
+                { role: 'system', content: systemPrompt },
+                { role: 'user', content: userPrompt },
+            ],
+            response_format: { type: 'json_object' },
+            temperature: 0.3,
+        });
+
+        usage?.push({
+            provider: 'openai',
+            model: 'gpt-4o-mini',
+            calls: 1,
+            promptTokens: response.usage?.prompt_tokens || 0,
+            completionTokens: response.usage?.completion_tokens || 0,
+        });
+
+        const result = JSON.parse(response.choices[0].message.content || '{}');
+        return result;
+    } catch (error) {
+        if (error instanceof AIBudgetExceededError) throw error;
+        console.error('[FeedbackStore] OpenAI error:', error);
+        return {
+            classification: 'other',
+            confidence: 0,
+            urgency: 1,
+            sentiment: 0,
+            tags: [],
+            error: 'Classification failed',
+        };
+    }
+}
+
+/**
+ * Prefer the category implied by the item's source labels (e.g. a GitHub
+ * "bug" label set by a maintainer) over the model's guess, and keep the
+ * labels as tags
+ */
+export function applyLabelClassification(
+    item: HunterRawItem,
+    classification: Record<string, unknown>
+): Record<string, unknown> {
+    const labels = (item.raw_metadata?.labels as string[] | undefined) || [];
+    const labelClassification = item.raw_metadata?.label_classification as string | undefined;
+
+    if (!labels.length && !labelClassification) {
+        return classification;
+    }
+
+    const tags = Array.isArray(classification.tags) ? (classification.tags as string[]) : [];
+
+    return {
+        ...classification,
+        ...(labelClassification && {
+            classification: labelClassification,
+            confidence: Math.max(Number(classification.confidence) || 0, 0.95),
+        }),
+        tags: [...new Set([...tags, ...labels.map(label => label.toLowerCase())])],
+    };
+}
+
+/**
+ * Classify a raw item and upsert it into discovered_feedback (the final table)
+ * Deduplication runs first: an item that duplicates stored feedback is
+ * linked to it as a mention without being classified, so cross-posts and
+ * repeats cost no classification call.
+ * Returns the stored (or canonical) row id, or null if the write failed
+ * Pass usage to collect the dedupe embedding call for scan cost analytics
+ */
+export async function storeClassifiedItem(
+    supabase: SupabaseClient,
+    item: HunterRawItem,
+    classify: () => Promise<Record<string, unknown>>,
+    similarityThreshold?: number,
+    usage?: HunterApiUsage[]
+): Promise<string | null> {
+    const engagementMetrics = (item.raw_metadata?.engagement_metrics as Record<string, unknown> | undefined) || {};
+    const candidate: DedupeCandidate = {
+        project_id: item.project_id,
+        platform: item.platform,
+        platform_id: item.external_id || item.id,
+        platform_url: item.external_url || '',
+        title: item.title,
+        content: item.content,
+        author_username: item.author,
+        engagement_score: calculateEngagementScore(engagementMetrics),
+        engagement_metrics: engagementMetrics,
+        discovered_at: item.posted_at || item.created_at || new Date().toISOString(),
+        duplicate_of: item.raw_metadata?.duplicate_of as string | undefined,
+    };
+
+    const { match, embedding } = await findSemanticDuplicate(
+        supabase,
+        candidate,
+        similarityThreshold ?? await getSimilarityThreshold(supabase, item.project_id),
+        usage
+    );
+
+    if (match) {
+        console.log(`[FeedbackStore] ${candidate.platform}:${candidate.platform_id} is a mention of ${match.feedbackId} (${match.reason}, ${match.similarity.toFixed(2)})`);
+        return (await recordMention(supabase, candidate, match)) ? match.feedbackId : null;
+    }
+
+    const classification = await classify();
+
+    const { data, error } = await supabase
+        .from('discovered_feedback')
+        .upsert({
+            project_id: candidate.project_id,
+            platform: candidate.platform,
+            platform_id: candidate.platform_id,
+            platform_url: candidate.platform_url,
+            title: candidate.title,
+            content: candidate.content,
+            author_username: candidate.author_username,
+            discovered_at: candidate.discovered_at,
+            // Use correct column names from schema
+            classification: classification.classification,
+            classification_confidence: classification.confidence || 0.5,
+            classification_reason: classification.quotable || null,
+            sentiment_score: classification.sentiment || 0,
+            urgency_score: classification.urgency || 1,
+            urgency_reason: classification.action_needed ? 'Action needed' : null,
+            tags: classification.tags || [],
+            engagement_score: candidate.engagement_score,
+            engagement_metrics: candidate.engagement_metrics,
+            relevance_score: item.relevance_score,
+            relevance_reasoning: item.relevance_reason,
+            processed_at: new Date().toISOString(),
+            // Required for feed query to find items
+            is_duplicate: false,
+            is_archived: false,
+            // Borderline items only get here once a reviewer has included them
+            needs_review: false,
+        }, {
+            onConflict: 'project_id,platform,platform_id',
+        })
+        .select('id')
+        .single();
+
+    if (error) {
+        console.error('[FeedbackStore] Error storing item:', error);
+        return null;
+    }
+
+    if (data?.id && embedding) {
+        await storeFeedbackEmbedding(supabase, data.id, candidate, embedding);
+    }
+
+    return data?.id ?? null;
+}
@@ -0,0 +1,444 @@
+/**
+ * GitHub Hunter
+ * Discovers feedback filed on a project's own GitHub repos: issues, issue
+ * comments and discussions. Polls incrementally from per-repo `since`
+ * cursors kept in the integration's sync_state.
+ */
+
+import { BaseHunter } from './base-hunter';
+import {
+    PlatformType,
+    RawFeedback,
+    HunterConfig,
+    PlatformIntegration,
+    PlatformIntegrationError,
+    PlatformSyncState,
+    FeedbackClassification,
+    EngagementMetrics,
+} from '@/types/hunter';
+
+interface GitHubUser {
+    login: string;
+    html_url: string;
+    type: string;
+}
+
+interface GitHubReactions {
+    total_count: number;
+    '+1': number;
+    '-1': number;
+    laugh: number;
+    hooray: number;
+    confused: number;
+    heart: number;
+    rocket: number;
+    eyes: number;
+}
+
+interface GitHubIssue {
+    id: number;
+    number: number;
+    title: string;
+    body: string | null;
+    html_url: string;
+    user: GitHubUser | null;
+    labels: Array<{ name: string } | string>;
+    comments: number;
+    reactions?: GitHubReactions;
+    pull_request?: unknown;
+    created_at: string;
+    updated_at: string;
+}
+
+interface GitHubComment {
+    id: number;
+    body: string | null;
+    html_url: string;
+    issue_url: string;
+    user: GitHubUser | null;
+    reactions?: GitHubReactions;
+    created_at: string;
+    updated_at: string;
+}
+
+interface GitHubDiscussion {
+    number: number;
+    title: string;
+    body: string;
+    url: string;
+    createdAt: string;
+    updatedAt: string;
+    upvoteCount: number;
+    author: { login: string; url: string } | null;
+    category: { name: string } | null;
+    labels: { nodes: Array<{ name: string }> } | null;
+    reactions: { totalCount: number };
+    comments: { totalCount: number };
+}
+
+interface GitHubDiscussionConnection {
+    nodes: GitHubDiscussion[];
+    pageInfo?: { hasNextPage: boolean; endCursor: string | null };
+}
+
+type RepoCursors = NonNullable<PlatformSyncState['repos']>[string];
+
+function isAfter(timestamp: string, cursor: string): boolean {
+    return new Date(timestamp).getTime() > new Date(cursor).getTime();
+}
+
+/**
+ * Common label (and discussion category) names and the category they imply
+ * Integrations can extend or override these with github_label_categories
+ */
+const DEFAULT_LABEL_CATEGORIES: Record<string, FeedbackClassification> = {
+    'bug': 'bug',
+    'type: bug': 'bug',
+    'kind/bug': 'bug',
+    'regression': 'bug',
+    'enhancement': 'feature_request',
+    'feature': 'feature_request',
+    'feature request': 'feature_request',
+    'type: feature': 'feature_request',
+    'kind/feature': 'feature_request',
+    'ideas': 'feature_request',
+    'question': 'question',
+    'q&a': 'question',
+    'ux': 'usability_issue',
+    'usability': 'usability_issue',
+};
+
+/**
+ * Category implied by the first label that maps to one
+ */
+export function classifyLabels(
+    labels: string[],
+    overrides: Record<string, FeedbackClassification> = {}
+): FeedbackClassification | undefined {
+    const mapping: Record<string, FeedbackClassification> = { ...DEFAULT_LABEL_CATEGORIES };
+    for (const [label, classification] of Object.entries(overrides)) {
+        mapping[label.toLowerCase()] = classification;
+    }
+
+    for (const label of labels) {
+        const classification = mapping[label.toLowerCase()];
+        if (classification) return classification;
+    }
+    return undefined;
+}
+
+/**
+ * Map GitHub reactions onto engagement metrics
+ */
+export function reactionsToEngagement(reactions?: GitHubReactions, comments?: number): EngagementMetrics {
+    return {
+        upvotes: reactions?.['+1'] || 0,
+        downvotes: reactions?.['-1'] || 0,
+        likes: (reactions?.heart || 0) + (reactions?.hooray || 0) + (reactions?.rocket || 0),
+        comments,
+        score: reactions?.total_count || 0,
+    };
+}
+
+export class GitHubHunter extends BaseHunter {
+    platform: PlatformType = 'github';
+    private readonly API_URL = 'https://api.github.com';
+    private readonly GRAPHQL_URL = 'https://api.github.com/graphql';
+    // 100 items per page; a busy repo catches up over a few scans
+    private readonly MAX_PAGES = 3;
+    private readonly DISCUSSIONS_PER_SCAN = 50;
+    private readonly FIRST_SCAN_LOOKBACK_DAYS = 7;
+
+    /**
+     * Hunt for new issues, comments and discussions on the configured repos
+     */
+    async hunt(
+        config: HunterConfig,
+        integration: PlatformIntegration
+    ): Promise<RawFeedback[]> {
+        try {
+            const repos = (integration.config.github_repos || [])
+                .map(repo => repo.trim().replace(/^https:\/\/github\.com\//, '').replace(/\/$/, ''))
+                .filter(repo => /^[\w.-]+\/[\w.-]+$/.test(repo));
+
+            if (repos.length === 0) {
+                console.warn('[GitHub] No github_repos configured');
+                return [];
+            }
+
+            const token = integration.config.github_token || process.env.GITHUB_TOKEN;
+            const labelCategories = integration.config.github_label_categories || {};
+            const includeDiscussions = integration.config.github_include_discussions !== false;
+
+            const firstScanSince = new Date();
+            firstScanSince.setDate(firstScanSince.getDate() - this.FIRST_SCAN_LOOKBACK_DAYS);
+
+            const previousCursors = integration.sync_state?.repos || {};
+            const nextCursors: Record<string, RepoCursors> = { ...previousCursors };
+            const results: RawFeedback[] = [];
+
+            for (const repo of repos) {
+                const cursors: RepoCursors = { ...previousCursors[repo] };
+                const sinceFor = (stream: keyof RepoCursors) => cursors[stream] || firstScanSince.toISOString();
+
+                // Issue labels and pull request numbers, for the comments below
+                const issueLabels = new Map<number, { title: string; labels: string[] }>();
+                const pullRequests = new Set<number>();
+
+                try {
+                    const since = sinceFor('issues');
+                    const issues = await this.fetchPaged<GitHubIssue>(
+                        `/repos/${repo}/issues?state=all&sort=updated&direction=asc&since=${encodeURIComponent(since)}`,
+                        token
+                    );
+
+                    for (const issue of issues) {
+                        const labels = issue.labels.map(label => typeof label === 'string' ? label : label.name);
+
+                        if (issue.pull_request) {
+                            pullRequests.add(issue.number);
+                            continue;
+                        }
+                        issueLabels.set(issue.number, { title: issue.title, labels });
+
+                        // Only new issues; activity on older ones arrives as comments
+                        if (!isAfter(issue.created_at, since) || this.isBot(issue.user)) continue;
+
+                        const content = issue.body || issue.title;
+                        if (this.containsExcludedKeywords(`${issue.title}\n${content}`, config.excluded_keywords)) continue;
+
+                        results.push({
+                            content: this.sanitizeText(content),
+                            title: issue.title,
+                            platform: 'github',
+                            platform_id: `${repo}/issues/${issue.number}`,
+                            platform_url: issue.html_url,
+                            author_username: issue.user?.login,
+                            author_profile_url: issue.user?.html_url,
+                            discovered_at: new Date(issue.created_at),
+                            engagement_metrics: reactionsToEngagement(issue.reactions, issue.comments),
+                            labels,
+                            label_classification: classifyLabels(labels, labelCategories),
+                        });
+                    }
+
+                    cursors.issues = this.latestUpdate(issues, since);
+                } catch (error) {
+                    console.error(`[GitHub] Error fetching issues for ${repo}:`, error);
+                }
+
+                try {
+                    const since = sinceFor('comments');
+                    const comments = await this.fetchPaged<GitHubComment>(
+                        `/repos/${repo}/issues/comments?sort=updated&direction=asc&since=${encodeURIComponent(since)}`,
+                        token
+                    );
+
+                    for (const comment of comments) {
+                        const issueNumber = parseInt(comment.issue_url.split('/').pop() || '', 10);
+
+                        // Skip edits, pull request review chatter and bots
+                        if (!isAfter(comment.created_at, since) || pullRequests.has(issueNumber)) continue;
+                        if (!comment.body?.trim() || this.isBot(comment.user)) continue;
+                        if (this.containsExcludedKeywords(comment.body, config.excluded_keywords)) continue;
+
+                        const parent = issueLabels.get(issueNumber);
+                        const labels = parent?.labels || [];
+
+                        results.push({
+                            content: this.sanitizeText(comment.body),
+                            title: parent ? `Re: ${parent.title}` : `Comment on #${issueNumber}`,
+                            platform: 'github',
+                            platform_id: `${repo}/issuecomment/${comment.id}`,
+                            platform_url: comment.html_url,
+                            author_username: comment.user?.login,
+                            author_profile_url: comment.user?.html_url,
+                            discovered_at: new Date(comment.created_at),
+                            engagement_metrics: reactionsToEngagement(comment.reactions),
+                            labels,
+                            label_classification: classifyLabels(labels, labelCategories),
+                        });
+                    }
+
+                    cursors.comments = this.latestUpdate(comments, since);
+                } catch (error) {
+                    console.error(`[GitHub] Error fetching comments for ${repo}:`, error);
+                }
+
+                if (includeDiscussions) {
+                    if (!token) {
+                        console.warn(`[GitHub] Skipping discussions for ${repo}: the GraphQL API needs a token`);
+                    } else {
+                        try {
+                            const since = sinceFor('discussions');
+                            const { discussions, complete } = await this.fetchDiscussions(repo, since, token);
+
+                            for (const discussion of discussions) {
+                                if (!isAfter(discussion.createdAt, since)) continue;
+
+                                const content = discussion.body || discussion.title;
+                                if (this.containsExcludedKeywords(`${discussion.title}\n${content}`, config.excluded_keywords)) continue;
+
+                                const labels = [
+                                    ...(discussion.category ? [discussion.category.name] : []),
+                                    ...(discussion.labels?.nodes || []).map(label => label.name),
+                                ];
+
+                                results.push({
+                                    content: this.sanitizeText(content),
+                                    title: discussion.title,
+                                    platform: 'github',
+                                    platform_id: `${repo}/discussions/${discussion.number}`,
+                                    platform_url: discussion.url,
+                                    author_username: discussion.author?.login,
+                                    author_profile_url: discussion.author?.url,
+                                    discovered_at: new Date(discussion.createdAt),
+                                    engagement_metrics: {
+                                        upvotes: discussion.upvoteCount,
+                                        likes: discussion.reactions.totalCount,
+                                        comments: discussion.comments.totalCount,
+                                        score: discussion.upvoteCount + discussion.reactions.totalCount,
+                                    },
+                                    labels,
+                                    label_classification: classifyLabels(labels, labelCategories),
+                                });
+                            }
+
+                            // Fetched newest first, so a truncated fetch leaves a gap
+                            // after the cursor; keep it until a scan reaches it
+                            if (complete) {
+                                cursors.discussions = discussions.reduce(
+                                    (latest, discussion) => isAfter(discussion.updatedAt, latest) ? discussion.updatedAt : latest,
+                                    since
+                                );
+                            }
+                        } catch (error) {
+                            console.error(`[GitHub] Error fetching discussions for ${repo}:`, error);
+                        }
+                    }
+                }
+
+                nextCursors[repo] = cursors;
+            }
+
+            // Committed by the discovery worker once these items are stored
+            this.stageSyncState({ ...integration.sync_state, repos: nextCursors });
+
+            console.log(`[GitHub] Found ${results.length} new items across ${repos.length} repos`);
+            return results;
+        } catch (error) {
+            console.error('[GitHub] Hunt error:', error);
+            throw new PlatformIntegrationError(
+                `GitHub hunt failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                'github',
+                error
+            );
+        }
+    }
+
+    /**
+     * GET a REST list endpoint, oldest update first, up to MAX_PAGES pages
+     */
+    private async fetchPaged<T>(path: string, token?: string): Promise<T[]> {
+        const items: T[] = [];
+
+        for (let page = 1; page <= this.MAX_PAGES; page++) {
+            const response = await fetch(`${this.API_URL}${path}&per_page=100&page=${page}`, {
+                headers: this.headers(token),
+            });
+
+            if (!response.ok) {
+                throw new Error(`GitHub API error: ${response.status}${response.headers.get('x-ratelimit-remaining') === '0' ? ' (rate limited)' : ''}`);
+            }
+
+            const pageItems = (await response.json()) as T[];
+            items.push(...pageItems);
+
+            if (pageItems.length < 100) break;
+        }
+
+        return items;
+    }
+
+    /**
+     * Discussions updated after `since`, newest first (GraphQL only). Pages
+     * back until it reaches `since`, up to MAX_PAGES pages; `complete` is
+     * false when the limit cut it short.
+     */
+    private async fetchDiscussions(
+        repo: string,
+        since: string,
+        token: string
+    ): Promise<{ discussions: GitHubDiscussion[]; complete: boolean }> {
+        const [owner, name] = repo.split('/');
+        const query = `query($owner: String!, $name: String!, $first: Int!, $after: String) {
+            repository(owner: $owner, name: $name) {
+                discussions(first: $first, after: $after, orderBy: { field: UPDATED_AT, direction: DESC }) {
+                    nodes {
+                        number title body url createdAt updatedAt upvoteCount
+                        author { login url }
+                        category { name }
+                        labels(first: 10) { nodes { name } }
+                        reactions { totalCount }
+                        comments { totalCount }
+                    }
+                    pageInfo { hasNextPage endCursor }
+                }
+            }
+        }`;
+
+        const discussions: GitHubDiscussion[] = [];
+        let after: string | null = null;
+
+        for (let page = 1; page <= this.MAX_PAGES; page++) {
+            const response: Response = await fetch(this.GRAPHQL_URL, {
+                method: 'POST',
+                headers: { ...this.headers(token), 'Content-Type': 'application/json' },
+                body: JSON.stringify({ query, variables: { owner, name, first: this.DISCUSSIONS_PER_SCAN, after } }),
+            });
+
+            if (!response.ok) {
+                throw new Error(`GitHub GraphQL error: ${response.status}`);
+            }
+
+            const data = await response.json();
+            if (data.errors?.length) {
+                throw new Error(`GitHub GraphQL error: ${data.errors[0].message}`);
+            }
+
+            const connection: GitHubDiscussionConnection | undefined = data.data?.repository?.discussions;
+            const nodes = connection?.nodes || [];
+            const newer = nodes.filter(discussion => isAfter(discussion.updatedAt, since));
+            discussions.push(...newer);
+
+            // Newest first, so the page that reaches the cursor is the last one needed
+            if (newer.length < nodes.length || !connection?.pageInfo?.hasNextPage) {
+                return { discussions, complete: true };
+            }
+            after = connection.pageInfo.endCursor;
+        }
+
+        console.warn(`[GitHub] More than ${this.MAX_PAGES * this.DISCUSSIONS_PER_SCAN} discussions updated in ${repo} since ${since}; older ones were not fetched`);
+        return { discussions, complete: false };
+    }
+
+    private headers(token?: string): Record<string, string> {
+        return {
+            'Accept': 'application/vnd.github+json',
+            'X-GitHub-Api-Version': '2022-11-28',
+            'User-Agent': 'SignalsLoop/1.0',
+            ...(token && { 'Authorization': `Bearer ${token}` }),
+        };
+    }
+
+    private isBot(user: GitHubUser | null): boolean {
+        return !user || user.type === 'Bot' || user.login.endsWith('[bot]');
+    }
+
+    /**
+     * Next cursor: the newest updated_at seen, or the current one if nothing new
+     */
+    private latestUpdate(items: Array<{ updated_at: string }>, since: string): string {
+        return items.reduce((latest, item) => isAfter(item.updated_at, latest) ? item.updated_at : latest, since);
+    }
+}
@@ -10,6 +10,7 @@ import {
   HunterConfig,
   PlatformIntegration,
   PlatformIntegrationError,
+  HuntWindow,
 } from '@/types/hunter';
 
 interface AlgoliaHit {
@@ -34,6 +35,7 @@ interface AlgoliaResponse {
 
 export class HackerNewsHunter extends BaseHunter {
   platform: PlatformType = 'hackernews';
+  readonly supportsBackfill = true;
   private readonly ALGOLIA_API_URL = 'https://hn.algolia.com/api/v1/search';
   private readonly ALGOLIA_API_URL_DATE = 'https://hn.algolia.com/api/v1/search_by_date';
 
@@ -42,7 +44,8 @@ export class HackerNewsHunter extends BaseHunter {
    */
   async hunt(
     config: HunterConfig,
-    integration: PlatformIntegration
+    integration: PlatformIntegration,
+    window?: HuntWindow
   ): Promise<RawFeedback[]> {
     try {
       // Build search queries
@@ -57,8 +60,9 @@ export class HackerNewsHunter extends BaseHunter {
       const seenIds = new Set<string>();
       const MAX_ITEMS_PER_QUERY = 20; // Limit to prevent timeout
 
-      // Get Unix timestamp for 7 days ago (premium feature)
-      const sevenDaysAgo = Math.floor((Date.now() - 7 * 24 * 60 * 60 * 1000) / 1000);
+      // Get Unix timestamp for 7 days ago (premium feature), or the backfill window
+      const since = Math.floor((window ? window.since.getTime() : Date.now() - 7 * 24 * 60 * 60 * 1000) / 1000);
+      const until = window ? Math.floor(window.until.getTime() / 1000) : undefined;
 
       for (const query of queries) {
         // Skip if excluded
@@ -68,7 +72,7 @@ export class HackerNewsHunter extends BaseHunter {
 
         try {
           // Search stories (limit to MAX_ITEMS_PER_QUERY)
-          const storyData = await this.searchAlgolia(query, 'story', sevenDaysAgo);
+          const storyData = await this.searchAlgolia(query, 'story', since, until);
           let storyCount = 0;
           for (const hit of storyData.hits) {
             if (storyCount >= MAX_ITEMS_PER_QUERY) break;
@@ -94,12 +98,13 @@ export class HackerNewsHunter extends BaseHunter {
                 points: hit.points || 0,
                 comments: hit.num_comments || 0,
               },
+              source: `keyword:${query}`,
             });
             storyCount++;
           }
 
           // Search comments (limit to MAX_ITEMS_PER_QUERY)
-          const commentData = await this.searchAlgolia(query, 'comment', sevenDaysAgo);
+          const commentData = await this.searchAlgolia(query, 'comment', since, until);
           let commentCount = 0;
           for (const hit of commentData.hits) {
             if (commentCount >= MAX_ITEMS_PER_QUERY) break;
@@ -124,6 +129,7 @@ export class HackerNewsHunter extends BaseHunter {
               engagement_metrics: {
                 points: hit.points || 0,
               },
+              source: `keyword:${query}`,
             });
             commentCount++;
           }
@@ -153,12 +159,13 @@ export class HackerNewsHunter extends BaseHunter {
   private async searchAlgolia(
     query: string,
     tags: string,
-    since: number
+    since: number,
+    until?: number
   ): Promise<AlgoliaResponse> {
     const params = new URLSearchParams({
       query,
       tags,
-      numericFilters: `created_at_i>${since}`,
+      numericFilters: until ? `created_at_i>${since},created_at_i<=${until}` : `created_at_i>${since}`,
       hitsPerPage: '100',
     });
 
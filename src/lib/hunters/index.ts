@@ -10,6 +10,9 @@ import { HackerNewsHunter } from './hackernews-hunter';
 import { ProductHuntHunter } from './producthunt-hunter';
 import { ReviewSiteHunter } from './review-site-hunter';
 import { PlayStoreHunter } from './playstore-hunter';
+import { AppStoreHunter } from './appstore-hunter';
+import { GitHubHunter } from './github-hunter';
+import { StackExchangeHunter } from './stackexchange-hunter';
 import { PlatformType } from '@/types/hunter';
 
 // Export all hunters
@@ -20,6 +23,9 @@ export { HackerNewsHunter } from './hackernews-hunter';
 export { ProductHuntHunter } from './producthunt-hunter';
 export { ReviewSiteHunter } from './review-site-hunter';
 export { PlayStoreHunter } from './playstore-hunter';
+export { AppStoreHunter } from './appstore-hunter';
+export { GitHubHunter } from './github-hunter';
+export { StackExchangeHunter } from './stackexchange-hunter';
 
 /**
  * Factory function to get the appropriate hunter for a platform
@@ -45,6 +51,12 @@ export function getHunter(platform: PlatformType): BaseHunter {
       return new ReviewSiteHunter();
     case 'playstore':
       return new PlayStoreHunter();
+    case 'appstore':
+      return new AppStoreHunter();
+    case 'github':
+      return new GitHubHunter();
+    case 'stackexchange':
+      return new StackExchangeHunter();
     default:
       throw new Error(`Unsupported platform: ${platform}`);
   }
@@ -60,6 +72,9 @@ export function getAllHunters(): BaseHunter[] {
     new HackerNewsHunter(),
     new ReviewSiteHunter(), // Handles G2, Capterra, Trustpilot, ProductHunt
     new PlayStoreHunter(),
+    new AppStoreHunter(),
+    new GitHubHunter(),
+    new StackExchangeHunter(),
   ];
 }
 
@@ -67,5 +82,5 @@ export function getAllHunters(): BaseHunter[] {
  * Get supported platforms
  */
 export function getSupportedPlatforms(): PlatformType[] {
-  return ['reddit', 'twitter', 'hackernews', 'producthunt', 'g2', 'capterra', 'trustpilot', 'playstore'];
+  return ['reddit', 'twitter', 'hackernews', 'producthunt', 'g2', 'capterra', 'trustpilot', 'playstore', 'appstore', 'github', 'stackexchange'];
 }
@@ -6,6 +6,8 @@
 import { getServiceRoleClient } from '@/lib/supabase-singleton';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { getProjectPriority } from './concurrency';
+import { calculateAICost } from '@/lib/ai/cost-ledger';
+import type { HuntWindow, HunterApiUsage, PlatformSyncState } from '@/types/hunter';
 
 function getSupabase(): SupabaseClient {
     const client = getServiceRoleClient();
@@ -22,6 +24,10 @@ function getSupabase(): SupabaseClient {
 export type JobType = 'discovery' | 'relevance' | 'classify';
 export type JobStatus = 'pending' | 'processing' | 'complete' | 'failed';
 export type ScanStatus = 'running' | 'complete' | 'partial' | 'failed' | 'cancelled';
+export type ScanMode = 'live' | 'backfill';
+
+// Backfill jobs queue behind every live job, whatever the plan
+export const BACKFILL_PRIORITY = -10;
 
 export interface HunterScan {
     id: string;
@@ -34,6 +40,10 @@ export interface HunterScan {
     started_at: string;
     completed_at: string | null;
     triggered_by: string | null;
+    mode: ScanMode;
+    backfill_id: string | null;
+    window_start: string | null;
+    window_end: string | null;
 }
 
 export interface HunterJob {
@@ -67,11 +77,12 @@ export interface HunterRawItem {
     author: string | null;
     posted_at: string | null;
     raw_metadata: Record<string, unknown>;
+    source: string | null;
     relevance_score: number | null;
     relevance_decision: 'include' | 'exclude' | 'human_review' | null;
     relevance_reason: string | null;
     classification: Record<string, unknown> | null;
-    stage: 'discovered' | 'filtered' | 'classified' | 'stored' | 'excluded';
+    stage: 'discovered' | 'filtered' | 'review' | 'classified' | 'stored' | 'excluded';
     created_at: string;
 }
 
@@ -81,14 +92,18 @@ export interface HunterRawItem {
 
 /**
  * Create a new scan with discovery jobs for each platform
+ *
+ * Live scans look at recent content. A backfill scan searches one
+ * historical window, and its jobs queue behind live jobs.
  */
 export async function createScan(
     projectId: string,
     platforms: string[],
-    triggeredBy?: string
+    triggeredBy?: string,
+    backfill?: { backfillId: string; window: HuntWindow }
 ): Promise<{ scan: HunterScan; jobs: HunterJob[] }> {
     // === Phase 4: Get priority based on subscription ===
-    const priority = await getProjectPriority(projectId);
+    const priority = backfill ? BACKFILL_PRIORITY : await getProjectPriority(projectId);
     console.log(`[JobQueue] Project ${projectId} priority: ${priority}`);
 
     // Create scan record
@@ -101,6 +116,12 @@ export async function createScan(
             project_id: projectId,
             platforms: platformStatus,
             triggered_by: triggeredBy,
+            ...(backfill && {
+                mode: 'backfill',
+                backfill_id: backfill.backfillId,
+                window_start: backfill.window.since.toISOString(),
+                window_end: backfill.window.until.toISOString(),
+            }),
         })
         .select()
         .single();
@@ -269,6 +290,7 @@ export async function storeRawItems(
         author?: string;
         posted_at?: string;
         raw_metadata?: Record<string, unknown>;
+        source?: string;
     }>
 ): Promise<number> {
     if (items.length === 0) return 0;
@@ -288,6 +310,7 @@ export async function storeRawItems(
             author: item.author,
             posted_at: item.posted_at,
             raw_metadata: item.raw_metadata || {},
+            source: item.source,
             stage: 'discovered',
         };
 
@@ -337,7 +360,8 @@ export async function updateItemRelevance(
     decision: 'include' | 'exclude' | 'human_review',
     reason: string
 ): Promise<void> {
-    const newStage = decision === 'exclude' ? 'excluded' : 'filtered';
+    // human_review items wait in the review queue instead of being classified
+    const newStage = decision === 'exclude' ? 'excluded' : decision === 'human_review' ? 'review' : 'filtered';
 
     const { error } = await getSupabase()
         .from('hunter_raw_items')
@@ -368,7 +392,7 @@ export async function getItemsForClassification(
         .eq('scan_id', scanId)
         .eq('platform', platform)
         .eq('stage', 'filtered')
-        .in('relevance_decision', ['include', 'human_review'])
+        .eq('relevance_decision', 'include')
         .limit(limit);
 
     if (error) return [];
@@ -395,6 +419,21 @@ export async function updateItemClassification(
     }
 }
 
+/**
+ * Mark a classified item as written to discovered_feedback
+ * (or linked to an existing item as a mention)
+ */
+export async function markItemStored(itemId: string): Promise<void> {
+    const { error } = await getSupabase()
+        .from('hunter_raw_items')
+        .update({ stage: 'stored' })
+        .eq('id', itemId);
+
+    if (error) {
+        console.error(`[JobQueue] Error marking item stored:`, error);
+    }
+}
+
 // ==========================================
 // Scan Stats & Completion
 // ==========================================
@@ -418,6 +457,54 @@ export async function updateScanStats(
     }
 }
 
+/**
+ * Record the paid API calls a scan stage made, priced from the cost ledger's
+ * model table. Calls for the same model and source are merged into one row.
+ */
+export async function recordScanUsage(
+    scanId: string,
+    projectId: string,
+    platform: string,
+    stage: JobType,
+    usage: HunterApiUsage[]
+): Promise<void> {
+    const merged = new Map<string, HunterApiUsage>();
+    for (const entry of usage) {
+        const key = `${entry.provider}:${entry.model}:${entry.source || ''}`;
+        const existing = merged.get(key);
+        merged.set(key, existing
+            ? {
+                ...existing,
+                calls: existing.calls + entry.calls,
+                promptTokens: existing.promptTokens + entry.promptTokens,
+                completionTokens: existing.completionTokens + entry.completionTokens,
+            }
+            : { ...entry });
+    }
+
+    if (merged.size === 0) return;
+
+    const { error } = await getSupabase()
+        .from('hunter_scan_usage')
+        .insert([...merged.values()].map(entry => ({
+            scan_id: scanId,
+            project_id: projectId,
+            platform,
+            stage,
+            provider: entry.provider,
+            model: entry.model,
+            source: entry.source || null,
+            calls: entry.calls,
+            prompt_tokens: entry.promptTokens,
+            completion_tokens: entry.completionTokens,
+            cost_usd: calculateAICost(entry.model, entry.promptTokens, entry.completionTokens),
+        })));
+
+    if (error) {
+        console.error(`[JobQueue] Error recording scan usage:`, error);
+    }
+}
+
 /**
  * Platform status priority for monotonic updates
  * Status can only go forward, never backward
@@ -515,6 +602,23 @@ export async function updatePlatformIntegrationStats(
     }
 }
 
+/**
+ * Persist a hunter's incremental polling cursors on its integration
+ */
+export async function updatePlatformSyncState(
+    integrationId: string,
+    syncState: PlatformSyncState
+): Promise<void> {
+    const { error } = await getSupabase()
+        .from('platform_integrations')
+        .update({ sync_state: syncState })
+        .eq('id', integrationId);
+
+    if (error) {
+        console.error(`[JobQueue] Error updating sync state:`, error);
+    }
+}
+
 /**
  * Check if scan is complete and send notification
  */
@@ -551,7 +655,8 @@ async function sendScanCompleteNotification(scanId: string): Promise<void> {
         .eq('id', scanId)
         .single();
 
-    if (!scan) return;
+    // Backfill pages run unattended; progress shows on the backfill instead
+    if (!scan || scan.mode === 'backfill') return;
 
     // Get user email
     const { data: userData } = await getSupabase().auth.admin.getUserById(scan.projects?.owner_id);
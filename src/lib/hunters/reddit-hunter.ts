@@ -221,6 +221,7 @@ export class RedditHunter extends BaseHunter {
                 score: 0,
                 comments: 0,
               },
+              source: `keyword:${query}`,
             });
           }
 
@@ -286,6 +287,7 @@ export class RedditHunter extends BaseHunter {
                   score: 0,
                   comments: 0,
                 },
+                source: `r/${subreddit}`,
               });
             }
 
@@ -4,10 +4,12 @@
  * Targets >90% accuracy with instant disqualification checks
  */
 
-import { RawFeedback, PlatformType } from '@/types/hunter';
+import { RawFeedback, PlatformType, HunterApiUsage } from '@/types/hunter';
 import { ProductContext, formatContextBlock } from './product-context';
 import { createHash } from 'crypto';
 import { checkOpenAIRateLimit } from './concurrency';
+import { getOpenAI } from '@/lib/openai-client';
+import { AIBudgetExceededError } from '@/lib/ai/types';
 
 // ============================================================================
 // TYPES
@@ -55,6 +57,9 @@ export interface RelevanceResult {
         isPromotional: boolean;
         isWrongProduct: boolean;
     };
+    // Set when the item could not be scored (rate limit, API error). It sits in
+    // needsReview with a placeholder score and should be retried, not reviewed.
+    deferred?: boolean;
 }
 
 /**
@@ -72,6 +77,38 @@ export interface FilterBatchResult {
         avgScore: number;
         instantDisqualifiedCount: number;
     };
+    // OpenAI calls made for uncached items (absent for passthrough results)
+    usage?: HunterApiUsage[];
+}
+
+/**
+ * Score cut-offs: >= include is included, < exclude is excluded and the
+ * band in between goes to human review
+ */
+export interface RelevanceThresholds {
+    include: number;
+    exclude: number;
+}
+
+export const DEFAULT_RELEVANCE_THRESHOLDS: RelevanceThresholds = { include: 80, exclude: 60 };
+
+/**
+ * A reviewer's decision on an item the filter sent to human review
+ */
+export interface LabelledExample {
+    platform: string;
+    title: string | null;
+    content: string;
+    relevanceScore: number;
+    decision: 'include' | 'exclude';
+}
+
+/**
+ * Per-project calibration learned from the review queue
+ */
+export interface RelevanceCalibration {
+    thresholds: RelevanceThresholds;
+    examples: LabelledExample[];
 }
 
 /**
@@ -442,25 +479,22 @@ Return a JSON object with an "evaluations" array containing results for all item
 export async function filterByRelevance(
     items: RawFeedback[],
     context: ProductContext,
-    apiKey?: string
+    calibration?: RelevanceCalibration
 ): Promise<FilterBatchResult> {
-    if (!apiKey) {
-        apiKey = process.env.OPENAI_API_KEY;
-    }
-
-    if (!apiKey) {
+    if (!process.env.OPENAI_API_KEY) {
         console.warn('[RelevanceFilter v6] No OPENAI_API_KEY, including all items');
         return createPassthroughResult(items);
     }
 
     const results: RelevanceResult[] = [];
     const uncachedItems: RawFeedback[] = [];
+    const usage: HunterApiUsage[] = [];
 
     // Check cache first
     for (const item of items) {
         const cached = checkRelevanceCache(item.content, item.platform);
         if (cached) {
-            results.push(createCachedResult(item, cached));
+            results.push(createCachedResult(item, cached, calibration?.thresholds));
         } else {
             uncachedItems.push(item);
         }
@@ -471,11 +505,12 @@ export async function filterByRelevance(
         const batchSize = 15;
         for (let i = 0; i < uncachedItems.length; i += batchSize) {
             const batch = uncachedItems.slice(i, i + batchSize);
-            const batchResults = await evaluateBatch(batch, context, apiKey);
+            const batchResults = await evaluateBatch(batch, context, calibration, usage);
             results.push(...batchResults);
 
-            // Cache the results
+            // Cache the results; deferrals are retried instead
             for (const result of batchResults) {
+                if (result.deferred) continue;
                 cacheRelevanceDecision(
                     result.item.content,
                     result.item.platform,
@@ -511,6 +546,7 @@ export async function filterByRelevance(
             avgScore: results.length > 0 ? Math.round(totalScore / results.length) : 0,
             instantDisqualifiedCount: instantDisqualified.length,
         },
+        usage,
     };
 }
 
@@ -521,7 +557,8 @@ export async function filterByRelevance(
 async function evaluateBatch(
     items: RawFeedback[],
     context: ProductContext,
-    apiKey: string
+    calibration?: RelevanceCalibration,
+    usage?: HunterApiUsage[]
 ): Promise<RelevanceResult[]> {
     const systemPrompt = buildSystemPrompt(context);
     const productName = context.name?.toLowerCase() || '';
@@ -573,7 +610,7 @@ PAY CLOSE ATTENTION to the "analysis_hints" field - it contains pre-computed war
 
 ITEMS TO EVALUATE:
 ${JSON.stringify(itemsForEval, null, 2)}
-
+${formatLabelledExamples(calibration?.examples)}
 SCORING THRESHOLDS:
 - Score 80+: "include"
 - Score 60-79: "human_review"
@@ -591,29 +628,24 @@ Return a JSON object with an "evaluations" array.`;
             return items.map(item => createDefaultResult(item, 'Rate limited - deferred to human review'));
         }
 
-        const response = await fetch('https://api.openai.com/v1/chat/completions', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                Authorization: `Bearer ${apiKey}`,
-            },
-            body: JSON.stringify({
-                model: 'gpt-4o-mini',
-                messages: [
-                    { role: 'system', content: systemPrompt },
-                    { role: 'user', content: userPrompt },
-                ],
-                response_format: { type: 'json_object' },
-                temperature: 0.1,
-            }),
+        // Metered client, so relevance calls count against the project's AI budget
+        const data = await getOpenAI('hunter_scan').chat.completions.create({
+            model: 'gpt-4o-mini',
+            messages: [
+                { role: 'system', content: systemPrompt },
+                { role: 'user', content: userPrompt },
+            ],
+            response_format: { type: 'json_object' },
+            temperature: 0.1,
+        });
+        usage?.push({
+            provider: 'openai',
+            model: 'gpt-4o-mini',
+            calls: 1,
+            promptTokens: data.usage?.prompt_tokens || 0,
+            completionTokens: data.usage?.completion_tokens || 0,
         });
 
-        if (!response.ok) {
-            console.error('[RelevanceFilter v6] OpenAI API error:', response.status);
-            return items.map(item => createDefaultResult(item, 'API error - defaulting to human review'));
-        }
-
-        const data = await response.json();
         const content = data.choices?.[0]?.message?.content || '{}';
         const parsed = JSON.parse(content);
 
@@ -621,7 +653,7 @@ Return a JSON object with an "evaluations" array.`;
 
         const results = items.map((item, index) => {
             const evaluation = evaluations.find((e: any) => e.item_id === index.toString()) || {};
-            return parseEvaluationResult(item, evaluation, context);
+            return parseEvaluationResult(item, evaluation, context, calibration?.thresholds);
         });
 
         // Log each result
@@ -631,6 +663,9 @@ Return a JSON object with an "evaluations" array.`;
 
         return results;
     } catch (error) {
+        if (error instanceof AIBudgetExceededError) {
+            throw error;
+        }
         console.error('[RelevanceFilter v6] Error evaluating batch:', error);
         return items.map(item => createDefaultResult(item, 'Evaluation error - defaulting to human review'));
     }
@@ -643,17 +678,21 @@ Return a JSON object with an "evaluations" array.`;
 function parseEvaluationResult(
     item: RawFeedback,
     evaluation: any,
-    context: ProductContext
+    context: ProductContext,
+    thresholds?: RelevanceThresholds
 ): RelevanceResult {
     const instantDisq = evaluation.instant_disqualification || {};
     const filtersApplied = evaluation.filters_applied || {};
     const qualitySignals = evaluation.quality_signals || {};
+    const modelDecision = (evaluation.decision || 'human_review') as 'include' | 'exclude' | 'human_review';
 
     return {
         item,
         relevanceScore: evaluation.relevance_score ?? 50,
         confidence: (evaluation.confidence || 'medium') as 'high' | 'medium' | 'low',
-        decision: (evaluation.decision || 'human_review') as 'include' | 'exclude' | 'human_review',
+        decision: thresholds && typeof evaluation.relevance_score === 'number'
+            ? applyThresholds(evaluation.relevance_score, thresholds, instantDisq.triggered ?? false)
+            : modelDecision,
         reasoning: evaluation.reasoning || 'Unable to evaluate',
         instantDisqualification: {
             triggered: instantDisq.triggered ?? false,
@@ -693,12 +732,54 @@ function parseFilter(filter: any): FilterResult {
 // HELPER FUNCTIONS
 // ============================================================================
 
-function createCachedResult(item: RawFeedback, cached: CachedDecision): RelevanceResult {
+/**
+ * Decide from the score using per-project thresholds instead of the model's
+ * fixed 80/60 cut-offs
+ */
+export function applyThresholds(
+    score: number,
+    thresholds: RelevanceThresholds,
+    instantlyDisqualified = false
+): 'include' | 'exclude' | 'human_review' {
+    if (instantlyDisqualified || score < thresholds.exclude) {
+        return 'exclude';
+    }
+    return score >= thresholds.include ? 'include' : 'human_review';
+}
+
+/**
+ * Prompt block with the project's recent reviewer decisions
+ */
+function formatLabelledExamples(examples?: LabelledExample[]): string {
+    if (!examples || examples.length === 0) {
+        return '';
+    }
+
+    const lines = examples.map(example => JSON.stringify({
+        platform: example.platform,
+        title: example.title || '',
+        content: example.content.slice(0, 300),
+        your_score: example.relevanceScore,
+        reviewer_decision: example.decision,
+    }));
+
+    return `
+REVIEWER DECISIONS FOR THIS PRODUCT:
+A human reviewed these borderline items. Score similar items consistently with the reviewer.
+${lines.join('\n')}
+`;
+}
+
+function createCachedResult(
+    item: RawFeedback,
+    cached: CachedDecision,
+    thresholds?: RelevanceThresholds
+): RelevanceResult {
     return {
         item,
         relevanceScore: cached.relevanceScore,
         confidence: cached.relevanceScore >= 70 ? 'high' : cached.relevanceScore >= 50 ? 'medium' : 'low',
-        decision: cached.decision,
+        decision: thresholds ? applyThresholds(cached.relevanceScore, thresholds) : cached.decision,
         reasoning: `(cached) ${cached.reasoning}`,
         instantDisqualification: { triggered: false, reason: null },
         filtersApplied: {
@@ -728,6 +809,7 @@ function createDefaultResult(item: RawFeedback, reason: string): RelevanceResult
         confidence: 'low',
         decision: 'human_review',
         reasoning: reason,
+        deferred: true,
         instantDisqualification: { triggered: false, reason: null },
         filtersApplied: {
             genericQuestion: { triggered: false, max_score: null },
@@ -0,0 +1,436 @@
+/**
+ * Hunter Review Queue
+ * Items the relevance filter marks human_review wait here for a reviewer.
+ * Include classifies and stores the item; exclude drops it. Each decision
+ * is a labelled example that recalibrates the project's thresholds.
+ */
+
+import { getOpenAI } from '@/lib/openai-client';
+import { getServiceRoleClient } from '@/lib/supabase-singleton';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
+import {
+    markItemStored,
+    recordScanUsage,
+    updateItemClassification,
+    updateItemRelevance,
+    type HunterRawItem,
+} from './job-queue';
+import type { HunterApiUsage } from '@/types/hunter';
+import { applyLabelClassification, classifyItem, storeClassifiedItem } from './feedback-store';
+import {
+    DEFAULT_RELEVANCE_THRESHOLDS,
+    type LabelledExample,
+    type RelevanceCalibration,
+    type RelevanceResult,
+    type RelevanceThresholds,
+} from './relevance-filter';
+
+function getSupabase(): SupabaseClient {
+    const client = getServiceRoleClient();
+    if (!client) {
+        throw new Error('[ReviewQueue] Supabase client not available - missing env vars');
+    }
+    return client;
+}
+
+// ==========================================
+// Types
+// ==========================================
+
+export type ReviewStatus = 'pending' | 'included' | 'excluded';
+export type ReviewDecision = 'include' | 'exclude';
+
+export interface HunterReviewItem {
+    id: string;
+    project_id: string;
+    scan_id: string | null;
+    raw_item_id: string;
+    platform: string;
+    external_url: string | null;
+    title: string | null;
+    content: string;
+    author: string | null;
+    posted_at: string | null;
+    relevance_score: number;
+    confidence: 'high' | 'medium' | 'low' | null;
+    reasoning: string | null;
+    filters_applied: RelevanceResult['filtersApplied'] | Record<string, never>;
+    instant_disqualification: RelevanceResult['instantDisqualification'] | null;
+    positive_signals: string[];
+    status: ReviewStatus;
+    feedback_id: string | null;
+    reviewed_by: string | null;
+    reviewed_at: string | null;
+    created_at: string;
+}
+
+export interface ReviewLabel {
+    score: number;
+    decision: ReviewDecision;
+}
+
+/**
+ * Thrown when another reviewer resolved the item first
+ */
+export class ReviewAlreadyResolvedError extends Error {
+    constructor(public reviewId: string) {
+        super('Review item was already reviewed');
+        this.name = 'ReviewAlreadyResolvedError';
+    }
+}
+
+// Labels used to calibrate thresholds, and examples shown to the filter
+const CALIBRATION_WINDOW = 200;
+const PROMPT_EXAMPLES = 6;
+
+// Calibration needs this many labels before moving off the defaults, and
+// reviewers must agree at least this often on one side of a new cut-off
+const MIN_LABELS = 10;
+const MIN_LABELS_PER_SIDE = 3;
+const MIN_AGREEMENT = 0.9;
+// Never close the band entirely, so reviewers keep producing labels
+const MIN_REVIEW_BAND = 5;
+
+// ==========================================
+// Queue
+// ==========================================
+
+/**
+ * Hold a human_review item for a reviewer
+ */
+export async function enqueueForReview(item: HunterRawItem, result: RelevanceResult): Promise<void> {
+    const { error } = await getSupabase()
+        .from('hunter_review_queue')
+        .upsert({
+            project_id: item.project_id,
+            scan_id: item.scan_id,
+            raw_item_id: item.id,
+            platform: item.platform,
+            external_url: item.external_url,
+            title: item.title,
+            content: item.content,
+            author: item.author,
+            posted_at: item.posted_at,
+            relevance_score: result.relevanceScore,
+            confidence: result.confidence,
+            reasoning: result.reasoning,
+            filters_applied: result.filtersApplied,
+            instant_disqualification: result.instantDisqualification,
+            positive_signals: result.positiveSignals,
+            status: 'pending',
+        }, {
+            onConflict: 'raw_item_id',
+        });
+
+    if (error) {
+        console.error('[ReviewQueue] Error enqueueing item:', error);
+    }
+}
+
+/**
+ * Review items for a project, newest first
+ */
+export async function getReviewQueue(
+    projectId: string,
+    options: { status?: ReviewStatus; limit?: number; offset?: number } = {}
+): Promise<{ items: HunterReviewItem[]; total: number }> {
+    const { status = 'pending', limit = 50, offset = 0 } = options;
+
+    const { data, error, count } = await getSupabase()
+        .from('hunter_review_queue')
+        .select('*', { count: 'exact' })
+        .eq('project_id', projectId)
+        .eq('status', status)
+        .order(status === 'pending' ? 'created_at' : 'reviewed_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+    if (error) {
+        console.error('[ReviewQueue] Error loading queue:', error);
+        return { items: [], total: 0 };
+    }
+
+    return { items: data || [], total: count || 0 };
+}
+
+/**
+ * Apply a reviewer's decision: include classifies the item into
+ * discovered_feedback, exclude marks the raw item excluded
+ * The item is claimed with a conditional update before any work, so two
+ * reviewers deciding at once can't both store it. Returns null if the item
+ * is not in this project; throws ReviewAlreadyResolvedError if it is no
+ * longer pending.
+ */
+export async function resolveReview(
+    projectId: string,
+    reviewId: string,
+    decision: ReviewDecision,
+    reviewerId: string
+): Promise<HunterReviewItem | null> {
+    const supabase = getSupabase();
+
+    const { data: existing } = await supabase
+        .from('hunter_review_queue')
+        .select('id')
+        .eq('id', reviewId)
+        .eq('project_id', projectId)
+        .maybeSingle();
+
+    if (!existing) {
+        return null;
+    }
+
+    const status: ReviewStatus = decision === 'include' ? 'included' : 'excluded';
+
+    const { data: review, error: claimError } = await supabase
+        .from('hunter_review_queue')
+        .update({
+            status,
+            reviewed_by: reviewerId,
+            reviewed_at: new Date().toISOString(),
+        })
+        .eq('id', reviewId)
+        .eq('status', 'pending')
+        .select('*')
+        .maybeSingle();
+
+    if (claimError) {
+        throw new Error(`Failed to claim review: ${claimError.message}`);
+    }
+    if (!review) {
+        throw new ReviewAlreadyResolvedError(reviewId);
+    }
+
+    const reason = `Reviewer ${status} (model: ${review.reasoning || 'no reasoning'})`;
+    let feedbackId: string | null = null;
+
+    try {
+        if (decision === 'include') {
+            await updateItemRelevance(review.raw_item_id, review.relevance_score, 'include', reason);
+
+            const { data: rawItem } = await supabase
+                .from('hunter_raw_items')
+                .select('*')
+                .eq('id', review.raw_item_id)
+                .single();
+
+            if (!rawItem) {
+                throw new Error('Raw item for review not found');
+            }
+
+            const openai = getOpenAI('hunter_scan');
+            const usage: HunterApiUsage[] = [];
+            feedbackId = await withAICostContext(
+                { projectId, feature: 'hunter_scan' },
+                () => storeClassifiedItem(supabase, rawItem, async () => {
+                    const classification = applyLabelClassification(
+                        rawItem,
+                        await classifyItem(openai, rawItem.content, rawItem.title, usage)
+                    );
+                    await updateItemClassification(rawItem.id, classification);
+                    return classification;
+                }, undefined, usage)
+            );
+            await recordScanUsage(
+                rawItem.scan_id,
+                projectId,
+                rawItem.platform,
+                'classify',
+                usage.map(entry => ({ ...entry, source: rawItem.source || undefined }))
+            );
+            if (!feedbackId) {
+                throw new Error('Failed to store reviewed feedback');
+            }
+            await markItemStored(rawItem.id);
+        } else {
+            await updateItemRelevance(review.raw_item_id, review.relevance_score, 'exclude', reason);
+        }
+    } catch (error) {
+        // Release the claim so the item can be reviewed again
+        await supabase
+            .from('hunter_review_queue')
+            .update({ status: 'pending', reviewed_by: null, reviewed_at: null })
+            .eq('id', reviewId);
+        throw error;
+    }
+
+    let resolved: HunterReviewItem = review;
+    if (feedbackId) {
+        const { data, error } = await supabase
+            .from('hunter_review_queue')
+            .update({ feedback_id: feedbackId })
+            .eq('id', reviewId)
+            .select('*')
+            .single();
+
+        if (error) {
+            throw new Error(`Failed to record review: ${error.message}`);
+        }
+        resolved = data;
+    }
+
+    await recalibrateThresholds(projectId);
+
+    return resolved;
+}
+
+// ==========================================
+// Calibration
+// ==========================================
+
+function agreement(labels: ReviewLabel[], decision: ReviewDecision): number {
+    return labels.filter(label => label.decision === decision).length / labels.length;
+}
+
+/**
+ * Move the thresholds to where reviewers consistently agree.
+ *
+ * Labels only exist inside the review band, so the include threshold can
+ * drop to the lowest score above which reviewers (almost) always include,
+ * and the exclude threshold can rise to just above the highest score below
+ * which they (almost) always exclude.
+ */
+export function calibrateThresholds(
+    labels: ReviewLabel[],
+    defaults: RelevanceThresholds = DEFAULT_RELEVANCE_THRESHOLDS
+): RelevanceThresholds {
+    if (labels.length < MIN_LABELS) {
+        return { ...defaults };
+    }
+
+    const scoresLabelled = (decision: ReviewDecision) => [...new Set(
+        labels.filter(label => label.decision === decision).map(label => label.score)
+    )].sort((a, b) => a - b);
+    let include = defaults.include;
+    let exclude = defaults.exclude;
+
+    // Cut-offs sit on a score the reviewer actually labelled that way
+    for (const score of scoresLabelled('include')) {
+        const atOrAbove = labels.filter(label => label.score >= score);
+        if (atOrAbove.length >= MIN_LABELS_PER_SIDE && agreement(atOrAbove, 'include') >= MIN_AGREEMENT) {
+            include = Math.min(include, score);
+            break;
+        }
+    }
+
+    for (const score of scoresLabelled('exclude').reverse()) {
+        const atOrBelow = labels.filter(label => label.score <= score);
+        if (atOrBelow.length >= MIN_LABELS_PER_SIDE && agreement(atOrBelow, 'exclude') >= MIN_AGREEMENT) {
+            exclude = Math.max(exclude, score + 1);
+            break;
+        }
+    }
+
+    if (include - exclude < MIN_REVIEW_BAND) {
+        const middle = Math.round((include + exclude) / 2);
+        include = Math.min(defaults.include, middle + Math.ceil(MIN_REVIEW_BAND / 2));
+        exclude = include - MIN_REVIEW_BAND;
+    }
+
+    return { include, exclude };
+}
+
+/**
+ * Recompute the project's thresholds from its most recent labels
+ */
+export async function recalibrateThresholds(projectId: string): Promise<RelevanceThresholds> {
+    const supabase = getSupabase();
+
+    const { data } = await supabase
+        .from('hunter_review_queue')
+        .select('relevance_score, status')
+        .eq('project_id', projectId)
+        .neq('status', 'pending')
+        .order('reviewed_at', { ascending: false })
+        .limit(CALIBRATION_WINDOW);
+
+    const labels: ReviewLabel[] = (data || []).map(row => ({
+        score: row.relevance_score,
+        decision: row.status === 'included' ? 'include' : 'exclude',
+    }));
+    const thresholds = calibrateThresholds(labels);
+
+    const { error } = await supabase
+        .from('hunter_relevance_thresholds')
+        .upsert({
+            project_id: projectId,
+            include_threshold: thresholds.include,
+            exclude_threshold: thresholds.exclude,
+            labelled_count: labels.length,
+            updated_at: new Date().toISOString(),
+        }, {
+            onConflict: 'project_id',
+        });
+
+    if (error) {
+        console.error('[ReviewQueue] Error saving thresholds:', error);
+    }
+
+    return thresholds;
+}
+
+/**
+ * Stored thresholds for a project, or null while it still uses the defaults
+ */
+export async function getProjectThresholds(
+    projectId: string
+): Promise<(RelevanceThresholds & { labelledCount: number; updatedAt: string }) | null> {
+    const { data } = await getSupabase()
+        .from('hunter_relevance_thresholds')
+        .select('include_threshold, exclude_threshold, labelled_count, updated_at')
+        .eq('project_id', projectId)
+        .maybeSingle();
+
+    if (!data) {
+        return null;
+    }
+
+    return {
+        include: data.include_threshold,
+        exclude: data.exclude_threshold,
+        labelledCount: data.labelled_count,
+        updatedAt: data.updated_at,
+    };
+}
+
+/**
+ * Thresholds and recent labelled examples for the relevance filter
+ */
+export async function getRelevanceCalibration(projectId: string): Promise<RelevanceCalibration> {
+    const supabase = getSupabase();
+
+    const [thresholds, { data: included }, { data: excluded }] = await Promise.all([
+        getProjectThresholds(projectId),
+        getRecentLabels(supabase, projectId, 'included'),
+        getRecentLabels(supabase, projectId, 'excluded'),
+    ]);
+
+    const toExample = (decision: ReviewDecision) => (row: HunterReviewItem): LabelledExample => ({
+        platform: row.platform,
+        title: row.title,
+        content: row.content,
+        relevanceScore: row.relevance_score,
+        decision,
+    });
+
+    return {
+        thresholds: thresholds
+            ? { include: thresholds.include, exclude: thresholds.exclude }
+            : { ...DEFAULT_RELEVANCE_THRESHOLDS },
+        // Balanced so the examples don't bias the model towards one side
+        examples: [
+            ...(included || []).map(toExample('include')),
+            ...(excluded || []).map(toExample('exclude')),
+        ],
+    };
+}
+
+function getRecentLabels(supabase: SupabaseClient, projectId: string, status: ReviewStatus) {
+    return supabase
+        .from('hunter_review_queue')
+        .select('*')
+        .eq('project_id', projectId)
+        .eq('status', status)
+        .order('reviewed_at', { ascending: false })
+        .limit(PROMPT_EXAMPLES / 2);
+}
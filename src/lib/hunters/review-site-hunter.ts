@@ -48,6 +48,10 @@ interface XAIResponse {
         title?: string;
         snippet?: string;
     }[];
+    usage?: {
+        prompt_tokens?: number;
+        completion_tokens?: number;
+    };
 }
 
 /**
@@ -289,6 +293,14 @@ Look for reviews from the past 7 days if available. Return at least 5-10 reviews
             const data: XAIResponse = await response.json();
             const content = data.choices?.[0]?.message?.content || '';
 
+            this.recordApiUsage({
+                provider: 'grok',
+                model: 'grok-3-fast',
+                calls: 1,
+                promptTokens: data.usage?.prompt_tokens || 0,
+                completionTokens: data.usage?.completion_tokens || 0,
+            });
+
             console.log('[ReviewSite/Grok] Raw response length:', content.length);
 
             // Parse the JSON response
@@ -0,0 +1,460 @@
+/**
+ * Hunter Scan Analytics
+ * Funnel counts (discovered -> relevant -> classified -> stored) per scan,
+ * and yield and cost per source - the keyword, subreddit or tag that
+ * surfaced the items - with recommendations to prune sources that cost
+ * more than they return
+ */
+
+import { getServiceRoleClient } from '@/lib/supabase-singleton';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { HunterConfig, PlatformConfig, PlatformIntegration } from '@/types/hunter';
+import { getSubredditsForCategory } from './subreddit-map';
+
+function getSupabase(): SupabaseClient {
+    const client = getServiceRoleClient();
+    if (!client) {
+        throw new Error('[ScanAnalytics] Supabase client not available - missing env vars');
+    }
+    return client;
+}
+
+// ==========================================
+// Types
+// ==========================================
+
+export interface FunnelCounts {
+    discovered: number;
+    relevant: number;
+    review: number;
+    excluded: number;
+    classified: number;
+    stored: number;
+}
+
+/** Row from get_hunter_scan_funnel */
+export interface FunnelRow extends FunnelCounts {
+    scan_id: string;
+    started_at: string;
+    platform: string;
+    source: string | null;
+}
+
+/** Row from hunter_scan_usage */
+export interface UsageRow {
+    scan_id: string;
+    platform: string;
+    stage: 'discovery' | 'relevance' | 'classify';
+    source: string | null;
+    calls: number;
+    cost_usd: number | string;
+    created_at: string;
+}
+
+export interface ScanFunnel extends FunnelCounts {
+    scanId: string;
+    startedAt: string;
+    platforms: string[];
+    costUsd: number;
+}
+
+export interface SourceYield extends FunnelCounts {
+    platform: string;
+    // null for items from hunters that don't report a source
+    source: string | null;
+    scans: number;
+    calls: number;
+    costUsd: number;
+    // stored / discovered
+    yieldRate: number;
+    costPerStored: number | null;
+}
+
+export interface ScanAnalytics {
+    scans: ScanFunnel[];
+    sources: SourceYield[];
+    totals: FunnelCounts & { costUsd: number };
+}
+
+/** Config list a source can be removed from */
+export type PruneField =
+    | 'subreddits'
+    | 'stackexchange_tags'
+    | 'twitter_search_terms'
+    | 'hn_keywords'
+    | 'keywords'
+    | 'name_variations';
+
+export interface PruneTarget {
+    platform: string;
+    field: PruneField;
+    value: string;
+}
+
+export interface PruneRecommendation extends PruneTarget {
+    source: string;
+    reason: string;
+    discovered: number;
+    stored: number;
+    costUsd: number;
+    // Replacement subreddits for the product category
+    suggestions: string[];
+}
+
+// Integration config fields vs fields on hunter_configs itself
+const INTEGRATION_FIELDS: Partial<Record<PruneField, keyof PlatformConfig>> = {
+    subreddits: 'subreddits',
+    stackexchange_tags: 'stackexchange_tags',
+    twitter_search_terms: 'twitter_search_terms',
+    hn_keywords: 'hn_keywords',
+};
+const PLATFORM_KEYWORD_FIELDS: Record<string, PruneField> = {
+    twitter: 'twitter_search_terms',
+    hackernews: 'hn_keywords',
+};
+
+export const PRUNE_FIELDS = Object.keys(INTEGRATION_FIELDS).concat(['keywords', 'name_variations']) as PruneField[];
+
+// A source needs this many items before its yield is judged
+export const MIN_ITEMS_FOR_PRUNE = 20;
+export const LOW_YIELD_RATE = 0.05;
+// Paid searches that found nothing in this many scans
+const MIN_EMPTY_SCANS_FOR_PRUNE = 3;
+
+const emptyCounts = (): FunnelCounts => ({
+    discovered: 0,
+    relevant: 0,
+    review: 0,
+    excluded: 0,
+    classified: 0,
+    stored: 0,
+});
+
+const FUNNEL_KEYS = Object.keys(emptyCounts()) as Array<keyof FunnelCounts>;
+
+function addCounts(target: FunnelCounts, row: FunnelCounts): void {
+    for (const key of FUNNEL_KEYS) {
+        target[key] += Number(row[key]) || 0;
+    }
+}
+
+const sourceKey = (platform: string, source: string | null) => `${platform}|${source ?? ''}`;
+const roundCost = (cost: number) => Math.round(cost * 1e6) / 1e6;
+
+// ==========================================
+// Aggregation
+// ==========================================
+
+/**
+ * Combine funnel rows and usage rows into per-scan and per-source analytics
+ *
+ * Usage recorded with a source is charged to it directly. Usage without a
+ * source (relevance batches, classify calls for unsourced items, review-site
+ * searches) is split across the scan's sources on that platform by their
+ * share of the items the stage processed: discovered items for discovery
+ * and relevance, relevant items for classify.
+ */
+export function buildScanAnalytics(funnelRows: FunnelRow[], usageRows: UsageRow[]): ScanAnalytics {
+    const scans = new Map<string, ScanFunnel>();
+    const sources = new Map<string, SourceYield & { scanIds: Set<string> }>();
+    const totals = { ...emptyCounts(), costUsd: 0 };
+
+    const getScan = (scanId: string, startedAt: string) => {
+        let scan = scans.get(scanId);
+        if (!scan) {
+            scan = { scanId, startedAt, platforms: [], costUsd: 0, ...emptyCounts() };
+            scans.set(scanId, scan);
+        }
+        return scan;
+    };
+
+    const getSource = (platform: string, source: string | null) => {
+        const key = sourceKey(platform, source);
+        let entry = sources.get(key);
+        if (!entry) {
+            entry = {
+                platform,
+                source,
+                scans: 0,
+                calls: 0,
+                costUsd: 0,
+                yieldRate: 0,
+                costPerStored: null,
+                scanIds: new Set(),
+                ...emptyCounts(),
+            };
+            sources.set(key, entry);
+        }
+        return entry;
+    };
+
+    // Funnel rows per scan and platform, for apportioning unsourced usage
+    const rowsByScanPlatform = new Map<string, FunnelRow[]>();
+
+    for (const row of funnelRows) {
+        const scan = getScan(row.scan_id, row.started_at);
+        addCounts(scan, row);
+        if (!scan.platforms.includes(row.platform)) scan.platforms.push(row.platform);
+
+        const entry = getSource(row.platform, row.source);
+        addCounts(entry, row);
+        entry.scanIds.add(row.scan_id);
+
+        addCounts(totals, row);
+
+        const key = `${row.scan_id}|${row.platform}`;
+        rowsByScanPlatform.set(key, [...(rowsByScanPlatform.get(key) || []), row]);
+    }
+
+    for (const usage of usageRows) {
+        const cost = Number(usage.cost_usd) || 0;
+        getScan(usage.scan_id, usage.created_at).costUsd += cost;
+        totals.costUsd += cost;
+
+        if (usage.source) {
+            const entry = getSource(usage.platform, usage.source);
+            entry.costUsd += cost;
+            entry.calls += usage.calls;
+            entry.scanIds.add(usage.scan_id);
+            continue;
+        }
+
+        const rows = rowsByScanPlatform.get(`${usage.scan_id}|${usage.platform}`) || [];
+        const weight = (row: FunnelRow) =>
+            Number(usage.stage === 'classify' ? row.relevant : row.discovered) || 0;
+        const totalWeight = rows.reduce((sum, row) => sum + weight(row), 0);
+
+        if (totalWeight === 0) {
+            const entry = getSource(usage.platform, null);
+            entry.costUsd += cost;
+            entry.calls += usage.calls;
+            continue;
+        }
+
+        for (const row of rows) {
+            const share = weight(row) / totalWeight;
+            if (share === 0) continue;
+            const entry = getSource(row.platform, row.source);
+            entry.costUsd += cost * share;
+            entry.calls += usage.calls * share;
+        }
+    }
+
+    const sourceList: SourceYield[] = [...sources.values()].map(({ scanIds, ...entry }) => ({
+        ...entry,
+        scans: scanIds.size,
+        calls: Math.round(entry.calls),
+        costUsd: roundCost(entry.costUsd),
+        yieldRate: entry.discovered > 0 ? entry.stored / entry.discovered : 0,
+        costPerStored: entry.stored > 0 ? roundCost(entry.costUsd / entry.stored) : null,
+    }));
+
+    return {
+        scans: [...scans.values()]
+            .map(scan => ({ ...scan, costUsd: roundCost(scan.costUsd) }))
+            .sort((a, b) => b.startedAt.localeCompare(a.startedAt)),
+        sources: sourceList.sort((a, b) => b.costUsd - a.costUsd || b.discovered - a.discovered),
+        totals: { ...totals, costUsd: roundCost(totals.costUsd) },
+    };
+}
+
+// ==========================================
+// Prune Recommendations
+// ==========================================
+
+const findValue = (list: string[] | undefined, value: string) =>
+    (list || []).find(item => item.toLowerCase() === value.toLowerCase());
+
+/**
+ * Map a source back to the config list entry that produces it. Built-in
+ * queries (the company name, reddit's experience phrases) have no entry.
+ */
+export function resolvePruneTarget(
+    platform: string,
+    source: string,
+    config: HunterConfig,
+    integrations: PlatformIntegration[]
+): PruneTarget | null {
+    const integrationConfig = integrations.find(i => i.platform_type === platform)?.config || {};
+
+    if (source.startsWith('r/')) {
+        const value = findValue(integrationConfig.subreddits, source.slice(2));
+        return value ? { platform, field: 'subreddits', value } : null;
+    }
+
+    if (source.startsWith('tag:')) {
+        const value = findValue(integrationConfig.stackexchange_tags, source.slice(4));
+        return value ? { platform, field: 'stackexchange_tags', value } : null;
+    }
+
+    if (source.startsWith('keyword:')) {
+        const term = source.slice(8).trim().replace(/^"(.*)"$/, '$1');
+        if (term.toLowerCase() === config.company_name?.toLowerCase()) return null;
+
+        const platformField = PLATFORM_KEYWORD_FIELDS[platform];
+        if (platformField) {
+            const value = findValue(integrationConfig[INTEGRATION_FIELDS[platformField]!] as string[], term);
+            if (value) return { platform, field: platformField, value };
+        }
+
+        const keyword = findValue(config.keywords, term);
+        if (keyword) return { platform, field: 'keywords', value: keyword };
+
+        const variation = findValue(config.name_variations, term);
+        if (variation) return { platform, field: 'name_variations', value: variation };
+    }
+
+    return null;
+}
+
+/**
+ * Sources that surfaced enough items to judge but rarely produced stored
+ * feedback, or paid searches that keep finding nothing
+ */
+export function recommendPrunes(
+    sources: SourceYield[],
+    config: HunterConfig,
+    integrations: PlatformIntegration[]
+): PruneRecommendation[] {
+    const recommendations: PruneRecommendation[] = [];
+
+    for (const entry of sources) {
+        if (!entry.source) continue;
+
+        const lowYield = entry.discovered >= MIN_ITEMS_FOR_PRUNE && entry.yieldRate < LOW_YIELD_RATE;
+        const paidAndEmpty = entry.discovered === 0 && entry.costUsd > 0 && entry.scans >= MIN_EMPTY_SCANS_FOR_PRUNE;
+        if (!lowYield && !paidAndEmpty) continue;
+
+        const target = resolvePruneTarget(entry.platform, entry.source, config, integrations);
+        if (!target) continue;
+
+        const reason = lowYield
+            ? `Stored ${entry.stored} of ${entry.discovered} items (${(entry.yieldRate * 100).toFixed(1)}%) across ${entry.scans} scans`
+            : `Found nothing in ${entry.scans} scans`;
+
+        let suggestions: string[] = [];
+        if (target.field === 'subreddits') {
+            const configured = integrations.find(i => i.platform_type === 'reddit')?.config.subreddits || [];
+            suggestions = getSubredditsForCategory(config.product_category || config.industry || '')
+                .filter(subreddit => !findValue(configured, subreddit))
+                .slice(0, 3);
+        }
+
+        recommendations.push({
+            ...target,
+            source: entry.source,
+            reason: entry.costUsd > 0 ? `${reason}, costing $${entry.costUsd.toFixed(4)}` : reason,
+            discovered: entry.discovered,
+            stored: entry.stored,
+            costUsd: entry.costUsd,
+            suggestions,
+        });
+    }
+
+    // Config-wide keywords affect every platform; recommend each once
+    const seen = new Set<string>();
+    return recommendations.filter(rec => {
+        const key = INTEGRATION_FIELDS[rec.field]
+            ? `${rec.platform}|${rec.field}|${rec.value.toLowerCase()}`
+            : `${rec.field}|${rec.value.toLowerCase()}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+// ==========================================
+// Database
+// ==========================================
+
+/**
+ * Funnel, per-source yield and prune recommendations for the last `days`
+ */
+export async function getScanAnalytics(
+    projectId: string,
+    days: number
+): Promise<ScanAnalytics & { recommendations: PruneRecommendation[] }> {
+    const supabase = getSupabase();
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const [funnel, usage, config, integrations] = await Promise.all([
+        supabase.rpc('get_hunter_scan_funnel', { p_project_id: projectId, p_since: since }),
+        supabase
+            .from('hunter_scan_usage')
+            .select('scan_id, platform, stage, source, calls, cost_usd, created_at')
+            .eq('project_id', projectId)
+            .gte('created_at', since),
+        supabase.from('hunter_configs').select('*').eq('project_id', projectId).maybeSingle(),
+        supabase.from('platform_integrations').select('*').eq('project_id', projectId),
+    ]);
+
+    if (funnel.error) throw funnel.error;
+    if (usage.error) throw usage.error;
+
+    const analytics = buildScanAnalytics(
+        (funnel.data || []) as FunnelRow[],
+        (usage.data || []) as UsageRow[]
+    );
+
+    const recommendations = config.data
+        ? recommendPrunes(
+            analytics.sources,
+            config.data as HunterConfig,
+            (integrations.data || []) as PlatformIntegration[]
+        )
+        : [];
+
+    return { ...analytics, recommendations };
+}
+
+/**
+ * Remove a source from its config list. Returns false if it wasn't there.
+ */
+export async function applyPrune(projectId: string, target: PruneTarget): Promise<boolean> {
+    const supabase = getSupabase();
+    const remove = (list: string[] | undefined) =>
+        (list || []).filter(item => item.toLowerCase() !== target.value.toLowerCase());
+
+    const integrationField = INTEGRATION_FIELDS[target.field];
+
+    if (integrationField) {
+        const { data: integration } = await supabase
+            .from('platform_integrations')
+            .select('id, config')
+            .eq('project_id', projectId)
+            .eq('platform_type', target.platform)
+            .maybeSingle();
+
+        const current = integration?.config?.[integrationField] as string[] | undefined;
+        if (!integration || !findValue(current, target.value)) return false;
+
+        const { error } = await supabase
+            .from('platform_integrations')
+            .update({
+                config: { ...integration.config, [integrationField]: remove(current) },
+                updated_at: new Date().toISOString(),
+            })
+            .eq('id', integration.id);
+
+        if (error) throw error;
+        return true;
+    }
+
+    const field = target.field as 'keywords' | 'name_variations';
+    const { data: config } = await supabase
+        .from('hunter_configs')
+        .select(`id, ${field}`)
+        .eq('project_id', projectId)
+        .maybeSingle();
+
+    const current = (config as Record<string, unknown> | null)?.[field] as string[] | undefined;
+    if (!config || !findValue(current, target.value)) return false;
+
+    const { error } = await supabase
+        .from('hunter_configs')
+        .update({ [field]: remove(current), updated_at: new Date().toISOString() })
+        .eq('project_id', projectId);
+
+    if (error) throw error;
+    return true;
+}
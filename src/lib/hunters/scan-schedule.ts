@@ -0,0 +1,291 @@
+/**
+ * Hunter Scan Scheduling
+ * Per-platform cron schedules and quiet hours, read in the integration's
+ * timezone. Integrations without a schedule scan every
+ * scan_frequency_minutes as before.
+ */
+
+import type { PlatformIntegration, QuietHours } from '@/types/hunter';
+
+// ==========================================
+// Cron Expressions
+// ==========================================
+
+export interface CronSchedule {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    // Both day fields restricted: a day matching either runs (standard cron)
+    dayOfMonthRestricted: boolean;
+    dayOfWeekRestricted: boolean;
+}
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12 },
+    { name: 'day of week', min: 0, max: 7 },
+];
+
+// Cron runs this often at most; the hunter-scan cron ticks every 15 minutes
+export const MIN_SCHEDULE_INTERVAL_MINUTES = 15;
+
+function parseField(field: string, index: number): Set<number> {
+    const { name, min, max } = FIELD_RANGES[index];
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const [range, stepText] = part.split('/');
+        const step = stepText === undefined ? 1 : Number(stepText);
+        if (!Number.isInteger(step) || step < 1) {
+            throw new Error(`Invalid step "${stepText}" in ${name} field`);
+        }
+
+        let start: number;
+        let end: number;
+        if (range === '*') {
+            start = min;
+            end = max;
+        } else if (range.includes('-')) {
+            [start, end] = range.split('-').map(Number);
+        } else {
+            start = Number(range);
+            end = stepText === undefined ? start : max;
+        }
+
+        if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+            throw new Error(`Invalid ${name} "${part}" (expected ${min}-${max})`);
+        }
+
+        for (let value = start; value <= end; value += step) {
+            // Sunday is both 0 and 7
+            values.add(index === 4 && value === 7 ? 0 : value);
+        }
+    }
+
+    return values;
+}
+
+/**
+ * Parse a five-field cron expression (minute hour day-of-month month
+ * day-of-week). Supports *, lists, ranges and steps.
+ */
+export function parseCron(expression: string): CronSchedule {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error('Schedule must have 5 fields: minute hour day-of-month month day-of-week');
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(parseField);
+
+    return {
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        dayOfMonthRestricted: fields[2] !== '*',
+        dayOfWeekRestricted: fields[4] !== '*',
+    };
+}
+
+// ==========================================
+// Timezones
+// ==========================================
+
+interface LocalTime {
+    month: number;
+    day: number;
+    weekday: number;
+    hour: number;
+    minute: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function isValidTimezone(timezone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function localTime(date: Date, timezone: string): LocalTime {
+    let formatter = formatters.get(timezone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone,
+            hourCycle: 'h23',
+            month: 'numeric',
+            day: 'numeric',
+            weekday: 'short',
+            hour: 'numeric',
+            minute: 'numeric',
+        });
+        formatters.set(timezone, formatter);
+    }
+
+    const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, part.value]));
+    return {
+        month: Number(parts.month),
+        day: Number(parts.day),
+        weekday: WEEKDAYS.indexOf(parts.weekday),
+        hour: Number(parts.hour),
+        minute: Number(parts.minute),
+    };
+}
+
+// ==========================================
+// Next Run
+// ==========================================
+
+const MINUTE = 60 * 1000;
+// A year of day-skips plus a day of minute steps
+const MAX_STEPS = 366 + 24 + 60;
+
+function dayMatches(schedule: CronSchedule, local: LocalTime): boolean {
+    const dom = schedule.daysOfMonth.has(local.day);
+    const dow = schedule.daysOfWeek.has(local.weekday);
+    if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) return dom || dow;
+    return dom && dow;
+}
+
+/**
+ * First time strictly after `from` that the schedule fires
+ */
+export function nextCronOccurrence(schedule: CronSchedule, from: Date, timezone = 'UTC'): Date {
+    let time = Math.floor(from.getTime() / MINUTE) * MINUTE + MINUTE;
+
+    for (let step = 0; step < MAX_STEPS * 60; step++) {
+        const local = localTime(new Date(time), timezone);
+
+        if (!schedule.months.has(local.month) || !dayMatches(schedule, local)) {
+            // Skip to the next local midnight
+            time += ((23 - local.hour) * 60 + (60 - local.minute)) * MINUTE;
+        } else if (!schedule.hours.has(local.hour)) {
+            time += (60 - local.minute) * MINUTE;
+        } else if (!schedule.minutes.has(local.minute)) {
+            time += MINUTE;
+        } else {
+            return new Date(time);
+        }
+    }
+
+    throw new Error('Schedule never fires');
+}
+
+// ==========================================
+// Quiet Hours
+// ==========================================
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+function toMinutes(time: string): number {
+    const match = TIME_PATTERN.exec(time);
+    if (!match) throw new Error(`Invalid time "${time}" (expected HH:MM)`);
+    return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Whether `date` falls inside the quiet window [start, end)
+ */
+export function isInQuietHours(date: Date, quietHours: QuietHours | null | undefined, timezone = 'UTC'): boolean {
+    if (!quietHours) return false;
+
+    const start = toMinutes(quietHours.start);
+    const end = toMinutes(quietHours.end);
+    if (start === end) return false;
+
+    const local = localTime(date, timezone);
+    const now = local.hour * 60 + local.minute;
+
+    return start < end
+        ? now >= start && now < end
+        : now >= start || now < end;
+}
+
+/**
+ * When the quiet window containing `date` ends
+ */
+export function quietHoursEnd(date: Date, quietHours: QuietHours, timezone = 'UTC'): Date {
+    const local = localTime(date, timezone);
+    const now = local.hour * 60 + local.minute;
+    const untilEnd = (toMinutes(quietHours.end) - now + 24 * 60) % (24 * 60);
+    return new Date(Math.floor(date.getTime() / MINUTE) * MINUTE + untilEnd * MINUTE);
+}
+
+// ==========================================
+// Integration Schedules
+// ==========================================
+
+type ScheduledIntegration = Pick<
+    PlatformIntegration,
+    'scan_frequency_minutes' | 'scan_schedule' | 'schedule_timezone' | 'quiet_hours'
+>;
+
+/**
+ * Check a schedule before saving it. Returns an error message, or null.
+ */
+export function validateSchedule(input: {
+    scanSchedule?: string | null;
+    scheduleTimezone?: string;
+    quietHours?: QuietHours | null;
+}): string | null {
+    const timezone = input.scheduleTimezone || 'UTC';
+    if (!isValidTimezone(timezone)) {
+        return `Unknown timezone "${timezone}"`;
+    }
+
+    if (input.scanSchedule) {
+        try {
+            const schedule = parseCron(input.scanSchedule);
+            // Two consecutive runs closer together than the cron tick would be skipped
+            const first = nextCronOccurrence(schedule, new Date(), timezone);
+            const second = nextCronOccurrence(schedule, first, timezone);
+            if (second.getTime() - first.getTime() < MIN_SCHEDULE_INTERVAL_MINUTES * MINUTE) {
+                return `Schedule must run at most every ${MIN_SCHEDULE_INTERVAL_MINUTES} minutes`;
+            }
+        } catch (error) {
+            return error instanceof Error ? error.message : 'Invalid schedule';
+        }
+    }
+
+    if (input.quietHours) {
+        try {
+            toMinutes(input.quietHours.start);
+            toMinutes(input.quietHours.end);
+        } catch (error) {
+            return error instanceof Error ? error.message : 'Invalid quiet hours';
+        }
+    }
+
+    return null;
+}
+
+/**
+ * When the integration should next scan after `from`: the next cron
+ * occurrence (or `from` plus the scan frequency), moved out of quiet hours
+ */
+export function getNextScanAt(integration: ScheduledIntegration, from: Date = new Date()): Date {
+    const timezone = integration.schedule_timezone || 'UTC';
+    const schedule = integration.scan_schedule ? parseCron(integration.scan_schedule) : null;
+
+    let next = schedule
+        ? nextCronOccurrence(schedule, from, timezone)
+        : new Date(from.getTime() + integration.scan_frequency_minutes * MINUTE);
+
+    // A cron time inside quiet hours is skipped; a frequency-based run waits
+    // for the window to end
+    for (let attempt = 0; attempt < 48 && isInQuietHours(next, integration.quiet_hours, timezone); attempt++) {
+        const end = quietHoursEnd(next, integration.quiet_hours!, timezone);
+        next = schedule ? nextCronOccurrence(schedule, new Date(end.getTime() - MINUTE), timezone) : end;
+    }
+
+    return next;
+}
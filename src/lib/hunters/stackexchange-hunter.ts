@@ -0,0 +1,381 @@
+/**
+ * Stack Exchange Hunter
+ * Discovers questions and answers about the product on Stack Overflow and
+ * other Stack Exchange sites, searching by the product context's names and
+ * keywords and by configured tags
+ */
+
+import { BaseHunter } from './base-hunter';
+import { buildProductContext } from './product-context';
+import {
+    PlatformType,
+    RawFeedback,
+    HunterConfig,
+    PlatformIntegration,
+    PlatformIntegrationError,
+    HuntWindow,
+} from '@/types/hunter';
+
+interface StackExchangeOwner {
+    display_name?: string;
+    link?: string;
+    reputation?: number;
+}
+
+interface StackExchangeQuestion {
+    question_id: number;
+    title: string;
+    body?: string;
+    link: string;
+    tags: string[];
+    score: number;
+    view_count: number;
+    answer_count: number;
+    is_answered: boolean;
+    accepted_answer_id?: number;
+    closed_reason?: string;
+    closed_details?: {
+        original_questions?: Array<{ question_id: number; title: string }>;
+    };
+    owner?: StackExchangeOwner;
+    creation_date: number;
+    last_activity_date: number;
+}
+
+interface StackExchangeAnswer {
+    answer_id: number;
+    question_id: number;
+    body?: string;
+    score: number;
+    is_accepted: boolean;
+    owner?: StackExchangeOwner;
+    creation_date: number;
+}
+
+interface StackExchangeResponse<T> {
+    items?: T[];
+    has_more?: boolean;
+    quota_remaining?: number;
+    backoff?: number;
+    error_id?: number;
+    error_message?: string;
+}
+
+// Adds bodies and duplicate-closure details to the default fields
+const FILTER_INCLUDE = 'question.body;question.closed_details;answer.body';
+const FALLBACK_FILTER = 'withbody';
+let cachedFilter: string | null = null;
+
+/**
+ * Convert a Stack Exchange HTML body to plain text
+ */
+export function htmlToText(html: string): string {
+    return html
+        .replace(/<pre[^>]*>[\s\S]*?<\/pre>/gi, ' [code] ')
+        .replace(/<br\s*\/?>|<\/p>|<\/li>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&')
+        .trim();
+}
+
+export class StackExchangeHunter extends BaseHunter {
+    platform: PlatformType = 'stackexchange';
+    readonly supportsBackfill = true;
+    private readonly API_URL = 'https://api.stackexchange.com/2.3';
+    private readonly QUESTIONS_PER_QUERY = 20;
+    private readonly ANSWERS_PER_QUESTION = 3;
+    private readonly LOOKBACK_DAYS = 7;
+    private readonly MAX_CONTENT_LENGTH = 4000;
+    // Only wait out short backoffs; longer ones end the scan
+    private readonly MAX_BACKOFF_SECONDS = 10;
+    private backoffUntil = 0;
+
+    /**
+     * Hunt for questions and answers across the configured sites
+     */
+    async hunt(
+        config: HunterConfig,
+        integration: PlatformIntegration,
+        window?: HuntWindow
+    ): Promise<RawFeedback[]> {
+        try {
+            const context = buildProductContext(config);
+            const queries = [...new Set([context.name, ...context.includeTerms, ...context.keyFeatures]
+                .map(query => query?.trim())
+                .filter(Boolean))];
+            const tags = (integration.config.stackexchange_tags || [])
+                .map(tag => tag.trim().toLowerCase())
+                .filter(Boolean);
+
+            if (queries.length === 0 && tags.length === 0) {
+                console.warn('[StackExchange] No product names, keywords or tags to search for');
+                return [];
+            }
+
+            const sites = integration.config.stackexchange_sites?.length
+                ? integration.config.stackexchange_sites
+                : ['stackoverflow'];
+            const key = integration.config.stackexchange_key || process.env.STACKEXCHANGE_KEY;
+            const fromDate = Math.floor(
+                (window ? window.since.getTime() : Date.now() - this.LOOKBACK_DAYS * 24 * 60 * 60 * 1000) / 1000
+            );
+            // Backfill pages are bounded by creation date rather than activity
+            const dateRange = window
+                ? `&fromdate=${fromDate}&todate=${Math.floor(window.until.getTime() / 1000)}&sort=creation`
+                : `&fromdate=${fromDate}&sort=activity`;
+            const filter = await this.getFilter(key);
+
+            const results: RawFeedback[] = [];
+
+            for (const site of sites) {
+                try {
+                    const questions = new Map<number, StackExchangeQuestion>();
+                    // The search that first found each question
+                    const sources = new Map<number, string>();
+
+                    // Free-text search for names and keywords, tag listing for tags
+                    const searches = [
+                        ...queries.map(query => ({
+                            path: `/search/advanced?q=${encodeURIComponent(query)}`,
+                            source: `keyword:${query}`,
+                        })),
+                        ...tags.map(tag => ({
+                            path: `/questions?tagged=${encodeURIComponent(tag)}`,
+                            source: `tag:${tag}`,
+                        })),
+                    ];
+
+                    for (const search of searches) {
+                        const page = await this.request<StackExchangeQuestion>(
+                            `${search.path}&site=${site}${dateRange}&order=desc&pagesize=${this.QUESTIONS_PER_QUERY}&filter=${filter}`,
+                            key
+                        );
+
+                        for (const question of page) {
+                            if (!questions.has(question.question_id)) {
+                                questions.set(question.question_id, question);
+                                sources.set(question.question_id, search.source);
+                            }
+                        }
+                    }
+
+                    const kept = [...questions.values()].filter(question =>
+                        !this.containsExcludedKeywords(
+                            `${question.title}\n${question.body || ''}`,
+                            context.excludeTerms
+                        )
+                    );
+
+                    const answers = await this.fetchAnswers(site, kept, filter, key);
+                    results.push(...this.toFeedback(site, kept, answers, sources, context.excludeTerms));
+                } catch (error) {
+                    console.error(`[StackExchange] Error searching ${site}:`, error);
+                }
+            }
+
+            console.log(`[StackExchange] Found ${results.length} questions and answers across ${sites.length} sites`);
+            return results;
+        } catch (error) {
+            console.error('[StackExchange] Hunt error:', error);
+            throw new PlatformIntegrationError(
+                `Stack Exchange hunt failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                'stackexchange',
+                error
+            );
+        }
+    }
+
+    /**
+     * Map questions and their answers to raw feedback
+     *
+     * A question closed as a duplicate of another question in this batch
+     * folds into the original (its views and score count towards the
+     * original's engagement). One whose original isn't in the batch is kept
+     * with a duplicate_of hint for deduplication downstream.
+     */
+    private toFeedback(
+        site: string,
+        questions: StackExchangeQuestion[],
+        answers: Map<number, StackExchangeAnswer[]>,
+        sources: Map<number, string>,
+        excludeTerms: string[]
+    ): RawFeedback[] {
+        const questionId = (id: number) => `${site}:q${id}`;
+        const inBatch = new Set(questions.map(question => question.question_id));
+        const duplicatesOf = new Map<number, StackExchangeQuestion[]>();
+        const originals: StackExchangeQuestion[] = [];
+
+        for (const question of questions) {
+            const original = this.duplicateOriginal(question);
+            if (original && inBatch.has(original)) {
+                duplicatesOf.set(original, [...(duplicatesOf.get(original) || []), question]);
+            } else {
+                originals.push(question);
+            }
+        }
+
+        const results: RawFeedback[] = [];
+
+        for (const question of originals) {
+            const duplicates = duplicatesOf.get(question.question_id) || [];
+            const original = this.duplicateOriginal(question);
+            const questionAnswers = answers.get(question.question_id) || [];
+            const hasAccepted = question.accepted_answer_id !== undefined;
+
+            results.push({
+                content: this.truncate(htmlToText(question.body || question.title)),
+                title: htmlToText(question.title),
+                platform: 'stackexchange',
+                platform_id: questionId(question.question_id),
+                platform_url: question.link,
+                author_username: question.owner?.display_name,
+                author_profile_url: question.owner?.link,
+                author_metadata: {
+                    karma: question.owner?.reputation,
+                },
+                discovered_at: new Date(question.creation_date * 1000),
+                engagement_metrics: {
+                    score: question.score + duplicates.reduce((sum, dup) => sum + dup.score, 0),
+                    upvotes: Math.max(question.score, 0),
+                    views: question.view_count + duplicates.reduce((sum, dup) => sum + dup.view_count, 0),
+                    replies: question.answer_count,
+                    accepted: hasAccepted,
+                    duplicates: duplicates.length,
+                },
+                labels: question.tags,
+                ...(original !== undefined && { duplicate_of: questionId(original) }),
+                source: sources.get(question.question_id),
+            });
+
+            for (const answer of questionAnswers) {
+                if (!answer.body) continue;
+                const content = htmlToText(answer.body);
+                if (this.containsExcludedKeywords(content, excludeTerms)) continue;
+
+                results.push({
+                    content: this.truncate(content),
+                    title: `Answer: ${htmlToText(question.title)}`,
+                    platform: 'stackexchange',
+                    platform_id: `${site}:a${answer.answer_id}`,
+                    platform_url: `${new URL(question.link).origin}/a/${answer.answer_id}`,
+                    author_username: answer.owner?.display_name,
+                    author_profile_url: answer.owner?.link,
+                    author_metadata: {
+                        karma: answer.owner?.reputation,
+                    },
+                    discovered_at: new Date(answer.creation_date * 1000),
+                    engagement_metrics: {
+                        score: answer.score,
+                        upvotes: Math.max(answer.score, 0),
+                        accepted: answer.is_accepted,
+                    },
+                    labels: question.tags,
+                    source: sources.get(question.question_id),
+                });
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Top answers for the questions, accepted answer first
+     */
+    private async fetchAnswers(
+        site: string,
+        questions: StackExchangeQuestion[],
+        filter: string,
+        key?: string
+    ): Promise<Map<number, StackExchangeAnswer[]>> {
+        const byQuestion = new Map<number, StackExchangeAnswer[]>();
+        const answered = questions.filter(question => question.answer_count > 0);
+
+        // The API takes up to 100 semicolon-separated ids per call
+        for (let i = 0; i < answered.length; i += 100) {
+            const ids = answered.slice(i, i + 100).map(question => question.question_id).join(';');
+            const answers = await this.request<StackExchangeAnswer>(
+                `/questions/${ids}/answers?site=${site}&sort=votes&order=desc&pagesize=100&filter=${filter}`,
+                key
+            );
+
+            for (const answer of answers) {
+                byQuestion.set(answer.question_id, [...(byQuestion.get(answer.question_id) || []), answer]);
+            }
+        }
+
+        for (const [questionId, answers] of byQuestion) {
+            byQuestion.set(
+                questionId,
+                [...answers]
+                    .sort((a, b) => Number(b.is_accepted) - Number(a.is_accepted) || b.score - a.score)
+                    .slice(0, this.ANSWERS_PER_QUESTION)
+            );
+        }
+
+        return byQuestion;
+    }
+
+    private duplicateOriginal(question: StackExchangeQuestion): number | undefined {
+        if (question.closed_reason?.toLowerCase() !== 'duplicate') return undefined;
+        return question.closed_details?.original_questions?.[0]?.question_id;
+    }
+
+    /**
+     * Filter that adds bodies and closure details, created once per process
+     */
+    private async getFilter(key?: string): Promise<string> {
+        if (cachedFilter) return cachedFilter;
+
+        try {
+            const [created] = await this.request<{ filter: string }>(
+                `/filters/create?include=${encodeURIComponent(FILTER_INCLUDE)}&base=default&unsafe=false`,
+                key
+            );
+            if (created?.filter) {
+                cachedFilter = created.filter;
+                return cachedFilter;
+            }
+        } catch (error) {
+            console.warn('[StackExchange] Could not create filter, duplicate details unavailable:', error);
+        }
+
+        return FALLBACK_FILTER;
+    }
+
+    private async request<T>(path: string, key?: string): Promise<T[]> {
+        // The API asks clients to pause before calling again after a backoff
+        const wait = this.backoffUntil - Date.now();
+        if (wait > this.MAX_BACKOFF_SECONDS * 1000) {
+            throw new Error(`Stack Exchange asked to back off for ${Math.ceil(wait / 1000)}s`);
+        }
+        if (wait > 0) {
+            await this.delay(wait);
+        }
+
+        const url = `${this.API_URL}${path}${key ? `&key=${encodeURIComponent(key)}` : ''}`;
+        const response = await fetch(url, {
+            headers: { 'Accept': 'application/json' },
+        });
+        const data = (await response.json()) as StackExchangeResponse<T>;
+
+        if (!response.ok || data.error_id) {
+            throw new Error(`Stack Exchange API error: ${data.error_message || response.status}`);
+        }
+
+        if (data.backoff) {
+            this.backoffUntil = Date.now() + data.backoff * 1000;
+        }
+
+        return data.items || [];
+    }
+
+    private truncate(text: string): string {
+        return text.length > this.MAX_CONTENT_LENGTH
+            ? `${text.slice(0, this.MAX_CONTENT_LENGTH)}…`
+            : text;
+    }
+}
@@ -11,6 +11,7 @@ import {
   HunterConfig,
   PlatformIntegration,
   PlatformIntegrationError,
+  HuntWindow,
 } from '@/types/hunter';
 import { checkAIUsageLimit } from '@/lib/ai-rate-limit';
 import { checkGrokRateLimit } from './concurrency';
@@ -55,10 +56,15 @@ interface XAIResponse {
     title?: string;
     snippet?: string;
   }[];
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+  };
 }
 
 export class TwitterHunter extends BaseHunter {
   platform: PlatformType = 'twitter';
+  readonly supportsBackfill = true;
   private readonly XAI_API_URL = 'https://api.x.ai/v1/chat/completions';
 
   /**
@@ -66,7 +72,8 @@ export class TwitterHunter extends BaseHunter {
    */
   async hunt(
     config: HunterConfig,
-    integration: PlatformIntegration
+    integration: PlatformIntegration,
+    window?: HuntWindow
   ): Promise<RawFeedback[]> {
     try {
       // Twitter/X is Premium-only - check plan first
@@ -115,11 +122,12 @@ export class TwitterHunter extends BaseHunter {
 
       console.log('[Twitter/Grok] Search terms:', searchTerms);
 
-      // Get lookback period (default 7 days for premium feature)
+      // Get lookback period (default 7 days for premium feature), or the backfill window
       const lookbackDays = integration.config.twitter_lookback_days || 7;
-      const fromDate = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000)
+      const fromDate = (window ? window.since : new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000))
         .toISOString()
         .split('T')[0]; // YYYY-MM-DD format
+      const toDate = (window ? window.until : new Date()).toISOString().split('T')[0];
 
       const results: RawFeedback[] = [];
       const seenIds = new Set<string>();
@@ -137,6 +145,7 @@ export class TwitterHunter extends BaseHunter {
             term,
             apiKey,
             fromDate,
+            toDate,
             config.excluded_keywords,
             integration.config.twitter_usernames,
             productContext
@@ -179,6 +188,7 @@ export class TwitterHunter extends BaseHunter {
     query: string,
     apiKey: string,
     fromDate: string,
+    toDate: string,
     excludedKeywords: string[],
     targetUsernames?: string[],
     productContext?: string
@@ -279,7 +289,7 @@ Return ONLY a JSON array of posts. No explanations.`;
             mode: 'on',  // Enable live search
             sources: [{ type: 'x' }],  // Search X/Twitter
             from_date: fromDate,
-            to_date: new Date().toISOString().split('T')[0],
+            to_date: toDate,
             max_search_results: 30,
             return_citations: true,
           },
@@ -295,6 +305,15 @@ Return ONLY a JSON array of posts. No explanations.`;
       const data: XAIResponse = await response.json();
       console.log('[Twitter/Grok] API Response:', JSON.stringify(data, null, 2));
 
+      this.recordApiUsage({
+        provider: 'grok',
+        model: 'grok-4-1-fast-reasoning',
+        calls: 1,
+        promptTokens: data.usage?.prompt_tokens || 0,
+        completionTokens: data.usage?.completion_tokens || 0,
+        source: `keyword:${query}`,
+      });
+
       const content = data.choices[0]?.message?.content || '[]';
       console.log('[Twitter/Grok] Content:', content.substring(0, 500));
 
@@ -343,6 +362,7 @@ Return ONLY a JSON array of posts. No explanations.`;
             retweets: post.retweets || 0,
             replies: post.replies || 0,
           },
+          source: `keyword:${query}`,
         });
       }
 
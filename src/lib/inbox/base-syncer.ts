@@ -5,17 +5,21 @@
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import OpenAI from 'openai';
+import { getOpenAI } from '@/lib/openai-client';
 import crypto from 'crypto';
 import {
   IntegrationType,
   FeedbackIntegration,
+  IntegrationSyncState,
   RawFeedbackItem,
+  ReplyDelivery,
   UnifiedFeedbackItem,
   SyncResult,
   FeedbackCategory,
   SentimentLabel,
   EngagementMetrics,
 } from './types';
+import { RoutingEngine } from './routing-rules';
 
 export interface ClassificationResult {
   category: FeedbackCategory;
@@ -30,18 +34,22 @@ export interface ClassificationResult {
 
 export abstract class BaseSyncer {
   abstract integrationType: IntegrationType;
+
+  // Whether sendReply can post back to the source
+  readonly supportsReply: boolean = false;
   
   protected supabase: SupabaseClient;
   protected openai: OpenAI;
+
+  // Cursor state from the last fetch, saved once that sync succeeds
+  private stagedSyncState = new Map<string, IntegrationSyncState>();
   
   constructor() {
     this.supabase = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+    this.openai = getOpenAI('inbox_sync');
   }
   
   /**
@@ -49,7 +57,31 @@ export abstract class BaseSyncer {
    * Must be implemented by each syncer
    */
   abstract fetchFeedback(integration: FeedbackIntegration): Promise<RawFeedbackItem[]>;
+
+  /**
+   * Check the integration's credentials, throwing with a readable message
+   * when they don't work. Syncers with a cheap "who am I" call override this.
+   */
+  async verifyCredentials(integration: FeedbackIntegration): Promise<void> {
+    await this.fetchFeedback({
+      ...integration,
+      config: { ...integration.config, limit: 1 },
+    } as FeedbackIntegration);
+    this.stagedSyncState.delete(integration.id);
+  }
   
+  /**
+   * Reply to an item in the channel it came from. Syncers that can post
+   * back set supportsReply and override this.
+   */
+  async sendReply(
+    integration: FeedbackIntegration,
+    item: UnifiedFeedbackItem,
+    content: string
+  ): Promise<ReplyDelivery> {
+    throw new Error(`Replying isn't supported for ${this.integrationType}`);
+  }
+
   /**
    * Main sync method - fetches, processes, and stores feedback
    */
@@ -70,43 +102,16 @@ export abstract class BaseSyncer {
       itemsFound = rawItems.length;
       
       if (rawItems.length === 0) {
+        await this.commitSyncState(integration);
         return this.buildResult(integration, 'success', itemsFound, 0, 0, 0, startTime);
       }
       
       // Process each item
-      for (const rawItem of rawItems) {
-        try {
-          // Check for duplicates
-          const isDuplicate = await this.checkDuplicate(integration.projectId, rawItem);
-          if (isDuplicate) {
-            itemsDuplicates++;
-            continue;
-          }
-          
-          // Classify with AI
-          const classification = await this.classify(rawItem);
-          
-          // Resolve or create customer
-          const customerId = await this.resolveCustomer(
-            integration.projectId,
-            rawItem.authorEmail,
-            rawItem.authorName,
-            rawItem.sourceType,
-            rawItem.authorId
-          );
-          
-          // Store the feedback item
-          await this.storeItem(integration, rawItem, classification, customerId);
-          itemsImported++;
-          
-        } catch (itemError) {
-          console.error(`[${this.integrationType}] Error processing item:`, itemError);
-          itemsErrors++;
-        }
-      }
+      ({ itemsImported, itemsDuplicates, itemsErrors } = await this.processItems(integration, rawItems));
       
       // Update integration stats
       await this.updateIntegrationStats(integration.id, itemsImported, 'success');
+      await this.commitSyncState(integration);
       
       return this.buildResult(
         integration,
@@ -121,6 +126,7 @@ export abstract class BaseSyncer {
     } catch (error) {
       console.error(`[${this.integrationType}] Sync error:`, error);
       errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.stagedSyncState.delete(integration.id);
       
       await this.updateIntegrationStats(integration.id, 0, 'failed', errorMessage);
       
@@ -136,6 +142,99 @@ export abstract class BaseSyncer {
       );
     }
   }
+
+  /**
+   * Process items pushed by the source (e.g. a webhook) instead of fetched
+   */
+  async ingest(integration: FeedbackIntegration, rawItems: RawFeedbackItem[]): Promise<SyncResult> {
+    const startTime = Date.now();
+    const { itemsImported, itemsDuplicates, itemsErrors } = await this.processItems(integration, rawItems);
+
+    return this.buildResult(
+      integration,
+      itemsErrors > 0 ? 'partial' : 'success',
+      rawItems.length,
+      itemsImported,
+      itemsDuplicates,
+      itemsErrors,
+      startTime
+    );
+  }
+
+  /**
+   * Deduplicate, classify and store raw items
+   */
+  protected async processItems(
+    integration: FeedbackIntegration,
+    rawItems: RawFeedbackItem[]
+  ): Promise<{ itemsImported: number; itemsDuplicates: number; itemsErrors: number }> {
+    let itemsImported = 0;
+    let itemsDuplicates = 0;
+    let itemsErrors = 0;
+    const storedIds: string[] = [];
+
+    for (const rawItem of rawItems) {
+      try {
+        // Check for duplicates
+        const isDuplicate = await this.checkDuplicate(integration.projectId, rawItem);
+        if (isDuplicate) {
+          itemsDuplicates++;
+          continue;
+        }
+        
+        // Classify with AI
+        const classification = await this.classify(rawItem);
+        
+        // Resolve or create customer
+        const customerId = await this.resolveCustomer(
+          integration.projectId,
+          rawItem.authorEmail,
+          rawItem.authorName,
+          rawItem.sourceType,
+          rawItem.authorId
+        );
+        
+        // Store the feedback item
+        const itemId = await this.storeItem(integration, rawItem, classification, customerId);
+        if (itemId) storedIds.push(itemId);
+        itemsImported++;
+        
+      } catch (itemError) {
+        console.error(`[${this.integrationType}] Error processing item:`, itemError);
+        itemsErrors++;
+      }
+    }
+
+    // Apply the project's routing rules; a failing rule never fails the sync
+    try {
+      await new RoutingEngine(this.supabase).routeItems(integration.projectId, storedIds);
+    } catch (routingError) {
+      console.error(`[${this.integrationType}] Error routing items:`, routingError);
+    }
+
+    return { itemsImported, itemsDuplicates, itemsErrors };
+  }
+
+  /**
+   * Record where this fetch stopped; saved only if the sync succeeds
+   */
+  protected stageSyncState(integration: FeedbackIntegration, state: IntegrationSyncState): void {
+    this.stagedSyncState.set(integration.id, state);
+  }
+
+  /**
+   * Persist staged cursor state for the next sync
+   */
+  private async commitSyncState(integration: FeedbackIntegration): Promise<void> {
+    const state = this.stagedSyncState.get(integration.id);
+    if (!state) return;
+    this.stagedSyncState.delete(integration.id);
+
+    await this.supabase
+      .from('feedback_integrations')
+      .update({ sync_state: state })
+      .eq('id', integration.id);
+  }
   
   /**
    * Classify feedback using AI
@@ -254,19 +353,19 @@ ${item.engagementMetrics ? `Engagement: ${JSON.stringify(item.engagementMetrics)
   }
   
   /**
-   * Store processed feedback item
+   * Store processed feedback item, returning its ID
    */
   protected async storeItem(
     integration: FeedbackIntegration,
     rawItem: RawFeedbackItem,
     classification: ClassificationResult,
     customerId: string | null
-  ): Promise<void> {
+  ): Promise<string | null> {
     const contentHash = this.hashContent(rawItem.content);
     const contentPlain = this.stripHtml(rawItem.content);
     const engagementScore = this.calculateEngagementScore(rawItem.engagementMetrics);
     
-    await this.supabase.from('unified_feedback_items').insert({
+    const { data } = await this.supabase.from('unified_feedback_items').insert({
       project_id: integration.projectId,
       integration_id: integration.id,
       source_type: rawItem.sourceType,
@@ -278,6 +377,7 @@ ${item.engagementMetrics ? `Engagement: ${JSON.stringify(item.engagementMetrics)
       content: rawItem.content,
       content_html: rawItem.contentHtml,
       content_plain: contentPlain,
+      attachments: rawItem.attachments || [],
       author_id: rawItem.authorId,
       author_name: rawItem.authorName,
       author_email: rawItem.authorEmail,
@@ -298,7 +398,9 @@ ${item.engagementMetrics ? `Engagement: ${JSON.stringify(item.engagementMetrics)
       engagement_score: engagementScore,
       original_created_at: rawItem.originalCreatedAt.toISOString(),
       processed_at: new Date().toISOString(),
-    });
+    }).select('id').single();
+
+    return data?.id ?? null;
   }
   
   /**
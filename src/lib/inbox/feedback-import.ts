@@ -0,0 +1,896 @@
+/**
+ * Feedback Import
+ * Two-step import of CSV, JSON, JSON Lines and XLSX exports: the upload is
+ * parsed and previewed with a detected column mapping, then committed once
+ * the mapping looks right. Rows are keyed on a hash so committing the same
+ * export twice doesn't duplicate feedback.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import ExcelJS from 'exceljs';
+import crypto from 'crypto';
+import {
+  FeedbackCategory,
+  ImportColumnMapping,
+  ImportCommitResult,
+  ImportDateFormat,
+  ImportField,
+  ImportFileFormat,
+  ImportMappedRow,
+  ImportPreview,
+  ImportRowIssue,
+} from './types';
+
+export type ImportRecord = Record<string, string>;
+
+export interface ParsedImportFile {
+  columns: string[];
+  rows: ImportRecord[];
+}
+
+export interface MappedImport {
+  rows: ImportMappedRow[];
+  issues: ImportRowIssue[];
+  invalidRows: number;
+  duplicateRows: number;
+}
+
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFileError';
+  }
+}
+
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 20000;
+
+const MAX_CONTENT_LENGTH = 50000;
+const PREVIEW_SAMPLE_SIZE = 20;
+const PREVIEW_MAX_ISSUES = 200;
+const HASH_LOOKUP_CHUNK = 500;
+const INSERT_BATCH_SIZE = 200;
+
+// Header names each field is detected from, compared lowercased with
+// punctuation removed so "Author Email" and "author.email" both match
+const FIELD_SYNONYMS: Record<ImportField, string[]> = {
+  content: [
+    'content', 'description', 'body', 'text', 'message', 'feedback', 'details', 'comment',
+    'suggestionbody', 'suggestiondescription', 'postdetails', 'ideadescription',
+  ],
+  title: ['title', 'subject', 'heading', 'summary', 'suggestiontitle', 'posttitle', 'ideatitle'],
+  authorEmail: [
+    'authoremail', 'email', 'useremail', 'customeremail', 'creatoremail', 'requesteremail',
+    'submitteremail', 'emailaddress',
+  ],
+  authorName: [
+    'authorname', 'author', 'name', 'user', 'username', 'customer', 'customername', 'creatorname',
+    'creator', 'requestername', 'submittername', 'createdby',
+  ],
+  createdAt: ['createdat', 'created', 'date', 'timestamp', 'submittedat', 'createddate', 'datecreated'],
+  category: ['category', 'type', 'categoryname', 'feedbacktype', 'label', 'boardname', 'board'],
+  tags: ['tags', 'labels', 'tagnames'],
+  votes: ['votes', 'votecount', 'score', 'upvotes', 'supporterscount', 'supporters', 'likes'],
+  sourceUrl: ['url', 'link', 'permalink', 'posturl', 'suggestionurl'],
+};
+
+const FIELD_ORDER: ImportField[] = [
+  'content', 'title', 'authorEmail', 'authorName', 'createdAt', 'category', 'tags', 'votes', 'sourceUrl',
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const NUMERIC_DATE = /^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})(?:[ T,]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp][Mm])?)?/;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Work out the file format from its extension, falling back to sniffing
+ */
+export function detectFormat(filename: string, content: Buffer): ImportFileFormat | null {
+  const extension = filename.toLowerCase().split('.').pop();
+
+  if (extension === 'csv' || extension === 'tsv') return 'csv';
+  if (extension === 'jsonl' || extension === 'ndjson') return 'jsonl';
+  if (extension === 'json') return 'json';
+  if (extension === 'xlsx') return 'xlsx';
+
+  // XLSX files are zip archives
+  if (content[0] === 0x50 && content[1] === 0x4b) return 'xlsx';
+
+  const start = content.subarray(0, 1024).toString('utf-8').trimStart();
+  if (start.startsWith('[')) return 'json';
+  if (start.startsWith('{')) {
+    const firstLine = start.split(/\r?\n/)[0].trim();
+    return firstLine.endsWith('}') && start.includes('\n{') ? 'jsonl' : 'json';
+  }
+
+  return start ? 'csv' : null;
+}
+
+/**
+ * Parse an upload into a header row and one string record per data row
+ */
+export async function parseImportFile(format: ImportFileFormat, content: Buffer): Promise<ParsedImportFile> {
+  let parsed: ParsedImportFile;
+
+  switch (format) {
+    case 'csv':
+      parsed = recordsFromTable(parseCsv(stripBom(content.toString('utf-8'))));
+      break;
+    case 'json':
+      parsed = recordsFromObjects(parseJsonRecords(stripBom(content.toString('utf-8'))));
+      break;
+    case 'jsonl':
+      parsed = recordsFromObjects(parseJsonLines(stripBom(content.toString('utf-8'))));
+      break;
+    case 'xlsx':
+      parsed = recordsFromTable(await parseXlsx(content));
+      break;
+  }
+
+  if (parsed.rows.length === 0) {
+    throw new ImportFileError('No rows found in the file');
+  }
+
+  if (parsed.rows.length > MAX_IMPORT_ROWS) {
+    throw new ImportFileError(`Imports are limited to ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  return parsed;
+}
+
+/**
+ * RFC 4180 CSV, including quoted fields that span lines. The delimiter
+ * (comma, semicolon or tab) is taken from the header line.
+ */
+export function parseCsv(text: string): string[][] {
+  const headerLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t']
+    .map(candidate => ({ candidate, count: headerLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(values => values.some(value => value.trim() !== ''));
+}
+
+/**
+ * Flatten nested export objects into dotted columns, e.g. author.email.
+ * Lists of tags or labels become comma-separated names.
+ */
+export function flattenRecord(value: Record<string, unknown>, prefix = ''): ImportRecord {
+  const record: ImportRecord = {};
+
+  for (const [key, entry] of Object.entries(value)) {
+    const column = prefix ? `${prefix}.${key}` : key;
+
+    if (entry === null || entry === undefined) {
+      record[column] = '';
+    } else if (Array.isArray(entry)) {
+      record[column] = entry
+        .map(item => (item && typeof item === 'object' ? listItemName(item as Record<string, unknown>) : String(item)))
+        .filter(Boolean)
+        .join(', ');
+    } else if (typeof entry === 'object') {
+      Object.assign(record, flattenRecord(entry as Record<string, unknown>, column));
+    } else {
+      record[column] = String(entry);
+    }
+  }
+
+  return record;
+}
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+/**
+ * Guess which column holds each field from its header, falling back to
+ * the longest text column for content and an email-looking column for
+ * the author's email
+ */
+export function detectColumnMapping(columns: string[], rows: ImportRecord[]): ImportColumnMapping {
+  const mapping: ImportColumnMapping = {};
+  const used = new Set<string>();
+  const normalized = new Map(columns.map(column => [column, normalizeHeader(column)]));
+  const sample = rows.slice(0, 50);
+
+  // Exports often carry columns that are always blank, e.g. Canny's category
+  const filled = new Set(columns.filter(column => sample.some(row => row[column]?.trim())));
+
+  for (const field of FIELD_ORDER) {
+    for (const synonym of FIELD_SYNONYMS[field]) {
+      const column = columns.find(candidate =>
+        !used.has(candidate) && filled.has(candidate) && normalized.get(candidate) === synonym
+      );
+      if (column) {
+        mapping[field] = column;
+        used.add(column);
+        break;
+      }
+    }
+  }
+
+  const unused = columns.filter(column => !used.has(column));
+
+  if (!mapping.authorEmail) {
+    const emailColumn = unused.find(column => {
+      const values = sample.map(row => row[column]?.trim()).filter(Boolean);
+      return values.length > 0 && values.filter(value => EMAIL_PATTERN.test(value)).length / values.length >= 0.8;
+    });
+    if (emailColumn) {
+      mapping.authorEmail = emailColumn;
+      used.add(emailColumn);
+    }
+  }
+
+  if (!mapping.content) {
+    const longest = columns
+      .filter(column => !used.has(column))
+      .map(column => ({
+        column,
+        length: sample.reduce((sum, row) => sum + (row[column]?.length || 0), 0) / Math.max(sample.length, 1),
+      }))
+      .sort((a, b) => b.length - a.length)[0];
+    if (longest && longest.length >= 20) {
+      mapping.content = longest.column;
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Detect how dates are written from sample values. Slash dates are read
+ * as month first unless a value only makes sense day first; dotted dates
+ * default to day first.
+ */
+export function detectDateFormat(values: string[]): ImportDateFormat {
+  const sample = values.map(value => value.trim()).filter(Boolean).slice(0, 50);
+  if (sample.length === 0) return 'auto';
+
+  if (sample.every(value => /^\d{13}$/.test(value))) return 'unix_ms';
+  if (sample.every(value => /^\d{9,10}$/.test(value))) return 'unix_seconds';
+  if (sample.every(value => /^\d{4}-\d{2}-\d{2}/.test(value))) return 'iso';
+
+  const numeric = sample.map(value => value.match(NUMERIC_DATE)).filter((match): match is RegExpMatchArray => !!match);
+  if (numeric.length !== sample.length) return 'auto';
+
+  if (numeric.every(match => match[1].length === 4)) return 'ymd';
+  if (numeric.some(match => Number(match[1]) > 12)) return 'dmy';
+  if (numeric.some(match => Number(match[2]) > 12)) return 'mdy';
+
+  return sample.some(value => value.includes('.')) ? 'dmy' : 'mdy';
+}
+
+/**
+ * Read a date in the given format; null when it doesn't parse
+ */
+export function parseImportDate(value: string, format: ImportDateFormat): Date | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  if (format === 'unix_seconds' || format === 'unix_ms' || (format === 'auto' && /^\d{9,13}$/.test(trimmed))) {
+    const number = Number(trimmed);
+    if (!Number.isFinite(number)) return null;
+    const ms = format === 'unix_ms' || (format === 'auto' && trimmed.length === 13) ? number : number * 1000;
+    return new Date(ms);
+  }
+
+  if (format === 'iso' || format === 'auto') {
+    const parsed = Date.parse(trimmed);
+    return isNaN(parsed) ? null : new Date(parsed);
+  }
+
+  const match = trimmed.match(NUMERIC_DATE);
+  if (!match) return null;
+
+  const [first, second, third] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const [year, month, day] = format === 'ymd'
+    ? [first, second, third]
+    : format === 'mdy' ? [third, first, second] : [third, second, first];
+  const fullYear = year < 100 ? 2000 + year : year;
+
+  let hours = Number(match[4] || 0);
+  const meridiem = match[7]?.toLowerCase();
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+
+  const date = new Date(Date.UTC(fullYear, month - 1, day, hours, Number(match[5] || 0), Number(match[6] || 0)));
+
+  // Reject rollovers such as 31/02
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date;
+}
+
+/**
+ * Map a category label from another tool onto inbox categories
+ */
+export function mapCategory(value?: string): FeedbackCategory {
+  const raw = value?.toLowerCase() || '';
+
+  if (raw.includes('bug') || raw.includes('issue')) return 'bug';
+  if (raw.includes('feature') || raw.includes('request') || raw.includes('idea')) return 'feature_request';
+  if (raw.includes('praise') || raw.includes('positive')) return 'praise';
+  if (raw.includes('complaint') || raw.includes('negative')) return 'complaint';
+  if (raw.includes('question') || raw.includes('help')) return 'question';
+  if (raw.includes('churn')) return 'churn_risk';
+  return 'other';
+}
+
+/**
+ * Stable identity for an imported row: the same feedback from a later
+ * export of the same tool hashes the same even if vote counts moved
+ */
+export function importRowHash(row: Pick<ImportMappedRow, 'content' | 'title' | 'authorEmail' | 'createdAt'>): string {
+  const normalize = (value?: string) => (value || '').toLowerCase().trim().replace(/\s+/g, ' ');
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([
+      normalize(row.content),
+      normalize(row.title),
+      normalize(row.authorEmail),
+      row.createdAt?.toISOString() || '',
+    ]))
+    .digest('hex');
+}
+
+/**
+ * Apply a mapping to every record, validating as it goes. Rows without
+ * content are invalid; other problems are warnings and the value is
+ * dropped.
+ */
+export function mapImportRows(
+  records: ImportRecord[],
+  mapping: ImportColumnMapping,
+  dateFormat: ImportDateFormat
+): MappedImport {
+  const rows: ImportMappedRow[] = [];
+  const issues: ImportRowIssue[] = [];
+  const seen = new Map<string, number>();
+  let invalidRows = 0;
+  let duplicateRows = 0;
+
+  records.forEach((record, index) => {
+    const rowNumber = index + 1;
+    const value = (field: ImportField) => (mapping[field] ? record[mapping[field]!]?.trim() || '' : '');
+    const warn = (field: ImportField, message: string) =>
+      issues.push({ row: rowNumber, field, severity: 'warning', message });
+
+    let content = value('content');
+    if (!content) {
+      invalidRows++;
+      issues.push({ row: rowNumber, field: 'content', severity: 'error', message: 'Missing content' });
+      return;
+    }
+
+    if (content.length > MAX_CONTENT_LENGTH) {
+      content = content.slice(0, MAX_CONTENT_LENGTH);
+      warn('content', `Content truncated to ${MAX_CONTENT_LENGTH} characters`);
+    }
+
+    let authorEmail: string | undefined = value('authorEmail').toLowerCase() || undefined;
+    if (authorEmail && !EMAIL_PATTERN.test(authorEmail)) {
+      warn('authorEmail', `"${authorEmail}" isn't an email address; left blank`);
+      authorEmail = undefined;
+    }
+
+    const rawDate = value('createdAt');
+    const createdAt = rawDate ? parseImportDate(rawDate, dateFormat) : null;
+    if (rawDate && !createdAt) {
+      warn('createdAt', `Couldn't read "${rawDate}" as a ${dateFormat} date; the import time is used`);
+    }
+
+    const rawVotes = value('votes');
+    const votes = rawVotes ? Number(rawVotes.replace(/,/g, '')) : undefined;
+    if (rawVotes && !Number.isFinite(votes)) {
+      warn('votes', `"${rawVotes}" isn't a number; votes left blank`);
+    }
+
+    const mapped: ImportMappedRow = {
+      row: rowNumber,
+      hash: '',
+      title: value('title') || undefined,
+      content,
+      authorName: value('authorName') || undefined,
+      authorEmail,
+      category: mapCategory(value('category')),
+      createdAt: createdAt || undefined,
+      tags: value('tags').split(/[,;|]/).map(tag => tag.trim()).filter(Boolean),
+      votes: votes !== undefined && Number.isFinite(votes) ? votes : undefined,
+      sourceUrl: value('sourceUrl') || undefined,
+    };
+    mapped.hash = importRowHash(mapped);
+
+    const firstSeen = seen.get(mapped.hash);
+    if (firstSeen) {
+      duplicateRows++;
+      issues.push({ row: rowNumber, severity: 'warning', message: `Duplicate of row ${firstSeen}; skipped` });
+      return;
+    }
+
+    seen.set(mapped.hash, rowNumber);
+    rows.push(mapped);
+  });
+
+  return { rows, issues, invalidRows, duplicateRows };
+}
+
+// ============================================================================
+// Importer
+// ============================================================================
+
+export class FeedbackImporter {
+  private supabase: SupabaseClient;
+
+  constructor(supabaseClient?: SupabaseClient) {
+    this.supabase = supabaseClient || createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+  }
+
+  /**
+   * Step one: parse an upload, store it and return a preview with the
+   * detected mapping. A mapping or date format passed in overrides detection.
+   */
+  async createImport(
+    projectId: string,
+    userId: string,
+    file: { filename: string; content: Buffer },
+    options: { sourceLabel?: string; mapping?: ImportColumnMapping; dateFormat?: ImportDateFormat } = {}
+  ): Promise<ImportPreview> {
+    if (file.content.length > MAX_IMPORT_BYTES) {
+      throw new ImportFileError('File too large. Maximum size is 5MB');
+    }
+
+    const format = detectFormat(file.filename, file.content);
+    if (!format) {
+      throw new ImportFileError('Unsupported file. Upload a CSV, JSON, JSON Lines or XLSX export');
+    }
+
+    const { columns, rows } = await parseImportFile(format, file.content);
+    const detectedMapping = detectColumnMapping(columns, rows);
+    const mapping = options.mapping ? this.checkMapping(options.mapping, columns) : detectedMapping;
+    const dateFormat = options.dateFormat
+      || detectDateFormat(mapping.createdAt ? rows.map(row => row[mapping.createdAt!] || '') : []);
+
+    const { data, error } = await this.supabase
+      .from('inbox_imports')
+      .insert({
+        project_id: projectId,
+        created_by: userId,
+        filename: file.filename,
+        format,
+        source_label: options.sourceLabel || null,
+        columns,
+        rows,
+        detected_mapping: detectedMapping,
+        mapping,
+        date_format: dateFormat,
+        total_rows: rows.length,
+        status: 'previewed',
+      })
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to save import: ${error?.message}`);
+    }
+
+    return this.buildPreview(projectId, data.id, {
+      filename: file.filename,
+      format,
+      columns,
+      rows,
+      detectedMapping,
+      mapping,
+      dateFormat,
+    });
+  }
+
+  /**
+   * Re-run the preview of a stored import, optionally with an edited mapping
+   * or date format, which is saved for the commit step
+   */
+  async previewImport(
+    importId: string,
+    userId: string,
+    changes: { mapping?: ImportColumnMapping; dateFormat?: ImportDateFormat } = {}
+  ): Promise<ImportPreview | null> {
+    const record = await this.getImportRow(importId, userId);
+    if (!record) return null;
+
+    const mapping = changes.mapping ? this.checkMapping(changes.mapping, record.columns) : record.mapping;
+    const dateFormat = changes.dateFormat || record.date_format;
+
+    if (changes.mapping || changes.dateFormat) {
+      await this.supabase
+        .from('inbox_imports')
+        .update({ mapping, date_format: dateFormat, updated_at: new Date().toISOString() })
+        .eq('id', importId);
+    }
+
+    return this.buildPreview(record.project_id, importId, {
+      filename: record.filename,
+      format: record.format,
+      columns: record.columns,
+      rows: record.rows,
+      detectedMapping: record.detected_mapping,
+      mapping,
+      dateFormat,
+    });
+  }
+
+  /**
+   * Step two: insert every valid row that hasn't been imported before.
+   * Safe to repeat; rows already in the project are counted as duplicates.
+   */
+  async commitImport(importId: string, userId: string): Promise<ImportCommitResult | null> {
+    const record = await this.getImportRow(importId, userId);
+    if (!record) return null;
+
+    if (!record.mapping?.content) {
+      throw new ImportFileError('Map a column to content before importing');
+    }
+
+    const { rows, invalidRows, duplicateRows } = mapImportRows(record.rows, record.mapping, record.date_format);
+    const existing = await this.findImportedHashes(record.project_id, rows.map(row => row.hash));
+    const pending = rows.filter(row => !existing.has(row.hash));
+    const sourceLabel = record.source_label || record.filename;
+
+    const result: ImportCommitResult = {
+      importId,
+      imported: 0,
+      duplicates: duplicateRows + (rows.length - pending.length),
+      invalid: invalidRows,
+      errors: [],
+    };
+
+    for (let i = 0; i < pending.length; i += INSERT_BATCH_SIZE) {
+      const batch = pending.slice(i, i + INSERT_BATCH_SIZE);
+
+      // A concurrent commit may have inserted some rows since the lookup
+      const { data, error } = await this.supabase
+        .from('unified_feedback_items')
+        .upsert(batch.map(row => this.toItemRow(record.project_id, sourceLabel, row)), {
+          onConflict: 'project_id,import_row_hash',
+          ignoreDuplicates: true,
+        })
+        .select('id');
+
+      if (error) {
+        console.error('[Import] Batch insert error:', error);
+        result.errors.push(`Rows ${batch[0].row}-${batch[batch.length - 1].row}: ${error.message}`);
+        continue;
+      }
+
+      const inserted = data?.length || 0;
+      result.imported += inserted;
+      result.duplicates += batch.length - inserted;
+    }
+
+    await this.supabase
+      .from('inbox_imports')
+      .update({
+        status: result.errors.length > 0 && result.imported === 0 ? 'failed' : 'committed',
+        imported_count: result.imported,
+        duplicate_count: result.duplicates,
+        invalid_count: result.invalid,
+        committed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', importId);
+
+    return result;
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  private async buildPreview(
+    projectId: string,
+    importId: string,
+    upload: {
+      filename: string;
+      format: ImportFileFormat;
+      columns: string[];
+      rows: ImportRecord[];
+      detectedMapping: ImportColumnMapping;
+      mapping: ImportColumnMapping;
+      dateFormat: ImportDateFormat;
+    }
+  ): Promise<ImportPreview> {
+    const mapped = mapImportRows(upload.rows, upload.mapping, upload.dateFormat);
+    const existing = await this.findImportedHashes(projectId, mapped.rows.map(row => row.hash));
+    const issues = upload.mapping.content
+      ? mapped.issues
+      : [{ row: 0, field: 'content' as const, severity: 'error' as const, message: 'No column is mapped to content' }];
+
+    return {
+      importId,
+      filename: upload.filename,
+      format: upload.format,
+      columns: upload.columns,
+      mapping: upload.mapping,
+      detectedMapping: upload.detectedMapping,
+      dateFormat: upload.dateFormat,
+      totalRows: upload.rows.length,
+      validRows: mapped.rows.length,
+      invalidRows: mapped.invalidRows,
+      duplicateRows: mapped.duplicateRows,
+      alreadyImported: existing.size,
+      sample: mapped.rows.slice(0, PREVIEW_SAMPLE_SIZE),
+      issues: issues.slice(0, PREVIEW_MAX_ISSUES),
+    };
+  }
+
+  private async getImportRow(importId: string, userId: string): Promise<any | null> {
+    const { data, error } = await this.supabase
+      .from('inbox_imports')
+      .select('*')
+      .eq('id', importId)
+      .eq('created_by', userId)
+      .maybeSingle();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return data;
+  }
+
+  private async findImportedHashes(projectId: string, hashes: string[]): Promise<Set<string>> {
+    const found = new Set<string>();
+
+    for (let i = 0; i < hashes.length; i += HASH_LOOKUP_CHUNK) {
+      const { data } = await this.supabase
+        .from('unified_feedback_items')
+        .select('import_row_hash')
+        .eq('project_id', projectId)
+        .in('import_row_hash', hashes.slice(i, i + HASH_LOOKUP_CHUNK));
+
+      for (const row of data || []) {
+        found.add(row.import_row_hash);
+      }
+    }
+
+    return found;
+  }
+
+  private checkMapping(mapping: ImportColumnMapping, columns: string[]): ImportColumnMapping {
+    const checked: ImportColumnMapping = {};
+
+    for (const [field, column] of Object.entries(mapping)) {
+      if (!column) continue;
+      if (!FIELD_ORDER.includes(field as ImportField)) {
+        throw new ImportFileError(`Unknown field "${field}"`);
+      }
+      if (!columns.includes(column)) {
+        throw new ImportFileError(`Column "${column}" isn't in the file`);
+      }
+      checked[field as ImportField] = column;
+    }
+
+    return checked;
+  }
+
+  private toItemRow(projectId: string, sourceLabel: string, row: ImportMappedRow) {
+    const now = new Date().toISOString();
+
+    return {
+      project_id: projectId,
+      source_type: 'csv_import',
+      source_id: `import-${row.hash.slice(0, 32)}`,
+      source_url: row.sourceUrl || null,
+      source_channel: sourceLabel,
+
+      title: row.title || null,
+      content: row.content,
+      content_plain: row.content,
+      language: 'en',
+
+      author_name: row.authorName || null,
+      author_email: row.authorEmail || null,
+      author_metadata: {},
+
+      category: row.category,
+      tags: row.tags,
+      engagement_metrics: row.votes !== undefined ? { upvotes: row.votes } : {},
+      engagement_score: Math.min(Math.round(row.votes || 0), 10000),
+
+      status: 'new',
+      starred: false,
+      is_duplicate: false,
+
+      content_hash: crypto
+        .createHash('sha256')
+        .update(row.content.toLowerCase().trim().replace(/\s+/g, ' '))
+        .digest('hex'),
+      import_row_hash: row.hash,
+      original_created_at: (row.createdAt || new Date()).toISOString(),
+      imported_at: now,
+      updated_at: now,
+    };
+  }
+}
+
+// ============================================================================
+// File Helpers
+// ============================================================================
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function stripBom(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+function listItemName(item: Record<string, unknown>): string {
+  const name = item.name ?? item.title ?? item.label;
+  return name === undefined || name === null ? JSON.stringify(item) : String(name);
+}
+
+function recordsFromTable(table: string[][]): ParsedImportFile {
+  const [header = [], ...body] = table;
+  const columns = uniqueColumns(header.map(column => column.trim()));
+
+  if (columns.length === 0) {
+    throw new ImportFileError('The file has no header row');
+  }
+
+  const rows = body.map(values => {
+    const record: ImportRecord = {};
+    columns.forEach((column, index) => {
+      record[column] = values[index]?.trim() ?? '';
+    });
+    return record;
+  });
+
+  return { columns, rows };
+}
+
+function recordsFromObjects(objects: Record<string, unknown>[]): ParsedImportFile {
+  const rows = objects.map(object => flattenRecord(object));
+  const columns: string[] = [];
+  const seen = new Set<string>();
+
+  for (const row of rows) {
+    for (const column of Object.keys(row)) {
+      if (!seen.has(column)) {
+        seen.add(column);
+        columns.push(column);
+      }
+    }
+  }
+
+  return { columns, rows };
+}
+
+function parseJsonRecords(text: string): Record<string, unknown>[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ImportFileError('The file isn\'t valid JSON');
+  }
+
+  // Exports often wrap the list, e.g. { "posts": [...] }
+  if (parsed && !Array.isArray(parsed) && typeof parsed === 'object') {
+    parsed = Object.values(parsed as Record<string, unknown>).find(Array.isArray) ?? [parsed];
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new ImportFileError('Expected a JSON array of feedback objects');
+  }
+
+  return parsed.filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object');
+}
+
+function parseJsonLines(text: string): Record<string, unknown>[] {
+  const records: Record<string, unknown>[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      const parsed = JSON.parse(line);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        records.push(parsed);
+      }
+    } catch {
+      throw new ImportFileError(`Line ${index + 1} isn't valid JSON`);
+    }
+  });
+
+  return records;
+}
+
+async function parseXlsx(content: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(content as unknown as ArrayBuffer);
+  } catch {
+    throw new ImportFileError('The file isn\'t a readable XLSX workbook');
+  }
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+
+  const table: string[][] = [];
+  const width = worksheet.columnCount;
+
+  worksheet.eachRow({ includeEmpty: false }, (row) => {
+    const values: string[] = [];
+    for (let column = 1; column <= width; column++) {
+      values.push(cellText(row.getCell(column)));
+    }
+    table.push(values);
+  });
+
+  return table.filter(values => values.some(value => value.trim() !== ''));
+}
+
+function cellText(cell: ExcelJS.Cell): string {
+  const value = cell.value;
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object' && 'result' in value) {
+    const result = value.result;
+    return result instanceof Date ? result.toISOString() : String(result ?? '');
+  }
+  return cell.text;
+}
+
+function uniqueColumns(header: string[]): string[] {
+  const counts = new Map<string, number>();
+  return header.map((column, index) => {
+    const name = column || `Column ${index + 1}`;
+    const count = counts.get(name) || 0;
+    counts.set(name, count + 1);
+    return count === 0 ? name : `${name} (${count + 1})`;
+  });
+}
@@ -12,6 +12,8 @@ import {
   InboxPagination,
   InboxListResponse,
   InboxStats,
+  InboxTimelineEvent,
+  InboxTimelineEventType,
   FeedbackStatus,
 } from './types';
 
@@ -38,7 +40,7 @@ export class InboxService {
       .from('unified_feedback_items')
       .select(`
         *,
-        customer:customers(id, name, email, avatar_url, company, mrr, health_score, churn_risk)
+        customer:customers(id, name, email, avatar_url, company, mrr, plan_name, health_score, churn_risk)
       `, { count: 'exact' })
       .eq('project_id', projectId)
       .eq('is_duplicate', false);
@@ -100,6 +102,18 @@ export class InboxService {
       query = query.overlaps('tags', filters.tags);
     }
 
+    if (filters.assignedTo) {
+      query = query.eq('assigned_to', filters.assignedTo);
+    }
+
+    if (filters.priority) {
+      if (Array.isArray(filters.priority)) {
+        query = query.in('priority', filters.priority);
+      } else {
+        query = query.eq('priority', filters.priority);
+      }
+    }
+
     if (filters.search) {
       query = query.textSearch('search_vector', filters.search, {
         type: 'websearch',
@@ -248,6 +262,57 @@ export class InboxService {
     return !error;
   }
 
+  /**
+   * Add an entry to an item's timeline
+   */
+  async addTimelineEvent(
+    item: Pick<UnifiedFeedbackItem, 'id' | 'projectId'>,
+    eventType: InboxTimelineEventType,
+    details: { actorId?: string; content?: string; metadata?: Record<string, any> } = {}
+  ): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('inbox_item_events')
+      .insert({
+        item_id: item.id,
+        project_id: item.projectId,
+        event_type: eventType,
+        actor_id: details.actorId,
+        content: details.content,
+        metadata: details.metadata || {},
+      });
+
+    if (error) {
+      console.error('[InboxService] Error adding timeline event:', error);
+    }
+    return !error;
+  }
+
+  /**
+   * Get an item's timeline, oldest first
+   */
+  async getTimeline(itemId: string): Promise<InboxTimelineEvent[]> {
+    const { data, error } = await this.supabase
+      .from('inbox_item_events')
+      .select('*')
+      .eq('item_id', itemId)
+      .order('created_at', { ascending: true });
+
+    if (error || !data) {
+      return [];
+    }
+
+    return data.map(event => ({
+      id: event.id,
+      itemId: event.item_id,
+      projectId: event.project_id,
+      eventType: event.event_type,
+      actorId: event.actor_id,
+      content: event.content,
+      metadata: event.metadata || {},
+      createdAt: new Date(event.created_at),
+    }));
+  }
+
   /**
    * Convert feedback to a formal post
    */
@@ -464,22 +529,10 @@ export class InboxService {
     return !error;
   }
 
-  // ============================================================================
-  // Private Helpers
-  // ============================================================================
-
-  private getSortColumn(field: InboxSortOptions['field']): string {
-    const mapping: Record<InboxSortOptions['field'], string> = {
-      originalCreatedAt: 'original_created_at',
-      importedAt: 'imported_at',
-      urgencyScore: 'urgency_score',
-      sentimentScore: 'sentiment_score',
-      engagementScore: 'engagement_score',
-    };
-    return mapping[field] || 'original_created_at';
-  }
-
-  private mapItem(row: any): UnifiedFeedbackItem {
+  /**
+   * Map a unified_feedback_items row, optionally joined with its customer
+   */
+  mapItem(row: any): UnifiedFeedbackItem {
     return {
       id: row.id,
       projectId: row.project_id,
@@ -494,6 +547,7 @@ export class InboxService {
       contentHtml: row.content_html,
       contentPlain: row.content_plain,
       language: row.language || 'en',
+      attachments: row.attachments || [],
       authorId: row.author_id,
       authorName: row.author_name,
       authorEmail: row.author_email,
@@ -508,6 +562,7 @@ export class InboxService {
         avatarUrl: row.customer.avatar_url,
         company: row.customer.company,
         mrr: row.customer.mrr,
+        planName: row.customer.plan_name,
         healthScore: row.customer.health_score,
         churnRisk: row.customer.churn_risk,
       } as any : undefined,
@@ -529,6 +584,9 @@ export class InboxService {
       starred: row.starred || false,
       readAt: row.read_at ? new Date(row.read_at) : undefined,
       readBy: row.read_by,
+      assignedTo: row.assigned_to,
+      assignedAt: row.assigned_at ? new Date(row.assigned_at) : undefined,
+      priority: row.priority,
       repliedAt: row.replied_at ? new Date(row.replied_at) : undefined,
       repliedBy: row.replied_by,
       replyContent: row.reply_content,
@@ -543,6 +601,21 @@ export class InboxService {
     };
   }
 
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  private getSortColumn(field: InboxSortOptions['field']): string {
+    const mapping: Record<InboxSortOptions['field'], string> = {
+      originalCreatedAt: 'original_created_at',
+      importedAt: 'imported_at',
+      urgencyScore: 'urgency_score',
+      sentimentScore: 'sentiment_score',
+      engagementScore: 'engagement_score',
+    };
+    return mapping[field] || 'original_created_at';
+  }
+
   private mapCustomer(row: any): Customer {
     return {
       id: row.id,
@@ -600,6 +673,10 @@ export const inboxService = {
     getInboxService().markAsSpam(...args),
   recordReply: (...args: Parameters<InboxService['recordReply']>) =>
     getInboxService().recordReply(...args),
+  addTimelineEvent: (...args: Parameters<InboxService['addTimelineEvent']>) =>
+    getInboxService().addTimelineEvent(...args),
+  getTimeline: (...args: Parameters<InboxService['getTimeline']>) =>
+    getInboxService().getTimeline(...args),
   convertToPost: (...args: Parameters<InboxService['convertToPost']>) =>
     getInboxService().convertToPost(...args),
   bulkUpdateStatus: (...args: Parameters<InboxService['bulkUpdateStatus']>) =>
@@ -10,6 +10,8 @@ export * from './types';
 export { InboxService, inboxService } from './inbox-service';
 export { SyncOrchestrator, syncOrchestrator } from './sync-orchestrator';
 export { BaseSyncer } from './base-syncer';
+export { RoutingEngine, routingEngine } from './routing-rules';
+export { parseMime } from './mime-parser';
 
 // Syncers
 export { IntercomSyncer } from './syncers/intercom-syncer';
@@ -20,3 +22,6 @@ export { TwitterSyncer } from './syncers/twitter-syncer';
 export { RedditSyncer } from './syncers/reddit-syncer';
 export { G2Syncer } from './syncers/g2-syncer';
 export { AppStoreSyncer } from './syncers/appstore-syncer';
+export { ZendeskSyncer } from './syncers/zendesk-syncer';
+export { TypeformSyncer } from './syncers/typeform-syncer';
+export { InboundEmailSyncer } from './syncers/inbound-email-syncer';
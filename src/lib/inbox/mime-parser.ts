@@ -0,0 +1,312 @@
+/**
+ * MIME Parser
+ * Parses raw RFC 5322 messages (as delivered to the inbound email webhook)
+ * into headers, text and HTML bodies, and attachments
+ */
+
+import { TextDecoder } from 'util';
+
+export interface EmailAddress {
+  name?: string;
+  email: string;
+}
+
+export interface MimeAttachment {
+  filename: string;
+  contentType: string;
+  size: number;
+  contentId?: string;
+  // Inline parts are usually images referenced from the HTML body
+  inline: boolean;
+  content: Buffer;
+}
+
+export interface ParsedEmail {
+  headers: Record<string, string[]>;
+  messageId?: string;
+  inReplyTo?: string;
+  references: string[];
+  subject: string;
+  from?: EmailAddress;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  date?: Date;
+  text?: string;
+  html?: string;
+  attachments: MimeAttachment[];
+}
+
+interface MimePart {
+  headers: Record<string, string[]>;
+  body: string;
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+const ENCODED_WORD = /=\?([^?\s]+)\?([BbQq])\?([^?\s]*)\?=/g;
+const MAX_DEPTH = 10;
+
+/**
+ * Parse a raw message. The input is read as bytes so that 8-bit bodies
+ * are decoded with their declared charset.
+ */
+export function parseMime(raw: string | Buffer): ParsedEmail {
+  const source = typeof raw === 'string' ? Buffer.from(raw, 'utf-8') : raw;
+  const root = splitPart(source.toString('latin1'));
+
+  const email: ParsedEmail = {
+    headers: root.headers,
+    messageId: firstMessageId(header(root, 'message-id')),
+    inReplyTo: firstMessageId(header(root, 'in-reply-to')),
+    references: messageIds(header(root, 'references')),
+    subject: decodeHeader(header(root, 'subject') || '').trim(),
+    from: parseAddressList(decodeHeader(header(root, 'from') || ''))[0],
+    to: parseAddressList(decodeHeader(header(root, 'to') || '')),
+    cc: parseAddressList(decodeHeader(header(root, 'cc') || '')),
+    attachments: [],
+  };
+
+  const date = header(root, 'date');
+  if (date && !isNaN(Date.parse(date))) {
+    email.date = new Date(date);
+  }
+
+  collectParts(root, email, 0);
+  return email;
+}
+
+/**
+ * Parse an address header such as `"Ana Lima" <ana@example.com>, bo@example.com`
+ */
+export function parseAddressList(value: string): EmailAddress[] {
+  const addresses: EmailAddress[] = [];
+
+  for (const entry of splitOutsideQuotes(value, ',')) {
+    const angled = entry.match(/^(.*)<([^<>\s]+@[^<>\s]+)>\s*$/);
+    if (angled) {
+      const name = angled[1].trim().replace(/^"(.*)"$/, '$1').replace(/\\(.)/g, '$1').trim();
+      addresses.push({ name: name || undefined, email: angled[2].toLowerCase() });
+      continue;
+    }
+
+    const bare = entry.match(/([^\s<>()"]+@[^\s<>()"]+)/);
+    if (bare) {
+      addresses.push({ email: bare[1].toLowerCase() });
+    }
+  }
+
+  return addresses;
+}
+
+/**
+ * Decode RFC 2047 encoded words (`=?utf-8?B?...?=`) in a header value
+ */
+export function decodeHeader(value: string): string {
+  // Whitespace between adjacent encoded words is not part of the text
+  const joined = value.replace(/(=\?[^?\s]+\?[BbQq]\?[^?\s]*\?=)\s+(?==\?)/g, '$1');
+
+  return joined.replace(ENCODED_WORD, (_match, charset: string, encoding: string, text: string) => {
+    const bytes = encoding.toUpperCase() === 'B'
+      ? Buffer.from(text, 'base64')
+      : Buffer.from(decodeQuotedPrintable(text.replace(/_/g, ' ')), 'latin1');
+    return decodeCharset(bytes, charset);
+  });
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+function collectParts(part: MimePart, email: ParsedEmail, depth: number): void {
+  const contentType = parseHeaderValue(header(part, 'content-type') || 'text/plain');
+  const mimeType = contentType.value.toLowerCase();
+
+  if (mimeType.startsWith('multipart/') && contentType.params.boundary && depth < MAX_DEPTH) {
+    for (const child of splitMultipart(part.body, contentType.params.boundary)) {
+      collectParts(child, email, depth + 1);
+    }
+    return;
+  }
+
+  const disposition = parseHeaderValue(header(part, 'content-disposition') || '');
+  const filename = disposition.params.filename || contentType.params.name;
+  const content = decodeTransfer(part.body, header(part, 'content-transfer-encoding'));
+  const isAttachment = disposition.value.toLowerCase() === 'attachment'
+    || !!filename
+    || !mimeType.startsWith('text/');
+
+  if (!isAttachment && mimeType === 'text/plain' && email.text === undefined) {
+    email.text = decodeCharset(content, contentType.params.charset);
+    return;
+  }
+
+  if (!isAttachment && mimeType === 'text/html' && email.html === undefined) {
+    email.html = decodeCharset(content, contentType.params.charset);
+    return;
+  }
+
+  const contentId = firstMessageId(header(part, 'content-id'));
+  email.attachments.push({
+    filename: decodeHeader(filename || defaultFilename(mimeType, email.attachments.length)),
+    contentType: mimeType,
+    size: content.length,
+    contentId,
+    inline: disposition.value.toLowerCase() === 'inline' || (!disposition.value && !!contentId),
+    content,
+  });
+}
+
+function splitPart(source: string): MimePart {
+  const match = source.match(/\r?\n\r?\n/);
+  const headerBlock = match?.index !== undefined ? source.slice(0, match.index) : source;
+  const body = match?.index !== undefined ? source.slice(match.index + match[0].length) : '';
+
+  const headers: Record<string, string[]> = {};
+  const unfolded = headerBlock.replace(/\r?\n[ \t]+/g, ' ');
+
+  for (const line of unfolded.split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+
+    const name = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+    (headers[name] = headers[name] || []).push(value);
+  }
+
+  return { headers, body };
+}
+
+function splitMultipart(body: string, boundary: string): MimePart[] {
+  const lines = body.split(/\r?\n/);
+  const parts: MimePart[] = [];
+  let current: string[] | null = null;
+
+  for (const line of lines) {
+    const trimmed = line.trimEnd();
+
+    if (trimmed === `--${boundary}--`) {
+      if (current) parts.push(splitPart(current.join('\r\n')));
+      current = null;
+      break;
+    }
+
+    if (trimmed === `--${boundary}`) {
+      if (current) parts.push(splitPart(current.join('\r\n')));
+      current = [];
+      continue;
+    }
+
+    // Lines before the first boundary are the preamble
+    current?.push(line);
+  }
+
+  // Tolerate a missing closing boundary
+  if (current) parts.push(splitPart(current.join('\r\n')));
+
+  return parts;
+}
+
+function header(part: MimePart, name: string): string | undefined {
+  return part.headers[name]?.[0];
+}
+
+function parseHeaderValue(raw: string): HeaderValue {
+  const [value, ...rest] = splitOutsideQuotes(raw, ';');
+  const params: Record<string, string> = {};
+
+  for (const param of rest) {
+    const separator = param.indexOf('=');
+    if (separator <= 0) continue;
+
+    let name = param.slice(0, separator).trim().toLowerCase();
+    let paramValue = param.slice(separator + 1).trim().replace(/^"(.*)"$/, '$1');
+
+    // RFC 2231: filename*=utf-8''Quarterly%20report.pdf
+    if (name.endsWith('*')) {
+      name = name.slice(0, -1);
+      const extended = paramValue.match(/^([^']*)'[^']*'(.*)$/);
+      if (extended) {
+        const percentDecoded = extended[2].replace(
+          /%([0-9A-Fa-f]{2})/g,
+          (_match, hex: string) => String.fromCharCode(parseInt(hex, 16))
+        );
+        const bytes = Buffer.from(percentDecoded, 'latin1');
+        paramValue = decodeCharset(bytes, extended[1] || 'utf-8');
+      }
+    }
+
+    params[name] = paramValue;
+  }
+
+  return { value: (value || '').trim(), params };
+}
+
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && quoted) {
+      current += char + (value[i + 1] || '');
+      i++;
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    if (char === separator && !quoted) {
+      if (current.trim()) parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function decodeTransfer(body: string, encoding?: string): Buffer {
+  switch (encoding?.toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/\s+/g, ''), 'base64');
+    case 'quoted-printable':
+      return Buffer.from(decodeQuotedPrintable(body), 'latin1');
+    default:
+      // 7bit, 8bit and binary bodies are already the raw bytes
+      return Buffer.from(body, 'latin1');
+  }
+}
+
+function decodeQuotedPrintable(text: string): string {
+  return text
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9A-Fa-f]{2})/g, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function decodeCharset(bytes: Buffer, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(bytes);
+  } catch {
+    // Unknown charsets fall back to UTF-8
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function messageIds(value?: string): string[] {
+  return (value?.match(/<[^<>\s]+>/g) || []).map(id => id.slice(1, -1));
+}
+
+function firstMessageId(value?: string): string | undefined {
+  if (!value) return undefined;
+  return messageIds(value)[0] || value.trim() || undefined;
+}
+
+function defaultFilename(mimeType: string, index: number): string {
+  if (mimeType === 'message/rfc822') return `message-${index + 1}.eml`;
+  const extension = mimeType.split('/')[1]?.split(/[+.]/)[0] || 'bin';
+  return `attachment-${index + 1}.${extension}`;
+}
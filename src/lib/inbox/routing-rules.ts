@@ -0,0 +1,629 @@
+/**
+ * Inbox Routing Rules
+ * Project-defined rules that triage synced feedback: match on source,
+ * keywords, sentiment, customer tier, language and classification, then
+ * assign, tag, prioritise, archive, convert to a board post or post to Slack
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { WebClient } from '@slack/web-api';
+import { decryptToken } from '@/lib/jira/encryption';
+import { invalidateCacheTags, postCacheTags } from '@/lib/cache';
+import { InboxService } from './inbox-service';
+import {
+  FeedbackPriority,
+  RoutingAction,
+  RoutingActionType,
+  RoutingConditions,
+  RoutingDryRunResult,
+  RoutingResult,
+  RoutingRule,
+  RoutingRuleInput,
+  UnifiedFeedbackItem,
+} from './types';
+
+const PRIORITIES: FeedbackPriority[] = ['low', 'medium', 'high', 'urgent'];
+const ACTION_TYPES: RoutingActionType[] = ['assign', 'tag', 'set_priority', 'archive', 'convert_to_post', 'slack'];
+const DRY_RUN_MAX_DAYS = 90;
+const DRY_RUN_MAX_ITEMS = 1000;
+const DRY_RUN_SAMPLE_SIZE = 50;
+const ITEM_SELECT = '*, customer:customers(id, name, email, company, mrr, plan_name)';
+const DASHBOARD_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://app.signalsloop.com';
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+function hasValues<T>(values?: T[]): values is T[] {
+  return Array.isArray(values) && values.length > 0;
+}
+
+/**
+ * Whether an item satisfies every condition a rule sets
+ */
+export function matchesConditions(conditions: RoutingConditions, item: UnifiedFeedbackItem): boolean {
+  if (hasValues(conditions.sourceTypes) && !conditions.sourceTypes.includes(item.sourceType)) {
+    return false;
+  }
+
+  const text = `${item.title || ''} ${item.contentPlain || item.content}`.toLowerCase();
+  if (hasValues(conditions.keywords) && !conditions.keywords.some(k => text.includes(k.toLowerCase()))) {
+    return false;
+  }
+  if (hasValues(conditions.excludeKeywords) && conditions.excludeKeywords.some(k => text.includes(k.toLowerCase()))) {
+    return false;
+  }
+
+  if (hasValues(conditions.sentimentLabels) &&
+      (!item.sentimentLabel || !conditions.sentimentLabels.includes(item.sentimentLabel))) {
+    return false;
+  }
+  if (conditions.sentimentMin !== undefined &&
+      (item.sentimentScore === undefined || item.sentimentScore === null || item.sentimentScore < conditions.sentimentMin)) {
+    return false;
+  }
+  if (conditions.sentimentMax !== undefined &&
+      (item.sentimentScore === undefined || item.sentimentScore === null || item.sentimentScore > conditions.sentimentMax)) {
+    return false;
+  }
+
+  if (hasValues(conditions.customerTiers)) {
+    const tier = item.customer?.planName?.toLowerCase();
+    if (!tier || !conditions.customerTiers.some(t => t.toLowerCase() === tier)) {
+      return false;
+    }
+  }
+  if (conditions.minCustomerMrr !== undefined && (item.customer?.mrr ?? 0) < conditions.minCustomerMrr) {
+    return false;
+  }
+
+  if (hasValues(conditions.languages) &&
+      !conditions.languages.some(l => l.toLowerCase() === (item.language || 'en').toLowerCase())) {
+    return false;
+  }
+
+  if (hasValues(conditions.categories) && (!item.category || !conditions.categories.includes(item.category))) {
+    return false;
+  }
+  if (conditions.minUrgency !== undefined && (item.urgencyScore ?? 0) < conditions.minUrgency) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Enabled rules that match an item, in the order they run, stopping after
+ * the first matching rule marked stopProcessing
+ */
+export function selectMatchingRules(rules: RoutingRule[], item: UnifiedFeedbackItem): RoutingRule[] {
+  const matched: RoutingRule[] = [];
+  const ordered = [...rules].filter(r => r.enabled).sort((a, b) => a.position - b.position);
+
+  for (const rule of ordered) {
+    if (!matchesConditions(rule.conditions, item)) continue;
+    matched.push(rule);
+    if (rule.stopProcessing) break;
+  }
+
+  return matched;
+}
+
+/**
+ * Column updates for the item-level actions (assign, tag, priority,
+ * archive). Later actions win when two set the same field.
+ */
+export function buildItemUpdate(
+  item: UnifiedFeedbackItem,
+  actions: RoutingAction[]
+): Record<string, unknown> {
+  const update: Record<string, unknown> = {};
+  let tags = item.tags || [];
+
+  for (const action of actions) {
+    switch (action.type) {
+      case 'assign':
+        update.assigned_to = action.userId;
+        update.assigned_at = new Date().toISOString();
+        break;
+      case 'tag':
+        tags = Array.from(new Set([...tags, ...action.tags]));
+        update.tags = tags;
+        break;
+      case 'set_priority':
+        update.priority = action.priority;
+        break;
+      case 'archive':
+        update.status = 'archived';
+        break;
+    }
+  }
+
+  return update;
+}
+
+/**
+ * Check a rule before saving it; returns an error message or null
+ */
+export function validateRule(input: Partial<RoutingRuleInput>, partial = false): string | null {
+  if (!partial || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) return 'Rule name is required';
+  }
+
+  if (!partial || input.actions !== undefined) {
+    if (!Array.isArray(input.actions) || input.actions.length === 0) {
+      return 'A rule needs at least one action';
+    }
+
+    for (const action of input.actions) {
+      if (!action || !ACTION_TYPES.includes(action.type)) {
+        return `Unknown action "${(action as { type?: string })?.type}"`;
+      }
+      if (action.type === 'assign' && !action.userId) return 'assign needs a userId';
+      if (action.type === 'tag' && !hasValues(action.tags)) return 'tag needs at least one tag';
+      if (action.type === 'set_priority' && !PRIORITIES.includes(action.priority)) {
+        return `priority must be one of ${PRIORITIES.join(', ')}`;
+      }
+      if (action.type === 'slack' && !action.channelId) return 'slack needs a channelId';
+    }
+  }
+
+  if (input.conditions !== undefined) {
+    if (typeof input.conditions !== 'object' || input.conditions === null) return 'conditions must be an object';
+    const { sentimentMin, sentimentMax, minUrgency } = input.conditions;
+    for (const score of [sentimentMin, sentimentMax]) {
+      if (score !== undefined && (typeof score !== 'number' || score < -1 || score > 1)) {
+        return 'Sentiment bounds must be between -1 and 1';
+      }
+    }
+    if (minUrgency !== undefined && (typeof minUrgency !== 'number' || minUrgency < 1 || minUrgency > 5)) {
+      return 'minUrgency must be between 1 and 5';
+    }
+  } else if (!partial) {
+    return 'conditions are required';
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Engine
+// ============================================================================
+
+export class RoutingEngine {
+  private supabase: SupabaseClient;
+  private inbox: InboxService;
+
+  constructor(supabaseClient?: SupabaseClient) {
+    this.supabase = supabaseClient || createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+    this.inbox = new InboxService(this.supabase);
+  }
+
+  /**
+   * List a project's rules in the order they run
+   */
+  async listRules(projectId: string): Promise<RoutingRule[]> {
+    const { data, error } = await this.supabase
+      .from('inbox_routing_rules')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error || !data) {
+      console.error('[RoutingEngine] Error listing rules:', error);
+      return [];
+    }
+
+    return data.map(this.mapRule);
+  }
+
+  async getRule(ruleId: string): Promise<RoutingRule | null> {
+    const { data, error } = await this.supabase
+      .from('inbox_routing_rules')
+      .select('*')
+      .eq('id', ruleId)
+      .maybeSingle();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return this.mapRule(data);
+  }
+
+  /**
+   * Create a rule; without a position it runs after the existing rules
+   */
+  async createRule(projectId: string, input: RoutingRuleInput, userId?: string): Promise<RoutingRule | null> {
+    let position = input.position;
+    if (position === undefined) {
+      const { data: last } = await this.supabase
+        .from('inbox_routing_rules')
+        .select('position')
+        .eq('project_id', projectId)
+        .order('position', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      position = last ? last.position + 1 : 0;
+    }
+
+    const { data, error } = await this.supabase
+      .from('inbox_routing_rules')
+      .insert({
+        project_id: projectId,
+        name: input.name.trim(),
+        description: input.description,
+        enabled: input.enabled ?? true,
+        position,
+        conditions: input.conditions,
+        actions: input.actions,
+        stop_processing: input.stopProcessing ?? false,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('[RoutingEngine] Error creating rule:', error);
+      return null;
+    }
+
+    return this.mapRule(data);
+  }
+
+  async updateRule(ruleId: string, input: Partial<RoutingRuleInput>): Promise<RoutingRule | null> {
+    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+
+    if (input.name !== undefined) updates.name = input.name.trim();
+    if (input.description !== undefined) updates.description = input.description;
+    if (input.enabled !== undefined) updates.enabled = input.enabled;
+    if (input.position !== undefined) updates.position = input.position;
+    if (input.conditions !== undefined) updates.conditions = input.conditions;
+    if (input.actions !== undefined) updates.actions = input.actions;
+    if (input.stopProcessing !== undefined) updates.stop_processing = input.stopProcessing;
+
+    const { data, error } = await this.supabase
+      .from('inbox_routing_rules')
+      .update(updates)
+      .eq('id', ruleId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('[RoutingEngine] Error updating rule:', error);
+      return null;
+    }
+
+    return this.mapRule(data);
+  }
+
+  async deleteRule(ruleId: string): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('inbox_routing_rules')
+      .delete()
+      .eq('id', ruleId);
+
+    return !error;
+  }
+
+  /**
+   * Assignees in a rule's actions who aren't on the project's team
+   */
+  async findInvalidAssignees(projectId: string, actions: RoutingAction[]): Promise<string[]> {
+    const userIds = actions.flatMap(a => (a.type === 'assign' ? [a.userId] : []));
+    if (userIds.length === 0) return [];
+
+    const [{ data: project }, { data: members }] = await Promise.all([
+      this.supabase.from('projects').select('owner_id').eq('id', projectId).maybeSingle(),
+      this.supabase.from('members').select('user_id').eq('project_id', projectId).in('user_id', userIds),
+    ]);
+
+    const team = new Set<string>((members || []).map(m => m.user_id));
+    if (project?.owner_id) team.add(project.owner_id);
+
+    return userIds.filter(id => !team.has(id));
+  }
+
+  /**
+   * Run the project's rules over newly stored items and apply the actions
+   * of every rule that matches
+   */
+  async routeItems(projectId: string, itemIds: string[]): Promise<RoutingResult[]> {
+    if (itemIds.length === 0) return [];
+
+    const rules = (await this.listRules(projectId)).filter(r => r.enabled);
+    if (rules.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('unified_feedback_items')
+      .select(ITEM_SELECT)
+      .eq('project_id', projectId)
+      .in('id', itemIds);
+
+    if (error || !data) {
+      console.error('[RoutingEngine] Error loading items to route:', error);
+      return [];
+    }
+
+    const results: RoutingResult[] = [];
+    const matchCounts = new Map<string, number>();
+
+    for (const row of data) {
+      const item = this.inbox.mapItem(row);
+      const matched = selectMatchingRules(rules, item);
+      if (matched.length === 0) continue;
+
+      const result = await this.applyRules(item, matched);
+      results.push(result);
+      for (const rule of matched) {
+        matchCounts.set(rule.id, (matchCounts.get(rule.id) || 0) + 1);
+      }
+    }
+
+    for (const [ruleId, count] of matchCounts) {
+      const { error: countError } = await this.supabase.rpc('record_routing_rule_matches', {
+        p_rule_id: ruleId,
+        p_count: count,
+      });
+      if (countError) {
+        console.error('[RoutingEngine] Error recording rule matches:', countError);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Which historical items a rule would have matched, without applying it
+   */
+  async dryRun(
+    projectId: string,
+    rule: Pick<RoutingRuleInput, 'conditions' | 'actions'>,
+    days = 30
+  ): Promise<RoutingDryRunResult> {
+    const since = new Date(Date.now() - Math.min(Math.max(days, 1), DRY_RUN_MAX_DAYS) * 24 * 60 * 60 * 1000);
+
+    const { data, error } = await this.supabase
+      .from('unified_feedback_items')
+      .select(ITEM_SELECT)
+      .eq('project_id', projectId)
+      .eq('is_duplicate', false)
+      .gte('original_created_at', since.toISOString())
+      .order('original_created_at', { ascending: false })
+      .limit(DRY_RUN_MAX_ITEMS);
+
+    if (error) {
+      console.error('[RoutingEngine] Error loading items for dry run:', error);
+      throw error;
+    }
+
+    const actionTypes = (rule.actions || []).map(a => a.type);
+    const items = (data || []).map(row => this.inbox.mapItem(row));
+    const matched = items.filter(item => matchesConditions(rule.conditions, item));
+
+    return {
+      itemsScanned: items.length,
+      itemsMatched: matched.length,
+      since,
+      matches: matched.slice(0, DRY_RUN_SAMPLE_SIZE).map(item => ({
+        itemId: item.id,
+        title: item.title,
+        excerpt: (item.contentPlain || item.content).slice(0, 200),
+        sourceType: item.sourceType,
+        originalCreatedAt: item.originalCreatedAt,
+        actions: actionTypes,
+      })),
+    };
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  private async applyRules(item: UnifiedFeedbackItem, rules: RoutingRule[]): Promise<RoutingResult> {
+    const actions = rules.flatMap(r => r.actions);
+    const result: RoutingResult = {
+      itemId: item.id,
+      matchedRuleIds: rules.map(r => r.id),
+      actionsApplied: [],
+      errors: [],
+    };
+
+    const update = buildItemUpdate(item, actions);
+    if (Object.keys(update).length > 0) {
+      const { error } = await this.supabase
+        .from('unified_feedback_items')
+        .update({ ...update, updated_at: new Date().toISOString() })
+        .eq('id', item.id);
+
+      if (error) {
+        result.errors.push(`Failed to update item: ${error.message}`);
+      } else {
+        result.actionsApplied.push(
+          ...actions.filter(a => ['assign', 'tag', 'set_priority', 'archive'].includes(a.type)).map(a => a.type)
+        );
+      }
+    }
+
+    for (const rule of rules) {
+      for (const action of rule.actions) {
+        try {
+          if (action.type === 'convert_to_post') {
+            await this.convertToPost(item, action.boardId);
+            result.actionsApplied.push(action.type);
+          } else if (action.type === 'slack') {
+            await this.postToSlack(item, action.channelId, rule);
+            result.actionsApplied.push(action.type);
+          }
+        } catch (error) {
+          result.errors.push(`${action.type}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+    }
+
+    await this.supabase.from('inbox_rule_matches').insert(
+      rules.map(rule => ({
+        project_id: item.projectId,
+        rule_id: rule.id,
+        item_id: item.id,
+        actions: rule.actions.map(a => a.type),
+        errors: result.errors,
+      }))
+    );
+
+    if (result.errors.length > 0) {
+      console.error(`[RoutingEngine] Errors routing item ${item.id}:`, result.errors);
+    }
+
+    return result;
+  }
+
+  /**
+   * Create a board post from the item and mark the item converted
+   */
+  private async convertToPost(item: UnifiedFeedbackItem, boardId?: string): Promise<void> {
+    if (item.convertedToPostId) return;
+
+    let targetBoardId = boardId;
+    if (!targetBoardId) {
+      const { data: board } = await this.supabase
+        .from('boards')
+        .select('id')
+        .eq('project_id', item.projectId)
+        .limit(1)
+        .maybeSingle();
+      targetBoardId = board?.id;
+    }
+
+    if (!targetBoardId) {
+      throw new Error('No board found for this project');
+    }
+
+    const { data: post, error } = await this.supabase
+      .from('posts')
+      .insert({
+        project_id: item.projectId,
+        board_id: targetBoardId,
+        title: item.title || item.aiSummary || (item.contentPlain || item.content).slice(0, 120),
+        description: item.contentPlain || item.content,
+        status: 'open',
+        author_name: item.authorName || item.authorUsername || 'Inbox',
+        author_email: item.authorEmail || null,
+      })
+      .select('id, project_id, board_id')
+      .single();
+
+    if (error || !post) {
+      throw new Error(error?.message || 'Failed to create post');
+    }
+
+    await invalidateCacheTags(postCacheTags(post));
+
+    await this.supabase
+      .from('unified_feedback_items')
+      .update({
+        status: 'converted',
+        converted_to_post_id: post.id,
+        converted_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', item.id);
+  }
+
+  /**
+   * Post the item to a channel through the project's Slack connection. The
+   * helpers in lib/slack read the connection through the request session,
+   * which sync jobs don't have, so this goes through the service client.
+   */
+  private async postToSlack(item: UnifiedFeedbackItem, channelId: string, rule: RoutingRule): Promise<void> {
+    const { data: connection } = await this.supabase
+      .from('slack_connections')
+      .select('id, bot_token_encrypted')
+      .eq('project_id', item.projectId)
+      .eq('status', 'active')
+      .maybeSingle();
+
+    if (!connection) {
+      throw new Error('No active Slack connection');
+    }
+
+    const client = new WebClient(decryptToken(connection.bot_token_encrypted));
+    const excerpt = (item.contentPlain || item.content).slice(0, 500);
+    const text = `Inbox rule "${rule.name}" matched feedback from ${item.authorName || item.sourceType}`;
+
+    const blocks = [
+      { type: 'section', text: { type: 'mrkdwn', text: `*${text}*` } },
+      { type: 'section', text: { type: 'mrkdwn', text: `>${excerpt.replace(/\n/g, '\n>')}` } },
+      {
+        type: 'context',
+        elements: [
+          { type: 'mrkdwn', text: `<${DASHBOARD_URL}/inbox?item=${item.id}|Open in inbox>${item.sourceUrl ? ` · <${item.sourceUrl}|View source>` : ''}` },
+        ],
+      },
+    ];
+
+    const response = await client.chat.postMessage({
+      channel: channelId,
+      text,
+      blocks,
+      unfurl_links: false,
+      unfurl_media: false,
+    });
+
+    const { error } = await this.supabase.from('slack_message_logs').insert({
+      slack_connection_id: connection.id,
+      alert_type: 'inbox_routing',
+      channel_id: channelId,
+      message_ts: response.ts,
+      blocks,
+      text_fallback: text,
+      success: true,
+      entity_id: item.id,
+      entity_type: 'feedback',
+    });
+
+    if (error) {
+      console.error('[RoutingEngine] Error logging Slack message:', error);
+    }
+  }
+
+  private mapRule(row: any): RoutingRule {
+    return {
+      id: row.id,
+      projectId: row.project_id,
+      name: row.name,
+      description: row.description,
+      enabled: row.enabled,
+      position: row.position,
+      conditions: row.conditions || {},
+      actions: row.actions || [],
+      stopProcessing: row.stop_processing || false,
+      matchCount: row.match_count || 0,
+      lastMatchedAt: row.last_matched_at ? new Date(row.last_matched_at) : undefined,
+      createdBy: row.created_by,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
+
+// Lazy singleton pattern to avoid build-time initialization
+let _routingEngineInstance: RoutingEngine | null = null;
+
+function getRoutingEngine(): RoutingEngine {
+  if (!_routingEngineInstance) {
+    _routingEngineInstance = new RoutingEngine();
+  }
+  return _routingEngineInstance;
+}
+
+export const routingEngine = {
+  listRules: (...args: Parameters<RoutingEngine['listRules']>) =>
+    getRoutingEngine().listRules(...args),
+  routeItems: (...args: Parameters<RoutingEngine['routeItems']>) =>
+    getRoutingEngine().routeItems(...args),
+};
@@ -5,11 +5,15 @@
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { BaseSyncer } from './base-syncer';
+import { InboxService } from './inbox-service';
+import { withAICostContext } from '@/lib/ai/cost-ledger';
 import {
   IntegrationType,
   FeedbackIntegration,
+  ReplyDelivery,
   SyncResult,
   SyncLog,
+  UnifiedFeedbackItem,
 } from './types';
 
 // Import individual syncers
@@ -25,6 +29,9 @@ import { PlayStoreSyncer } from './syncers/playstore-syncer';
 import { HackerNewsSyncer } from './syncers/hackernews-syncer';
 import { ProductHuntSyncer } from './syncers/producthunt-syncer';
 import { OutlookSyncer } from './syncers/outlook-syncer';
+import { ZendeskSyncer } from './syncers/zendesk-syncer';
+import { TypeformSyncer } from './syncers/typeform-syncer';
+import { InboundEmailSyncer } from './syncers/inbound-email-syncer';
 
 export class SyncOrchestrator {
   private supabase: SupabaseClient;
@@ -50,6 +57,9 @@ export class SyncOrchestrator {
     this.syncers.set('hackernews', new HackerNewsSyncer());
     this.syncers.set('producthunt', new ProductHuntSyncer());
     this.syncers.set('email_outlook', new OutlookSyncer());
+    this.syncers.set('zendesk', new ZendeskSyncer());
+    this.syncers.set('typeform', new TypeformSyncer());
+    this.syncers.set('email_inbound', new InboundEmailSyncer());
   }
 
   /**
@@ -92,7 +102,7 @@ export class SyncOrchestrator {
 
     try {
       console.log(`[SyncOrchestrator] Starting sync for ${integration.integrationType} (${integration.id})`);
-      const result = await syncer.sync(integration);
+      const result = await withAICostContext({ projectId: integration.projectId, feature: 'inbox_sync' }, () => syncer.sync(integration));
 
       // Log completed sync
       await this.logSyncComplete(integration, result);
@@ -184,6 +194,42 @@ export class SyncOrchestrator {
     return data.map(this.mapIntegration);
   }
 
+  /**
+   * Get a single integration by ID
+   */
+  async getIntegration(integrationId: string): Promise<FeedbackIntegration | null> {
+    const { data, error } = await this.supabase
+      .from('feedback_integrations')
+      .select('*')
+      .eq('id', integrationId)
+      .maybeSingle();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return this.mapIntegration(data);
+  }
+
+  /**
+   * Get the active inbound email integration owning a feedback+<token>@ address
+   */
+  async getInboundEmailIntegration(token: string): Promise<FeedbackIntegration | null> {
+    const { data, error } = await this.supabase
+      .from('feedback_integrations')
+      .select('*')
+      .eq('integration_type', 'email_inbound')
+      .eq('config->>inboundToken', token)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return this.mapIntegration(data);
+  }
+
   /**
    * Get all integrations for a project
    */
@@ -311,11 +357,7 @@ export class SyncOrchestrator {
     }
 
     try {
-      // Try to fetch with a small limit to test connection
-      await syncer.fetchFeedback({
-        ...integration,
-        config: { ...integration.config, limit: 1 },
-      } as FeedbackIntegration);
+      await syncer.verifyCredentials(integration);
 
       // Update connection status
       await this.supabase
@@ -343,6 +385,63 @@ export class SyncOrchestrator {
     }
   }
 
+  /**
+   * Whether items from this source can be replied to
+   */
+  supportsReply(integrationType: IntegrationType): boolean {
+    return this.syncers.get(integrationType)?.supportsReply ?? false;
+  }
+
+  /**
+   * Reply to an item in its source channel using the integration's stored
+   * credentials, and record the outcome on the item's timeline
+   */
+  async sendReply(
+    item: UnifiedFeedbackItem,
+    userId: string,
+    content: string
+  ): Promise<ReplyDelivery> {
+    if (!item.integrationId) {
+      throw new Error('This item has no integration to reply through');
+    }
+
+    const integration = await this.getIntegration(item.integrationId);
+    if (!integration || !integration.isActive) {
+      throw new Error('The integration for this item is no longer active');
+    }
+
+    const syncer = this.syncers.get(integration.integrationType);
+    if (!syncer?.supportsReply) {
+      throw new Error(`Replying isn't supported for ${integration.integrationType}`);
+    }
+
+    const inbox = new InboxService(this.supabase);
+
+    try {
+      const delivery = await syncer.sendReply(integration, item, content);
+
+      await inbox.recordReply(item.id, userId, content, integration.integrationType);
+      await inbox.addTimelineEvent(item, 'reply_sent', {
+        actorId: userId,
+        content,
+        metadata: { via: integration.integrationType, ...delivery },
+      });
+
+      return delivery;
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Reply failed';
+
+      await inbox.addTimelineEvent(item, 'reply_failed', {
+        actorId: userId,
+        content,
+        metadata: { via: integration.integrationType, error: errorMessage },
+      });
+
+      throw error;
+    }
+  }
+
   /**
    * Get sync logs for an integration
    */
@@ -436,6 +535,7 @@ export class SyncOrchestrator {
       lastSyncItemsCount: row.last_sync_items_count || 0,
       totalItemsSynced: row.total_items_synced || 0,
       totalItemsThisMonth: row.total_items_this_month || 0,
+      syncState: row.sync_state || {},
       isActive: row.is_active,
       isConnected: row.is_connected,
       connectionVerifiedAt: row.connection_verified_at ? new Date(row.connection_verified_at) : undefined,
@@ -469,6 +569,10 @@ export const syncOrchestrator = {
     getSyncOrchestrator().syncDueIntegrations(),
   getActiveIntegrations: (...args: Parameters<SyncOrchestrator['getActiveIntegrations']>) =>
     getSyncOrchestrator().getActiveIntegrations(...args),
+  getIntegration: (...args: Parameters<SyncOrchestrator['getIntegration']>) =>
+    getSyncOrchestrator().getIntegration(...args),
+  getInboundEmailIntegration: (...args: Parameters<SyncOrchestrator['getInboundEmailIntegration']>) =>
+    getSyncOrchestrator().getInboundEmailIntegration(...args),
   getAllIntegrations: (...args: Parameters<SyncOrchestrator['getAllIntegrations']>) =>
     getSyncOrchestrator().getAllIntegrations(...args),
   createIntegration: (...args: Parameters<SyncOrchestrator['createIntegration']>) =>
@@ -483,6 +587,10 @@ export const syncOrchestrator = {
     getSyncOrchestrator().deleteIntegration(...args),
   testConnection: (...args: Parameters<SyncOrchestrator['testConnection']>) =>
     getSyncOrchestrator().testConnection(...args),
+  supportsReply: (...args: Parameters<SyncOrchestrator['supportsReply']>) =>
+    getSyncOrchestrator().supportsReply(...args),
+  sendReply: (...args: Parameters<SyncOrchestrator['sendReply']>) =>
+    getSyncOrchestrator().sendReply(...args),
   getSyncLogs: (...args: Parameters<SyncOrchestrator['getSyncLogs']>) =>
     getSyncOrchestrator().getSyncLogs(...args),
 };
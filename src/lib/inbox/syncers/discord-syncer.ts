@@ -4,7 +4,13 @@
  */
 
 import { BaseSyncer } from '../base-syncer';
-import { IntegrationType, FeedbackIntegration, RawFeedbackItem } from '../types';
+import {
+  IntegrationType,
+  FeedbackIntegration,
+  RawFeedbackItem,
+  ReplyDelivery,
+  UnifiedFeedbackItem,
+} from '../types';
 
 interface DiscordMessage {
   id: string;
@@ -36,6 +42,7 @@ interface DiscordMessage {
 
 export class DiscordSyncer extends BaseSyncer {
   integrationType: IntegrationType = 'discord';
+  readonly supportsReply = true;
   
   private baseUrl = 'https://discord.com/api/v10';
   
@@ -106,6 +113,59 @@ export class DiscordSyncer extends BaseSyncer {
     return items;
   }
   
+  /**
+   * Post a reply that references the original message
+   */
+  async sendReply(
+    integration: FeedbackIntegration,
+    item: UnifiedFeedbackItem,
+    content: string
+  ): Promise<ReplyDelivery> {
+    const botToken = integration.credentials.accessToken;
+    if (!botToken) {
+      throw new Error('Discord bot token not configured');
+    }
+    
+    if (!item.sourceChannel || !item.sourceId) {
+      throw new Error('Discord message is missing its channel or ID');
+    }
+    
+    // Discord caps messages at 2000 characters
+    if (content.length > 2000) {
+      throw new Error('Discord replies are limited to 2000 characters');
+    }
+    
+    const response = await fetch(
+      `${this.baseUrl}/channels/${item.sourceChannel}/messages`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bot ${botToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          content,
+          message_reference: { message_id: item.sourceId, fail_if_not_exists: false },
+          allowed_mentions: { replied_user: true },
+        }),
+      }
+    );
+    
+    if (!response.ok) {
+      throw new Error(`Discord API error: ${response.status} ${response.statusText}`);
+    }
+    
+    const message: DiscordMessage = await response.json();
+    const guildId = integration.credentials.guildId;
+    
+    return {
+      externalId: message.id,
+      externalUrl: guildId
+        ? `https://discord.com/channels/${guildId}/${item.sourceChannel}/${message.id}`
+        : undefined,
+    };
+  }
+  
   private async fetchChannelMessages(
     botToken: string,
     channelId: string,
@@ -4,7 +4,13 @@
  */
 
 import { BaseSyncer } from '../base-syncer';
-import { IntegrationType, FeedbackIntegration, RawFeedbackItem } from '../types';
+import {
+  IntegrationType,
+  FeedbackIntegration,
+  RawFeedbackItem,
+  ReplyDelivery,
+  UnifiedFeedbackItem,
+} from '../types';
 
 interface GmailMessage {
   id: string;
@@ -31,6 +37,7 @@ interface GmailMessage {
 
 export class GmailSyncer extends BaseSyncer {
   integrationType: IntegrationType = 'email_gmail';
+  readonly supportsReply = true;
   
   private baseUrl = 'https://gmail.googleapis.com/gmail/v1';
   
@@ -76,6 +83,78 @@ export class GmailSyncer extends BaseSyncer {
     return items;
   }
   
+  /**
+   * Send a reply into the email's thread. Needs the gmail.send scope.
+   */
+  async sendReply(
+    integration: FeedbackIntegration,
+    item: UnifiedFeedbackItem,
+    content: string
+  ): Promise<ReplyDelivery> {
+    let accessToken = integration.credentials.accessToken;
+    const refreshToken = integration.credentials.refreshToken;
+    
+    if (!accessToken && !refreshToken) {
+      throw new Error('Gmail credentials not configured');
+    }
+    
+    if (refreshToken) {
+      accessToken = await this.refreshAccessToken(refreshToken);
+    }
+    
+    if (!item.sourceId || !item.authorEmail) {
+      throw new Error('Email is missing its message ID or sender');
+    }
+    
+    // Thread the reply under the original Message-ID
+    const original = await fetch(
+      `${this.baseUrl}/users/me/messages/${item.sourceId}?format=metadata&metadataHeaders=Message-ID&metadataHeaders=Subject`,
+      {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      }
+    );
+    
+    if (!original.ok) {
+      throw new Error(`Gmail API error: ${original.status} ${original.statusText}`);
+    }
+    
+    const message: GmailMessage = await original.json();
+    const getHeader = (name: string) =>
+      message.payload.headers.find(h => h.name.toLowerCase() === name.toLowerCase())?.value;
+    
+    const raw = buildReplyMime({
+      to: item.authorEmail,
+      subject: getHeader('Subject') || item.title || '',
+      messageId: getHeader('Message-ID'),
+      body: content,
+    });
+    
+    const response = await fetch(`${this.baseUrl}/users/me/messages/send`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        raw: Buffer.from(raw).toString('base64url'),
+        threadId: message.threadId,
+      }),
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Gmail API error: ${response.status} ${response.statusText}`);
+    }
+    
+    const sent = await response.json();
+    
+    return {
+      externalId: sent.id,
+      externalUrl: `https://mail.google.com/mail/u/0/#inbox/${sent.threadId || message.threadId}`,
+    };
+  }
+  
   private buildQuery(integration: FeedbackIntegration): string {
     const parts: string[] = [];
     
@@ -250,3 +329,28 @@ export class GmailSyncer extends BaseSyncer {
     return Buffer.from(base64, 'base64').toString('utf-8');
   }
 }
+
+/**
+ * RFC 2822 reply to an email, threaded with In-Reply-To/References
+ */
+export function buildReplyMime(reply: {
+  to: string;
+  subject: string;
+  messageId?: string;
+  body: string;
+}): string {
+  const subject = /^re:/i.test(reply.subject) ? reply.subject : `Re: ${reply.subject}`;
+  const headers = [
+    `To: ${reply.to}`,
+    `Subject: ${subject}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset="UTF-8"',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  
+  if (reply.messageId) {
+    headers.push(`In-Reply-To: ${reply.messageId}`, `References: ${reply.messageId}`);
+  }
+  
+  return `${headers.join('\r\n')}\r\n\r\n${reply.body}`;
+}
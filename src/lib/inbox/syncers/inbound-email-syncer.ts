@@ -0,0 +1,319 @@
+/**
+ * Inbound Email Syncer
+ * Each project gets a feedback+<token>@ address. Mail forwarded there is
+ * delivered as raw MIME to the inbound email webhook, cleaned of quoted
+ * replies and signatures, and stored like any other synced item.
+ */
+
+import crypto from 'crypto';
+import { BaseSyncer } from '../base-syncer';
+import type { ParsedEmail } from '../mime-parser';
+import {
+  IntegrationType,
+  FeedbackIntegration,
+  InboxAttachment,
+  RawFeedbackItem,
+  SyncResult,
+} from '../types';
+
+export interface ForwardedMessage {
+  // Whatever the forwarder wrote above the forwarded message
+  note: string;
+  from?: { name?: string; email: string };
+  subject?: string;
+  date?: Date;
+  body: string;
+}
+
+export const INBOUND_LOCAL_PART = 'feedback';
+export const ATTACHMENT_BUCKET = 'inbox-attachments';
+
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+const FORWARD_MARKERS = [
+  /^-{2,}\s*Forwarded message\s*-{2,}$/i,
+  /^Begin forwarded message:$/i,
+  /^-{2,}\s*Original Message\s*-{2,}$/i,
+];
+
+const REPLY_ATTRIBUTION = /^(On|Le|Am|El)\s.+(wrote|a écrit|schrieb|escribió)\s?:$/i;
+const OUTLOOK_SEPARATOR = /^_{10,}$/;
+const MOBILE_FOOTER = /^(Sent from my .+|Sent from Mail for Windows.*|Get Outlook for .+|Sent from Yahoo Mail.*)$/i;
+
+/**
+ * Config for a new inbound email integration: a random token and the
+ * address built from it
+ */
+export function inboundAddressConfig(): { inboundToken: string; inboxEmail: string } {
+  const inboundToken = crypto.randomBytes(10).toString('hex');
+  return { inboundToken, inboxEmail: inboundAddress(inboundToken) };
+}
+
+export function inboundAddress(token: string): string {
+  const domain = process.env.INBOUND_EMAIL_DOMAIN || 'inbound.signalsloop.com';
+  return `${INBOUND_LOCAL_PART}+${token}@${domain}`;
+}
+
+/**
+ * Find the project token among the addresses a message was delivered to
+ */
+export function findInboundToken(addresses: string[]): string | null {
+  const domain = process.env.INBOUND_EMAIL_DOMAIN?.toLowerCase();
+
+  for (const address of addresses) {
+    const match = address.trim().toLowerCase().match(/^feedback\+([a-f0-9]+)@(.+)$/);
+    if (match && (!domain || match[2] === domain)) {
+      return match[1];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Plain text from an HTML body, dropping quoted blocks
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(head|style|script)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<blockquote[\s\S]*?<\/blockquote>/gi, '')
+    // Line breaks in HTML source are just whitespace
+    .replace(/\s+/g, ' ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]*\n[ \t]*/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Drop the quoted message below a reply ("On ... wrote:", Outlook header
+ * blocks) and any remaining "> " quoted lines
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.split(/\r?\n/);
+  let end = lines.length;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const next = lines[i + 1]?.trim() || '';
+
+    if (
+      REPLY_ATTRIBUTION.test(line)
+      // Clients wrap long attributions onto a second line
+      || (!REPLY_ATTRIBUTION.test(next) && REPLY_ATTRIBUTION.test(`${line} ${next}`))
+      || FORWARD_MARKERS[2].test(line)
+      || (OUTLOOK_SEPARATOR.test(line) && /^From:/i.test(next))
+      || isOutlookHeaderBlock(lines, i)
+    ) {
+      end = i;
+      break;
+    }
+  }
+
+  return lines
+    .slice(0, end)
+    .filter(line => !line.startsWith('>'))
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Drop a "-- " signature block and mobile client footers
+ */
+export function stripSignature(text: string): string {
+  const lines = text.split(/\r?\n/);
+  const delimiter = lines.findIndex(line => line === '-- ' || line === '--');
+  const kept = delimiter >= 0 ? lines.slice(0, delimiter) : lines;
+
+  while (kept.length > 0 && (MOBILE_FOOTER.test(kept[kept.length - 1].trim()) || !kept[kept.length - 1].trim())) {
+    kept.pop();
+  }
+
+  return kept.join('\n').trim();
+}
+
+/**
+ * Split a forwarded email into the forwarder's note and the original
+ * message with its From, Subject and Date
+ */
+export function extractForwarded(text: string, subject: string): ForwardedMessage | null {
+  const lines = text.split(/\r?\n/);
+  const isForward = /^(fwd?|fw)\s*:/i.test(subject.trim());
+
+  let markerIndex = lines.findIndex(line => FORWARD_MARKERS.slice(0, 2).some(marker => marker.test(line.trim())));
+  let headerStart = markerIndex + 1;
+
+  // Outlook forwards have no marker line, just a header block
+  if (markerIndex < 0 && isForward) {
+    markerIndex = lines.findIndex((line, i) =>
+      FORWARD_MARKERS[2].test(line.trim()) || OUTLOOK_SEPARATOR.test(line.trim()) || isOutlookHeaderBlock(lines, i)
+    );
+    headerStart = /^From:/i.test(lines[markerIndex]?.trim() || '') ? markerIndex : markerIndex + 1;
+  }
+
+  if (markerIndex < 0) return null;
+
+  const headers: Record<string, string> = {};
+  let i = headerStart;
+
+  while (i < lines.length && !lines[i].trim()) i++;
+  for (; i < lines.length; i++) {
+    const match = lines[i].trim().match(/^(From|Date|Sent|Subject|To|Cc):\s*(.*)$/i);
+    if (!match) break;
+    headers[match[1].toLowerCase()] = match[2];
+  }
+
+  const from = parseForwardedFrom(headers.from || '');
+  const date = headers.date || headers.sent;
+
+  return {
+    note: lines.slice(0, markerIndex).join('\n').trim(),
+    from,
+    subject: headers.subject,
+    date: date && !isNaN(Date.parse(date)) ? new Date(date) : undefined,
+    body: lines.slice(i).join('\n').trim(),
+  };
+}
+
+/**
+ * Map a parsed email to a feedback item, or null when nothing is left
+ * once quotes and signatures are removed
+ */
+export function mapInboundEmail(email: ParsedEmail, recipient: string): RawFeedbackItem | null {
+  const text = email.text ?? (email.html ? htmlToText(email.html) : '');
+  const forwarded = extractForwarded(text, email.subject);
+  const author = forwarded?.from || email.from;
+  if (!author) return null;
+
+  const content = stripSignature(stripQuotedReply(forwarded ? forwarded.body : text));
+  if (!content) return null;
+
+  const messageId = email.messageId
+    || crypto.createHash('sha256').update(`${email.from?.email}|${email.subject}|${text}`).digest('hex');
+  const attachments: InboxAttachment[] = email.attachments.map(attachment => ({
+    filename: attachment.filename,
+    contentType: attachment.contentType,
+    size: attachment.size,
+    inline: attachment.inline,
+  }));
+
+  return {
+    sourceType: 'email_inbound',
+    sourceId: messageId,
+    sourceChannel: recipient,
+    // Replies carry the root message in References, so a thread shares one ID
+    sourceThreadId: email.references[0] || email.inReplyTo || messageId,
+
+    title: forwarded?.subject || email.subject.replace(/^((re|fwd?|fw)\s*:\s*)+/i, '') || undefined,
+    content,
+    attachments,
+
+    authorEmail: author.email,
+    authorName: author.name,
+    authorMetadata: forwarded
+      ? { forwardedBy: email.from?.email, forwardNote: forwarded.note || undefined }
+      : {},
+
+    originalCreatedAt: forwarded?.date || email.date || new Date(),
+
+    metadata: {
+      messageId: email.messageId,
+      inReplyTo: email.inReplyTo,
+    },
+  };
+}
+
+export class InboundEmailSyncer extends BaseSyncer {
+  integrationType: IntegrationType = 'email_inbound';
+
+  async fetchFeedback(): Promise<RawFeedbackItem[]> {
+    // Mail is pushed to the webhook; there is nothing to poll
+    return [];
+  }
+
+  /**
+   * Store a message delivered to the project's address and its attachments,
+   * running it through the usual classification path
+   */
+  async ingestEmail(
+    integration: FeedbackIntegration,
+    email: ParsedEmail,
+    recipient: string
+  ): Promise<SyncResult> {
+    const item = mapInboundEmail(email, recipient);
+
+    if (!item) {
+      return this.buildResult(integration, 'success', 0, 0, 0, 0, Date.now());
+    }
+
+    item.attachments = await this.storeAttachments(integration, email);
+    return this.ingest(integration, [item]);
+  }
+
+  private async storeAttachments(
+    integration: FeedbackIntegration,
+    email: ParsedEmail
+  ): Promise<InboxAttachment[]> {
+    const stored: InboxAttachment[] = [];
+
+    for (const attachment of email.attachments) {
+      const entry: InboxAttachment = {
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        size: attachment.size,
+        inline: attachment.inline,
+      };
+
+      if (attachment.size <= MAX_ATTACHMENT_BYTES) {
+        const digest = crypto.createHash('sha256').update(attachment.content).digest('hex');
+        const safeName = attachment.filename.replace(/[^\w.-]+/g, '_');
+        const path = `${integration.projectId}/${digest.slice(0, 32)}/${safeName}`;
+
+        // Same content, same path: redelivered mail doesn't duplicate files
+        const { error } = await this.supabase.storage
+          .from(ATTACHMENT_BUCKET)
+          .upload(path, attachment.content, { contentType: attachment.contentType, upsert: true });
+
+        if (error) {
+          console.error('[email_inbound] Error storing attachment:', error);
+        } else {
+          entry.storagePath = path;
+        }
+      }
+
+      stored.push(entry);
+    }
+
+    return stored;
+  }
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+function isOutlookHeaderBlock(lines: string[], index: number): boolean {
+  if (!/^From:\s*\S/i.test(lines[index]?.trim() || '')) return false;
+  const following = lines.slice(index + 1, index + 4).map(line => line.trim());
+  return following.some(line => /^(Sent|Date):/i.test(line))
+    && following.some(line => /^(To|Subject):/i.test(line));
+}
+
+function parseForwardedFrom(value: string): { name?: string; email: string } | undefined {
+  const angled = value.match(/^(.*?)\s*[<[]([^<>\s[\]]+@[^<>\s[\]]+)[>\]]/);
+  if (angled) {
+    const name = angled[1].replace(/^"(.*)"$/, '$1').replace(/^mailto:/i, '').trim();
+    return { name: name || undefined, email: angled[2].replace(/^mailto:/i, '').toLowerCase() };
+  }
+
+  const bare = value.match(/([^\s<>()"]+@[^\s<>()"]+)/);
+  return bare ? { email: bare[1].toLowerCase() } : undefined;
+}
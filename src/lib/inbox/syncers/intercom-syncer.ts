@@ -4,7 +4,13 @@
  */
 
 import { BaseSyncer } from '../base-syncer';
-import { IntegrationType, FeedbackIntegration, RawFeedbackItem } from '../types';
+import {
+  IntegrationType,
+  FeedbackIntegration,
+  RawFeedbackItem,
+  ReplyDelivery,
+  UnifiedFeedbackItem,
+} from '../types';
 
 interface IntercomConversation {
   id: string;
@@ -70,6 +76,7 @@ interface IntercomContact {
 
 export class IntercomSyncer extends BaseSyncer {
   integrationType: IntegrationType = 'intercom';
+  readonly supportsReply = true;
   
   private baseUrl = 'https://api.intercom.io';
   
@@ -134,6 +141,63 @@ export class IntercomSyncer extends BaseSyncer {
     return items;
   }
   
+  /**
+   * Reply to the conversation as the admin who owns the access token
+   */
+  async sendReply(
+    integration: FeedbackIntegration,
+    item: UnifiedFeedbackItem,
+    content: string
+  ): Promise<ReplyDelivery> {
+    const accessToken = integration.credentials.accessToken;
+    if (!accessToken) {
+      throw new Error('Intercom access token not configured');
+    }
+    
+    if (!item.sourceId) {
+      throw new Error('Intercom item is missing its conversation ID');
+    }
+    
+    const headers = {
+      'Authorization': `Bearer ${accessToken}`,
+      'Intercom-Version': '2.10',
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+    };
+    
+    const meResponse = await fetch(`${this.baseUrl}/me`, { headers });
+    if (!meResponse.ok) {
+      throw new Error(`Intercom API error: ${meResponse.status} ${meResponse.statusText}`);
+    }
+    const admin = await meResponse.json();
+    
+    const response = await fetch(
+      `${this.baseUrl}/conversations/${item.sourceId}/reply`,
+      {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          message_type: 'comment',
+          type: 'admin',
+          admin_id: admin.id,
+          body: content,
+        }),
+      }
+    );
+    
+    if (!response.ok) {
+      throw new Error(`Intercom API error: ${response.status} ${response.statusText}`);
+    }
+    
+    const conversation = await response.json();
+    const parts = conversation.conversation_parts?.conversation_parts || [];
+    
+    return {
+      externalId: parts[parts.length - 1]?.id,
+      externalUrl: `https://app.intercom.com/a/inbox/conversation/${item.sourceId}`,
+    };
+  }
+  
   private async fetchConversations(
     accessToken: string,
     since?: Date
@@ -4,7 +4,13 @@
  */
 
 import { BaseSyncer } from '../base-syncer';
-import { IntegrationType, FeedbackIntegration, RawFeedbackItem } from '../types';
+import {
+    IntegrationType,
+    FeedbackIntegration,
+    RawFeedbackItem,
+    ReplyDelivery,
+    UnifiedFeedbackItem,
+} from '../types';
 
 interface OutlookMessage {
     id: string;
@@ -26,8 +32,12 @@ interface OutlookMessage {
     isRead: boolean;
 }
 
+const READ_SCOPE = 'https://graph.microsoft.com/Mail.Read offline_access';
+const SEND_SCOPE = 'https://graph.microsoft.com/Mail.Send offline_access';
+
 export class OutlookSyncer extends BaseSyncer {
     integrationType: IntegrationType = 'email_outlook';
+    readonly supportsReply = true;
 
     private baseUrl = 'https://graph.microsoft.com/v1.0';
 
@@ -59,7 +69,55 @@ export class OutlookSyncer extends BaseSyncer {
         return items;
     }
 
-    private async refreshAccessToken(refreshToken: string): Promise<string> {
+    /**
+     * Reply to the email through Graph, which threads it with the original
+     */
+    async sendReply(
+        integration: FeedbackIntegration,
+        item: UnifiedFeedbackItem,
+        content: string
+    ): Promise<ReplyDelivery> {
+        let accessToken = integration.credentials.accessToken;
+        const refreshToken = integration.credentials.refreshToken;
+
+        if (!accessToken && !refreshToken) {
+            throw new Error('Outlook credentials not configured');
+        }
+
+        // Sending needs Mail.Send on top of the Mail.Read the sync uses
+        if (refreshToken) {
+            accessToken = await this.refreshAccessToken(refreshToken, SEND_SCOPE);
+        }
+
+        if (!item.sourceId) {
+            throw new Error('Email is missing its message ID');
+        }
+
+        const response = await fetch(
+            `${this.baseUrl}/me/messages/${encodeURIComponent(item.sourceId)}/reply`,
+            {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ comment: content }),
+            }
+        );
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            console.error('[Outlook] Reply error:', response.status, errorText);
+            throw new Error(`Outlook API error: ${response.status} ${response.statusText}`);
+        }
+
+        // Graph answers 202 with no body, so there is no ID for the sent reply
+        return {
+            externalUrl: item.sourceUrl,
+        };
+    }
+
+    private async refreshAccessToken(refreshToken: string, scope = READ_SCOPE): Promise<string> {
         const clientId = process.env.MICROSOFT_CLIENT_ID;
         const clientSecret = process.env.MICROSOFT_CLIENT_SECRET;
 
@@ -77,7 +135,7 @@ export class OutlookSyncer extends BaseSyncer {
                 client_secret: clientSecret,
                 refresh_token: refreshToken,
                 grant_type: 'refresh_token',
-                scope: 'https://graph.microsoft.com/Mail.Read offline_access',
+                scope,
             }),
         });
 
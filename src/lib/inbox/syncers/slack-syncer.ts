@@ -4,7 +4,13 @@
  */
 
 import { BaseSyncer } from '../base-syncer';
-import { IntegrationType, FeedbackIntegration, RawFeedbackItem } from '../types';
+import {
+  IntegrationType,
+  FeedbackIntegration,
+  RawFeedbackItem,
+  ReplyDelivery,
+  UnifiedFeedbackItem,
+} from '../types';
 
 interface SlackMessage {
   type: string;
@@ -33,6 +39,7 @@ interface SlackUser {
 
 export class SlackSyncer extends BaseSyncer {
   integrationType: IntegrationType = 'slack';
+  readonly supportsReply = true;
   
   private baseUrl = 'https://slack.com/api';
   
@@ -118,6 +125,58 @@ export class SlackSyncer extends BaseSyncer {
     return items;
   }
   
+  /**
+   * Reply in the message's thread
+   */
+  async sendReply(
+    integration: FeedbackIntegration,
+    item: UnifiedFeedbackItem,
+    content: string
+  ): Promise<ReplyDelivery> {
+    const accessToken = integration.credentials.accessToken;
+    if (!accessToken) {
+      throw new Error('Slack access token not configured');
+    }
+    
+    const channelId = this.channelIdFor(item);
+    if (!channelId || !item.sourceId) {
+      throw new Error('Slack message is missing its channel or timestamp');
+    }
+    
+    const response = await fetch(`${this.baseUrl}/chat.postMessage`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json; charset=utf-8',
+      },
+      body: JSON.stringify({
+        channel: channelId,
+        thread_ts: item.sourceThreadId || item.sourceId,
+        text: content,
+      }),
+    });
+    
+    const data = await response.json();
+    
+    if (!data.ok) {
+      throw new Error(`Slack API error: ${data.error}`);
+    }
+    
+    return {
+      externalId: data.ts,
+      externalUrl: `slack://channel?id=${channelId}&message=${data.ts}`,
+    };
+  }
+  
+  /**
+   * Items store the channel name for display; the ID is in the source URL,
+   * or is the source channel itself when the name couldn't be looked up
+   */
+  private channelIdFor(item: UnifiedFeedbackItem): string | undefined {
+    const fromUrl = item.sourceUrl?.match(/[?&]id=([^&]+)/)?.[1];
+    return fromUrl || item.sourceChannel;
+  }
+  
   private async fetchChannelMessages(
     accessToken: string,
     channelId: string,
@@ -0,0 +1,258 @@
+/**
+ * Typeform Syncer
+ * Fetches form responses through the Responses API; the same mapping is
+ * used for responses pushed by Typeform webhooks
+ */
+
+import { BaseSyncer } from '../base-syncer';
+import { IntegrationType, FeedbackIntegration, RawFeedbackItem } from '../types';
+
+export interface TypeformField {
+  id: string;
+  title: string;
+  type: string;
+  ref?: string;
+}
+
+export interface TypeformDefinition {
+  id: string;
+  title: string;
+  fields: TypeformField[];
+}
+
+export interface TypeformAnswer {
+  field: { id: string; type: string; ref?: string };
+  type: string;
+  text?: string;
+  email?: string;
+  url?: string;
+  number?: number;
+  boolean?: boolean;
+  date?: string;
+  phone_number?: string;
+  choice?: { label?: string; other?: string };
+  choices?: { labels?: string[]; other?: string };
+}
+
+export interface TypeformResponse {
+  token: string;
+  landed_at: string;
+  submitted_at: string;
+  hidden?: Record<string, string>;
+  calculated?: { score?: number };
+  metadata?: { platform?: string; referer?: string };
+  answers?: TypeformAnswer[];
+}
+
+interface ResponsesPage {
+  total_items: number;
+  page_count: number;
+  items: TypeformResponse[];
+}
+
+export interface TypeformSyncState {
+  // Submission time of the newest response imported, per form
+  forms?: Record<string, { since: string }>;
+}
+
+const PAGE_SIZE = 200;
+const MAX_RESPONSES_PER_FORM = 1000;
+const INITIAL_LOOKBACK_DAYS = 30;
+const SCORE_FIELD_TYPES = ['rating', 'opinion_scale', 'nps'];
+
+function answerText(answer: TypeformAnswer): string | undefined {
+  switch (answer.type) {
+    case 'text':
+      return answer.text;
+    case 'choice':
+      return answer.choice?.label || answer.choice?.other;
+    case 'choices':
+      return [...(answer.choices?.labels || []), answer.choices?.other].filter(Boolean).join(', ');
+    case 'number':
+      return answer.number === undefined ? undefined : String(answer.number);
+    case 'boolean':
+      return answer.boolean === undefined ? undefined : answer.boolean ? 'Yes' : 'No';
+    case 'date':
+      return answer.date;
+    case 'url':
+      return answer.url;
+    default:
+      // email, phone_number and file_url identify the respondent, not the feedback
+      return undefined;
+  }
+}
+
+/**
+ * Map one response to a feedback item; null when it has no usable content
+ */
+export function mapTypeformResponse(
+  form: TypeformDefinition,
+  response: TypeformResponse
+): RawFeedbackItem | null {
+  const fields = new Map(form.fields.map((field) => [field.id, field]));
+  const lines: string[] = [];
+  const scores: Record<string, number> = {};
+  let email = response.hidden?.email;
+
+  for (const answer of response.answers || []) {
+    const field = fields.get(answer.field.id);
+
+    if (answer.type === 'email' && answer.email) {
+      email = email || answer.email;
+      continue;
+    }
+
+    if (SCORE_FIELD_TYPES.includes(answer.field.type) && answer.number !== undefined) {
+      scores[field?.title || answer.field.id] = answer.number;
+    }
+
+    const text = answerText(answer)?.trim();
+    if (text) {
+      lines.push(field ? `${field.title}\n${text}` : text);
+    }
+  }
+
+  if (lines.length === 0) {
+    return null;
+  }
+
+  const scoreValues = Object.values(scores);
+
+  return {
+    sourceType: 'typeform',
+    sourceId: response.token,
+    sourceUrl: `https://admin.typeform.com/form/${form.id}/results#responses`,
+    sourceChannel: form.title,
+    sourceThreadId: form.id,
+
+    title: form.title,
+    content: lines.join('\n\n'),
+
+    authorName: response.hidden?.name,
+    authorEmail: email,
+
+    engagementMetrics: scoreValues.length > 0 ? { score: scoreValues[0] } : undefined,
+
+    originalCreatedAt: new Date(response.submitted_at),
+
+    metadata: {
+      formId: form.id,
+      scores,
+      calculatedScore: response.calculated?.score,
+      hidden: response.hidden || {},
+      platform: response.metadata?.platform,
+      referer: response.metadata?.referer,
+    },
+  };
+}
+
+export class TypeformSyncer extends BaseSyncer {
+  integrationType: IntegrationType = 'typeform';
+
+  private baseUrl = 'https://api.typeform.com';
+
+  async verifyCredentials(integration: FeedbackIntegration): Promise<void> {
+    await this.request<{ alias?: string }>('/me', this.getToken(integration));
+  }
+
+  async fetchFeedback(integration: FeedbackIntegration): Promise<RawFeedbackItem[]> {
+    const token = this.getToken(integration);
+    const state = (integration.syncState || {}) as TypeformSyncState;
+    const formState = { ...(state.forms || {}) };
+    const items: RawFeedbackItem[] = [];
+
+    const formIds = integration.config.formIds?.length
+      ? integration.config.formIds
+      : await this.listFormIds(token);
+
+    for (const formId of formIds) {
+      const form = await this.request<TypeformDefinition>(`/forms/${encodeURIComponent(formId)}`, token);
+      const since = formState[formId]?.since || this.getInitialSince(integration);
+      const responses = await this.fetchResponses(token, formId, since);
+
+      for (const response of responses) {
+        const item = mapTypeformResponse(form, response);
+        if (item) items.push(item);
+      }
+
+      if (responses.length > 0) {
+        formState[formId] = { since: responses[responses.length - 1].submitted_at };
+      }
+    }
+
+    this.stageSyncState(integration, { forms: formState } satisfies TypeformSyncState);
+    return items;
+  }
+
+  /**
+   * Completed responses submitted since `since`, oldest first
+   */
+  private async fetchResponses(token: string, formId: string, since: string): Promise<TypeformResponse[]> {
+    const responses: TypeformResponse[] = [];
+    let cursor = since;
+
+    while (responses.length < MAX_RESPONSES_PER_FORM) {
+      const params = new URLSearchParams({
+        page_size: String(PAGE_SIZE),
+        since: cursor,
+        completed: 'true',
+        sort: 'submitted_at,asc',
+      });
+
+      const page = await this.request<ResponsesPage>(
+        `/forms/${encodeURIComponent(formId)}/responses?${params.toString()}`,
+        token
+      );
+
+      // `since` is inclusive, so the boundary response comes back again
+      const fresh = page.items.filter((item) => !responses.some((seen) => seen.token === item.token));
+      responses.push(...fresh);
+
+      const last = page.items[page.items.length - 1];
+      if (page.items.length < PAGE_SIZE || !last || last.submitted_at === cursor) {
+        break;
+      }
+      cursor = last.submitted_at;
+    }
+
+    return responses;
+  }
+
+  private async listFormIds(token: string): Promise<string[]> {
+    const { items } = await this.request<{ items: Array<{ id: string }> }>('/forms?page_size=200', token);
+    return items.map((form) => form.id);
+  }
+
+  private getToken(integration: FeedbackIntegration): string {
+    const token = integration.credentials.accessToken;
+    if (!token) {
+      throw new Error('Typeform access token not configured');
+    }
+    return token;
+  }
+
+  private getInitialSince(integration: FeedbackIntegration): string {
+    const since = integration.lastSyncAt
+      || new Date(Date.now() - INITIAL_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    return since.toISOString();
+  }
+
+  private async request<T>(path: string, token: string): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Accept': 'application/json',
+      },
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error('Typeform rejected the access token');
+    }
+
+    if (!response.ok) {
+      throw new Error(`Typeform API error: ${response.status} ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+}
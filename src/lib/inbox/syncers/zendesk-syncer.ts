@@ -0,0 +1,242 @@
+/**
+ * Zendesk Syncer
+ * Fetches tickets through the incremental export API and imports the
+ * public comments end users left on them
+ */
+
+import { BaseSyncer } from '../base-syncer';
+import { IntegrationType, FeedbackIntegration, RawFeedbackItem, IntegrationCredentials } from '../types';
+
+interface ZendeskTicket {
+  id: number;
+  subject: string | null;
+  status: string;
+  priority: string | null;
+  type: string | null;
+  tags: string[];
+  requester_id: number;
+  organization_id: number | null;
+  via?: { channel?: string };
+  created_at: string;
+  updated_at: string;
+}
+
+interface ZendeskComment {
+  id: number;
+  author_id: number;
+  body: string;
+  html_body?: string;
+  plain_body?: string;
+  public: boolean;
+  created_at: string;
+}
+
+interface ZendeskUser {
+  id: number;
+  name: string;
+  email?: string | null;
+  role: 'end-user' | 'agent' | 'admin';
+  photo?: { content_url?: string } | null;
+}
+
+interface TicketExportPage {
+  tickets: ZendeskTicket[];
+  after_cursor: string | null;
+  end_of_stream: boolean;
+}
+
+interface CommentsPage {
+  comments: ZendeskComment[];
+  users?: ZendeskUser[];
+  next_page: string | null;
+}
+
+export interface ZendeskSyncState {
+  afterCursor?: string;
+}
+
+// Comments are fetched per ticket, so keep a sync within Zendesk's rate limit
+const MAX_TICKETS_PER_SYNC = 200;
+const TICKETS_PER_PAGE = 100;
+const INITIAL_LOOKBACK_DAYS = 30;
+
+export class ZendeskSyncer extends BaseSyncer {
+  integrationType: IntegrationType = 'zendesk';
+
+  async verifyCredentials(integration: FeedbackIntegration): Promise<void> {
+    const baseUrl = this.getBaseUrl(integration.credentials);
+    const { user } = await this.request<{ user: ZendeskUser | null }>(
+      `${baseUrl}/users/me.json`,
+      integration.credentials
+    );
+
+    // Invalid credentials come back as an anonymous end user
+    if (!user?.id || user.role === 'end-user') {
+      throw new Error('Zendesk credentials must belong to an agent or admin');
+    }
+  }
+
+  async fetchFeedback(integration: FeedbackIntegration): Promise<RawFeedbackItem[]> {
+    const { credentials } = integration;
+    const baseUrl = this.getBaseUrl(credentials);
+    const state = (integration.syncState || {}) as ZendeskSyncState;
+
+    const items: RawFeedbackItem[] = [];
+    let cursor = state.afterCursor;
+    let ticketsSeen = 0;
+
+    while (ticketsSeen < MAX_TICKETS_PER_SYNC) {
+      const params = new URLSearchParams({ per_page: String(TICKETS_PER_PAGE) });
+      if (cursor) {
+        params.set('cursor', cursor);
+      } else {
+        params.set('start_time', String(this.getStartTime(integration)));
+      }
+
+      const page = await this.request<TicketExportPage>(
+        `${baseUrl}/incremental/tickets/cursor.json?${params.toString()}`,
+        credentials
+      );
+
+      for (const ticket of page.tickets) {
+        if (ticket.status === 'deleted') continue;
+        items.push(...(await this.fetchTicketComments(baseUrl, credentials, ticket)));
+      }
+
+      ticketsSeen += page.tickets.length;
+      // Only whole pages are consumed, so the cursor never skips a ticket
+      if (page.after_cursor) {
+        cursor = page.after_cursor;
+      }
+
+      if (page.end_of_stream || !page.after_cursor) {
+        break;
+      }
+    }
+
+    if (cursor) {
+      this.stageSyncState(integration, { afterCursor: cursor } satisfies ZendeskSyncState);
+    }
+
+    return items;
+  }
+
+  /**
+   * Public comments by end users on one ticket; the first is the ticket body
+   */
+  private async fetchTicketComments(
+    baseUrl: string,
+    credentials: IntegrationCredentials,
+    ticket: ZendeskTicket
+  ): Promise<RawFeedbackItem[]> {
+    const items: RawFeedbackItem[] = [];
+    const users = new Map<number, ZendeskUser>();
+    let url: string | null = `${baseUrl}/tickets/${ticket.id}/comments.json?include=users`;
+
+    while (url) {
+      const page: CommentsPage = await this.request<CommentsPage>(url, credentials);
+      for (const user of page.users || []) {
+        users.set(user.id, user);
+      }
+
+      for (const comment of page.comments) {
+        const author = users.get(comment.author_id);
+        if (!comment.public || author?.role !== 'end-user') continue;
+
+        const content = comment.plain_body || comment.body;
+        if (!content?.trim()) continue;
+
+        items.push({
+          sourceType: 'zendesk',
+          sourceId: String(comment.id),
+          sourceUrl: `${baseUrl.replace(/\/api\/v2$/, '')}/agent/tickets/${ticket.id}`,
+          sourceChannel: ticket.via?.channel,
+          sourceThreadId: String(ticket.id),
+
+          title: ticket.subject || undefined,
+          content: content.trim(),
+          contentHtml: comment.html_body,
+
+          authorId: String(author.id),
+          authorName: author.name,
+          authorEmail: author.email || undefined,
+          authorAvatarUrl: author.photo?.content_url,
+
+          engagementMetrics: {
+            replies: page.comments.length - 1,
+          },
+
+          originalCreatedAt: new Date(comment.created_at),
+
+          metadata: {
+            ticketId: ticket.id,
+            status: ticket.status,
+            priority: ticket.priority,
+            type: ticket.type,
+            tags: ticket.tags,
+          },
+        });
+      }
+
+      url = page.next_page;
+    }
+
+    return items;
+  }
+
+  private getBaseUrl(credentials: IntegrationCredentials): string {
+    const subdomain = credentials.subdomain?.trim().replace(/\.zendesk\.com$/, '');
+    if (!subdomain || !/^[a-z0-9-]+$/i.test(subdomain)) {
+      throw new Error('Zendesk subdomain not configured');
+    }
+    return `https://${subdomain}.zendesk.com/api/v2`;
+  }
+
+  /**
+   * First sync: from the last sync time, or the lookback window
+   */
+  private getStartTime(integration: FeedbackIntegration): number {
+    const since = integration.lastSyncAt
+      || new Date(Date.now() - INITIAL_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    return Math.floor(since.getTime() / 1000);
+  }
+
+  private getAuthHeader(credentials: IntegrationCredentials): string {
+    if (credentials.accessToken) {
+      return `Bearer ${credentials.accessToken}`;
+    }
+    if (credentials.email && credentials.apiKey) {
+      const token = Buffer.from(`${credentials.email}/token:${credentials.apiKey}`).toString('base64');
+      return `Basic ${token}`;
+    }
+    throw new Error('Zendesk credentials not configured');
+  }
+
+  /**
+   * GET with Zendesk's Retry-After honoured on 429
+   */
+  private async request<T>(url: string, credentials: IntegrationCredentials, attempt = 0): Promise<T> {
+    const response = await fetch(url, {
+      headers: {
+        'Authorization': this.getAuthHeader(credentials),
+        'Accept': 'application/json',
+      },
+    });
+
+    if (response.status === 429 && attempt < 3) {
+      const retryAfter = Number(response.headers.get('Retry-After')) || 10;
+      await this.delay(retryAfter * 1000);
+      return this.request<T>(url, credentials, attempt + 1);
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error('Zendesk rejected the credentials');
+    }
+
+    if (!response.ok) {
+      throw new Error(`Zendesk API error: ${response.status} ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+}
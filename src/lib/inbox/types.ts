@@ -14,6 +14,7 @@ export type IntegrationType =
   | 'zendesk'
   | 'email_gmail'
   | 'email_outlook'
+  | 'email_inbound'
   | 'twitter'
   | 'g2'
   | 'app_store'
@@ -41,9 +42,15 @@ export interface IntegrationConfig {
   inboxEmail?: string;
   labelFilter?: string;
 
+  // For inbound email: the token in the project's feedback+<token>@ address
+  inboundToken?: string;
+
   // For app stores
   appId?: string;
   countries?: string[];
+
+  // For Typeform
+  formIds?: string[];
 }
 
 export interface IntegrationCredentials {
@@ -54,8 +61,21 @@ export interface IntegrationCredentials {
   workspaceId?: string;
   webhookSecret?: string;
   expiresAt?: string;
+
+  // For Zendesk: {subdomain}.zendesk.com, plus the agent email for API token auth
+  subdomain?: string;
+  email?: string;
+
+  // For Discord: the server the bot was added to, and the bot's own user ID
+  guildId?: string;
+  botId?: string;
 }
 
+/**
+ * Cursor state a syncer persists between runs (feedback_integrations.sync_state)
+ */
+export type IntegrationSyncState = Record<string, unknown>;
+
 export interface FeedbackIntegration {
   id: string;
   projectId: string;
@@ -72,6 +92,7 @@ export interface FeedbackIntegration {
   lastSyncItemsCount: number;
   totalItemsSynced: number;
   totalItemsThisMonth: number;
+  syncState?: IntegrationSyncState;
   isActive: boolean;
   isConnected: boolean;
   connectionVerifiedAt?: Date;
@@ -137,6 +158,8 @@ export type FeedbackStatus =
 
 export type SentimentLabel = 'positive' | 'negative' | 'neutral' | 'mixed';
 
+export type FeedbackPriority = 'low' | 'medium' | 'high' | 'urgent';
+
 export interface EngagementMetrics {
   likes?: number;
   shares?: number;
@@ -159,6 +182,17 @@ export interface AuthorMetadata {
   [key: string]: any;
 }
 
+/**
+ * File attached to an email, kept in the inbox-attachments storage bucket
+ */
+export interface InboxAttachment {
+  filename: string;
+  contentType: string;
+  size: number;
+  inline: boolean;
+  storagePath?: string;
+}
+
 export interface UnifiedFeedbackItem {
   id: string;
   projectId: string;
@@ -177,6 +211,7 @@ export interface UnifiedFeedbackItem {
   contentHtml?: string;
   contentPlain?: string;
   language: string;
+  attachments?: InboxAttachment[];
 
   // Author
   authorId?: string;
@@ -216,6 +251,11 @@ export interface UnifiedFeedbackItem {
   readAt?: Date;
   readBy?: string;
 
+  // Triage
+  assignedTo?: string;
+  assignedAt?: Date;
+  priority?: FeedbackPriority;
+
   // Reply
   repliedAt?: Date;
   repliedBy?: string;
@@ -269,6 +309,31 @@ export interface SyncLog {
   metadata?: Record<string, any>;
 }
 
+// ============================================================================
+// Reply Types
+// ============================================================================
+
+/**
+ * Where a reply landed in the source system
+ */
+export interface ReplyDelivery {
+  externalId?: string; // Message/comment ID in the source, when it returns one
+  externalUrl?: string;
+}
+
+export type InboxTimelineEventType = 'reply_sent' | 'reply_failed';
+
+export interface InboxTimelineEvent {
+  id: string;
+  itemId: string;
+  projectId: string;
+  eventType: InboxTimelineEventType;
+  actorId?: string;
+  content?: string;
+  metadata: Record<string, any>;
+  createdAt: Date;
+}
+
 // ============================================================================
 // Raw Feedback (from source, before processing)
 // ============================================================================
@@ -283,6 +348,7 @@ export interface RawFeedbackItem {
   title?: string;
   content: string;
   contentHtml?: string;
+  attachments?: InboxAttachment[];
 
   authorId?: string;
   authorName?: string;
@@ -314,6 +380,8 @@ export interface InboxFilters {
   dateFrom?: string;
   dateTo?: string;
   tags?: string[];
+  assignedTo?: string;
+  priority?: FeedbackPriority | FeedbackPriority[];
 }
 
 export interface InboxSortOptions {
@@ -346,6 +414,157 @@ export interface InboxStats {
   bySource: Record<IntegrationType, number>;
 }
 
+// ============================================================================
+// Routing Rule Types
+// ============================================================================
+
+/**
+ * Conditions a routing rule matches on. Every condition that is set must
+ * match; list conditions match when any of their values does.
+ */
+export interface RoutingConditions {
+  sourceTypes?: IntegrationType[];
+  keywords?: string[]; // Any of these in the title or content
+  excludeKeywords?: string[];
+  sentimentLabels?: SentimentLabel[];
+  sentimentMin?: number;
+  sentimentMax?: number;
+  customerTiers?: string[]; // Customer plan names
+  minCustomerMrr?: number;
+  languages?: string[];
+  categories?: FeedbackCategory[];
+  minUrgency?: number;
+}
+
+export type RoutingAction =
+  | { type: 'assign'; userId: string }
+  | { type: 'tag'; tags: string[] }
+  | { type: 'set_priority'; priority: FeedbackPriority }
+  | { type: 'archive' }
+  | { type: 'convert_to_post'; boardId?: string }
+  | { type: 'slack'; channelId: string };
+
+export type RoutingActionType = RoutingAction['type'];
+
+export interface RoutingRule {
+  id: string;
+  projectId: string;
+  name: string;
+  description?: string;
+  enabled: boolean;
+  position: number; // Rules run in ascending position
+  conditions: RoutingConditions;
+  actions: RoutingAction[];
+  stopProcessing: boolean; // Skip later rules once this one matches
+  matchCount: number;
+  lastMatchedAt?: Date;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RoutingRuleInput {
+  name: string;
+  description?: string;
+  enabled?: boolean;
+  position?: number;
+  conditions: RoutingConditions;
+  actions: RoutingAction[];
+  stopProcessing?: boolean;
+}
+
+export interface RoutingResult {
+  itemId: string;
+  matchedRuleIds: string[];
+  actionsApplied: RoutingActionType[];
+  errors: string[];
+}
+
+export interface RoutingDryRunMatch {
+  itemId: string;
+  title?: string;
+  excerpt: string;
+  sourceType: IntegrationType;
+  originalCreatedAt: Date;
+  actions: RoutingActionType[];
+}
+
+export interface RoutingDryRunResult {
+  itemsScanned: number;
+  itemsMatched: number;
+  since: Date;
+  matches: RoutingDryRunMatch[];
+}
+
+// ============================================================================
+// Import Types
+// ============================================================================
+
+export type ImportFileFormat = 'csv' | 'json' | 'jsonl' | 'xlsx';
+
+// Inbox item fields a column can be mapped to
+export type ImportField =
+  | 'title'
+  | 'content'
+  | 'authorName'
+  | 'authorEmail'
+  | 'category'
+  | 'createdAt'
+  | 'tags'
+  | 'votes'
+  | 'sourceUrl';
+
+// Column name for each mapped field
+export type ImportColumnMapping = Partial<Record<ImportField, string>>;
+
+export type ImportDateFormat = 'iso' | 'ymd' | 'mdy' | 'dmy' | 'unix_seconds' | 'unix_ms' | 'auto';
+
+export interface ImportRowIssue {
+  row: number; // 1-based data row, not counting the header
+  field?: ImportField;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ImportMappedRow {
+  row: number;
+  hash: string;
+  title?: string;
+  content: string;
+  authorName?: string;
+  authorEmail?: string;
+  category: FeedbackCategory;
+  createdAt?: Date;
+  tags: string[];
+  votes?: number;
+  sourceUrl?: string;
+}
+
+export interface ImportPreview {
+  importId: string;
+  filename: string;
+  format: ImportFileFormat;
+  columns: string[];
+  mapping: ImportColumnMapping;
+  detectedMapping: ImportColumnMapping;
+  dateFormat: ImportDateFormat;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  duplicateRows: number; // Repeated within the file
+  alreadyImported: number; // Imported earlier into this project
+  sample: ImportMappedRow[];
+  issues: ImportRowIssue[];
+}
+
+export interface ImportCommitResult {
+  importId: string;
+  imported: number;
+  duplicates: number;
+  invalid: number;
+  errors: string[];
+}
+
 // ============================================================================
 // Integration Setup Types
 // ============================================================================
@@ -453,6 +672,18 @@ export const INTEGRATION_CONFIGS: Record<IntegrationType, IntegrationSetupConfig
       { id: 'configure', title: 'Configure Filters', description: 'Set up email filters', completed: false },
     ],
   },
+  email_inbound: {
+    type: 'email_inbound',
+    name: 'Forwarded Email',
+    description: 'Forward emails to a feedback address for this project',
+    icon: '/integrations/email.svg',
+    authType: 'none',
+    category: 'communication',
+    setupSteps: [
+      { id: 'address', title: 'Get Your Address', description: 'A feedback+ address is created for this project', completed: false },
+      { id: 'forward', title: 'Forward Emails', description: 'Forward or auto-forward feedback emails to that address', completed: false },
+    ],
+  },
   twitter: {
     type: 'twitter',
     name: 'Twitter/X',
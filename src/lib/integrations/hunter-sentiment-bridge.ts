@@ -41,7 +41,7 @@ export async function analyzeSentimentForHunterFeedback(
         batch.map(async (item) => {
           try {
             // Use OpenAI to analyze sentiment
-            const response = await getOpenAI().chat.completions.create({
+            const response = await getOpenAI('sentiment_analysis').chat.completions.create({
               model: 'gpt-4o-mini',
               messages: [
                 {
@@ -151,7 +151,7 @@ export async function generateIssueFromFeedback(
 
   const generate = async () => {
     try {
-      const response = await getOpenAI().chat.completions.create({
+      const response = await getOpenAI('spec_generation').chat.completions.create({
         model: MODEL,
         messages: [
           {
@@ -224,7 +224,7 @@ The epic should:
 - The issue type should be "Epic"`;
 
   try {
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('spec_generation').chat.completions.create({
       model: MODEL,
       messages: [
         {
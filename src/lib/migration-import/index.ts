@@ -0,0 +1,9 @@
+/**
+ * Migration Import Module
+ * Import boards, posts, votes, comments and changelog history from
+ * Canny, UserVoice and Productboard
+ */
+
+export * from './types';
+export * from './parsers';
+export { MigrationImporter, MigrationRunConflictError, PLATFORM_LABELS } from './migration-importer';
@@ -0,0 +1,862 @@
+/**
+ * Migration Importer
+ * Writes a parsed platform export into boards, posts, votes, comments and
+ * the changelog. Runs work through the export in stages and batches and
+ * stop when their time budget is used up, so a large export is imported
+ * over several resume calls.
+ *
+ * Every imported row gets an ID derived from the project, platform and
+ * source ID, and is claimed in migration_import_records before it is
+ * written. Re-running a batch, resuming after a crash or importing the
+ * same export again never duplicates rows, and a rollback deletes exactly
+ * the rows its run claimed.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import crypto from 'crypto';
+import { cacheTags, invalidateCacheTags, postCacheTags } from '@/lib/cache';
+import {
+  MigrationBoard,
+  MigrationBundle,
+  MigrationChangelogEntry,
+  MigrationComment,
+  MigrationEntityType,
+  MigrationPlatform,
+  MigrationPost,
+  MigrationRun,
+  MigrationRunStatus,
+  MigrationSummary,
+  MigrationVote,
+} from './types';
+
+type BatchCounts = { created: number; skipped: number; failed: number };
+
+type StageItem = MigrationBoard | MigrationPost | MigrationVote | MigrationComment | MigrationChangelogEntry;
+
+interface RunContext {
+  run: MigrationRun;
+  bundle: MigrationBundle;
+  boardIds?: Map<string, string>;
+}
+
+export const PLATFORM_LABELS: Record<MigrationPlatform, string> = {
+  canny: 'Canny',
+  uservoice: 'UserVoice',
+  productboard: 'Productboard',
+};
+
+const STAGES: MigrationEntityType[] = ['board', 'post', 'vote', 'comment', 'changelog'];
+
+// Children go first so nothing is left pointing at a deleted row
+const ROLLBACK_ORDER: MigrationEntityType[] = ['changelog', 'comment', 'vote', 'post', 'board'];
+
+const TARGET_TABLES: Record<MigrationEntityType, string> = {
+  board: 'boards',
+  post: 'posts',
+  vote: 'votes',
+  comment: 'comments',
+  changelog: 'changelog_releases',
+};
+
+const DEFAULT_BOARD_SOURCE_ID = '__default__';
+const DEFAULT_TIME_BUDGET_MS = 45000;
+const BATCH_SIZE = 200;
+const ROLLBACK_CHUNK = 500;
+const MAX_SUMMARY_MESSAGES = 100;
+// A run whose request died mid-batch stays 'running' but stops saving
+const STALE_RUN_MS = 5 * 60 * 1000;
+
+const RUN_COLUMNS = 'id, project_id, platform, filename, status, stage, cursor, summary, error, created_by, created_at, started_at, completed_at, rolled_back_at';
+
+/**
+ * Thrown when another request is already importing or rolling back a run
+ */
+export class MigrationRunConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationRunConflictError';
+  }
+}
+
+export class MigrationImporter {
+  private supabase: SupabaseClient;
+
+  constructor(supabaseClient?: SupabaseClient) {
+    this.supabase = supabaseClient || createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+  }
+
+  /**
+   * Look up a project by slug. Only owners and admin members can import
+   * into it or roll an import back.
+   */
+  async findProject(slug: string, userId: string): Promise<{ id: string; canManage: boolean } | null> {
+    const { data: project } = await this.supabase
+      .from('projects')
+      .select('id, owner_id')
+      .eq('slug', slug)
+      .maybeSingle();
+
+    if (!project) return null;
+    if (project.owner_id === userId) return { id: project.id, canManage: true };
+
+    const { data: member } = await this.supabase
+      .from('members')
+      .select('role')
+      .eq('project_id', project.id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    return { id: project.id, canManage: member?.role === 'admin' };
+  }
+
+  async createRun(
+    projectId: string,
+    userId: string,
+    bundle: MigrationBundle,
+    filename?: string
+  ): Promise<MigrationRun> {
+    const { data, error } = await this.supabase
+      .from('migration_import_runs')
+      .insert({
+        project_id: projectId,
+        platform: bundle.platform,
+        filename: filename || null,
+        status: 'pending',
+        stage: STAGES[0],
+        cursor: 0,
+        bundle,
+        summary: initialSummary(bundle),
+        created_by: userId,
+      })
+      .select(RUN_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to create migration run: ${error?.message}`);
+    }
+
+    return mapRun(data);
+  }
+
+  async listRuns(projectId: string): Promise<MigrationRun[]> {
+    const { data, error } = await this.supabase
+      .from('migration_import_runs')
+      .select(RUN_COLUMNS)
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error('[Migration] List runs error:', error);
+      return [];
+    }
+
+    return (data || []).map(mapRun);
+  }
+
+  async getRun(runId: string): Promise<MigrationRun | null> {
+    const { data } = await this.supabase
+      .from('migration_import_runs')
+      .select(RUN_COLUMNS)
+      .eq('id', runId)
+      .maybeSingle();
+
+    return data ? mapRun(data) : null;
+  }
+
+  /**
+   * Import (or resume importing) a run until it finishes or the time
+   * budget runs out, in which case the run is left paused. Throws
+   * MigrationRunConflictError if another request is already running it.
+   */
+  async runImport(runId: string, options: { timeBudgetMs?: number } = {}): Promise<MigrationRun | null> {
+    const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS);
+
+    const { data } = await this.supabase
+      .from('migration_import_runs')
+      .select(`${RUN_COLUMNS}, bundle`)
+      .eq('id', runId)
+      .maybeSingle();
+
+    if (!data) return null;
+
+    const run = mapRun(data);
+    if (['completed', 'rolling_back', 'rolled_back'].includes(run.status)) {
+      return run;
+    }
+
+    const context: RunContext = { run, bundle: data.bundle as MigrationBundle };
+    run.startedAt = run.startedAt || new Date();
+    run.error = undefined;
+    await this.claimRun(run, 'running', { started_at: run.startedAt.toISOString(), error: null });
+
+    try {
+      for (let index = STAGES.indexOf(run.stage || STAGES[0]); index < STAGES.length; index++) {
+        const stage = STAGES[index];
+        if (run.stage !== stage) {
+          run.stage = stage;
+          run.cursor = 0;
+        }
+
+        const items = stageItems(context.bundle, stage);
+        while (run.cursor < items.length) {
+          if (Date.now() >= deadline) {
+            run.status = 'paused';
+            await this.saveRun(run);
+            return run;
+          }
+
+          const batch = items.slice(run.cursor, run.cursor + BATCH_SIZE);
+          const counts = await this.importBatch(context, stage, batch);
+          const entity = run.summary.entities[stage];
+          entity.created += counts.created;
+          entity.skipped += counts.skipped;
+          entity.failed += counts.failed;
+
+          run.cursor += batch.length;
+          await this.saveRun(run);
+        }
+      }
+
+      run.status = 'completed';
+      run.completedAt = new Date();
+      await this.saveRun(run);
+      return run;
+
+    } catch (error) {
+      console.error('[Migration] Run error:', error);
+      run.status = 'failed';
+      run.error = error instanceof Error ? error.message : String(error);
+      await this.saveRun(run);
+      return run;
+    }
+  }
+
+  /**
+   * Delete everything a run created. Boards and posts that were already
+   * there before the run are left alone. Like imports, a large rollback
+   * continues on the next call once the time budget is used up. A run
+   * that is still importing can't be rolled back until it stops.
+   */
+  async rollback(runId: string, options: { timeBudgetMs?: number } = {}): Promise<MigrationRun | null> {
+    const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS);
+    const run = await this.getRun(runId);
+    if (!run || run.status === 'rolled_back') return run;
+
+    if (run.status === 'running') {
+      throw new MigrationRunConflictError('This import is still running');
+    }
+
+    await this.claimRun(run, 'rolling_back');
+
+    for (const entity of ROLLBACK_ORDER) {
+      for (;;) {
+        if (Date.now() >= deadline) {
+          return run;
+        }
+
+        const { data: records, error } = await this.supabase
+          .from('migration_import_records')
+          .select('target_id')
+          .eq('run_id', runId)
+          .eq('entity_type', entity)
+          .limit(ROLLBACK_CHUNK);
+
+        if (error) {
+          throw new Error(`Failed to load imported ${entity} records: ${error.message}`);
+        }
+
+        const ids = (records || []).map(record => record.target_id as string);
+        if (ids.length === 0) break;
+
+        await this.deleteTargets(run, entity, ids);
+
+        await this.supabase
+          .from('migration_import_records')
+          .delete()
+          .eq('run_id', runId)
+          .in('target_id', ids);
+      }
+    }
+
+    run.status = 'rolled_back';
+    run.rolledBackAt = new Date();
+    await this.saveRun(run);
+    return run;
+  }
+
+  // ============================================================================
+  // Stages
+  // ============================================================================
+
+  private async importBatch(
+    context: RunContext,
+    stage: MigrationEntityType,
+    batch: StageItem[]
+  ): Promise<BatchCounts> {
+    try {
+      switch (stage) {
+        case 'board':
+          return await this.importBoards(context, batch as MigrationBoard[]);
+        case 'post':
+          return await this.importPosts(context, batch as MigrationPost[]);
+        case 'vote':
+          return await this.importVotes(context, batch as MigrationVote[]);
+        case 'comment':
+          return await this.importComments(context, batch as MigrationComment[]);
+        case 'changelog':
+          return await this.importChangelog(context, batch as MigrationChangelogEntry[]);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      addMessage(context.run.summary.errors, `${stage} batch at ${context.run.cursor}: ${message}`);
+      return { created: 0, skipped: 0, failed: batch.length };
+    }
+  }
+
+  /**
+   * Boards are matched to existing boards by name before any are created
+   */
+  private async importBoards(context: RunContext, boards: MigrationBoard[]): Promise<BatchCounts> {
+    const { run } = context;
+    const existing = await this.findBoardsByName(run.projectId);
+    const candidates = boards.filter(board => !existing.has(board.name.trim().toLowerCase()));
+
+    const claimed = await this.claim(run, 'board', candidates);
+    const rows = candidates
+      .filter(board => claimed.has(this.targetId(run, 'board', board.sourceId)))
+      .map(board => ({
+        id: this.targetId(run, 'board', board.sourceId),
+        project_id: run.projectId,
+        name: board.name.slice(0, 255),
+        description: board.description || null,
+      }));
+
+    await this.upsertRows('boards', rows);
+    if (rows.length > 0) {
+      await invalidateCacheTags([cacheTags.project(run.projectId), ...rows.map(row => cacheTags.board(row.id))]);
+    }
+    return { created: rows.length, skipped: boards.length - rows.length, failed: 0 };
+  }
+
+  private async importPosts(context: RunContext, posts: MigrationPost[]): Promise<BatchCounts> {
+    const { run } = context;
+    const boardIds = await this.resolveBoardIds(context);
+    const defaultBoardId = boardIds.get(DEFAULT_BOARD_SOURCE_ID);
+
+    const claimed = await this.claim(run, 'post', posts);
+    const rows = posts
+      .filter(post => claimed.has(this.targetId(run, 'post', post.sourceId)))
+      .map(post => ({
+        id: this.targetId(run, 'post', post.sourceId),
+        project_id: run.projectId,
+        board_id: (post.boardSourceId && boardIds.get(post.boardSourceId)) || defaultBoardId || null,
+        title: post.title.slice(0, 500),
+        description: post.description,
+        status: post.status,
+        category: post.category || null,
+        tags: post.tags,
+        author_name: post.authorName?.slice(0, 255) || null,
+        author_email: post.authorEmail || null,
+        created_at: post.createdAt,
+        updated_at: post.createdAt,
+      }));
+
+    await this.upsertRows('posts', rows);
+    await invalidateCacheTags(rows.flatMap(row => postCacheTags(row)));
+    return { created: rows.length, skipped: posts.length - rows.length, failed: 0 };
+  }
+
+  /**
+   * Votes with a known voter are recorded like votes on behalf of a
+   * customer; the rest of a post's vote count is imported as anonymous
+   * votes so totals match the source
+   */
+  private async importVotes(context: RunContext, votes: MigrationVote[]): Promise<BatchCounts> {
+    const { run } = context;
+    const postIds = await this.existingIds('posts', votes.map(vote => this.targetId(run, 'post', vote.postSourceId)));
+
+    const rows = votes
+      .filter(vote => postIds.has(this.targetId(run, 'post', vote.postSourceId)))
+      .map(vote => ({
+        vote,
+        row: {
+          id: this.targetId(run, 'vote', vote.sourceId),
+          post_id: this.targetId(run, 'post', vote.postSourceId),
+          voter_hash: vote.voterEmail ? voterHash(vote.voterEmail) : null,
+          voter_email: vote.voterEmail || null,
+          anonymous_id: vote.voterEmail ? null : `${run.platform}-import:${vote.sourceId}`,
+          priority: vote.priority,
+          created_at: vote.createdAt,
+        },
+      }));
+
+    // A customer who already voted on the post (natively or in another
+    // import) keeps that vote, as with /api/votes/on-behalf
+    const hashes = rows.map(({ row }) => row.voter_hash).filter((hash): hash is string => !!hash);
+    const voted = new Set<string>();
+    if (hashes.length > 0) {
+      const { data } = await this.supabase
+        .from('votes')
+        .select('id, post_id, voter_hash')
+        .in('post_id', [...new Set(rows.map(({ row }) => row.post_id))])
+        .in('voter_hash', [...new Set(hashes)]);
+
+      for (const existing of data || []) {
+        if (!rows.some(({ row }) => row.id === existing.id)) {
+          voted.add(`${existing.post_id}:${existing.voter_hash}`);
+        }
+      }
+    }
+
+    const fresh = rows.filter(({ row }) => {
+      if (!row.voter_hash) return true;
+      const key = `${row.post_id}:${row.voter_hash}`;
+      if (voted.has(key)) return false;
+      voted.add(key);
+      return true;
+    });
+
+    const claimed = await this.claim(run, 'vote', fresh.map(({ vote }) => vote));
+    const owned = fresh.filter(({ row }) => claimed.has(row.id));
+
+    await this.upsertRows('votes', owned.map(({ row }) => row));
+    await this.upsertRows('vote_metadata', owned
+      .filter(({ vote }) => vote.voterEmail)
+      .map(({ vote, row }) => ({
+        id: this.targetId(run, 'vote', `${vote.sourceId}:metadata`),
+        vote_id: row.id,
+        voted_by_admin_id: run.createdBy,
+        customer_email: vote.voterEmail,
+        customer_name: (vote.voterName || vote.voterEmail!).slice(0, 255),
+        customer_company: vote.voterCompany?.slice(0, 255) || null,
+        priority: vote.priority,
+        vote_source: `${run.platform}_import`,
+        internal_note: `Imported from ${PLATFORM_LABELS[run.platform]}`,
+        customer_notified: false,
+        created_at: vote.createdAt,
+      })));
+
+    const votedPostIds = [...new Set(owned.map(({ row }) => row.post_id))];
+    for (const postId of votedPostIds) {
+      const { error } = await this.supabase.rpc('update_post_priority_counts', { p_post_id: postId });
+      if (error) {
+        console.error('[Migration] Priority count update error:', error);
+      }
+    }
+    await this.invalidatePosts(run, votedPostIds);
+
+    return { created: owned.length, skipped: votes.length - owned.length, failed: 0 };
+  }
+
+  private async importComments(context: RunContext, comments: MigrationComment[]): Promise<BatchCounts> {
+    const { run } = context;
+    const postIds = await this.existingIds('posts', comments.map(comment => this.targetId(run, 'post', comment.postSourceId)));
+    const parentIds = await this.existingIds('comments', comments
+      .filter(comment => comment.parentSourceId)
+      .map(comment => this.targetId(run, 'comment', comment.parentSourceId!)));
+
+    const importable = comments.filter(comment => postIds.has(this.targetId(run, 'post', comment.postSourceId)));
+    const claimed = await this.claim(run, 'comment', importable);
+
+    const rows = importable
+      .filter(comment => claimed.has(this.targetId(run, 'comment', comment.sourceId)))
+      .map(comment => {
+        const parentId = comment.parentSourceId ? this.targetId(run, 'comment', comment.parentSourceId) : null;
+        return {
+          id: this.targetId(run, 'comment', comment.sourceId),
+          post_id: this.targetId(run, 'post', comment.postSourceId),
+          // Replies are sorted after their parents, so a missing parent wasn't imported
+          parent_id: parentId && (parentIds.has(parentId) || claimed.has(parentId)) ? parentId : null,
+          author_name: comment.authorName?.slice(0, 255) || null,
+          author_email: comment.authorEmail || null,
+          content: comment.content,
+          created_at: comment.createdAt,
+          updated_at: comment.createdAt,
+        };
+      });
+
+    await this.upsertRows('comments', rows);
+    await this.invalidatePosts(run, rows.map(row => row.post_id));
+    return { created: rows.length, skipped: comments.length - rows.length, failed: 0 };
+  }
+
+  /**
+   * Each changelog entry becomes a release with one entry, linked to the
+   * imported posts it shipped
+   */
+  private async importChangelog(context: RunContext, entries: MigrationChangelogEntry[]): Promise<BatchCounts> {
+    const { run } = context;
+    const claimed = await this.claim(run, 'changelog', entries);
+    const owned = entries.filter(entry => claimed.has(this.targetId(run, 'changelog', entry.sourceId)));
+    const postIds = await this.existingIds('posts', owned.flatMap(entry =>
+      entry.postSourceIds.map(sourceId => this.targetId(run, 'post', sourceId))
+    ));
+
+    await this.upsertRows('changelog_releases', owned.map(entry => {
+      const id = this.targetId(run, 'changelog', entry.sourceId);
+      const excerpt = entry.content.replace(/\s+/g, ' ').trim().slice(0, 200);
+      return {
+        id,
+        project_id: run.projectId,
+        title: entry.title.slice(0, 255),
+        slug: `${slugify(entry.title)}-${id.slice(0, 6)}`,
+        content: entry.content || entry.title,
+        excerpt: excerpt || null,
+        release_type: 'minor',
+        release_date: entry.publishedAt || new Date().toISOString(),
+        published_at: entry.publishedAt || null,
+        is_published: !!entry.publishedAt,
+        tags: entry.tags,
+        metadata: { importedFrom: run.platform, sourceId: entry.sourceId },
+        created_by: run.createdBy,
+      };
+    }));
+
+    await this.upsertRows('changelog_entries', owned.map(entry => ({
+      id: this.targetId(run, 'changelog', `${entry.sourceId}:entry`),
+      release_id: this.targetId(run, 'changelog', entry.sourceId),
+      title: entry.title.slice(0, 255),
+      description: entry.content || null,
+      entry_type: entry.entryType,
+      order_index: 0,
+    })));
+
+    await this.upsertRows('changelog_feedback_links', owned.flatMap(entry =>
+      entry.postSourceIds
+        .map(sourceId => this.targetId(run, 'post', sourceId))
+        .filter(postId => postIds.has(postId))
+        .map(postId => ({
+          id: this.targetId(run, 'changelog', `${entry.sourceId}:${postId}`),
+          release_id: this.targetId(run, 'changelog', entry.sourceId),
+          entry_id: this.targetId(run, 'changelog', `${entry.sourceId}:entry`),
+          post_id: postId,
+        }))
+    ));
+
+    return { created: owned.length, skipped: entries.length - owned.length, failed: 0 };
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * Claim rows for this run. Returns the target IDs the run owns: newly
+   * claimed ones plus any it claimed before being interrupted. Rows
+   * another run already imported are not returned.
+   */
+  private async claim(
+    run: MigrationRun,
+    entity: MigrationEntityType,
+    items: Array<{ sourceId: string }>
+  ): Promise<Set<string>> {
+    const owned = new Set<string>();
+    if (items.length === 0) return owned;
+
+    const targets = items.map(item => ({ sourceId: item.sourceId, targetId: this.targetId(run, entity, item.sourceId) }));
+
+    const { data: existing, error } = await this.supabase
+      .from('migration_import_records')
+      .select('target_id, run_id')
+      .eq('project_id', run.projectId)
+      .eq('entity_type', entity)
+      .in('target_id', targets.map(target => target.targetId));
+
+    if (error) {
+      throw new Error(`Failed to check imported ${entity} records: ${error.message}`);
+    }
+
+    const taken = new Set<string>();
+    for (const record of existing || []) {
+      taken.add(record.target_id);
+      if (record.run_id === run.id) owned.add(record.target_id);
+    }
+
+    const fresh = targets.filter(target => !taken.has(target.targetId));
+    if (fresh.length === 0) return owned;
+
+    const { data: inserted, error: insertError } = await this.supabase
+      .from('migration_import_records')
+      .upsert(fresh.map(target => ({
+        run_id: run.id,
+        project_id: run.projectId,
+        entity_type: entity,
+        source_id: target.sourceId,
+        target_id: target.targetId,
+      })), { onConflict: 'project_id,entity_type,target_id', ignoreDuplicates: true })
+      .select('target_id');
+
+    if (insertError) {
+      throw new Error(`Failed to record imported ${entity} rows: ${insertError.message}`);
+    }
+
+    for (const record of inserted || []) {
+      owned.add(record.target_id);
+    }
+
+    return owned;
+  }
+
+  private async upsertRows(table: string, rows: Array<Record<string, unknown>>): Promise<void> {
+    if (rows.length === 0) return;
+
+    const { error } = await this.supabase
+      .from(table)
+      .upsert(rows, { onConflict: 'id', ignoreDuplicates: true });
+
+    if (error) {
+      throw new Error(`Failed to write ${table}: ${error.message}`);
+    }
+  }
+
+  private async existingIds(table: string, ids: string[]): Promise<Set<string>> {
+    const unique = [...new Set(ids)];
+    if (unique.length === 0) return new Set();
+
+    const { data } = await this.supabase
+      .from(table)
+      .select('id')
+      .in('id', unique);
+
+    return new Set((data || []).map(row => row.id as string));
+  }
+
+  private async findBoardsByName(projectId: string): Promise<Map<string, string>> {
+    const { data } = await this.supabase
+      .from('boards')
+      .select('id, name')
+      .eq('project_id', projectId);
+
+    return new Map((data || []).map(board => [String(board.name).trim().toLowerCase(), board.id as string]));
+  }
+
+  /**
+   * Where each source board's posts go: the board this or an earlier run
+   * created, or a board of the same name that already existed
+   */
+  private async resolveBoardIds(context: RunContext): Promise<Map<string, string>> {
+    if (context.boardIds) return context.boardIds;
+
+    const { run, bundle } = context;
+    const boards = stageItems(bundle, 'board') as MigrationBoard[];
+    const created = await this.existingIds('boards', boards.map(board => this.targetId(run, 'board', board.sourceId)));
+    const byName = await this.findBoardsByName(run.projectId);
+
+    const boardIds = new Map<string, string>();
+    for (const board of boards) {
+      const id = this.targetId(run, 'board', board.sourceId);
+      const match = created.has(id) ? id : byName.get(board.name.trim().toLowerCase());
+      if (match) boardIds.set(board.sourceId, match);
+    }
+
+    context.boardIds = boardIds;
+    return boardIds;
+  }
+
+  private async deleteTargets(run: MigrationRun, entity: MigrationEntityType, ids: string[]): Promise<void> {
+    let postIds: string[] = [];
+
+    if (entity === 'vote' || entity === 'comment') {
+      const { data } = await this.supabase.from(TARGET_TABLES[entity]).select('post_id').in('id', ids);
+      postIds = [...new Set((data || []).map(row => row.post_id as string))];
+    }
+
+    if (entity === 'vote') {
+      await this.supabase.from('vote_metadata').delete().in('vote_id', ids);
+    }
+
+    const { error } = await this.supabase
+      .from(TARGET_TABLES[entity])
+      .delete()
+      .in('id', ids);
+
+    if (error) {
+      throw new Error(`Failed to delete imported ${entity} rows: ${error.message}`);
+    }
+
+    // Posts that stay (created before this run) need their priority counts redone
+    if (entity === 'vote') {
+      for (const postId of postIds) {
+        await this.supabase.rpc('update_post_priority_counts', { p_post_id: postId });
+      }
+    }
+
+    if (entity === 'board') {
+      await invalidateCacheTags([cacheTags.project(run.projectId), ...ids.map(id => cacheTags.board(id))]);
+    } else if (entity === 'post') {
+      await this.invalidatePosts(run, ids);
+    } else if (entity !== 'changelog') {
+      await this.invalidatePosts(run, postIds);
+    }
+  }
+
+  /**
+   * Drop cached post lists and the given posts after their rows,
+   * votes or comments changed
+   */
+  private async invalidatePosts(run: MigrationRun, postIds: string[]): Promise<void> {
+    if (postIds.length === 0) return;
+    await invalidateCacheTags([cacheTags.project(run.projectId), ...postIds.map(id => cacheTags.post(id))]);
+  }
+
+  private targetId(run: MigrationRun, entity: MigrationEntityType, sourceId: string): string {
+    return stableUuid(`${run.projectId}:${run.platform}:${entity}:${sourceId}`);
+  }
+
+  /**
+   * Move a run to a new status only if no other request changed it since
+   * it was read. A 'running' run can only be taken over once it is stale.
+   */
+  private async claimRun(
+    run: MigrationRun,
+    status: MigrationRunStatus,
+    values: Record<string, unknown> = {}
+  ): Promise<void> {
+    let claim = this.supabase
+      .from('migration_import_runs')
+      .update({ ...values, status, updated_at: new Date().toISOString() })
+      .eq('id', run.id)
+      .eq('status', run.status);
+
+    if (run.status === 'running') {
+      claim = claim.lt('updated_at', new Date(Date.now() - STALE_RUN_MS).toISOString());
+    }
+
+    const { data, error } = await claim.select('id').maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to claim migration run: ${error.message}`);
+    }
+    if (!data) {
+      throw new MigrationRunConflictError('This import is already being imported or rolled back');
+    }
+
+    run.status = status;
+  }
+
+  private async saveRun(run: MigrationRun): Promise<void> {
+    const { error } = await this.supabase
+      .from('migration_import_runs')
+      .update({
+        status: run.status,
+        stage: run.stage || null,
+        cursor: run.cursor,
+        summary: run.summary,
+        error: run.error || null,
+        started_at: run.startedAt?.toISOString() || null,
+        completed_at: run.completedAt?.toISOString() || null,
+        rolled_back_at: run.rolledBackAt?.toISOString() || null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', run.id);
+
+    if (error) {
+      console.error('[Migration] Save run error:', error);
+    }
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * The records each stage imports, in order. Posts without a known board
+ * go to a board named after the source tool, and each post's votes are
+ * topped up with anonymous votes to its source vote count.
+ */
+export function stageItems(bundle: MigrationBundle, stage: MigrationEntityType): StageItem[] {
+  switch (stage) {
+    case 'board': {
+      const known = new Set(bundle.boards.map(board => board.sourceId));
+      const needsDefault = bundle.posts.some(post => !post.boardSourceId || !known.has(post.boardSourceId));
+      return needsDefault
+        ? [...bundle.boards, { sourceId: DEFAULT_BOARD_SOURCE_ID, name: `Imported from ${PLATFORM_LABELS[bundle.platform]}` }]
+        : bundle.boards;
+    }
+    case 'post':
+      return bundle.posts;
+    case 'vote': {
+      const perPost = new Map<string, number>();
+      for (const vote of bundle.votes) {
+        perPost.set(vote.postSourceId, (perPost.get(vote.postSourceId) || 0) + 1);
+      }
+
+      const anonymous: MigrationVote[] = bundle.posts.flatMap(post =>
+        Array.from({ length: Math.max(0, post.voteCount - (perPost.get(post.sourceId) || 0)) }, (_, index) => ({
+          sourceId: `${post.sourceId}#${index + 1}`,
+          postSourceId: post.sourceId,
+          priority: 'important' as const,
+          createdAt: post.createdAt,
+        }))
+      );
+      return [...bundle.votes, ...anonymous];
+    }
+    case 'comment':
+      // Parents before replies
+      return [...bundle.comments].sort((a, b) =>
+        (a.parentSourceId ? 1 : 0) - (b.parentSourceId ? 1 : 0) || a.createdAt.localeCompare(b.createdAt)
+      );
+    case 'changelog':
+      return bundle.changelog;
+  }
+}
+
+function initialSummary(bundle: MigrationBundle): MigrationSummary {
+  const entities = {} as MigrationSummary['entities'];
+  for (const stage of STAGES) {
+    entities[stage] = { total: stageItems(bundle, stage).length, created: 0, skipped: 0, failed: 0 };
+  }
+  return { entities, warnings: bundle.warnings.slice(0, MAX_SUMMARY_MESSAGES), errors: [] };
+}
+
+function addMessage(messages: string[], message: string): void {
+  if (messages.length < MAX_SUMMARY_MESSAGES) {
+    messages.push(message);
+  }
+}
+
+/**
+ * Name-based (version 5 style) UUID, so the same source record always
+ * maps to the same row
+ */
+function stableUuid(name: string): string {
+  const hex = crypto.createHash('sha256').update(name).digest('hex');
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+function voterHash(email: string): string {
+  return crypto.createHash('sha256').update(email.toLowerCase().trim()).digest('hex');
+}
+
+function slugify(input: string): string {
+  return input
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80) || 'release';
+}
+
+function mapRun(row: any): MigrationRun {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    platform: row.platform,
+    filename: row.filename || undefined,
+    status: row.status,
+    stage: row.stage || undefined,
+    cursor: row.cursor || 0,
+    summary: row.summary,
+    error: row.error || undefined,
+    createdBy: row.created_by,
+    createdAt: new Date(row.created_at),
+    startedAt: row.started_at ? new Date(row.started_at) : undefined,
+    completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+    rolledBackAt: row.rolled_back_at ? new Date(row.rolled_back_at) : undefined,
+  };
+}
@@ -0,0 +1,424 @@
+/**
+ * Migration Export Parsers
+ * Turns the JSON exports of Canny, UserVoice and Productboard (the list
+ * responses of their public APIs, gathered into one object) into a
+ * MigrationBundle
+ */
+
+import { htmlToText } from '@/lib/inbox/syncers/inbound-email-syncer';
+import {
+  MigrationBundle,
+  MigrationChangelogType,
+  MigrationComment,
+  MigrationPlatform,
+  MigrationPost,
+  MigrationPostStatus,
+  MigrationVote,
+  MigrationVotePriority,
+} from './types';
+
+type ExportRecord = Record<string, any>;
+
+export class MigrationImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationImportError';
+  }
+}
+
+export const MIGRATION_PLATFORMS: MigrationPlatform[] = ['canny', 'uservoice', 'productboard'];
+
+export const MAX_MIGRATION_BYTES = 25 * 1024 * 1024;
+
+/**
+ * Parse an uploaded export. The platform is detected from the top-level
+ * keys when not given.
+ */
+export function parseMigrationExport(content: string, platform?: MigrationPlatform): MigrationBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(content.charCodeAt(0) === 0xfeff ? content.slice(1) : content);
+  } catch {
+    throw new MigrationImportError('The export isn\'t valid JSON');
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new MigrationImportError('Expected an export object such as { "posts": [...], "votes": [...] }');
+  }
+
+  const detected = platform || detectPlatform(data as ExportRecord);
+  if (!detected) {
+    throw new MigrationImportError('Couldn\'t tell which tool this export is from. Choose Canny, UserVoice or Productboard.');
+  }
+
+  switch (detected) {
+    case 'canny':
+      return parseCannyExport(data as ExportRecord);
+    case 'uservoice':
+      return parseUserVoiceExport(data as ExportRecord);
+    case 'productboard':
+      return parseProductboardExport(data as ExportRecord);
+  }
+}
+
+export function detectPlatform(data: ExportRecord): MigrationPlatform | null {
+  if (Array.isArray(data.suggestions)) return 'uservoice';
+  if (Array.isArray(data.features)) return 'productboard';
+  if (Array.isArray(data.posts)) return 'canny';
+  return null;
+}
+
+// ============================================================================
+// Canny
+// ============================================================================
+
+/**
+ * Canny: { boards, posts, comments, votes, entries }
+ */
+export function parseCannyExport(data: ExportRecord): MigrationBundle {
+  const bundle = emptyBundle('canny');
+  const boards = new Map<string, string>();
+
+  for (const board of list(data.boards)) {
+    if (board.id) boards.set(String(board.id), board.name || 'Untitled board');
+  }
+
+  for (const post of list(data.posts)) {
+    if (!post.id || !post.title) continue;
+    if (post.board?.id && !boards.has(String(post.board.id))) {
+      boards.set(String(post.board.id), post.board.name || 'Untitled board');
+    }
+
+    bundle.posts.push({
+      sourceId: String(post.id),
+      boardSourceId: post.board?.id ? String(post.board.id) : undefined,
+      title: String(post.title),
+      description: text(post.details),
+      status: mapPostStatus(post.status),
+      category: post.category?.name || undefined,
+      tags: names(post.tags),
+      authorName: post.author?.name || undefined,
+      authorEmail: email(post.author?.email),
+      createdAt: isoDate(post.created),
+      voteCount: count(post.score),
+    });
+  }
+
+  for (const vote of list(data.votes)) {
+    const postId = vote.post?.id ?? vote.postID;
+    if (!vote.id || !postId) continue;
+
+    bundle.votes.push({
+      sourceId: String(vote.id),
+      postSourceId: String(postId),
+      voterEmail: email(vote.voter?.email),
+      voterName: vote.voter?.name || undefined,
+      voterCompany: list(vote.voter?.companies)[0]?.name || undefined,
+      priority: votePriority(vote.priority),
+      createdAt: isoDate(vote.created),
+    });
+  }
+
+  let internal = 0;
+  for (const comment of list(data.comments)) {
+    const postId = comment.post?.id ?? comment.postID;
+    if (!comment.id || !postId || !comment.value) continue;
+    if (comment.internal) {
+      internal++;
+      continue;
+    }
+
+    bundle.comments.push({
+      sourceId: String(comment.id),
+      postSourceId: String(postId),
+      parentSourceId: comment.parentID ? String(comment.parentID) : undefined,
+      authorName: comment.author?.name || undefined,
+      authorEmail: email(comment.author?.email),
+      content: text(comment.value),
+      createdAt: isoDate(comment.created),
+    });
+  }
+
+  if (internal > 0) {
+    bundle.warnings.push(`${internal} internal comments were left out so they don't become public`);
+  }
+
+  for (const entry of list(data.entries)) {
+    if (!entry.id || !entry.title) continue;
+
+    bundle.changelog.push({
+      sourceId: String(entry.id),
+      title: String(entry.title),
+      content: text(entry.markdownDetails ?? entry.plaintextDetails),
+      entryType: changelogType(Array.isArray(entry.types) ? entry.types[0] : undefined),
+      publishedAt: entry.status === 'published' ? isoDate(entry.publishedAt ?? entry.created) : undefined,
+      tags: names(entry.labels),
+      postSourceIds: list(entry.posts).map(post => String(post.id)).filter(Boolean),
+    });
+  }
+
+  bundle.boards = [...boards].map(([sourceId, name]) => ({ sourceId, name }));
+  return bundle;
+}
+
+// ============================================================================
+// UserVoice
+// ============================================================================
+
+/**
+ * UserVoice (Admin API v2): { forums, categories, statuses, users,
+ * suggestions, supporters, comments }. Suggestions point at the other
+ * records through their `links`.
+ */
+export function parseUserVoiceExport(data: ExportRecord): MigrationBundle {
+  const bundle = emptyBundle('uservoice');
+  const categories = byId(data.categories);
+  const statuses = byId(data.statuses);
+  const users = byId(data.users);
+  const user = (id: unknown) => (id === undefined || id === null ? undefined : users.get(String(id)));
+
+  bundle.boards = list(data.forums)
+    .filter(forum => forum.id)
+    .map(forum => ({ sourceId: String(forum.id), name: forum.name || 'Untitled forum' }));
+
+  for (const suggestion of list(data.suggestions)) {
+    if (!suggestion.id || !suggestion.title) continue;
+
+    const links = suggestion.links || {};
+    const creator = user(links.created_by);
+    const statusName = statuses.get(String(links.status))?.name;
+
+    bundle.posts.push({
+      sourceId: String(suggestion.id),
+      boardSourceId: links.forum ? String(links.forum) : undefined,
+      title: String(suggestion.title),
+      description: text(suggestion.body),
+      status: mapPostStatus(statusName ?? (suggestion.state === 'closed' ? 'closed' : undefined)),
+      category: categories.get(String(links.category))?.name || undefined,
+      tags: [],
+      authorName: creator?.name || undefined,
+      authorEmail: email(creator?.email_address),
+      createdAt: isoDate(suggestion.created_at),
+      voteCount: count(suggestion.supporters_count ?? suggestion.votes_count),
+    });
+  }
+
+  for (const supporter of list(data.supporters)) {
+    const links = supporter.links || {};
+    if (!supporter.id || !links.suggestion) continue;
+    const voter = user(links.user);
+
+    bundle.votes.push({
+      sourceId: String(supporter.id),
+      postSourceId: String(links.suggestion),
+      voterEmail: email(voter?.email_address),
+      voterName: voter?.name || undefined,
+      priority: votePriority(supporter.how_important ?? supporter.importance),
+      createdAt: isoDate(supporter.created_at),
+    });
+  }
+
+  for (const comment of list(data.comments)) {
+    const links = comment.links || {};
+    if (!comment.id || !links.suggestion || !comment.body) continue;
+    if (['spam', 'deleted', 'removed'].includes(comment.state)) continue;
+    const author = user(links.created_by);
+
+    bundle.comments.push({
+      sourceId: String(comment.id),
+      postSourceId: String(links.suggestion),
+      authorName: author?.name || undefined,
+      authorEmail: email(author?.email_address),
+      content: text(comment.body),
+      createdAt: isoDate(comment.created_at),
+    });
+  }
+
+  return bundle;
+}
+
+// ============================================================================
+// Productboard
+// ============================================================================
+
+/**
+ * Productboard: { components, features, notes, releases,
+ * featureReleaseAssignments }. Components become boards and features
+ * become posts. A note linked to a feature counts as a vote from the
+ * note's customer, and its text is kept as a comment.
+ */
+export function parseProductboardExport(data: ExportRecord): MigrationBundle {
+  const bundle = emptyBundle('productboard');
+  const features = byId(data.features);
+
+  bundle.boards = list(data.components)
+    .filter(component => component.id)
+    .map(component => ({
+      sourceId: String(component.id),
+      name: component.name || 'Untitled component',
+      description: text(component.description) || undefined,
+    }));
+
+  // Subfeatures live on their parent feature's component
+  const componentOf = (feature: ExportRecord | undefined, depth = 0): string | undefined => {
+    if (!feature || depth > 5) return undefined;
+    if (feature.parent?.component?.id) return String(feature.parent.component.id);
+    return componentOf(features.get(String(feature.parent?.feature?.id)), depth + 1);
+  };
+
+  const posts = new Map<string, MigrationPost>();
+  for (const feature of list(data.features)) {
+    if (!feature.id || !feature.name) continue;
+
+    const post: MigrationPost = {
+      sourceId: String(feature.id),
+      boardSourceId: componentOf(feature),
+      title: String(feature.name),
+      description: text(feature.description),
+      status: mapPostStatus(feature.status?.name),
+      tags: [],
+      createdAt: isoDate(feature.createdAt),
+      voteCount: 0,
+    };
+    posts.set(post.sourceId, post);
+    bundle.posts.push(post);
+  }
+
+  for (const note of list(data.notes)) {
+    if (!note.id) continue;
+    const content = [note.title, text(note.content)].filter(Boolean).join('\n\n');
+    const voterEmail = email(note.user?.email ?? note.customer?.email);
+
+    for (const link of list(note.features)) {
+      const post = posts.get(String(link.id));
+      if (!post) continue;
+      post.voteCount++;
+
+      const sourceId = `${note.id}:${link.id}`;
+      const vote: MigrationVote = {
+        sourceId,
+        postSourceId: post.sourceId,
+        voterEmail,
+        voterName: note.user?.name || undefined,
+        voterCompany: note.company?.name || note.company?.domain || undefined,
+        priority: votePriority(link.importance),
+        createdAt: isoDate(note.createdAt),
+      };
+      bundle.votes.push(vote);
+
+      if (content) {
+        const comment: MigrationComment = {
+          sourceId,
+          postSourceId: post.sourceId,
+          authorName: vote.voterName,
+          authorEmail: voterEmail,
+          content,
+          createdAt: vote.createdAt,
+        };
+        bundle.comments.push(comment);
+      }
+    }
+  }
+
+  const releaseFeatures = new Map<string, string[]>();
+  for (const assignment of list(data.featureReleaseAssignments)) {
+    const releaseId = assignment.release?.id;
+    const featureId = assignment.feature?.id;
+    if (!releaseId || !featureId || assignment.assigned === false) continue;
+    const assigned = releaseFeatures.get(String(releaseId)) || [];
+    assigned.push(String(featureId));
+    releaseFeatures.set(String(releaseId), assigned);
+  }
+
+  for (const release of list(data.releases)) {
+    if (!release.id || !release.name) continue;
+    const released = String(release.state || '').toLowerCase() === 'released';
+
+    bundle.changelog.push({
+      sourceId: String(release.id),
+      title: String(release.name),
+      content: text(release.description),
+      entryType: 'feature',
+      publishedAt: released ? isoDate(release.timeframe?.endDate ?? release.updatedAt) : undefined,
+      tags: [],
+      postSourceIds: releaseFeatures.get(String(release.id)) || [],
+    });
+  }
+
+  return bundle;
+}
+
+// ============================================================================
+// Mapping Helpers
+// ============================================================================
+
+/**
+ * Map a status label onto post statuses; anything unrecognised, such as
+ * "Under review", stays open
+ */
+export function mapPostStatus(value?: string): MigrationPostStatus {
+  const raw = (value || '').toLowerCase().replace(/[_-]+/g, ' ').trim();
+
+  if (/\b(complete|completed|done|released|shipped|launched|live)\b/.test(raw)) return 'done';
+  if (/\b(in progress|started|building|in development|developing)\b/.test(raw)) return 'in_progress';
+  if (/\b(planned|planning|scheduled|next up|roadmap)\b/.test(raw)) return 'planned';
+  if (/\b(closed|declined|rejected|won ?t do|wont do|not planned|archived)\b/.test(raw)) return 'declined';
+  return 'open';
+}
+
+export function votePriority(value?: string): MigrationVotePriority {
+  const raw = (value || '').toLowerCase().replace(/[_-]+/g, ' ');
+
+  if (raw.includes('nice') || raw.includes('not important') || raw === 'low') return 'nice_to_have';
+  if (raw.includes('must') || raw.includes('critical')) return 'must_have';
+  return 'important';
+}
+
+function changelogType(value?: string): MigrationChangelogType {
+  switch ((value || '').toLowerCase()) {
+    case 'improved':
+      return 'improvement';
+    case 'fixed':
+      return 'fix';
+    default:
+      return 'feature';
+  }
+}
+
+function emptyBundle(platform: MigrationPlatform): MigrationBundle {
+  return { platform, boards: [], posts: [], votes: [], comments: [], changelog: [], warnings: [] };
+}
+
+function list(value: unknown): ExportRecord[] {
+  return Array.isArray(value) ? value.filter(item => item && typeof item === 'object') : [];
+}
+
+function byId(value: unknown): Map<string, ExportRecord> {
+  return new Map(list(value).filter(item => item.id !== undefined).map(item => [String(item.id), item]));
+}
+
+function names(value: unknown): string[] {
+  return list(value).map(item => item.name).filter((name): name is string => typeof name === 'string' && !!name);
+}
+
+function text(value: unknown): string {
+  if (typeof value !== 'string') return '';
+  return /<[a-z][^>]*>/i.test(value) ? htmlToText(value) : value.trim();
+}
+
+function email(value: unknown): string | undefined {
+  return typeof value === 'string' && value.includes('@') ? value.trim().toLowerCase() : undefined;
+}
+
+function count(value: unknown): number {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? Math.floor(number) : 0;
+}
+
+function isoDate(value: unknown): string {
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) return date.toISOString();
+  }
+  return new Date().toISOString();
+}
@@ -0,0 +1,125 @@
+/**
+ * Migration Import Types
+ * A platform export (Canny, UserVoice, Productboard) is parsed into a
+ * MigrationBundle, which the importer writes into boards, posts, votes,
+ * comments and the changelog
+ */
+
+export type MigrationPlatform = 'canny' | 'uservoice' | 'productboard';
+
+export type MigrationEntityType = 'board' | 'post' | 'vote' | 'comment' | 'changelog';
+
+export type MigrationPostStatus = 'open' | 'planned' | 'in_progress' | 'done' | 'declined';
+
+export type MigrationVotePriority = 'must_have' | 'important' | 'nice_to_have';
+
+export type MigrationChangelogType = 'feature' | 'improvement' | 'fix' | 'security' | 'breaking';
+
+export type MigrationRunStatus =
+  | 'pending'
+  | 'running'
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'rolling_back'
+  | 'rolled_back';
+
+// ============================================================================
+// Bundle
+// ============================================================================
+
+export interface MigrationBoard {
+  sourceId: string;
+  name: string;
+  description?: string;
+}
+
+export interface MigrationPost {
+  sourceId: string;
+  boardSourceId?: string;
+  title: string;
+  description: string;
+  status: MigrationPostStatus;
+  category?: string;
+  tags: string[];
+  authorName?: string;
+  authorEmail?: string;
+  createdAt: string;
+  // Total votes in the source; votes without a known voter are imported anonymously
+  voteCount: number;
+}
+
+export interface MigrationVote {
+  sourceId: string;
+  postSourceId: string;
+  voterEmail?: string;
+  voterName?: string;
+  voterCompany?: string;
+  priority: MigrationVotePriority;
+  createdAt: string;
+}
+
+export interface MigrationComment {
+  sourceId: string;
+  postSourceId: string;
+  parentSourceId?: string;
+  authorName?: string;
+  authorEmail?: string;
+  content: string;
+  createdAt: string;
+}
+
+export interface MigrationChangelogEntry {
+  sourceId: string;
+  title: string;
+  content: string;
+  entryType: MigrationChangelogType;
+  publishedAt?: string;
+  tags: string[];
+  postSourceIds: string[];
+}
+
+export interface MigrationBundle {
+  platform: MigrationPlatform;
+  boards: MigrationBoard[];
+  posts: MigrationPost[];
+  votes: MigrationVote[];
+  comments: MigrationComment[];
+  changelog: MigrationChangelogEntry[];
+  // Records that were left out while parsing, e.g. internal comments
+  warnings: string[];
+}
+
+// ============================================================================
+// Runs
+// ============================================================================
+
+export interface MigrationEntityCounts {
+  total: number;
+  created: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface MigrationSummary {
+  entities: Record<MigrationEntityType, MigrationEntityCounts>;
+  warnings: string[];
+  errors: string[];
+}
+
+export interface MigrationRun {
+  id: string;
+  projectId: string;
+  platform: MigrationPlatform;
+  filename?: string;
+  status: MigrationRunStatus;
+  stage?: MigrationEntityType;
+  cursor: number;
+  summary: MigrationSummary;
+  error?: string;
+  createdBy: string;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  rolledBackAt?: Date;
+}
@@ -14,6 +14,33 @@ import logger from './logger'
  * - TTL handled by Redis (automatic expiration)
  */
 
+let sharedRedis: Redis | null | undefined
+
+/**
+ * Shared Upstash connection used by every cache and by the rate limiter.
+ * Returns null when credentials are missing, so callers fall back to memory.
+ */
+export function getRedisClient(): Redis | null {
+  if (sharedRedis !== undefined) return sharedRedis
+
+  if (!process.env.UPSTASH_REDIS_REST_URL || !process.env.UPSTASH_REDIS_REST_TOKEN) {
+    sharedRedis = null
+    return sharedRedis
+  }
+
+  try {
+    sharedRedis = new Redis({
+      url: process.env.UPSTASH_REDIS_REST_URL,
+      token: process.env.UPSTASH_REDIS_REST_TOKEN,
+    })
+  } catch (error) {
+    logger.error({ error }, 'Failed to initialize Redis client')
+    sharedRedis = null
+  }
+
+  return sharedRedis
+}
+
 interface RedisCacheOptions {
   ttl?: number // Time to live in seconds (default: 3600)
   enabled?: boolean // Allow disabling Redis cache (fallback to in-memory)
@@ -32,21 +59,12 @@ class RedisCache {
     this.enabled = options.enabled ?? true
     this.inMemoryFallback = new Map()
 
-    // Initialize Redis client if credentials exist
-    if (this.enabled && process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN) {
-      try {
-        this.redis = new Redis({
-          url: process.env.UPSTASH_REDIS_REST_URL,
-          token: process.env.UPSTASH_REDIS_REST_TOKEN,
-        })
-        logger.info('Redis cache initialized', { prefix })
-      } catch (error) {
-        logger.error({ error }, 'Failed to initialize Redis, falling back to in-memory cache')
-        this.redis = null
-      }
+    // Use the shared Redis connection if credentials exist
+    this.redis = this.enabled ? getRedisClient() : null
+    if (this.redis) {
+      logger.info('Redis cache initialized', { prefix })
     } else {
       logger.warn('Redis credentials not found, using in-memory cache', { prefix })
-      this.redis = null
     }
   }
 
@@ -4,23 +4,196 @@
  * This helper provides a lazy-loaded OpenAI client instance that doesn't 
  * initialize until it's actually used, avoiding build-time errors when
  * OPENAI_API_KEY isn't available during static analysis.
+ *
+ * Every chat completion and embedding made through this client is metered:
+ * the project's AI budget is applied (see ai/cost-ledger) and token usage is
+ * written to the cost ledger, attributed via withAICostContext(). Always get
+ * clients here rather than constructing OpenAI directly, or calls bypass the
+ * ledger and the budget caps.
+ *
+ * With AI_ROUTE_ALL_TO_LOCAL=true the client talks to LOCAL_LLM_BASE_URL
+ * instead, swapping in LOCAL_LLM_MODEL and LOCAL_LLM_EMBEDDING_MODEL for the
+ * requested models, so code that calls OpenAI directly stays on the network
+ * just like the router. Audio requests go there too and need a server that
+ * implements them.
  */
 
 import OpenAI from 'openai';
+import { Stream } from 'openai/streaming';
+import type { ChatCompletionChunk } from 'openai/resources/chat/completions';
+import type { CompletionUsage } from 'openai/resources/completions';
+import {
+    getAICostContext,
+    recordAIUsage,
+    resolveBudgetedModel,
+} from './ai/cost-ledger';
+import { getLocalProviderConfig, type LocalProviderConfig } from './ai/providers/local';
+import type { AICostFeature } from './ai/types';
 
-let _openaiInstance: OpenAI | null = null;
+// One metered client per default feature
+const _openaiInstances = new Map<string, OpenAI>();
 
 /**
  * Get a lazily-initialized OpenAI client instance.
  * The client is only created when first called, not at module load time.
+ * Usage is attributed to `feature` unless the surrounding
+ * withAICostContext() names one.
  */
-export function getOpenAI(): OpenAI {
-    if (!_openaiInstance) {
-        _openaiInstance = new OpenAI({
-            apiKey: process.env.OPENAI_API_KEY,
-        });
+export function getOpenAI(feature?: AICostFeature): OpenAI {
+    const local = getLocalRoute();
+    const cacheKey = `${local?.baseURL || ''}|${feature || ''}`;
+    let client = _openaiInstances.get(cacheKey);
+    if (!client) {
+        client = meterOpenAIClient(
+            local
+                ? new OpenAI({
+                    baseURL: local.baseURL,
+                    // The SDK refuses an empty key; local servers accept any value
+                    apiKey: local.apiKey || 'local',
+                    timeout: local.timeoutMs,
+                })
+                : new OpenAI({
+                    apiKey: process.env.OPENAI_API_KEY,
+                }),
+            feature,
+            local
+        );
+        _openaiInstances.set(cacheKey, client);
     }
-    return _openaiInstance;
+    return client;
+}
+
+/**
+ * The self-hosted server every request goes to, or null unless
+ * AI_ROUTE_ALL_TO_LOCAL pins traffic to it
+ */
+function getLocalRoute(): LocalProviderConfig | null {
+    if (process.env.AI_ROUTE_ALL_TO_LOCAL !== 'true') {
+        return null;
+    }
+    return getLocalProviderConfig();
+}
+
+/**
+ * Wrap chat.completions.create and embeddings.create with budget
+ * enforcement and cost-ledger recording. A local client swaps in the
+ * configured models and is recorded at no cost.
+ */
+function meterOpenAIClient(
+    client: OpenAI,
+    defaultFeature?: AICostFeature,
+    local?: LocalProviderConfig | null
+): OpenAI {
+    const provider = local ? 'local' : 'openai';
+    const createCompletion = client.chat.completions.create.bind(client.chat.completions);
+    const createEmbedding = client.embeddings.create.bind(client.embeddings);
+
+    const meteredCompletion = async (
+        body: Parameters<typeof createCompletion>[0],
+        options?: Parameters<typeof createCompletion>[1]
+    ) => {
+        const context = getAICostContext();
+        let downgradedFrom: string | undefined;
+
+        if (local) {
+            // Self-hosted inference is free, so there is no budget to apply
+            body = {
+                ...body,
+                model: local.model,
+                response_format: local.supportsJSON ? body.response_format : undefined,
+            };
+        } else if (context?.projectId) {
+            const resolved = await resolveBudgetedModel(context.projectId, body.model);
+            if (resolved.downgradedFrom) {
+                downgradedFrom = resolved.downgradedFrom;
+                body = { ...body, model: resolved.model };
+            }
+        }
+
+        // Streams are read after this call returns, so pin the attribution now
+        const record = (usage: CompletionUsage) => {
+            void recordAIUsage({
+                projectId: context?.projectId,
+                provider,
+                model: body.model,
+                promptTokens: usage.prompt_tokens,
+                completionTokens: usage.completion_tokens,
+                feature: context?.feature ?? defaultFeature,
+                downgradedFrom,
+            });
+        };
+
+        // Streams only carry usage, in their final chunk, when asked for it
+        if (body.stream) {
+            body = { ...body, stream_options: { ...body.stream_options, include_usage: true } };
+        }
+
+        const response = await createCompletion(body, options);
+
+        if (response instanceof Stream) {
+            return meterStream(response as Stream<ChatCompletionChunk>, record);
+        }
+        if ('usage' in response && response.usage) {
+            record(response.usage);
+        }
+
+        return response;
+    };
+
+    const meteredEmbedding = async (
+        body: Parameters<typeof createEmbedding>[0],
+        options?: Parameters<typeof createEmbedding>[1]
+    ) => {
+        const context = getAICostContext();
+        if (local) {
+            if (!local.embeddingModel) {
+                throw new Error('No embedding model configured (set LOCAL_LLM_EMBEDDING_MODEL)');
+            }
+            body = { ...body, model: local.embeddingModel };
+        } else if (context?.projectId) {
+            await resolveBudgetedModel(context.projectId, body.model);
+        }
+
+        const response = await createEmbedding(body, options);
+
+        if (response.usage) {
+            void recordAIUsage({
+                provider,
+                model: body.model,
+                operation: 'embedding',
+                promptTokens: response.usage.prompt_tokens,
+                completionTokens: 0,
+                feature: context?.feature ?? defaultFeature,
+            });
+        }
+
+        return response;
+    };
+
+    client.chat.completions.create =
+        meteredCompletion as unknown as typeof client.chat.completions.create;
+    client.embeddings.create =
+        meteredEmbedding as unknown as typeof client.embeddings.create;
+
+    return client;
+}
+
+/**
+ * Pass a completion stream through unchanged, recording the usage its
+ * final chunk carries once the caller reads that far
+ */
+function meterStream(
+    stream: Stream<ChatCompletionChunk>,
+    record: (usage: CompletionUsage) => void
+): Stream<ChatCompletionChunk> {
+    return new Stream(async function* () {
+        for await (const chunk of stream) {
+            if (chunk.usage) {
+                record(chunk.usage);
+            }
+            yield chunk;
+        }
+    }, stream.controller);
 }
 
 /**
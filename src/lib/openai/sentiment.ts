@@ -14,6 +14,7 @@ import {
   SentimentAnalysisResult,
   SentimentAnalysisError,
 } from '@/types/sentiment';
+import { AIBudgetExceededError } from '@/lib/ai/types';
 
 // Configuration constants
 const DEFAULT_BATCH_SIZE = 100;
@@ -132,7 +133,7 @@ async function analyzeSentimentInternal(
 
     return result;
   } catch (error) {
-    if (error instanceof SentimentAnalysisError) {
+    if (error instanceof SentimentAnalysisError || error instanceof AIBudgetExceededError) {
       throw error;
     }
 
@@ -199,6 +200,8 @@ export async function analyzeSentimentWithRetry(
     try {
       return await analyzeSentiment(input);
     } catch (error) {
+      // Retrying cannot help once the project's AI budget is spent
+      if (error instanceof AIBudgetExceededError) throw error;
       lastError = error instanceof Error ? error : new Error('Unknown error');
       console.error(
         `[SENTIMENT] Attempt ${attempt + 1}/${maxRetries} failed:`,
@@ -258,6 +261,7 @@ export async function analyzeSentimentBatch(
           success: true,
         } as SentimentAnalysisResult;
       } catch (error) {
+        if (error instanceof AIBudgetExceededError) throw error;
         console.error(
           `[SENTIMENT] Failed to analyze post ${item.postId}:`,
           error,
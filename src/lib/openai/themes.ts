@@ -142,7 +142,7 @@ Identify the themes and return them in the JSON format specified.`;
       `[THEMES] Analyzing ${feedbackItems.length} items for theme detection...`,
     );
 
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('theme_detection').chat.completions.create({
       model: MODELS.THEME_DETECTION,
       messages: [
         { role: 'system', content: THEME_DETECTION_SYSTEM_PROMPT },
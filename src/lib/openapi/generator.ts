@@ -3,8 +3,20 @@
  * Generates the complete OpenAPI specification for SignalsLoop API
  */
 
-import type { OpenAPISpec, OpenAPIPathItem } from './schema';
+import type {
+  OpenAPISpec,
+  OpenAPIPathItem,
+  OpenAPISchema,
+  OpenAPIOperation,
+  OpenAPIParameter,
+} from './schema';
 import { COMMON_SCHEMAS } from './schema';
+import { EVENT_CATALOGUE, getEventPayloadSchemaName } from '@/lib/events/catalogue';
+import { EventType } from '@/lib/events/types';
+import { APPLICATION_WEBHOOK_EVENTS } from '@/lib/webhooks';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '@/lib/api-v1/pagination';
+import { POST_SORT_FIELDS, POST_STATUSES, VOTE_PRIORITIES } from '@/lib/api-v1/schemas';
+import { API_KEY_SCOPES, API_KEY_SCOPE_DESCRIPTIONS, type ApiKeyScope } from '@/lib/api-key-scopes';
 
 const API_VERSION = '1.0.0';
 const BASE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://app.signalsloop.com';
@@ -30,6 +42,20 @@ All API requests require authentication using a Bearer token. You can generate A
 Authorization: Bearer <your-api-key>
 \`\`\`
 
+### Scopes
+
+Each key is granted a set of scopes when it is created; a request whose key lacks
+the scope listed in the operation's \`x-required-scopes\` fails with 403. Keys can
+also be given an expiry date and restricted to a list of IP addresses or CIDR ranges.
+
+${API_KEY_SCOPES.map((scope) => `- \`${scope}\`: ${API_KEY_SCOPE_DESCRIPTIONS[scope]}`).join('\n')}
+
+## Pagination
+
+List endpoints under \`/posts\` use cursor pagination. Each page returns
+\`pagination.next_cursor\`; pass it back as \`cursor\` to fetch the next page
+until \`has_more\` is false. Cursors stay valid while posts are added or removed.
+
 ## Rate Limiting
 
 - Free tier: 100 requests/minute
@@ -40,6 +66,12 @@ Authorization: Bearer <your-api-key>
 
 SignalsLoop supports webhooks for real-time notifications. Configure webhooks in your project settings.
 
+Every domain event can be subscribed to. Each delivery is a signed JSON envelope
+(\`event\`, \`version\`, \`data\`, \`timestamp\`, \`project_id\`); the payload for each
+event and schema version is documented under \`x-webhooks\` and in the
+\`*Webhook\` / \`*PayloadV<n>\` component schemas. The \`X-Webhook-Signature\` header
+carries an HMAC SHA-256 of the body using your webhook secret.
+
 ## SDKs
 
 - JavaScript/TypeScript: \`npm install @signalsloop/sdk\`
@@ -68,6 +100,9 @@ SignalsLoop supports webhooks for real-time notifications. Configure webhooks in
     ],
     tags: [
       { name: 'Projects', description: 'Project management' },
+      { name: 'Posts', description: 'Create, update, change status of, merge and delete posts' },
+      { name: 'Comments', description: 'Comments on posts' },
+      { name: 'Votes', description: 'Votes cast on behalf of end users' },
       { name: 'Feedback', description: 'Feedback CRUD operations' },
       { name: 'Specs', description: 'AI-powered specification management' },
       { name: 'Dashboard', description: 'Mission Control dashboard data' },
@@ -79,6 +114,9 @@ SignalsLoop supports webhooks for real-time notifications. Configure webhooks in
       { name: 'Webhooks', description: 'Webhook management' },
     ],
     paths: {
+      ...withScopes(postsPaths(), 'posts:write'),
+      ...withScopes(commentsPaths(), 'posts:write'),
+      ...withScopes(votesPaths(), 'votes:write'),
       ...projectPaths(),
       ...feedbackPaths(),
       ...specsPaths(),
@@ -89,7 +127,10 @@ SignalsLoop supports webhooks for real-time notifications. Configure webhooks in
       ...roadmapPaths(),
     },
     components: {
-      schemas: COMMON_SCHEMAS,
+      schemas: {
+        ...COMMON_SCHEMAS,
+        ...webhookSchemas(),
+      },
       securitySchemes: {
         BearerAuth: {
           type: 'http',
@@ -109,6 +150,7 @@ SignalsLoop supports webhooks for real-time notifications. Configure webhooks in
       { BearerAuth: [] },
       { ApiKeyAuth: [] },
     ],
+    'x-webhooks': webhookDefinitions(),
   };
 }
 
@@ -762,3 +804,556 @@ function roadmapPaths(): Record<string, OpenAPIPathItem> {
     },
   };
 }
+
+// === Posts, Comments & Votes ===
+
+const ERROR_RESPONSE = {
+  content: {
+    'application/json': {
+      schema: { $ref: '#/components/schemas/Error' },
+    },
+  },
+};
+
+/**
+ * Document the scope each operation needs: `posts:read` for reads and
+ * `writeScope` for everything else, matching the routes' requiredScopes
+ */
+function withScopes(
+  paths: Record<string, OpenAPIPathItem>,
+  writeScope: ApiKeyScope
+): Record<string, OpenAPIPathItem> {
+  return Object.fromEntries(
+    Object.entries(paths).map(([path, item]) => [
+      path,
+      Object.fromEntries(
+        Object.entries(item).map(([method, operation]) => [
+          method,
+          {
+            ...operation,
+            'x-required-scopes': [method === 'get' ? 'posts:read' : writeScope],
+            responses: {
+              ...operation.responses,
+              '403': {
+                description: operation.responses['403']
+                  ? `${operation.responses['403'].description}, or the API key is missing the required scope`
+                  : 'API key is missing the required scope',
+                ...ERROR_RESPONSE,
+              },
+            },
+          },
+        ])
+      ),
+    ])
+  );
+}
+
+const POST_ID_PARAM: OpenAPIParameter = {
+  name: 'postId',
+  in: 'path',
+  required: true,
+  schema: { $ref: '#/components/schemas/UUID' },
+};
+
+const COMMENT_ID_PARAM: OpenAPIParameter = {
+  name: 'commentId',
+  in: 'path',
+  required: true,
+  schema: { $ref: '#/components/schemas/UUID' },
+};
+
+function listParams(defaultOrder: 'asc' | 'desc'): OpenAPIParameter[] {
+  return [
+    {
+      name: 'cursor',
+      in: 'query',
+      description: '`next_cursor` from the previous page',
+      schema: { type: 'string' },
+    },
+    {
+      name: 'limit',
+      in: 'query',
+      schema: { type: 'integer', default: DEFAULT_PAGE_SIZE, maximum: MAX_PAGE_SIZE },
+    },
+    {
+      name: 'order',
+      in: 'query',
+      schema: { type: 'string', enum: ['asc', 'desc'], default: defaultOrder },
+    },
+    {
+      name: 'created_after',
+      in: 'query',
+      schema: { $ref: '#/components/schemas/DateTime' },
+    },
+    {
+      name: 'created_before',
+      in: 'query',
+      schema: { $ref: '#/components/schemas/DateTime' },
+    },
+  ];
+}
+
+function jsonBody(schema: OpenAPISchema): OpenAPIOperation['requestBody'] {
+  return {
+    required: true,
+    content: {
+      'application/json': { schema },
+    },
+  };
+}
+
+function dataResponse(description: string, schemaName: string, extra: Record<string, OpenAPISchema> = {}) {
+  return {
+    description,
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object' as const,
+          properties: {
+            data: { $ref: `#/components/schemas/${schemaName}` },
+            ...extra,
+          },
+        },
+      },
+    },
+  };
+}
+
+function pageResponse(description: string, schemaName: string) {
+  return {
+    description,
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object' as const,
+          properties: {
+            data: { type: 'array' as const, items: { $ref: `#/components/schemas/${schemaName}` } },
+            pagination: { $ref: '#/components/schemas/CursorPagination' },
+          },
+        },
+      },
+    },
+  };
+}
+
+const postStatusSchema: OpenAPISchema = { type: 'string', enum: [...POST_STATUSES] };
+const nullableString = (description?: string): OpenAPISchema => ({
+  type: 'string',
+  nullable: true,
+  ...(description ? { description } : {}),
+});
+
+function postsPaths(): Record<string, OpenAPIPathItem> {
+  return {
+    '/posts': {
+      get: {
+        operationId: 'listPosts',
+        summary: 'List posts',
+        description:
+          'Returns posts in the API key\'s project, newest first. Merged posts are excluded unless `include_merged=true`.',
+        tags: ['Posts'],
+        parameters: [
+          ...listParams('desc'),
+          {
+            name: 'status',
+            in: 'query',
+            description: 'Comma separated statuses, e.g. `open,planned`',
+            schema: { type: 'string' },
+          },
+          { name: 'category', in: 'query', schema: { type: 'string' } },
+          { name: 'board_id', in: 'query', schema: { $ref: '#/components/schemas/UUID' } },
+          { name: 'updated_after', in: 'query', schema: { $ref: '#/components/schemas/DateTime' } },
+          {
+            name: 'sort',
+            in: 'query',
+            schema: { type: 'string', enum: [...POST_SORT_FIELDS], default: 'created_at' },
+          },
+          {
+            name: 'include_merged',
+            in: 'query',
+            schema: { type: 'boolean', default: false },
+          },
+        ],
+        responses: {
+          '200': pageResponse('A page of posts', 'Post'),
+          '400': { description: 'Invalid filter or cursor', ...ERROR_RESPONSE },
+        },
+      },
+      post: {
+        operationId: 'createPost',
+        summary: 'Create a post',
+        tags: ['Posts'],
+        requestBody: jsonBody({
+          type: 'object',
+          properties: {
+            title: { type: 'string' },
+            description: nullableString(),
+            board_id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Defaults to the project\'s first board',
+            },
+            category: nullableString(),
+            status: { ...postStatusSchema, default: 'open' },
+            author_name: { type: 'string', default: 'API User' },
+            author_email: { type: 'string', format: 'email', nullable: true },
+          },
+          required: ['title'],
+        }),
+        responses: {
+          '201': dataResponse('Post created', 'Post'),
+          '400': { description: 'Validation error', ...ERROR_RESPONSE },
+        },
+      },
+    },
+    '/posts/{postId}': {
+      get: {
+        operationId: 'getPost',
+        summary: 'Get a post',
+        tags: ['Posts'],
+        parameters: [POST_ID_PARAM],
+        responses: {
+          '200': dataResponse('Post details', 'Post'),
+          '404': { description: 'Post not found', ...ERROR_RESPONSE },
+        },
+      },
+      patch: {
+        operationId: 'updatePost',
+        summary: 'Update a post',
+        description: 'Use the status and merge endpoints to change status or merge.',
+        tags: ['Posts'],
+        parameters: [POST_ID_PARAM],
+        requestBody: jsonBody({
+          type: 'object',
+          properties: {
+            title: { type: 'string' },
+            description: nullableString(),
+            board_id: { $ref: '#/components/schemas/UUID' },
+            category: nullableString(),
+            author_name: { type: 'string' },
+            author_email: { type: 'string', format: 'email', nullable: true },
+          },
+        }),
+        responses: {
+          '200': dataResponse('Post updated', 'Post'),
+          '400': { description: 'Validation error', ...ERROR_RESPONSE },
+          '404': { description: 'Post not found', ...ERROR_RESPONSE },
+        },
+      },
+      delete: {
+        operationId: 'deletePost',
+        summary: 'Delete a post',
+        description: 'Deletes the post together with its comments and votes.',
+        tags: ['Posts'],
+        parameters: [POST_ID_PARAM],
+        responses: {
+          '200': { description: 'Post deleted' },
+          '404': { description: 'Post not found', ...ERROR_RESPONSE },
+        },
+      },
+    },
+    '/posts/{postId}/status': {
+      patch: {
+        operationId: 'updatePostStatus',
+        summary: 'Change a post\'s status',
+        description: 'Fires the `post.status_changed` webhook when the status actually changes.',
+        tags: ['Posts'],
+        parameters: [POST_ID_PARAM],
+        requestBody: jsonBody({
+          type: 'object',
+          properties: {
+            status: postStatusSchema,
+            note: nullableString('Included in the webhook payload'),
+          },
+          required: ['status'],
+        }),
+        responses: {
+          '200': dataResponse('Status updated', 'Post', { previous_status: postStatusSchema }),
+          '404': { description: 'Post not found', ...ERROR_RESPONSE },
+        },
+      },
+    },
+    '/posts/{postId}/merge': {
+      post: {
+        operationId: 'mergePost',
+        summary: 'Merge a post into another',
+        description:
+          'The merged post is hidden from lists and closed to votes and comments. Fires `duplicate.merged`.',
+        tags: ['Posts'],
+        parameters: [POST_ID_PARAM],
+        requestBody: jsonBody({
+          type: 'object',
+          properties: {
+            target_post_id: { $ref: '#/components/schemas/UUID' },
+          },
+          required: ['target_post_id'],
+        }),
+        responses: {
+          '200': dataResponse('Post merged', 'Post', { merged_into: { $ref: '#/components/schemas/UUID' } }),
+          '400': { description: 'Invalid merge target', ...ERROR_RESPONSE },
+          '404': { description: 'Post or target not found', ...ERROR_RESPONSE },
+          '409': { description: 'Post already merged', ...ERROR_RESPONSE },
+        },
+      },
+    },
+  };
+}
+
+function commentsPaths(): Record<string, OpenAPIPathItem> {
+  return {
+    '/posts/{postId}/comments': {
+      get: {
+        operationId: 'listComments',
+        summary: 'List comments on a post',
+        tags: ['Comments'],
+        parameters: [POST_ID_PARAM, ...listParams('asc')],
+        responses: {
+          '200': pageResponse('A page of comments', 'Comment'),
+          '404': { description: 'Post not found', ...ERROR_RESPONSE },
+        },
+      },
+      post: {
+        operationId: 'createComment',
+        summary: 'Add a comment',
+        tags: ['Comments'],
+        parameters: [POST_ID_PARAM],
+        requestBody: jsonBody({
+          type: 'object',
+          properties: {
+            content: { type: 'string' },
+            author_name: { type: 'string', default: 'API User' },
+            author_email: { type: 'string', format: 'email', nullable: true },
+            parent_id: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Reply to this comment on the same post',
+            },
+          },
+          required: ['content'],
+        }),
+        responses: {
+          '201': dataResponse('Comment created', 'Comment'),
+          '403': { description: 'Post has been merged', ...ERROR_RESPONSE },
+          '404': { description: 'Post not found', ...ERROR_RESPONSE },
+        },
+      },
+    },
+    '/posts/{postId}/comments/{commentId}': {
+      patch: {
+        operationId: 'updateComment',
+        summary: 'Edit a comment',
+        tags: ['Comments'],
+        parameters: [POST_ID_PARAM, COMMENT_ID_PARAM],
+        requestBody: jsonBody({
+          type: 'object',
+          properties: { content: { type: 'string' } },
+          required: ['content'],
+        }),
+        responses: {
+          '200': dataResponse('Comment updated', 'Comment'),
+          '404': { description: 'Post or comment not found', ...ERROR_RESPONSE },
+        },
+      },
+      delete: {
+        operationId: 'deleteComment',
+        summary: 'Delete a comment',
+        tags: ['Comments'],
+        parameters: [POST_ID_PARAM, COMMENT_ID_PARAM],
+        responses: {
+          '200': { description: 'Comment deleted' },
+          '404': { description: 'Post or comment not found', ...ERROR_RESPONSE },
+        },
+      },
+    },
+  };
+}
+
+function votesPaths(): Record<string, OpenAPIPathItem> {
+  return {
+    '/posts/{postId}/votes': {
+      get: {
+        operationId: 'listVotes',
+        summary: 'List votes on a post',
+        tags: ['Votes'],
+        parameters: [POST_ID_PARAM, ...listParams('desc')],
+        responses: {
+          '200': pageResponse('A page of votes', 'Vote'),
+          '404': { description: 'Post not found', ...ERROR_RESPONSE },
+        },
+      },
+      post: {
+        operationId: 'castVote',
+        summary: 'Vote on behalf of an end user',
+        description: 'Each email address can vote once per post.',
+        tags: ['Votes'],
+        parameters: [POST_ID_PARAM],
+        requestBody: jsonBody({
+          type: 'object',
+          properties: {
+            voter_email: { type: 'string', format: 'email' },
+            voter_name: { type: 'string' },
+            voter_company: { type: 'string' },
+            priority: { type: 'string', enum: [...VOTE_PRIORITIES], default: 'important' },
+            note: nullableString('Internal note, never shown to the voter'),
+          },
+          required: ['voter_email'],
+        }),
+        responses: {
+          '201': dataResponse('Vote recorded', 'Vote', { vote_count: { type: 'integer' } }),
+          '403': { description: 'Post has been merged', ...ERROR_RESPONSE },
+          '404': { description: 'Post not found', ...ERROR_RESPONSE },
+          '409': { description: 'This user has already voted', ...ERROR_RESPONSE },
+        },
+      },
+      delete: {
+        operationId: 'retractVote',
+        summary: 'Retract an end user\'s vote',
+        tags: ['Votes'],
+        parameters: [
+          POST_ID_PARAM,
+          {
+            name: 'voter_email',
+            in: 'query',
+            required: true,
+            schema: { type: 'string', format: 'email' },
+          },
+        ],
+        responses: {
+          '200': { description: 'Vote removed' },
+          '404': { description: 'Post or vote not found', ...ERROR_RESPONSE },
+        },
+      },
+    },
+  };
+}
+
+// === Webhook Definitions ===
+
+function getWebhookSchemaName(eventType: EventType): string {
+  return getEventPayloadSchemaName(eventType).replace(/PayloadV\d+$/, 'Webhook');
+}
+
+/**
+ * Envelope, domain event data and per-event payload schemas, generated from
+ * the event catalogue
+ */
+function webhookSchemas(): Record<string, OpenAPISchema> {
+  const schemas: Record<string, OpenAPISchema> = {
+    WebhookEnvelope: {
+      type: 'object',
+      description: 'Body of every webhook request',
+      properties: {
+        event: { type: 'string', description: 'Event name, e.g. feedback.created' },
+        version: { type: 'integer', description: 'Payload schema version for this event' },
+        data: { type: 'object', description: 'Event data' },
+        timestamp: { $ref: '#/components/schemas/DateTime' },
+        project_id: { $ref: '#/components/schemas/UUID' },
+      },
+      required: ['event', 'version', 'data', 'timestamp', 'project_id'],
+    },
+    DomainEventWebhookData: {
+      type: 'object',
+      description: 'Data of a webhook carrying a domain event',
+      properties: {
+        event_id: { type: 'string', format: 'uuid', nullable: true, description: 'Source event ID; stable across retries' },
+        aggregate_type: { type: 'string', description: 'Entity type, e.g. post or spec' },
+        aggregate_id: { type: 'string', description: 'Entity ID' },
+        payload: { type: 'object', description: 'Event-specific payload' },
+        correlation_id: { type: 'string', nullable: true, description: 'Groups related events' },
+        source: { type: 'string', nullable: true, description: 'What raised the event, e.g. api or database_trigger' },
+      },
+      required: ['event_id', 'aggregate_type', 'aggregate_id', 'payload'],
+    },
+  };
+
+  for (const definition of Object.values(EVENT_CATALOGUE)) {
+    const payloadName = getEventPayloadSchemaName(definition.type);
+
+    schemas[payloadName] = {
+      ...definition.payload,
+      description: `${definition.summary} (payload v${definition.version})`,
+    };
+
+    schemas[getWebhookSchemaName(definition.type)] = {
+      description: definition.summary,
+      allOf: [
+        { $ref: '#/components/schemas/WebhookEnvelope' },
+        {
+          type: 'object',
+          properties: {
+            event: { type: 'string', enum: [definition.type] },
+            version: { type: 'integer', default: definition.version },
+            data: {
+              allOf: [
+                { $ref: '#/components/schemas/DomainEventWebhookData' },
+                {
+                  type: 'object',
+                  properties: {
+                    aggregate_type: { type: 'string', enum: [definition.aggregateType] },
+                    payload: { $ref: `#/components/schemas/${payloadName}` },
+                  },
+                },
+              ],
+            },
+          },
+        },
+      ],
+    };
+  }
+
+  return schemas;
+}
+
+/**
+ * One outgoing POST per subscribable event
+ */
+function webhookDefinitions(): Record<string, OpenAPIPathItem> {
+  const webhooks: Record<string, OpenAPIPathItem> = {};
+  const responses = {
+    '2XX': { description: 'Delivery accepted' },
+    '4XX': { description: 'Payload rejected; not retried (except 408, 409, 425, 429)' },
+    '5XX': { description: 'Receiver error; retried with exponential backoff' },
+  };
+
+  for (const definition of Object.values(EVENT_CATALOGUE)) {
+    webhooks[definition.type] = {
+      post: {
+        operationId: `webhook_${definition.type.replace(/\./g, '_')}`,
+        summary: definition.summary,
+        description: `${definition.domain} event, payload schema v${definition.version}`,
+        tags: ['Webhooks'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: `#/components/schemas/${getWebhookSchemaName(definition.type)}` },
+            },
+          },
+        },
+        responses,
+      },
+    };
+  }
+
+  for (const event of APPLICATION_WEBHOOK_EVENTS) {
+    webhooks[event] = {
+      post: {
+        operationId: `webhook_${event.replace(/\./g, '_')}`,
+        summary: `${event} notification`,
+        tags: ['Webhooks'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/WebhookEnvelope' },
+            },
+          },
+        },
+        responses,
+      },
+    };
+  }
+
+  return webhooks;
+}
@@ -11,6 +11,9 @@ export interface OpenAPISpec {
   components: OpenAPIComponents;
   tags: OpenAPITag[];
   security?: OpenAPISecurityRequirement[];
+  // Outgoing webhook requests, keyed by event name (3.1-style webhooks
+  // published as an extension so 3.0 tooling still accepts the document)
+  'x-webhooks'?: Record<string, OpenAPIPathItem>;
 }
 
 export interface OpenAPIInfo {
@@ -57,6 +60,8 @@ export interface OpenAPIOperation {
   responses: Record<string, OpenAPIResponse>;
   security?: OpenAPISecurityRequirement[];
   deprecated?: boolean;
+  // API key scopes the operation requires
+  'x-required-scopes'?: string[];
 }
 
 export interface OpenAPIParameter {
@@ -94,6 +99,12 @@ export interface OpenAPISchema {
   $ref?: string;
   nullable?: boolean;
   default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  additionalProperties?: boolean | OpenAPISchema;
+  allOf?: OpenAPISchema[];
+  oneOf?: OpenAPISchema[];
+  example?: unknown;
 }
 
 export interface OpenAPIComponents {
@@ -267,4 +278,65 @@ export const COMMON_SCHEMAS: Record<string, OpenAPISchema> = {
       project_id: { $ref: '#/components/schemas/UUID' },
     },
   },
+  Post: {
+    type: 'object',
+    properties: {
+      id: { $ref: '#/components/schemas/UUID' },
+      project_id: { $ref: '#/components/schemas/UUID' },
+      board_id: { $ref: '#/components/schemas/UUID' },
+      title: { type: 'string' },
+      description: { type: 'string', nullable: true },
+      status: { type: 'string', enum: ['open', 'planned', 'in_progress', 'done', 'declined'] },
+      category: { type: 'string', nullable: true },
+      vote_count: { type: 'integer' },
+      author_name: { type: 'string', nullable: true },
+      author_email: { type: 'string', format: 'email', nullable: true },
+      duplicate_of: {
+        type: 'string',
+        format: 'uuid',
+        nullable: true,
+        description: 'Set when the post has been merged into another post',
+      },
+      created_at: { $ref: '#/components/schemas/DateTime' },
+      updated_at: { type: 'string', format: 'date-time', nullable: true },
+    },
+    required: ['id', 'project_id', 'title', 'status', 'vote_count', 'created_at'],
+  },
+  Comment: {
+    type: 'object',
+    properties: {
+      id: { $ref: '#/components/schemas/UUID' },
+      post_id: { $ref: '#/components/schemas/UUID' },
+      parent_id: { type: 'string', format: 'uuid', nullable: true },
+      content: { type: 'string' },
+      author_name: { type: 'string', nullable: true },
+      author_email: { type: 'string', format: 'email', nullable: true },
+      created_at: { $ref: '#/components/schemas/DateTime' },
+      updated_at: { type: 'string', format: 'date-time', nullable: true },
+    },
+    required: ['id', 'post_id', 'content', 'created_at'],
+  },
+  Vote: {
+    type: 'object',
+    properties: {
+      id: { $ref: '#/components/schemas/UUID' },
+      post_id: { $ref: '#/components/schemas/UUID' },
+      priority: { type: 'string', enum: ['must_have', 'important', 'nice_to_have'] },
+      created_at: { $ref: '#/components/schemas/DateTime' },
+    },
+    required: ['id', 'post_id', 'created_at'],
+  },
+  CursorPagination: {
+    type: 'object',
+    properties: {
+      limit: { type: 'integer', description: 'Page size used for this page' },
+      has_more: { type: 'boolean', description: 'Whether another page exists' },
+      next_cursor: {
+        type: 'string',
+        nullable: true,
+        description: 'Pass as `cursor` to fetch the next page; null on the last page',
+      },
+    },
+    required: ['limit', 'has_more', 'next_cursor'],
+  },
 };
@@ -5,7 +5,7 @@
  * Analyzes pre/post metrics and related feedback to determine success.
  */
 
-import OpenAI from 'openai';
+import { getOpenAI } from '@/lib/openai-client';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
 import {
   FeatureOutcome,
@@ -22,7 +22,7 @@ const getOpenAIClient = () => {
   if (!apiKey) {
     throw new Error('OPENAI_API_KEY environment variable is not set');
   }
-  return new OpenAI({ apiKey });
+  return getOpenAI('outcome_attribution');
 };
 
 /**
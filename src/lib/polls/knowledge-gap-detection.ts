@@ -44,7 +44,7 @@ export async function detectKnowledgeGaps(
     } = options;
 
     const supabase = getSupabaseServiceRoleClient();
-    const openai = getOpenAI();
+    const openai = getOpenAI('surveys');
 
     if (!supabase) {
         console.error('[Knowledge Gap] Service role client not available');
@@ -176,7 +176,7 @@ ${anomalyData.relatedPosts.slice(0, 5).map((p: any, i: number) =>
 Provide your analysis as JSON.`;
 
   try {
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('predictions').chat.completions.create({
       model: MODEL,
       messages: [
         { role: 'system', content: ANOMALY_ANALYSIS_PROMPT },
@@ -288,7 +288,7 @@ async function findSimilarFeaturesWithEmbeddings(
 
   try {
     // Generate embedding for the theme name
-    const response = await getOpenAI().embeddings.create({
+    const response = await getOpenAI('predictions').embeddings.create({
       model: 'text-embedding-3-small',
       input: themeName,
       encoding_format: 'float',
@@ -301,7 +301,7 @@ async function findSimilarFeaturesWithEmbeddings(
       features.map(async (feature) => {
         try {
           // Generate embedding for feature name
-          const featureResponse = await getOpenAI().embeddings.create({
+          const featureResponse = await getOpenAI('predictions').embeddings.create({
             model: 'text-embedding-3-small',
             input: feature.feature_name,
             encoding_format: 'float',
@@ -810,7 +810,7 @@ Format as JSON:
 }`;
 
   try {
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('predictions').chat.completions.create({
       model: 'gpt-4-turbo-preview',
       messages: [{ role: 'user', content: prompt }],
       temperature: 0.7,
@@ -861,7 +861,7 @@ ${i + 1}. ${p.scenario.themeName} (${p.scenario.action})
 Recommendation:`;
 
   try {
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('predictions').chat.completions.create({
       model: 'gpt-4-turbo-preview',
       messages: [{ role: 'user', content: prompt }],
       temperature: 0.7,
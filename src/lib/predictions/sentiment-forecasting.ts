@@ -312,7 +312,7 @@ ${historicalData.map(d => `${d.date}: ${d.avg_sentiment.toFixed(2)} (${d.feedbac
 Please predict the sentiment score for ${horizon} days from today, with confidence intervals.`;
 
   try {
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('predictions').chat.completions.create({
       model: MODEL,
       messages: [
         { role: 'system', content: FORECASTING_SYSTEM_PROMPT },
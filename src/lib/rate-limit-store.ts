@@ -0,0 +1,292 @@
+/**
+ * Sliding Window Rate Limit Store
+ *
+ * Counters live in Redis (the shared observability/redis-cache connection) so
+ * limits survive deploys and are shared by every serverless instance. When
+ * Redis is not configured or unreachable, counters fall back to process memory.
+ *
+ * Uses the sliding window counter algorithm: each window keeps a counter for
+ * the current and the previous fixed interval, and the previous count is
+ * weighted by how much of it still overlaps the sliding window.
+ */
+
+import { getRedisClient } from './observability/redis-cache';
+
+export interface SlidingWindow {
+  limit: number;
+  windowMs: number;
+}
+
+export interface SlidingWindowState {
+  limit: number;
+  windowMs: number;
+  remaining: number;
+  reset: number;          // Unix timestamp (seconds) when the current interval ends
+  retryAfter?: number;    // Seconds until `cost` more requests would be allowed
+}
+
+export interface SlidingWindowResult {
+  allowed: boolean;
+  windows: SlidingWindowState[];
+  backend: 'redis' | 'memory';
+}
+
+/**
+ * - consume: count the request only if every window allows it
+ * - peek: report state without counting
+ * - record: count unconditionally (usage measured after the fact)
+ */
+export type SlidingWindowMode = 'consume' | 'peek' | 'record';
+
+export interface SlidingWindowOptions {
+  mode?: SlidingWindowMode;
+  cost?: number;
+  now?: number;
+}
+
+interface WindowCounts {
+  current: number;
+  previous: number;
+}
+
+interface WindowKeys {
+  window: SlidingWindow;
+  currentKey: string;
+  previousKey: string;
+  intervalStart: number;
+  previousWeight: number;
+}
+
+const KEY_PREFIX = 'ratelimit';
+
+// === Memory backend ===
+
+const memoryCounters = new Map<string, { count: number; expiresAt: number }>();
+let memoryOperations = 0;
+
+function sweepMemoryCounters(now: number) {
+  for (const [key, entry] of memoryCounters.entries()) {
+    if (entry.expiresAt <= now) {
+      memoryCounters.delete(key);
+    }
+  }
+}
+
+function memoryGet(key: string, now: number): number {
+  const entry = memoryCounters.get(key);
+  if (!entry || entry.expiresAt <= now) return 0;
+  return entry.count;
+}
+
+function memoryIncrement(key: string, amount: number, ttlMs: number, now: number) {
+  const count = memoryGet(key, now) + amount;
+  memoryCounters.set(key, { count, expiresAt: now + ttlMs });
+}
+
+function applyMemory(
+  keys: WindowKeys[],
+  mode: SlidingWindowMode,
+  cost: number,
+  now: number
+): { allowed: boolean; counts: WindowCounts[] } {
+  if (++memoryOperations % 500 === 0) {
+    sweepMemoryCounters(now);
+  }
+
+  const counts = keys.map((k) => ({
+    current: memoryGet(k.currentKey, now),
+    previous: memoryGet(k.previousKey, now),
+  }));
+
+  if (mode === 'peek') {
+    return { allowed: isWithinLimits(keys, counts, cost), counts };
+  }
+
+  if (mode === 'consume' && !isWithinLimits(keys, counts, cost)) {
+    return { allowed: false, counts };
+  }
+
+  keys.forEach((k, i) => {
+    memoryIncrement(k.currentKey, cost, k.window.windowMs * 2, now);
+    counts[i].current += cost;
+  });
+
+  return { allowed: true, counts };
+}
+
+// === Redis backend ===
+
+/**
+ * Increments first and rolls back if a window is exceeded, so two racing
+ * instances can never both squeeze past the limit (at worst both are denied).
+ */
+async function applyRedis(
+  keys: WindowKeys[],
+  mode: SlidingWindowMode,
+  cost: number
+): Promise<{ allowed: boolean; counts: WindowCounts[] } | null> {
+  const redis = getRedisClient();
+  if (!redis) return null;
+
+  if (mode === 'peek') {
+    const values = await redis.mget<(number | string | null)[]>(
+      ...keys.flatMap((k) => [k.currentKey, k.previousKey])
+    );
+    const counts = keys.map((_, i) => ({
+      current: Number(values[i * 2] ?? 0),
+      previous: Number(values[i * 2 + 1] ?? 0),
+    }));
+    return { allowed: isWithinLimits(keys, counts, cost), counts };
+  }
+
+  const transaction = redis.multi();
+  for (const k of keys) {
+    transaction.incrby(k.currentKey, cost);
+    transaction.pexpire(k.currentKey, k.window.windowMs * 2);
+    transaction.get(k.previousKey);
+  }
+  const results = await transaction.exec<unknown[]>();
+
+  const counts = keys.map((_, i) => ({
+    current: Number(results[i * 3] ?? 0),
+    previous: Number(results[i * 3 + 2] ?? 0),
+  }));
+
+  // The increment is already included in `current`, so check against 0 extra
+  if (mode === 'record' || isWithinLimits(keys, counts, 0)) {
+    return { allowed: true, counts };
+  }
+
+  const rollback = redis.pipeline();
+  for (const k of keys) {
+    rollback.decrby(k.currentKey, cost);
+  }
+  await rollback.exec();
+
+  return {
+    allowed: false,
+    counts: counts.map((c) => ({ ...c, current: Math.max(c.current - cost, 0) })),
+  };
+}
+
+// === Shared math ===
+
+function estimate(k: WindowKeys, counts: WindowCounts): number {
+  return counts.previous * k.previousWeight + counts.current;
+}
+
+function isWithinLimits(keys: WindowKeys[], counts: WindowCounts[], cost: number): boolean {
+  return keys.every((k, i) => estimate(k, counts[i]) + cost <= k.window.limit);
+}
+
+/**
+ * Seconds until `cost` more requests fit: either the weighted previous
+ * interval decays enough, or the current interval has to roll over.
+ */
+function secondsUntilAvailable(k: WindowKeys, counts: WindowCounts, cost: number, now: number): number {
+  const { limit, windowMs } = k.window;
+  const intervalEnd = k.intervalStart + windowMs;
+
+  if (estimate(k, counts) + cost <= limit) return 0;
+
+  if (counts.current + cost <= limit && counts.previous > 0) {
+    // previous * (intervalEnd - t) / windowMs + current + cost <= limit
+    const t = intervalEnd - ((limit - counts.current - cost) * windowMs) / counts.previous;
+    return Math.max(1, Math.ceil((t - now) / 1000));
+  }
+
+  return Math.max(1, Math.ceil((intervalEnd - now) / 1000));
+}
+
+function buildKeys(key: string, windows: SlidingWindow[], now: number): WindowKeys[] {
+  return windows.map((window) => {
+    const interval = Math.floor(now / window.windowMs);
+    const intervalStart = interval * window.windowMs;
+    return {
+      window,
+      currentKey: `${KEY_PREFIX}:${key}:${window.windowMs}:${interval}`,
+      previousKey: `${KEY_PREFIX}:${key}:${window.windowMs}:${interval - 1}`,
+      intervalStart,
+      previousWeight: 1 - (now - intervalStart) / window.windowMs,
+    };
+  });
+}
+
+/**
+ * Check and/or count a request against one or more sliding windows
+ *
+ * @example
+ * const result = await slidingWindowLimit(`embed:${domain}`, [
+ *   { limit: 100, windowMs: 60_000 },
+ * ]);
+ * if (!result.allowed) return tooManyRequests(slidingWindowHeaders(result));
+ */
+export async function slidingWindowLimit(
+  key: string,
+  windows: SlidingWindow[],
+  options: SlidingWindowOptions = {}
+): Promise<SlidingWindowResult> {
+  const { mode = 'consume', cost = 1, now = Date.now() } = options;
+  const keys = buildKeys(key, windows, now);
+
+  let backend: SlidingWindowResult['backend'] = 'redis';
+  let outcome: { allowed: boolean; counts: WindowCounts[] } | null = null;
+
+  try {
+    outcome = await applyRedis(keys, mode, cost);
+  } catch (error) {
+    console.error('Redis rate limit error, falling back to in-memory counters:', error);
+  }
+
+  if (!outcome) {
+    backend = 'memory';
+    outcome = applyMemory(keys, mode, cost, now);
+  }
+
+  const counts = outcome.counts;
+  return {
+    allowed: outcome.allowed,
+    backend,
+    windows: keys.map((k, i) => {
+      const state: SlidingWindowState = {
+        limit: k.window.limit,
+        windowMs: k.window.windowMs,
+        remaining: Math.max(0, Math.floor(k.window.limit - estimate(k, counts[i]))),
+        reset: Math.ceil((k.intervalStart + k.window.windowMs) / 1000),
+      };
+      const retryAfter = secondsUntilAvailable(k, counts[i], cost, now);
+      if (!outcome!.allowed && retryAfter > 0) {
+        state.retryAfter = retryAfter;
+      }
+      return state;
+    }),
+  };
+}
+
+/**
+ * Format windows as a RateLimit-Policy header value, e.g. "200;w=60, 5000;w=3600"
+ */
+export function formatRateLimitPolicy(windows: SlidingWindow[]): string {
+  return windows.map((w) => `${w.limit};w=${Math.round(w.windowMs / 1000)}`).join(', ');
+}
+
+/**
+ * RateLimit-* headers for a result, reporting the window with the fewest
+ * requests left. A denied request also gets Retry-After: the longest wait
+ * across windows, since it only fits once every window allows it.
+ */
+export function slidingWindowHeaders(result: SlidingWindowResult, now: number = Date.now()): Record<string, string> {
+  const tightest = result.windows.reduce((min, w) => (w.remaining < min.remaining ? w : min));
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': tightest.limit.toString(),
+    'RateLimit-Remaining': (result.allowed ? tightest.remaining : 0).toString(),
+    'RateLimit-Reset': Math.max(0, tightest.reset - Math.floor(now / 1000)).toString(),
+    'RateLimit-Policy': formatRateLimitPolicy(result.windows),
+  };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = Math.max(1, ...result.windows.map((w) => w.retryAfter ?? 0)).toString();
+  }
+
+  return headers;
+}
@@ -1,26 +1,5 @@
 import { NextRequest } from 'next/server';
-
-// In-memory rate limit store (use Redis in production for multi-instance deployments)
-interface RateLimitStore {
-  [key: string]: {
-    count: number;
-    resetTime: number;
-    dailyCount?: number;
-    dailyResetTime?: number;
-  };
-}
-
-const store: RateLimitStore = {};
-
-// Cleanup old entries every 5 minutes
-setInterval(() => {
-  const now = Date.now();
-  Object.keys(store).forEach((key) => {
-    if (store[key].resetTime < now && (!store[key].dailyResetTime || store[key].dailyResetTime! < now)) {
-      delete store[key];
-    }
-  });
-}, 5 * 60 * 1000);
+import { formatRateLimitPolicy, slidingWindowLimit, type SlidingWindow } from './rate-limit-store';
 
 export interface RateLimitConfig {
   hourlyLimit: number;
@@ -34,6 +13,7 @@ export interface RateLimitResult {
   remaining: number;
   reset: number;
   retryAfter?: number;
+  policy?: string;
 }
 
 // Rate limit configurations by plan
@@ -79,125 +59,75 @@ export const RATE_LIMITS = {
   },
 };
 
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
 /**
- * Check rate limit for a given identifier
+ * Check rate limit for a given identifier. Minute (burst), hour and optional
+ * day windows are sliding windows shared across instances via Redis.
  */
-export function checkRateLimit(
+export async function checkRateLimit(
   identifier: string,
   config: RateLimitConfig
-): RateLimitResult {
-  const now = Date.now();
-  const hourKey = `hour:${identifier}`;
-  const minuteKey = `minute:${identifier}`;
-  const dayKey = config.dailyLimit ? `day:${identifier}` : null;
-
-  // Initialize if not exists
-  if (!store[hourKey]) {
-    store[hourKey] = {
-      count: 0,
-      resetTime: now + 60 * 60 * 1000, // 1 hour
-    };
-  }
-
-  if (!store[minuteKey]) {
-    store[minuteKey] = {
-      count: 0,
-      resetTime: now + 60 * 1000, // 1 minute
-    };
-  }
-
-  if (dayKey && !store[dayKey]) {
-    store[dayKey] = {
-      count: 0,
-      resetTime: now + 24 * 60 * 60 * 1000, // 24 hours
-      dailyCount: 0,
-      dailyResetTime: now + 24 * 60 * 60 * 1000,
-    };
-  }
-
-  // Reset if time expired
-  if (store[hourKey].resetTime < now) {
-    store[hourKey] = {
-      count: 0,
-      resetTime: now + 60 * 60 * 1000,
-    };
-  }
-
-  if (store[minuteKey].resetTime < now) {
-    store[minuteKey] = {
-      count: 0,
-      resetTime: now + 60 * 1000,
-    };
-  }
-
-  if (dayKey && store[dayKey].dailyResetTime! < now) {
-    store[dayKey] = {
-      count: 0,
-      resetTime: now + 24 * 60 * 60 * 1000,
-      dailyCount: 0,
-      dailyResetTime: now + 24 * 60 * 60 * 1000,
-    };
-  }
-
-  // Check minute limit (burst protection)
-  if (store[minuteKey].count >= config.minuteLimit) {
+): Promise<RateLimitResult> {
+  const windows: SlidingWindow[] = [
+    { limit: config.minuteLimit, windowMs: MINUTE_MS },
+    { limit: config.hourlyLimit, windowMs: HOUR_MS },
+  ];
+  if (config.dailyLimit) {
+    windows.push({ limit: config.dailyLimit, windowMs: DAY_MS });
+  }
+
+  const result = await slidingWindowLimit(identifier, windows);
+  const policy = formatRateLimitPolicy(windows);
+
+  if (!result.allowed) {
+    // Report the longest wait: the request only fits once every window allows it
+    const exceeded = result.windows.reduce((longest, w) =>
+      (w.retryAfter ?? 0) > (longest.retryAfter ?? 0) ? w : longest
+    );
     return {
       success: false,
-      limit: config.minuteLimit,
+      limit: exceeded.limit,
       remaining: 0,
-      reset: Math.ceil(store[minuteKey].resetTime / 1000),
-      retryAfter: Math.ceil((store[minuteKey].resetTime - now) / 1000),
+      reset: exceeded.reset,
+      retryAfter: exceeded.retryAfter,
+      policy,
     };
   }
 
-  // Check hourly limit
-  if (store[hourKey].count >= config.hourlyLimit) {
-    return {
-      success: false,
-      limit: config.hourlyLimit,
-      remaining: 0,
-      reset: Math.ceil(store[hourKey].resetTime / 1000),
-      retryAfter: Math.ceil((store[hourKey].resetTime - now) / 1000),
-    };
-  }
-
-  // Check daily limit (if configured)
-  if (dayKey && config.dailyLimit && store[dayKey].count >= config.dailyLimit) {
-    return {
-      success: false,
-      limit: config.dailyLimit,
-      remaining: 0,
-      reset: Math.ceil(store[dayKey].dailyResetTime! / 1000),
-      retryAfter: Math.ceil((store[dayKey].dailyResetTime! - now) / 1000),
-    };
-  }
-
-  // Increment counters
-  store[hourKey].count++;
-  store[minuteKey].count++;
-  if (dayKey) {
-    store[dayKey].count++;
-  }
-
   // Return success with remaining count (hourly)
+  const hourly = result.windows[1];
   return {
     success: true,
-    limit: config.hourlyLimit,
-    remaining: config.hourlyLimit - store[hourKey].count,
-    reset: Math.ceil(store[hourKey].resetTime / 1000),
+    limit: hourly.limit,
+    remaining: hourly.remaining,
+    reset: hourly.reset,
+    policy,
   };
 }
 
 /**
- * Get rate limit headers for response
+ * Get rate limit headers for response: the IETF RateLimit-* fields
+ * (reset as delta seconds) plus the legacy X-RateLimit-* fields
+ * (reset as a Unix timestamp)
  */
 export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const resetIn = Math.max(0, result.reset - Math.floor(Date.now() / 1000));
   const headers: Record<string, string> = {
+    'RateLimit-Limit': result.limit.toString(),
+    'RateLimit-Remaining': result.remaining.toString(),
+    'RateLimit-Reset': resetIn.toString(),
     'X-RateLimit-Limit': result.limit.toString(),
     'X-RateLimit-Remaining': result.remaining.toString(),
     'X-RateLimit-Reset': result.reset.toString(),
   };
 
+  if (result.policy) {
+    headers['RateLimit-Policy'] = result.policy;
+  }
+
   if (result.retryAfter) {
     headers['Retry-After'] = result.retryAfter.toString();
   }
@@ -308,8 +238,8 @@ export async function applyRateLimit(
     const rateLimitPlan = plan === 'premium' ? 'pro' : plan;
     const config = RATE_LIMITS[rateLimitPlan][type];
 
-    // Check rate limit
-    const result = checkRateLimit(identifier, config);
+    // Check rate limit; each limit type has its own counters
+    const result = await checkRateLimit(`${type}:${identifier}`, config);
 
     return result;
   } catch (error) {
@@ -83,7 +83,7 @@ export async function extractReasoningFromOutput(
       .replace('{raw_output}', rawOutput)
       .replace('{raw_reasoning}', rawReasoning);
 
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('reasoning_capture').chat.completions.create({
       model: 'gpt-4o',
       messages: [{ role: 'user', content: prompt }],
       temperature: 0.3,
@@ -12,6 +12,7 @@
  */
 
 import OpenAI from 'openai';
+import { getOpenAI } from '@/lib/openai-client';
 import { getSupabaseServiceRoleClient } from '@/lib/supabase-client';
 import { estimateFeatureEffort } from '@/lib/predictions/effort-estimation';
 
@@ -76,7 +77,7 @@ function getOpenAIClient(): OpenAI {
     if (!apiKey) {
       throw new Error('OPENAI_API_KEY environment variable is not set');
     }
-    openaiClient = new OpenAI({ apiKey });
+    openaiClient = getOpenAI('roadmap_intelligence');
   }
   return openaiClient;
 }
@@ -131,7 +131,7 @@ async function generateProposalWithAI(
     const userPrompt = buildProposalGenerationUserPrompt(input);
 
     try {
-        const response = await getOpenAI().chat.completions.create({
+        const response = await getOpenAI('roadmap_intelligence').chat.completions.create({
             model: MODEL,
             messages: [
                 { role: 'system', content: PROPOSAL_GENERATION_SYSTEM_PROMPT },
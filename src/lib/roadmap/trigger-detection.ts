@@ -379,7 +379,7 @@ async function analyzeTriggersWithAI(
     const userPrompt = buildTriggerDetectionUserPrompt(data);
 
     try {
-        const response = await getOpenAI().chat.completions.create({
+        const response = await getOpenAI('roadmap_intelligence').chat.completions.create({
             model: MODEL,
             messages: [
                 { role: 'system', content: TRIGGER_DETECTION_SYSTEM_PROMPT },
@@ -58,7 +58,7 @@ PARSING RULES:
 - Look for status indicators (Done, In Progress, Planned, etc.)
 `;
 
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('roast_roadmap').chat.completions.create({
         model: 'gpt-4o',
         messages: [
             { role: 'system', content: 'You are an expert roadmap parser. Return ONLY valid JSON.' },
@@ -127,7 +127,7 @@ Respond with JSON structure:
 }
 `;
 
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('roast_roadmap').chat.completions.create({
         model: 'gpt-4o', // Use gpt-4o which has vision capabilities
         messages: [
             {
@@ -213,7 +213,7 @@ Respond with JSON:
 }
 `;
 
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('roast_roadmap').chat.completions.create({
         model: 'gpt-4o',
         messages: [
             { role: 'system', content: 'You are an expert roadmap parser. Return ONLY valid JSON.' },
@@ -142,7 +142,7 @@ Respond with JSON:
 }
 `;
 
-  const response = await getOpenAI().chat.completions.create({
+  const response = await getOpenAI('roast_roadmap').chat.completions.create({
     model: 'gpt-4o',
     messages: [
       { role: 'system', content: 'You are a critical CPO. Output ONLY valid JSON.' },
@@ -18,7 +18,7 @@ export async function generateEmbedding(text: string): Promise<number[]> {
   }
 
   try {
-    const response = await getOpenAI().embeddings.create({
+    const response = await getOpenAI('spec_generation').embeddings.create({
       model: 'text-embedding-3-small',
       input: text,
       encoding_format: 'float',
@@ -116,7 +116,7 @@ export async function generateEmbeddingsBatch(texts: string[]): Promise<number[]
 
   for (const batch of batches) {
     try {
-      const response = await getOpenAI().embeddings.create({
+      const response = await getOpenAI('spec_generation').embeddings.create({
         model: 'text-embedding-3-small',
         input: batch,
         encoding_format: 'float',
@@ -57,7 +57,7 @@ const QUALITY_DIMENSIONS = [
 ];
 
 export class SpecQualityScorer {
-  // Using lazy initialization via getOpenAI()
+  // Using lazy initialization via getOpenAI('spec_quality')
 
   /**
    * Evaluate spec quality
@@ -166,7 +166,7 @@ Return a JSON object with:
 ${content}`;
 
     try {
-      const response = await getOpenAI().chat.completions.create({
+      const response = await getOpenAI('spec_quality').chat.completions.create({
         model: 'gpt-4o',
         messages: [
           { role: 'system', content: systemPrompt },
@@ -355,7 +355,7 @@ If the fix requires adding a new section, return:
 ${specContent}`;
 
     try {
-      const response = await getOpenAI().chat.completions.create({
+      const response = await getOpenAI('spec_quality').chat.completions.create({
         model: 'gpt-4o',
         messages: [
           { role: 'system', content: systemPrompt },
@@ -417,7 +417,7 @@ Maintain the same structure but:
 Return only the improved spec content, no explanations.`;
 
     try {
-      const response = await getOpenAI().chat.completions.create({
+      const response = await getOpenAI('spec_quality').chat.completions.create({
         model: 'gpt-4o',
         messages: [
           { role: 'system', content: systemPrompt },
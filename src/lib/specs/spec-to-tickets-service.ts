@@ -10,11 +10,10 @@
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { OpenAI } from 'openai';
+import { getOpenAI } from '@/lib/openai-client';
 
 // Lazy initialization
 let _supabase: SupabaseClient | null = null;
-let _openai: OpenAI | null = null;
 
 function getSupabase(): SupabaseClient {
     if (!_supabase) {
@@ -26,13 +25,6 @@ function getSupabase(): SupabaseClient {
     return _supabase;
 }
 
-function getOpenAI(): OpenAI {
-    if (!_openai) {
-        _openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-    }
-    return _openai;
-}
-
 export interface JiraEpic {
     summary: string;
     description: string;
@@ -117,7 +109,7 @@ export async function generateTicketPlan(
 ): Promise<GenerateTicketPlanResponse> {
     const { specId, projectId } = request;
     const supabase = getSupabase();
-    const openai = getOpenAI();
+    const openai = getOpenAI('spec_generation');
 
     try {
         // Get the spec
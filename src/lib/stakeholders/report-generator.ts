@@ -312,7 +312,7 @@ Use proper HTML tags: <h2>, <p>, <ul>, <li>, <strong>, etc.
 Include inline CSS for styling.`;
 
   try {
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('stakeholder_reports').chat.completions.create({
       model: 'gpt-4',
       messages: [
         {
@@ -6,7 +6,7 @@
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { OpenAI } from 'openai';
+import { getOpenAI } from '@/lib/openai-client';
 import type {
     StrategyShift,
     StrategyShiftCreate,
@@ -17,7 +17,6 @@ import type {
 
 // Lazy initialization
 let _supabase: SupabaseClient | null = null;
-let _openai: OpenAI | null = null;
 
 function getSupabase(): SupabaseClient {
     if (!_supabase) {
@@ -29,13 +28,6 @@ function getSupabase(): SupabaseClient {
     return _supabase;
 }
 
-function getOpenAI(): OpenAI {
-    if (!_openai) {
-        _openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-    }
-    return _openai;
-}
-
 /**
  * Aggregate signals from all sources for a project
  */
@@ -200,7 +192,7 @@ export async function generateShifts(
         return [];
     }
 
-    const openai = getOpenAI();
+    const openai = getOpenAI('roadmap_intelligence');
 
     const systemPrompt = `You are a strategic product advisor. Based on the signals provided, generate actionable strategy shifts.
 
@@ -125,7 +125,7 @@ RULES:
 - "What users love" is just as important as complaints
 `;
 
-  const response = await getOpenAI().chat.completions.create({
+  const response = await getOpenAI('theme_detection').chat.completions.create({
     model: 'gpt-4o',
     messages: [
       { role: 'system', content: 'You are a Product Feedback Analysis Engine.' },
@@ -258,7 +258,7 @@ async function generateUserStoryInternal(
       `[USER-STORIES] Generating story for theme: ${theme.theme_name} (${feedbackItems.length} feedback items)...`
     );
 
-    const response = await getOpenAI().chat.completions.create({
+    const response = await getOpenAI('spec_generation').chat.completions.create({
       model: MODELS.STORY_GENERATION,
       messages: [
         { role: 'system', content: STORY_GENERATION_SYSTEM_PROMPT },
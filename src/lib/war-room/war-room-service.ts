@@ -5,6 +5,7 @@
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import OpenAI from 'openai';
+import { getOpenAI } from '@/lib/openai-client';
 import {
   CompetitorAlert,
   CompetitorJobPosting,
@@ -31,7 +32,7 @@ export class WarRoomService {
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
-    this.openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    this.openai = getOpenAI('war_room');
   }
 
   // ============================================================================
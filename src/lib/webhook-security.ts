@@ -227,6 +227,36 @@ export function verifyGitHubSignature(
   return verifyHmacSha256(payload, signature, secret, 'sha256=');
 }
 
+// ============================================================================
+// Typeform Webhook Verification
+// ============================================================================
+
+/**
+ * Verify Typeform webhook signature
+ * Typeform sends Typeform-Signature: sha256=<base64 HMAC of the raw body>
+ */
+export function verifyTypeformSignature(
+  payload: string | Buffer,
+  signature: string | null,
+  secret: string
+): WebhookVerificationResult {
+  if (!signature || !secret) {
+    return { valid: false, error: 'Missing signature or secret' };
+  }
+
+  const expected = Buffer.from(
+    'sha256=' + crypto.createHmac('sha256', secret).update(payload).digest('base64')
+  );
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length) {
+    return { valid: false, error: 'Signature length mismatch' };
+  }
+
+  const valid = crypto.timingSafeEqual(expected, actual);
+  return { valid, error: valid ? undefined : 'Signature mismatch' };
+}
+
 // ============================================================================
 // Outbound Webhook Signing
 // ============================================================================
@@ -1,7 +1,12 @@
 import crypto from 'crypto';
 import { getSupabaseServiceRoleClient } from './supabase-client';
+import { EventType, type DomainEvent } from './events/types';
+import { getEventDefinition, isDomainEventType } from './events/catalogue';
 
-export type WebhookEvent =
+/**
+ * Events raised directly by application code (API routes, crons)
+ */
+export type ApplicationWebhookEvent =
   // Core feedback events
   | 'post.created'
   | 'post.status_changed'
@@ -19,13 +24,74 @@ export type WebhookEvent =
   | 'duplicate.merged'
   | 'spec.generated';
 
+/**
+ * Every subscribable event: application events plus every domain event
+ * from the event bus (payloads documented in events/catalogue)
+ */
+export type WebhookEvent = ApplicationWebhookEvent | `${EventType}`;
+
+export const APPLICATION_WEBHOOK_EVENTS: ApplicationWebhookEvent[] = [
+  'post.created',
+  'post.status_changed',
+  'post.deleted',
+  'comment.created',
+  'vote.created',
+  'briefing.generated',
+  'health.threshold_crossed',
+  'anomaly.detected',
+  'theme.emerging',
+  'sentiment.shift',
+  'priority.escalated',
+  'duplicate.merged',
+  'spec.generated',
+];
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  ...APPLICATION_WEBHOOK_EVENTS,
+  ...Object.values(EventType),
+];
+
+// Subscribed to by default when a webhook is created without an event list
+export const DEFAULT_WEBHOOK_EVENTS: WebhookEvent[] = [
+  'post.created',
+  'post.status_changed',
+  'post.deleted',
+  'comment.created',
+  'vote.created',
+];
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === 'string' && (WEBHOOK_EVENTS as string[]).includes(value);
+}
+
+/**
+ * Payload schema version for an event. Application events are all v1;
+ * domain events take the version from the catalogue.
+ */
+export function getWebhookEventVersion(event: WebhookEvent): number {
+  return getEventDefinition(event)?.version ?? 1;
+}
+
 export interface WebhookPayload {
   event: WebhookEvent;
+  version: number;
   data: unknown;
   timestamp: string;
   project_id: string;
 }
 
+/**
+ * `data` of a webhook carrying a domain event
+ */
+export interface DomainEventWebhookData {
+  event_id: string | null;
+  aggregate_type: string;
+  aggregate_id: string;
+  payload: Record<string, unknown>;
+  correlation_id: string | null;
+  source: string | null;
+}
+
 export interface FeedbackWebhook {
   id: string;
   project_id: string;
@@ -41,6 +107,64 @@ export interface WebhookDeliveryResult {
   status_code?: number;
   error?: string;
   duration_ms: number;
+  delivery_id?: string;
+  attempt?: number;
+  next_attempt_at?: string | null;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'delivered' | 'failed';
+
+export interface WebhookDeliveryAttempt {
+  attempt: number;
+  status_code?: number;
+  error?: string;
+  duration_ms: number;
+  attempted_at: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  project_id: string | null;
+  event_type: string;
+  event_id: string | null;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempt_count: number;
+  max_attempts: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  request_url: string | null;
+  request_headers: Record<string, string> | null;
+  request_body: string | null;
+  status_code: number | null;
+  response_headers: Record<string, string> | null;
+  response_body: string | null;
+  error_message: string | null;
+  delivery_duration_ms: number | null;
+  attempts: WebhookDeliveryAttempt[];
+  redelivery_of: string | null;
+  success: boolean;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+// Retry schedule: 30s, 1m, 2m, 4m, 8m, 16m, 32m between 8 attempts (~1h total).
+// Backoff is capped at 6h, which only applies if WEBHOOK_MAX_ATTEMPTS is raised.
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+const WEBHOOK_BASE_BACKOFF_MS = 30 * 1000;
+const WEBHOOK_MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+// Endpoint is disabled after this many consecutive failed attempts
+export const WEBHOOK_DISABLE_AFTER_FAILURES = 20;
+const WEBHOOK_TIMEOUT_MS = 10000;
+const MAX_LOGGED_BODY_LENGTH = 10000;
+
+function getSupabase() {
+  const supabase = getSupabaseServiceRoleClient();
+  if (!supabase) {
+    throw new Error('Database connection not available');
+  }
+  return supabase;
 }
 
 /**
@@ -56,34 +180,69 @@ export function generateWebhookSignature(
 }
 
 /**
- * Deliver webhook to a single endpoint
+ * Delay before the next attempt after `attempt` failures, with ±20% jitter
+ * so a recovering receiver isn't hit by every queued delivery at once
  */
-export async function deliverWebhook(
+export function computeWebhookBackoffMs(attempt: number, random: () => number = Math.random): number {
+  const exponential = WEBHOOK_BASE_BACKOFF_MS * Math.pow(2, Math.max(attempt - 1, 0));
+  const capped = Math.min(exponential, WEBHOOK_MAX_BACKOFF_MS);
+  const jitter = 1 + (random() * 0.4 - 0.2);
+  return Math.round(capped * jitter);
+}
+
+/**
+ * Whether a failed attempt is worth retrying. 4xx responses other than
+ * 408/409/425/429 mean the receiver rejected the payload itself.
+ */
+export function isRetryableWebhookFailure(statusCode?: number): boolean {
+  if (statusCode === undefined) return true; // network error / timeout
+  if (statusCode >= 500) return true;
+  return [408, 409, 425, 429].includes(statusCode);
+}
+
+/**
+ * Thrown when a domain event has already been queued for an endpoint, e.g.
+ * because the event bus retried the event
+ */
+export class DuplicateWebhookDeliveryError extends Error {
+  constructor(
+    public webhookId: string,
+    public eventId: string
+  ) {
+    super(`Event ${eventId} is already queued for webhook ${webhookId}`);
+    this.name = 'DuplicateWebhookDeliveryError';
+  }
+}
+
+/**
+ * Perform a single HTTP attempt for a delivery
+ */
+async function sendWebhookRequest(
   webhook: FeedbackWebhook,
-  payload: WebhookPayload
-): Promise<WebhookDeliveryResult> {
+  payload: WebhookPayload,
+  deliveryId: string,
+  attempt: number
+) {
+  const body = JSON.stringify(payload);
+  const requestHeaders: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-Webhook-Signature': generateWebhookSignature(payload, webhook.webhook_secret),
+    'X-Webhook-Event': payload.event,
+    'X-Webhook-Version': String(payload.version ?? 1),
+    'X-Webhook-Delivery': deliveryId,
+    'X-Webhook-Attempt': String(attempt),
+    'User-Agent': 'SignalsLoop-Webhook/1.0',
+  };
   const startTime = Date.now();
-  const supabase = getSupabaseServiceRoleClient();
 
   try {
-    const signature = generateWebhookSignature(payload, webhook.webhook_secret);
-
     const response = await fetch(webhook.webhook_url, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Webhook-Signature': signature,
-        'X-Webhook-Event': payload.event,
-        'User-Agent': 'SignalsLoop-Webhook/1.0',
-      },
-      body: JSON.stringify(payload),
-      signal: AbortSignal.timeout(10000), // 10 second timeout
+      headers: requestHeaders,
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
     });
 
-    const duration = Date.now() - startTime;
-    const success = response.ok;
-    const statusCode = response.status;
-
     let responseBody = '';
     try {
       responseBody = await response.text();
@@ -91,70 +250,178 @@ export async function deliverWebhook(
       // Ignore response body errors
     }
 
-    // Log delivery attempt
-    await supabase.from('webhook_deliveries').insert({
+    return {
+      success: response.ok,
+      status_code: response.status,
+      duration_ms: Date.now() - startTime,
+      request_headers: requestHeaders,
+      request_body: body,
+      response_headers: Object.fromEntries(response.headers.entries()),
+      response_body: responseBody.substring(0, MAX_LOGGED_BODY_LENGTH),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      duration_ms: Date.now() - startTime,
+      request_headers: requestHeaders,
+      request_body: body,
+    };
+  }
+}
+
+/**
+ * Persist a delivery before the first attempt so it survives a crash or a
+ * receiver outage. The row starts as 'delivering' because the caller is
+ * about to attempt it; the queue reclaims it if that attempt never finishes.
+ */
+export async function enqueueWebhookDelivery(
+  webhook: FeedbackWebhook,
+  payload: WebhookPayload,
+  options: { maxAttempts?: number; redeliveryOf?: string; eventId?: string } = {}
+): Promise<WebhookDelivery> {
+  const { data, error } = await getSupabase()
+    .from('webhook_deliveries')
+    .insert({
       webhook_id: webhook.id,
+      project_id: webhook.project_id,
       event_type: payload.event,
+      event_id: options.eventId ?? null,
       payload: payload as unknown as Record<string, unknown>,
-      status_code: statusCode,
-      response_body: responseBody.substring(0, 1000), // Limit to 1000 chars
-      success,
-      delivery_duration_ms: duration,
-    });
+      status: 'delivering',
+      locked_at: new Date().toISOString(),
+      max_attempts: options.maxAttempts ?? WEBHOOK_MAX_ATTEMPTS,
+      request_url: webhook.webhook_url,
+      redelivery_of: options.redeliveryOf ?? null,
+      success: false,
+    })
+    .select('*')
+    .single();
+
+  // Unique (webhook_id, event_id): each domain event is delivered once
+  if (error?.code === '23505' && options.eventId) {
+    throw new DuplicateWebhookDeliveryError(webhook.id, options.eventId);
+  }
+
+  if (error || !data) {
+    throw new Error(`Failed to enqueue webhook delivery: ${error?.message || 'no row returned'}`);
+  }
+
+  return data as WebhookDelivery;
+}
+
+/**
+ * Attempt a queued delivery once and record the outcome: the delivery row
+ * gets the request/response log and either a terminal status or the next
+ * retry time; the endpoint gets its health counters updated.
+ */
+export async function attemptWebhookDelivery(
+  delivery: WebhookDelivery,
+  webhook: FeedbackWebhook,
+  options: { trackEndpointHealth?: boolean } = {}
+): Promise<WebhookDeliveryResult> {
+  const { trackEndpointHealth = true } = options;
+  const supabase = getSupabase();
+  const attempt = delivery.attempt_count + 1;
+  const attemptedAt = new Date().toISOString();
+
+  const result = await sendWebhookRequest(webhook, delivery.payload, delivery.id, attempt);
+
+  const retryable = !result.success && isRetryableWebhookFailure(result.status_code);
+  const willRetry = retryable && attempt < delivery.max_attempts;
+  const nextAttemptAt = willRetry
+    ? new Date(Date.now() + computeWebhookBackoffMs(attempt)).toISOString()
+    : null;
+  const status: WebhookDeliveryStatus = result.success
+    ? 'delivered'
+    : willRetry
+      ? 'pending'
+      : 'failed';
+
+  const attemptLog: WebhookDeliveryAttempt = {
+    attempt,
+    status_code: result.status_code,
+    error: result.error,
+    duration_ms: result.duration_ms,
+    attempted_at: attemptedAt,
+  };
+
+  const { error: updateError } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      status,
+      success: result.success,
+      attempt_count: attempt,
+      last_attempt_at: attemptedAt,
+      next_attempt_at: nextAttemptAt,
+      locked_at: null,
+      request_headers: result.request_headers,
+      request_body: result.request_body,
+      status_code: result.status_code ?? null,
+      response_headers: result.response_headers ?? null,
+      response_body: result.response_body ?? null,
+      error_message: result.error ?? null,
+      delivery_duration_ms: result.duration_ms,
+      delivered_at: result.success ? attemptedAt : null,
+      attempts: [...(delivery.attempts || []), attemptLog],
+    })
+    .eq('id', delivery.id);
+
+  if (updateError) {
+    console.error(`Failed to record webhook delivery ${delivery.id}:`, updateError);
+  }
 
-    // Update webhook stats
-    if (success) {
+  if (trackEndpointHealth) {
+    if (result.success) {
       await supabase
         .from('feedback_webhooks')
         .update({
-          last_triggered_at: new Date().toISOString(),
-          last_status_code: statusCode,
-          failure_count: 0,
+          last_triggered_at: attemptedAt,
+          last_status_code: result.status_code,
+          consecutive_failures: 0,
         })
         .eq('id', webhook.id);
     } else {
-      await supabase
-        .from('feedback_webhooks')
-        .update({
-          last_triggered_at: new Date().toISOString(),
-          last_status_code: statusCode,
-          failure_count: webhook.id, // Increment handled by DB
-        })
-        .eq('id', webhook.id);
+      const { data: disabled } = await supabase.rpc('record_webhook_failure', {
+        p_webhook_id: webhook.id,
+        p_status_code: result.status_code ?? null,
+        p_disable_after: WEBHOOK_DISABLE_AFTER_FAILURES,
+      });
+      if (disabled) {
+        console.warn(
+          `Webhook ${webhook.id} disabled after ${WEBHOOK_DISABLE_AFTER_FAILURES} consecutive failures`
+        );
+      }
     }
+  }
 
-    return {
-      success,
-      status_code: statusCode,
-      duration_ms: duration,
-    };
-  } catch (error) {
-    const duration = Date.now() - startTime;
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-
-    // Log failed delivery
-    await supabase.from('webhook_deliveries').insert({
-      webhook_id: webhook.id,
-      event_type: payload.event,
-      payload: payload as unknown as Record<string, unknown>,
-      error_message: errorMessage,
-      success: false,
-      delivery_duration_ms: duration,
-    });
-
-    // Update failure count
-    await supabase
-      .from('feedback_webhooks')
-      .update({
-        last_triggered_at: new Date().toISOString(),
-        failure_count: webhook.id, // Increment handled by DB
-      })
-      .eq('id', webhook.id);
+  return {
+    success: result.success,
+    status_code: result.status_code,
+    error: result.error,
+    duration_ms: result.duration_ms,
+    delivery_id: delivery.id,
+    attempt,
+    next_attempt_at: nextAttemptAt,
+  };
+}
 
+/**
+ * Deliver webhook to a single endpoint. The delivery is persisted first and
+ * retried by processWebhookQueue() if this attempt fails.
+ */
+export async function deliverWebhook(
+  webhook: FeedbackWebhook,
+  payload: WebhookPayload
+): Promise<WebhookDeliveryResult> {
+  try {
+    const delivery = await enqueueWebhookDelivery(webhook, payload);
+    return await attemptWebhookDelivery(delivery, webhook);
+  } catch (error) {
     return {
       success: false,
-      error: errorMessage,
-      duration_ms: duration,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      duration_ms: 0,
     };
   }
 }
@@ -165,11 +432,12 @@ export async function deliverWebhook(
 export async function triggerWebhooks(
   projectId: string,
   event: WebhookEvent,
-  data: unknown
+  data: unknown,
+  options: { eventId?: string; timestamp?: string } = {}
 ): Promise<void> {
-  const supabase = getSupabaseServiceRoleClient();
-
   try {
+    const supabase = getSupabase();
+
     // Fetch active webhooks for this project that are subscribed to this event
     const { data: webhooks, error } = await supabase
       .from('feedback_webhooks')
@@ -190,21 +458,41 @@ export async function triggerWebhooks(
 
     const payload: WebhookPayload = {
       event,
+      version: getWebhookEventVersion(event),
       data,
-      timestamp: new Date().toISOString(),
+      timestamp: options.timestamp ?? new Date().toISOString(),
       project_id: projectId,
     };
 
-    // Deliver webhooks in parallel (fire and forget)
-    const deliveryPromises = webhooks.map((webhook) =>
-      deliverWebhook(webhook as FeedbackWebhook, payload).catch((error) => {
-        console.error(`Webhook delivery failed for ${webhook.id}:`, error);
+    // Persist every delivery before returning so none is lost if the
+    // process exits; the first attempt itself is fire and forget.
+    const queued = await Promise.all(
+      webhooks.map(async (webhook) => {
+        try {
+          const delivery = await enqueueWebhookDelivery(webhook as FeedbackWebhook, payload, {
+            eventId: options.eventId,
+          });
+          return { delivery, webhook: webhook as FeedbackWebhook };
+        } catch (enqueueError) {
+          if (enqueueError instanceof DuplicateWebhookDeliveryError) {
+            return null;
+          }
+          console.error(`Failed to queue webhook ${webhook.id}:`, enqueueError);
+          return null;
+        }
       })
     );
 
-    // Don't await - fire and forget to avoid blocking the main request
-    Promise.all(deliveryPromises).catch((error) => {
-      console.error('Error in webhook delivery batch:', error);
+    Promise.all(
+      queued
+        .filter((entry): entry is NonNullable<typeof entry> => entry !== null)
+        .map(({ delivery, webhook }) =>
+          attemptWebhookDelivery(delivery, webhook).catch((deliveryError) => {
+            console.error(`Webhook delivery failed for ${webhook.id}:`, deliveryError);
+          })
+        )
+    ).catch((batchError) => {
+      console.error('Error in webhook delivery batch:', batchError);
     });
 
     console.log(`Triggered ${webhooks.length} webhook(s) for event ${event}`);
@@ -213,13 +501,138 @@ export async function triggerWebhooks(
   }
 }
 
+/**
+ * Event bus handler: deliver a domain event to every webhook subscribed to
+ * its type. Registered for all event types in the agent registry.
+ */
+export async function forwardDomainEventToWebhooks(event: DomainEvent): Promise<void> {
+  const projectId = event.metadata?.project_id;
+  if (!projectId || !isDomainEventType(event.type)) {
+    return;
+  }
+
+  const data: DomainEventWebhookData = {
+    event_id: event.id ?? null,
+    aggregate_type: event.aggregate_type,
+    aggregate_id: event.aggregate_id,
+    payload: event.payload ?? {},
+    correlation_id: event.metadata.correlation_id ?? null,
+    source: event.metadata.source ?? null,
+  };
+
+  const timestamp = event.created_at
+    ? new Date(event.created_at).toISOString()
+    : event.metadata.timestamp;
+
+  await triggerWebhooks(projectId, event.type, data, {
+    eventId: event.id,
+    timestamp,
+  });
+}
+
+/**
+ * Retry due deliveries. Called by the webhook-retries cron.
+ */
+export async function processWebhookQueue(limit: number = 25): Promise<{
+  claimed: number;
+  delivered: number;
+  rescheduled: number;
+  failed: number;
+}> {
+  const supabase = getSupabase();
+  const summary = { claimed: 0, delivered: 0, rescheduled: 0, failed: 0 };
+
+  const { data: deliveries, error } = await supabase.rpc('claim_webhook_deliveries', {
+    p_limit: limit,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim webhook deliveries: ${error.message}`);
+  }
+
+  const claimed = (deliveries || []) as WebhookDelivery[];
+  summary.claimed = claimed.length;
+  if (claimed.length === 0) {
+    return summary;
+  }
+
+  const webhookIds = Array.from(new Set(claimed.map((d) => d.webhook_id)));
+  const { data: webhooks } = await supabase
+    .from('feedback_webhooks')
+    .select('*')
+    .in('id', webhookIds);
+  const webhookMap = new Map((webhooks || []).map((w) => [w.id, w as FeedbackWebhook]));
+
+  // Attempts run concurrently; each is bounded by WEBHOOK_TIMEOUT_MS
+  await Promise.all(
+    claimed.map(async (delivery) => {
+      const webhook = webhookMap.get(delivery.webhook_id);
+
+      // Endpoint deleted or disabled since the delivery was queued
+      if (!webhook || !webhook.is_active) {
+        await supabase
+          .from('webhook_deliveries')
+          .update({
+            status: 'failed',
+            next_attempt_at: null,
+            locked_at: null,
+            error_message: webhook ? 'Webhook endpoint disabled' : 'Webhook endpoint deleted',
+          })
+          .eq('id', delivery.id);
+        summary.failed++;
+        return;
+      }
+
+      const result = await attemptWebhookDelivery(delivery, webhook);
+      if (result.success) {
+        summary.delivered++;
+      } else if (result.next_attempt_at) {
+        summary.rescheduled++;
+      } else {
+        summary.failed++;
+      }
+    })
+  );
+
+  return summary;
+}
+
+/**
+ * Re-send a stored delivery as a new delivery linked to the original.
+ * Works for disabled endpoints too, so owners can verify a fix.
+ */
+export async function redeliverWebhook(
+  deliveryId: string,
+  projectId: string
+): Promise<WebhookDeliveryResult> {
+  const supabase = getSupabase();
+
+  const { data: original, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*, feedback_webhooks!inner(*)')
+    .eq('id', deliveryId)
+    .eq('feedback_webhooks.project_id', projectId)
+    .single();
+
+  if (error || !original) {
+    return { success: false, error: 'Delivery not found', duration_ms: 0 };
+  }
+
+  const webhook = original.feedback_webhooks as FeedbackWebhook;
+  const delivery = await enqueueWebhookDelivery(webhook, original.payload as WebhookPayload, {
+    redeliveryOf: deliveryId,
+  });
+
+  return attemptWebhookDelivery(delivery, webhook);
+}
+
 /**
  * Test webhook delivery with sample payload
  */
 export async function testWebhookDelivery(
   webhookId: string
 ): Promise<WebhookDeliveryResult> {
-  const supabase = getSupabaseServiceRoleClient();
+  const supabase = getSupabase();
 
   const { data: webhook, error } = await supabase
     .from('feedback_webhooks')
@@ -237,6 +650,7 @@ export async function testWebhookDelivery(
 
   const testPayload: WebhookPayload = {
     event: 'post.created',
+    version: getWebhookEventVersion('post.created'),
     data: {
       post: {
         id: 'test-post-id',
@@ -254,7 +668,21 @@ export async function testWebhookDelivery(
     project_id: webhook.project_id,
   };
 
-  return deliverWebhook(webhook as FeedbackWebhook, testPayload);
+  // Single attempt, and a failing test must not count towards auto-disable
+  try {
+    const delivery = await enqueueWebhookDelivery(webhook as FeedbackWebhook, testPayload, {
+      maxAttempts: 1,
+    });
+    return await attemptWebhookDelivery(delivery, webhook as FeedbackWebhook, {
+      trackEndpointHealth: false,
+    });
+  } catch (deliveryError) {
+    return {
+      success: false,
+      error: deliveryError instanceof Error ? deliveryError.message : 'Unknown error',
+      duration_ms: 0,
+    };
+  }
 }
 
 /**
@@ -147,3 +147,176 @@ export const DEFAULT_WORKFLOW_TEMPLATES: WorkflowTemplate[] = [
         isDefault: true
     }
 ];
+
+// ============================================================================
+// Automations
+// Project-defined "when X then Y" workflows: a domain event triggers the
+// workflow, conditions on the event decide whether it runs, and actions
+// from a fixed library do the work. Stored per project, so they change
+// without a deploy.
+// ============================================================================
+
+export type AutomationConditionOperator =
+    | 'equals'
+    | 'not_equals'
+    | 'contains'
+    | 'not_contains'
+    | 'in'
+    | 'not_in'
+    | 'greater_than'
+    | 'less_than'
+    | 'exists'
+    | 'not_exists';
+
+export interface AutomationCondition {
+    // Dotted path into the event context, e.g. 'payload.sentiment_category',
+    // 'metadata.source', 'post.status' or 'customer.plan_name'
+    field: string;
+    operator: AutomationConditionOperator;
+    value?: unknown;
+}
+
+export type AutomationPostStatus = 'open' | 'planned' | 'in_progress' | 'done' | 'declined';
+
+// Text fields accept {{field}} placeholders, e.g. {{payload.post_title}}
+export type AutomationAction =
+    | { type: 'slack'; channelId: string; message: string }
+    | { type: 'jira'; summary: string; description?: string; projectKey?: string; issueType?: string; labels?: string[] }
+    | { type: 'email'; to: string[]; subject: string; body: string }
+    | { type: 'set_post_status'; status: AutomationPostStatus };
+
+export type AutomationActionType = AutomationAction['type'];
+
+export interface AutomationWorkflow {
+    id: string;
+    projectId: string;
+    name: string;
+    description?: string;
+    enabled: boolean;
+
+    // Trigger: any domain event type, e.g. 'sentiment.analyzed'
+    triggerEventType: string;
+
+    // Conditions: every one must pass ('all') or at least one ('any')
+    conditionMatch: 'all' | 'any';
+    conditions: AutomationCondition[];
+
+    actions: AutomationAction[];
+
+    runCount: number;
+    lastRunAt?: Date;
+    createdBy?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface AutomationWorkflowInput {
+    name: string;
+    description?: string;
+    enabled?: boolean;
+    triggerEventType: string;
+    conditionMatch?: 'all' | 'any';
+    conditions?: AutomationCondition[];
+    actions: AutomationAction[];
+}
+
+export type AutomationRunStatus = 'running' | 'succeeded' | 'partial' | 'failed' | 'skipped';
+
+export interface AutomationConditionResult {
+    field: string;
+    operator: AutomationConditionOperator;
+    expected?: unknown;
+    actual: unknown;
+    passed: boolean;
+}
+
+export interface AutomationActionResult {
+    type: AutomationActionType;
+    // 'simulated' in test mode: rendered but not carried out
+    status: 'succeeded' | 'failed' | 'simulated';
+    detail?: string;
+    error?: string;
+}
+
+export interface AutomationRun {
+    id: string;
+    workflowId: string;
+    projectId: string;
+    eventId?: string;
+    eventType: string;
+    isTest: boolean;
+    matched: boolean;
+    status: AutomationRunStatus;
+    conditionResults: AutomationConditionResult[];
+    actionResults: AutomationActionResult[];
+    durationMs?: number;
+    createdAt: Date;
+}
+
+export interface AutomationTemplate {
+    id: string;
+    name: string;
+    description: string;
+    workflow: Omit<AutomationWorkflowInput, 'name' | 'description'>;
+}
+
+// Starting points for the automation builder; channels and Jira projects
+// are filled in by the user
+export const AUTOMATION_TEMPLATES: AutomationTemplate[] = [
+    {
+        id: 'enterprise_negative_feedback',
+        name: 'Escalate negative enterprise feedback',
+        description: 'When feedback from an enterprise customer comes back negative, open a Jira issue and tell the team in Slack',
+        workflow: {
+            triggerEventType: 'sentiment.analyzed',
+            conditionMatch: 'all',
+            conditions: [
+                { field: 'payload.sentiment_category', operator: 'equals', value: 'negative' },
+                { field: 'customer.plan_name', operator: 'contains', value: 'enterprise' }
+            ],
+            actions: [
+                {
+                    type: 'jira',
+                    summary: 'Negative feedback from {{customer.company}}: {{payload.post_title}}',
+                    description: '{{post.description}}\n\nSentiment score: {{payload.sentiment_score}}',
+                    labels: ['signalsloop', 'escalation']
+                },
+                {
+                    type: 'slack',
+                    channelId: '',
+                    message: ':rotating_light: Negative feedback from {{customer.company}} ({{customer.plan_name}}): {{payload.post_title}}'
+                }
+            ]
+        }
+    },
+    {
+        id: 'popular_request_to_planned',
+        name: 'Plan popular requests',
+        description: 'Move a post to Planned once it passes 50 votes and let the team know',
+        workflow: {
+            triggerEventType: 'feedback.voted',
+            conditionMatch: 'all',
+            conditions: [
+                { field: 'payload.vote_count', operator: 'greater_than', value: 50 },
+                { field: 'post.status', operator: 'equals', value: 'open' }
+            ],
+            actions: [
+                { type: 'set_post_status', status: 'planned' },
+                { type: 'slack', channelId: '', message: '"{{post.title}}" reached {{payload.vote_count}} votes and is now planned' }
+            ]
+        }
+    },
+    {
+        id: 'competitor_mention_alert',
+        name: 'Competitor mention alert',
+        description: 'Post to Slack whenever feedback mentions a competitor',
+        workflow: {
+            triggerEventType: 'competitor.mentioned',
+            conditionMatch: 'all',
+            conditions: [],
+            actions: [
+                { type: 'slack', channelId: '', message: '{{payload.competitor_name}} was mentioned: "{{payload.context}}"' }
+            ]
+        }
+    }
+];
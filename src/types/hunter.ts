@@ -19,7 +19,9 @@ export type PlatformType =
   | 'trustpilot'
   | 'producthunt'
   | 'appstore'
-  | 'playstore';
+  | 'playstore'
+  | 'github'
+  | 'stackexchange';
 
 /**
  * Integration status
@@ -97,6 +99,8 @@ export interface HunterConfig {
     reddit?: string;
   };
   exclude_terms?: string[];
+  // Embedding similarity above which cross-posts are linked as mentions
+  dedup_similarity_threshold?: number;
   created_at: string;
   updated_at: string;
 }
@@ -113,16 +117,49 @@ export interface PlatformIntegration {
   last_scan_at?: string;
   next_scan_at?: string;
   scan_frequency_minutes: number;
+  // Cron expression (minute hour day-of-month month day-of-week); overrides scan_frequency_minutes
+  scan_schedule?: string | null;
+  // IANA timezone the schedule and quiet hours are read in
+  schedule_timezone?: string;
+  quiet_hours?: QuietHours | null;
   total_scans: number;
   successful_scans: number;
   failed_scans: number;
   total_items_found: number;
   last_error?: string;
   error_count: number;
+  sync_state?: PlatformSyncState;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Daily window in which scheduled and backfill scans don't start
+ * ('HH:MM', may wrap past midnight)
+ */
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+/**
+ * Historical time range for a backfill page; hunters that support
+ * backfill search only within it instead of their recent lookback
+ */
+export interface HuntWindow {
+  since: Date;
+  until: Date;
+}
+
+/**
+ * Incremental polling state for a platform integration (stored as JSONB)
+ * Committed only after the items discovered with it are stored
+ */
+export interface PlatformSyncState {
+  // GitHub: last seen updated_at per repo and stream
+  repos?: Record<string, { issues?: string; comments?: string; discussions?: string }>;
+}
+
 /**
  * Platform-specific configuration (stored as JSONB)
  */
@@ -161,10 +198,22 @@ export interface PlatformConfig {
   // App Store
   appstore_app_id?: string;
   appstore_country?: string;
+  appstore_countries?: string[]; // Storefronts to scan, e.g. ['us', 'gb']; overrides appstore_country
 
   // Play Store
   playstore_package_name?: string;
   playstore_country?: string;
+
+  // GitHub
+  github_repos?: string[]; // "owner/repo"
+  github_token?: string; // Optional; falls back to GITHUB_TOKEN. Required for discussions
+  github_include_discussions?: boolean; // Default: true
+  github_label_categories?: Record<string, FeedbackClassification>; // Label name -> category override
+
+  // Stack Exchange
+  stackexchange_sites?: string[]; // API site names, e.g. ['stackoverflow', 'superuser']. Default: stackoverflow
+  stackexchange_tags?: string[]; // Tags to watch in addition to name/keyword search
+  stackexchange_key?: string; // Optional app key for a higher quota; falls back to STACKEXCHANGE_KEY
 }
 
 /**
@@ -181,6 +230,9 @@ export interface EngagementMetrics {
   downvotes?: number;
   score?: number;
   rating?: number;
+  views?: number;
+  accepted?: boolean; // Has (or is) an accepted answer
+  duplicates?: number; // Questions closed as duplicates of this one
 }
 
 /**
@@ -193,6 +245,28 @@ export interface AuthorMetadata {
   karma?: number;
   is_influencer?: boolean;
   profile_image_url?: string;
+  // App store reviews
+  app_version?: string;
+  rating?: number;
+  country?: string;
+}
+
+/**
+ * A duplicate of a discovered feedback item found on another platform or
+ * in a later scan, linked to the canonical item instead of stored separately
+ */
+export interface FeedbackMention {
+  id: string;
+  feedback_id: string;
+  platform: PlatformType;
+  platform_id: string;
+  platform_url: string;
+  author_username?: string;
+  title?: string;
+  engagement_score: number;
+  match_reason: 'source_duplicate' | 'embedding';
+  similarity: number;
+  discovered_at: string;
 }
 
 /**
@@ -247,6 +321,12 @@ export interface DiscoveredFeedback {
   created_at: string;
   updated_at: string;
 
+  // Cross-posts linked by semantic deduplication
+  mention_count?: number;
+  mentions_engagement_score?: number;
+  aggregated_engagement_score?: number;
+  mentions?: FeedbackMention[];
+
   // Customer data (from CRM integration)
   customer_profile_id?: string;
   customer_email?: string;
@@ -385,8 +465,13 @@ export interface HunterSetupRequest {
     reddit?: string;
   };
   excludeTerms?: string[];
+  dedupSimilarityThreshold?: number;
   // Platform-specific config
   redditSubreddits?: string[];
+  appstoreAppId?: string;
+  appstoreCountries?: string[];
+  githubRepos?: string[];
+  stackexchangeTags?: string[];
 }
 
 /**
@@ -406,6 +491,9 @@ export interface AddPlatformRequest {
   platformType: PlatformType;
   config: PlatformConfig;
   scanFrequencyMinutes?: number;
+  scanSchedule?: string | null;
+  scheduleTimezone?: string;
+  quietHours?: QuietHours | null;
 }
 
 /**
@@ -416,6 +504,9 @@ export interface UpdatePlatformRequest {
   config?: Partial<PlatformConfig>;
   status?: IntegrationStatus;
   scanFrequencyMinutes?: number;
+  scanSchedule?: string | null;
+  scheduleTimezone?: string;
+  quietHours?: QuietHours | null;
 }
 
 /**
@@ -521,6 +612,28 @@ export interface RawFeedback {
   author_metadata?: AuthorMetadata;
   discovered_at: Date;
   engagement_metrics?: EngagementMetrics;
+  // Source labels (e.g. GitHub issue labels), and the category they map to
+  labels?: string[];
+  label_classification?: FeedbackClassification;
+  // Same-platform id of the item this one duplicates (e.g. a Stack Overflow
+  // question closed as a duplicate), as a hint for deduplication
+  duplicate_of?: string;
+  // The configured input that found the item, for yield analytics:
+  // 'keyword:<term>', 'r/<subreddit>' or 'tag:<tag>'
+  source?: string;
+}
+
+/**
+ * Paid API calls made while processing a scan, for cost analytics
+ */
+export interface HunterApiUsage {
+  provider: 'openai' | 'grok';
+  model: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  // Set when the calls served a single source (see RawFeedback.source)
+  source?: string;
 }
 
 /**
@@ -857,6 +970,24 @@ export const PLATFORM_META: Record<PlatformType, PlatformMeta> = {
     rateLimitPerHour: 30,
     costTier: 'free',
   },
+  stackexchange: {
+    name: 'Stack Overflow',
+    icon: '📚',
+    color: '#F48024',
+    description: 'Questions and answers on Stack Overflow and Stack Exchange',
+    requiresAuth: false,
+    rateLimitPerHour: 60,
+    costTier: 'free',
+  },
+  github: {
+    name: 'GitHub',
+    icon: '🐙',
+    color: '#24292F',
+    description: 'Watch issues, comments and discussions on your repos',
+    requiresAuth: false,
+    rateLimitPerHour: 60,
+    costTier: 'free',
+  },
 };
 
 /**
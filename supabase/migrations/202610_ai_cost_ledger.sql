@@ -0,0 +1,147 @@
+-- =====================================================
+-- AI Cost Ledger & Budgets
+-- Persistent record of token usage and dollar cost per project,
+-- feature and model, plus monthly soft/hard spend caps
+-- =====================================================
+
+-- ============================================================================
+-- LEDGER
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS ai_cost_ledger (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+
+  -- NULL when the call ran outside an attributed request (cron, scripts)
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+  feature_type VARCHAR(100),          -- AIFeatureType, e.g. 'spec_generation'
+
+  provider VARCHAR(50) NOT NULL,      -- openai, claude, llama, local
+  model VARCHAR(255) NOT NULL,
+  operation VARCHAR(50) NOT NULL DEFAULT 'completion', -- completion, embedding
+
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+
+  -- Set when a soft cap swapped the requested model for a cheaper one
+  downgraded_from VARCHAR(255),
+
+  metadata JSONB DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_cost_ledger_project_created
+  ON ai_cost_ledger(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_cost_ledger_feature
+  ON ai_cost_ledger(project_id, feature_type);
+CREATE INDEX IF NOT EXISTS idx_ai_cost_ledger_model
+  ON ai_cost_ledger(model);
+
+-- ============================================================================
+-- BUDGETS
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS ai_budgets (
+  project_id UUID PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+
+  -- Monthly caps in USD. NULL = no cap.
+  soft_cap_usd NUMERIC(12, 2),
+  hard_cap_usd NUMERIC(12, 2),
+
+  -- What happens once the soft cap is reached
+  soft_cap_action VARCHAR(20) NOT NULL DEFAULT 'downgrade', -- downgrade, alert
+  downgrade_model VARCHAR(255) NOT NULL DEFAULT 'gpt-4o-mini',
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT ai_budgets_soft_below_hard CHECK (
+    soft_cap_usd IS NULL OR hard_cap_usd IS NULL OR soft_cap_usd <= hard_cap_usd
+  ),
+  CONSTRAINT ai_budgets_soft_cap_action_check CHECK (
+    soft_cap_action IN ('downgrade', 'alert')
+  )
+);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Total spend for a project since a point in time (usually start of month)
+CREATE OR REPLACE FUNCTION get_project_ai_spend(
+  p_project_id UUID,
+  p_since TIMESTAMP WITH TIME ZONE
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(cost_usd), 0)
+  FROM ai_cost_ledger
+  WHERE project_id = p_project_id
+    AND created_at >= p_since;
+$$;
+
+-- Spend broken down by day and feature for the admin API
+CREATE OR REPLACE FUNCTION get_project_ai_spend_breakdown(
+  p_project_id UUID,
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_to TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  day DATE,
+  feature_type VARCHAR,
+  model VARCHAR,
+  calls BIGINT,
+  prompt_tokens BIGINT,
+  completion_tokens BIGINT,
+  cost_usd NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (created_at AT TIME ZONE 'UTC')::date AS day,
+    COALESCE(feature_type, 'unattributed') AS feature_type,
+    model,
+    COUNT(*) AS calls,
+    SUM(prompt_tokens)::BIGINT AS prompt_tokens,
+    SUM(completion_tokens)::BIGINT AS completion_tokens,
+    SUM(cost_usd) AS cost_usd
+  FROM ai_cost_ledger
+  WHERE project_id = p_project_id
+    AND created_at >= p_from
+    AND created_at < p_to
+  GROUP BY 1, 2, 3
+  ORDER BY 1, 2, 3;
+$$;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+ALTER TABLE ai_cost_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project owners can read their AI cost ledger"
+  ON ai_cost_ledger FOR SELECT
+  USING (
+    project_id IN (SELECT id FROM projects WHERE owner_id = auth.uid())
+  );
+
+CREATE POLICY "Project owners can read their AI budget"
+  ON ai_budgets FOR SELECT
+  USING (
+    project_id IN (SELECT id FROM projects WHERE owner_id = auth.uid())
+  );
+
+CREATE POLICY "Service role manages AI cost ledger"
+  ON ai_cost_ledger FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role manages AI budgets"
+  ON ai_budgets FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE ai_cost_ledger IS 'Per-call AI token usage and USD cost, attributed to project/feature/model';
+COMMENT ON TABLE ai_budgets IS 'Monthly AI spend caps per project (soft cap downgrades, hard cap blocks)';
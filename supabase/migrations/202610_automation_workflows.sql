@@ -0,0 +1,114 @@
+-- =====================================================
+-- Automation Workflows
+-- Project-defined "when X then Y" workflows on the event bus: a domain
+-- event type as the trigger, conditions on the event, its post and the
+-- post author's customer record, and actions that post to Slack, open a
+-- Jira issue, send email or change the post's status
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS automation_workflows (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  enabled BOOLEAN DEFAULT true,
+
+  trigger_event_type VARCHAR(100) NOT NULL, -- e.g. 'sentiment.analyzed'
+  condition_match VARCHAR(3) NOT NULL DEFAULT 'all' CHECK (condition_match IN ('all', 'any')),
+  conditions JSONB NOT NULL DEFAULT '[]',
+  -- Example: [{"field": "payload.sentiment_category", "operator": "equals", "value": "negative"},
+  --           {"field": "customer.plan_name", "operator": "contains", "value": "enterprise"}]
+  actions JSONB NOT NULL DEFAULT '[]',
+  -- Example: [{"type": "jira", "summary": "Negative feedback: {{payload.post_title}}"},
+  --           {"type": "slack", "channelId": "C0123", "message": "..."}]
+
+  run_count INTEGER DEFAULT 0,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_automation_workflows_trigger
+  ON automation_workflows(project_id, trigger_event_type) WHERE enabled = true;
+
+-- ============================================================================
+-- RUNS - every matching event, plus test runs against sample events
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS automation_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  workflow_id UUID NOT NULL REFERENCES automation_workflows(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+
+  event_id UUID, -- NULL for sample events
+  event_type VARCHAR(100) NOT NULL,
+  event_payload JSONB NOT NULL DEFAULT '{}',
+  is_test BOOLEAN NOT NULL DEFAULT false,
+
+  matched BOOLEAN NOT NULL DEFAULT true,
+  status VARCHAR(20) NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'succeeded', 'partial', 'failed', 'skipped')),
+  condition_results JSONB NOT NULL DEFAULT '[]',
+  action_results JSONB NOT NULL DEFAULT '[]',
+  -- Example: [{"type": "jira", "status": "succeeded", "detail": "Created SL-42"}]
+  duration_ms INTEGER,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_automation_runs_workflow ON automation_runs(workflow_id, created_at DESC);
+
+-- A workflow runs once per event, even when the event is redelivered
+CREATE UNIQUE INDEX IF NOT EXISTS idx_automation_runs_event
+  ON automation_runs(workflow_id, event_id) WHERE is_test = false AND event_id IS NOT NULL;
+
+-- Counts runs atomically; events for one workflow can be processed concurrently
+CREATE OR REPLACE FUNCTION record_automation_run(p_workflow_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE automation_workflows
+  SET
+    run_count = COALESCE(run_count, 0) + 1,
+    last_run_at = NOW()
+  WHERE id = p_workflow_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION record_automation_run(UUID) TO service_role;
+
+-- ============================================================================
+-- SLACK - workflow posts are logged alongside the other alert types
+-- ============================================================================
+ALTER TYPE slack_alert_type ADD VALUE IF NOT EXISTS 'automation';
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+ALTER TABLE automation_workflows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE automation_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY automation_workflows_select ON automation_workflows
+  FOR SELECT USING (
+    project_id IN (
+      SELECT id FROM projects WHERE owner_id = auth.uid()
+      UNION
+      SELECT project_id FROM members WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY automation_runs_select ON automation_runs
+  FOR SELECT USING (
+    project_id IN (
+      SELECT id FROM projects WHERE owner_id = auth.uid()
+      UNION
+      SELECT project_id FROM members WHERE user_id = auth.uid()
+    )
+  );
+
+GRANT ALL ON automation_workflows TO service_role;
+GRANT ALL ON automation_runs TO service_role;
+
+COMMENT ON TABLE automation_workflows IS 'Per-project workflows run by the event bus when their trigger event matches the conditions';
+COMMENT ON TABLE automation_runs IS 'History of automation workflow runs, including test runs against sample events';
@@ -0,0 +1,61 @@
+-- =====================================================
+-- Event Handler Runs
+-- Processing checkpoints per (event, handler) pair, so the event processor
+-- retries only the handlers that failed instead of re-running every
+-- handler of the event, and dead-letters each failing handler on its own
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS event_handler_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  handler_name TEXT NOT NULL, -- e.g. 'handleFeedbackCreated'
+
+  idempotency_key TEXT NOT NULL, -- '<event_id>:<handler_name>', passed to the handler in metadata
+  status VARCHAR(20) NOT NULL
+    CHECK (status IN ('succeeded', 'failed', 'dead_lettered', 'skipped')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE (event_id, handler_name)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_event_handler_runs_idempotency_key
+  ON event_handler_runs(idempotency_key);
+CREATE INDEX IF NOT EXISTS idx_event_handler_runs_failed
+  ON event_handler_runs(handler_name, updated_at DESC) WHERE status IN ('failed', 'dead_lettered');
+
+-- The handler that failed, for entries dead-lettered by the event processor
+ALTER TABLE event_dead_letter_queue ADD COLUMN IF NOT EXISTS handler_name TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_event_dlq_handler
+  ON event_dead_letter_queue(handler_name, status) WHERE handler_name IS NOT NULL;
+
+-- One-off side effects of a handler attempt (e.g. a Slack alert), claimed
+-- by its idempotency key before they happen so a retry doesn't repeat them
+CREATE TABLE IF NOT EXISTS event_handler_effects (
+  idempotency_key TEXT PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- The handler attempt that wrote each sentiment, so a retry doesn't analyse again
+ALTER TABLE sentiment_analysis ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sentiment_analysis_idempotency_key
+  ON sentiment_analysis(idempotency_key);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+ALTER TABLE event_handler_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_handler_effects ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON event_handler_runs TO service_role;
+GRANT ALL ON event_handler_effects TO service_role;
+
+COMMENT ON TABLE event_handler_runs IS 'Per-handler processing status of domain events, used to retry only failed handlers';
+COMMENT ON COLUMN event_dead_letter_queue.handler_name IS 'Handler that failed; NULL when the whole event failed';
+COMMENT ON TABLE event_handler_effects IS 'Idempotency keys of handler attempts whose one-off side effect (e.g. a Slack alert) already happened';
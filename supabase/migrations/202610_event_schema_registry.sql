@@ -0,0 +1,47 @@
+-- =====================================================
+-- Event Schema Registry - Quarantine
+-- Events that do not match the payload schema registered for their type
+-- and version are kept here instead of the event store, so a producer
+-- change cannot feed malformed events to agents
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS event_quarantine (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE, -- NULL when the event had no project
+
+  type TEXT NOT NULL,
+  aggregate_type TEXT,
+  aggregate_id TEXT,
+  payload JSONB NOT NULL DEFAULT '{}',
+  metadata JSONB NOT NULL DEFAULT '{}',
+  version INTEGER NOT NULL DEFAULT 1,
+
+  errors JSONB NOT NULL DEFAULT '[]',
+  -- Example: ["payload.feature_name is required", "payload.adoption_rate must be a number, got string"]
+  status VARCHAR(20) NOT NULL DEFAULT 'quarantined'
+    CHECK (status IN ('quarantined', 'released', 'discarded')),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_quarantine_project ON event_quarantine(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_event_quarantine_type ON event_quarantine(type, version) WHERE status = 'quarantined';
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+ALTER TABLE event_quarantine ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY event_quarantine_select ON event_quarantine
+  FOR SELECT USING (
+    project_id IN (
+      SELECT id FROM projects WHERE owner_id = auth.uid()
+      UNION
+      SELECT project_id FROM members WHERE user_id = auth.uid()
+    )
+  );
+
+GRANT ALL ON event_quarantine TO service_role;
+
+COMMENT ON TABLE event_quarantine IS 'Events rejected by the schema registry at publish time, with the validation errors';
@@ -0,0 +1,13 @@
+-- =====================================================
+-- GitHub Hunter Platform
+-- Adds GitHub (issues, issue comments, discussions) as a hunter platform,
+-- and per-integration sync state so hunters that poll incrementally can
+-- resume from their `since` cursors instead of a fixed lookback window.
+-- =====================================================
+
+ALTER TYPE platform_type ADD VALUE IF NOT EXISTS 'github';
+
+ALTER TABLE platform_integrations
+  ADD COLUMN IF NOT EXISTS sync_state JSONB DEFAULT '{}';
+
+COMMENT ON COLUMN platform_integrations.sync_state IS 'Per-hunter cursor state, committed after discovered items are stored, e.g. {"repos": {"acme/app": {"issues": "2026-10-19T00:00:00Z"}}} for GitHub';
@@ -0,0 +1,109 @@
+-- =====================================================
+-- Hunter Human-Review Queue
+-- Borderline relevance decisions wait here for a reviewer instead of
+-- being classified; reviewer labels calibrate per-project thresholds
+-- =====================================================
+
+-- ============================================================================
+-- RAW ITEMS: 'review' stage holds items until a reviewer decides
+-- ============================================================================
+ALTER TABLE hunter_raw_items DROP CONSTRAINT IF EXISTS hunter_raw_items_stage_check;
+ALTER TABLE hunter_raw_items ADD CONSTRAINT hunter_raw_items_stage_check
+  CHECK (stage IN ('discovered', 'filtered', 'review', 'classified', 'stored', 'excluded'));
+
+-- ============================================================================
+-- REVIEW QUEUE: one row per borderline raw item
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS hunter_review_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  scan_id UUID REFERENCES hunter_scans(id) ON DELETE SET NULL,
+  raw_item_id UUID NOT NULL UNIQUE REFERENCES hunter_raw_items(id) ON DELETE CASCADE,
+
+  platform TEXT NOT NULL,
+  external_url TEXT,
+  title TEXT,
+  content TEXT NOT NULL,
+  author TEXT,
+  posted_at TIMESTAMP WITH TIME ZONE,
+
+  -- Relevance filter output
+  relevance_score INTEGER NOT NULL,
+  confidence TEXT CHECK (confidence IN ('high', 'medium', 'low')),
+  reasoning TEXT,
+  filters_applied JSONB NOT NULL DEFAULT '{}',
+  instant_disqualification JSONB,
+  positive_signals TEXT[] NOT NULL DEFAULT '{}',
+
+  -- Reviewer decision
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'included', 'excluded')),
+  feedback_id UUID REFERENCES discovered_feedback(id) ON DELETE SET NULL,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_hunter_review_queue_pending
+  ON hunter_review_queue(project_id, created_at DESC)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_hunter_review_queue_labels
+  ON hunter_review_queue(project_id, reviewed_at DESC)
+  WHERE status <> 'pending';
+
+-- Items already filtered to human_review were waiting for the classify
+-- worker; move them into the queue instead
+INSERT INTO hunter_review_queue (
+  project_id, scan_id, raw_item_id, platform, external_url, title, content,
+  author, posted_at, relevance_score, reasoning
+)
+SELECT project_id, scan_id, id, platform, external_url, title, content,
+  author, posted_at, COALESCE(relevance_score, 50), relevance_reason
+FROM hunter_raw_items
+WHERE stage = 'filtered' AND relevance_decision = 'human_review'
+ON CONFLICT (raw_item_id) DO NOTHING;
+
+UPDATE hunter_raw_items
+SET stage = 'review'
+WHERE stage = 'filtered' AND relevance_decision = 'human_review';
+
+-- ============================================================================
+-- THRESHOLDS: learned from reviewer labels, read by the relevance worker
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS hunter_relevance_thresholds (
+  project_id UUID PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+  include_threshold INTEGER NOT NULL DEFAULT 80,
+  exclude_threshold INTEGER NOT NULL DEFAULT 60,
+  labelled_count INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT hunter_relevance_thresholds_order CHECK (exclude_threshold < include_threshold)
+);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+ALTER TABLE hunter_review_queue ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hunter_relevance_thresholds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project owners can read their review queue"
+  ON hunter_review_queue FOR SELECT
+  USING (
+    project_id IN (SELECT id FROM projects WHERE owner_id = auth.uid())
+  );
+
+CREATE POLICY "Project owners can read their relevance thresholds"
+  ON hunter_relevance_thresholds FOR SELECT
+  USING (
+    project_id IN (SELECT id FROM projects WHERE owner_id = auth.uid())
+  );
+
+CREATE POLICY "Service role manages review queue"
+  ON hunter_review_queue FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role manages relevance thresholds"
+  ON hunter_relevance_thresholds FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE hunter_review_queue IS 'Hunter items the relevance filter sent to human_review, with the reviewer''s include/exclude label';
+COMMENT ON TABLE hunter_relevance_thresholds IS 'Per-project include/exclude score thresholds calibrated from review labels';
@@ -0,0 +1,105 @@
+-- =====================================================
+-- Hunter Scan Analytics
+-- Per-scan funnel counts, and the AI/API spend of each scan stage,
+-- attributed to the keyword, subreddit or tag that surfaced the items
+-- =====================================================
+
+-- ============================================================================
+-- RAW ITEMS: the configured source that surfaced each item
+-- ('keyword:<term>', 'r/<subreddit>', 'tag:<tag>')
+-- ============================================================================
+ALTER TABLE hunter_raw_items ADD COLUMN IF NOT EXISTS source TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_hunter_raw_items_project_source
+  ON hunter_raw_items(project_id, platform, source, created_at DESC);
+
+-- ============================================================================
+-- USAGE: paid model calls per scan, stage and source
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS hunter_scan_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scan_id UUID NOT NULL REFERENCES hunter_scans(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL,
+  stage TEXT NOT NULL CHECK (stage IN ('discovery', 'relevance', 'classify')),
+
+  provider TEXT NOT NULL CHECK (provider IN ('openai', 'grok')),
+  model TEXT NOT NULL,
+  -- NULL when the calls covered items from several sources
+  source TEXT,
+
+  calls INTEGER NOT NULL DEFAULT 0,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12,6) NOT NULL DEFAULT 0,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_hunter_scan_usage_project
+  ON hunter_scan_usage(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_hunter_scan_usage_scan
+  ON hunter_scan_usage(scan_id);
+
+-- ============================================================================
+-- FUNNEL: discovered -> relevant -> classified -> stored per scan and source
+-- ============================================================================
+CREATE OR REPLACE FUNCTION get_hunter_scan_funnel(
+  p_project_id UUID,
+  p_since TIMESTAMPTZ
+)
+RETURNS TABLE (
+  scan_id UUID,
+  started_at TIMESTAMPTZ,
+  platform TEXT,
+  source TEXT,
+  discovered BIGINT,
+  relevant BIGINT,
+  review BIGINT,
+  excluded BIGINT,
+  classified BIGINT,
+  stored BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    i.scan_id,
+    s.started_at,
+    i.platform,
+    i.source,
+    COUNT(*) AS discovered,
+    COUNT(*) FILTER (
+      WHERE i.relevance_decision = 'include' OR i.stage IN ('classified', 'stored')
+    ) AS relevant,
+    COUNT(*) FILTER (WHERE i.stage = 'review') AS review,
+    COUNT(*) FILTER (WHERE i.stage = 'excluded') AS excluded,
+    COUNT(*) FILTER (WHERE i.stage IN ('classified', 'stored')) AS classified,
+    COUNT(*) FILTER (WHERE i.stage = 'stored') AS stored
+  FROM hunter_raw_items i
+  JOIN hunter_scans s ON s.id = i.scan_id
+  WHERE i.project_id = p_project_id
+    AND s.started_at >= p_since
+  GROUP BY i.scan_id, s.started_at, i.platform, i.source
+  ORDER BY s.started_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_hunter_scan_funnel(UUID, TIMESTAMPTZ) TO service_role;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+ALTER TABLE hunter_scan_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project owners can read their scan usage"
+  ON hunter_scan_usage FOR SELECT
+  USING (
+    project_id IN (SELECT id FROM projects WHERE owner_id = auth.uid())
+  );
+
+CREATE POLICY "Service role manages scan usage"
+  ON hunter_scan_usage FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE hunter_scan_usage IS 'Paid model calls made by each Hunter scan stage, with token counts and cost, for per-source yield and cost analytics';
+COMMENT ON FUNCTION get_hunter_scan_funnel IS 'Hunter funnel counts (discovered, relevant, classified, stored) per scan, platform and source';
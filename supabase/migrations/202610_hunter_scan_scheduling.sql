@@ -0,0 +1,92 @@
+-- =====================================================
+-- Hunter Scan Scheduling
+-- Per-platform cron schedules and quiet hours, and one-off historical
+-- backfills that walk back through a platform in time-window pages
+-- =====================================================
+
+-- ============================================================================
+-- SCHEDULES: cron expression and quiet hours per platform integration
+-- ============================================================================
+ALTER TABLE platform_integrations
+  ADD COLUMN IF NOT EXISTS scan_schedule TEXT,
+  ADD COLUMN IF NOT EXISTS schedule_timezone TEXT NOT NULL DEFAULT 'UTC',
+  ADD COLUMN IF NOT EXISTS quiet_hours JSONB;
+
+-- The hunter-scan cron now ticks every 15 minutes instead of every 8 hours.
+-- Integrations were effectively scanned 8-hourly, so keep that cadence
+-- rather than silently multiplying scan volume. Setup and the old column
+-- default both wrote 15 minutes, so only rows still at that value (and
+-- without a cron schedule) move; frequencies owners chose are kept.
+ALTER TABLE platform_integrations ALTER COLUMN scan_frequency_minutes SET DEFAULT 480;
+UPDATE platform_integrations
+  SET scan_frequency_minutes = 480
+  WHERE scan_frequency_minutes = 15 AND scan_schedule IS NULL;
+
+COMMENT ON COLUMN platform_integrations.scan_schedule IS 'Five-field cron expression for scheduled scans; NULL scans every scan_frequency_minutes';
+COMMENT ON COLUMN platform_integrations.quiet_hours IS 'Daily window, {"start": "HH:MM", "end": "HH:MM"} in schedule_timezone, in which no scheduled or backfill scan starts';
+
+-- ============================================================================
+-- BACKFILLS: one walk back through a platform's history
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS hunter_backfills (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL,
+
+  months INTEGER NOT NULL CHECK (months BETWEEN 1 AND 24),
+  page_days INTEGER NOT NULL DEFAULT 7 CHECK (page_days BETWEEN 1 AND 31),
+  -- Pages walk back from `cursor` until they reach `stop_at`
+  cursor TIMESTAMP WITH TIME ZONE NOT NULL,
+  stop_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'complete', 'cancelled', 'failed')),
+  -- Scan for the page in flight, and its window
+  current_scan_id UUID REFERENCES hunter_scans(id) ON DELETE SET NULL,
+  current_window_start TIMESTAMP WITH TIME ZONE,
+  pages_completed INTEGER NOT NULL DEFAULT 0,
+  page_attempts INTEGER NOT NULL DEFAULT 0,
+  items_found INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- One active backfill per project and platform
+CREATE UNIQUE INDEX IF NOT EXISTS idx_hunter_backfills_active
+  ON hunter_backfills(project_id, platform)
+  WHERE status IN ('pending', 'running');
+CREATE INDEX IF NOT EXISTS idx_hunter_backfills_status
+  ON hunter_backfills(status, updated_at);
+
+-- ============================================================================
+-- SCANS: live scans look at recent content; backfill scans at one window
+-- ============================================================================
+ALTER TABLE hunter_scans
+  ADD COLUMN IF NOT EXISTS mode TEXT NOT NULL DEFAULT 'live' CHECK (mode IN ('live', 'backfill')),
+  ADD COLUMN IF NOT EXISTS backfill_id UUID REFERENCES hunter_backfills(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS window_start TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS window_end TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_hunter_scans_project_mode
+  ON hunter_scans(project_id, mode, status);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+ALTER TABLE hunter_backfills ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project owners can read their backfills"
+  ON hunter_backfills FOR SELECT
+  USING (
+    project_id IN (SELECT id FROM projects WHERE owner_id = auth.uid())
+  );
+
+CREATE POLICY "Service role manages backfills"
+  ON hunter_backfills FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE hunter_backfills IS 'Historical Hunter backfills, scanned one time-window page at a time behind live scans';
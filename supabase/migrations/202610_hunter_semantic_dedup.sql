@@ -0,0 +1,196 @@
+-- =====================================================
+-- Hunter Semantic Deduplication
+-- Embeddings for discovered feedback, and mentions that link cross-posted
+-- copies of the same feedback to one canonical item
+-- =====================================================
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- ============================================================================
+-- CONFIG: per-project similarity threshold for linking mentions
+-- ============================================================================
+ALTER TABLE hunter_configs
+  ADD COLUMN IF NOT EXISTS dedup_similarity_threshold NUMERIC(3,2) NOT NULL DEFAULT 0.88
+  CHECK (dedup_similarity_threshold >= 0.5 AND dedup_similarity_threshold <= 1);
+
+-- ============================================================================
+-- EMBEDDINGS: one per canonical discovered_feedback row
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS discovered_feedback_embeddings (
+  feedback_id UUID PRIMARY KEY REFERENCES discovered_feedback(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  embedding vector(1536) NOT NULL,
+  content_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_discovered_feedback_embeddings_project
+  ON discovered_feedback_embeddings(project_id);
+CREATE INDEX IF NOT EXISTS discovered_feedback_embeddings_hnsw_idx
+  ON discovered_feedback_embeddings USING hnsw (embedding vector_cosine_ops);
+
+-- ============================================================================
+-- MENTIONS: duplicates found on other platforms or in later scans
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS discovered_feedback_mentions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  feedback_id UUID NOT NULL REFERENCES discovered_feedback(id) ON DELETE CASCADE,
+
+  platform platform_type NOT NULL,
+  platform_id TEXT NOT NULL,
+  platform_url TEXT NOT NULL DEFAULT '',
+  author_username TEXT,
+  title TEXT,
+  content TEXT NOT NULL,
+  engagement_score INTEGER NOT NULL DEFAULT 0,
+  engagement_metrics JSONB NOT NULL DEFAULT '{}',
+
+  -- How the mention was linked: the source platform's own duplicate marker,
+  -- or embedding similarity above the project threshold
+  match_reason TEXT NOT NULL CHECK (match_reason IN ('source_duplicate', 'embedding')),
+  similarity NUMERIC(4,3) NOT NULL,
+
+  discovered_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(project_id, platform, platform_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_discovered_feedback_mentions_feedback
+  ON discovered_feedback_mentions(feedback_id);
+
+-- ============================================================================
+-- AGGREGATES: canonical items carry their mentions' count and engagement
+-- ============================================================================
+ALTER TABLE discovered_feedback
+  ADD COLUMN IF NOT EXISTS mention_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS mentions_engagement_score INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE discovered_feedback
+  ADD COLUMN IF NOT EXISTS aggregated_engagement_score INTEGER
+  GENERATED ALWAYS AS (COALESCE(engagement_score, 0) + mentions_engagement_score) STORED;
+
+CREATE OR REPLACE FUNCTION refresh_feedback_mention_totals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target UUID;
+BEGIN
+  FOR target IN
+    SELECT DISTINCT id FROM (VALUES
+      (CASE WHEN TG_OP <> 'INSERT' THEN OLD.feedback_id END),
+      (CASE WHEN TG_OP <> 'DELETE' THEN NEW.feedback_id END)
+    ) AS affected(id)
+    WHERE id IS NOT NULL
+  LOOP
+    UPDATE discovered_feedback
+    SET
+      mention_count = totals.mention_count,
+      mentions_engagement_score = totals.engagement_score
+    FROM (
+      SELECT COUNT(*)::INTEGER AS mention_count, COALESCE(SUM(engagement_score), 0)::INTEGER AS engagement_score
+      FROM discovered_feedback_mentions
+      WHERE feedback_id = target
+    ) AS totals
+    WHERE discovered_feedback.id = target;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_refresh_feedback_mention_totals ON discovered_feedback_mentions;
+CREATE TRIGGER trigger_refresh_feedback_mention_totals
+AFTER INSERT OR UPDATE OR DELETE ON discovered_feedback_mentions
+FOR EACH ROW
+EXECUTE FUNCTION refresh_feedback_mention_totals();
+
+-- ============================================================================
+-- SEARCH: nearest canonical item above the threshold
+-- ============================================================================
+CREATE OR REPLACE FUNCTION match_discovered_feedback(
+  p_project_id UUID,
+  p_query_embedding vector(1536),
+  p_similarity_threshold FLOAT DEFAULT 0.88,
+  p_limit INTEGER DEFAULT 1
+)
+RETURNS TABLE (
+  feedback_id UUID,
+  platform TEXT,
+  platform_id TEXT,
+  similarity FLOAT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    df.id AS feedback_id,
+    df.platform::TEXT,
+    df.platform_id,
+    1 - (e.embedding <=> p_query_embedding) AS similarity
+  FROM discovered_feedback_embeddings e
+  JOIN discovered_feedback df ON df.id = e.feedback_id
+  WHERE e.project_id = p_project_id
+    AND df.is_duplicate = false
+    AND df.is_archived = false
+    AND 1 - (e.embedding <=> p_query_embedding) >= p_similarity_threshold
+  ORDER BY e.embedding <=> p_query_embedding
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+REVOKE EXECUTE ON FUNCTION match_discovered_feedback(UUID, vector(1536), FLOAT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION match_discovered_feedback(UUID, vector(1536), FLOAT, INTEGER) TO service_role;
+
+-- ============================================================================
+-- BACKFILL: canonical items stored before embeddings existed
+-- ============================================================================
+CREATE OR REPLACE FUNCTION get_discovered_feedback_without_embeddings(p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  id UUID,
+  project_id UUID,
+  title TEXT,
+  content TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT df.id, df.project_id, df.title::TEXT, df.content::TEXT
+  FROM discovered_feedback df
+  LEFT JOIN discovered_feedback_embeddings e ON e.feedback_id = df.id
+  WHERE e.feedback_id IS NULL
+    AND df.is_duplicate = false
+    AND df.is_archived = false
+  ORDER BY df.discovered_at DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+REVOKE EXECUTE ON FUNCTION get_discovered_feedback_without_embeddings(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_discovered_feedback_without_embeddings(INTEGER) TO service_role;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+ALTER TABLE discovered_feedback_embeddings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE discovered_feedback_mentions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project owners can read their feedback mentions"
+  ON discovered_feedback_mentions FOR SELECT
+  USING (
+    project_id IN (SELECT id FROM projects WHERE owner_id = auth.uid())
+  );
+
+CREATE POLICY "Service role manages feedback embeddings"
+  ON discovered_feedback_embeddings FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role manages feedback mentions"
+  ON discovered_feedback_mentions FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE discovered_feedback_embeddings IS 'Embeddings of canonical Hunter feedback, used to link semantic duplicates across platforms and scans';
+COMMENT ON TABLE discovered_feedback_mentions IS 'Cross-posted or repeated copies of a discovered_feedback item, linked instead of stored as separate rows';
+COMMENT ON FUNCTION match_discovered_feedback IS 'Nearest canonical Hunter feedback by embedding similarity (for semantic deduplication)';
+COMMENT ON FUNCTION get_discovered_feedback_without_embeddings IS 'Canonical Hunter feedback not yet indexed for semantic deduplication, newest first';
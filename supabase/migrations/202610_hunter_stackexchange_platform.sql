@@ -0,0 +1,7 @@
+-- =====================================================
+-- Stack Exchange Hunter Platform
+-- Adds Stack Overflow / Stack Exchange questions and answers as a hunter
+-- platform. Site, tag and API key settings live in platform_integrations.config.
+-- =====================================================
+
+ALTER TYPE platform_type ADD VALUE IF NOT EXISTS 'stackexchange';
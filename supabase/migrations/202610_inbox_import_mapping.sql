@@ -0,0 +1,63 @@
+-- =====================================================
+-- Inbox Import Mapping
+-- Uploaded CSV/JSON/JSONL/XLSX imports held between preview and commit,
+-- and a per-row hash that makes committing an import idempotent
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS inbox_imports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  filename VARCHAR(255) NOT NULL,
+  format VARCHAR(10) NOT NULL CHECK (format IN ('csv', 'json', 'jsonl', 'xlsx')),
+  source_label VARCHAR(255),
+
+  -- Parsed upload: header names and one string record per data row
+  columns JSONB NOT NULL DEFAULT '[]',
+  rows JSONB NOT NULL DEFAULT '[]',
+
+  detected_mapping JSONB DEFAULT '{}',
+  mapping JSONB DEFAULT '{}',
+  -- Example: {"content": "details", "title": "title", "authorEmail": "author.email"}
+  date_format VARCHAR(20) DEFAULT 'auto',
+
+  status VARCHAR(20) NOT NULL DEFAULT 'previewed'
+    CHECK (status IN ('previewed', 'committed', 'failed')),
+  total_rows INTEGER DEFAULT 0,
+  imported_count INTEGER DEFAULT 0,
+  duplicate_count INTEGER DEFAULT 0,
+  invalid_count INTEGER DEFAULT 0,
+
+  committed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbox_imports_project ON inbox_imports(project_id, created_at DESC);
+
+-- Imported items are keyed on their row hash; NULL for synced items
+ALTER TABLE unified_feedback_items
+  ADD COLUMN IF NOT EXISTS import_row_hash VARCHAR(64);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ufi_import_row_hash
+  ON unified_feedback_items(project_id, import_row_hash);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+ALTER TABLE inbox_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY inbox_imports_select ON inbox_imports
+  FOR SELECT USING (
+    project_id IN (
+      SELECT id FROM projects WHERE owner_id = auth.uid()
+      UNION
+      SELECT project_id FROM members WHERE user_id = auth.uid()
+    )
+  );
+
+GRANT ALL ON inbox_imports TO service_role;
+
+COMMENT ON TABLE inbox_imports IS 'Uploaded feedback imports awaiting or after commit, with their column mapping';
+COMMENT ON COLUMN unified_feedback_items.import_row_hash IS 'Hash of an imported row''s content, title, author email and date; repeat imports skip matching rows';
@@ -0,0 +1,35 @@
+-- =====================================================
+-- Inbound Email
+-- Per-project feedback+<token>@ addresses for forwarded email, and
+-- attachments kept with the inbox items they arrived on
+-- =====================================================
+
+-- One address token per inbound email integration
+CREATE UNIQUE INDEX IF NOT EXISTS idx_feedback_integrations_inbound_token
+  ON feedback_integrations ((config->>'inboundToken'))
+  WHERE integration_type = 'email_inbound';
+
+ALTER TABLE unified_feedback_items
+  ADD COLUMN IF NOT EXISTS attachments JSONB DEFAULT '[]';
+  -- Example: [{"filename": "invoice.pdf", "contentType": "application/pdf", "size": 48213,
+  --            "inline": false, "storagePath": "<project_id>/<sha256>/invoice.pdf"}]
+
+-- ============================================================================
+-- ATTACHMENT STORAGE
+-- ============================================================================
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('inbox-attachments', 'inbox-attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Objects are stored under <project_id>/, readable by the project's team
+CREATE POLICY inbox_attachments_select ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'inbox-attachments'
+    AND (storage.foldername(name))[1]::uuid IN (
+      SELECT id FROM projects WHERE owner_id = auth.uid()
+      UNION
+      SELECT project_id FROM members WHERE user_id = auth.uid()
+    )
+  );
+
+COMMENT ON COLUMN unified_feedback_items.attachments IS 'Files attached to the source message, stored in the inbox-attachments bucket';
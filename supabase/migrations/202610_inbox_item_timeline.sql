@@ -0,0 +1,40 @@
+-- =====================================================
+-- Inbox Item Timeline
+-- Activity recorded against unified feedback items, starting with replies
+-- sent back to the source channel from the inbox
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS inbox_item_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  item_id UUID NOT NULL REFERENCES unified_feedback_items(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+
+  event_type VARCHAR(50) NOT NULL CHECK (event_type IN ('reply_sent', 'reply_failed')),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  content TEXT,
+  metadata JSONB DEFAULT '{}',
+  -- Example: {"via": "slack", "externalId": "1712345678.000200"}
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbox_item_events_item ON inbox_item_events(item_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_inbox_item_events_project ON inbox_item_events(project_id, created_at DESC);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+ALTER TABLE inbox_item_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY item_events_select ON inbox_item_events
+  FOR SELECT USING (
+    project_id IN (
+      SELECT id FROM projects WHERE owner_id = auth.uid()
+      UNION
+      SELECT project_id FROM members WHERE user_id = auth.uid()
+    )
+  );
+
+GRANT ALL ON inbox_item_events TO service_role;
+
+COMMENT ON TABLE inbox_item_events IS 'Timeline of activity on inbox items, such as replies sent to the source';
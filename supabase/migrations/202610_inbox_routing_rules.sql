@@ -0,0 +1,120 @@
+-- =====================================================
+-- Inbox Routing Rules
+-- Project-defined rules evaluated on every synced inbox item: conditions
+-- on source, keywords, sentiment, customer tier, language and
+-- classification; actions that assign, tag, prioritise, archive, convert
+-- to a board post or post to Slack
+-- =====================================================
+
+-- ============================================================================
+-- TRIAGE FIELDS on unified feedback items
+-- ============================================================================
+ALTER TABLE unified_feedback_items
+  ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS priority VARCHAR(10) CHECK (priority IN ('low', 'medium', 'high', 'urgent'));
+
+CREATE INDEX IF NOT EXISTS idx_ufi_assigned ON unified_feedback_items(project_id, assigned_to) WHERE assigned_to IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_ufi_priority ON unified_feedback_items(project_id, priority) WHERE priority IS NOT NULL;
+
+-- ============================================================================
+-- SLACK - rule posts are logged alongside the other alert types
+-- ============================================================================
+ALTER TYPE slack_alert_type ADD VALUE IF NOT EXISTS 'inbox_routing';
+
+-- ============================================================================
+-- ROUTING RULES
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS inbox_routing_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  enabled BOOLEAN DEFAULT true,
+  position INTEGER NOT NULL DEFAULT 0, -- Rules run in ascending position
+
+  conditions JSONB NOT NULL DEFAULT '{}',
+  -- Example: {"sourceTypes": ["zendesk"], "keywords": ["refund"], "customerTiers": ["enterprise"]}
+  actions JSONB NOT NULL DEFAULT '[]',
+  -- Example: [{"type": "assign", "userId": "..."}, {"type": "set_priority", "priority": "high"}]
+  stop_processing BOOLEAN DEFAULT false, -- Skip later rules once this one matches
+
+  match_count INTEGER DEFAULT 0,
+  last_matched_at TIMESTAMP WITH TIME ZONE,
+
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbox_routing_rules_project ON inbox_routing_rules(project_id, position);
+
+-- Counts matches atomically so concurrent syncs don't overwrite each other
+CREATE OR REPLACE FUNCTION record_routing_rule_matches(p_rule_id UUID, p_count INTEGER)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE inbox_routing_rules
+  SET
+    match_count = COALESCE(match_count, 0) + p_count,
+    last_matched_at = NOW()
+  WHERE id = p_rule_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION record_routing_rule_matches(UUID, INTEGER) TO service_role;
+
+-- ============================================================================
+-- RULE MATCHES - which rule touched which item
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS inbox_rule_matches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  rule_id UUID NOT NULL REFERENCES inbox_routing_rules(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES unified_feedback_items(id) ON DELETE CASCADE,
+  actions TEXT[] DEFAULT '{}',
+  errors TEXT[] DEFAULT '{}',
+  matched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbox_rule_matches_rule ON inbox_rule_matches(rule_id, matched_at DESC);
+CREATE INDEX IF NOT EXISTS idx_inbox_rule_matches_item ON inbox_rule_matches(item_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+ALTER TABLE inbox_routing_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inbox_rule_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY routing_rules_select ON inbox_routing_rules
+  FOR SELECT USING (
+    project_id IN (
+      SELECT id FROM projects WHERE owner_id = auth.uid()
+      UNION
+      SELECT project_id FROM members WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY routing_rules_all ON inbox_routing_rules
+  FOR ALL USING (
+    project_id IN (
+      SELECT id FROM projects WHERE owner_id = auth.uid()
+      UNION
+      SELECT project_id FROM members WHERE user_id = auth.uid() AND role IN ('admin', 'editor')
+    )
+  );
+
+CREATE POLICY rule_matches_select ON inbox_rule_matches
+  FOR SELECT USING (
+    project_id IN (
+      SELECT id FROM projects WHERE owner_id = auth.uid()
+      UNION
+      SELECT project_id FROM members WHERE user_id = auth.uid()
+    )
+  );
+
+GRANT ALL ON inbox_routing_rules TO service_role;
+GRANT ALL ON inbox_rule_matches TO service_role;
+
+COMMENT ON TABLE inbox_routing_rules IS 'Per-project rules applied to every synced inbox item, in position order';
+COMMENT ON TABLE inbox_rule_matches IS 'History of routing rule matches and the actions they applied';
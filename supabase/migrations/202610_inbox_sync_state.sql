@@ -0,0 +1,11 @@
+-- =====================================================
+-- Incremental Sync State for Universal Inbox Integrations
+-- Syncers that page through a source with cursors (Zendesk incremental
+-- export, Typeform responses) persist where they stopped so the next run
+-- resumes there instead of re-reading the whole window.
+-- =====================================================
+
+ALTER TABLE feedback_integrations
+  ADD COLUMN IF NOT EXISTS sync_state JSONB DEFAULT '{}';
+
+COMMENT ON COLUMN feedback_integrations.sync_state IS 'Per-syncer cursor state, e.g. {"afterCursor": "..."} for Zendesk';
@@ -0,0 +1,84 @@
+-- =====================================================
+-- Migration Imports
+-- Resumable imports of Canny, UserVoice and Productboard exports into
+-- boards, posts, votes, comments and the changelog, with a record of
+-- every row each run created so a run can be rolled back
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS migration_import_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  platform VARCHAR(20) NOT NULL CHECK (platform IN ('canny', 'uservoice', 'productboard')),
+  filename VARCHAR(255),
+
+  -- Normalised export: boards, posts, votes, comments, changelog
+  bundle JSONB NOT NULL,
+
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'paused', 'completed', 'failed', 'rolling_back', 'rolled_back')),
+  -- Resume position: the stage being imported and the index within it
+  stage VARCHAR(20) CHECK (stage IN ('board', 'post', 'vote', 'comment', 'changelog')),
+  cursor INTEGER NOT NULL DEFAULT 0,
+
+  summary JSONB NOT NULL DEFAULT '{}',
+  -- Example: {"entities": {"post": {"total": 120, "created": 118, "skipped": 2, "failed": 0}}, "warnings": [], "errors": []}
+  error TEXT,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  rolled_back_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_migration_import_runs_project
+  ON migration_import_runs(project_id, created_at DESC);
+
+-- One row per imported record. A target row belongs to the first run
+-- that claimed it, so later runs of the same export skip it.
+CREATE TABLE IF NOT EXISTS migration_import_records (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  run_id UUID NOT NULL REFERENCES migration_import_runs(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('board', 'post', 'vote', 'comment', 'changelog')),
+  source_id TEXT NOT NULL,
+  target_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE (project_id, entity_type, target_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_migration_import_records_run
+  ON migration_import_records(run_id, entity_type);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+ALTER TABLE migration_import_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE migration_import_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY migration_import_runs_select ON migration_import_runs
+  FOR SELECT USING (
+    project_id IN (
+      SELECT id FROM projects WHERE owner_id = auth.uid()
+      UNION
+      SELECT project_id FROM members WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY migration_import_records_select ON migration_import_records
+  FOR SELECT USING (
+    project_id IN (
+      SELECT id FROM projects WHERE owner_id = auth.uid()
+      UNION
+      SELECT project_id FROM members WHERE user_id = auth.uid()
+    )
+  );
+
+GRANT ALL ON migration_import_runs TO service_role;
+GRANT ALL ON migration_import_records TO service_role;
+
+COMMENT ON TABLE migration_import_runs IS 'Imports of Canny, UserVoice and Productboard exports, with progress and a summary report';
+COMMENT ON TABLE migration_import_records IS 'Rows created by each migration import run, used to skip re-imports and to roll a run back';
@@ -0,0 +1,24 @@
+-- =====================================================
+-- Scoped API Keys
+-- Keys carry a set of scopes, an optional expiry and an optional IP
+-- allow-list. Keys created before this migration have NULL scopes and
+-- keep full (admin) access.
+-- =====================================================
+
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS scopes TEXT[],
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS allowed_ips TEXT[];
+
+-- Dropped and re-added so the list stays current when scopes are added
+ALTER TABLE api_keys DROP CONSTRAINT IF EXISTS api_keys_scopes_valid;
+ALTER TABLE api_keys ADD CONSTRAINT api_keys_scopes_valid
+  CHECK (scopes <@ ARRAY['posts:read', 'posts:write', 'votes:write', 'export:read', 'webhooks:manage', 'admin']::TEXT[]);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_expires_at
+  ON api_keys(expires_at)
+  WHERE expires_at IS NOT NULL;
+
+COMMENT ON COLUMN api_keys.scopes IS 'Granted scopes; NULL means full access for keys created before scopes existed';
+COMMENT ON COLUMN api_keys.expires_at IS 'Key stops authenticating after this time; NULL never expires';
+COMMENT ON COLUMN api_keys.allowed_ips IS 'Addresses or IPv4 CIDR ranges the key may be used from; NULL or empty allows any';
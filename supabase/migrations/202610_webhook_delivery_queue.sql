@@ -0,0 +1,131 @@
+-- =====================================================
+-- Durable Webhook Delivery Queue
+-- Turns webhook_deliveries into a retry queue with exponential
+-- backoff, full request/response logging and redelivery, and
+-- auto-disables endpoints after repeated consecutive failures
+-- =====================================================
+
+-- ============================================================================
+-- DELIVERIES: one row per (event, endpoint), updated on every attempt
+-- ============================================================================
+ALTER TABLE webhook_deliveries
+  ADD COLUMN IF NOT EXISTS status VARCHAR(20),
+  ADD COLUMN IF NOT EXISTS attempt_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 8,
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS last_attempt_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS locked_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS request_url TEXT,
+  ADD COLUMN IF NOT EXISTS request_headers JSONB,
+  ADD COLUMN IF NOT EXISTS request_body TEXT,
+  ADD COLUMN IF NOT EXISTS response_headers JSONB,
+  ADD COLUMN IF NOT EXISTS attempts JSONB NOT NULL DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS redelivery_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- Legacy rows were written once per attempt with a final outcome; mark them
+-- terminal so the queue never re-sends them
+UPDATE webhook_deliveries
+SET status = CASE WHEN success THEN 'delivered' ELSE 'failed' END,
+    attempt_count = GREATEST(attempt_count, 1)
+WHERE status IS NULL;
+
+ALTER TABLE webhook_deliveries
+  ALTER COLUMN status SET DEFAULT 'pending',
+  ALTER COLUMN status SET NOT NULL,
+  ALTER COLUMN next_attempt_at SET DEFAULT NOW();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'webhook_deliveries_status_check'
+  ) THEN
+    ALTER TABLE webhook_deliveries ADD CONSTRAINT webhook_deliveries_status_check
+      CHECK (status IN ('pending', 'delivering', 'delivered', 'failed'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_queue
+  ON webhook_deliveries(status, next_attempt_at)
+  WHERE status IN ('pending', 'delivering');
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_project
+  ON webhook_deliveries(project_id, created_at DESC);
+
+-- ============================================================================
+-- ENDPOINT HEALTH
+-- ============================================================================
+ALTER TABLE feedback_webhooks
+  ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS disabled_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS disabled_reason TEXT;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Atomically claim due deliveries. Rows stuck in 'delivering' for more than
+-- 5 minutes (crashed worker) are reclaimed.
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(
+  p_limit INTEGER DEFAULT 25
+)
+RETURNS SETOF webhook_deliveries
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE webhook_deliveries
+  SET status = 'delivering',
+      locked_at = NOW()
+  WHERE id IN (
+    SELECT id
+    FROM webhook_deliveries
+    WHERE (status = 'pending' AND next_attempt_at <= NOW())
+       OR (status = 'delivering' AND locked_at < NOW() - INTERVAL '5 minutes')
+    ORDER BY next_attempt_at ASC
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+-- Record an endpoint failure and disable it once the threshold is reached.
+-- Returns true when this call disabled the endpoint.
+CREATE OR REPLACE FUNCTION record_webhook_failure(
+  p_webhook_id UUID,
+  p_status_code INTEGER,
+  p_disable_after INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_failures INTEGER;
+BEGIN
+  UPDATE feedback_webhooks
+  SET consecutive_failures = consecutive_failures + 1,
+      failure_count = COALESCE(failure_count, 0) + 1,
+      last_triggered_at = NOW(),
+      last_status_code = p_status_code
+  WHERE id = p_webhook_id
+  RETURNING consecutive_failures INTO v_failures;
+
+  IF v_failures IS NOT NULL AND v_failures >= p_disable_after THEN
+    UPDATE feedback_webhooks
+    SET is_active = false,
+        disabled_at = NOW(),
+        disabled_reason = format('Disabled after %s consecutive failed deliveries', v_failures)
+    WHERE id = p_webhook_id AND is_active = true;
+    RETURN FOUND;
+  END IF;
+
+  RETURN false;
+END;
+$$;
+
+COMMENT ON COLUMN webhook_deliveries.status IS 'pending → delivering → delivered | failed (retries exhausted)';
+COMMENT ON COLUMN webhook_deliveries.attempts IS 'Per-attempt log: [{attempt, status_code, error, duration_ms, attempted_at}]';
+COMMENT ON COLUMN feedback_webhooks.consecutive_failures IS 'Reset on success; endpoint is disabled when it reaches the threshold';
@@ -0,0 +1,22 @@
+-- =====================================================
+-- Domain Event Webhooks
+-- Every event-bus event can be subscribed to as a webhook. Deliveries
+-- record the source event so a retried event is never delivered twice
+-- to the same endpoint.
+-- =====================================================
+
+ALTER TABLE webhook_deliveries
+  ADD COLUMN IF NOT EXISTS event_id UUID REFERENCES events(id) ON DELETE SET NULL;
+
+-- NULLs are distinct, so application events and redeliveries are unaffected
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'webhook_deliveries_webhook_event_unique'
+  ) THEN
+    ALTER TABLE webhook_deliveries ADD CONSTRAINT webhook_deliveries_webhook_event_unique
+      UNIQUE (webhook_id, event_id);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN webhook_deliveries.event_id IS 'Source domain event (events.id) for event-bus webhooks';